@@ -0,0 +1,96 @@
+-- Migration: Record prompt versions on AI artifacts
+-- Date: 2026-10-19
+--
+-- Context:
+-- Prompts for /api/generate/* now come from a versioned registry on the API
+-- server (server/src/services/promptRegistry.ts), and users can be split
+-- between prompt versions for A/B tests. Each artifact records the prompt id
+-- and version that produced it so variants can be compared on output score
+-- and on how often users edit the result.
+--
+-- Changes:
+-- 1. ai_artifacts.prompt_id / prompt_version columns + index
+-- 2. get_prompt_version_stats(): per-version artifact count, users, score and edit rate
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Prompt attribution columns
+-- =====================================================================
+-- NULL for artifacts created before the registry existed.
+
+ALTER TABLE public.ai_artifacts
+  ADD COLUMN IF NOT EXISTS prompt_id text,
+  ADD COLUMN IF NOT EXISTS prompt_version integer CHECK (prompt_version >= 1);
+
+CREATE INDEX IF NOT EXISTS idx_ai_artifacts_prompt_version
+  ON public.ai_artifacts (prompt_id, prompt_version, created_at DESC)
+  WHERE prompt_id IS NOT NULL;
+
+COMMENT ON COLUMN public.ai_artifacts.prompt_id IS
+  'Prompt registry id that built the prompt (resume, cover_letter, ...). NULL for legacy rows.';
+COMMENT ON COLUMN public.ai_artifacts.prompt_version IS
+  'Prompt registry version; compare versions with get_prompt_version_stats().';
+
+-- =====================================================================
+-- STEP 2: Variant comparison
+-- =====================================================================
+-- score: the artifact's own 0-100 score where the kind produces one
+--   (content.score, content.matchScore or content.overall.global_score)
+-- edited: the user changed the artifact after it was generated
+-- Called by the server with the service role; aggregates only, no content.
+
+CREATE OR REPLACE FUNCTION public.get_prompt_version_stats(
+  p_prompt_id text,
+  p_since timestamp with time zone
+)
+RETURNS TABLE (
+  prompt_id text,
+  prompt_version integer,
+  artifacts bigint,
+  users bigint,
+  scored_artifacts bigint,
+  avg_score numeric,
+  edited_artifacts bigint,
+  edit_rate numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scored AS (
+    SELECT
+      a.prompt_id,
+      a.prompt_version,
+      a.user_id,
+      a.updated_at > a.created_at + interval '1 minute' AS edited,
+      CASE
+        WHEN jsonb_typeof(a.content -> 'score') = 'number'
+          THEN (a.content ->> 'score')::numeric
+        WHEN jsonb_typeof(a.content -> 'matchScore') = 'number'
+          THEN (a.content ->> 'matchScore')::numeric
+        WHEN jsonb_typeof(a.content #> '{overall,global_score}') = 'number'
+          THEN (a.content #>> '{overall,global_score}')::numeric
+      END AS score
+    FROM public.ai_artifacts a
+    WHERE a.prompt_id IS NOT NULL
+      AND (p_prompt_id IS NULL OR a.prompt_id = p_prompt_id)
+      AND a.created_at >= p_since
+  )
+  SELECT
+    s.prompt_id,
+    s.prompt_version,
+    COUNT(*) AS artifacts,
+    COUNT(DISTINCT s.user_id) AS users,
+    COUNT(s.score) AS scored_artifacts,
+    ROUND(AVG(s.score), 2) AS avg_score,
+    COUNT(*) FILTER (WHERE s.edited) AS edited_artifacts,
+    ROUND(COUNT(*) FILTER (WHERE s.edited)::numeric / COUNT(*), 4) AS edit_rate
+  FROM scored s
+  GROUP BY s.prompt_id, s.prompt_version
+  ORDER BY s.prompt_id, s.prompt_version;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_prompt_version_stats(text, timestamp with time zone)
+  FROM anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,118 @@
+-- Migration: AI usage ledger and per-user quotas
+-- Date: 2026-10-19
+--
+-- Context:
+-- Every AI generation now records its token usage, model, kind and an estimated
+-- cost so per-user daily/monthly quotas can be enforced by the API server and
+-- team admins can see AI spend across their members.
+--
+-- Changes:
+-- 1. ai_usage_ledger: one row per successful provider call (written by the server)
+-- 2. ai_usage_quotas: optional per-user overrides of the server's default limits
+-- 3. get_team_ai_spend(): per-member totals for a set of teams since a timestamp
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Usage ledger
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.ai_usage_ledger (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  -- What was generated and by whom
+  kind text NOT NULL,
+  provider text NOT NULL,
+  model text,
+  route text,
+  request_id text,
+
+  -- Usage
+  tokens integer NOT NULL DEFAULT 0 CHECK (tokens >= 0),
+  estimated_cost_usd numeric(12, 6) NOT NULL DEFAULT 0 CHECK (estimated_cost_usd >= 0),
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT ai_usage_ledger_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_ledger_user_created
+  ON public.ai_usage_ledger (user_id, created_at DESC);
+
+COMMENT ON TABLE public.ai_usage_ledger IS
+  'Token usage and estimated cost per AI generation. Written by the API server (service role).';
+COMMENT ON COLUMN public.ai_usage_ledger.estimated_cost_usd IS
+  'Blended per-model estimate from total tokens; not an invoice amount.';
+
+ALTER TABLE public.ai_usage_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS ai_usage_ledger_select_own ON public.ai_usage_ledger;
+CREATE POLICY ai_usage_ledger_select_own ON public.ai_usage_ledger
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 2: Per-user quota overrides
+-- =====================================================================
+-- NULL columns fall back to the server defaults (AI_DAILY_TOKEN_LIMIT,
+-- AI_MONTHLY_TOKEN_LIMIT, AI_MONTHLY_COST_LIMIT_USD). 0 means unlimited.
+
+CREATE TABLE IF NOT EXISTS public.ai_usage_quotas (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  daily_token_limit integer CHECK (daily_token_limit >= 0),
+  monthly_token_limit integer CHECK (monthly_token_limit >= 0),
+  monthly_cost_limit_usd numeric(10, 2) CHECK (monthly_cost_limit_usd >= 0),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT ai_usage_quotas_pkey PRIMARY KEY (user_id)
+);
+
+ALTER TABLE public.ai_usage_quotas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS ai_usage_quotas_select_own ON public.ai_usage_quotas;
+CREATE POLICY ai_usage_quotas_select_own ON public.ai_usage_quotas
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 3: Team spend aggregation
+-- =====================================================================
+-- Called by the server after it has verified the caller is a team admin.
+
+CREATE OR REPLACE FUNCTION public.get_team_ai_spend(
+  p_team_ids uuid[],
+  p_since timestamp with time zone
+)
+RETURNS TABLE (
+  team_id uuid,
+  user_id uuid,
+  full_name text,
+  generations bigint,
+  tokens bigint,
+  estimated_cost_usd numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    tm.team_id,
+    tm.user_id,
+    p.full_name,
+    COUNT(l.id) AS generations,
+    COALESCE(SUM(l.tokens), 0)::bigint AS tokens,
+    COALESCE(SUM(l.estimated_cost_usd), 0) AS estimated_cost_usd
+  FROM public.team_members tm
+  JOIN public.profiles p ON p.id = tm.user_id
+  LEFT JOIN public.ai_usage_ledger l
+    ON l.user_id = tm.user_id
+   AND l.created_at >= p_since
+  WHERE tm.team_id = ANY (p_team_ids)
+    AND tm.is_active
+  GROUP BY tm.team_id, tm.user_id, p.full_name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_team_ai_spend(uuid[], timestamp with time zone)
+  FROM anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,293 @@
+-- Migration: Pipeline automation rules
+-- Date: 2026-10-19
+--
+-- Context:
+-- The Automations page only bundled documents into a zip and kept "scheduled
+-- applications" in component state. Users can now store rules of the form
+-- trigger -> conditions -> actions that the API server runs for them, with
+-- every execution logged for auditing.
+--
+-- Changes:
+-- 1. automation_rules: user-defined rules (trigger, trigger config,
+--    conditions, actions)
+-- 2. automation_events: queue of row changes that can trigger a rule (job
+--    moved to a stage, interview scheduled), filled by triggers
+-- 3. automation_runs: one row per rule execution with per-action results;
+--    (rule_id, dedupe_key) makes sure a rule fires once per event / job
+-- 4. claim_automation_events(): lets the server lock a batch of events
+-- 5. scheduled_notifications accepts the 'automation' kind (reminders and
+--    teammate notifications created by rules)
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Rules
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.automation_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  enabled boolean NOT NULL DEFAULT true,
+
+  -- When the rule fires
+  trigger_type text NOT NULL
+    CHECK (trigger_type IN (
+      'job_stage_changed',
+      'deadline_approaching',
+      'no_response',
+      'interview_scheduled'
+    )),
+  -- e.g. {"to_stage": "Applied"}, {"days_before": 3}, {"stage": "Applied", "days": 14}
+  trigger_config jsonb NOT NULL DEFAULT '{}'::jsonb,
+
+  -- [{"field": "job.industry", "operator": "equals", "value": "Tech"}], all must match
+  conditions jsonb NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(conditions) = 'array'),
+  -- [{"type": "create_reminder", "config": {...}}], run in order
+  actions jsonb NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(actions) = 'array' AND jsonb_array_length(actions) > 0),
+
+  last_run_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT automation_rules_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rules_user
+  ON public.automation_rules (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rules_trigger
+  ON public.automation_rules (trigger_type)
+  WHERE enabled;
+
+DROP TRIGGER IF EXISTS trg_automation_rules_updated_at ON public.automation_rules;
+CREATE TRIGGER trg_automation_rules_updated_at
+  BEFORE UPDATE ON public.automation_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.automation_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS automation_rules_select_own ON public.automation_rules;
+CREATE POLICY automation_rules_select_own ON public.automation_rules
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS automation_rules_insert_own ON public.automation_rules;
+CREATE POLICY automation_rules_insert_own ON public.automation_rules
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS automation_rules_update_own ON public.automation_rules;
+CREATE POLICY automation_rules_update_own ON public.automation_rules
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS automation_rules_delete_own ON public.automation_rules;
+CREATE POLICY automation_rules_delete_own ON public.automation_rules
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 2: Trigger events
+-- =====================================================================
+-- Only written when the user has an enabled rule for the trigger type, so
+-- users without automations never fill the queue. Time-based triggers
+-- (deadline_approaching, no_response) are evaluated by the server instead.
+
+CREATE TABLE IF NOT EXISTS public.automation_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  trigger_type text NOT NULL
+    CHECK (trigger_type IN ('job_stage_changed', 'interview_scheduled')),
+  job_id bigint REFERENCES public.jobs(id) ON DELETE CASCADE,
+  interview_id uuid REFERENCES public.interviews(id) ON DELETE CASCADE,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'done', 'skipped')),
+  locked_at timestamp with time zone,
+  processed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT automation_events_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_events_pending
+  ON public.automation_events (created_at)
+  WHERE status IN ('pending', 'processing');
+
+COMMENT ON TABLE public.automation_events IS
+  'Row changes that can trigger automation rules. Written by triggers, consumed by the API server.';
+
+-- Server-only table: RLS on with no policies
+ALTER TABLE public.automation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.enqueue_job_stage_automation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.automation_rules r
+     WHERE r.user_id = NEW.user_id
+       AND r.enabled
+       AND r.trigger_type = 'job_stage_changed'
+  ) THEN
+    INSERT INTO public.automation_events (user_id, trigger_type, job_id, payload)
+    VALUES (
+      NEW.user_id,
+      'job_stage_changed',
+      NEW.id,
+      jsonb_build_object('from_stage', OLD.job_status, 'to_stage', NEW.job_status)
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_jobs_enqueue_automation ON public.jobs;
+CREATE TRIGGER trg_jobs_enqueue_automation
+  AFTER UPDATE OF job_status ON public.jobs
+  FOR EACH ROW
+  WHEN (OLD.job_status IS DISTINCT FROM NEW.job_status)
+  EXECUTE FUNCTION public.enqueue_job_stage_automation();
+
+CREATE OR REPLACE FUNCTION public.enqueue_interview_automation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.status, 'scheduled') <> 'scheduled' THEN
+    RETURN NULL;
+  END IF;
+  -- Rescheduling fires again; other edits to a scheduled interview do not
+  IF TG_OP = 'UPDATE'
+     AND OLD.interview_date = NEW.interview_date
+     AND COALESCE(OLD.status, 'scheduled') = 'scheduled' THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.automation_rules r
+     WHERE r.user_id = NEW.user_id
+       AND r.enabled
+       AND r.trigger_type = 'interview_scheduled'
+  ) THEN
+    INSERT INTO public.automation_events
+      (user_id, trigger_type, job_id, interview_id, payload)
+    VALUES (
+      NEW.user_id,
+      'interview_scheduled',
+      NEW.linked_job_id,
+      NEW.id,
+      jsonb_build_object(
+        'interview_date', NEW.interview_date,
+        'rescheduled', TG_OP = 'UPDATE'
+      )
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_interviews_enqueue_automation ON public.interviews;
+CREATE TRIGGER trg_interviews_enqueue_automation
+  AFTER INSERT OR UPDATE OF interview_date, status ON public.interviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_interview_automation();
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_job_stage_automation() FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_interview_automation() FROM anon, authenticated;
+
+-- =====================================================================
+-- STEP 3: Execution log
+-- =====================================================================
+-- Written by the server only; users can read their own runs. Runs outlive
+-- their rule (rule_id set to NULL, rule_name kept) so the audit stays whole.
+
+CREATE TABLE IF NOT EXISTS public.automation_runs (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  rule_id uuid REFERENCES public.automation_rules(id) ON DELETE SET NULL,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rule_name text NOT NULL,
+  trigger_type text NOT NULL,
+  event_id uuid REFERENCES public.automation_events(id) ON DELETE SET NULL,
+  job_id bigint REFERENCES public.jobs(id) ON DELETE SET NULL,
+  -- One run per rule and key: "event:<id>", "deadline:<job>:<date>", ...
+  dedupe_key text NOT NULL,
+
+  status text NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'success', 'partial', 'failed', 'skipped')),
+  -- [{"type": "move_stage", "status": "success", "output": {...}, "error": null}]
+  results jsonb NOT NULL DEFAULT '[]'::jsonb,
+  error text,
+
+  started_at timestamp with time zone NOT NULL DEFAULT now(),
+  finished_at timestamp with time zone,
+
+  CONSTRAINT automation_runs_pkey PRIMARY KEY (id),
+  CONSTRAINT automation_runs_dedupe_key UNIQUE (rule_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_runs_user
+  ON public.automation_runs (user_id, started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_automation_runs_rule
+  ON public.automation_runs (rule_id, started_at DESC);
+
+ALTER TABLE public.automation_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS automation_runs_select_own ON public.automation_runs;
+CREATE POLICY automation_runs_select_own ON public.automation_runs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 4: Claim pending events
+-- =====================================================================
+-- Same locking scheme as claim_due_notifications: SKIP LOCKED for several
+-- server instances, stale processing events reclaimed after p_stale_after.
+
+CREATE OR REPLACE FUNCTION public.claim_automation_events(
+  p_limit integer DEFAULT 50,
+  p_stale_after interval DEFAULT interval '10 minutes'
+)
+RETURNS SETOF public.automation_events
+LANGUAGE sql
+AS $$
+  UPDATE public.automation_events e
+     SET status = 'processing',
+         locked_at = now()
+   WHERE e.id IN (
+     SELECT id
+       FROM public.automation_events
+      WHERE status = 'pending'
+         OR (status = 'processing' AND locked_at < now() - p_stale_after)
+      ORDER BY created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+   )
+  RETURNING e.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_automation_events(integer, interval)
+  FROM anon, authenticated;
+
+-- =====================================================================
+-- STEP 5: Automation notifications
+-- =====================================================================
+
+ALTER TABLE public.scheduled_notifications
+  DROP CONSTRAINT IF EXISTS scheduled_notifications_kind_check;
+ALTER TABLE public.scheduled_notifications
+  ADD CONSTRAINT scheduled_notifications_kind_check
+  CHECK (kind IN ('interview_reminder', 'contact_reminder', 'followup_nudge', 'automation'));
+
+COMMIT;
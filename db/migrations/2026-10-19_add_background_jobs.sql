@@ -0,0 +1,137 @@
+-- Migration: Background job queue for long-running AI and scraping work
+-- Date: 2026-10-19
+--
+-- Context:
+-- Company research, career path simulation, market intelligence and
+-- Puppeteer job import ran inside the HTTP request and could hit the 120s AI
+-- or 30s scraper timeout before the browser gave up. They can now be queued:
+-- the API returns a job id at once, the API server runs the job, and clients
+-- poll or subscribe for progress. Jobs live in Postgres, so they survive a
+-- restart and can be picked up by any server instance.
+--
+-- Changes:
+-- 1. background_jobs: one row per job with input, progress, result and
+--    retry / cancellation bookkeeping
+-- 2. claim_background_jobs(): lets the server lock a batch of runnable jobs
+-- 3. release_background_jobs(): hands running jobs back on shutdown
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Jobs
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.background_jobs (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  kind text NOT NULL
+    CHECK (kind IN ('company_research', 'career_paths', 'market_intelligence', 'job_import')),
+  input jsonb NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Job state
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'cancelled')),
+  progress integer NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  progress_message text,
+  result jsonb,
+  attempts integer NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  max_attempts integer NOT NULL DEFAULT 3 CHECK (max_attempts >= 1),
+  -- Not claimed before this (retry backoff)
+  run_after timestamp with time zone NOT NULL DEFAULT now(),
+  last_error text,
+  -- Refreshed on every progress report; stale locks are reclaimed
+  locked_at timestamp with time zone,
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT background_jobs_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_background_jobs_runnable
+  ON public.background_jobs (run_after)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_background_jobs_user
+  ON public.background_jobs (user_id, created_at DESC);
+
+COMMENT ON TABLE public.background_jobs IS
+  'Long-running AI and scraping jobs queued through /api/background-jobs and run by the API server.';
+
+ALTER TABLE public.background_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS background_jobs_select_own ON public.background_jobs;
+CREATE POLICY background_jobs_select_own ON public.background_jobs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 2: Claim runnable jobs
+-- =====================================================================
+-- Marks up to p_limit runnable jobs as running and returns them, oldest
+-- first. SKIP LOCKED lets several server instances share the queue; jobs
+-- whose worker stopped reporting progress (crashed server) are reclaimed
+-- after p_stale_after.
+
+CREATE OR REPLACE FUNCTION public.claim_background_jobs(
+  p_limit integer DEFAULT 2,
+  p_stale_after interval DEFAULT interval '5 minutes'
+)
+RETURNS SETOF public.background_jobs
+LANGUAGE sql
+AS $$
+  UPDATE public.background_jobs j
+     SET status = 'running',
+         locked_at = now(),
+         started_at = COALESCE(j.started_at, now()),
+         attempts = j.attempts + 1,
+         updated_at = now()
+   WHERE j.id IN (
+     SELECT id
+       FROM public.background_jobs
+      WHERE run_after <= now()
+        AND (
+          status = 'pending'
+          OR (status = 'running' AND locked_at < now() - p_stale_after)
+        )
+      ORDER BY run_after
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+   )
+  RETURNING j.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_background_jobs(integer, interval)
+  FROM anon, authenticated;
+
+-- =====================================================================
+-- STEP 3: Release jobs on shutdown
+-- =====================================================================
+-- A server stopping cleanly puts its running jobs back in the queue without
+-- counting the interrupted attempt.
+
+CREATE OR REPLACE FUNCTION public.release_background_jobs(p_ids uuid[])
+RETURNS integer
+LANGUAGE sql
+AS $$
+  WITH released AS (
+    UPDATE public.background_jobs
+       SET status = 'pending',
+           attempts = GREATEST(attempts - 1, 0),
+           locked_at = NULL,
+           run_after = now(),
+           updated_at = now()
+     WHERE id = ANY(p_ids)
+       AND status = 'running'
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM released;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_background_jobs(uuid[])
+  FROM anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,62 @@
+-- Migration: Change events for server cache invalidation
+-- Date: 2026-10-19
+--
+-- Context:
+-- The API server caches comprehensive profiles and per-user analytics, in
+-- process or in Redis shared by several instances. Profile and job rows are
+-- mostly written by the frontend straight through Supabase, so the server
+-- listens to Supabase Realtime change events on those tables and drops the
+-- owner's cached entries (services/cacheService.ts, startCacheInvalidation).
+--
+-- Changes:
+-- 1. Add profiles, education, skills, employment, projects, certifications
+--    and jobs to the supabase_realtime publication (if not already there)
+-- 2. REPLICA IDENTITY FULL on the child tables, so DELETE events carry
+--    user_id (by default only the primary key is sent)
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Publish changes
+-- =====================================================================
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime'
+  ) THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH t IN ARRAY ARRAY[
+    'profiles', 'education', 'skills', 'employment', 'projects',
+    'certifications', 'jobs'
+  ] LOOP
+    IF NOT EXISTS (
+      SELECT 1
+        FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime'
+         AND schemaname = 'public'
+         AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- =====================================================================
+-- STEP 2: Owner column on deletes
+-- =====================================================================
+-- profiles is keyed by the user id already.
+
+ALTER TABLE public.education REPLICA IDENTITY FULL;
+ALTER TABLE public.skills REPLICA IDENTITY FULL;
+ALTER TABLE public.employment REPLICA IDENTITY FULL;
+ALTER TABLE public.projects REPLICA IDENTITY FULL;
+ALTER TABLE public.certifications REPLICA IDENTITY FULL;
+ALTER TABLE public.jobs REPLICA IDENTITY FULL;
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- Migration: Stored ATS keyword analysis for document versions
+-- Date: 2026-10-19
+--
+-- Context:
+-- document_versions.ats_score existed but nothing filled it in reproducibly.
+-- The API server now scores a resume version against a job description with a
+-- deterministic keyword analyzer (POST /api/ats/versions/:id, no AI) and keeps
+-- the breakdown next to the score so the editor can show matched / missing
+-- keywords and formatting risks inline.
+--
+-- Changes:
+-- 1. document_versions.ats_analysis: analyzer output for ats_score
+-- 2. document_versions.ats_job_id / ats_analyzed_at: job the score was
+--    computed against, and when
+
+BEGIN;
+
+ALTER TABLE public.document_versions
+  ADD COLUMN IF NOT EXISTS ats_analysis jsonb
+    CHECK (ats_analysis IS NULL OR jsonb_typeof(ats_analysis) = 'object'),
+  ADD COLUMN IF NOT EXISTS ats_job_id bigint REFERENCES public.jobs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS ats_analyzed_at timestamp with time zone;
+
+COMMENT ON COLUMN public.document_versions.ats_analysis IS
+  'Keyword analyzer output for ats_score: {version, score, breakdown, keywords, missing, sections, formatting}. Same content, job and template always give the same result for a given analyzer version.';
+
+COMMENT ON COLUMN public.document_versions.ats_job_id IS
+  'Job the ATS score was computed against (can differ from job_id, the job the version was written for).';
+
+COMMIT;
@@ -0,0 +1,88 @@
+-- Migration: Server-side document exports
+-- Date: 2026-10-19
+--
+-- Context:
+-- Exports are now rendered by the API server (POST /api/export/:format), stored in a
+-- private Supabase Storage bucket and recorded in export_history so past files can be
+-- re-downloaded exactly as they were sent.
+--
+-- Changes:
+-- 1. export_history.version_id becomes nullable (documents without a saved version
+--    can still be exported from their live content)
+-- 2. export_history gets sent_to, template_id and theme_id columns
+-- 3. Private 'exports' storage bucket with per-user folder policies
+-- 4. increment_document_exports() helper for documents.times_exported
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: export_history columns
+-- =====================================================================
+
+ALTER TABLE public.export_history
+  ALTER COLUMN version_id DROP NOT NULL;
+
+ALTER TABLE public.export_history
+  ADD COLUMN IF NOT EXISTS sent_to text,
+  ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES public.templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS theme_id uuid REFERENCES public.themes(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.export_history.version_id IS
+  'Version exported. Null when the document had no saved version at export time.';
+
+COMMENT ON COLUMN public.export_history.sent_to IS
+  'Company or recipient the export was prepared for (defaults to documents.target_company).';
+
+-- =====================================================================
+-- STEP 2: times_exported counter
+-- =====================================================================
+
+CREATE OR REPLACE FUNCTION public.increment_document_exports(p_document_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE public.documents
+  SET times_exported = times_exported + 1
+  WHERE id = p_document_id;
+$$;
+
+-- =====================================================================
+-- STEP 3: Storage bucket for exported files
+-- =====================================================================
+
+DO $$
+BEGIN
+  BEGIN
+    PERFORM storage.create_bucket('exports', false);
+    RAISE NOTICE 'Created storage bucket exports';
+  EXCEPTION WHEN undefined_function OR undefined_table THEN
+    RAISE NOTICE 'storage.create_bucket not available; create the exports bucket using the Supabase dashboard or CLI.';
+  WHEN unique_violation THEN
+    RAISE NOTICE 'exports bucket may already exist; skipping creation.';
+  END;
+END;
+$$;
+
+-- Files are written by the server (service role) under <user_id>/<document_id>/.
+-- Users may read their own files directly.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'storage'
+      AND tablename = 'objects'
+      AND policyname = 'exports_select_own'
+  ) THEN
+    CREATE POLICY exports_select_own ON storage.objects
+      FOR SELECT
+      USING (
+        bucket_id = 'exports'
+        AND (split_part(name, '/', 1))::uuid = auth.uid()
+      );
+  END IF;
+EXCEPTION WHEN undefined_table THEN
+  RAISE NOTICE 'storage.objects not available; skipping exports policies.';
+END;
+$$;
+
+COMMIT;
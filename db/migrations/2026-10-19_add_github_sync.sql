@@ -0,0 +1,134 @@
+-- Migration: Server-side GitHub repository sync
+-- Date: 2026-10-19
+--
+-- Context:
+-- The GitHub page (profile/github) read a `repositories` table filled by an
+-- edge function that only copied basic repo fields. The API server now links
+-- the user's GitHub account and syncs it as a background job
+-- (kind 'github_sync'): repositories, README, language byte breakdown and the
+-- owner's weekly commit counts. Skill evidence (languages used, recency,
+-- volume) is derived from these rows, and a repository can be turned into a
+-- `projects` entry.
+--
+-- Changes:
+-- 1. github_accounts: linked account per user; the access token is readable
+--    by the server only
+-- 2. repositories: created if missing, plus sync columns (github_id, README
+--    excerpt, languages, topics, commit activity, linked project)
+-- 3. background_jobs accepts the 'github_sync' kind
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Linked GitHub accounts
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.github_accounts (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  github_user_id bigint NOT NULL,
+  login text NOT NULL,
+  avatar_url text,
+  html_url text,
+
+  -- OAuth token from the GitHub sign-in (scopes: read:user public_repo)
+  access_token text NOT NULL,
+
+  last_synced_at timestamp with time zone,
+  last_sync_status text CHECK (last_sync_status IN ('succeeded', 'failed')),
+  last_sync_error text,
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT github_accounts_pkey PRIMARY KEY (user_id)
+);
+
+COMMENT ON TABLE public.github_accounts IS
+  'GitHub account linked through POST /api/github/account; synced by the API server.';
+
+ALTER TABLE public.github_accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS github_accounts_select_own ON public.github_accounts;
+CREATE POLICY github_accounts_select_own ON public.github_accounts
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Clients may read their link status but never the token
+REVOKE ALL ON public.github_accounts FROM anon, authenticated;
+GRANT SELECT (
+  user_id, github_user_id, login, avatar_url, html_url,
+  last_synced_at, last_sync_status, last_sync_error, created_at, updated_at
+) ON public.github_accounts TO authenticated;
+
+-- =====================================================================
+-- STEP 2: Repositories
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.repositories (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text,
+  full_name text,
+  description text,
+  html_url text,
+  language text,
+  stargazers_count integer DEFAULT 0,
+  forks_count integer DEFAULT 0,
+  pushed_at timestamp with time zone,
+  is_featured boolean DEFAULT false,
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+ALTER TABLE public.repositories
+  ADD COLUMN IF NOT EXISTS github_id bigint,
+  ADD COLUMN IF NOT EXISTS homepage text,
+  ADD COLUMN IF NOT EXISTS topics text[] NOT NULL DEFAULT ARRAY[]::text[],
+  ADD COLUMN IF NOT EXISTS is_fork boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS repo_created_at timestamp with time zone,
+  -- {"TypeScript": 120431, "CSS": 3012}: bytes per language (GitHub linguist)
+  ADD COLUMN IF NOT EXISTS languages jsonb NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(languages) = 'object'),
+  ADD COLUMN IF NOT EXISTS readme_excerpt text,
+  -- Owner's commits per week, oldest first (52 weeks ending at commits_synced_at)
+  ADD COLUMN IF NOT EXISTS weekly_commits integer[] NOT NULL DEFAULT ARRAY[]::integer[],
+  ADD COLUMN IF NOT EXISTS commits_last_year integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS commits_synced_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS repositories_user_github_id_key
+  ON public.repositories (user_id, github_id);
+
+COMMENT ON COLUMN public.repositories.github_id IS
+  'GitHub repository id. Rows from the old client-side sync have none until the next server sync matches them by full_name.';
+
+COMMENT ON COLUMN public.repositories.project_id IS
+  'projects entry created from this repository (POST /api/github/repositories/:id/project).';
+
+ALTER TABLE public.repositories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS repositories_select_own ON public.repositories;
+CREATE POLICY repositories_select_own ON public.repositories
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- The page toggles is_featured directly
+DROP POLICY IF EXISTS repositories_update_own ON public.repositories;
+CREATE POLICY repositories_update_own ON public.repositories
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 3: Background job kind
+-- =====================================================================
+
+ALTER TABLE public.background_jobs
+  DROP CONSTRAINT IF EXISTS background_jobs_kind_check;
+
+ALTER TABLE public.background_jobs
+  ADD CONSTRAINT background_jobs_kind_check
+  CHECK (kind IN ('company_research', 'career_paths', 'market_intelligence', 'job_import', 'github_sync'));
+
+COMMIT;
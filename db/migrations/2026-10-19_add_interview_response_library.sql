@@ -0,0 +1,189 @@
+-- Migration: Cloud-synced interview response library and practice history
+-- Date: 2026-10-19
+--
+-- Context:
+-- The question bank's response library (sgt:response_library), practiced
+-- questions (sgt:interview_question_practice) and technical prep attempts
+-- (sgt:technical_prep_attempts) lived in browser localStorage, so saved STAR
+-- stories and scores were lost when switching devices.
+--
+-- Changes:
+-- 1. interview_responses: one library entry per question, tagged by
+--    competency, skills, companies and free-form tags
+-- 2. interview_response_versions: each saved answer with its AI feedback/score
+-- 3. interview_response_jobs: reuse a saved answer across jobs
+-- 4. interview_practice_attempts: every practice attempt (question bank,
+--    technical prep, mock interview) with elapsed time, score and feedback
+--
+-- Questions are matched by question_key (md5 of the trimmed, lower-cased text)
+-- because generated question ids change on every bank generation.
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Response library
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.interview_responses (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  question_text text NOT NULL CHECK (btrim(question_text) <> ''),
+  question_key text GENERATED ALWAYS AS (md5(lower(btrim(question_text)))) STORED,
+  category text NOT NULL DEFAULT 'behavioral'
+    CHECK (category IN ('behavioral', 'technical', 'situational')),
+
+  competencies text[] NOT NULL DEFAULT '{}',
+  tags text[] NOT NULL DEFAULT '{}',
+  skills text[] NOT NULL DEFAULT '{}',
+  companies text[] NOT NULL DEFAULT '{}',
+
+  job_title text,
+  level text,
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT interview_responses_pkey PRIMARY KEY (id),
+  CONSTRAINT interview_responses_question_key UNIQUE (user_id, question_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_responses_user
+  ON public.interview_responses (user_id, updated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_interview_responses_competencies
+  ON public.interview_responses USING gin (competencies);
+
+DROP TRIGGER IF EXISTS trg_set_updated_at_interview_responses ON public.interview_responses;
+CREATE TRIGGER trg_set_updated_at_interview_responses
+  BEFORE UPDATE ON public.interview_responses
+  FOR EACH ROW EXECUTE PROCEDURE public.set_updated_at();
+
+COMMENT ON TABLE public.interview_responses IS
+  'Saved interview answers (e.g. STAR stories), one row per question per user.';
+
+
+CREATE TABLE IF NOT EXISTS public.interview_response_versions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  response_id uuid NOT NULL
+    REFERENCES public.interview_responses(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  content text NOT NULL,
+  -- AI review as returned by /api/generate/interview-feedback
+  ai_feedback jsonb,
+  score smallint CHECK (score IS NULL OR score BETWEEN 0 AND 100),
+  job_title text,
+  level text,
+  outcome text,
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT interview_response_versions_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_response_versions_response
+  ON public.interview_response_versions (response_id, created_at DESC);
+
+
+CREATE TABLE IF NOT EXISTS public.interview_response_jobs (
+  response_id uuid NOT NULL
+    REFERENCES public.interview_responses(id) ON DELETE CASCADE,
+  job_id bigint NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT interview_response_jobs_pkey PRIMARY KEY (response_id, job_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_response_jobs_job
+  ON public.interview_response_jobs (user_id, job_id);
+
+-- =====================================================================
+-- STEP 2: Practice attempts
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.interview_practice_attempts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  question_text text NOT NULL CHECK (btrim(question_text) <> ''),
+  question_key text GENERATED ALWAYS AS (md5(lower(btrim(question_text)))) STORED,
+  category text NOT NULL DEFAULT 'technical',
+  source text NOT NULL DEFAULT 'question_bank'
+    CHECK (source IN ('question_bank', 'technical_prep', 'mock_interview')),
+  -- Technical prep tab the attempt came from (coding, system-design, ...)
+  origin text,
+
+  response_text text,
+  elapsed_ms integer CHECK (elapsed_ms IS NULL OR elapsed_ms >= 0),
+  status text NOT NULL DEFAULT 'completed',
+  score smallint CHECK (score IS NULL OR score BETWEEN 0 AND 100),
+  feedback jsonb,
+  model_answer text,
+
+  job_id bigint REFERENCES public.jobs(id) ON DELETE SET NULL,
+  response_id uuid REFERENCES public.interview_responses(id) ON DELETE SET NULL,
+
+  practiced_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT interview_practice_attempts_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_practice_attempts_user
+  ON public.interview_practice_attempts (user_id, practiced_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_interview_practice_attempts_question
+  ON public.interview_practice_attempts (user_id, question_key, practiced_at);
+
+-- =====================================================================
+-- STEP 3: Row level security (owner-only)
+-- =====================================================================
+
+ALTER TABLE public.interview_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.interview_response_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.interview_response_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.interview_practice_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS interview_responses_own ON public.interview_responses;
+CREATE POLICY interview_responses_own ON public.interview_responses
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS interview_response_versions_own ON public.interview_response_versions;
+CREATE POLICY interview_response_versions_own ON public.interview_response_versions
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.interview_responses r
+       WHERE r.id = response_id AND r.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS interview_response_jobs_own ON public.interview_response_jobs;
+CREATE POLICY interview_response_jobs_own ON public.interview_response_jobs
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.interview_responses r
+       WHERE r.id = response_id AND r.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.jobs j
+       WHERE j.id = job_id AND j.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS interview_practice_attempts_own ON public.interview_practice_attempts;
+CREATE POLICY interview_practice_attempts_own ON public.interview_practice_attempts
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMIT;
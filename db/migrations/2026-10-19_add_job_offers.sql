@@ -0,0 +1,122 @@
+-- Migration: Persisted job offers with a total-compensation model
+-- Date: 2026-10-19
+--
+-- Context:
+-- The offer comparison dialog kept offers in localStorage (offers:compare)
+-- with flat annual numbers (salary, bonus, equityValue, benefitsValue), so
+-- offers were not tied to a job and vesting, refreshers or taxes were ignored.
+--
+-- Changes:
+-- 1. job_offers: one offer per job with the inputs of the compensation model
+--    (vesting schedule, refreshers, signing bonus amortization, 401k match,
+--    tax region and cost-of-living location) plus negotiation tracking
+-- 2. Owner-only RLS; the job must belong to the same user
+--
+-- Projections (1/2/4-year totals, break-even points) are computed by the API
+-- from these inputs (POST /api/offers/projection) and are not stored.
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: job_offers
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.job_offers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  job_id bigint NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+
+  currency text NOT NULL DEFAULT 'USD',
+
+  -- Cash
+  base_salary numeric(12, 2) NOT NULL DEFAULT 0 CHECK (base_salary >= 0),
+  annual_raise_pct numeric(5, 2) NOT NULL DEFAULT 0,
+  bonus_target numeric(12, 2) NOT NULL DEFAULT 0 CHECK (bonus_target >= 0),
+  signing_bonus numeric(12, 2) NOT NULL DEFAULT 0 CHECK (signing_bonus >= 0),
+  -- Signing bonus is spread over this period (usually the clawback period)
+  signing_amortization_months integer NOT NULL DEFAULT 12
+    CHECK (signing_amortization_months BETWEEN 1 AND 60),
+
+  -- Equity: total value of the initial grant, vested per schedule
+  equity_grant_value numeric(14, 2) NOT NULL DEFAULT 0 CHECK (equity_grant_value >= 0),
+  vesting_years integer NOT NULL DEFAULT 4 CHECK (vesting_years BETWEEN 1 AND 10),
+  vesting_cliff_months integer NOT NULL DEFAULT 12
+    CHECK (vesting_cliff_months BETWEEN 0 AND 60),
+  vesting_frequency text NOT NULL DEFAULT 'monthly'
+    CHECK (vesting_frequency IN ('monthly', 'quarterly', 'annual')),
+  -- Optional back-loaded schedule, % vesting in each year (e.g. {5,15,40,40})
+  vesting_year_percents numeric(5, 2)[],
+  refresher_annual_value numeric(14, 2) NOT NULL DEFAULT 0
+    CHECK (refresher_annual_value >= 0),
+  refresher_start_year integer NOT NULL DEFAULT 2
+    CHECK (refresher_start_year BETWEEN 1 AND 10),
+
+  -- Retirement match: employer matches match_pct % of contributions up to
+  -- match_limit_pct % of base salary
+  retirement_match_pct numeric(5, 2) NOT NULL DEFAULT 0,
+  retirement_match_limit_pct numeric(5, 2) NOT NULL DEFAULT 0,
+
+  benefits_value numeric(12, 2) NOT NULL DEFAULT 0 CHECK (benefits_value >= 0),
+
+  -- Location: tax region (ISO country + US state) and cost-of-living lookup
+  location text,
+  tax_country text NOT NULL DEFAULT 'US',
+  tax_state text,
+  -- Manual cost-of-living override (1.0 = US average); NULL = lookup by location
+  col_index numeric(4, 2) CHECK (col_index IS NULL OR col_index > 0),
+
+  remote_policy text,
+  culture_score smallint NOT NULL DEFAULT 5 CHECK (culture_score BETWEEN 0 AND 10),
+  growth_score smallint NOT NULL DEFAULT 5 CHECK (growth_score BETWEEN 0 AND 10),
+  worklife_score smallint NOT NULL DEFAULT 5 CHECK (worklife_score BETWEEN 0 AND 10),
+
+  -- Negotiation tracking (fed into /api/analytics/salary)
+  initial_base_salary numeric(12, 2),
+  offer_received_date date,
+  negotiation_outcome text
+    CHECK (negotiation_outcome IN ('accepted', 'declined', 'countered', 'pending', 'withdrawn')),
+
+  status text NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'accepted', 'declined', 'archived')),
+  archive_reason text,
+  notes text,
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT job_offers_pkey PRIMARY KEY (id),
+  CONSTRAINT job_offers_job_unique UNIQUE (job_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_offers_user
+  ON public.job_offers (user_id, status, updated_at DESC);
+
+DROP TRIGGER IF EXISTS trg_set_updated_at_job_offers ON public.job_offers;
+CREATE TRIGGER trg_set_updated_at_job_offers
+  BEFORE UPDATE ON public.job_offers
+  FOR EACH ROW EXECUTE PROCEDURE public.set_updated_at();
+
+COMMENT ON TABLE public.job_offers IS
+  'Offer details for a job; inputs of the total-compensation model.';
+COMMENT ON COLUMN public.job_offers.initial_base_salary IS
+  'Base salary first offered; base_salary holds the current (negotiated) figure.';
+
+-- =====================================================================
+-- STEP 2: Row level security (owner-only)
+-- =====================================================================
+
+ALTER TABLE public.job_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS job_offers_own ON public.job_offers;
+CREATE POLICY job_offers_own ON public.job_offers
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.jobs j
+       WHERE j.id = job_id AND j.user_id = auth.uid()
+    )
+  );
+
+COMMIT;
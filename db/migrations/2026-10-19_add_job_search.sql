@@ -0,0 +1,115 @@
+-- Migration: Server-side job search, filtering and stage counts
+-- Date: 2026-10-19
+--
+-- Context:
+-- The jobs list was loaded in full and filtered, sorted and paginated in the
+-- browser, which is slow for users with hundreds of jobs. /api/jobs now
+-- filters and pages in Postgres, with full-text search over title, company
+-- and description, and returns per-stage counts for the pipeline.
+--
+-- Changes:
+-- 1. job_search_document(): weighted tsvector for a job (title > company >
+--    description) plus a GIN expression index on it
+-- 2. search_jobs(): a user's jobs matching a JSON filter object; callers
+--    chain stage filter, ordering and pagination on the result
+-- 3. job_stage_counts(): matching jobs per pipeline stage (same filters)
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Full-text search document
+-- =====================================================================
+-- An expression index instead of a stored column keeps `select *` on jobs
+-- (used throughout the app) free of the tsvector payload.
+
+CREATE OR REPLACE FUNCTION public.job_search_document(
+  p_title text,
+  p_company text,
+  p_description text
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(p_title, '')), 'A')
+      || setweight(to_tsvector('english'::regconfig, coalesce(p_company, '')), 'B')
+      || setweight(to_tsvector('english'::regconfig, coalesce(p_description, '')), 'C');
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_search_document
+  ON public.jobs
+  USING gin (public.job_search_document(job_title, company_name, job_description));
+
+CREATE INDEX IF NOT EXISTS idx_jobs_user_status
+  ON public.jobs (user_id, job_status);
+
+-- =====================================================================
+-- STEP 2: Filtered jobs
+-- =====================================================================
+-- p_filters keys (all optional):
+--   search            websearch syntax ("react -angular", "\"product manager\"")
+--   industry          case-insensitive substring (caller escapes % and _)
+--   job_type          exact match
+--   min_salary        start of the range must reach it
+--   max_salary        end (else start) of the range must not exceed it
+--   deadline_after / deadline_before   dates; jobs without a deadline pass
+--   created_after / created_before     timestamps
+--   include_archived  default false
+-- Runs with the caller's rights, so RLS still applies to end users.
+
+CREATE OR REPLACE FUNCTION public.search_jobs(
+  p_user_id uuid,
+  p_filters jsonb DEFAULT '{}'::jsonb
+)
+RETURNS SETOF public.jobs
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT j.*
+    FROM public.jobs j
+   WHERE j.user_id = p_user_id
+     AND (coalesce((p_filters->>'include_archived')::boolean, false)
+          OR NOT j.is_archived)
+     AND (p_filters->>'search' IS NULL
+          OR public.job_search_document(j.job_title, j.company_name, j.job_description)
+             @@ websearch_to_tsquery('english'::regconfig, p_filters->>'search'))
+     AND (p_filters->>'industry' IS NULL
+          OR j.industry ILIKE '%' || (p_filters->>'industry') || '%')
+     AND (p_filters->>'job_type' IS NULL
+          OR j.job_type = p_filters->>'job_type')
+     AND (p_filters->>'min_salary' IS NULL
+          OR j.start_salary_range >= (p_filters->>'min_salary')::bigint)
+     AND (p_filters->>'max_salary' IS NULL
+          OR coalesce(j.end_salary_range, j.start_salary_range, 0)
+             <= (p_filters->>'max_salary')::bigint)
+     AND (p_filters->>'deadline_after' IS NULL
+          OR j.application_deadline IS NULL
+          OR j.application_deadline >= (p_filters->>'deadline_after')::date)
+     AND (p_filters->>'deadline_before' IS NULL
+          OR j.application_deadline IS NULL
+          OR j.application_deadline <= (p_filters->>'deadline_before')::date)
+     AND (p_filters->>'created_after' IS NULL
+          OR j.created_at >= (p_filters->>'created_after')::timestamptz)
+     AND (p_filters->>'created_before' IS NULL
+          OR j.created_at <= (p_filters->>'created_before')::timestamptz);
+$$;
+
+-- =====================================================================
+-- STEP 3: Stage counts
+-- =====================================================================
+
+CREATE OR REPLACE FUNCTION public.job_stage_counts(
+  p_user_id uuid,
+  p_filters jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (job_status text, total bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.job_status, count(*)::bigint
+    FROM public.search_jobs(p_user_id, p_filters) s
+   GROUP BY s.job_status;
+$$;
+
+COMMIT;
@@ -0,0 +1,377 @@
+-- Migration: Server-side notification scheduler
+-- Date: 2026-10-19
+--
+-- Context:
+-- Interview reminders (24h / 2h before) and follow-up records were kept in
+-- user-scoped localStorage and only fired while the tab was open. Reminders are
+-- now persisted as jobs that the API server polls and delivers, so they fire on
+-- time and show up on every device.
+--
+-- Changes:
+-- 1. scheduled_notifications: one job per reminder (interview reminder, contact
+--    reminder, follow-up nudge) with run_at, status and retry bookkeeping
+-- 2. notification_deliveries: per-channel delivery status for each job
+-- 3. notification_inbox: in-app channel messages
+-- 4. notification_preferences: channels per user (in_app, email, webhook)
+-- 5. Triggers that keep interview and contact reminders in sync with their rows
+-- 6. claim_due_notifications(): lets the server lock a batch of due jobs
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Notification jobs
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.scheduled_notifications (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  -- What triggers the notification
+  kind text NOT NULL
+    CHECK (kind IN ('interview_reminder', 'contact_reminder', 'followup_nudge')),
+  source_id text NOT NULL,
+  run_at timestamp with time zone NOT NULL,
+
+  -- Message
+  title text NOT NULL,
+  body text,
+  link text,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Job state
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'sent', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  -- Retry time after a failed attempt (run_at keeps the intended time)
+  next_attempt_at timestamp with time zone,
+  last_error text,
+  locked_at timestamp with time zone,
+  completed_at timestamp with time zone,
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT scheduled_notifications_pkey PRIMARY KEY (id),
+  -- Re-scheduling the same reminder updates the existing job
+  CONSTRAINT scheduled_notifications_source_key
+    UNIQUE (user_id, kind, source_id, run_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_due
+  ON public.scheduled_notifications ((COALESCE(next_attempt_at, run_at)))
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_user
+  ON public.scheduled_notifications (user_id, run_at DESC);
+
+COMMENT ON TABLE public.scheduled_notifications IS
+  'Reminder jobs delivered by the API server scheduler. Interview and contact reminders are maintained by triggers; follow-up nudges by the API.';
+
+ALTER TABLE public.scheduled_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS scheduled_notifications_select_own ON public.scheduled_notifications;
+CREATE POLICY scheduled_notifications_select_own ON public.scheduled_notifications
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 2: Per-channel delivery status
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  notification_id uuid NOT NULL
+    REFERENCES public.scheduled_notifications(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  channel text NOT NULL CHECK (channel IN ('in_app', 'email', 'webhook')),
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 1 CHECK (attempts >= 1),
+  last_error text,
+  delivered_at timestamp with time zone,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT notification_deliveries_pkey PRIMARY KEY (id),
+  CONSTRAINT notification_deliveries_channel_key UNIQUE (notification_id, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user
+  ON public.notification_deliveries (user_id, updated_at DESC);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS notification_deliveries_select_own ON public.notification_deliveries;
+CREATE POLICY notification_deliveries_select_own ON public.notification_deliveries
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 3: In-app inbox
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.notification_inbox (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  notification_id uuid
+    REFERENCES public.scheduled_notifications(id) ON DELETE SET NULL,
+  kind text NOT NULL,
+  title text NOT NULL,
+  body text,
+  link text,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT notification_inbox_pkey PRIMARY KEY (id),
+  -- A retried job never lands in the inbox twice
+  CONSTRAINT notification_inbox_notification_key UNIQUE (notification_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_inbox_user
+  ON public.notification_inbox (user_id, created_at DESC);
+
+ALTER TABLE public.notification_inbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS notification_inbox_select_own ON public.notification_inbox;
+CREATE POLICY notification_inbox_select_own ON public.notification_inbox
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS notification_inbox_update_own ON public.notification_inbox;
+CREATE POLICY notification_inbox_update_own ON public.notification_inbox
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 4: Channel preferences
+-- =====================================================================
+-- No row means in-app only. email falls back to profiles.email.
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  channels text[] NOT NULL DEFAULT ARRAY['in_app']::text[]
+    CHECK (channels <@ ARRAY['in_app', 'email', 'webhook']::text[]),
+  email text,
+  webhook_url text CHECK (webhook_url IS NULL OR webhook_url ~ '^https?://'),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT notification_preferences_pkey PRIMARY KEY (user_id)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS notification_preferences_select_own ON public.notification_preferences;
+CREATE POLICY notification_preferences_select_own ON public.notification_preferences
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 5: Keep reminder jobs in sync with their source rows
+-- =====================================================================
+-- Pending jobs for the row are cancelled and re-created, so moving an
+-- interview or completing a contact reminder never leaves a stale job.
+-- Jobs that already went out are left alone.
+
+CREATE OR REPLACE FUNCTION public.sync_interview_reminders()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.interviews;
+  v_title text;
+  v_minutes integer;
+  v_run_at timestamp with time zone;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  UPDATE public.scheduled_notifications
+     SET status = 'cancelled', updated_at = now()
+   WHERE kind = 'interview_reminder'
+     AND source_id = v_row.id::text
+     AND status = 'pending';
+
+  IF TG_OP = 'DELETE' OR COALESCE(v_row.status, 'scheduled') <> 'scheduled' THEN
+    RETURN NULL;
+  END IF;
+
+  v_title := COALESCE(NULLIF(v_row.title, ''), NULLIF(v_row.role, ''), 'Interview');
+
+  -- Standard 24h and 2h reminders plus the interview's own reminder_minutes
+  FOREACH v_minutes IN ARRAY ARRAY[1440, 120, COALESCE(v_row.reminder_minutes, 0)]
+  LOOP
+    CONTINUE WHEN v_minutes <= 0;
+    v_run_at := v_row.interview_date - make_interval(mins => v_minutes);
+    CONTINUE WHEN v_run_at <= now();
+
+    INSERT INTO public.scheduled_notifications
+      (user_id, kind, source_id, run_at, title, body, link, payload)
+    VALUES (
+      v_row.user_id,
+      'interview_reminder',
+      v_row.id::text,
+      v_run_at,
+      'Upcoming interview: ' || v_title,
+      CASE
+        WHEN v_minutes % 60 = 0 THEN (v_minutes / 60) || ' hour reminder'
+        ELSE v_minutes || ' minute reminder'
+      END || ' for your interview'
+        || COALESCE(' with ' || NULLIF(v_row.interviewer, ''), '')
+        || COALESCE(' (' || NULLIF(v_row.location, '') || ')', ''),
+      '/interviews',
+      jsonb_build_object(
+        'interview_id', v_row.id,
+        'interview_date', v_row.interview_date,
+        'minutes_before', v_minutes
+      )
+    )
+    ON CONFLICT (user_id, kind, source_id, run_at) DO UPDATE
+      SET status = 'pending',
+          title = EXCLUDED.title,
+          body = EXCLUDED.body,
+          payload = EXCLUDED.payload,
+          attempts = 0,
+          next_attempt_at = NULL,
+          last_error = NULL,
+          updated_at = now()
+      WHERE scheduled_notifications.status = 'cancelled';
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_interviews_sync_reminders ON public.interviews;
+CREATE TRIGGER trg_interviews_sync_reminders
+  AFTER INSERT OR DELETE OR UPDATE OF interview_date, status, reminder_minutes, title, interviewer, location
+  ON public.interviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_interview_reminders();
+
+CREATE OR REPLACE FUNCTION public.sync_contact_reminder_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.contact_reminders;
+  v_name text;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  UPDATE public.scheduled_notifications
+     SET status = 'cancelled', updated_at = now()
+   WHERE kind = 'contact_reminder'
+     AND source_id = v_row.id::text
+     AND status = 'pending';
+
+  IF TG_OP = 'DELETE'
+     OR v_row.completed_at IS NOT NULL
+     OR v_row.remind_at IS NULL
+     OR v_row.remind_at <= now() THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT NULLIF(trim(concat_ws(' ', c.first_name, c.last_name)), '')
+    INTO v_name
+    FROM public.contacts c
+   WHERE c.id = v_row.contact_id;
+
+  INSERT INTO public.scheduled_notifications
+    (user_id, kind, source_id, run_at, title, body, link, payload)
+  VALUES (
+    v_row.user_id,
+    'contact_reminder',
+    v_row.id::text,
+    v_row.remind_at,
+    'Reach out to ' || COALESCE(v_name, 'your contact'),
+    COALESCE(initcap(replace(NULLIF(v_row.reminder_type, ''), '_', ' ')) || ' reminder', 'Contact reminder'),
+    '/network',
+    jsonb_build_object(
+      'contact_id', v_row.contact_id,
+      'reminder_id', v_row.id,
+      'reminder_type', v_row.reminder_type
+    )
+  )
+  ON CONFLICT (user_id, kind, source_id, run_at) DO UPDATE
+    SET status = 'pending',
+        title = EXCLUDED.title,
+        body = EXCLUDED.body,
+        payload = EXCLUDED.payload,
+        attempts = 0,
+        next_attempt_at = NULL,
+        last_error = NULL,
+        updated_at = now()
+    WHERE scheduled_notifications.status = 'cancelled';
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_contact_reminders_sync_notifications ON public.contact_reminders;
+CREATE TRIGGER trg_contact_reminders_sync_notifications
+  AFTER INSERT OR DELETE OR UPDATE OF remind_at, completed_at, reminder_type
+  ON public.contact_reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_contact_reminder_notifications();
+
+-- Backfill jobs for reminders that are still in the future
+UPDATE public.interviews
+   SET interview_date = interview_date
+ WHERE status = 'scheduled'
+   AND interview_date > now();
+
+UPDATE public.contact_reminders
+   SET remind_at = remind_at
+ WHERE completed_at IS NULL
+   AND remind_at > now();
+
+REVOKE EXECUTE ON FUNCTION public.sync_interview_reminders() FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_contact_reminder_notifications() FROM anon, authenticated;
+
+-- =====================================================================
+-- STEP 6: Claim due jobs
+-- =====================================================================
+-- Marks up to p_limit due jobs as processing and returns them. SKIP LOCKED
+-- lets several server instances poll without delivering a job twice; jobs
+-- stuck in processing (crashed server) are reclaimed after p_stale_after.
+
+CREATE OR REPLACE FUNCTION public.claim_due_notifications(
+  p_limit integer DEFAULT 50,
+  p_stale_after interval DEFAULT interval '10 minutes'
+)
+RETURNS SETOF public.scheduled_notifications
+LANGUAGE sql
+AS $$
+  UPDATE public.scheduled_notifications n
+     SET status = 'processing',
+         locked_at = now(),
+         attempts = n.attempts + 1,
+         updated_at = now()
+   WHERE n.id IN (
+     SELECT id
+       FROM public.scheduled_notifications
+      WHERE COALESCE(next_attempt_at, run_at) <= now()
+        AND (
+          status = 'pending'
+          OR (status = 'processing' AND locked_at < now() - p_stale_after)
+        )
+      ORDER BY COALESCE(next_attempt_at, run_at)
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+   )
+  RETURNING n.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_notifications(integer, interval)
+  FROM anon, authenticated;
+
+COMMIT;
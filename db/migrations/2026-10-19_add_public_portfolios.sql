@@ -0,0 +1,83 @@
+-- Migration: Public portfolio pages
+-- Date: 2026-10-19
+--
+-- Context:
+-- The project portfolio, project details and the profile PDF export are
+-- only visible inside the app. Users can now publish a read-only portfolio
+-- at a slug they choose (/p/<slug>) with their selected projects, skills,
+-- employment and featured GitHub repositories, styled with one of the
+-- `themes`, and download it as a static HTML bundle.
+--
+-- The API server reads and writes portfolios with the service role: it
+-- checks slugs, and builds the public page from only the sections the user
+-- made visible. Visitors never read profile tables directly.
+--
+-- Changes:
+-- 1. portfolios: one row per user with slug, theme, section visibility,
+--    selected projects and the view counter
+-- 2. record_portfolio_view(): counts a view of a published portfolio
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Portfolio settings
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.portfolios (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  -- Lowercase letters, digits and inner hyphens, 3-40 characters
+  slug text NOT NULL
+    CHECK (slug ~ '^[a-z0-9][a-z0-9-]{1,38}[a-z0-9]$' AND slug !~ '--'),
+  is_published boolean NOT NULL DEFAULT false,
+  theme_id uuid REFERENCES public.themes(id) ON DELETE SET NULL,
+  headline text CHECK (headline IS NULL OR char_length(headline) <= 160),
+
+  -- { about, projects, skills, employment, github } -> shown on the page
+  sections jsonb NOT NULL DEFAULT
+    '{"about": true, "projects": true, "skills": true, "employment": true, "github": true}'::jsonb,
+  -- Projects shown, in order
+  project_ids uuid[] NOT NULL DEFAULT '{}',
+
+  view_count bigint NOT NULL DEFAULT 0 CHECK (view_count >= 0),
+  last_viewed_at timestamp with time zone,
+  published_at timestamp with time zone,
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT portfolios_slug_key UNIQUE (slug)
+);
+
+COMMENT ON TABLE public.portfolios IS
+  'Public portfolio page settings per user; served by the API server at /api/public/portfolios/:slug.';
+
+ALTER TABLE public.portfolios ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS portfolios_select_own ON public.portfolios;
+CREATE POLICY portfolios_select_own ON public.portfolios
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 2: View counter
+-- =====================================================================
+-- Returns the new count, or no row when the slug is not published. The
+-- server skips repeat views from the same visitor before calling this.
+
+CREATE OR REPLACE FUNCTION public.record_portfolio_view(p_slug text)
+RETURNS bigint
+LANGUAGE sql
+AS $$
+  UPDATE public.portfolios
+     SET view_count = view_count + 1,
+         last_viewed_at = now()
+   WHERE slug = p_slug
+     AND is_published
+  RETURNING view_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_portfolio_view(text)
+  FROM anon, authenticated;
+
+COMMIT;
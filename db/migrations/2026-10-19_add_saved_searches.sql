@@ -0,0 +1,129 @@
+-- Migration: Saved job searches with new-match alerts
+-- Date: 2026-10-19
+--
+-- Context:
+-- The Search Jobs page only filtered already-loaded jobs in the browser and
+-- nothing was saved. Users can now store named searches (keywords, location,
+-- salary floor, industry, minimum match score) that the API server re-runs
+-- whenever jobs are created, imported, edited or scored, and get a
+-- "new since last viewed" count plus optional digest notifications.
+--
+-- Changes:
+-- 1. saved_searches: named criteria per user, view / evaluation / digest
+--    bookkeeping
+-- 2. saved_search_matches: jobs currently matching each search and when they
+--    first matched
+-- 3. scheduled_notifications accepts the 'saved_search_digest' kind
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Saved searches
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+
+  -- {"query": "react", "industry": "technology", "location": "NY",
+  --  "remote_type": "remote", "salary_min": 120000, "min_match_score": 70}
+  criteria jsonb NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(criteria) = 'object'),
+
+  digest_frequency text NOT NULL DEFAULT 'off'
+    CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+
+  -- Matches newer than last_viewed_at count as new
+  last_viewed_at timestamp with time zone NOT NULL DEFAULT now(),
+  -- Jobs changed after this are re-checked by the server
+  last_evaluated_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_digest_at timestamp with time zone,
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT saved_searches_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user
+  ON public.saved_searches (user_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS trg_saved_searches_updated_at ON public.saved_searches;
+CREATE TRIGGER trg_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS saved_searches_select_own ON public.saved_searches;
+CREATE POLICY saved_searches_select_own ON public.saved_searches
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS saved_searches_insert_own ON public.saved_searches;
+CREATE POLICY saved_searches_insert_own ON public.saved_searches
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS saved_searches_update_own ON public.saved_searches;
+CREATE POLICY saved_searches_update_own ON public.saved_searches
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS saved_searches_delete_own ON public.saved_searches;
+CREATE POLICY saved_searches_delete_own ON public.saved_searches
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =====================================================================
+-- STEP 2: Matches
+-- =====================================================================
+-- Written by the server only; users can read their own rows. A job that
+-- stops matching (edited, archived) loses its row, so a job that matches
+-- again later counts as new again.
+
+CREATE TABLE IF NOT EXISTS public.saved_search_matches (
+  search_id uuid NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  job_id bigint NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  matched_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT saved_search_matches_pkey PRIMARY KEY (search_id, job_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_recent
+  ON public.saved_search_matches (search_id, matched_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_user
+  ON public.saved_search_matches (user_id);
+
+ALTER TABLE public.saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS saved_search_matches_select_own ON public.saved_search_matches;
+CREATE POLICY saved_search_matches_select_own ON public.saved_search_matches
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- The evaluator looks for recently changed jobs per user
+CREATE INDEX IF NOT EXISTS idx_jobs_user_updated
+  ON public.jobs (user_id, updated_at);
+
+-- =====================================================================
+-- STEP 3: Digest notifications
+-- =====================================================================
+
+ALTER TABLE public.scheduled_notifications
+  DROP CONSTRAINT IF EXISTS scheduled_notifications_kind_check;
+ALTER TABLE public.scheduled_notifications
+  ADD CONSTRAINT scheduled_notifications_kind_check
+  CHECK (kind IN (
+    'interview_reminder',
+    'contact_reminder',
+    'followup_nudge',
+    'automation',
+    'saved_search_digest'
+  ));
+
+COMMIT;
@@ -0,0 +1,112 @@
+-- Migration: Skills taxonomy ids and proficiency evidence
+-- Date: 2026-10-19
+--
+-- Context:
+-- skills.skill_name was free text, so "JS", "Javascript" and "JavaScript"
+-- were three skills in the dashboard chart, the skills gap card and the
+-- competitive skill-gap analysis. The API server now bundles a skills
+-- taxonomy (server/src/services/skillTaxonomy.ts, GET /api/skills/taxonomy)
+-- with canonical ids, aliases, categories and parent skills. New skills are
+-- saved under the canonical name with its id; older rows are resolved by
+-- name when read.
+--
+-- Users can also back a skill with evidence: an employment bullet, a
+-- project or a certification.
+--
+-- Changes:
+-- 1. skills.taxonomy_id (null for skills outside the taxonomy), unique per
+--    user so the same skill cannot be added twice under different spellings
+-- 2. skill_evidence: links from a skill to employment / projects /
+--    certifications rows
+
+BEGIN;
+
+-- =====================================================================
+-- STEP 1: Canonical skill id
+-- =====================================================================
+
+ALTER TABLE public.skills
+  ADD COLUMN IF NOT EXISTS taxonomy_id text;
+
+COMMENT ON COLUMN public.skills.taxonomy_id IS
+  'Skills taxonomy id (e.g. "javascript"); null when the skill is not in the taxonomy.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS skills_user_taxonomy_id_key
+  ON public.skills (user_id, taxonomy_id)
+  WHERE taxonomy_id IS NOT NULL;
+
+-- =====================================================================
+-- STEP 2: Evidence links
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.skill_evidence (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  skill_id uuid NOT NULL REFERENCES public.skills(id) ON DELETE CASCADE,
+
+  source_type text NOT NULL
+    CHECK (source_type IN ('employment', 'project', 'certification')),
+  employment_id uuid REFERENCES public.employment(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES public.projects(id) ON DELETE CASCADE,
+  certification_id uuid REFERENCES public.certifications(id) ON DELETE CASCADE,
+
+  -- The bullet text for employment evidence (bullets have no ids of their own)
+  excerpt text CHECK (excerpt IS NULL OR char_length(excerpt) <= 1000),
+  note text CHECK (note IS NULL OR char_length(note) <= 500),
+
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  -- Exactly the column named by source_type is set
+  CONSTRAINT skill_evidence_source_check CHECK (
+    (source_type = 'employment' AND employment_id IS NOT NULL
+      AND project_id IS NULL AND certification_id IS NULL)
+    OR (source_type = 'project' AND project_id IS NOT NULL
+      AND employment_id IS NULL AND certification_id IS NULL)
+    OR (source_type = 'certification' AND certification_id IS NOT NULL
+      AND employment_id IS NULL AND project_id IS NULL)
+  )
+);
+
+COMMENT ON TABLE public.skill_evidence IS
+  'Employment bullets, projects and certifications that show a skill.';
+
+CREATE INDEX IF NOT EXISTS skill_evidence_user_skill_idx
+  ON public.skill_evidence (user_id, skill_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS skill_evidence_source_key
+  ON public.skill_evidence (
+    skill_id,
+    COALESCE(employment_id, project_id, certification_id),
+    COALESCE(excerpt, '')
+  );
+
+ALTER TABLE public.skill_evidence ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS skill_evidence_select_own ON public.skill_evidence;
+CREATE POLICY skill_evidence_select_own ON public.skill_evidence
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS skill_evidence_insert_own ON public.skill_evidence;
+CREATE POLICY skill_evidence_insert_own ON public.skill_evidence
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.skills s
+      WHERE s.id = skill_id AND s.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS skill_evidence_update_own ON public.skill_evidence;
+CREATE POLICY skill_evidence_update_own ON public.skill_evidence
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS skill_evidence_delete_own ON public.skill_evidence;
+CREATE POLICY skill_evidence_delete_own ON public.skill_evidence
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Migration: Only the API server may bump documents.times_exported
+-- Date: 2026-10-19
+--
+-- Context:
+-- increment_document_exports() (2026-10-19_add_export_history_storage.sql)
+-- takes any document id and does not check who owns it. The export service
+-- calls it with the service role after it has loaded the user's document,
+-- so clients have no reason to call it directly.
+--
+-- Changes:
+-- 1. EXECUTE on increment_document_exports(uuid) revoked from public, anon
+--    and authenticated; the service role keeps it
+-- =====================================================================
+
+BEGIN;
+
+REVOKE EXECUTE ON FUNCTION public.increment_document_exports(uuid)
+  FROM public, anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Migration: Clients may only toggle repositories.is_featured
+-- Date: 2026-10-19
+--
+-- Context:
+-- repositories_update_own (2026-10-19_add_github_sync.sql) lets a signed-in
+-- user update their own rows so the GitHub page can feature a repository,
+-- but it applied to every column. html_url, homepage, description and the
+-- stats are copied from GitHub by the sync job and shown on the public
+-- portfolio, so clients must not be able to rewrite them.
+--
+-- Changes:
+-- 1. UPDATE on repositories is granted for is_featured only; the sync job
+--    uses the service role and is not affected
+-- =====================================================================
+
+BEGIN;
+
+REVOKE UPDATE ON public.repositories FROM anon, authenticated;
+GRANT UPDATE (is_featured) ON public.repositories TO authenticated;
+
+COMMIT;
@@ -0,0 +1,65 @@
+-- Migration: Skill evidence may only point at the user's own rows
+-- Date: 2026-10-19
+--
+-- Context:
+-- The skill_evidence insert policy (2026-10-19_add_skills_taxonomy.sql)
+-- checked that the skill was the user's, but not the employment, project
+-- or certification row it links to, and the update policy checked neither.
+-- The profile page writes evidence with the user's own client, so these
+-- policies are the only check that a linked id is not someone else's row.
+--
+-- Changes:
+-- 1. skill_evidence_insert_own / skill_evidence_update_own: the skill and
+--    the linked source row must belong to the user
+-- =====================================================================
+
+BEGIN;
+
+DROP POLICY IF EXISTS skill_evidence_insert_own ON public.skill_evidence;
+CREATE POLICY skill_evidence_insert_own ON public.skill_evidence
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.skills s
+      WHERE s.id = skill_id AND s.user_id = auth.uid()
+    )
+    AND (employment_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.employment e
+      WHERE e.id = employment_id AND e.user_id = auth.uid()
+    ))
+    AND (project_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id = project_id AND p.user_id = auth.uid()
+    ))
+    AND (certification_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.certifications c
+      WHERE c.id = certification_id AND c.user_id = auth.uid()
+    ))
+  );
+
+DROP POLICY IF EXISTS skill_evidence_update_own ON public.skill_evidence;
+CREATE POLICY skill_evidence_update_own ON public.skill_evidence
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.skills s
+      WHERE s.id = skill_id AND s.user_id = auth.uid()
+    )
+    AND (employment_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.employment e
+      WHERE e.id = employment_id AND e.user_id = auth.uid()
+    ))
+    AND (project_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id = project_id AND p.user_id = auth.uid()
+    ))
+    AND (certification_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.certifications c
+      WHERE c.id = certification_id AND c.user_id = auth.uid()
+    ))
+  );
+
+COMMIT;
@@ -12,6 +12,10 @@ export const aiKeys = {
   hubOverview: (userId: string) =>
     [...aiKeys.hub(), "overview", userId] as const,
 
+  usage: (userId: string) => [...aiKeys.all, "usage", userId] as const,
+  teamSpend: (userId: string, days: number) =>
+    [...aiKeys.all, "usage", "teams", userId, days] as const,
+
   predictions: () => [...aiKeys.all, "predictions"] as const,
   jobSearchPredictions: (userId: string, fingerprint: string) =>
     [...aiKeys.predictions(), "job-search", userId, fingerprint] as const,
@@ -25,6 +29,12 @@ export const aiKeys = {
     [...aiKeys.documents(), "by-id", userId, documentId] as const,
   documentVersions: (userId: string, documentId: string) =>
     [...aiKeys.documents(), "versions", userId, documentId] as const,
+  exportSummaries: (userId: string) =>
+    [...aiKeys.documents(), "export-summaries", userId] as const,
+  exportHistory: (userId: string, documentId: string) =>
+    [...aiKeys.documents(), "export-history", userId, documentId] as const,
+  versionAts: (userId: string, versionId: string) =>
+    [...aiKeys.documents(), "version-ats", userId, versionId] as const,
 
   templates: (userId: string) => [...aiKeys.all, "templates", userId] as const,
   themes: (userId: string) => [...aiKeys.all, "themes", userId] as const,
@@ -2,6 +2,10 @@ import { withUser } from "@shared/services/crud";
 import * as db from "@shared/services/dbMappers";
 import type { DocumentRow } from "@shared/types/database";
 import { supabase } from "@shared/services/supabaseClient";
+import {
+  getSkillTaxonomy,
+  type SkillTaxonomy,
+} from "@shared/services/skillTaxonomy";
 
 function toErrorMessage(e: unknown): string {
   if (e instanceof Error) return e.message;
@@ -429,3 +433,13 @@ export async function fetchDocumentVersionAtsScores(
     throw new Error(`Failed to load ATS scores: ${toErrorMessage(e)}`);
   }
 }
+
+export async function fetchSkillTaxonomy(): Promise<SkillTaxonomy> {
+  const res = await getSkillTaxonomy();
+  if (res.error || !res.data) {
+    throw new Error(
+      `Failed to load skills taxonomy: ${res.error?.message ?? "no data"}`
+    );
+  }
+  return res.data;
+}
@@ -11,6 +11,7 @@ import {
   fetchNetworkingEventContacts,
   fetchInformationalInterviews,
   fetchScheduledInterviews,
+  fetchSkillTaxonomy,
   fetchJobNotesByJobId,
   fetchAnalyticsCacheDocumentMatchScores,
   fetchAccountabilityPartnershipsWithProfiles,
@@ -354,3 +355,16 @@ export function useTeamMessages<TMessage = unknown>(
       ),
   });
 }
+
+/** Skills taxonomy for normalizing names; not user-scoped */
+export function useSkillTaxonomy(opts?: {
+  enabled?: boolean;
+  staleTimeMs?: number;
+}) {
+  return useQuery({
+    queryKey: coreKeys.skillTaxonomy(),
+    enabled: opts?.enabled ?? true,
+    staleTime: opts?.staleTimeMs ?? 24 * DEFAULT_CORE_STALE_TIME_MS,
+    queryFn: fetchSkillTaxonomy,
+  });
+}
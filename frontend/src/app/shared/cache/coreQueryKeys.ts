@@ -81,6 +81,9 @@ export const coreKeys = {
   documentVersionAtsScores: (userId: string) =>
     [...coreKeys.all, "document_versions", userId, "ats_score"] as const,
 
+  // Skills taxonomy (same for every user; changes only with a server release)
+  skillTaxonomy: () => [...coreKeys.all, "skill_taxonomy"] as const,
+
   // Job analytics cache (user-scoped via RLS)
   analyticsCacheDocumentMatchScores: (userId: string) =>
     [
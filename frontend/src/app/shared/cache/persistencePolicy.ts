@@ -11,6 +11,7 @@ const PERSIST_QUERY_GROUP_ALLOWLIST = new Set<string>([
   // Team membership tends to be small and is reused widely.
   "team_members",
   "accountability_partnerships",
+  "skill_taxonomy",
 ]);
 
 export function shouldPersistQueryKey(queryKey: unknown): boolean {
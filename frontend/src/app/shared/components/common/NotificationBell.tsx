@@ -0,0 +1,155 @@
+import {
+  Badge,
+  Box,
+  Button,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Popover,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import NotificationsNoneIcon from "@mui/icons-material/NotificationsNone";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  listInbox,
+  markNotificationsRead,
+  type InboxNotification,
+} from "@shared/services/notifications";
+
+/**
+ * NOTIFICATION BELL
+ *
+ * Top-bar inbox for reminders delivered by the server scheduler
+ * (interview reminders, contact reminders, follow-up nudges).
+ *
+ * Behavior:
+ * - Polls the unread count every POLL_MS while mounted
+ * - Opening the popover loads the latest items; clicking one marks it read
+ *   and follows its link
+ * - Fails quietly (no badge) when the API is unreachable
+ */
+
+const POLL_MS = 60_000;
+
+export default function NotificationBell() {
+  const navigate = useNavigate();
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [items, setItems] = useState<InboxNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = await listInbox({ limit: 20 });
+      setItems(result.notifications);
+      setUnread(result.unread);
+    } catch {
+      // keep the previous state; the next poll retries
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = window.setInterval(refresh, POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [refresh]);
+
+  async function openItem(item: InboxNotification) {
+    setAnchor(null);
+    if (!item.read_at) {
+      try {
+        await markNotificationsRead([item.id]);
+      } catch {
+        // left unread; the badge catches up on the next poll
+      }
+      refresh();
+    }
+    if (item.link) navigate(item.link);
+  }
+
+  async function markAllRead() {
+    try {
+      await markNotificationsRead();
+    } catch {
+      // left unread; the badge catches up on the next poll
+    }
+    refresh();
+  }
+
+  return (
+    <>
+      <Tooltip title="Notifications" arrow>
+        <IconButton
+          aria-label="Notifications"
+          onClick={(event) => {
+            setAnchor(event.currentTarget);
+            refresh();
+          }}
+          sx={{ ml: 0.5 }}
+        >
+          <Badge badgeContent={unread} color="error" max={99}>
+            <NotificationsNoneIcon />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+      <Popover
+        open={Boolean(anchor)}
+        anchorEl={anchor}
+        onClose={() => setAnchor(null)}
+        anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+        transformOrigin={{ vertical: "top", horizontal: "right" }}
+      >
+        <Box sx={{ width: 340, maxHeight: 420, overflowY: "auto" }}>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              px: 2,
+              py: 1,
+            }}
+          >
+            <Typography variant="subtitle2">Notifications</Typography>
+            <Button size="small" onClick={markAllRead} disabled={!unread}>
+              Mark all read
+            </Button>
+          </Box>
+          {items.length === 0 ? (
+            <Typography
+              variant="body2"
+              color="text.secondary"
+              sx={{ px: 2, pb: 2 }}
+            >
+              You're all caught up.
+            </Typography>
+          ) : (
+            <List dense disablePadding>
+              {items.map((item) => (
+                <ListItemButton
+                  key={item.id}
+                  onClick={() => openItem(item)}
+                  sx={{ opacity: item.read_at ? 0.6 : 1 }}
+                >
+                  <ListItemText
+                    primary={item.title}
+                    secondary={
+                      <>
+                        {item.body ? `${item.body} · ` : ""}
+                        {new Date(item.created_at).toLocaleString()}
+                      </>
+                    }
+                    primaryTypographyProps={{
+                      fontWeight: item.read_at ? 400 : 600,
+                    }}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          )}
+        </Box>
+      </Popover>
+    </>
+  );
+}
@@ -8,7 +8,7 @@
  * - UI Primitives: Icon, QuickActionButton
  * - Layouts: RightDrawer
  * - Auth: ProtectedRoute
- * - Domain-specific: ProfilePicture
+ * - Domain-specific: ProfilePicture, NotificationBell
  * - Development: RegionAnchor (page markers for testing/debugging)
  *
  * Note: ConfirmDialog, ErrorSnackbar, and LoadingSpinner are exported from their
@@ -33,6 +33,7 @@ export { default as ProtectedRoute } from "./ProtectedRoute";
 
 // Domain-specific components
 export { default as ProfilePicture } from "./ProfilePicture";
+export { default as NotificationBell } from "./NotificationBell";
 
 // Development/debugging tools
 export { default as RegionAnchor } from "./RegionAnchor";
@@ -26,6 +26,7 @@ const ROUTE_LABELS: Record<string, string> = {
   "/profile/employment": "Employment",
   "/profile/skills": "Skills",
   "/profile/projects": "Projects",
+  "/profile/portfolio": "Public Portfolio",
   "/profile/certifications": "Certifications",
   "/profile/details": "Profile Details",
   "/profile/settings": "Settings",
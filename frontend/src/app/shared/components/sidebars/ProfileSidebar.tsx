@@ -20,6 +20,7 @@ import StarIcon from "@mui/icons-material/Star";
 import FolderIcon from "@mui/icons-material/Folder";
 import CardMembershipIcon from "@mui/icons-material/CardMembership";
 import CodeIcon from "@mui/icons-material/Code";
+import PublicIcon from "@mui/icons-material/Public";
 
 /**
  * ProfileSidebar - Animated navigation for Profile workspace
@@ -69,6 +70,11 @@ export default function ProfileSidebar() {
           icon={<CardMembershipIcon />}
           label="Certifications"
         />
+        <AnimatedSidebarLink
+          to="/profile/portfolio"
+          icon={<PublicIcon />}
+          label="Portfolio"
+        />
       </AnimatedSidebar>
     </SidebarProvider>
   );
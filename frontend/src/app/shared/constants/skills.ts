@@ -30,8 +30,11 @@ export const SKILL_LEVEL_LABELS = {
 export const SKILL_LEVEL_OPTIONS = Object.values(SKILL_LEVEL_LABELS);
 
 // Array of skill categories for UI dropdowns
+// (the values allowed by skills.skill_category)
 export const SKILL_CATEGORY_OPTIONS = [
   "Technical",
+  "Framework",
+  "Tool",
   "Soft",
   "Language",
   "Other",
@@ -43,6 +43,7 @@ import { useAuth } from "@shared/context/AuthContext";
 import { useThemeContext } from "@shared/context/ThemeContext";
 import { useAvatarContext } from "@shared/context/AvatarContext";
 import logo from "@shared/assets/logos/logo-icon.png";
+import NotificationBell from "@shared/components/common/NotificationBell";
 
 // Lamp glow animation for active nav items
 const glowPulse = keyframes`
@@ -720,6 +721,9 @@ export default function GlobalTopBar({
 
             {!isPublicMode ? (
               <>
+                {/* Server-delivered reminders inbox */}
+                <NotificationBell />
+
                 {/* Avatar - matching style */}
                 <Tooltip title="Account menu" arrow>
                   <IconButton
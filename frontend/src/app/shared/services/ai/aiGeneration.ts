@@ -8,9 +8,12 @@ import type {
   SkillsOptimizationContent,
   GenerateResumeResult,
   GenerateCoverLetterResult,
+  GeneratedSectionEvent,
   ExperienceTailoringResult,
   AIArtifactSummary,
   AIArtifact,
+  AiUsageSummary,
+  TeamAiSpend,
 } from "@shared/types/ai";
 
 export async function generateResume(
@@ -23,9 +26,20 @@ export async function generateResume(
     model?: string;
     prompt?: string;
     templateId?: string;
-  }
+  },
+  onSection?: (section: GeneratedSectionEvent) => void
 ): Promise<GenerateResumeResult> {
   // POST /api/generate/resume (returns full content when available)
+  // With onSection, the response is streamed and sections arrive as generated
+  if (onSection) {
+    return aiClient.postEventStream<GenerateResumeResult>(
+      "/api/generate/resume",
+      { jobId, options },
+      (event, data) => {
+        if (event === "section") onSection(data as GeneratedSectionEvent);
+      }
+    );
+  }
   return aiClient.postJson<GenerateResumeResult>(
     "/api/generate/resume",
     { jobId, options },
@@ -42,9 +56,19 @@ export async function generateCoverLetter(
     templateId?: string;
     length?: string;
     culture?: string;
-  }
+  },
+  onSection?: (section: GeneratedSectionEvent) => void
 ): Promise<GenerateCoverLetterResult> {
-  // POST /api/generate/cover-letter
+  // POST /api/generate/cover-letter (streamed when onSection is provided)
+  if (onSection) {
+    return aiClient.postEventStream<GenerateCoverLetterResult>(
+      "/api/generate/cover-letter",
+      { jobId, options },
+      (event, data) => {
+        if (event === "section") onSection(data as GeneratedSectionEvent);
+      }
+    );
+  }
   return aiClient.postJson<GenerateCoverLetterResult>(
     "/api/generate/cover-letter",
     { jobId, options },
@@ -121,6 +145,21 @@ export async function getArtifact(
   );
 }
 
+// AI usage / quotas ------------------------------------------------------------
+export async function getAiUsage(userId: string): Promise<AiUsageSummary> {
+  return aiClient.getJson<AiUsageSummary>("/api/ai/usage", userId);
+}
+
+export async function getTeamAiSpend(
+  userId: string,
+  days = 30
+): Promise<{ since: string; teams: TeamAiSpend[] }> {
+  return aiClient.getJson<{ since: string; teams: TeamAiSpend[] }>(
+    `/api/ai/usage/teams?days=${days}`,
+    userId
+  );
+}
+
 export const aiGeneration = {
   generateResume,
   generateCoverLetter,
@@ -132,6 +171,8 @@ export const aiGeneration = {
   listJobMaterials,
   listArtifacts,
   getArtifact,
+  getAiUsage,
+  getTeamAiSpend,
   createDocumentAndLink,
 };
 
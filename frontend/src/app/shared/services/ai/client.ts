@@ -315,6 +315,131 @@ export async function deleteJson(url: string): Promise<void> {
   }
 }
 
-export const aiClient = { postJson, getJson, patchJson, deleteJson };
+/**
+ * POST to an endpoint that streams Server-Sent Events.
+ * Calls onEvent for each intermediate event and resolves with the payload of
+ * the final "complete" event; an "error" event rejects with a normalized error.
+ * If the server answers with plain JSON instead, that JSON is returned.
+ * Includes automatic token refresh on 401 errors
+ */
+async function postEventStream<T>(
+  path: string,
+  body: unknown,
+  onEvent: (event: string, data: unknown) => void
+): Promise<T> {
+  const url = toApiUrl(path);
+  const send = async (forceRefresh: boolean) =>
+    fetch(url, {
+      method: "POST",
+      headers: {
+        ...(await getAuthHeaders(forceRefresh)),
+        Accept: "text/event-stream",
+      },
+      body: JSON.stringify(body ?? {}),
+    });
+
+  let resp = await send(false);
+  // If we get 401, try refreshing token once and retry
+  if (resp.status === 401) {
+    resp = await send(true);
+  }
+
+  const isStream = (resp.headers.get("Content-Type") ?? "").includes(
+    "text/event-stream"
+  );
+  if (!resp.ok || !isStream || !resp.body) {
+    let data: unknown = null;
+    try {
+      data = await resp.json();
+    } catch {
+      // ignore parse errors; will handle via resp.ok
+    }
+    if (resp.ok) return data as T;
+
+    const anyData = data as Record<string, unknown> | null;
+    let message =
+      (anyData?.message as string) ||
+      (anyData?.error as string) ||
+      `Request failed (${resp.status})`;
+    if (resp.status === 401 || resp.status === 403) {
+      message = "Authentication failed. Please log in again.";
+    }
+    const error = new Error(message) as Error & {
+      status?: number;
+      payload?: unknown;
+    };
+    error.status = resp.status;
+    error.payload = data;
+    throw error;
+  }
+
+  const reader = resp.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let completed: { data: T } | null = null;
+
+  // Events are separated by a blank line: "event: name\ndata: json\n\n"
+  const handleBlock = (block: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+    }
+    if (dataLines.length === 0) return;
+    const data = JSON.parse(dataLines.join("\n")) as unknown;
+
+    if (event === "error") {
+      const anyData = data as Record<string, unknown> | null;
+      const error = new Error(
+        (anyData?.error as string) || "Generation failed"
+      ) as Error & { status?: number; payload?: unknown };
+      error.status = 502;
+      error.payload = data;
+      throw error;
+    }
+    if (event === "complete") {
+      completed = { data: data as T };
+      return;
+    }
+    onEvent(event, data);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r/g, "");
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+        handleBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+      }
+    }
+    if (buffer.trim()) handleBlock(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+
+  const result = completed as { data: T } | null;
+  if (!result) {
+    throw new Error("Stream ended before generation completed");
+  }
+
+  // Check if response contains mock data and notify
+  if (mockDataNotifier.checkResponse(result.data)) {
+    mockDataNotifier.notify(path);
+  }
+
+  return result.data;
+}
+
+export const aiClient = {
+  postJson,
+  postEventStream,
+  getJson,
+  patchJson,
+  deleteJson,
+};
 
 export default aiClient;
@@ -0,0 +1,156 @@
+/**
+ * BACKGROUND JOBS SERVICE
+ *
+ * Purpose:
+ * - Queue long-running AI and scraping work on the server instead of waiting
+ *   for it in one HTTP request (company research, career path simulation,
+ *   market intelligence, job import, GitHub sync)
+ * - Follow a queued job's progress until it finishes
+ *
+ * Connection:
+ * - Backend: /api/background-jobs/* (server/src/routes/background-jobs)
+ * - Jobs survive server restarts and are retried on failure, so a page can
+ *   also pick up a job it queued earlier with waitForBackgroundJob(id)
+ */
+
+import aiClient from "@shared/services/ai/client";
+
+export type BackgroundJobKind =
+  | "company_research"
+  | "career_paths"
+  | "market_intelligence"
+  | "job_import"
+  | "github_sync";
+
+export type BackgroundJobStatus =
+  "pending" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface BackgroundJob<T = unknown> {
+  id: string;
+  kind: BackgroundJobKind;
+  status: BackgroundJobStatus;
+  /** 0-100 */
+  progress: number;
+  progress_message: string | null;
+  result?: T | null;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface BackgroundJobProgress {
+  status: BackgroundJobStatus;
+  progress: number;
+  message: string | null;
+}
+
+export interface WaitOptions {
+  onProgress?: (progress: BackgroundJobProgress) => void;
+  /** Aborting cancels the job on the server */
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 1500;
+
+export async function enqueueBackgroundJob(
+  kind: BackgroundJobKind,
+  input: Record<string, unknown>
+): Promise<BackgroundJob> {
+  const { job } = await aiClient.postJson<{ job: BackgroundJob }>(
+    "/api/background-jobs",
+    { kind, input }
+  );
+  return job;
+}
+
+export async function getBackgroundJob<T = unknown>(
+  id: string
+): Promise<BackgroundJob<T>> {
+  const { job } = await aiClient.getJson<{ job: BackgroundJob<T> }>(
+    `/api/background-jobs/${encodeURIComponent(id)}`
+  );
+  return job;
+}
+
+export async function cancelBackgroundJob(id: string): Promise<void> {
+  await aiClient.postJson(
+    `/api/background-jobs/${encodeURIComponent(id)}/cancel`,
+    {}
+  );
+}
+
+function abortError(): Error {
+  const error = new Error("Cancelled");
+  error.name = "AbortError";
+  return error;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Poll a job until it finishes and return its result.
+ * Rejects with the job's last error when it fails, and with an AbortError
+ * when it is cancelled (here through `signal`, or elsewhere).
+ */
+export async function waitForBackgroundJob<T = unknown>(
+  id: string,
+  options: WaitOptions = {}
+): Promise<T> {
+  const interval = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  let lastUpdate = "";
+
+  try {
+    while (true) {
+      const job = await getBackgroundJob<T>(id);
+      if (job.updated_at !== lastUpdate) {
+        lastUpdate = job.updated_at;
+        options.onProgress?.({
+          status: job.status,
+          progress: job.progress,
+          message: job.progress_message,
+        });
+      }
+
+      if (job.status === "succeeded") return job.result as T;
+      if (job.status === "failed") {
+        throw new Error(job.last_error || "Background job failed");
+      }
+      if (job.status === "cancelled") throw abortError();
+
+      await sleep(interval, options.signal);
+    }
+  } catch (err) {
+    if (options.signal?.aborted) {
+      // Best effort: the job may have finished meanwhile (409)
+      await cancelBackgroundJob(id).catch(() => undefined);
+    }
+    throw err;
+  }
+}
+
+/** Queue a job and wait for its result (see waitForBackgroundJob) */
+export async function runBackgroundJob<T = unknown>(
+  kind: BackgroundJobKind,
+  input: Record<string, unknown>,
+  options: WaitOptions = {}
+): Promise<T> {
+  const job = await enqueueBackgroundJob(kind, input);
+  return waitForBackgroundJob<T>(job.id, options);
+}
@@ -145,6 +145,12 @@ export * from "./cache";
 // External company news API
 export * from "./fetchCompanyNews";
 
+// Server-scheduled reminders: inbox, follow-up nudges, delivery channels
+export * from "./notifications";
+
+// Server-side job queue for long-running AI and scraping work
+export * from "./backgroundJobs";
+
 // =====================================================================
 // TYPE RE-EXPORTS (for convenience)
 // =====================================================================
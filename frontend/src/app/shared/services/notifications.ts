@@ -0,0 +1,101 @@
+/**
+ * NOTIFICATIONS SERVICE
+ *
+ * Purpose:
+ * - Read the in-app notification inbox filled by the server scheduler
+ * - Schedule / cancel follow-up nudges
+ * - Manage delivery channels (in-app, email, webhook)
+ *
+ * Connection:
+ * - Backend: /api/notifications/* (server/src/routes/notifications)
+ * - Interview and contact reminders are created by database triggers when
+ *   interviews / contact_reminders rows change, so they need no client call
+ */
+
+import aiClient from "@shared/services/ai/client";
+import { toApiUrl } from "@shared/services/apiUrl";
+
+export type NotificationChannelName = "in_app" | "email" | "webhook";
+
+export interface InboxNotification {
+  id: string;
+  kind:
+    | "interview_reminder"
+    | "contact_reminder"
+    | "followup_nudge"
+    | "automation"
+    | "saved_search_digest";
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationPreferences {
+  channels: NotificationChannelName[];
+  email: string | null;
+  webhookUrl: string | null;
+}
+
+export interface FollowupNudgeInput {
+  /** Caller-owned id; re-scheduling the same id replaces the pending nudge */
+  sourceId: string;
+  runAt: Date;
+  title: string;
+  body?: string;
+  link?: string;
+}
+
+export async function listInbox(
+  opts: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<{ notifications: InboxNotification[]; unread: number }> {
+  const params = new URLSearchParams();
+  if (opts.unreadOnly) params.set("unread", "true");
+  if (opts.limit) params.set("limit", String(opts.limit));
+  const qs = params.toString();
+  return aiClient.getJson(`/api/notifications${qs ? `?${qs}` : ""}`);
+}
+
+/** Mark the given inbox items read (all unread items when ids is omitted) */
+export async function markNotificationsRead(ids?: string[]): Promise<number> {
+  const { updated } = await aiClient.postJson<{ updated: number }>(
+    "/api/notifications/read",
+    ids ? { ids } : {}
+  );
+  return updated;
+}
+
+export async function scheduleFollowupNudge(
+  input: FollowupNudgeInput
+): Promise<void> {
+  await aiClient.postJson("/api/notifications/followups", {
+    sourceId: input.sourceId,
+    runAt: input.runAt.toISOString(),
+    title: input.title,
+    body: input.body,
+    link: input.link,
+  });
+}
+
+export async function cancelFollowupNudge(sourceId: string): Promise<void> {
+  await aiClient.deleteJson(
+    toApiUrl(`/api/notifications/followups/${encodeURIComponent(sourceId)}`)
+  );
+}
+
+export async function getNotificationPreferences(): Promise<NotificationPreferences> {
+  const { preferences } = await aiClient.getJson<{
+    preferences: NotificationPreferences;
+  }>("/api/notifications/preferences");
+  return preferences;
+}
+
+export async function updateNotificationPreferences(
+  prefs: NotificationPreferences
+): Promise<NotificationPreferences> {
+  const { preferences } = await aiClient.patchJson<{
+    preferences: NotificationPreferences;
+  }>(toApiUrl("/api/notifications/preferences"), prefs);
+  return preferences;
+}
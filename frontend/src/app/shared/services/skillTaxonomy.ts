@@ -0,0 +1,138 @@
+/**
+ * SKILLS TAXONOMY SERVICE
+ *
+ * Canonical skills with aliases, categories and parent skills, so "JS",
+ * "Javascript" and "JavaScript" are one skill:
+ * - getSkillTaxonomy: the bundled taxonomy from the server (cached by
+ *   useSkillTaxonomy for the session)
+ * - createSkillResolver: name -> canonical entry, matching key and ancestry;
+ *   without a taxonomy it still folds case, spaces and punctuation
+ *
+ * Connection:
+ * - Backend: GET /api/skills/taxonomy (server/src/services/skillTaxonomy.ts)
+ * - Matching rules mirror the server's skillKey / resolveSkill
+ */
+
+import aiClient from "@shared/services/ai/client";
+import type { Result } from "@shared/services/types";
+
+export type TaxonomyCategory =
+  "Technical" | "Soft" | "Language" | "Tool" | "Framework" | "Other";
+
+export type TaxonomySkill = {
+  id: string;
+  name: string;
+  category: TaxonomyCategory;
+  /** Broader skill or area (React -> JavaScript -> Frontend Development) */
+  parent: string | null;
+  aliases: string[];
+};
+
+export type SkillTaxonomy = {
+  version: number;
+  skills: TaxonomySkill[];
+};
+
+export type NormalizedSkill = {
+  /** Taxonomy id, or null for skills outside the taxonomy */
+  id: string | null;
+  /** Canonical spelling, or the trimmed input */
+  name: string;
+  category: TaxonomyCategory | null;
+  /** Ancestor names, nearest first */
+  path: string[];
+};
+
+export type SkillResolver = {
+  resolve: (name: string) => TaxonomySkill | null;
+  normalize: (name: string) => NormalizedSkill;
+  /** Taxonomy id, or the matching key for unknown skills */
+  key: (name: string) => string;
+  ancestors: (id: string) => TaxonomySkill[];
+  /** Canonical names for autocomplete, A-Z */
+  names: string[];
+};
+
+function fail<T>(err: unknown, fallback: string): Result<T> {
+  const message = err instanceof Error ? err.message : fallback;
+  return { data: null, error: { message, status: null }, status: null };
+}
+
+/** Lowercase without spaces or . - _ / ("Node.js" = "node js"); keeps + and # */
+export function skillKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[\s.\-_/'’]+/g, "");
+}
+
+const FILLER_PREFIX =
+  /^(?:experience (?:with|in)|knowledge of|proficiency (?:with|in)|familiarity with)\s+/;
+const FILLER_SUFFIX =
+  /\s+(?:experience|skills?|knowledge|proficiency|expertise)$/;
+
+export function createSkillResolver(
+  taxonomy: SkillTaxonomy | null | undefined
+): SkillResolver {
+  const skills = taxonomy?.skills ?? [];
+  const byId = new Map(skills.map((s) => [s.id, s]));
+  const byKey = new Map<string, TaxonomySkill>();
+  for (const skill of skills) {
+    for (const form of [skill.name, skill.id, ...skill.aliases]) {
+      const key = skillKey(form);
+      if (!byKey.has(key)) byKey.set(key, skill);
+    }
+  }
+
+  const resolve = (name: string): TaxonomySkill | null => {
+    const direct = byKey.get(skillKey(name));
+    if (direct) return direct;
+    const stripped = name
+      .trim()
+      .toLowerCase()
+      .replace(FILLER_PREFIX, "")
+      .replace(FILLER_SUFFIX, "");
+    return byKey.get(skillKey(stripped)) ?? null;
+  };
+
+  const ancestors = (id: string): TaxonomySkill[] => {
+    const chain: TaxonomySkill[] = [];
+    let parent = byId.get(id)?.parent ?? null;
+    while (parent) {
+      const skill = byId.get(parent);
+      if (!skill || chain.includes(skill)) break;
+      chain.push(skill);
+      parent = skill.parent;
+    }
+    return chain;
+  };
+
+  return {
+    resolve,
+    ancestors,
+    key: (name) => resolve(name)?.id ?? skillKey(name),
+    normalize: (name) => {
+      const skill = resolve(name);
+      if (!skill) {
+        return { id: null, name: name.trim(), category: null, path: [] };
+      }
+      return {
+        id: skill.id,
+        name: skill.name,
+        category: skill.category,
+        path: ancestors(skill.id).map((s) => s.name),
+      };
+    },
+    names: skills.map((s) => s.name).sort((a, b) => a.localeCompare(b)),
+  };
+}
+
+export async function getSkillTaxonomy(): Promise<Result<SkillTaxonomy>> {
+  try {
+    const data = await aiClient.getJson<SkillTaxonomy>("/api/skills/taxonomy");
+    return { data, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to load skills taxonomy");
+  }
+}
@@ -76,6 +76,42 @@ export interface GenerateCoverLetterResult extends GenerateResponse {
   content?: CoverLetterContent;
 }
 
+// Section event streamed by /api/generate/resume and /api/generate/cover-letter
+// path is the key path in the generated JSON, e.g. ["sections", "experience"]
+export interface GeneratedSectionEvent {
+  path: string[];
+  value: unknown;
+}
+
+// AI usage ledger (GET /api/ai/usage); limits are null when unlimited
+export interface AiUsageTotals {
+  generations: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface AiUsageSummary {
+  today: AiUsageTotals;
+  month: AiUsageTotals;
+  limits: {
+    dailyTokens: number | null;
+    monthlyTokens: number | null;
+    monthlyCostUsd: number | null;
+  };
+  byKind: Array<AiUsageTotals & { kind: string }>;
+  resetsAt: { daily: string; monthly: string };
+}
+
+// Team admin spend view (GET /api/ai/usage/teams)
+export interface TeamAiSpend {
+  teamId: string;
+  teamName: string;
+  generations: number;
+  tokens: number;
+  costUsd: number;
+  members: Array<AiUsageTotals & { userId: string; fullName: string | null }>;
+}
+
 // Experience tailoring content (subset of resume, specialized for UC-050)
 export interface ExperienceTailoringContent {
   roles: Array<{
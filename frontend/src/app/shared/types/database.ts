@@ -479,6 +479,9 @@ export interface DocumentVersionRow {
   word_count: number;
   character_count: number;
   ats_score: number | null; // integer 0-100
+  ats_analysis: Record<string, unknown> | null; // jsonb, keyword analysis behind ats_score
+  ats_job_id: number | null; // bigint, job ats_score was computed against
+  ats_analyzed_at: string | null; // timestamptz
   status: "active" | "archived" | "deleted";
   is_pinned: boolean;
   is_archived: boolean;
@@ -0,0 +1,226 @@
+/**
+ * AtsAnalysisPanel Component
+ *
+ * Inline ATS check for the editor: scores the saved resume version against
+ * its job (keyword analyzer on the server, no AI) and shows the score,
+ * matched / missing keywords by section and formatting risks.
+ */
+
+import React, { useState } from "react";
+import {
+  Paper,
+  Stack,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  Box,
+  LinearProgress,
+  Tooltip,
+  Collapse,
+} from "@mui/material";
+import { Refresh as RefreshIcon } from "@mui/icons-material";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { aiKeys } from "@shared/cache/aiQueryKeys";
+import {
+  ATS_SECTION_LABELS,
+  atsScoreBand,
+  getVersionAts,
+  scoreVersionAts,
+  sortAtsKeywords,
+} from "../../services/atsService";
+import type { AtsKeyword, AtsSection } from "../../types/ats.types";
+
+/**
+ * AtsAnalysisPanel Props
+ */
+export interface AtsAnalysisPanelProps {
+  /** Owner user ID (query key scope) */
+  userId: string;
+
+  /** Saved version to score */
+  versionId: string;
+
+  /** Job the document targets; without one the panel only explains why */
+  jobId?: number;
+}
+
+const BAND_COLORS = {
+  strong: "success",
+  fair: "warning",
+  weak: "error",
+} as const;
+
+function keywordTooltip(keyword: AtsKeyword): string {
+  if (!keyword.matched) {
+    return `${keyword.importance === "required" ? "Required" : "Preferred"} - not found`;
+  }
+  const where = keyword.sections.map((s) => ATS_SECTION_LABELS[s]).join(", ");
+  return keyword.matchedAs
+    ? `Found as "${keyword.matchedAs}" in ${where}`
+    : `Found in ${where}`;
+}
+
+/**
+ * AtsAnalysisPanel Component
+ */
+export const AtsAnalysisPanel: React.FC<AtsAnalysisPanelProps> = ({
+  userId,
+  versionId,
+  jobId,
+}) => {
+  const queryClient = useQueryClient();
+  const [scoring, setScoring] = useState(false);
+  const [scoreError, setScoreError] = useState<string | null>(null);
+  const [showMatched, setShowMatched] = useState(false);
+
+  const storedQuery = useQuery({
+    queryKey: aiKeys.versionAts(userId, versionId),
+    queryFn: async () => {
+      const res = await getVersionAts(userId, versionId);
+      if (res.error) throw new Error(res.error.message);
+      return res.data;
+    },
+    enabled: !!versionId,
+  });
+
+  // Only show a stored score computed against the job the document targets now
+  const result =
+    storedQuery.data && (!jobId || storedQuery.data.jobId === jobId)
+      ? storedQuery.data
+      : null;
+
+  const handleScore = async () => {
+    setScoring(true);
+    setScoreError(null);
+    const res = await scoreVersionAts(versionId, { jobId });
+    setScoring(false);
+    if (res.error || !res.data) {
+      setScoreError(res.error?.message ?? "Failed to score resume");
+      return;
+    }
+    queryClient.setQueryData(aiKeys.versionAts(userId, versionId), res.data);
+  };
+
+  if (!jobId) {
+    return (
+      <Paper sx={{ p: 2 }}>
+        <Typography variant="subtitle1">ATS Match</Typography>
+        <Typography variant="body2" color="text.secondary">
+          Link this resume to a job to check it against the job description.
+        </Typography>
+      </Paper>
+    );
+  }
+
+  const analysis = result?.analysis;
+  const keywords = analysis ? sortAtsKeywords(analysis) : [];
+  const missing = keywords.filter((k) => !k.matched);
+  const matched = keywords.filter((k) => k.matched);
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Stack spacing={1.5}>
+        <Stack direction="row" spacing={2} alignItems="center">
+          <Typography variant="subtitle1" sx={{ flex: 1 }}>
+            ATS Match
+          </Typography>
+          {analysis && (
+            <Chip
+              label={`${analysis.score}/100`}
+              color={BAND_COLORS[atsScoreBand(analysis.score)]}
+            />
+          )}
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={handleScore}
+            disabled={scoring}
+          >
+            {analysis ? "Re-check" : "Check ATS match"}
+          </Button>
+        </Stack>
+
+        {scoring && <LinearProgress />}
+        {scoreError && <Alert severity="error">{scoreError}</Alert>}
+        <Typography variant="caption" color="text.secondary">
+          Checks the last saved version; save first to include new edits.
+        </Typography>
+
+        {!analysis && !storedQuery.isLoading && !scoring && (
+          <Typography variant="body2" color="text.secondary">
+            Compare this version's keywords and layout with the job description.
+          </Typography>
+        )}
+
+        {analysis && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Keywords {Math.round(analysis.breakdown.keywordPoints)}/75 · In
+              context {Math.round(analysis.breakdown.contextPoints)}/10 ·
+              Structure {analysis.breakdown.structurePoints}/15
+              {analysis.breakdown.formattingPenalty > 0 &&
+                ` · Formatting -${analysis.breakdown.formattingPenalty}`}
+            </Typography>
+
+            {missing.length > 0 && (
+              <Box>
+                <Typography variant="body2" sx={{ mb: 0.5 }}>
+                  Missing keywords
+                </Typography>
+                <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+                  {missing.map((k) => (
+                    <Tooltip key={k.term} title={keywordTooltip(k)}>
+                      <Chip
+                        size="small"
+                        label={k.term}
+                        color={
+                          k.importance === "required" ? "error" : "default"
+                        }
+                        variant="outlined"
+                      />
+                    </Tooltip>
+                  ))}
+                </Stack>
+              </Box>
+            )}
+
+            {matched.length > 0 && (
+              <Box>
+                <Button size="small" onClick={() => setShowMatched((v) => !v)}>
+                  {showMatched ? "Hide" : "Show"} {matched.length} matched
+                  keywords
+                </Button>
+                <Collapse in={showMatched}>
+                  <Stack spacing={0.5} sx={{ mt: 0.5 }}>
+                    {Object.entries(analysis.sections).map(
+                      ([section, terms]) => (
+                        <Typography key={section} variant="body2">
+                          <strong>
+                            {ATS_SECTION_LABELS[section as AtsSection]}:
+                          </strong>{" "}
+                          {terms?.join(", ")}
+                        </Typography>
+                      )
+                    )}
+                  </Stack>
+                </Collapse>
+              </Box>
+            )}
+
+            {analysis.formatting.map((risk) => (
+              <Alert
+                key={risk.kind}
+                severity={risk.severity === "high" ? "warning" : "info"}
+              >
+                {risk.message} (-{risk.penalty})
+              </Alert>
+            ))}
+          </>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
@@ -9,6 +9,9 @@
  * 2. Configure format-specific options
  * 3. Preview or export
  * 4. Download file
+ *
+ * With "Save to export history" on, PDF/DOCX/HTML/TXT are rendered by the
+ * server from the last saved version so the exact file can be re-downloaded later.
  */
 
 import React, { useState } from "react";
@@ -47,6 +50,7 @@ import type { Template, Theme } from "../../types/template.types";
 import type { ExportFormat, ExportOptions } from "../../services/exportService";
 import {
   exportDocument,
+  exportDocumentOnServer,
   downloadExportedFile,
   estimateExportSize,
 } from "../../services/exportService";
@@ -111,6 +115,10 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
   const [filename, setFilename] = useState<string>(document.config.name);
   const [includeTemplate, setIncludeTemplate] = useState(true);
   const [includeTheme, setIncludeTheme] = useState(true);
+  const [saveToHistory, setSaveToHistory] = useState(true);
+  const [sentTo, setSentTo] = useState<string>(
+    document.context?.targetCompany ?? ""
+  );
   const [isExporting, setIsExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -129,7 +137,15 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
         filename,
       };
 
-      const result = await exportDocument(document, template, theme, options);
+      const result =
+        saveToHistory && format !== "json"
+          ? await exportDocumentOnServer(document.id, format, {
+              templateId: includeTemplate ? template.id : undefined,
+              themeId: includeTheme ? theme.id : undefined,
+              sentTo: sentTo.trim() || undefined,
+              filename,
+            })
+          : await exportDocument(document, template, theme, options);
 
       if (result.success && result.downloadUrl) {
         downloadExportedFile(result.downloadUrl, result.filename);
@@ -335,6 +351,26 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                 }
                 label="Include theme styling"
               />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={saveToHistory && format !== "json"}
+                    disabled={format === "json"}
+                    onChange={(e) => setSaveToHistory(e.target.checked)}
+                  />
+                }
+                label="Save to export history (uses last saved version)"
+              />
+              {saveToHistory && format !== "json" && (
+                <TextField
+                  label="Sent to"
+                  placeholder="Company or recipient"
+                  value={sentTo}
+                  onChange={(e) => setSentTo(e.target.value)}
+                  size="small"
+                  fullWidth
+                />
+              )}
             </Stack>
           </Box>
 
@@ -0,0 +1,165 @@
+/**
+ * ExportHistoryDialog Component
+ *
+ * Lists past server exports of a document (newest first) and re-downloads
+ * the exact stored file for any entry.
+ */
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Typography,
+  Alert,
+  CircularProgress,
+  Box,
+} from "@mui/material";
+import { Download as DownloadIcon } from "@mui/icons-material";
+import { useQuery } from "@tanstack/react-query";
+
+import { aiKeys } from "@shared/cache/aiQueryKeys";
+import {
+  downloadExportedFile,
+  getExportDownloadUrl,
+  getExportHistory,
+} from "../../services/exportService";
+import type { ExportHistoryEntry } from "../../services/exportService";
+
+/**
+ * ExportHistoryDialog Props
+ */
+export interface ExportHistoryDialogProps {
+  /** Dialog open state */
+  open: boolean;
+
+  /** Close handler */
+  onClose: () => void;
+
+  /** Owner user ID (query key scope) */
+  userId: string;
+
+  /** Document whose exports are listed */
+  documentId: string;
+
+  /** Document name for the title */
+  documentName: string;
+}
+
+function formatFileSize(bytes?: number): string {
+  if (!bytes) return "";
+  return bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * ExportHistoryDialog Component
+ */
+export const ExportHistoryDialog: React.FC<ExportHistoryDialogProps> = ({
+  open,
+  onClose,
+  userId,
+  documentId,
+  documentName,
+}) => {
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const historyQuery = useQuery({
+    queryKey: aiKeys.exportHistory(userId, documentId),
+    queryFn: () => getExportHistory(documentId),
+    enabled: open && !!documentId,
+  });
+
+  const handleDownload = async (entry: ExportHistoryEntry) => {
+    setDownloadingId(entry.id);
+    setDownloadError(null);
+    try {
+      const url = await getExportDownloadUrl(entry.id);
+      downloadExportedFile(url, entry.filename);
+    } catch (err) {
+      setDownloadError(err instanceof Error ? err.message : "Download failed");
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const entries = historyQuery.data ?? [];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Export History: {documentName}</DialogTitle>
+
+      <DialogContent>
+        {(historyQuery.error || downloadError) && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {downloadError ??
+              (historyQuery.error as Error | null)?.message ??
+              "Failed to load export history"}
+          </Alert>
+        )}
+
+        {historyQuery.isLoading ? (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : entries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+            This document has not been exported yet.
+          </Typography>
+        ) : (
+          <List dense>
+            {entries.map((entry) => (
+              <ListItem
+                key={entry.id}
+                divider
+                secondaryAction={
+                  entry.status !== "failed" && (
+                    <Tooltip title="Download this exact file">
+                      <span>
+                        <IconButton
+                          edge="end"
+                          onClick={() => handleDownload(entry)}
+                          disabled={downloadingId === entry.id}
+                        >
+                          {downloadingId === entry.id ? (
+                            <CircularProgress size={18} />
+                          ) : (
+                            <DownloadIcon />
+                          )}
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  )
+                }
+              >
+                <ListItemText
+                  primary={`${entry.filename} (${entry.format.toUpperCase()})`}
+                  secondary={[
+                    new Date(entry.timestamp).toLocaleString(),
+                    entry.sentTo && `Sent to ${entry.sentTo}`,
+                    formatFileSize(entry.fileSize),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -6,6 +6,10 @@
 
 export { DocumentEditor } from "./DocumentEditor";
 export { ExportDialog } from "./ExportDialog";
+export { ExportHistoryDialog } from "./ExportHistoryDialog";
+export { AtsAnalysisPanel } from "./AtsAnalysisPanel";
 
 export type { DocumentEditorProps } from "./DocumentEditor";
 export type { ExportDialogProps } from "./ExportDialog";
+export type { ExportHistoryDialogProps } from "./ExportHistoryDialog";
+export type { AtsAnalysisPanelProps } from "./AtsAnalysisPanel";
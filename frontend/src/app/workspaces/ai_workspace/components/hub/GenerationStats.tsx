@@ -2,10 +2,21 @@
  * GenerationStats - Statistics Dashboard
  *
  * Displays key statistics about documents, versions, and usage.
+ * When the AI usage summary is available, also shows tokens and estimated
+ * cost against the user's quota.
  */
 
-import { Card, CardContent, Typography, Box, Stack, Grid } from "@mui/material";
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Stack,
+  Grid,
+  LinearProgress,
+} from "@mui/material";
 import type { SvgIconProps } from "@mui/material";
+import type { AiUsageSummary } from "@shared/types/ai";
 import {
   Description as DocumentIcon,
   History as VersionIcon,
@@ -37,6 +48,92 @@ interface GenerationStatsProps {
 
   /** Jobs applied to */
   jobsApplied?: number;
+
+  /** AI token usage and limits (GET /api/ai/usage) */
+  usage?: AiUsageSummary | null;
+}
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+/**
+ * AI usage card: monthly tokens against the limit, estimated cost and today's tokens
+ */
+function UsageCard({ usage }: { usage: AiUsageSummary }) {
+  const { month, today, limits } = usage;
+  const monthlyLimit = limits.monthlyTokens;
+  const percent = monthlyLimit
+    ? Math.min(100, Math.round((month.tokens / monthlyLimit) * 100))
+    : null;
+  const resetDate = new Date(usage.resetsAt.monthly).toLocaleDateString();
+
+  return (
+    <Card
+      elevation={0}
+      sx={{ mt: 3, border: 1, borderColor: "divider" }}
+      data-testid="ai-usage-card"
+    >
+      <CardContent sx={{ p: 2.5 }}>
+        <Stack
+          direction={{ xs: "column", sm: "row" }}
+          spacing={{ xs: 1, sm: 4 }}
+          sx={{ mb: percent !== null ? 2 : 0 }}
+        >
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              AI tokens this month
+            </Typography>
+            <Typography variant="h6" sx={{ fontWeight: 700 }}>
+              {formatTokens(month.tokens)}
+              {monthlyLimit ? ` / ${formatTokens(monthlyLimit)}` : ""}
+            </Typography>
+          </Box>
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              Estimated cost
+            </Typography>
+            <Typography variant="h6" sx={{ fontWeight: 700 }}>
+              ${month.costUsd.toFixed(2)}
+              {limits.monthlyCostUsd
+                ? ` / $${limits.monthlyCostUsd.toFixed(2)}`
+                : ""}
+            </Typography>
+          </Box>
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              Today
+            </Typography>
+            <Typography variant="h6" sx={{ fontWeight: 700 }}>
+              {formatTokens(today.tokens)}
+              {limits.dailyTokens
+                ? ` / ${formatTokens(limits.dailyTokens)}`
+                : ""}
+            </Typography>
+          </Box>
+        </Stack>
+
+        {percent !== null && (
+          <>
+            <LinearProgress
+              variant="determinate"
+              value={percent}
+              color={
+                percent >= 90 ? "error" : percent >= 75 ? "warning" : "primary"
+              }
+              sx={{ height: 8, borderRadius: 4 }}
+            />
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              sx={{ display: "block", mt: 0.75 }}
+            >
+              {percent}% of monthly limit used · resets {resetDate}
+            </Typography>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
 }
 
 /**
@@ -50,6 +147,7 @@ export default function GenerationStats({
   weeklyDocuments,
   averageAtsScore,
   jobsApplied,
+  usage,
 }: GenerationStatsProps) {
   const stats: StatCard[] = [
     {
@@ -199,6 +297,8 @@ export default function GenerationStats({
           );
         })}
       </Grid>
+
+      {usage && <UsageCard usage={usage} />}
     </Box>
   );
 }
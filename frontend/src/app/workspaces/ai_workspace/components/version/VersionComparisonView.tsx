@@ -1,6 +1,7 @@
 /**
  * VERSION COMPARISON VIEW
- * Side-by-side comparison of two document versions with diff highlighting.
+ * Section-by-section comparison of two document versions with inline
+ * word-level diff highlighting (additions in green, removals struck in red).
  */
 
 import React from "react";
@@ -19,7 +20,7 @@ import {
   Edit as ModifiedIcon,
   Check as UnchangedIcon,
 } from "@mui/icons-material";
-import type { VersionComparison } from "../../types/version.types";
+import type { VersionComparison, WordDiff } from "../../types/version.types";
 
 /**
  * VersionComparisonView Props
@@ -36,7 +37,7 @@ interface VersionComparisonViewProps {
  * - comparison: VersionComparison object with diff and summary
  *
  * Outputs:
- * - Side-by-side view of versions with highlighted differences
+ * - Per-section view of versions with highlighted word differences
  */
 export const VersionComparisonView: React.FC<VersionComparisonViewProps> = ({
   comparison,
@@ -79,6 +80,26 @@ export const VersionComparisonView: React.FC<VersionComparisonViewProps> = ({
     }
   };
 
+  /**
+   * Inline style for a word diff segment
+   */
+  const getWordDiffStyle = (type: WordDiff["type"]) => {
+    switch (type) {
+      case "added":
+        return {
+          bgcolor: "rgba(76, 175, 80, 0.25)",
+          textDecoration: "none",
+        };
+      case "removed":
+        return {
+          bgcolor: "rgba(244, 67, 54, 0.2)",
+          textDecoration: "line-through",
+        };
+      case "unchanged":
+        return {};
+    }
+  };
+
   return (
     <Box>
       {/* Comparison Header */}
@@ -136,6 +157,25 @@ export const VersionComparisonView: React.FC<VersionComparisonViewProps> = ({
             color="info"
             variant="outlined"
           />
+          {summary.wordDifference !== 0 && (
+            <Chip
+              label={`${summary.wordDifference > 0 ? "+" : ""}${
+                summary.wordDifference
+              } words`}
+              size="small"
+              variant="outlined"
+            />
+          )}
+          {summary.atsScoreDifference !== undefined &&
+            summary.atsScoreDifference !== 0 && (
+              <Chip
+                label={`ATS ${summary.atsScoreDifference > 0 ? "+" : ""}${
+                  summary.atsScoreDifference
+                }`}
+                size="small"
+                variant="outlined"
+              />
+            )}
           {summary.charDifference !== 0 && (
             <Chip
               label={`${summary.charDifference > 0 ? "+" : ""}${
@@ -169,10 +209,10 @@ export const VersionComparisonView: React.FC<VersionComparisonViewProps> = ({
                 section.type === "added"
                   ? "success.main"
                   : section.type === "removed"
-                  ? "error.main"
-                  : section.type === "modified"
-                  ? "warning.main"
-                  : "divider",
+                    ? "error.main"
+                    : section.type === "modified"
+                      ? "warning.main"
+                      : "divider",
             }}
           >
             <Box sx={{ p: 2 }}>
@@ -189,60 +229,42 @@ export const VersionComparisonView: React.FC<VersionComparisonViewProps> = ({
                 <Chip label={section.type} size="small" variant="outlined" />
               </Stack>
 
-              {section.type !== "unchanged" && (
-                <Stack direction={{ xs: "column", md: "row" }} spacing={2}>
-                  {/* Version A Content */}
-                  {section.contentA !== undefined && (
-                    <Box sx={{ flex: 1 }}>
-                      <Box
-                        sx={{
-                          p: 1.5,
-                          bgcolor: "background.paper",
-                          borderRadius: 1,
-                          border: 1,
-                          borderColor: "divider",
-                        }}
-                      >
-                        <Typography
-                          variant="caption"
-                          color="text.secondary"
-                          gutterBottom
-                        >
-                          Version A
-                        </Typography>
-                        <Typography variant="body2">
-                          {JSON.stringify(section.contentA, null, 2)}
-                        </Typography>
-                      </Box>
-                    </Box>
-                  )}
-
-                  {/* Version B Content */}
-                  {section.contentB !== undefined && (
-                    <Box sx={{ flex: 1 }}>
+              {section.wordDiff && section.wordDiff.length > 0 && (
+                <Box
+                  sx={{
+                    p: 1.5,
+                    bgcolor: "background.paper",
+                    borderRadius: 1,
+                    border: 1,
+                    borderColor: "divider",
+                  }}
+                >
+                  <Typography
+                    variant="body2"
+                    component="div"
+                    sx={{ whiteSpace: "pre-wrap", lineHeight: 1.8 }}
+                  >
+                    {section.wordDiff.map((part, partIndex) => (
                       <Box
+                        key={partIndex}
+                        component={
+                          part.type === "added"
+                            ? "ins"
+                            : part.type === "removed"
+                              ? "del"
+                              : "span"
+                        }
                         sx={{
-                          p: 1.5,
-                          bgcolor: "background.paper",
-                          borderRadius: 1,
-                          border: 1,
-                          borderColor: "divider",
+                          ...getWordDiffStyle(part.type),
+                          px: part.type === "unchanged" ? 0 : 0.25,
+                          borderRadius: 0.5,
                         }}
                       >
-                        <Typography
-                          variant="caption"
-                          color="text.secondary"
-                          gutterBottom
-                        >
-                          Version B
-                        </Typography>
-                        <Typography variant="body2">
-                          {JSON.stringify(section.contentB, null, 2)}
-                        </Typography>
+                        {part.text}{" "}
                       </Box>
-                    </Box>
-                  )}
-                </Stack>
+                    ))}
+                  </Typography>
+                </Box>
               )}
             </Box>
           </Paper>
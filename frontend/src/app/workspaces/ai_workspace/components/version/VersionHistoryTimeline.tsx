@@ -1,6 +1,7 @@
 /**
  * VERSION HISTORY TIMELINE
  * Displays a visual timeline of document versions with filtering and search.
+ * Each entry lists the sections changed since its parent and the word delta.
  */
 
 import React, { useState } from "react";
@@ -39,6 +40,7 @@ import {
   Compare as CompareIcon,
 } from "@mui/icons-material";
 import type { DocumentVersion, ChangeType } from "../../types/version.types";
+import { sectionLabel } from "../../services/versionDiff";
 
 /**
  * Change type icon mapping
@@ -298,6 +300,42 @@ export const VersionHistoryTimeline: React.FC<VersionHistoryTimelineProps> = ({
                       <Typography variant="caption" color="text.secondary">
                         {version.changes.changesSummary}
                       </Typography>
+
+                      {/* What changed vs. the parent version */}
+                      {version.changes.changedSections.length > 0 && (
+                        <Stack
+                          direction="row"
+                          spacing={0.5}
+                          flexWrap="wrap"
+                          alignItems="center"
+                          sx={{ mt: 0.5 }}
+                        >
+                          {version.changes.changedSections.map(
+                            (section: string) => (
+                              <Chip
+                                key={section}
+                                label={sectionLabel(section)}
+                                size="small"
+                                sx={{ height: 20, fontSize: "0.7rem" }}
+                              />
+                            )
+                          )}
+                          {version.changes.diff &&
+                            version.changes.diff.wordDelta !== 0 && (
+                              <Typography
+                                variant="caption"
+                                color={
+                                  version.changes.diff.wordDelta > 0
+                                    ? "success.main"
+                                    : "error.main"
+                                }
+                              >
+                                {version.changes.diff.wordDelta > 0 ? "+" : ""}
+                                {version.changes.diff.wordDelta} words
+                              </Typography>
+                            )}
+                        </Stack>
+                      )}
                     </Box>
 
                     <IconButton
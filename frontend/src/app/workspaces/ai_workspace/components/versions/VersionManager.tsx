@@ -2,6 +2,8 @@
  * VersionManager Component
  *
  * Manages document versions with selection, comparison, and merge capabilities.
+ * Versions come from document_versions via versionService; comparisons show
+ * section-level and word-level diffs.
  */
 
 import { useMemo, useState, Fragment } from "react";
@@ -26,35 +28,29 @@ import {
 } from "@mui/material";
 import {
   History as HistoryIcon,
-  Star as StarIcon,
-  StarBorder as StarBorderIcon,
+  PushPin as PinIcon,
+  PushPinOutlined as PinOutlinedIcon,
   Compare as CompareIcon,
   Restore as RestoreIcon,
   Delete as DeleteIcon,
   Edit as EditIcon,
   Close as CloseIcon,
+  ArrowBack as BackIcon,
 } from "@mui/icons-material";
 import { useAuth } from "@shared/context/AuthContext";
-import { withUser } from "@shared/services/crud";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { aiKeys } from "@shared/cache/aiQueryKeys";
-
-interface DocumentVersion {
-  id: string;
-  document_id: string;
-  version_number: number;
-  name: string;
-  description?: string;
-  content: unknown;
-  template_id: string;
-  theme_id: string;
-  change_type: string;
-  created_at: string;
-  updated_at: string;
-  is_starred: boolean;
-  tags?: string[];
-  parent_version_id?: string;
-}
+import {
+  deleteVersion,
+  getVersionHistory,
+  togglePinVersion,
+} from "../../services/versionService";
+import { buildVersionComparison } from "../../services/versionDiff";
+import { VersionComparisonView } from "../version/VersionComparisonView";
+import type {
+  DocumentVersion,
+  VersionComparison,
+} from "../../types/version.types";
 
 interface VersionManagerProps {
   open: boolean;
@@ -77,6 +73,7 @@ export const VersionManager: React.FC<VersionManagerProps> = ({
   const [selectedVersion, setSelectedVersion] = useState<string | null>(null);
   const [compareMode, setCompareMode] = useState(false);
   const [compareVersions, setCompareVersions] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
 
   const queryClient = useQueryClient();
   const versionsQueryKey = useMemo(() => {
@@ -87,24 +84,8 @@ export const VersionManager: React.FC<VersionManagerProps> = ({
     queryKey: versionsQueryKey,
     enabled: open && Boolean(user?.id) && Boolean(documentId),
     staleTime: 2 * 60 * 1000,
-    queryFn: async (): Promise<DocumentVersion[]> => {
-      const userCrud = withUser(user!.id);
-      const result = await userCrud.listRows<DocumentVersion>(
-        "document_versions",
-        "*",
-        {
-          eq: { document_id: documentId },
-          neq: { status: "deleted" },
-          order: { column: "version_number", ascending: false },
-        }
-      );
-
-      if (result.error) {
-        throw new Error(result.error.message || "Failed to load versions");
-      }
-
-      return result.data || [];
-    },
+    queryFn: (): Promise<DocumentVersion[]> =>
+      getVersionHistory(user!.id, documentId, { includeArchived: true }),
   });
 
   const versions = versionsQuery.data ?? [];
@@ -148,35 +129,31 @@ export const VersionManager: React.FC<VersionManagerProps> = ({
   const handleCompare = () => {
     if (compareVersions.length === 2) {
       // Open comparison view
-      const version1 = versions.find((v) => v.id === compareVersions[0]);
-      const version2 = versions.find((v) => v.id === compareVersions[1]);
+      const [older, newer] = versions
+        .filter((v) => compareVersions.includes(v.id))
+        .sort((a, b) => a.versionNumber - b.versionNumber);
 
-      if (version1 && version2) {
-        // TODO: Implement comparison dialog
+      if (older && newer) {
+        setComparison(buildVersionComparison(older, newer));
       }
     }
   };
 
-  const handleToggleStar = async (versionId: string) => {
+  const handleTogglePin = async (versionId: string) => {
     try {
       const version = versions.find((v) => v.id === versionId);
       if (!version) return;
 
-      const userCrud = withUser(user!.id);
-      await userCrud.updateRow(
-        "document_versions",
-        { is_starred: !version.is_starred },
-        { eq: { id: versionId } }
-      );
+      await togglePinVersion(user!.id, versionId, !version.isPinned);
 
       // Update cached list (no refetch needed)
       queryClient.setQueryData<DocumentVersion[]>(versionsQueryKey, (prev) =>
         (prev ?? []).map((v) =>
-          v.id === versionId ? { ...v, is_starred: !v.is_starred } : v
+          v.id === versionId ? { ...v, isPinned: !v.isPinned } : v
         )
       );
     } catch (err) {
-      console.error("Failed to toggle star:", err);
+      console.error("Failed to toggle pin:", err);
     }
   };
 
@@ -186,12 +163,7 @@ export const VersionManager: React.FC<VersionManagerProps> = ({
     }
 
     try {
-      const userCrud = withUser(user!.id);
-      await userCrud.updateRow(
-        "document_versions",
-        { status: "deleted" },
-        { eq: { id: versionId } }
-      );
+      await deleteVersion(user!.id, versionId);
 
       // Remove from cached list (no refetch needed)
       queryClient.setQueryData<DocumentVersion[]>(versionsQueryKey, (prev) =>
@@ -240,161 +212,189 @@ export const VersionManager: React.FC<VersionManagerProps> = ({
       </DialogTitle>
 
       <DialogContent dividers>
-        {/* Compare Mode Toggle */}
-        <Stack direction="row" spacing={2} sx={{ mb: 2 }}>
-          <Button
-            variant={compareMode ? "contained" : "outlined"}
-            startIcon={<CompareIcon />}
-            onClick={() => {
-              setCompareMode(!compareMode);
-              setCompareVersions([]);
-            }}
-            size="small"
-          >
-            {compareMode ? "Exit Compare Mode" : "Compare Versions"}
-          </Button>
-
-          {compareMode && compareVersions.length === 2 && (
+        {comparison ? (
+          <>
             <Button
-              variant="contained"
-              color="primary"
-              onClick={handleCompare}
+              startIcon={<BackIcon />}
+              onClick={() => setComparison(null)}
               size="small"
+              sx={{ mb: 2 }}
             >
-              Compare Selected
+              Back to Versions
             </Button>
-          )}
-        </Stack>
+            <VersionComparisonView comparison={comparison} />
+          </>
+        ) : (
+          <>
+            {/* Compare Mode Toggle */}
+            <Stack direction="row" spacing={2} sx={{ mb: 2 }}>
+              <Button
+                variant={compareMode ? "contained" : "outlined"}
+                startIcon={<CompareIcon />}
+                onClick={() => {
+                  setCompareMode(!compareMode);
+                  setCompareVersions([]);
+                }}
+                size="small"
+              >
+                {compareMode ? "Exit Compare Mode" : "Compare Versions"}
+              </Button>
 
-        {compareMode && (
-          <Alert severity="info" sx={{ mb: 2 }}>
-            Select 2 versions to compare ({compareVersions.length}/2 selected)
-          </Alert>
-        )}
+              {compareMode && compareVersions.length === 2 && (
+                <Button
+                  variant="contained"
+                  color="primary"
+                  onClick={handleCompare}
+                  size="small"
+                >
+                  Compare Selected
+                </Button>
+              )}
+            </Stack>
 
-        {error && (
-          <Alert severity="error" sx={{ mb: 2 }}>
-            {error}
-          </Alert>
-        )}
+            {compareMode && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Select 2 versions to compare ({compareVersions.length}/2
+                selected)
+              </Alert>
+            )}
 
-        {loading ? (
-          <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
-            <CircularProgress />
-          </Box>
-        ) : (
-          <List>
-            {versions.map((version) => {
-              const isSelected = compareMode
-                ? compareVersions.includes(version.id)
-                : selectedVersion === version.id;
-              const isCurrent = version.id === currentVersionId;
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
 
-              return (
-                <Fragment key={version.id}>
-                  <ListItem
-                    disablePadding
-                    secondaryAction={
-                      <Stack direction="row" spacing={1}>
-                        <IconButton
-                          edge="end"
-                          onClick={() => handleToggleStar(version.id)}
-                          size="small"
-                        >
-                          {version.is_starred ? (
-                            <StarIcon color="warning" />
-                          ) : (
-                            <StarBorderIcon />
-                          )}
-                        </IconButton>
-                        {!isCurrent && (
-                          <IconButton
-                            edge="end"
-                            onClick={() => handleDeleteVersion(version.id)}
-                            size="small"
-                            color="error"
-                          >
-                            <DeleteIcon />
-                          </IconButton>
-                        )}
-                      </Stack>
-                    }
-                  >
-                    <ListItemButton
-                      selected={isSelected}
-                      onClick={() => handleVersionClick(version.id)}
-                    >
-                      <ListItemText
-                        primaryTypographyProps={{ component: "div" }}
-                        secondaryTypographyProps={{ component: "div" }}
-                        primary={
-                          <Stack
-                            direction="row"
-                            spacing={1}
-                            alignItems="center"
-                          >
-                            <Typography variant="subtitle1">
-                              {version.name}
-                            </Typography>
-                            {isCurrent && (
-                              <Chip
-                                label="Current"
+            {loading ? (
+              <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+                <CircularProgress />
+              </Box>
+            ) : (
+              <List>
+                {versions.map((version) => {
+                  const isSelected = compareMode
+                    ? compareVersions.includes(version.id)
+                    : selectedVersion === version.id;
+                  const isCurrent = version.id === currentVersionId;
+
+                  return (
+                    <Fragment key={version.id}>
+                      <ListItem
+                        disablePadding
+                        secondaryAction={
+                          <Stack direction="row" spacing={1}>
+                            <IconButton
+                              edge="end"
+                              onClick={() => handleTogglePin(version.id)}
+                              size="small"
+                            >
+                              {version.isPinned ? (
+                                <PinIcon color="warning" />
+                              ) : (
+                                <PinOutlinedIcon />
+                              )}
+                            </IconButton>
+                            {!isCurrent && (
+                              <IconButton
+                                edge="end"
+                                onClick={() => handleDeleteVersion(version.id)}
                                 size="small"
-                                color="success"
-                              />
+                                color="error"
+                              >
+                                <DeleteIcon />
+                              </IconButton>
                             )}
-                            <Chip
-                              label={version.change_type}
-                              size="small"
-                              color={getChangeTypeColor(version.change_type)}
-                            />
                           </Stack>
                         }
-                        secondary={
-                          <Stack spacing={0.5} sx={{ mt: 1 }}>
-                            {version.description && (
-                              <Typography
-                                variant="body2"
-                                color="text.secondary"
+                      >
+                        <ListItemButton
+                          selected={isSelected}
+                          onClick={() => handleVersionClick(version.id)}
+                        >
+                          <ListItemText
+                            primaryTypographyProps={{ component: "div" }}
+                            secondaryTypographyProps={{ component: "div" }}
+                            primary={
+                              <Stack
+                                direction="row"
+                                spacing={1}
+                                alignItems="center"
                               >
-                                {version.description}
-                              </Typography>
-                            )}
-                            <Typography
-                              variant="caption"
-                              color="text.secondary"
-                            >
-                              Version {version.version_number} •{" "}
-                              {new Date(version.created_at).toLocaleString()}
-                            </Typography>
-                            {version.tags && version.tags.length > 0 && (
-                              <Stack direction="row" spacing={0.5}>
-                                {version.tags.map((tag) => (
+                                <Typography variant="subtitle1">
+                                  {version.metadata.name}
+                                </Typography>
+                                {isCurrent && (
                                   <Chip
-                                    key={tag}
-                                    label={tag}
+                                    label="Current"
                                     size="small"
-                                    variant="outlined"
+                                    color="success"
                                   />
-                                ))}
+                                )}
+                                <Chip
+                                  label={version.changes.changeType}
+                                  size="small"
+                                  color={getChangeTypeColor(
+                                    version.changes.changeType
+                                  )}
+                                />
                               </Stack>
-                            )}
-                          </Stack>
-                        }
-                      />
-                    </ListItemButton>
-                  </ListItem>
-                  <Divider />
-                </Fragment>
-              );
-            })}
-          </List>
-        )}
+                            }
+                            secondary={
+                              <Stack spacing={0.5} sx={{ mt: 1 }}>
+                                {version.metadata.description && (
+                                  <Typography
+                                    variant="body2"
+                                    color="text.secondary"
+                                  >
+                                    {version.metadata.description}
+                                  </Typography>
+                                )}
+                                {version.changes.changesSummary && (
+                                  <Typography variant="body2">
+                                    {version.changes.changesSummary}
+                                  </Typography>
+                                )}
+                                <Typography
+                                  variant="caption"
+                                  color="text.secondary"
+                                >
+                                  Version {version.versionNumber} •{" "}
+                                  {new Date(
+                                    version.stats.createdAt
+                                  ).toLocaleString()}
+                                </Typography>
+                                {version.metadata.tags.length > 0 && (
+                                  <Stack direction="row" spacing={0.5}>
+                                    {version.metadata.tags.map((tag) => (
+                                      <Chip
+                                        key={tag}
+                                        label={tag}
+                                        size="small"
+                                        variant="outlined"
+                                      />
+                                    ))}
+                                  </Stack>
+                                )}
+                              </Stack>
+                            }
+                          />
+                        </ListItemButton>
+                      </ListItem>
+                      <Divider />
+                    </Fragment>
+                  );
+                })}
+              </List>
+            )}
 
-        {!loading && versions.length === 0 && (
-          <Box sx={{ textAlign: "center", py: 4 }}>
-            <Typography color="text.secondary">No versions found</Typography>
-          </Box>
+            {!loading && versions.length === 0 && (
+              <Box sx={{ textAlign: "center", py: 4 }}>
+                <Typography color="text.secondary">
+                  No versions found
+                </Typography>
+              </Box>
+            )}
+          </>
         )}
       </DialogContent>
 
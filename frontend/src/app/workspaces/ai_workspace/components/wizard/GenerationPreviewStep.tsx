@@ -302,6 +302,34 @@ export const GenerationPreviewStep: React.FC<GenerationPreviewStepProps> = ({
               >
                 This usually takes 10-20 seconds. Hang tight!
               </Typography>
+
+              {/* Sections streamed from the AI as they complete */}
+              {progress?.sections && progress.sections.length > 0 && (
+                <Stack spacing={1} sx={{ mt: 2 }}>
+                  {progress.sections.map((section) => (
+                    <Box
+                      key={section.key}
+                      sx={{
+                        p: 1.5,
+                        borderRadius: 1,
+                        bgcolor: "rgba(255,255,255,0.12)",
+                      }}
+                    >
+                      <Typography variant="subtitle2" fontWeight={600}>
+                        ✓ {section.label}
+                      </Typography>
+                      {section.preview && (
+                        <Typography
+                          variant="body2"
+                          sx={{ opacity: 0.9, whiteSpace: "pre-line" }}
+                        >
+                          {section.preview}
+                        </Typography>
+                      )}
+                    </Box>
+                  ))}
+                </Stack>
+              )}
             </Box>
 
             {/* Animated background pulse */}
@@ -7,6 +7,10 @@ import aiArtifacts from "@shared/services/aiArtifacts";
 import { aiKeys } from "@shared/cache/aiQueryKeys";
 import { coreKeys } from "@shared/cache/coreQueryKeys";
 import { fetchCorePreparationActivities } from "@shared/cache/coreFetchers";
+import {
+  listPracticeAttempts,
+  toAttemptSummary,
+} from "@workspaces/interview_hub/services/interviewPrepService";
 
 export type Prediction = {
   id?: string | number;
@@ -294,10 +298,10 @@ async function fetchJobSearchPredictions(params: {
 
   let localAttempts: any[] = [];
   try {
-    const raw = localStorage.getItem("sgt:technical_prep_attempts");
-    localAttempts = raw ? JSON.parse(raw) : [];
+    const res = await listPracticeAttempts(userId);
+    localAttempts = (res.data ?? []).map(toAttemptSummary);
   } catch {
-    // ignore local cache read failures
+    // ignore practice history read failures
   }
 
   // Build compact job objects enriched with prep summaries so the AI can use them
@@ -23,6 +23,7 @@ import { useJobPredictions } from "../../hooks/useJobPredictions";
 import { useAIGlossyStyles } from "@shared/theme";
 import * as crud from "@shared/services/crud";
 import { aiKeys } from "@shared/cache/aiQueryKeys";
+import { getAiUsage } from "@shared/services/ai/aiGeneration";
 import { coreKeys } from "@shared/cache/coreQueryKeys";
 import {
   fetchCoreDocuments,
@@ -79,6 +80,15 @@ export default function AIWorkspaceHub() {
     },
   });
 
+  // Token usage / quota from the server ledger; hidden when unavailable
+  const usageQuery = useQuery({
+    queryKey: aiKeys.usage(user?.id ?? "anon"),
+    enabled: Boolean(user?.id),
+    staleTime: 60 * 1000,
+    retry: false,
+    queryFn: () => getAiUsage(user!.id),
+  });
+
   const userName = overviewQuery.data?.userName ?? null;
   const jobs = overviewQuery.data?.jobs ?? [];
   const recentDocuments = overviewQuery.data?.recentDocuments ?? [];
@@ -176,6 +186,7 @@ export default function AIWorkspaceHub() {
           weeklyDocuments={stats.weeklyDocuments}
           averageAtsScore={stats.averageAtsScore}
           jobsApplied={stats.jobsApplied}
+          usage={usageQuery.data}
         />
 
         {/* AI Predictions - Glossy AI-powered section with preset-specific styling */}
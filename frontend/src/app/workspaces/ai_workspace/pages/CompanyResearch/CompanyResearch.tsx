@@ -15,9 +15,10 @@
  * - Quick-select from user's employment history
  * - Copy research to clipboard
  * - View cached timestamp
+ * - Research runs as a server background job with progress and cancel
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useLocation } from "react-router-dom";
 import { AutoBreadcrumbs } from "@shared/components/navigation/AutoBreadcrumbs";
 import {
@@ -32,6 +33,7 @@ import {
   Divider,
   Alert,
   CircularProgress,
+  LinearProgress,
   IconButton,
   Tooltip,
   Card,
@@ -53,6 +55,7 @@ import {
   Print as PrintIcon,
 } from "@mui/icons-material";
 import { companyResearch } from "@ai_workspace/services";
+import type { BackgroundJobProgress } from "@shared/services/backgroundJobs";
 
 interface CompanyNews {
   title: string;
@@ -104,6 +107,11 @@ export default function CompanyResearch() {
   const [research, setResearch] = useState<CompanyResearchData | null>(null);
   const [userCompanies, setUserCompanies] = useState<string[]>([]);
   const [loadingUserCompanies, setLoadingUserCompanies] = useState(false);
+  const [progress, setProgress] = useState<BackgroundJobProgress | null>(null);
+  const searchAbort = useRef<AbortController | null>(null);
+
+  // Cancel a running research job when leaving the page
+  useEffect(() => () => searchAbort.current?.abort(), []);
 
   // Load user's companies from employment history
   useEffect(() => {
@@ -132,11 +140,19 @@ export default function CompanyResearch() {
       return;
     }
 
+    searchAbort.current?.abort();
+    const controller = new AbortController();
+    searchAbort.current = controller;
+
     setLoading(true);
     setError(null);
+    setProgress(null);
 
     try {
-      const data = await companyResearch.fetchCompanyResearch(nameToUse);
+      const data = await companyResearch.researchCompany(nameToUse, {
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
 
       if (!data) {
         setError("No research data available for this company");
@@ -145,11 +161,17 @@ export default function CompanyResearch() {
         setResearch(data);
       }
     } catch (err) {
+      // Cancelled, or replaced by a newer search
+      if (err instanceof Error && err.name === "AbortError") return;
       console.error("Error fetching company research:", err);
       setError("Failed to fetch company research. Please try again.");
       setResearch(null);
     } finally {
-      setLoading(false);
+      if (searchAbort.current === controller) {
+        searchAbort.current = null;
+        setLoading(false);
+        setProgress(null);
+      }
     }
   };
 
@@ -545,6 +567,31 @@ Source: ${research.source}
           </Box>
         )}
 
+        {loading && (
+          <Box sx={{ mt: 2 }}>
+            <Stack
+              direction="row"
+              justifyContent="space-between"
+              alignItems="center"
+              sx={{ mb: 1 }}
+            >
+              <Typography variant="body2" color="text.secondary">
+                {progress?.message ??
+                  (progress?.status === "pending"
+                    ? "Waiting to start..."
+                    : "Starting research...")}
+              </Typography>
+              <Button size="small" onClick={() => searchAbort.current?.abort()}>
+                Cancel
+              </Button>
+            </Stack>
+            <LinearProgress
+              variant={progress?.progress ? "determinate" : "indeterminate"}
+              value={progress?.progress ?? 0}
+            />
+          </Box>
+        )}
+
         {loadingUserCompanies && (
           <Box sx={{ mt: 2, display: "flex", alignItems: "center", gap: 1 }}>
             <CircularProgress size={16} />
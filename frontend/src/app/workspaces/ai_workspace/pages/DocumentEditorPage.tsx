@@ -35,9 +35,11 @@ import {
 
 import { DocumentEditor } from "../components/editor/DocumentEditor";
 import { ExportDialog } from "../components/editor/ExportDialog";
+import { AtsAnalysisPanel } from "../components/editor/AtsAnalysisPanel";
 import { VersionManager } from "../components/versions/VersionManager";
 import { getAllTemplates } from "../services/templateService";
 import { getAllThemes } from "../services/themeService";
+import { createVersion, restoreVersion } from "../services/versionService";
 import { withUser } from "@shared/services/crud";
 import { useAuth } from "@shared/context/AuthContext";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
@@ -51,6 +53,7 @@ import type {
   CoverLetterContent,
 } from "../types/document.types";
 import type { Template, Theme } from "../types/template.types";
+import type { DocumentVersion } from "../types/version.types";
 
 // Mock data for demo
 const MOCK_DOCUMENT: Document = {
@@ -433,68 +436,22 @@ export const DocumentEditorPage: React.FC = () => {
     if (!user?.id) return;
 
     try {
-      const userCrud = withUser(user.id);
-
-      // Get the current max version number for this document
-      const { data: existingVersions, error: versionQueryError } =
-        await userCrud.listRows("document_versions", "version_number", {
-          eq: { document_id: updatedDocument.id },
-          order: { column: "version_number", ascending: false },
-          limit: 1,
-        });
-
-      if (versionQueryError) {
-        throw new Error("Failed to query existing versions");
-      }
-
-      const maxVersionNumber =
-        existingVersions && existingVersions.length > 0
-          ? existingVersions[0].version_number
-          : 0;
-      const newVersionNumber = maxVersionNumber + 1;
-
-      // Create new version
-      const versionResult = await userCrud.insertRow<{ id: string }>(
-        "document_versions",
-        {
-          document_id: updatedDocument.id,
-          user_id: user.id,
-          version_number: newVersionNumber,
-          content: updatedDocument.content,
-          template_id: updatedDocument.config.templateId,
-          theme_id: updatedDocument.config.themeId,
-          template_overrides:
-            updatedDocument.config.customOverrides?.templateOverrides || {},
-          theme_overrides:
-            updatedDocument.config.customOverrides?.themeOverrides || {},
-          job_id: updatedDocument.context.jobId || null,
-          name: `Version ${newVersionNumber}`,
-          description: "Manual edit",
-          tags: [],
-          change_type: "manual-edit",
-          changed_sections: [],
-          status: "active",
-          word_count: 0,
-          character_count: 0,
-          created_by: user.id,
-        }
-      );
-
-      if (versionResult.error || !versionResult.data) {
-        throw new Error("Failed to save version");
-      }
-
-      const newVersion = versionResult.data;
-
-      // Update document with new current_version_id
-      await userCrud.updateRow(
-        "documents",
-        {
-          current_version_id: newVersion.id,
-          last_edited_at: new Date().toISOString(),
-        },
-        { eq: { id: updatedDocument.id } }
-      );
+      // Persist a new version (diffed against the current one) and point
+      // the document at it
+      const newVersion = await createVersion(user.id, {
+        documentId: updatedDocument.id,
+        content: updatedDocument.content,
+        templateId: updatedDocument.config.templateId,
+        themeId: updatedDocument.config.themeId,
+        templateOverrides:
+          updatedDocument.config.customOverrides?.templateOverrides || {},
+        themeOverrides:
+          updatedDocument.config.customOverrides?.themeOverrides || {},
+        jobId: updatedDocument.context.jobId,
+        changeType: "manual-edit",
+        metadata: { description: "Manual edit" },
+        parentVersionId: currentVersionId ?? undefined,
+      });
 
       const nextDocument: Document = {
         ...updatedDocument,
@@ -541,16 +498,16 @@ export const DocumentEditorPage: React.FC = () => {
   /**
    * Handle version selection from version manager
    */
-  const handleVersionSelect = async (version: any) => {
+  const handleVersionSelect = async (version: DocumentVersion) => {
     try {
       // Load the version content into the editor
       const versionDocument: Document = {
         ...document!,
-        content: version.content,
+        content: version.content as Document["content"],
         config: {
           ...document!.config,
-          templateId: version.template_id,
-          themeId: version.theme_id,
+          templateId: version.templateId,
+          themeId: version.themeId,
         },
       };
 
@@ -564,63 +521,22 @@ export const DocumentEditorPage: React.FC = () => {
   /**
    * Handle version restore (creates new version from old one)
    */
-  const handleVersionRestore = async (version: any) => {
+  const handleVersionRestore = async (version: DocumentVersion) => {
     if (!user?.id || !documentId) return;
 
     try {
-      const userCrud = withUser(user.id);
-
-      // Get the current max version number
-      const existingVersions = await userCrud.listRows(
-        "document_versions",
-        "version_number",
-        {
-          eq: { document_id: documentId },
-          order: { column: "version_number", ascending: false },
-          limit: 1,
-        }
-      );
-
-      const maxVersionNumber = existingVersions.data?.[0]?.version_number || 0;
-      const newVersionNumber = maxVersionNumber + 1;
-
       // Create new version from the restored content
-      const inserted = await userCrud.insertRow<{ id: string }>(
-        "document_versions",
-        {
-          document_id: documentId,
-          user_id: user.id,
-          version_number: newVersionNumber,
-          content: version.content,
-          template_id: version.template_id,
-          theme_id: version.theme_id,
-          name: `Restored from Version ${version.version_number}`,
-          change_type: "restore",
-          change_summary: `Restored from version ${version.version_number}`,
-          parent_version_id: version.id,
-        },
-        "id"
-      );
+      const restored = await restoreVersion(user.id, {
+        versionId: version.id,
+        createNewVersion: true,
+      });
 
-      if (inserted.error || !inserted.data?.id) {
+      if (!restored) {
         throw new Error("Failed to create restored version");
       }
 
-      // Update the document to point at the newly created version.
-      await userCrud.updateRow(
-        "documents",
-        {
-          current_version_id: inserted.data.id,
-          last_edited_at: new Date().toISOString(),
-        },
-        { eq: { id: documentId } }
-      );
-
       // Load restored content into the editor (same content as the source version).
-      await handleVersionSelect({
-        ...version,
-        id: inserted.data.id,
-      });
+      await handleVersionSelect(restored);
 
       // Keep caches consistent for library + version history.
       queryClient.invalidateQueries({
@@ -631,7 +547,7 @@ export const DocumentEditorPage: React.FC = () => {
       });
       queryClient.invalidateQueries({ queryKey: coreKeys.documents(user.id) });
 
-      alert(`Version ${version.version_number} restored successfully!`);
+      alert(`Version ${version.versionNumber} restored successfully!`);
     } catch (err) {
       console.error("Failed to restore version:", err);
       alert("Failed to restore version. Please try again.");
@@ -648,8 +564,17 @@ export const DocumentEditorPage: React.FC = () => {
   /**
    * Handle export complete
    */
-  const handleExportComplete = (filename: string, format: string) => {
-    // Export completed successfully
+  const handleExportComplete = () => {
+    // Server exports add export_history rows; refresh library summaries
+    if (!user?.id) return;
+    queryClient.invalidateQueries({
+      queryKey: aiKeys.exportSummaries(user.id),
+    });
+    if (documentId) {
+      queryClient.invalidateQueries({
+        queryKey: aiKeys.exportHistory(user.id, documentId),
+      });
+    }
   };
 
   const loading =
@@ -737,6 +662,15 @@ export const DocumentEditorPage: React.FC = () => {
           </Stack>
         </Paper>
 
+        {/* ATS keyword match for the saved version */}
+        {document.type === "resume" && user?.id && currentVersionId && (
+          <AtsAnalysisPanel
+            userId={user.id}
+            versionId={currentVersionId}
+            jobId={document.context.jobId}
+          />
+        )}
+
         {/* Editor */}
         <DocumentEditor
           document={document}
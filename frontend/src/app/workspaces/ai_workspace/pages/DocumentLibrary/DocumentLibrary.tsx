@@ -2,6 +2,8 @@
  * DocumentLibrary - Document Library Page
  *
  * Displays all documents with filtering, search, and management.
+ * Cards show export activity ("Exported 3 times · last sent to Acme") with
+ * access to past export files.
  */
 
 import { useEffect, useMemo, useState } from "react";
@@ -30,17 +32,32 @@ import {
   Article,
   Visibility,
   Share as ShareIcon,
+  History as HistoryIcon,
 } from "@mui/icons-material";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@shared/context/AuthContext";
 import { useErrorHandler } from "@shared/hooks/useErrorHandler";
 import { ErrorSnackbar } from "@shared/components/feedback/ErrorSnackbar";
 import { useTeam } from "@shared/context/useTeam";
 import { ShareDocumentDialog } from "../../../ai_workspace/components/reviews";
+import { ExportHistoryDialog } from "../../components/editor";
+import { getExportSummaries } from "../../services/exportService";
+import type { ExportSummary } from "../../services/exportService";
 import type { DocumentRow } from "@shared/types/database";
 import { useCoreDocuments } from "@shared/cache/coreHooks";
+import { aiKeys } from "@shared/cache/aiQueryKeys";
 
 const EMPTY_DOCUMENTS: DocumentRow[] = [];
 
+function formatExportSummary(summary?: ExportSummary): string {
+  if (!summary) return "";
+  const times =
+    summary.exportCount === 1 ? "once" : `${summary.exportCount} times`;
+  return summary.lastSentTo
+    ? `Exported ${times} · last sent to ${summary.lastSentTo}`
+    : `Exported ${times}`;
+}
+
 export default function DocumentLibrary() {
   const navigate = useNavigate();
   const { user } = useAuth();
@@ -59,6 +76,25 @@ export default function DocumentLibrary() {
   );
   const loading = documentsQuery.isLoading;
 
+  // Export activity per document (export_history via API)
+  const exportSummariesQuery = useQuery({
+    queryKey: aiKeys.exportSummaries(user?.id ?? "anon"),
+    queryFn: getExportSummaries,
+    enabled: !!user?.id,
+  });
+  const exportSummaries = useMemo(() => {
+    const byDocument = new Map<string, ExportSummary>();
+    for (const summary of exportSummariesQuery.data ?? []) {
+      byDocument.set(summary.documentId, summary);
+    }
+    return byDocument;
+  }, [exportSummariesQuery.data]);
+
+  // Export history dialog state
+  const [historyDocument, setHistoryDocument] = useState<DocumentRow | null>(
+    null
+  );
+
   // Share dialog state
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [documentToShare, setDocumentToShare] = useState<DocumentRow | null>(
@@ -253,6 +289,16 @@ export default function DocumentLibrary() {
                           {doc.total_versions} versions
                         </Typography>
                       )}
+
+                      {exportSummaries.has(doc.id) && (
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          display="block"
+                        >
+                          {formatExportSummary(exportSummaries.get(doc.id))}
+                        </Typography>
+                      )}
                     </CardContent>
 
                     <CardActions>
@@ -263,6 +309,15 @@ export default function DocumentLibrary() {
                       >
                         View
                       </Button>
+                      {exportSummaries.has(doc.id) && (
+                        <Button
+                          size="small"
+                          startIcon={<HistoryIcon />}
+                          onClick={() => setHistoryDocument(doc)}
+                        >
+                          Exports
+                        </Button>
+                      )}
                       {currentTeam && (
                         <Button
                           size="small"
@@ -302,6 +357,17 @@ export default function DocumentLibrary() {
 
       <ErrorSnackbar notification={notification} onClose={closeNotification} />
 
+      {/* Past exports with re-download */}
+      {user && historyDocument && (
+        <ExportHistoryDialog
+          open
+          onClose={() => setHistoryDocument(null)}
+          userId={user.id}
+          documentId={historyDocument.id}
+          documentName={historyDocument.name}
+        />
+      )}
+
       {/* Share Document Dialog for collaborative review (UC-110) */}
       <ShareDocumentDialog
         open={shareDialogOpen}
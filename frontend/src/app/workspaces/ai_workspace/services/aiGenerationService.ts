@@ -19,6 +19,10 @@
  * 4. Create initial version in document_versions table
  * 5. Link to job via document_jobs table (if jobId provided)
  * 6. Return document ID and preview for UI
+ *
+ * Streaming:
+ * - generateDocument streams the AI response and reports each completed
+ *   section through onProgress (GenerationProgress.sections) before saving
  */
 
 import aiGeneration from "@shared/services/ai/aiGeneration";
@@ -29,10 +33,15 @@ import type {
   GenerationOptions,
   GenerationResult,
   GenerationProgress,
+  GeneratedSectionPreview,
 } from "../types";
 import type { Template, Theme } from "../types/template.types";
 import type { ResumeContent } from "../types/document.types";
-import type { ResumeArtifactContent } from "@shared/types/ai";
+import type {
+  GeneratedSectionEvent,
+  ResumeArtifactContent,
+} from "@shared/types/ai";
+import { sectionLabel } from "./versionDiff";
 
 /**
  * Job context data (re-export from JobContextStep component)
@@ -230,7 +239,8 @@ export async function generateResume(
   template: Template,
   _theme: Theme, // Unused for now, will be used when saving to database
   jobContext?: JobContext,
-  options?: GenerationOptions
+  options?: GenerationOptions,
+  onSection?: (section: GeneratedSectionEvent) => void
 ): Promise<GenerationResult> {
   // Call backend AI generation with all options mapped correctly
   const result = await aiGeneration.generateResume(
@@ -249,7 +259,8 @@ export async function generateResume(
       length: options?.length || "standard",
       // Note: keywordMatch is applied automatically when jobId is provided
       // includePortfolio will be handled by the template's section configuration
-    }
+    },
+    onSection
   );
 
   // Transform AI content to ResumeContent format and fetch user profile
@@ -453,7 +464,8 @@ export async function generateCoverLetter(
   template: Template,
   _theme: Theme, // Unused for now, will be used when saving to database
   jobContext: JobContext, // Required for cover letters
-  options?: GenerationOptions
+  options?: GenerationOptions,
+  onSection?: (section: GeneratedSectionEvent) => void
 ): Promise<GenerationResult> {
   if (!jobContext?.jobId) {
     throw new Error("Job context required for cover letter generation");
@@ -482,7 +494,8 @@ export async function generateCoverLetter(
       tone: options?.tone || "professional",
       length: options?.length || "standard",
       templateId: template.id,
-    }
+    },
+    onSection
   );
 
   // Save to documents table
@@ -655,6 +668,47 @@ export async function generateCoverLetter(
   };
 }
 
+/**
+ * Turn a streamed section event into a wizard preview entry
+ * Container keys ("sections") and generation metadata are skipped because their
+ * children are streamed individually or carry no user-facing content.
+ */
+function toSectionPreview(
+  event: GeneratedSectionEvent
+): GeneratedSectionPreview | null {
+  const key = event.path[event.path.length - 1];
+  if (
+    !key ||
+    (event.path.length === 1 && ["sections", "metadata"].includes(key))
+  ) {
+    return null;
+  }
+
+  const { value } = event;
+  let preview: string;
+  if (typeof value === "string") {
+    preview = value;
+  } else if (Array.isArray(value)) {
+    preview = value.every((item) => typeof item === "string")
+      ? value.join(", ")
+      : `${value.length} ${value.length === 1 ? "entry" : "entries"}`;
+  } else if (value && typeof value === "object") {
+    preview = Object.values(value)
+      .filter((v): v is string => typeof v === "string")
+      .join(" · ");
+  } else {
+    preview = value == null ? "" : String(value);
+  }
+
+  return {
+    key: event.path.join("."),
+    label: sectionLabel(
+      key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase())
+    ),
+    preview: preview.length > 160 ? `${preview.slice(0, 160)}…` : preview,
+  };
+}
+
 /**
  * Generate document (resume or cover letter)
  * Convenience wrapper that routes to appropriate generation function
@@ -675,10 +729,25 @@ export async function generateDocument(
     message: string
   ) => {
     if (onProgress) {
-      onProgress({ step, progress, message, complete: false });
+      onProgress({ step, progress, message, complete: false, sections });
     }
   };
 
+  // Stream sections into progress while the AI response arrives
+  const sections: GeneratedSectionPreview[] = [];
+  const onSection = onProgress
+    ? (event: GeneratedSectionEvent) => {
+        const preview = toSectionPreview(event);
+        if (!preview) return;
+        sections.push(preview);
+        reportProgress(
+          "generating-sections",
+          Math.min(84, 70 + sections.length * 2),
+          `Received ${preview.label}...`
+        );
+      }
+    : undefined;
+
   try {
     reportProgress("initializing", 10, "Initializing generation...");
 
@@ -703,7 +772,8 @@ export async function generateDocument(
         template,
         theme,
         jobContext,
-        options
+        options,
+        onSection
       );
     } else {
       reportProgress("generating-sections", 70, "Generating cover letter...");
@@ -712,7 +782,8 @@ export async function generateDocument(
         template,
         theme,
         jobContext!,
-        options
+        options,
+        onSection
       );
     }
 
@@ -726,6 +797,7 @@ export async function generateDocument(
         progress: 100,
         message: "Document generated successfully!",
         complete: true,
+        sections,
       });
     }
 
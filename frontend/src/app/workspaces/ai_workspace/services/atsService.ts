@@ -0,0 +1,114 @@
+/**
+ * ATS SERVICE
+ *
+ * Purpose:
+ * - Score a saved resume version against a job (keyword coverage, formatting
+ *   risks) and read the stored result back for the editor
+ *
+ * Backend:
+ * - API: POST /api/ats/versions/:id (deterministic analyzer, no AI)
+ * - Database: document_versions.ats_score / ats_analysis (written by the
+ *   server, read back with getVersionAts via @shared/services/crud withUser)
+ *
+ * Usage:
+ *   import { scoreVersionAts } from '@ai_workspace/services';
+ *
+ *   const { data } = await scoreVersionAts(version.id, { jobId: 42 });
+ *   data?.analysis.missing.required; // ["Kubernetes", ...]
+ */
+
+import aiClient from "@shared/services/ai/client";
+import { withUser } from "@shared/services/crud";
+import type { Result } from "@shared/services/types";
+import type { DocumentVersionRow } from "@shared/types/database";
+import type {
+  AtsAnalysis,
+  AtsKeyword,
+  AtsScoreResult,
+  AtsSection,
+} from "../types/ats.types";
+
+function fail<T>(err: unknown, fallback: string): Result<T> {
+  const message = err instanceof Error ? err.message : fallback;
+  return { data: null, error: { message, status: null }, status: null };
+}
+
+/**
+ * Score a version and store the result on it. jobId defaults to the job the
+ * version or its document is linked to.
+ */
+export async function scoreVersionAts(
+  versionId: string,
+  options: { jobId?: number | null } = {}
+): Promise<Result<AtsScoreResult>> {
+  try {
+    const result = await aiClient.postJson<AtsScoreResult>(
+      `/api/ats/versions/${encodeURIComponent(versionId)}`,
+      options.jobId != null ? { jobId: options.jobId } : {}
+    );
+    return { data: result, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to score resume");
+  }
+}
+
+/** Stored score for a version, or null if it was never scored */
+export async function getVersionAts(
+  userId: string,
+  versionId: string
+): Promise<Result<AtsScoreResult | null>> {
+  const res = await withUser(userId).getRow<
+    Pick<
+      DocumentVersionRow,
+      "id" | "ats_analysis" | "ats_job_id" | "ats_analyzed_at"
+    >
+  >("document_versions", "id,ats_analysis,ats_job_id,ats_analyzed_at", {
+    eq: { id: versionId },
+    single: true,
+  });
+  if (res.error) return { data: null, error: res.error, status: res.status };
+
+  const row = res.data;
+  const data =
+    row?.ats_analysis && row.ats_job_id != null
+      ? {
+          versionId: row.id,
+          jobId: row.ats_job_id,
+          analyzedAt: row.ats_analyzed_at ?? "",
+          analysis: row.ats_analysis as unknown as AtsAnalysis,
+        }
+      : null;
+  return { data, error: null, status: res.status };
+}
+
+/** Display names for analyzer sections */
+export const ATS_SECTION_LABELS: Record<AtsSection, string> = {
+  header: "Header",
+  summary: "Summary",
+  experience: "Experience",
+  education: "Education",
+  skills: "Skills",
+  projects: "Projects",
+  certifications: "Certifications",
+  other: "Other",
+};
+
+/** Score band for colouring: 75+ strong, 50-74 fair, below 50 weak */
+export function atsScoreBand(score: number): "strong" | "fair" | "weak" {
+  if (score >= 75) return "strong";
+  if (score >= 50) return "fair";
+  return "weak";
+}
+
+/**
+ * Keywords to show first: missing required, missing preferred, then matched
+ * ones; job order is kept within each group
+ */
+export function sortAtsKeywords(analysis: AtsAnalysis): AtsKeyword[] {
+  const rank = (k: AtsKeyword) =>
+    k.matched ? 2 : k.importance === "required" ? 0 : 1;
+  return analysis.keywords
+    .map((keyword, index) => ({ keyword, index }))
+    .sort((a, b) => rank(a.keyword) - rank(b.keyword) || a.index - b.index)
+    .map(({ keyword }) => keyword);
+}
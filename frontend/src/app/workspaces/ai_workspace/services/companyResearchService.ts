@@ -15,9 +15,16 @@
  * - Backend manages cache in company_research_cache table
  * - Shared across all users to reduce API costs
  * - Auto-regenerates after 7 days
+ *
+ * researchCompany runs the same lookup as a server background job, so a
+ * cache miss (web search + AI) reports progress instead of timing out.
  */
 
 import aiClient from "@shared/services/ai/client";
+import {
+  runBackgroundJob,
+  type WaitOptions,
+} from "@shared/services/backgroundJobs";
 
 interface CompanyNews {
   title: string;
@@ -103,6 +110,28 @@ export async function fetchCompanyResearch(
   }
 }
 
+/**
+ * Research a company as a background job
+ *
+ * POST /api/background-jobs { kind: "company_research" }, then polls the job.
+ * Same result as fetchCompanyResearch; onProgress receives each step and
+ * aborting `signal` cancels the job.
+ *
+ * @returns CompanyResearch object or null if not found
+ */
+export async function researchCompany(
+  companyName: string,
+  options: WaitOptions & { industry?: string; jobDescription?: string } = {}
+): Promise<CompanyResearch | null> {
+  const { industry, jobDescription, ...wait } = options;
+  const result = await runBackgroundJob<{ data: CompanyResearch | null }>(
+    "company_research",
+    { companyName, industry, jobDescription },
+    wait
+  );
+  return result?.data ?? null;
+}
+
 /**
  * Get user's companies from employment history
  *
@@ -131,5 +160,6 @@ export async function getUserCompanies(): Promise<string[]> {
  */
 export const companyResearch = {
   fetchCompanyResearch,
+  researchCompany,
   getUserCompanies,
 };
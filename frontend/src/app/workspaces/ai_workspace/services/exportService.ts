@@ -1,5 +1,5 @@
 /**
- * EXPORT SERVICE (⚠️ PLACEHOLDER - Backend Integration Needed)
+ * EXPORT SERVICE
  *
  * Purpose:
  * - Export documents to various formats (PDF, DOCX, HTML, TXT)
@@ -7,35 +7,22 @@
  * - Generate print-optimized previews
  * - Support format-specific options (page size, margins, etc.)
  *
- * Current State: ⚠️ MOCK IMPLEMENTATION
- * - Contains placeholder functions with console.log only
- * - No actual PDF/DOCX generation
- * - No backend API calls
- * - All TODOs marked for integration
+ * Current State:
+ * - Client-side: PDF (jsPDF), DOCX (docx), HTML, TXT, JSON for instant downloads
+ * - Server-side: exportDocumentOnServer() renders the saved document, stores the
+ *   file in Supabase Storage and records an export_history row
+ * - getExportHistory()/getExportSummaries() read export_history via the API
+ * - getExportDownloadUrl() re-downloads the exact stored file
  *
- * Backend Connection Needed:
- * - API: POST /api/export/pdf, /api/export/docx (backend server)
- * - Database: export_history table (via @shared/services/crud)
- * - Auth: JWT token from @shared/context/AuthContext
- * - Storage: Supabase Storage for exported files (optional)
- *
- * Required Integrations:
- * 1. exportToPDF() → Call backend PDF generation endpoint
- * 2. exportToDOCX() → Call backend DOCX generation endpoint
- * 3. exportToHTML() → Render template+theme to HTML string
- * 4. exportToTXT() → Extract plain text from document
- * 5. trackExport() → Save to export_history table
- * 6. getExportHistory() → Fetch user's export history
- *
- * Migration Path:
- * 1. Import aiClient from @workspaces/ai/services/client
- * 2. Import @shared/services/crud for export history tracking
- * 3. Implement actual export API calls replacing console.log
- * 4. Add progress tracking for large exports
- * 5. Add error handling and retry logic
+ * Backend:
+ * - API: POST /api/export/:format (pdf | docx | html | txt)
+ * - API: GET /api/export/history?documentId=
+ * - API: GET /api/export/:id/download
+ * - Database: export_history table, documents.times_exported
+ * - Storage: private `exports` bucket (<user_id>/<document_id>/<export_id>.<ext>)
  *
  * Usage:
- *   import { exportDocument, trackExport } from '@ai_workspace/services';
+ *   import { exportDocument, exportDocumentOnServer } from '@ai_workspace/services';
  *
  *   await exportDocument(document, template, theme, {
  *     format: 'pdf',
@@ -43,11 +30,51 @@
  *     includeTemplate: true,
  *     includeTheme: true
  *   });
+ *
+ *   await exportDocumentOnServer(document.id, 'pdf', { sentTo: 'Acme' });
  */
 
-import type { Document } from "../types/document.types";
-import type { Template, Theme } from "../types/template.types";
+import type {
+  CoverLetterContent,
+  CoverLetterHeader,
+  CoverLetterRecipient,
+  CoverLetterSignature,
+  Document,
+  ResumeCertifications,
+  ResumeContent,
+  ResumeEducation,
+  ResumeExperience,
+  ResumeHeader,
+  ResumeProjects,
+  ResumeSkills,
+  ResumeSummary,
+} from "../types/document.types";
+import type {
+  FontConfig,
+  Template,
+  Theme,
+} from "../types/template.types";
+import aiClient from "@shared/services/ai/client";
 import { jsPDF } from "jspdf";
+import {
+  AlignmentType,
+  BorderStyle,
+  Document as DocxDocument,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  TextRun,
+} from "docx";
+
+type ExperienceItem = ResumeExperience["items"][number];
+type EducationItem = ResumeEducation["items"][number];
+type SkillCategory = ResumeSkills["categories"][number];
+type ProjectItem = ResumeProjects["items"][number];
+type CertificationItem = ResumeCertifications["items"][number];
+/** A resume or cover letter section, or one cover letter paragraph */
+type SectionData =
+  | ResumeContent[keyof ResumeContent]
+  | CoverLetterContent[keyof CoverLetterContent];
 
 /**
  * Export format types
@@ -137,6 +164,11 @@ export interface ExportResult {
   };
 }
 
+/**
+ * Formats rendered by the server export endpoint
+ */
+export type ServerExportFormat = Exclude<ExportFormat, "json">;
+
 /**
  * Export history entry
  */
@@ -148,6 +180,49 @@ export interface ExportHistoryEntry {
   timestamp: string;
   fileSize?: number;
   downloadUrl?: string;
+  /** Company/recipient the file was prepared for */
+  sentTo?: string;
+  downloadCount?: number;
+  status?: "completed" | "failed";
+}
+
+/**
+ * Per-document export summary ("Exported 3 times · last sent to Acme")
+ */
+export interface ExportSummary {
+  documentId: string;
+  exportCount: number;
+  lastExportedAt: string | null;
+  lastSentTo: string | null;
+}
+
+/**
+ * export_history row as returned by the API
+ */
+interface ExportHistoryRow {
+  id: string;
+  document_id: string;
+  format: ExportFormat;
+  file_name: string;
+  file_size_bytes: number | null;
+  status: "completed" | "failed";
+  sent_to: string | null;
+  created_at: string;
+  download_count: number;
+}
+
+function mapExportHistoryRow(row: ExportHistoryRow): ExportHistoryEntry {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    format: row.format,
+    filename: row.file_name,
+    timestamp: row.created_at,
+    fileSize: row.file_size_bytes ?? undefined,
+    sentTo: row.sent_to ?? undefined,
+    downloadCount: row.download_count,
+    status: row.status,
+  };
 }
 
 /**
@@ -655,28 +730,524 @@ async function exportToPDF(
 /**
  * Export document to DOCX
  *
- * Uses backend DOCX generation service or client-side library (e.g., docx.js)
+ * Uses the docx library for client-side Word generation. Mirrors the section
+ * walk used by exportToPDF so both formats stay in sync with the template's
+ * section order. Output is kept ATS-friendly: single column, real heading
+ * paragraphs, native bullet lists, no tables, text boxes or images, and
+ * contact details in the document body instead of the page header.
  */
 async function exportToDOCX(
-  _document: Document,
-  _template: Template,
-  _theme: Theme,
-  _options: ExportOptions,
-  _filename: string
+  document: Document,
+  template: Template,
+  theme: Theme,
+  options: ExportOptions,
+  filename: string,
 ): Promise<ExportResult> {
-  // TODO: Integrate with backend DOCX generation endpoint
-  // POST /api/export/docx with document, template, theme data
-  // Or use client-side library like docx.js
+  try {
+    const content = document.content as Partial<
+      ResumeContent & CoverLetterContent
+    >;
+    const useTheme = options.includeTheme;
+
+    // Theme colors (docx wants hex without the leading #)
+    const toDocxColor = (color: unknown, fallback: string): string => {
+      if (!useTheme || typeof color !== "string") return fallback;
+      const hex = color.startsWith("#") ? color.slice(1) : color;
+      return /^[0-9a-fA-F]{6}$/.test(hex) ? hex.toUpperCase() : fallback;
+    };
 
-  // Mock implementation - return error for now
-  await new Promise((resolve) => setTimeout(resolve, 500));
+    const colors = {
+      primary: toDocxColor(theme.colors?.primary, "000000"),
+      text: toDocxColor(
+        theme.colors?.text?.primary || theme.colors?.text,
+        "000000",
+      ),
+      secondary: toDocxColor(theme.colors?.text?.secondary, "555555"),
+      border: toDocxColor(
+        theme.colors?.border || theme.colors?.primary,
+        "999999",
+      ),
+    };
 
-  return {
-    success: false,
-    filename: "",
-    error:
-      "DOCX export is not yet implemented. Please use HTML or TXT format for now, or contact support for assistance.",
-  };
+    // Theme fonts (first family only - Word has no CSS-style fallback list)
+    const toFontName = (font: unknown, fallback: string): string => {
+      if (!useTheme) return fallback;
+      const family =
+        typeof font === "string"
+          ? font
+          : (font as Partial<FontConfig> | undefined)?.family;
+      if (typeof family !== "string" || !family.trim()) return fallback;
+      return family.split(",")[0].replace(/["']/g, "").trim() || fallback;
+    };
+
+    const fonts = {
+      heading: toFontName(theme.typography?.headingFont, "Calibri"),
+      body: toFontName(theme.typography?.bodyFont, "Calibri"),
+    };
+
+    // Theme sizes are points; docx sizes are half-points
+    const sizes = theme.typography?.sizes;
+    const toHalfPoints = (pt: number | undefined, fallback: number) =>
+      Math.round((useTheme && pt ? pt : fallback) * 2);
+    const fontSize = {
+      name: toHalfPoints(sizes?.h1, 20),
+      heading: toHalfPoints(sizes?.h2, 12),
+      itemTitle: toHalfPoints(sizes?.h3, 10.5),
+      body: toHalfPoints(sizes?.body, 10),
+      small: toHalfPoints(sizes?.small, 9),
+    };
+
+    const children: Paragraph[] = [];
+
+    const addText = (
+      text: string,
+      size: number,
+      opts: {
+        bold?: boolean;
+        italics?: boolean;
+        color?: string;
+        font?: string;
+        spacingAfter?: number;
+        alignment?: (typeof AlignmentType)[keyof typeof AlignmentType];
+      } = {},
+    ) => {
+      if (!text) return;
+      children.push(
+        new Paragraph({
+          alignment: opts.alignment,
+          spacing: { after: opts.spacingAfter ?? 0 },
+          children: [
+            new TextRun({
+              text,
+              size,
+              bold: opts.bold,
+              italics: opts.italics,
+              color: opts.color || colors.text,
+              font: opts.font || fonts.body,
+            }),
+          ],
+        }),
+      );
+    };
+
+    // Blank line between cover letter blocks / resume sections (in twips)
+    const addSpacer = (after = 120) => {
+      children.push(new Paragraph({ spacing: { after }, children: [] }));
+    };
+
+    // Section headings use real Heading 2 paragraphs so ATS parsers and
+    // Word's navigation pane both recognize the section boundaries
+    const addSectionHeading = (title: string) => {
+      const showDivider =
+        !useTheme || theme.elements?.sectionDivider !== "none";
+      children.push(
+        new Paragraph({
+          heading: HeadingLevel.HEADING_2,
+          keepNext: true,
+          spacing: { before: 240, after: 80 },
+          border: showDivider
+            ? {
+                bottom: {
+                  style: BorderStyle.SINGLE,
+                  size: 6,
+                  color: colors.border,
+                  space: 1,
+                },
+              }
+            : undefined,
+          children: [
+            new TextRun({
+              text: title,
+              bold: true,
+              size: fontSize.heading,
+              color: colors.primary,
+              font: fonts.heading,
+            }),
+          ],
+        }),
+      );
+    };
+
+    const addBullet = (text: string) => {
+      if (!text || !text.trim()) return;
+      children.push(
+        new Paragraph({
+          bullet: { level: 0 },
+          spacing: { after: 40 },
+          children: [
+            new TextRun({
+              text: text.trim(),
+              size: fontSize.body,
+              color: colors.text,
+              font: fonts.body,
+            }),
+          ],
+        }),
+      );
+    };
+
+    // Helper to render a section based on its type
+    const renderSection = (sectionType: string, sectionData: SectionData) => {
+      if (
+        !sectionData ||
+        (sectionData as { enabled?: boolean }).enabled === false
+      ) {
+        return;
+      }
+
+      switch (sectionType) {
+        case "header": {
+          const header = sectionData as Partial<
+            ResumeHeader & CoverLetterHeader
+          >;
+          if (document.type === "resume") {
+            children.push(
+              new Paragraph({
+                heading: HeadingLevel.TITLE,
+                alignment: AlignmentType.CENTER,
+                spacing: { after: 40 },
+                children: [
+                  new TextRun({
+                    text: header.fullName || "",
+                    bold: true,
+                    size: fontSize.name,
+                    color: colors.primary,
+                    font: fonts.heading,
+                  }),
+                ],
+              }),
+            );
+            addText(header.title || "", fontSize.itemTitle, {
+              color: colors.secondary,
+              alignment: AlignmentType.CENTER,
+              spacingAfter: 40,
+            });
+            const contactInfo = [
+              header.email,
+              header.phone,
+              header.location,
+              ...(header.links || []).map(
+                (link: { url?: string }) => link?.url,
+              ),
+            ]
+              .filter(Boolean)
+              .join(" | ");
+            addText(contactInfo, fontSize.small, {
+              color: colors.secondary,
+              alignment: AlignmentType.CENTER,
+            });
+          } else {
+            // Cover letter header
+            addText(header.fullName || "", fontSize.itemTitle, {
+              bold: true,
+              color: colors.primary,
+              font: fonts.heading,
+            });
+            addText(header.email || "", fontSize.small);
+            addText(header.phone || "", fontSize.small);
+            addText(header.location || "", fontSize.small);
+            addSpacer();
+            addText(
+              header.date || new Date().toLocaleDateString(),
+              fontSize.body,
+              { color: colors.secondary },
+            );
+            addSpacer();
+          }
+          break;
+        }
+
+        case "summary": {
+          const summary = sectionData as ResumeSummary;
+          if (summary.text) {
+            addSectionHeading("PROFESSIONAL SUMMARY");
+            addText(summary.text, fontSize.body);
+          }
+          break;
+        }
+
+        case "experience": {
+          const experience = sectionData as ResumeExperience;
+          if (experience.items && experience.items.length > 0) {
+            addSectionHeading("WORK EXPERIENCE");
+
+            experience.items.forEach((exp: ExperienceItem, index: number) => {
+              if (index > 0) addSpacer(80);
+              addText(exp.title || "", fontSize.itemTitle, { bold: true });
+              addText(
+                [exp.company, exp.location].filter(Boolean).join(" • "),
+                fontSize.body,
+                { color: colors.secondary },
+              );
+              const startDate = exp.startDate || "";
+              const endDate = exp.current ? "Present" : exp.endDate || "";
+              if (startDate && endDate) {
+                addText(`${startDate} – ${endDate}`, fontSize.small, {
+                  color: colors.secondary,
+                  spacingAfter: 40,
+                });
+              }
+              (exp.bullets || []).forEach((bullet: string) =>
+                addBullet(bullet),
+              );
+            });
+          }
+          break;
+        }
+
+        case "education": {
+          const education = sectionData as ResumeEducation;
+          if (education.items && education.items.length > 0) {
+            addSectionHeading("EDUCATION");
+
+            education.items.forEach((edu: EducationItem, index: number) => {
+              if (index > 0) addSpacer(80);
+              addText(
+                edu.field
+                  ? `${edu.degree || ""} in ${edu.field}`
+                  : edu.degree || "",
+                fontSize.itemTitle,
+                { bold: true },
+              );
+              addText(
+                `${edu.institution || ""}${
+                  edu.location ? ` - ${edu.location}` : ""
+                }`,
+                fontSize.body,
+                { color: colors.secondary },
+              );
+              addText(edu.graduationDate || "", fontSize.small, {
+                color: colors.secondary,
+              });
+              if (edu.gpa) addText(`GPA: ${edu.gpa}`, fontSize.body);
+              if (edu.honors) addText(edu.honors, fontSize.body);
+            });
+          }
+          break;
+        }
+
+        case "skills": {
+          const skills = sectionData as ResumeSkills;
+          if (skills.categories && skills.categories.length > 0) {
+            addSectionHeading("SKILLS");
+
+            // "Category: a, b, c" on one line keeps skills parseable as text
+            skills.categories.forEach((category: SkillCategory) => {
+              const skillsText =
+                category.skills
+                  ?.map((s: { name: string }) => s.name)
+                  .join(", ") || "";
+              children.push(
+                new Paragraph({
+                  spacing: { after: 40 },
+                  children: [
+                    new TextRun({
+                      text: category.name ? `${category.name}: ` : "",
+                      bold: true,
+                      size: fontSize.body,
+                      color: colors.secondary,
+                      font: fonts.body,
+                    }),
+                    new TextRun({
+                      text: skillsText,
+                      size: fontSize.body,
+                      color: colors.text,
+                      font: fonts.body,
+                    }),
+                  ],
+                }),
+              );
+            });
+          }
+          break;
+        }
+
+        case "projects": {
+          const projects = sectionData as ResumeProjects;
+          if (projects.items && projects.items.length > 0) {
+            addSectionHeading("PROJECTS");
+
+            projects.items.forEach((project: ProjectItem, index: number) => {
+              if (index > 0) addSpacer(80);
+              addText(project.name || "", fontSize.itemTitle, { bold: true });
+              if (project.technologies?.length) {
+                addText(project.technologies.join(", "), fontSize.small, {
+                  color: colors.secondary,
+                });
+              }
+              if (project.description) {
+                addText(project.description, fontSize.body);
+              }
+              (project.highlights || []).forEach((highlight: string) =>
+                addBullet(highlight),
+              );
+            });
+          }
+          break;
+        }
+
+        case "certifications": {
+          const certifications = sectionData as ResumeCertifications;
+          if (certifications.items && certifications.items.length > 0) {
+            addSectionHeading("CERTIFICATIONS");
+
+            certifications.items.forEach((cert: CertificationItem) => {
+              addText(cert.name || "", fontSize.itemTitle, { bold: true });
+              const issuerLine = [cert.issuer, cert.date]
+                .filter(Boolean)
+                .join(" • ");
+              addText(issuerLine, fontSize.body, {
+                color: colors.secondary,
+                spacingAfter: 60,
+              });
+            });
+          }
+          break;
+        }
+
+        case "recipient": {
+          const recipient = sectionData as CoverLetterRecipient;
+          // Cover letter recipient
+          if (recipient.name) addText(recipient.name, fontSize.body);
+          if (recipient.title) addText(recipient.title, fontSize.body);
+          addText(recipient.company || "", fontSize.body, { bold: true });
+          if (recipient.address) addText(recipient.address, fontSize.body);
+          addSpacer();
+          break;
+        }
+
+        case "salutation":
+        case "paragraph":
+          // Cover letter salutation/body paragraphs
+          if (typeof sectionData === "string") {
+            addText(sectionData, fontSize.body, { spacingAfter: 200 });
+          }
+          break;
+
+        case "signature": {
+          const signature = sectionData as CoverLetterSignature;
+          // Cover letter signature
+          addText(signature.closing || "Sincerely,", fontSize.body, {
+            spacingAfter: 480,
+          });
+          addText(
+            signature.name || content.header?.fullName || "",
+            fontSize.body,
+            { bold: true },
+          );
+          break;
+        }
+
+        default:
+          // Generic text section
+          if (typeof sectionData === "string" && sectionData) {
+            addText(sectionData, fontSize.body, { spacingAfter: 120 });
+          }
+      }
+    };
+
+    // Use template's section order if includeTemplate is true
+    if (options.includeTemplate && template.layout.sectionOrder) {
+      template.layout.sectionOrder.forEach((section) => {
+        const sectionData = content[section.id as keyof typeof content];
+        const enabled = (sectionData as { enabled?: boolean } | undefined)
+          ?.enabled;
+        if (!section.defaultEnabled && !enabled) return;
+
+        if (sectionData) {
+          renderSection(section.type, sectionData);
+        }
+      });
+    } else if (document.type === "resume") {
+      // Render in standard order
+      if (content.header) renderSection("header", content.header);
+      if (content.summary) renderSection("summary", content.summary);
+      if (content.experience) renderSection("experience", content.experience);
+      if (content.education) renderSection("education", content.education);
+      if (content.skills) renderSection("skills", content.skills);
+      if (content.projects) renderSection("projects", content.projects);
+      if (content.certifications)
+        renderSection("certifications", content.certifications);
+    } else if (document.type === "cover-letter") {
+      // Cover letter sections in order
+      if (content.header) renderSection("header", content.header);
+      if (content.recipient) renderSection("recipient", content.recipient);
+      renderSection("salutation", content.salutation || "Dear Hiring Manager,");
+      [
+        content.body?.opening,
+        content.body?.body1,
+        content.body?.body2,
+        content.body?.body3,
+        content.body?.closing,
+      ].forEach((paragraph) => {
+        if (paragraph) renderSection("paragraph", paragraph);
+      });
+      if (content.signature) renderSection("signature", content.signature);
+    }
+
+    // Page setup (template margins are inches; docx uses twips)
+    const pageSize =
+      options.pdfOptions?.pageSize?.toLowerCase() ||
+      template.layout.pageSize ||
+      "letter";
+    const toTwips = (inches: number | undefined) =>
+      Math.round((inches || 0.75) * 1440);
+
+    const docx = new DocxDocument({
+      creator: content.header?.fullName || "FlowATS",
+      title: document.config.name,
+      description: `${
+        document.type === "resume" ? "Resume" : "Cover letter"
+      } exported from FlowATS`,
+      styles: {
+        default: {
+          document: {
+            run: { font: fonts.body, size: fontSize.body, color: colors.text },
+          },
+        },
+      },
+      sections: [
+        {
+          properties: {
+            page: {
+              size:
+                pageSize === "a4"
+                  ? { width: 11906, height: 16838 }
+                  : { width: 12240, height: 15840 },
+              margin: {
+                top: toTwips(template.layout.margins?.top),
+                right: toTwips(template.layout.margins?.right),
+                bottom: toTwips(template.layout.margins?.bottom),
+                left: toTwips(template.layout.margins?.left),
+              },
+            },
+          },
+          children,
+        },
+      ],
+    });
+
+    const docxBlob = await Packer.toBlob(docx);
+    const url = URL.createObjectURL(docxBlob);
+
+    return {
+      success: true,
+      downloadUrl: url,
+      filename: `${filename}.docx`,
+      fileSize: docxBlob.size,
+      metadata: {
+        format: "docx",
+        timestamp: new Date().toISOString(),
+        version: "1.0",
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      filename: "",
+      error: error instanceof Error ? error.message : "DOCX generation failed",
+    };
+  }
 }
 
 /**
@@ -1096,39 +1667,90 @@ export function downloadExportedFile(
   }
 }
 
+/**
+ * Export a saved document on the server
+ *
+ * Renders the document's current version with the given template/theme,
+ * stores the file and records it in export_history.
+ *
+ * @param documentId - documents.id
+ * @param format - Server export format
+ * @returns Export result with a signed download URL
+ */
+export async function exportDocumentOnServer(
+  documentId: string,
+  format: ServerExportFormat,
+  options: {
+    templateId?: string;
+    themeId?: string;
+    sentTo?: string;
+    filename?: string;
+  } = {}
+): Promise<ExportResult> {
+  try {
+    const response = await aiClient.postJson<{
+      export: ExportHistoryRow;
+      downloadUrl: string | null;
+    }>(`/api/export/${format}`, { documentId, ...options });
+
+    return {
+      success: true,
+      downloadUrl: response.downloadUrl ?? undefined,
+      filename: response.export.file_name,
+      fileSize: response.export.file_size_bytes ?? undefined,
+      metadata: {
+        format,
+        timestamp: response.export.created_at,
+        version: "1.0",
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      filename: "",
+      error: error instanceof Error ? error.message : "Export failed",
+    };
+  }
+}
+
 /**
  * Get export history for a document
  *
  * @param documentId - Document ID
- * @returns Array of export history entries
+ * @returns Array of export history entries (newest first)
  */
 export async function getExportHistory(
   documentId: string
 ): Promise<ExportHistoryEntry[]> {
-  // TODO: Fetch from backend API
-  // GET /api/documents/{documentId}/export-history
+  const response = await aiClient.getJson<{ exports: ExportHistoryRow[] }>(
+    `/api/export/history?documentId=${encodeURIComponent(documentId)}`
+  );
+  return (response.exports ?? []).map(mapExportHistoryRow);
+}
 
-  // Mock implementation
-  await new Promise((resolve) => setTimeout(resolve, 300));
+/**
+ * Get export summaries for all of the user's documents
+ *
+ * @returns One summary per exported document
+ */
+export async function getExportSummaries(): Promise<ExportSummary[]> {
+  const response = await aiClient.getJson<{ summaries: ExportSummary[] }>(
+    "/api/export/history"
+  );
+  return response.summaries ?? [];
+}
 
-  return [
-    {
-      id: "1",
-      documentId,
-      format: "pdf",
-      filename: "resume_2025-11-15.pdf",
-      timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-      fileSize: 245760,
-    },
-    {
-      id: "2",
-      documentId,
-      format: "docx",
-      filename: "resume_2025-11-10.docx",
-      timestamp: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-      fileSize: 180224,
-    },
-  ];
+/**
+ * Get a fresh download URL for a past export
+ *
+ * @param exportId - export_history.id
+ * @returns Signed URL for the exact stored file
+ */
+export async function getExportDownloadUrl(exportId: string): Promise<string> {
+  const response = await aiClient.getJson<{ downloadUrl: string }>(
+    `/api/export/${encodeURIComponent(exportId)}/download`
+  );
+  return response.downloadUrl;
 }
 
 /**
@@ -5,17 +5,20 @@
  * - aiGenerationService: ✅ Backend integrated - AI document generation with database persistence
  * - templateService: ✅ Database integrated - Fetch templates from database with static fallback
  * - themeService: ⏳ Static only - Visual theme management (needs themes table)
- * - versionService: ⏳ In-memory only - Document version control (needs document_versions table)
- * - exportService: ⏳ Placeholders - Document export (needs backend export API)
+ * - versionService: ✅ Database integrated - Document versions with section/word-level diffs
+ * - exportService: ✅ Client-side + server export with export history
  * - companyResearchService: ✅ Backend integrated - Company research with shared cache
+ * - atsService: ✅ Backend integrated - Deterministic ATS keyword scoring per version
  *
  * Backend Integration Status:
  * ✅ AI Generation: POST /api/generate/resume, /api/generate/cover-letter
  * ✅ Templates: Fetches from templates table via @shared/services/crud
  * ✅ Documents: Saves to documents + document_versions tables
+ * ✅ Versions: document_versions history, compare, restore, branch, merge
  * ✅ Company Research: GET /api/company/research (7-day shared cache)
  * ⏳ Themes: TODO - Connect to themes table
- * ⏳ Export: TODO - Connect to backend export API
+ * ✅ Export: POST /api/export/:format, GET /api/export/history
+ * ✅ ATS scoring: POST /api/ats/versions/:id
  */
 
 // =====================================================================
@@ -40,10 +43,12 @@ export * from "./themeService";
 export * from "./companyResearchService";
 
 // =====================================================================
-// DOCUMENT SERVICES (In-Memory/Placeholder)
+// DOCUMENT SERVICES (Versions + Export)
 // =====================================================================
 export * from "./versionService";
+export * from "./versionDiff";
 export * from "./exportService";
+export * from "./atsService";
 
 // =====================================================================
 // REVIEW SERVICE (UC-110: Collaborative Document Review)
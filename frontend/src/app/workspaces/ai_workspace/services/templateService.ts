@@ -120,9 +120,23 @@ export function validateTemplate(template: Template): TemplateValidationResult {
     errors.push("Layout must have at least 1 column");
   }
 
-  if (template.layout && template.layout.columns > 2) {
+  // Same layout risks the server's ATS analyzer deducts points for
+  if (template.layout && template.layout.columns > 1) {
     warnings.push(
-      "Templates with more than 2 columns may have ATS compatibility issues"
+      "Multi-column layouts may be read out of order by ATS parsers"
+    );
+  }
+
+  const headerFooter = template.layout?.headerFooter;
+  if (headerFooter?.showHeader || headerFooter?.showFooter) {
+    warnings.push(
+      "Many ATS skip page headers and footers; keep contact details in the body"
+    );
+  }
+
+  if (template.features?.photoSupport) {
+    warnings.push(
+      "Photos are ignored by ATS, and some regions filter out resumes that include one"
     );
   }
 
@@ -0,0 +1,439 @@
+/**
+ * VERSION DIFF
+ *
+ * Purpose:
+ * - Section-level and word-level diffs between two document content snapshots
+ * - Change summaries stored on document_versions (changed_sections, change_summary)
+ * - Comparison data for VersionComparisonView / VersionHistoryTimeline
+ *
+ * How it works:
+ * 1. Each top-level content key (header, summary, experience, body...) is a section
+ * 2. A section is flattened to text lines (strings, item fields, bullets)
+ * 3. Lines and words are diffed with a longest-common-subsequence walk
+ * 4. Similarity = shared words / average word count (Dice coefficient)
+ *
+ * Pure functions only - no database access.
+ */
+
+import type {
+  ComparisonDiff,
+  ComparisonSummary,
+  DocumentVersion,
+  LineDiff,
+  VersionComparison,
+  VersionDiff,
+  WordDiff,
+} from "../types/version.types";
+
+type DiffOp = "added" | "removed" | "unchanged";
+type SectionDiff = ComparisonDiff["sections"][number];
+
+/** Display order for known sections (resume first, then cover letter) */
+const SECTION_ORDER = [
+  "header",
+  "summary",
+  "experience",
+  "education",
+  "skills",
+  "projects",
+  "certifications",
+  "publications",
+  "awards",
+  "languages",
+  "customSections",
+  "recipient",
+  "salutation",
+  "body",
+  "signature",
+];
+
+const SECTION_LABELS: Record<string, string> = {
+  header: "Header",
+  summary: "Summary",
+  experience: "Experience",
+  education: "Education",
+  skills: "Skills",
+  projects: "Projects",
+  certifications: "Certifications",
+  publications: "Publications",
+  awards: "Awards",
+  languages: "Languages",
+  customSections: "Custom Sections",
+  recipient: "Recipient",
+  salutation: "Salutation",
+  body: "Body",
+  signature: "Signature",
+};
+
+/** Fields that carry UI state rather than document text */
+const IGNORED_FIELDS = new Set(["enabled", "id", "highlighted"]);
+
+/** LCS table cap (cells); larger inputs fall back to a prefix/suffix diff */
+const MAX_LCS_CELLS = 2_000_000;
+
+// ============================================================================
+// Flattening
+// ============================================================================
+
+/**
+ * Flatten a section value into ordered text lines.
+ * Strings become lines, arrays/objects are walked in order, flags are skipped.
+ */
+export function sectionToLines(value: unknown): string[] {
+  if (value == null || typeof value === "boolean") return [];
+  if (typeof value === "string") {
+    return value
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean);
+  }
+  if (typeof value === "number") return [String(value)];
+  if (Array.isArray(value)) return value.flatMap(sectionToLines);
+  if (typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([key]) => !IGNORED_FIELDS.has(key))
+      .flatMap(([, child]) => sectionToLines(child));
+  }
+  return [];
+}
+
+/** Split text into words (whitespace separated, punctuation kept) */
+export function tokenizeWords(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function isDisabled(value: unknown): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { enabled?: unknown }).enabled === false
+  );
+}
+
+/** Sort comparator: known sections in display order, others alphabetically */
+function compareSectionKeys(a: string, b: string): number {
+  const ia = SECTION_ORDER.indexOf(a);
+  const ib = SECTION_ORDER.indexOf(b);
+  if (ia === -1 && ib === -1) return a.localeCompare(b);
+  if (ia === -1) return 1;
+  if (ib === -1) return -1;
+  return ia - ib;
+}
+
+function sectionKeys(
+  contentA: Record<string, unknown>,
+  contentB: Record<string, unknown>
+): string[] {
+  const keys = new Set([...Object.keys(contentA), ...Object.keys(contentB)]);
+  return Array.from(keys).sort(compareSectionKeys);
+}
+
+/** Human-readable section label */
+export function sectionLabel(key: string): string {
+  return (
+    SECTION_LABELS[key] ??
+    key
+      .replace(/([a-z])([A-Z])/g, "$1 $2")
+      .replace(/^./, (c) => c.toUpperCase())
+  );
+}
+
+function asRecord(content: unknown): Record<string, unknown> {
+  return content && typeof content === "object" && !Array.isArray(content)
+    ? (content as Record<string, unknown>)
+    : {};
+}
+
+// ============================================================================
+// Sequence diff (LCS)
+// ============================================================================
+
+/**
+ * Diff two token sequences.
+ * Common prefix/suffix are trimmed first so typical edits stay cheap.
+ */
+export function diffSequences(
+  a: string[],
+  b: string[]
+): Array<{ type: DiffOp; value: string }> {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head = a
+    .slice(0, start)
+    .map((value) => ({ type: "unchanged" as DiffOp, value }));
+  const tail = a
+    .slice(endA)
+    .map((value) => ({ type: "unchanged" as DiffOp, value }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  const n = midA.length;
+  const m = midB.length;
+  const middle: Array<{ type: DiffOp; value: string }> = [];
+
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    midA.forEach((value) => middle.push({ type: "removed", value }));
+    midB.forEach((value) => middle.push({ type: "added", value }));
+    return [...head, ...middle, ...tail];
+  }
+
+  // table[i][j] = LCS length of midA[i..] and midB[j..]
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] =
+        midA[i] === midB[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: "unchanged", value: midA[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      middle.push({ type: "removed", value: midA[i++] });
+    } else {
+      middle.push({ type: "added", value: midB[j++] });
+    }
+  }
+  while (i < n) middle.push({ type: "removed", value: midA[i++] });
+  while (j < m) middle.push({ type: "added", value: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+/** Line-level diff; line numbers refer to version B (or A for removed lines) */
+export function diffLines(linesA: string[], linesB: string[]): LineDiff[] {
+  let lineA = 0;
+  let lineB = 0;
+  return diffSequences(linesA, linesB).map(({ type, value }) => {
+    if (type === "removed") {
+      lineA++;
+      return { lineNumber: lineA, type, content: value };
+    }
+    if (type === "added") {
+      lineB++;
+      return { lineNumber: lineB, type, content: value };
+    }
+    lineA++;
+    lineB++;
+    return { lineNumber: lineB, type, content: value };
+  });
+}
+
+/** Word-level diff with consecutive words of the same type merged */
+export function diffWords(textA: string, textB: string): WordDiff[] {
+  const merged: WordDiff[] = [];
+  for (const { type, value } of diffSequences(
+    tokenizeWords(textA),
+    tokenizeWords(textB)
+  )) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === type) {
+      last.text += ` ${value}`;
+    } else {
+      merged.push({ type, text: value });
+    }
+  }
+  return merged;
+}
+
+// ============================================================================
+// Content diff
+// ============================================================================
+
+interface ContentDiffResult {
+  sections: SectionDiff[];
+  summary: ComparisonSummary;
+}
+
+/**
+ * Section-by-section diff of two content snapshots.
+ * Disabled sections count as absent.
+ */
+export function diffContent(
+  contentA: unknown,
+  contentB: unknown
+): ContentDiffResult {
+  const recordA = asRecord(contentA);
+  const recordB = asRecord(contentB);
+
+  const sections: SectionDiff[] = [];
+  let wordsA = 0;
+  let wordsB = 0;
+  let charsA = 0;
+  let charsB = 0;
+  let sharedWords = 0;
+
+  for (const key of sectionKeys(recordA, recordB)) {
+    const valueA = isDisabled(recordA[key]) ? undefined : recordA[key];
+    const valueB = isDisabled(recordB[key]) ? undefined : recordB[key];
+    const linesA = sectionToLines(valueA);
+    const linesB = sectionToLines(valueB);
+    if (linesA.length === 0 && linesB.length === 0) continue;
+
+    const textA = linesA.join("\n");
+    const textB = linesB.join("\n");
+    const wordDiff = diffWords(textA, textB);
+
+    const sectionWordsA = tokenizeWords(textA).length;
+    const sectionWordsB = tokenizeWords(textB).length;
+    wordsA += sectionWordsA;
+    wordsB += sectionWordsB;
+    charsA += textA.length;
+    charsB += textB.length;
+    sharedWords += wordDiff
+      .filter((part) => part.type === "unchanged")
+      .reduce((sum, part) => sum + tokenizeWords(part.text).length, 0);
+
+    const type: SectionDiff["type"] =
+      linesA.length === 0
+        ? "added"
+        : linesB.length === 0
+          ? "removed"
+          : textA === textB
+            ? "unchanged"
+            : "modified";
+
+    sections.push({
+      name: sectionLabel(key),
+      key,
+      type,
+      contentA: valueA,
+      contentB: valueB,
+      lineDiff: type === "unchanged" ? undefined : diffLines(linesA, linesB),
+      wordDiff: type === "unchanged" ? undefined : wordDiff,
+    });
+  }
+
+  const totalWords = wordsA + wordsB;
+  return {
+    sections,
+    summary: {
+      totalSections: sections.length,
+      sectionsAdded: sections.filter((s) => s.type === "added").length,
+      sectionsRemoved: sections.filter((s) => s.type === "removed").length,
+      sectionsModified: sections.filter((s) => s.type === "modified").length,
+      charDifference: charsB - charsA,
+      wordDifference: wordsB - wordsA,
+      similarityScore:
+        totalWords === 0 ? 100 : Math.round((200 * sharedWords) / totalWords),
+    },
+  };
+}
+
+/**
+ * Full comparison of two versions (A = older, B = newer)
+ */
+export function buildVersionComparison(
+  versionA: DocumentVersion,
+  versionB: DocumentVersion
+): VersionComparison {
+  const { sections, summary } = diffContent(versionA.content, versionB.content);
+
+  const atsA = versionA.stats.atsScore;
+  const atsB = versionB.stats.atsScore;
+
+  return {
+    versionA,
+    versionB,
+    diff: {
+      sections,
+      templateChanged: versionA.templateId !== versionB.templateId,
+      themeChanged: versionA.themeId !== versionB.themeId,
+    },
+    summary: {
+      ...summary,
+      atsScoreDifference:
+        atsA !== undefined && atsB !== undefined ? atsB - atsA : undefined,
+    },
+  };
+}
+
+/**
+ * Compact diff stored alongside a version (what changed vs. its parent)
+ */
+export function summarizeVersionDiff(
+  previousContent: unknown,
+  nextContent: unknown
+): VersionDiff {
+  const { sections, summary } = diffContent(previousContent, nextContent);
+  return {
+    added: sections.filter((s) => s.type === "added").map((s) => s.key),
+    removed: sections.filter((s) => s.type === "removed").map((s) => s.key),
+    modified: sections
+      .filter((s) => s.type === "modified")
+      .map((s) => ({
+        section: s.key,
+        changes: (s.wordDiff ?? []).filter((part) => part.type !== "unchanged")
+          .length,
+      })),
+    charDelta: summary.charDifference,
+    wordDelta: summary.wordDifference,
+  };
+}
+
+/** Section keys touched by a diff, in display order */
+export function changedSectionsOf(diff: VersionDiff): string[] {
+  return [
+    ...diff.added,
+    ...diff.removed,
+    ...diff.modified.map((entry) => entry.section),
+  ].sort(compareSectionKeys);
+}
+
+/**
+ * One-line change summary, e.g. "Updated Experience, Skills (+12 words)"
+ */
+export function describeVersionDiff(diff: VersionDiff): string {
+  const parts: string[] = [];
+  if (diff.modified.length > 0) {
+    parts.push(
+      `Updated ${diff.modified.map((m) => sectionLabel(m.section)).join(", ")}`
+    );
+  }
+  if (diff.added.length > 0) {
+    parts.push(`Added ${diff.added.map(sectionLabel).join(", ")}`);
+  }
+  if (diff.removed.length > 0) {
+    parts.push(`Removed ${diff.removed.map(sectionLabel).join(", ")}`);
+  }
+  if (parts.length === 0) return "No content changes";
+
+  const delta =
+    diff.wordDelta === 0
+      ? ""
+      : ` (${diff.wordDelta > 0 ? "+" : ""}${diff.wordDelta} words)`;
+  return `${parts.join("; ")}${delta}`;
+}
+
+/** Word and character totals for a content snapshot */
+export function countContent(content: unknown): {
+  wordCount: number;
+  characterCount: number;
+} {
+  const record = asRecord(content);
+  const text = Object.values(record)
+    .filter((value) => !isDisabled(value))
+    .flatMap(sectionToLines)
+    .join("\n");
+  return {
+    wordCount: tokenizeWords(text).length,
+    characterCount: text.length,
+  };
+}
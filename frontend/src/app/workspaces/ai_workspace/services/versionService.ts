@@ -1,37 +1,29 @@
 /**
- * VERSION SERVICE (UI-Only - No Backend Integration)
+ * VERSION SERVICE (Database Integration)
  *
  * Purpose:
  * - Manage document version history and branching
  * - Create versions on edits/generations
- * - Compare versions and calculate diffs
+ * - Compare versions with section-level and word-level diffs
  * - Support version restore and merge operations
  * - Track version lineage and branching
  *
- * Current State: ⚠️ IN-MEMORY ONLY
- * - Versions created in memory (not persisted)
- * - No database integration (should use document_versions table)
- * - No userId from auth context (hardcoded "current-user")
- * - Contains multiple TODOs for backend integration
- *
- * Backend Connection Needed:
- * - Database: document_versions table (via @shared/services/crud)
- * - Auth: userId from @shared/context/AuthContext
+ * Backend Connection:
+ * - Database: document_versions table (via @shared/services/crud withUser)
+ * - Auth: userId passed in by callers (from useAuth())
  * - RLS: User-scoped versions with parent document ownership
- * - Operations: listVersions(), getVersion(), createVersion(), compareVersions()
+ * - Diffs: computed client-side by ./versionDiff (stored as changed_sections,
+ *   change_summary, word_count, character_count)
  *
- * Migration Path:
- * 1. Import @shared/services/crud and withUser()
- * 2. Import useAuth() from @shared/context/AuthContext
- * 3. Replace in-memory version creation with database inserts
- * 4. Fetch version history from document_versions table
- * 5. Store version content in JSONB column
- * 6. Implement actual diff calculation (not placeholder)
+ * Notes:
+ * - version_number is allocated as max(version_number) + 1 per document
+ * - Deleted versions are soft-deleted (status = "deleted") and hidden from history
+ * - documents.total_versions is maintained by a database trigger
  *
  * Usage:
  *   import { createVersion, getVersionHistory, compareVersions } from '@ai_workspace/services';
  *
- *   const version = createVersion({
+ *   const version = await createVersion(user.id, {
  *     documentId: 'doc-123',
  *     content: resumeData,
  *     templateId: 'modern-professional',
@@ -40,6 +32,8 @@
  *   });
  */
 
+import { withUser } from "@shared/services/crud";
+import type { DocumentVersionRow } from "@shared/types/database";
 import type {
   DocumentVersion,
   VersionBranch,
@@ -49,78 +43,242 @@ import type {
   VersionMergeRequest,
   VersionExportOptions,
   ChangeType,
-  ComparisonDiff,
-  ComparisonSummary,
 } from "../types/version.types";
+import type { AtsAnalysis } from "../types/ats.types";
+import {
+  buildVersionComparison,
+  changedSectionsOf,
+  countContent,
+  describeVersionDiff,
+  summarizeVersionDiff,
+} from "./versionDiff";
+
+const VERSIONS_TABLE = "document_versions";
+
+/** Branch name used for versions without an explicit branch */
+const MAIN_BRANCH = "main";
 
 /**
- * Create a new version
- *
- * Inputs:
- * - documentId: Parent document identifier
- * - content: Document content snapshot
- * - templateId: Template used
- * - themeId: Theme used
- * - changeType: Type of change that triggered version
- * - metadata: Optional version metadata
- *
- * Outputs:
- * - Returns new DocumentVersion object
- *
- * Error modes:
- * - Throws if documentId is invalid
+ * Map a document_versions row to the workspace DocumentVersion shape
  */
-export function createVersion(params: {
-  documentId: string;
-  content: unknown;
-  templateId: string;
-  themeId: string;
-  changeType: ChangeType;
-  metadata?: Partial<DocumentVersion["metadata"]>;
-  jobId?: number;
-  parentVersionId?: string;
-}): DocumentVersion {
-  const now = new Date().toISOString();
-  const versionNumber = 1; // In real impl, increment from parent
-
-  const version: DocumentVersion = {
-    id: `version-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-    documentId: params.documentId,
-    versionNumber,
-    content: params.content,
-    templateId: params.templateId,
-    themeId: params.themeId,
-    jobId: params.jobId,
+export function mapVersionRow(row: DocumentVersionRow): DocumentVersion {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    versionNumber: row.version_number,
+    content: row.content,
+    templateId: row.template_id ?? "",
+    themeId: row.theme_id ?? "",
+    jobId: row.job_id ?? undefined,
     metadata: {
-      name: params.metadata?.name || `Version ${versionNumber}`,
-      description: params.metadata?.description,
-      tags: params.metadata?.tags || [],
-      color: params.metadata?.color,
-      notes: params.metadata?.notes,
+      name: row.name,
+      description: row.description ?? undefined,
+      tags: row.tags ?? [],
+      color: row.color ?? undefined,
+      notes: row.notes ?? undefined,
     },
     changes: {
-      changeType: params.changeType,
-      changedSections: [],
-      changesSummary: `Created via ${params.changeType}`,
+      changeType: row.change_type,
+      changedSections: row.changed_sections ?? [],
+      changesSummary: row.change_summary ?? "",
       autoSave: false,
     },
     lineage: {
-      parentVersionId: params.parentVersionId,
-      isBranchHead: true,
+      parentVersionId: row.parent_version_id ?? undefined,
+      branchName: row.branch_name ?? undefined,
+      isBranchHead: false,
       childVersionIds: [],
+      mergeSourceIds: row.merge_source_id ? [row.merge_source_id] : undefined,
     },
     stats: {
-      createdAt: now,
-      createdBy: "current-user", // TODO: Get from auth context
-      fileSize: JSON.stringify(params.content).length,
+      createdAt: row.created_at,
+      createdBy: row.created_by,
+      fileSize: JSON.stringify(row.content ?? {}).length,
+      atsScore: row.ats_score ?? undefined,
+      atsAnalysis: (row.ats_analysis as AtsAnalysis | null) ?? undefined,
+      atsJobId: row.ats_job_id ?? undefined,
+      atsAnalyzedAt: row.ats_analyzed_at ?? undefined,
       timesExported: 0,
       timesUsedInApplications: 0,
     },
-    status: "active",
-    isPinned: false,
-    isArchived: false,
+    status: row.status,
+    isPinned: row.is_pinned,
+    isArchived: row.is_archived,
   };
+}
 
+/**
+ * Fill lineage fields that depend on sibling versions
+ * (child IDs, branch heads). Expects versions sorted oldest first.
+ */
+function linkLineage(versions: DocumentVersion[]): DocumentVersion[] {
+  const byId = new Map(versions.map((v) => [v.id, v]));
+  const heads = new Map<string, DocumentVersion>();
+
+  for (const version of versions) {
+    const parent = version.lineage.parentVersionId
+      ? byId.get(version.lineage.parentVersionId)
+      : undefined;
+    parent?.lineage.childVersionIds.push(version.id);
+    heads.set(version.lineage.branchName ?? MAIN_BRANCH, version);
+  }
+  heads.forEach((head) => {
+    head.lineage.isBranchHead = true;
+  });
+
+  return versions;
+}
+
+/**
+ * Load all non-deleted versions of a document, oldest first
+ */
+async function listVersions(
+  userId: string,
+  documentId: string
+): Promise<DocumentVersion[]> {
+  const { data, error } = await withUser(userId).listRows<DocumentVersionRow>(
+    VERSIONS_TABLE,
+    "*",
+    {
+      eq: { document_id: documentId },
+      neq: { status: "deleted" },
+      order: { column: "version_number", ascending: true },
+    }
+  );
+
+  if (error) {
+    throw new Error(error.message || "Failed to load version history");
+  }
+
+  return linkLineage((data ?? []).map(mapVersionRow));
+}
+
+/**
+ * Highest-numbered version of a document (includes deleted rows so numbers
+ * are never reused - version_number is unique per document)
+ */
+async function getLatestVersionRef(
+  userId: string,
+  documentId: string
+): Promise<{ id: string; version_number: number } | null> {
+  const { data, error } = await withUser(userId).listRows<{
+    id: string;
+    version_number: number;
+  }>(VERSIONS_TABLE, "id, version_number", {
+    eq: { document_id: documentId },
+    order: { column: "version_number", ascending: false },
+    limit: 1,
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to query existing versions");
+  }
+  return data?.[0] ?? null;
+}
+
+/**
+ * Create a new version
+ *
+ * Inputs:
+ * - userId: Owner (from auth context)
+ * - documentId: Parent document identifier
+ * - content: Document content snapshot
+ * - templateId / themeId: Template and theme used
+ * - changeType: Type of change that triggered version
+ * - parentVersionId: Version this one is based on (defaults to latest)
+ * - setAsCurrent: Point documents.current_version_id at the new version (default true)
+ *
+ * Outputs:
+ * - Returns new DocumentVersion with changes.diff against its parent
+ *
+ * Error modes:
+ * - Throws if the insert fails (e.g. document not owned by user)
+ */
+export async function createVersion(
+  userId: string,
+  params: {
+    documentId: string;
+    content: unknown;
+    templateId?: string | null;
+    themeId?: string | null;
+    templateOverrides?: Record<string, unknown>;
+    themeOverrides?: Record<string, unknown>;
+    changeType: ChangeType;
+    metadata?: Partial<DocumentVersion["metadata"]>;
+    jobId?: number;
+    parentVersionId?: string;
+    branchName?: string;
+    mergeSourceId?: string;
+    atsScore?: number;
+    setAsCurrent?: boolean;
+  }
+): Promise<DocumentVersion> {
+  const userCrud = withUser(userId);
+  const latest = await getLatestVersionRef(userId, params.documentId);
+  const versionNumber = (latest?.version_number ?? 0) + 1;
+
+  const parentId = params.parentVersionId ?? latest?.id;
+  const parent = parentId ? await getVersionById(userId, parentId) : null;
+
+  const diff = summarizeVersionDiff(parent?.content ?? {}, params.content);
+  const counts = countContent(params.content);
+  const changesSummary = parent
+    ? describeVersionDiff(diff)
+    : `Created via ${params.changeType}`;
+
+  const { data, error } = await userCrud.insertRow<DocumentVersionRow>(
+    VERSIONS_TABLE,
+    {
+      document_id: params.documentId,
+      version_number: versionNumber,
+      content: params.content,
+      template_id: params.templateId || null,
+      theme_id: params.themeId || null,
+      template_overrides: params.templateOverrides ?? {},
+      theme_overrides: params.themeOverrides ?? {},
+      job_id: params.jobId ?? null,
+      name: params.metadata?.name || `Version ${versionNumber}`,
+      description: params.metadata?.description ?? null,
+      tags: params.metadata?.tags ?? [],
+      color: params.metadata?.color ?? null,
+      notes: params.metadata?.notes ?? null,
+      change_type: params.changeType,
+      changed_sections: parent
+        ? changedSectionsOf(diff)
+        : Object.keys((params.content as object) ?? {}),
+      change_summary: changesSummary,
+      parent_version_id: parent?.id ?? null,
+      branch_name: params.branchName ?? parent?.lineage.branchName ?? null,
+      merge_source_id: params.mergeSourceId ?? null,
+      word_count: counts.wordCount,
+      character_count: counts.characterCount,
+      ats_score: params.atsScore ?? null,
+      status: "active",
+      created_by: userId,
+    }
+  );
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to save document version");
+  }
+
+  if (params.setAsCurrent !== false) {
+    const updated = await userCrud.updateRow(
+      "documents",
+      {
+        current_version_id: data.id,
+        last_edited_at: new Date().toISOString(),
+      },
+      { eq: { id: params.documentId } }
+    );
+    if (updated.error) {
+      throw new Error(updated.error.message || "Failed to update document");
+    }
+  }
+
+  const version = mapVersionRow(data);
+  version.changes.diff = parent ? diff : undefined;
+  version.lineage.isBranchHead = true;
   return version;
 }
 
@@ -128,22 +286,36 @@ export function createVersion(params: {
  * Get version history for a document
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - documentId: Document to get history for
  * - filter: Optional filter criteria
  *
  * Outputs:
- * - Returns array of DocumentVersion objects, sorted by creation date (newest first)
+ * - Returns DocumentVersion array, newest first, each with changes.diff
+ *   computed against its parent (or the previous version)
  */
-export function getVersionHistory(
-  _documentId: string,
+export async function getVersionHistory(
+  userId: string,
+  documentId: string,
   filter?: VersionHistoryFilter
-): DocumentVersion[] {
-  // TODO: Integrate with backend/database
-  // For now, return mock data
-  const mockVersions: DocumentVersion[] = [];
+): Promise<DocumentVersion[]> {
+  const versions = await listVersions(userId, documentId);
+  const byId = new Map(versions.map((v) => [v.id, v]));
+
+  versions.forEach((version, index) => {
+    const base =
+      (version.lineage.parentVersionId &&
+        byId.get(version.lineage.parentVersionId)) ||
+      versions[index - 1];
+    if (base) {
+      version.changes.diff = summarizeVersionDiff(
+        base.content,
+        version.content
+      );
+    }
+  });
 
-  // Apply filters if provided
-  let filtered = mockVersions;
+  let filtered = versions;
 
   if (filter) {
     filtered = filtered.filter((version: DocumentVersion) => {
@@ -155,10 +327,19 @@ export function getVersionHistory(
         return false;
       }
 
+      // Filter by date range
+      if (
+        filter.dateRange &&
+        (version.stats.createdAt < filter.dateRange.start ||
+          version.stats.createdAt > filter.dateRange.end)
+      ) {
+        return false;
+      }
+
       // Filter by branch
       if (
         filter.branchName &&
-        version.lineage.branchName !== filter.branchName
+        (version.lineage.branchName ?? MAIN_BRANCH) !== filter.branchName
       ) {
         return false;
       }
@@ -191,11 +372,10 @@ export function getVersionHistory(
     });
   }
 
-  // Sort by creation date (newest first)
+  // Newest first
   return filtered.sort(
     (a: DocumentVersion, b: DocumentVersion) =>
-      new Date(b.stats.createdAt).getTime() -
-      new Date(a.stats.createdAt).getTime()
+      b.versionNumber - a.versionNumber
   );
 }
 
@@ -203,93 +383,108 @@ export function getVersionHistory(
  * Get a specific version by ID
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - versionId: Version identifier
  *
  * Outputs:
  * - Returns DocumentVersion if found, null otherwise
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export function getVersionById(_versionId: string): DocumentVersion | null {
-  // TODO: Integrate with backend/database
-  return null;
+export async function getVersionById(
+  userId: string,
+  versionId: string
+): Promise<DocumentVersion | null> {
+  const { data, error } = await withUser(userId).getRow<DocumentVersionRow>(
+    VERSIONS_TABLE,
+    "*",
+    { eq: { id: versionId } }
+  );
+
+  if (error || !data) {
+    return null;
+  }
+  return mapVersionRow(data);
 }
 
 /**
  * Compare two versions
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - versionAId: First version (typically older)
  * - versionBId: Second version (typically newer)
  *
  * Outputs:
- * - Returns VersionComparison with detailed diff and summary
- *
- * Error modes:
- * - Throws if either version not found
+ * - Returns VersionComparison with section/line/word diffs and summary
+ * - Returns null if either version is not found
  */
-export function compareVersions(
+export async function compareVersions(
+  userId: string,
   versionAId: string,
   versionBId: string
-): VersionComparison | null {
-  const versionA = getVersionById(versionAId);
-  const versionB = getVersionById(versionBId);
+): Promise<VersionComparison | null> {
+  const [versionA, versionB] = await Promise.all([
+    getVersionById(userId, versionAId),
+    getVersionById(userId, versionBId),
+  ]);
 
   if (!versionA || !versionB) {
     return null;
   }
 
-  // Calculate diff
-  const diff: ComparisonDiff = {
-    sections: [],
-    templateChanged: versionA.templateId !== versionB.templateId,
-    themeChanged: versionA.themeId !== versionB.themeId,
-  };
-
-  // Calculate summary
-  const summary: ComparisonSummary = {
-    totalSections: 0,
-    sectionsAdded: 0,
-    sectionsRemoved: 0,
-    sectionsModified: 0,
-    charDifference: 0,
-    wordDifference: 0,
-    similarityScore: 0,
-  };
-
-  return {
-    versionA,
-    versionB,
-    diff,
-    summary,
-  };
+  return buildVersionComparison(versionA, versionB);
 }
 
 /**
  * Create a new branch from a version
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - baseVersionId: Version to branch from
  * - branchName: Name for the new branch
  * - description: Optional branch description
  *
  * Outputs:
- * - Returns new VersionBranch object
+ * - Returns new VersionBranch whose head is a copy of the base version
+ *
+ * Error modes:
+ * - Throws if the base version is not found
  */
-export function createBranch(
+export async function createBranch(
+  userId: string,
   baseVersionId: string,
   branchName: string,
   description?: string
-): VersionBranch {
-  const now = new Date().toISOString();
+): Promise<VersionBranch> {
+  const base = await getVersionById(userId, baseVersionId);
+  if (!base) {
+    throw new Error("Base version not found");
+  }
+
+  const head = await createVersion(userId, {
+    documentId: base.documentId,
+    content: base.content,
+    templateId: base.templateId,
+    themeId: base.themeId,
+    jobId: base.jobId,
+    changeType: base.changes.changeType,
+    metadata: {
+      name: `${branchName} (from ${base.metadata.name})`,
+      description,
+      tags: base.metadata.tags,
+    },
+    parentVersionId: base.id,
+    branchName,
+    setAsCurrent: false,
+  });
 
   return {
     name: branchName,
     description,
     baseVersionId,
-    headVersionId: baseVersionId,
-    versionIds: [baseVersionId],
-    createdAt: now,
-    createdBy: "current-user", // TODO: Get from auth context
+    headVersionId: head.id,
+    versionIds: [head.id],
+    createdAt: head.stats.createdAt,
+    createdBy: userId,
     isMain: false,
   };
 }
@@ -298,51 +493,93 @@ export function createBranch(
  * Get all branches for a document
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - documentId: Document identifier
  *
  * Outputs:
- * - Returns array of VersionBranch objects
+ * - Returns VersionBranch array (main branch first)
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export function getBranches(_documentId: string): VersionBranch[] {
-  // TODO: Integrate with backend/database
-  return [];
+export async function getBranches(
+  userId: string,
+  documentId: string
+): Promise<VersionBranch[]> {
+  const versions = await listVersions(userId, documentId);
+  const branches = new Map<string, VersionBranch>();
+
+  for (const version of versions) {
+    const name = version.lineage.branchName ?? MAIN_BRANCH;
+    const branch = branches.get(name);
+    if (branch) {
+      branch.headVersionId = version.id;
+      branch.versionIds.push(version.id);
+      continue;
+    }
+    branches.set(name, {
+      name,
+      baseVersionId: version.lineage.parentVersionId ?? version.id,
+      headVersionId: version.id,
+      versionIds: [version.id],
+      createdAt: version.stats.createdAt,
+      createdBy: version.stats.createdBy,
+      isMain: name === MAIN_BRANCH,
+    });
+  }
+
+  return Array.from(branches.values()).sort(
+    (a, b) => Number(b.isMain) - Number(a.isMain)
+  );
 }
 
 /**
  * Restore a version
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - options: Restore configuration
  *
  * Outputs:
  * - Returns new DocumentVersion (if createNewVersion = true)
- * - Returns restored DocumentVersion (if createNewVersion = false)
+ * - Returns the restored DocumentVersion (if createNewVersion = false; the
+ *   document's current_version_id is pointed back at it)
+ * - Returns null if the version is not found
  */
-export function restoreVersion(
+export async function restoreVersion(
+  userId: string,
   options: VersionRestoreOptions
-): DocumentVersion | null {
-  const version = getVersionById(options.versionId);
+): Promise<DocumentVersion | null> {
+  const version = await getVersionById(userId, options.versionId);
   if (!version) {
     return null;
   }
 
   if (options.createNewVersion) {
-    // Create new version from restored content
-    return createVersion({
+    return createVersion(userId, {
       documentId: version.documentId,
       content: version.content,
       templateId: version.templateId,
       themeId: version.themeId,
+      jobId: version.jobId,
       changeType: "restore",
       metadata: {
         name: `Restored from ${version.metadata.name}`,
         description: options.note,
       },
-      parentVersionId: options.versionId,
+      branchName: options.branchName,
     });
   }
 
+  const { error } = await withUser(userId).updateRow(
+    "documents",
+    {
+      current_version_id: version.id,
+      last_edited_at: new Date().toISOString(),
+    },
+    { eq: { id: version.documentId } }
+  );
+  if (error) {
+    throw new Error(error.message || "Failed to restore version");
+  }
+
   return version;
 }
 
@@ -350,138 +587,180 @@ export function restoreVersion(
  * Merge two versions
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - request: Merge configuration
+ *   - theirs: take source content
+ *   - ours: keep target content
+ *   - manual: per-section choice via manualSelections (or customContent)
  *
  * Outputs:
- * - Returns new merged DocumentVersion
- *
- * Error modes:
- * - Throws if versions not found
- * - Throws if merge conflict and strategy is not manual
+ * - Returns new merged DocumentVersion on the target's branch
+ * - Returns null if either version is not found
  */
-export function mergeVersions(
+export async function mergeVersions(
+  userId: string,
   request: VersionMergeRequest
-): DocumentVersion | null {
-  const source = getVersionById(request.sourceVersionId);
-  const target = getVersionById(request.targetVersionId);
+): Promise<DocumentVersion | null> {
+  const [source, target] = await Promise.all([
+    getVersionById(userId, request.sourceVersionId),
+    getVersionById(userId, request.targetVersionId),
+  ]);
 
   if (!source || !target) {
     return null;
   }
 
-  // Merge logic based on strategy
-  let mergedContent = {};
+  const sourceContent = (source.content ?? {}) as Record<string, unknown>;
+  const targetContent = (target.content ?? {}) as Record<string, unknown>;
+  let mergedContent: Record<string, unknown>;
 
   switch (request.strategy) {
     case "theirs":
-      mergedContent = source.content as object;
+      mergedContent = { ...sourceContent };
       break;
     case "ours":
-      mergedContent = target.content as object;
+      mergedContent = { ...targetContent };
       break;
     case "manual":
-      // Use manual selections
-      mergedContent = target.content as object;
-      // TODO: Apply manual selections
+      mergedContent = { ...targetContent };
+      for (const [section, choice] of Object.entries(
+        request.manualSelections ?? {}
+      )) {
+        const value =
+          choice === "source"
+            ? sourceContent[section]
+            : choice === "custom"
+              ? request.customContent?.[section]
+              : targetContent[section];
+        if (value === undefined) {
+          delete mergedContent[section];
+        } else {
+          mergedContent[section] = value;
+        }
+      }
       break;
   }
 
-  return createVersion({
+  return createVersion(userId, {
     documentId: target.documentId,
     content: mergedContent,
     templateId: target.templateId,
     themeId: target.themeId,
+    jobId: target.jobId,
     changeType: "merge",
     metadata: {
       name: `Merged: ${source.metadata.name} → ${target.metadata.name}`,
       description: request.message,
     },
+    parentVersionId: target.id,
+    branchName: target.lineage.branchName,
+    mergeSourceId: source.id,
   });
 }
 
+/**
+ * Update flags on a single version row
+ */
+async function updateVersion(
+  userId: string,
+  versionId: string,
+  payload: Partial<DocumentVersionRow>
+): Promise<DocumentVersion | null> {
+  const { data, error } = await withUser(userId).updateRow<DocumentVersionRow>(
+    VERSIONS_TABLE,
+    payload,
+    {
+      eq: { id: versionId },
+    }
+  );
+
+  if (error) {
+    throw new Error(error.message || "Failed to update version");
+  }
+  return data ? mapVersionRow(data) : null;
+}
+
 /**
  * Archive a version
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - versionId: Version to archive
  *
  * Outputs:
- * - Returns updated DocumentVersion
+ * - Returns updated DocumentVersion (null if not found)
  */
-export function archiveVersion(versionId: string): DocumentVersion | null {
-  const version = getVersionById(versionId);
-  if (!version) {
-    return null;
-  }
-
-  version.isArchived = true;
-  version.status = "archived";
-
-  return version;
+export async function archiveVersion(
+  userId: string,
+  versionId: string
+): Promise<DocumentVersion | null> {
+  return updateVersion(userId, versionId, {
+    is_archived: true,
+    status: "archived",
+  });
 }
 
 /**
  * Pin/unpin a version
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - versionId: Version to pin/unpin
  * - pinned: Whether to pin or unpin
  *
  * Outputs:
- * - Returns updated DocumentVersion
+ * - Returns updated DocumentVersion (null if not found)
  */
-export function togglePinVersion(
+export async function togglePinVersion(
+  userId: string,
   versionId: string,
   pinned: boolean
-): DocumentVersion | null {
-  const version = getVersionById(versionId);
-  if (!version) {
-    return null;
-  }
-
-  version.isPinned = pinned;
-
-  return version;
+): Promise<DocumentVersion | null> {
+  return updateVersion(userId, versionId, { is_pinned: pinned });
 }
 
 /**
  * Delete a version (soft delete)
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - versionId: Version to delete
  *
  * Outputs:
  * - Returns true if deleted, false if not found
  */
-export function deleteVersion(versionId: string): boolean {
-  const version = getVersionById(versionId);
-  if (!version) {
-    return false;
-  }
-
-  version.status = "deleted";
-
-  return true;
+export async function deleteVersion(
+  userId: string,
+  versionId: string
+): Promise<boolean> {
+  const version = await updateVersion(userId, versionId, { status: "deleted" });
+  return version !== null;
 }
 
 /**
  * Get version statistics
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - documentId: Document to get stats for
  *
  * Outputs:
  * - Returns aggregated statistics across all versions
  */
-export function getVersionStatistics(documentId: string): {
+export async function getVersionStatistics(
+  userId: string,
+  documentId: string
+): Promise<{
   totalVersions: number;
   totalBranches: number;
   mostUsedVersion: DocumentVersion | null;
   highestATSScore: number | null;
   averageSuccessRate: number | null;
-} {
-  const versions = getVersionHistory(documentId);
-  const branches = getBranches(documentId);
+}> {
+  const [versions, branches] = await Promise.all([
+    getVersionHistory(userId, documentId, { includeArchived: true }),
+    getBranches(userId, documentId),
+  ]);
 
   const mostUsedVersion = versions.reduce(
     (prev: DocumentVersion | null, current: DocumentVersion) => {
@@ -528,25 +807,36 @@ export function getVersionStatistics(documentId: string): {
  * Export a version
  *
  * Inputs:
+ * - userId: Owner (from auth context)
  * - options: Export configuration
  *
  * Outputs:
- * - Returns blob URL for download
+ * - Returns blob URL of a JSON snapshot (content + optional metadata)
+ * - Returns null if the version is not found
  *
  * Error modes:
- * - Throws if version not found
- * - Throws if export format not supported
+ * - Throws for rendered formats; use exportService for PDF/DOCX/HTML/TXT
  */
-export function exportVersion(options: VersionExportOptions): string | null {
-  const version = getVersionById(options.versionId);
+export async function exportVersion(
+  userId: string,
+  options: VersionExportOptions
+): Promise<string | null> {
+  if (options.format !== "json") {
+    throw new Error(
+      `Version export supports JSON snapshots only; use exportService for ${options.format.toUpperCase()}`
+    );
+  }
+
+  const version = await getVersionById(userId, options.versionId);
   if (!version) {
     return null;
   }
 
-  // Increment export count
-  version.stats.timesExported += 1;
-
-  // TODO: Integrate with actual export service
-  // For now, return a mock blob URL
-  return "blob:mock-export-url";
+  const snapshot = options.includeMetadata
+    ? version
+    : { content: version.content };
+  const blob = new Blob([JSON.stringify(snapshot, null, 2)], {
+    type: "application/json",
+  });
+  return URL.createObjectURL(blob);
 }
@@ -0,0 +1,84 @@
+/**
+ * ATS Analysis Types
+ *
+ * Keyword analysis stored in document_versions.ats_analysis by the server
+ * (server/src/services/atsAnalyzer.ts, POST /api/ats/versions/:id).
+ */
+
+/**
+ * Resume section a keyword was found in
+ */
+export type AtsSection =
+  | "header"
+  | "summary"
+  | "experience"
+  | "education"
+  | "skills"
+  | "projects"
+  | "certifications"
+  | "other";
+
+export type AtsKeywordImportance = "required" | "preferred";
+
+/**
+ * Job keyword and where the resume mentions it
+ */
+export interface AtsKeyword {
+  term: string;
+  importance: AtsKeywordImportance;
+  matched: boolean;
+  sections: AtsSection[];
+  count: number;
+  /** Resume wording when it differs from the term (synonym or word form) */
+  matchedAs?: string;
+}
+
+export type AtsFormattingRiskKind =
+  "table" | "image" | "multi_column" | "header_footer";
+
+/**
+ * Layout feature ATS parsers commonly misread
+ */
+export interface AtsFormattingRisk {
+  kind: AtsFormattingRiskKind;
+  severity: "high" | "medium" | "low";
+  message: string;
+  /** Points taken off the score */
+  penalty: number;
+}
+
+/**
+ * Analyzer output for a version's ATS score
+ */
+export interface AtsAnalysis {
+  /** Analyzer rules version the score was computed with */
+  version: number;
+  score: number;
+  breakdown: {
+    /** Share of keywords found, 0-1 (null when the job lists none) */
+    requiredCoverage: number | null;
+    preferredCoverage: number | null;
+    /** Out of 75 */
+    keywordPoints: number;
+    /** Out of 10: required keywords shown in experience, projects or summary */
+    contextPoints: number;
+    /** Out of 15: contact details, experience, education, skills */
+    structurePoints: number;
+    formattingPenalty: number;
+  };
+  keywords: AtsKeyword[];
+  missing: { required: string[]; preferred: string[] };
+  /** Matched keyword terms per section */
+  sections: Partial<Record<AtsSection, string[]>>;
+  formatting: AtsFormattingRisk[];
+}
+
+/**
+ * Response of POST /api/ats/versions/:id
+ */
+export interface AtsScoreResult {
+  versionId: string;
+  jobId: number;
+  analyzedAt: string;
+  analysis: AtsAnalysis;
+}
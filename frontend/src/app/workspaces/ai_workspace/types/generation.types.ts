@@ -181,6 +181,23 @@ export interface GenerationProgress {
 
   /** Error if generation failed */
   error?: string;
+
+  /** Sections received so far while the AI response streams in */
+  sections?: GeneratedSectionPreview[];
+}
+
+/**
+ * A streamed section shown in the wizard before generation completes
+ */
+export interface GeneratedSectionPreview {
+  /** Key path joined with "." (e.g. "sections.experience") */
+  key: string;
+
+  /** Display label */
+  label: string;
+
+  /** Short text preview of the section content */
+  preview: string;
 }
 
 /**
@@ -17,6 +17,7 @@ export type {
   GenerationIssue,
   GenerationPreview,
   GenerationProgress,
+  GeneratedSectionPreview,
   GenerationStep,
   RegenerationRequest,
 } from "./generation.types";
@@ -60,6 +61,7 @@ export type {
   VersionComparison,
   ComparisonDiff,
   LineDiff,
+  WordDiff,
   ComparisonSummary,
   VersionHistoryFilter,
   VersionRestoreOptions,
@@ -98,6 +100,17 @@ export type {
   DocumentSort,
 } from "./document.types";
 
+// ATS analysis types
+export type {
+  AtsSection,
+  AtsKeywordImportance,
+  AtsKeyword,
+  AtsFormattingRiskKind,
+  AtsFormattingRisk,
+  AtsAnalysis,
+  AtsScoreResult,
+} from "./ats.types";
+
 // Navigation types
 export type {
   AIWorkspaceTab,
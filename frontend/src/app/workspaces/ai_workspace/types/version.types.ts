@@ -5,6 +5,8 @@
  * and branching functionality.
  */
 
+import type { AtsAnalysis } from "./ats.types";
+
 /**
  * Change type that triggered version creation
  */
@@ -172,6 +174,15 @@ export interface VersionStats {
   /** ATS score (if calculated) */
   atsScore?: number;
 
+  /** Keyword analysis behind atsScore (if calculated) */
+  atsAnalysis?: AtsAnalysis;
+
+  /** Job the ATS score was computed against */
+  atsJobId?: number;
+
+  /** When the ATS score was computed */
+  atsAnalyzedAt?: string;
+
   /** Keyword match score */
   keywordMatchScore?: number;
 
@@ -241,6 +252,9 @@ export interface ComparisonDiff {
     /** Section name */
     name: string;
 
+    /** Content key (e.g. "experience") */
+    key: string;
+
     /** Diff type */
     type: "added" | "removed" | "modified" | "unchanged";
 
@@ -252,6 +266,9 @@ export interface ComparisonDiff {
 
     /** Line-by-line diff (if text) */
     lineDiff?: LineDiff[];
+
+    /** Inline word diff (if text) */
+    wordDiff?: WordDiff[];
   }>;
 
   /** Template changed */
@@ -275,6 +292,17 @@ export interface LineDiff {
   content: string;
 }
 
+/**
+ * Word-level diff segment (consecutive words of the same type)
+ */
+export interface WordDiff {
+  /** Diff type */
+  type: "added" | "removed" | "unchanged";
+
+  /** Space-joined words */
+  text: string;
+}
+
 /**
  * Comparison summary
  */
@@ -1,4 +1,4 @@
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import {
   Box,
   Button,
@@ -17,16 +17,45 @@ import {
   TextField,
   Typography,
   Paper,
+  LinearProgress,
 } from "@mui/material";
 import type { SelectChangeEvent } from "@mui/material";
 import hook from "../hooks/useInterviewQuestionBank";
 import aiClient from "@shared/services/ai/client";
 import { useAuth } from "@shared/context/AuthContext";
 import { createPreparationActivity } from "@shared/services/dbMappers";
+import { getAppQueryClient } from "@shared/cache";
+import { coreKeys } from "@shared/cache/coreQueryKeys";
+import { fetchCoreJobs } from "@shared/cache/coreFetchers";
+import {
+  buildPracticeHistory,
+  deleteResponseVersion,
+  importLocalInterviewPrep,
+  listPracticeAttempts,
+  listResponses,
+  recordPracticeAttempt,
+  saveResponse,
+} from "../services/interviewPrepService";
+import {
+  COMPETENCIES,
+  type InterviewPracticeAttemptRow,
+  type QuestionPracticeHistory,
+  type ResponseLibraryItem,
+} from "../types/interviewPrep.types";
+
 function genId(prefix = "r") {
   return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2,8)}`;
 }
 
+// matches the database's question_key normalization (trimmed, lower-cased)
+function normalizeQuestion(text: string) {
+  return String(text || "").trim().toLowerCase();
+}
+
+function competencyLabel(value: string) {
+  return COMPETENCIES.find((c) => c.value === value)?.label ?? value;
+}
+
 interface Props {
   // optional pre-fill values
   jobTitle?: string;
@@ -219,16 +248,10 @@ function QuestionCard({
               variant="contained"
               disabled={reviewLoading}
               onClick={async () => {
-                // Persist the practiced response locally / to DB
-                try {
-                  onPractice(q.id, draft);
-                } catch (e) {
-                  console.error("Failed to mark practiced:", e);
-                }
-
                 // Request AI feedback for the written response
                 if (!draft || !String(draft).trim()) {
-                  // nothing to review — just close
+                  // nothing to review — record the practice and close
+                  onPractice(q.id);
                   setDraft("");
                   setOpen(false);
                   return;
@@ -309,17 +332,12 @@ function QuestionCard({
                   setModelAnswerState(modelAnswer ? String(modelAnswer) : null);
                   setScore(scoreVal);
 
-                  // Persist score if present
-                  if (scoreVal != null) {
-                    try {
-                      onPractice(q.id, draft, scoreVal);
-                    } catch (e) {
-                      console.error("Failed to update practice with score:", e);
-                    }
-                  }
+                  // Record the attempt with its score for the practice history
+                  onPractice(q.id, draft, scoreVal);
                 } catch (err) {
                   console.error("Failed to get AI feedback:", err);
                   setFeedback(["AI feedback unavailable. Try again later."]);
+                  onPractice(q.id, draft);
                 } finally {
                   setReviewLoading(false);
                 }
@@ -363,18 +381,13 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
 
   const [generated, setGenerated] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const practiced = hook.listPracticed();
 
-  // Response library stored in localStorage under this key
-  const LIB_KEY = "sgt:response_library";
-  const [library, setLibrary] = useState<any[]>(() => {
-    try {
-      const raw = localStorage.getItem(LIB_KEY);
-      return raw ? JSON.parse(raw) : [];
-    } catch {
-      return [];
-    }
-  });
+  // Response library and practice attempts live in Supabase (synced across devices)
+  const [library, setLibrary] = useState<ResponseLibraryItem[]>([]);
+  const [attempts, setAttempts] = useState<InterviewPracticeAttemptRow[]>([]);
+  const [jobs, setJobs] = useState<Array<{ id: number; label: string }>>([]);
+  const [competencyFilter, setCompetencyFilter] = useState("");
+  const [historyItem, setHistoryItem] = useState<QuestionPracticeHistory | null>(null);
 
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [saveDraft, setSaveDraft] = useState("");
@@ -382,12 +395,78 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
   const [saveTags, setSaveTags] = useState("");
   const [saveSkills, setSaveSkills] = useState("");
   const [saveCompanies, setSaveCompanies] = useState("");
+  const [saveCompetencies, setSaveCompetencies] = useState<string[]>([]);
+  const [saveJobIds, setSaveJobIds] = useState<number[]>([]);
   // when viewing/editing from the library, keep the library item here so we can show versions
-  const [saveLibraryItem, setSaveLibraryItem] = useState<any | null>(null);
+  const [saveLibraryItem, setSaveLibraryItem] = useState<ResponseLibraryItem | null>(null);
   // optional AI feedback to attach to the version when saving
   const [saveFeedback, setSaveFeedback] = useState<any | null>(null);
 
-  const practicedQuestionIds = useMemo(() => new Set(practiced.map((p) => p.questionId)), [practiced]);
+  const refreshLibrary = useCallback(async () => {
+    if (!user?.id) return;
+    const res = await listResponses(user.id);
+    if (res.error) {
+      console.error("Failed to load response library:", res.error.message);
+      return;
+    }
+    setLibrary(res.data ?? []);
+  }, [user?.id]);
+
+  const refreshAttempts = useCallback(async () => {
+    if (!user?.id) return;
+    const res = await listPracticeAttempts(user.id);
+    if (res.error) {
+      console.error("Failed to load practice attempts:", res.error.message);
+      return;
+    }
+    setAttempts(res.data ?? []);
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    (async () => {
+      // upload anything still saved in this browser before the first load
+      const imported = await importLocalInterviewPrep(user.id);
+      if (imported.error) {
+        console.error("Failed to import local interview prep:", imported.error.message);
+      }
+      if (cancelled) return;
+      await Promise.all([refreshLibrary(), refreshAttempts()]);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, refreshLibrary, refreshAttempts]);
+
+  // jobs a saved answer can be linked to
+  useEffect(() => {
+    if (!user?.id) return;
+    getAppQueryClient()
+      .ensureQueryData({
+        queryKey: coreKeys.jobs(user.id),
+        queryFn: () => fetchCoreJobs<any>(user.id),
+        staleTime: 60 * 60 * 1000,
+      })
+      .then((rows) =>
+        setJobs(
+          (Array.isArray(rows) ? rows : []).map((j: any) => ({
+            id: Number(j.id),
+            label: [j.job_title, j.company_name].filter(Boolean).join(" @ ") || `Job ${j.id}`,
+          }))
+        )
+      )
+      .catch(() => setJobs([]));
+  }, [user?.id]);
+
+  const history = useMemo(() => buildPracticeHistory(attempts), [attempts]);
+  const practicedQuestions = useMemo(
+    () => new Set(attempts.map((a) => normalizeQuestion(a.question_text))),
+    [attempts]
+  );
+  const filteredLibrary = competencyFilter
+    ? library.filter((item) => item.competencies.includes(competencyFilter))
+    : library;
 
   const handleGenerate = async () => {
     setIsLoading(true);
@@ -400,14 +479,26 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
   };
 
   const handlePractice = (id: string, response?: string, score?: number | null) => {
-    hook.markPracticed(id, response);
-    // force refresh by updating local state
-    setGenerated((g) => [...g]);
-    
-    // Save to database for pattern recognition analysis
     if (user?.id) {
       const question = generated.find(q => q.id === id);
       if (question) {
+        // Record the attempt for the per-question practice history
+        recordPracticeAttempt(user.id, {
+          questionText: question.text,
+          category: question.category,
+          source: "question_bank",
+          responseText: response || null,
+          score: score ?? null,
+        }).then((res) => {
+          if (res.error) {
+            console.error("Failed to record practice attempt:", res.error.message);
+            return;
+          }
+          setAttempts((prev) => [res.data!, ...prev]);
+          window.dispatchEvent(new Event("practice-updated"));
+        });
+
+        // Save to database for pattern recognition analysis
         const activityType = question.category === "behavioral" || question.category === "situational"
           ? "interview_prep"
           : "skills_practice";
@@ -444,82 +535,62 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
     }
   };
 
-  function persistLibrary(next: any[]) {
-    try {
-      localStorage.setItem(LIB_KEY, JSON.stringify(next));
-    } catch (e) {
-      console.error("Failed to persist response library:", e);
-    }
-    setLibrary(next);
-  }
-
-  function saveResponseToLibrary(question: any, responseText: string, tagsText = "", skillsText = "", companiesText = "", aiFeedback: any = null) {
-    if (!question || !responseText) return;
-    const tags = tagsText.split(",").map((s) => s.trim()).filter(Boolean);
-    const skills = skillsText.split(",").map((s) => s.trim()).filter(Boolean);
-    const companies = companiesText.split(",").map((s) => s.trim()).filter(Boolean);
+  async function saveResponseToLibrary(question: any, responseText: string, tagsText = "", skillsText = "", companiesText = "", aiFeedback: any = null) {
+    if (!user?.id || !question || !responseText) return;
+    const split = (text: string) => text.split(",").map((s) => s.trim()).filter(Boolean);
 
-    // Find existing item by questionId + question text (to support multiple versions)
-    const existing = library.find((l) => l.questionId === question.id && l.questionText === question.text);
-    const version = {
-      id: genId("v"),
+    const res = await saveResponse(user.id, {
+      questionText: question.text,
+      category: question.category,
       content: responseText,
-      tags,
-      skills,
-      companies,
-      aiFeedback: aiFeedback ?? null,
+      competencies: saveCompetencies,
+      tags: split(tagsText),
+      skills: split(skillsText),
+      companies: split(companiesText),
+      jobIds: saveJobIds,
       jobTitle: title,
       level: difficulty,
-      createdAt: new Date().toISOString(),
-      outcome: null,
-    };
-
-    let next;
-    if (existing) {
-      // prepend version
-      next = library.map((l) => (l === existing ? { ...l, versions: [version, ...l.versions], updatedAt: version.createdAt } : l));
-    } else {
-      const item = {
-        id: genId("i"),
-        questionId: question.id,
-        questionText: question.text,
-        category: question.category,
-        jobTitle: title,
-        level: difficulty,
-        createdAt: version.createdAt,
-        updatedAt: version.createdAt,
-        versions: [version],
-        tags: tags,
-        skills: skills,
-        companies: companies,
-        practiceCount: 1,
-      };
-      next = [item, ...library];
+      aiFeedback: aiFeedback ?? null,
+      score: aiFeedback?.score ?? null,
+    });
+    if (res.error || !res.data) {
+      console.error("Failed to save response to library:", res.error?.message);
+      window.alert("Could not save the response. Please try again.");
+      return;
     }
-
-    persistLibrary(next as any[]);
+    const saved = res.data;
+    setLibrary((prev) => [saved, ...prev.filter((item) => item.id !== saved.id)]);
   }
 
-  function deleteVersion(itemId: string, versionId: string) {
+  async function deleteVersion(itemId: string, versionId: string) {
+    if (!user?.id) return;
     if (!window.confirm("Delete this version? This cannot be undone.")) return;
-    // remove the version from the library; if no versions remain, remove the item
-    const next = library
-      .map((item) => {
-        if (item.id !== itemId) return item;
-        const versions = (item.versions || []).filter((v: any) => v.id !== versionId);
-        if (!versions || versions.length === 0) return null;
-        return { ...item, versions, updatedAt: new Date().toISOString() };
-      })
-      .filter(Boolean) as any[];
 
-    persistLibrary(next);
+    const res = await deleteResponseVersion(user.id, itemId, versionId);
+    if (res.error || !res.data) {
+      console.error("Failed to delete version:", res.error?.message);
+      return;
+    }
+
+    // remove the version locally; the item goes with its last version
+    const { responseDeleted } = res.data;
+    const prune = (item: ResponseLibraryItem) => ({
+      ...item,
+      versions: item.versions.filter((v) => v.id !== versionId),
+    });
+    setLibrary((prev) =>
+      responseDeleted
+        ? prev.filter((item) => item.id !== itemId)
+        : prev.map((item) => (item.id === itemId ? prune(item) : item))
+    );
 
     // update the open library item in the dialog if it was affected
     if (saveLibraryItem?.id === itemId) {
-      const updated = next.find((it: any) => it.id === itemId) || null;
-      setSaveLibraryItem(updated);
-      if (!updated) {
+      if (responseDeleted) {
+        setSaveLibraryItem(null);
         setSaveDialogOpen(false);
+      } else {
+        setSaveLibraryItem(prune(saveLibraryItem));
       }
     }
   }
@@ -534,16 +605,16 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
           .map(
             (item) => `
             <section style="margin-bottom:20px;">
-              <h2 style="margin:0 0 4px 0">${escapeHtml(item.questionText || "(no question)")}</h2>
-              <div style="color:#666;font-size:0.9em;margin-bottom:8px">${escapeHtml(item.category || "")}${item.jobTitle ? ' • ' + escapeHtml(item.jobTitle) : ''}${item.level ? ' • ' + escapeHtml(item.level) : ''} • ${item.versions?.length || 0} version(s)</div>
+              <h2 style="margin:0 0 4px 0">${escapeHtml(item.question_text || "(no question)")}</h2>
+              <div style="color:#666;font-size:0.9em;margin-bottom:8px">${escapeHtml(item.category || "")}${item.job_title ? ' • ' + escapeHtml(item.job_title) : ''}${item.level ? ' • ' + escapeHtml(item.level) : ''} • ${item.versions?.length || 0} version(s)${item.competencies.length ? ' • ' + escapeHtml(item.competencies.map(competencyLabel).join(', ')) : ''}</div>
               ${
                 (item.versions || [])
                   .map(
                     (v: any, idx: number) => `
                       <article style="border:1px solid #ddd;padding:8px;margin-bottom:8px;">
-                        <div style="font-size:0.85em;color:#666">Version ${idx + 1} — ${new Date(v.createdAt).toLocaleString()}</div>
+                        <div style="font-size:0.85em;color:#666">Version ${idx + 1} — ${new Date(v.created_at).toLocaleString()}</div>
                         <pre style="white-space:pre-wrap;font-family:inherit;margin:8px 0;padding:6px;background:#fafafa;border-radius:4px;">${escapeHtml(v.content || "")}</pre>
-                        ${v.aiFeedback ? `<details style="margin-top:6px;"><summary>AI Review</summary><div style="margin-top:6px">${renderAiFeedbackHtml(v.aiFeedback)}</div></details>` : ''}
+                        ${v.ai_feedback ? `<details style="margin-top:6px;"><summary>AI Review</summary><div style="margin-top:6px">${renderAiFeedbackHtml(v.ai_feedback)}</div></details>` : ''}
                       </article>
                     `
                   )
@@ -625,6 +696,8 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
     setSaveTags("");
     setSaveSkills("");
     setSaveCompanies("");
+    setSaveCompetencies([]);
+    setSaveJobIds([]);
     setSaveDialogOpen(true);
   }
 
@@ -662,7 +735,7 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
             <Tab label="Situational" value="situational" />
           </Tabs>
           <Box sx={{ flexGrow: 1 }} />
-          <Chip label={`Practiced: ${practiced.length}`} />
+          <Chip label={`Practiced: ${history.length}`} />
         </Stack>
       </Stack>
 
@@ -675,6 +748,38 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
             <TextField label="Tags (comma-separated)" fullWidth value={saveTags} onChange={(e) => setSaveTags(e.target.value)} />
             <TextField label="Skills (comma-separated)" fullWidth value={saveSkills} onChange={(e) => setSaveSkills(e.target.value)} />
             <TextField label="Companies (comma-separated)" fullWidth value={saveCompanies} onChange={(e) => setSaveCompanies(e.target.value)} />
+            <FormControl fullWidth>
+              <InputLabel>Competencies</InputLabel>
+              <Select
+                multiple
+                label="Competencies"
+                value={saveCompetencies}
+                onChange={(e) => setSaveCompetencies(typeof e.target.value === "string" ? e.target.value.split(",") : e.target.value)}
+                renderValue={(selected) => (
+                  <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                    {selected.map((c) => <Chip key={c} label={competencyLabel(c)} size="small" />)}
+                  </Stack>
+                )}
+              >
+                {COMPETENCIES.map((c) => (
+                  <MenuItem key={c.value} value={c.value}>{c.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl fullWidth disabled={jobs.length === 0}>
+              <InputLabel>Use for jobs</InputLabel>
+              <Select
+                multiple
+                label="Use for jobs"
+                value={saveJobIds}
+                onChange={(e) => setSaveJobIds((e.target.value as Array<number | string>).map(Number))}
+                renderValue={(selected) => selected.map((id) => jobs.find((j) => j.id === id)?.label ?? `Job ${id}`).join(", ")}
+              >
+                {jobs.map((j) => (
+                  <MenuItem key={j.id} value={j.id}>{j.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
 
             {saveLibraryItem && (
               <Box sx={{ mt: 1 }}>
@@ -684,7 +789,7 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
                     <Stack spacing={1}>
                       <Stack direction="row" spacing={2} alignItems="flex-start">
                         <Box sx={{ flex: 1 }}>
-                          <Typography variant="caption" color="text.secondary">{new Date(v.createdAt).toLocaleString()}</Typography>
+                          <Typography variant="caption" color="text.secondary">{new Date(v.created_at).toLocaleString()}</Typography>
                           <Typography variant="body2" sx={{ whiteSpace: "pre-wrap", mt: 1 }}>{v.content}</Typography>
                         </Box>
                         <Box>
@@ -694,75 +799,75 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
                       </Stack>
 
                       {/* Display AI feedback if present on the version */}
-                      {v.aiFeedback && (
+                      {v.ai_feedback && (
                         <Box sx={{ mt: 1 }}>
                           <Typography variant="subtitle2">AI Review</Typography>
                           <Stack spacing={1} sx={{ mt: 1 }}>
-                            {v.aiFeedback.contentFeedback && (
+                            {v.ai_feedback.contentFeedback && (
                               <Paper variant="outlined" sx={{ p: 1 }}>
                                 <Typography variant="subtitle2">Content</Typography>
-                                <Typography variant="body2">{v.aiFeedback.contentFeedback}</Typography>
+                                <Typography variant="body2">{v.ai_feedback.contentFeedback}</Typography>
                               </Paper>
                             )}
 
-                            {v.aiFeedback.structureFeedback && (
+                            {v.ai_feedback.structureFeedback && (
                               <Paper variant="outlined" sx={{ p: 1 }}>
                                 <Typography variant="subtitle2">Structure</Typography>
-                                <Typography variant="body2">{v.aiFeedback.structureFeedback}</Typography>
+                                <Typography variant="body2">{v.ai_feedback.structureFeedback}</Typography>
                               </Paper>
                             )}
 
-                            {v.aiFeedback.clarityFeedback && (
+                            {v.ai_feedback.clarityFeedback && (
                               <Paper variant="outlined" sx={{ p: 1 }}>
                                 <Typography variant="subtitle2">Clarity</Typography>
-                                <Typography variant="body2">{v.aiFeedback.clarityFeedback}</Typography>
+                                <Typography variant="body2">{v.ai_feedback.clarityFeedback}</Typography>
                               </Paper>
                             )}
 
-                            {v.aiFeedback.modelAnswer && (
+                            {v.ai_feedback.modelAnswer && (
                               <Paper variant="outlined" sx={{ p: 1 }}>
                                 <Typography variant="subtitle2">Model Answer</Typography>
-                                <Typography variant="body2" sx={{ whiteSpace: "pre-wrap" }}>{v.aiFeedback.modelAnswer}</Typography>
+                                <Typography variant="body2" sx={{ whiteSpace: "pre-wrap" }}>{v.ai_feedback.modelAnswer}</Typography>
                               </Paper>
                             )}
 
-                            {v.aiFeedback.feedback && Array.isArray(v.aiFeedback.feedback) && (
+                            {v.ai_feedback.feedback && Array.isArray(v.ai_feedback.feedback) && (
                               <Paper variant="outlined" sx={{ p: 1 }}>
                                 <Typography variant="subtitle2">Feedback</Typography>
                                 <Stack spacing={1} sx={{ mt: 1 }}>
-                                  {v.aiFeedback.feedback.map((f: any, idx: number) => (
+                                  {v.ai_feedback.feedback.map((f: any, idx: number) => (
                                     <Typography key={idx} variant="body2">{f}</Typography>
                                   ))}
                                 </Stack>
                               </Paper>
                             )}
 
-                            {v.aiFeedback.alternatives && (
+                            {v.ai_feedback.alternatives && (
                               <Paper variant="outlined" sx={{ p: 1 }}>
                                 <Typography variant="subtitle2">Alternative Approaches</Typography>
                                 <Stack spacing={1} sx={{ mt: 1 }}>
-                                  {v.aiFeedback.alternatives.map((a: any, idx: number) => (
+                                  {v.ai_feedback.alternatives.map((a: any, idx: number) => (
                                     <Typography key={idx} variant="body2">{a}</Typography>
                                   ))}
                                 </Stack>
                               </Paper>
                             )}
 
-                            {v.aiFeedback.improvementSuggestions && (
+                            {v.ai_feedback.improvementSuggestions && (
                               <Paper variant="outlined" sx={{ p: 1 }}>
                                 <Typography variant="subtitle2">Improvement Suggestions</Typography>
                                 <Stack spacing={1} sx={{ mt: 1 }}>
-                                  {v.aiFeedback.improvementSuggestions.map((s: any, idx: number) => (
+                                  {v.ai_feedback.improvementSuggestions.map((s: any, idx: number) => (
                                     <Typography key={idx} variant="body2">{s}</Typography>
                                   ))}
                                 </Stack>
                               </Paper>
                             )}
 
-                            {v.aiFeedback.score != null && (
+                            {v.ai_feedback.score != null && (
                               <Paper variant="outlined" sx={{ p: 1 }}>
                                 <Typography variant="subtitle2">AI Score</Typography>
-                                <Typography variant="body2">{v.aiFeedback.score}%</Typography>
+                                <Typography variant="body2">{v.ai_feedback.score}%</Typography>
                               </Paper>
                             )}
                           </Stack>
@@ -808,7 +913,7 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
               q={q}
               onPractice={handlePractice}
               onSaveToLibrary={handleSaveToLibrary}
-              practiced={practicedQuestionIds.has(q.id)}
+              practiced={practicedQuestions.has(normalizeQuestion(q.text))}
             />
           ))
         )}
@@ -820,31 +925,60 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
               <Typography variant="subtitle1">Response Library</Typography>
               <Typography variant="body2" color="text.secondary">Save and manage your best answers for reuse.</Typography>
                 <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
-                <Button size="small" onClick={() => { setSaveLibraryItem(null); setSaveQuestion(null); setSaveDraft(""); setSaveFeedback(null); setSaveDialogOpen(true); }}>Add Manual</Button>
+                <Button size="small" onClick={() => { setSaveLibraryItem(null); setSaveQuestion(null); setSaveDraft(""); setSaveFeedback(null); setSaveTags(""); setSaveSkills(""); setSaveCompanies(""); setSaveCompetencies([]); setSaveJobIds([]); setSaveDialogOpen(true); }}>Add Manual</Button>
                 <Button size="small" onClick={exportLibrary}>Export</Button>
               </Stack>
+              <FormControl size="small" sx={{ mt: 1 }}>
+                <InputLabel>Competency</InputLabel>
+                <Select
+                  value={competencyFilter}
+                  label="Competency"
+                  onChange={(e: SelectChangeEvent) => setCompetencyFilter(e.target.value)}
+                >
+                  <MenuItem value="">All</MenuItem>
+                  {COMPETENCIES.map((c) => (
+                    <MenuItem key={c.value} value={c.value}>{c.label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
             </Stack>
           </Paper>
 
-          {library.length === 0 ? (
+          {filteredLibrary.length === 0 ? (
             <Paper variant="outlined" sx={{ p: 2 }}>
-              <Typography variant="body2" color="text.secondary">No saved responses yet.</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {library.length === 0 ? "No saved responses yet." : "No saved responses for this competency."}
+              </Typography>
             </Paper>
           ) : (
-            library.map((item) => (
+            filteredLibrary.map((item) => (
               <Paper key={item.id} variant="outlined" sx={{ p: 1, mb: 1 }}>
-                <Typography variant="body2" sx={{ fontWeight: 600 }}>{item.questionText}</Typography>
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>{item.question_text}</Typography>
                 <Typography variant="caption" color="text.secondary">
                   {item.category} • {item.versions.length} version(s)
-                  {item.jobTitle ? ` • ${item.jobTitle}` : ""}
+                  {item.job_title ? ` • ${item.job_title}` : ""}
                   {item.level ? ` • ${item.level}` : ""}
+                  {item.job_ids.length ? ` • ${item.job_ids.length} linked job(s)` : ""}
                 </Typography>
+                {item.competencies.length > 0 && (
+                  <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mt: 0.5 }}>
+                    {item.competencies.map((c) => (
+                      <Chip key={c} label={competencyLabel(c)} size="small" variant="outlined" />
+                    ))}
+                  </Stack>
+                )}
                 <Box sx={{ mt: 1 }}>
                   <Button size="small" onClick={() => {
                     // open view/edit dialog and surface all versions
                     const v = item.versions[0];
-                    setSaveDraft(v.content);
-                    setSaveQuestion({ id: item.questionId, text: item.questionText, category: item.category });
+                    setSaveDraft(v?.content ?? "");
+                    setSaveQuestion({ id: item.id, text: item.question_text, category: item.category });
+                    setSaveTags(item.tags.join(", "));
+                    setSaveSkills(item.skills.join(", "));
+                    setSaveCompanies(item.companies.join(", "));
+                    setSaveCompetencies(item.competencies);
+                    setSaveJobIds(item.job_ids);
+                    setSaveFeedback(null);
                     setSaveLibraryItem(item);
                     setSaveDialogOpen(true);
                   }}>View/Edit</Button>
@@ -852,8 +986,64 @@ export default function InterviewQuestionBank({ jobTitle = "Software Engineer",
               </Paper>
             ))
           )}
+
+          <Paper variant="outlined" sx={{ p: 2, mt: 2 }}>
+            <Typography variant="subtitle1">Practice History</Typography>
+            <Typography variant="body2" color="text.secondary">Scores per question across every practice session.</Typography>
+            {history.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>No practice recorded yet.</Typography>
+            ) : (
+              history.map((h) => (
+                <Box
+                  key={h.questionKey}
+                  sx={{ mt: 1, cursor: "pointer" }}
+                  onClick={() => setHistoryItem(h)}
+                >
+                  <Typography variant="body2" noWrap title={h.questionText}>{h.questionText}</Typography>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Typography variant="caption" color="text.secondary">
+                      {h.attempts.length} attempt(s)
+                      {h.latestScore != null ? ` • latest ${h.latestScore}%` : ""}
+                    </Typography>
+                    {h.improvement != null && (
+                      <Chip
+                        size="small"
+                        label={`${h.improvement >= 0 ? "+" : ""}${h.improvement}`}
+                        color={h.improvement > 0 ? "success" : h.improvement < 0 ? "error" : "default"}
+                      />
+                    )}
+                  </Stack>
+                </Box>
+              ))
+            )}
+          </Paper>
         </Box>
       </Box>
+      <Dialog open={Boolean(historyItem)} onClose={() => setHistoryItem(null)} fullWidth maxWidth="sm">
+        <DialogTitle>Practice History</DialogTitle>
+        <DialogContent>
+          {historyItem && (
+            <Stack spacing={1} sx={{ mt: 1 }}>
+              <Typography variant="body1">{historyItem.questionText}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                First {historyItem.firstScore ?? "–"}% • Latest {historyItem.latestScore ?? "–"}% • Best {historyItem.bestScore ?? "–"}%
+              </Typography>
+              {historyItem.attempts.map((a) => (
+                <Box key={a.id}>
+                  <Stack direction="row" justifyContent="space-between">
+                    <Typography variant="body2">{new Date(a.practicedAt).toLocaleString()}</Typography>
+                    <Typography variant="body2">{a.score != null ? `${a.score}%` : "Not scored"}</Typography>
+                  </Stack>
+                  <LinearProgress variant="determinate" value={a.score ?? 0} sx={{ height: 6, borderRadius: 3 }} />
+                </Box>
+              ))}
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setHistoryItem(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
       {/* Suggest dialog removed */}
     </Box>
   );
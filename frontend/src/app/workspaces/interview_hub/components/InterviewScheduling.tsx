@@ -46,6 +46,10 @@ import {
   deleteInterview,
 } from "@shared/services/dbMappers";
 import { getUserStorage } from "@shared/utils/userStorage";
+import {
+  cancelFollowupNudge,
+  scheduleFollowupNudge,
+} from "@shared/services/notifications";
 
 type Interview = {
   id: string;
@@ -84,10 +88,12 @@ type FollowupRecord = {
   category?: string;
 };
 
+// Days after a sent follow-up before the server nudges about a missing reply
+const FOLLOWUP_NUDGE_DAYS = 5;
+
 // Storage keys for user-scoped localStorage
 const STORAGE_KEYS = {
   interviews: "interviews",
-  reminders: "interview_reminders",
   followups: "interview_followups",
   prep: "interview_prep",
 };
@@ -217,14 +223,6 @@ export default function InterviewScheduling() {
 
   useEffect(() => {
     if (!user?.id) return;
-    // schedule any upcoming reminders for the current session
-    try {
-      const storage = getUserStorage(user.id);
-      const list = storage.get<any[]>(STORAGE_KEYS.reminders, []);
-      for (const r of list) {
-        scheduleReminderTimeout(r);
-      }
-    } catch {}
     try {
       // ensure job list loaded for the linked-job dropdown on mount
       refreshJobs();
@@ -232,33 +230,6 @@ export default function InterviewScheduling() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user?.id]);
 
-  function scheduleReminderTimeout(rem: any) {
-    const when = new Date(rem.when).getTime();
-    const now = Date.now();
-    const ms = when - now;
-    if (ms <= 0) return; // already past
-    // set a timeout for the reminder (best-effort; will only fire while tab open)
-    setTimeout(() => {
-      tryNotify(`Upcoming interview: ${rem.title}`, rem.message || "Reminder");
-    }, ms);
-  }
-
-  function tryNotify(title: string, body: string) {
-    // show in-app snackbar and browser notification if permitted
-    setSnack({ open: true, msg: `${title} — ${body}`, sev: "info" });
-    if ((window as any).Notification) {
-      try {
-        if (Notification.permission === "granted") {
-          new Notification(title, { body });
-        } else if (Notification.permission !== "denied") {
-          Notification.requestPermission().then((p) => {
-            if (p === "granted") new Notification(title, { body });
-          });
-        }
-      } catch {}
-    }
-  }
-
   function detectConflict(
     newStartISO: string,
     newEndISO: string,
@@ -460,31 +431,9 @@ export default function InterviewScheduling() {
         } catch {}
         setSnack({ open: true, msg: "Interview scheduled", sev: "success" });
 
-        // schedule standard reminders: 24 hours and 2 hours before (keep in localStorage for now - client-side only)
-        try {
-          if (!user?.id) throw new Error("No user");
-          const storage = getUserStorage(user.id);
-          const rems = storage.get<any[]>(STORAGE_KEYS.reminders, []);
-          const add = (minsBefore: number, label: string) => {
-            const when = new Date(s.getTime() - minsBefore * 60000);
-            if (when.getTime() > Date.now()) {
-              const r = {
-                id: `${newIv.id}-rem-${minsBefore}`,
-                interviewId: newIv.id,
-                title: newIv.title,
-                when: when.toISOString(),
-                message: `${label} reminder for interview starting at ${new Date(
-                  newIv.start
-                ).toLocaleString()}`,
-              };
-              rems.push(r);
-              scheduleReminderTimeout(r);
-            }
-          };
-          add(24 * 60, "24 hour");
-          add(2 * 60, "2 hour");
-          storage.set(STORAGE_KEYS.reminders, rems);
-        } catch {}
+        // 24h / 2h / custom reminders are scheduled server-side by a trigger on
+        // the interviews table (see the notification scheduler), so they fire
+        // even when this tab is closed.
         // auto-generate and show prep tasks
         try {
           const tasks = generatePrepTasks(newIv);
@@ -624,16 +573,21 @@ export default function InterviewScheduling() {
       const followups = storage.get<any[]>(STORAGE_KEYS.followups, []);
       const iv = interviews.find((x) => x.id === id);
       if (iv) {
+        const due = new Date(new Date(iv.start).getTime() + 24 * 3600 * 1000);
         followups.push({
           id: `fu-${id}`,
           interviewId: id,
           title: `Send thank-you note: ${iv.title}`,
-          due: new Date(
-            new Date(iv.start).getTime() + 24 * 3600 * 1000
-          ).toISOString(),
+          due: due.toISOString(),
           done: false,
         });
         storage.set(STORAGE_KEYS.followups, followups);
+        scheduleFollowupNudge({
+          sourceId: `fu-${id}`,
+          runAt: due,
+          title: `Send thank-you note: ${iv.title}`,
+          link: "/interviews",
+        }).catch((e) => console.warn("Failed to schedule thank-you nudge", e));
       }
     } catch {}
   }
@@ -730,6 +684,28 @@ export default function InterviewScheduling() {
     }
   }
 
+  // Follow-up nudges are scheduled on the server so they reach the user
+  // (inbox / email / webhook) even when the app is closed. Best-effort: the
+  // local record is kept either way.
+  function syncFollowupNudge(record: any) {
+    if (!record?.id) return;
+    const request = record.respondedAt
+      ? cancelFollowupNudge(record.id)
+      : record.sentAt
+        ? scheduleFollowupNudge({
+            sourceId: record.id,
+            runAt: new Date(
+              new Date(record.sentAt).getTime() +
+                FOLLOWUP_NUDGE_DAYS * 24 * 3600 * 1000
+            ),
+            title: `No reply yet: ${record.title}`,
+            body: `You sent "${record.subject}" ${FOLLOWUP_NUDGE_DAYS} days ago. Consider a short check-in.`,
+            link: "/interviews",
+          })
+        : null;
+    request?.catch((e) => console.warn("Failed to sync follow-up nudge", e));
+  }
+
   // Follow-up persistence and tracking (user-scoped localStorage)
   function saveFollowupRecord(record: any) {
     try {
@@ -738,6 +714,7 @@ export default function InterviewScheduling() {
       const arr = storage.get<any[]>(STORAGE_KEYS.followups, []);
       arr.push(record);
       storage.set(STORAGE_KEYS.followups, arr);
+      syncFollowupNudge(record);
       try {
         window.dispatchEvent(new CustomEvent("interview-followups-updated"));
       } catch {}
@@ -755,6 +732,7 @@ export default function InterviewScheduling() {
       if (idx >= 0) {
         arr[idx] = { ...arr[idx], ...patch };
         storage.set(STORAGE_KEYS.followups, arr);
+        syncFollowupNudge(arr[idx]);
         try {
           window.dispatchEvent(new CustomEvent("interview-followups-updated"));
         } catch {}
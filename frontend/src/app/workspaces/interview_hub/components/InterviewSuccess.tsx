@@ -16,6 +16,10 @@ import {
   fetchCorePreparationActivities,
   fetchScheduledInterviews,
 } from "@shared/cache/coreFetchers";
+import {
+  listPracticeAttempts,
+  toAttemptSummary,
+} from "../services/interviewPrepService";
 
 // Local storage keys for checklist (kept locally for performance)
 const PREP_CHECKLIST_KEY = "sgt:interview_prep";
@@ -141,10 +145,10 @@ export default function InterviewSuccess() {
       } catch {
         // ignore
       }
-      // load local attempts snapshot
+      // load practice attempts snapshot
       try {
-        const raw = localStorage.getItem("sgt:technical_prep_attempts");
-        setLocalAttempts(raw ? JSON.parse(raw) : []);
+        const res = await listPracticeAttempts(user.id);
+        setLocalAttempts((res.data ?? []).map(toAttemptSummary));
       } catch {
         setLocalAttempts([]);
       }
@@ -160,7 +164,7 @@ export default function InterviewSuccess() {
   }, []);
 
   async function computePracticeMinutesForInterview(iv: any) {
-    // prefer server-side stored preparation activities (loaded into state), fallback to local technical attempts
+    // prefer server-side stored preparation activities (loaded into state), fallback to recorded practice attempts
     try {
       const now = Date.now();
       const cutoff = now - 90 * 24 * 3600 * 1000;
@@ -225,14 +229,9 @@ export default function InterviewSuccess() {
         }
       }
 
-      // include local attempts matching this interview (best-effort text matching)
+      // include practice attempts matching this interview (best-effort text matching)
       try {
-        const raw =
-          localAttempts ??
-          JSON.parse(
-            localStorage.getItem("sgt:technical_prep_attempts") || "[]"
-          );
-        const arr = Array.isArray(raw) ? raw : [];
+        const arr = localAttempts ?? [];
         for (const a of arr) {
           if (!a) continue;
           const txt = (
@@ -330,14 +329,9 @@ export default function InterviewSuccess() {
           }
         }
       }
-      // include local attempts labeled as mocks
+      // include practice attempts labeled as mocks
       try {
-        const raw =
-          localAttempts ??
-          JSON.parse(
-            localStorage.getItem("sgt:technical_prep_attempts") || "[]"
-          );
-        const arr = Array.isArray(raw) ? raw : [];
+        const arr = localAttempts ?? [];
         for (const a of arr) {
           if (!a) continue;
           const origin = String(a.origin || "").toLowerCase();
@@ -1,4 +1,4 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
   Box,
   Button,
@@ -23,6 +23,13 @@ import aiClient from "@shared/services/ai/client";
 import { useAuth } from "@shared/context/AuthContext";
 import { createPreparationActivity } from "@shared/services/dbMappers";
 import MockInterview from "./MockInterview";
+import {
+  importLocalInterviewPrep,
+  listPracticeAttempts,
+  recordPracticeAttempt,
+  updatePracticeAttempt,
+} from "../services/interviewPrepService";
+import type { InterviewPracticeAttemptRow } from "../types/interviewPrep.types";
 
 function formatElapsed(ms: number) {
   const s = Math.floor(ms / 1000);
@@ -39,15 +46,26 @@ export default function TechnicalPrep() {
   const [timeStart, setTimeStart] = useState<number | null>(null);
   const [code, setCode] = useState("");
   const [editingAttemptId, setEditingAttemptId] = useState<string | null>(null);
-  const [attempts, setAttempts] = useState<any[]>(() => {
-    try {
-      const raw = localStorage.getItem("sgt:technical_prep_attempts");
-      return raw ? JSON.parse(raw) : [];
-    } catch {
-      return [];
-    }
-  });
-  
+  const [attempts, setAttempts] = useState<InterviewPracticeAttemptRow[]>([]);
+
+  // Attempts are stored in Supabase; pull in any left in this browser first
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    (async () => {
+      await importLocalInterviewPrep(user.id);
+      const res = await listPracticeAttempts(user.id, { source: "technical_prep", limit: 50 });
+      if (cancelled) return;
+      if (res.error) {
+        console.error("Failed to load technical prep attempts:", res.error.message);
+        return;
+      }
+      setAttempts(res.data ?? []);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
 
   const bank = useInterviewBank;
   const all = bank.generateQuestionBank({ jobTitle: "Software Engineer", industry: "Technology", difficulty: "mid" });
@@ -57,7 +75,7 @@ export default function TechnicalPrep() {
 
   const [aiQuestions, setAiQuestions] = useState<InterviewQuestion[] | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [viewAttempt, setViewAttempt] = useState<any | null>(null);
+  const [viewAttempt, setViewAttempt] = useState<InterviewPracticeAttemptRow | null>(null);
   const [openAttemptView, setOpenAttemptView] = useState(false);
 
   const technical = useMemo(() => {
@@ -102,20 +120,21 @@ export default function TechnicalPrep() {
     openChallenge(q as InterviewQuestion, origin);
   }
 
-  function openAttemptForEdit(attempt: any) {
+  function openAttemptForEdit(attempt: InterviewPracticeAttemptRow | null) {
     if (!attempt) return;
     const q: any = {
-      id: attempt.questionId || makeLocalId("e"),
-      text: attempt.text || "(question)",
+      id: makeLocalId("e"),
+      text: attempt.question_text || "(question)",
       category: attempt.category || "technical",
-      difficulty: attempt.difficulty || "mid",
-      skillTags: attempt.skillTags || [],
-      companySpecific: !!attempt.companySpecific,
+      difficulty: "mid",
+      skillTags: [],
+      companySpecific: false,
+      origin: attempt.origin,
     };
 
     // Open the challenge dialog and populate the code with the previous answer
     setSelected(q as InterviewQuestion);
-    setCode(attempt.code || "");
+    setCode(attempt.response_text || "");
     setEditingAttemptId(attempt.id || null);
     // Don't start the timer automatically when editing an old attempt
     setTimeStart(null);
@@ -154,33 +173,49 @@ export default function TechnicalPrep() {
     }
   }
 
-  function submitAttempt(status = "completed") {
-    if (!selected) return;
+  function replaceAttempt(row: InterviewPracticeAttemptRow) {
+    setAttempts((prev) => [row, ...prev.filter((a) => a.id !== row.id)].slice(0, 50));
+  }
+
+  // Request AI feedback for a submitted answer and attach it to the stored attempt
+  async function requestFeedback(row: InterviewPracticeAttemptRow) {
+    if (!user?.id || !row.response_text || !String(row.response_text).trim()) return;
+    try {
+      const payload = await aiClient.postJson("/api/generate/interview-feedback", {
+        question: row.question_text,
+        answer: row.response_text,
+        category: row.category,
+        jobTitle,
+        industry,
+        difficulty,
+      } as any);
+
+      const res = await updatePracticeAttempt(user.id, row.id, {
+        modelAnswer: (payload as any)?.modelAnswer ?? null,
+        feedback: (payload as any)?.feedback ?? null,
+        score: (payload as any)?.score ?? null,
+      });
+      if (res.error || !res.data) {
+        console.error("Failed to save feedback:", res.error?.message);
+        return;
+      }
+      const updated = res.data;
+      // Patch in place (functional update avoids stale closures)
+      setAttempts((prev) => prev.map((a) => (a.id === updated.id ? updated : a)));
+    } catch (e) {
+      console.error("Failed to get feedback", e);
+    }
+  }
+
+  async function submitAttempt(status = "completed") {
+    if (!selected || !user?.id) return;
     const now = Date.now();
 
     // If editing an existing attempt, update it instead of creating a new one
     if (editingAttemptId) {
-      const existing = attempts.find((a) => a.id === editingAttemptId) as any;
-      const elapsed = timeStart != null ? now - timeStart : existing?.elapsedMs ?? 0;
-      const rec: any = {
-        id: editingAttemptId,
-        questionId: existing?.questionId || selected.id,
-        text: selected.text,
-        category: selected.category,
-        origin: (selected as any).origin || existing?.origin,
-        practicedAt: new Date(now).toISOString(),
-        elapsedMs: elapsed,
-        code,
-        status,
-        feedback: null,
-        modelAnswer: null,
-      };
-
-      const next = [rec, ...attempts.filter((a) => a.id !== editingAttemptId)].slice(0, 50);
-      setAttempts(next);
-      try {
-        localStorage.setItem("sgt:technical_prep_attempts", JSON.stringify(next));
-      } catch {}
+      const existing = attempts.find((a) => a.id === editingAttemptId);
+      const elapsed = timeStart != null ? now - timeStart : existing?.elapsed_ms ?? 0;
+      const attemptId = editingAttemptId;
 
       // reset editing state
       setEditingAttemptId(null);
@@ -188,72 +223,48 @@ export default function TechnicalPrep() {
       setSelected(null);
       setTimeStart(null);
 
-      // Request updated AI feedback for the edited answer
-      (async () => {
-        if (!rec.code || !String(rec.code).trim()) return;
-        try {
-          const payload = await aiClient.postJson("/api/generate/interview-feedback", {
-            question: rec.text,
-            answer: rec.code,
-            category: rec.category,
-            jobTitle,
-            industry,
-            difficulty,
-          } as any);
-
-          const modelAnswer = (payload as any)?.modelAnswer ?? null;
-          const feedback = (payload as any)?.feedback ?? null;
-
-          setAttempts((prev) => {
-            const updated = prev.map((a) => (a.id === rec.id ? { ...a, modelAnswer, feedback } : a)).slice(0, 50);
-            try {
-              localStorage.setItem("sgt:technical_prep_attempts", JSON.stringify(updated));
-            } catch {}
-            return updated;
-          });
-        } catch (e) {
-          console.error("Failed to get feedback", e);
-        }
-      })();
-
+      const res = await updatePracticeAttempt(user.id, attemptId, {
+        questionText: selected.text,
+        category: selected.category,
+        origin: (selected as any).origin || existing?.origin || null,
+        practicedAt: new Date(now).toISOString(),
+        elapsedMs: elapsed,
+        responseText: code,
+        status,
+        score: null,
+        feedback: null,
+        modelAnswer: null,
+      });
+      if (res.error || !res.data) {
+        console.error("Failed to update attempt:", res.error?.message);
+        return;
+      }
+      replaceAttempt(res.data);
+      requestFeedback(res.data);
       return;
     }
 
     // Normal (new) attempt submission
     if (timeStart == null) return; // guard for genuine timed attempts
     const elapsed = now - timeStart;
-    const rec: any = {
-      id: `${selected.id}_${now}`,
-      questionId: selected.id,
-      text: selected.text,
-      category: selected.category,
-      origin: (selected as any).origin,
-      practicedAt: new Date(now).toISOString(),
-      elapsedMs: elapsed,
-      code,
-      status,
-      feedback: null,
-      modelAnswer: null,
-    };
-    // Persist immediately so UI is responsive; we'll patch feedback when ready
-    const next = [rec, ...attempts].slice(0, 50);
-    setAttempts(next);
-    try {
-      localStorage.setItem("sgt:technical_prep_attempts", JSON.stringify(next));
-    } catch {}
-    localStorage.setItem("sgt:technical_prep_attempts", JSON.stringify(next));
-    
+    const question = selected;
+    const origin = (selected as any).origin ?? null;
+
+    setOpen(false);
+    setSelected(null);
+    setTimeStart(null);
+
     // Save to database for pattern recognition analysis
-    if (user?.id && status === "completed") {
-      const activityType = rec.category === "technical" || rec.category === "coding" 
+    if (status === "completed") {
+      const activityType = question.category === "technical" || (question.category as string) === "coding"
         ? "skills_practice" 
-        : rec.category === "behavioral" 
+        : question.category === "behavioral" 
           ? "interview_prep"
           : "interview_prep";
       
       createPreparationActivity(user.id, {
         activity_type: activityType,
-        activity_description: `${rec.origin || "Technical"} prep: ${rec.text}`,
+        activity_description: `${origin || "Technical"} prep: ${question.text}`,
         time_spent_minutes: Math.ceil(elapsed / 60000),
         completion_quality: elapsed < 600000 ? "basic" : elapsed < 1800000 ? "thorough" : "exceptional",
         activity_date: new Date(now),
@@ -262,42 +273,26 @@ export default function TechnicalPrep() {
         console.error("Failed to save prep activity to database:", err);
       });
     }
-    
-    setOpen(false);
-    setSelected(null);
-    setTimeStart(null);
+
+    const res = await recordPracticeAttempt(user.id, {
+      questionText: question.text,
+      category: question.category,
+      source: "technical_prep",
+      origin,
+      practicedAt: new Date(now).toISOString(),
+      elapsedMs: elapsed,
+      responseText: code,
+      status,
+    });
+    if (res.error || !res.data) {
+      console.error("Failed to save attempt:", res.error?.message);
+      return;
+    }
+    replaceAttempt(res.data);
+    window.dispatchEvent(new Event("practice-updated"));
 
     // Asynchronously request AI feedback for the answer the user submitted
-    (async () => {
-      // only request feedback when the user actually submitted text
-      if (!rec.code || !String(rec.code).trim()) return;
-      try {
-        const payload = await aiClient.postJson("/api/generate/interview-feedback", {
-          question: rec.text,
-          answer: rec.code,
-          category: rec.category,
-          jobTitle,
-          industry,
-          difficulty,
-        } as any);
-
-        const modelAnswer = (payload as any)?.modelAnswer ?? null;
-        const feedback = (payload as any)?.feedback ?? null;
-
-        // Patch the stored attempt with feedback using functional state update to avoid stale closures
-        setAttempts((prev) => {
-          const updated = prev.map((a) => (a.id === rec.id ? { ...a, modelAnswer, feedback } : a)).slice(0, 50);
-          try {
-            localStorage.setItem("sgt:technical_prep_attempts", JSON.stringify(updated));
-          } catch {}
-          return updated;
-        });
-
-        // no in-place dialog to refresh anymore
-      } catch (e) {
-        console.error("Failed to get feedback", e);
-      }
-    })();
+    requestFeedback(res.data);
   }
 
   return (
@@ -346,11 +341,11 @@ export default function TechnicalPrep() {
           <Typography variant="subtitle2">Recent attempts (Coding)</Typography>
           <List dense>
             {attempts
-              .filter((a) => a.category === "technical" && !String(a.questionId).startsWith("c"))
+              .filter((a) => a.category === "technical" && (!a.origin || a.origin === "coding" || a.origin === "ai"))
                 .map((a) => (
                   <ListItem key={a.id} disablePadding>
                     <ListItemButton onClick={() => { setViewAttempt(a); setOpenAttemptView(true); }}>
-                      <ListItemText primary={a.text} secondary={`${formatElapsed(a.elapsedMs)} — ${a.status}`} />
+                      <ListItemText primary={a.question_text} secondary={`${formatElapsed(a.elapsed_ms ?? 0)} — ${a.status}`} />
                     </ListItemButton>
                   </ListItem>
                 ))}
@@ -444,18 +439,18 @@ export default function TechnicalPrep() {
           {viewAttempt ? (
             <Box sx={{ mt: 1 }}>
               <Typography variant="subtitle1">Question</Typography>
-              <Typography sx={{ mb: 2 }}>{viewAttempt.text}</Typography>
+              <Typography sx={{ mb: 2 }}>{viewAttempt.question_text}</Typography>
 
               <Typography variant="subtitle1">Your answer</Typography>
               <Paper variant="outlined" sx={{ p: 1, whiteSpace: "pre-wrap", mb: 2 }}>
-                <Typography component="div">{viewAttempt.code || "(no answer provided)"}</Typography>
+                <Typography component="div">{viewAttempt.response_text || "(no answer provided)"}</Typography>
               </Paper>
 
-              {viewAttempt.modelAnswer ? (
+              {viewAttempt.model_answer ? (
                 <>
                   <Typography variant="subtitle1">Model answer</Typography>
                   <Paper variant="outlined" sx={{ p: 1, whiteSpace: "pre-wrap", mb: 2 }}>
-                    <Typography component="div">{viewAttempt.modelAnswer}</Typography>
+                    <Typography component="div">{viewAttempt.model_answer}</Typography>
                   </Paper>
                 </>
               ) : null}
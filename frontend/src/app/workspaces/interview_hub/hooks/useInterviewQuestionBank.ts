@@ -1,15 +1,12 @@
 /**
- * Lightweight local Question Bank generator and practice tracker.
+ * Lightweight Question Bank generator.
  *
  * - Generates role/industry-specific question banks using templates and
  *   simple heuristics (keywords from job title and industry).
- * - Tracks practiced questions and stores written responses in localStorage
- *   under `sgt:interview_question_practice`.
- * - Exposes helpers for generating banks, listing practiced items, exporting
- *   practice data, and marking questions practiced.
+ * - Tries server-side AI generation first and falls back to the templates.
  *
- * Note: This is intentionally front-end only for Sprint-2. For multi-user
- * support migrate storage to the backend (Supabase) and add proper auth scoping.
+ * Practice attempts and saved responses are stored in Supabase via
+ * services/interviewPrepService.
  */
 
 export type Difficulty = "entry" | "mid" | "senior";
@@ -24,38 +21,10 @@ export interface InterviewQuestion {
   companySpecific?: boolean;
 }
 
-export interface PracticedRecord {
-  id: string; // matches question id + timestamp
-  questionId: string;
-  practicedAt: string; // ISO
-  draftResponse?: string; // user's written response
-}
-
-const PRACTICE_KEY = "sgt:interview_question_practice";
-
 function makeId(prefix = "q") {
   return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2,8)}`;
 }
 
-function readPractice(): PracticedRecord[] {
-  try {
-    const raw = localStorage.getItem(PRACTICE_KEY);
-    if (!raw) return [];
-    return JSON.parse(raw) as PracticedRecord[];
-  } catch (e) {
-    console.error("Failed to read practice records", e);
-    return [];
-  }
-}
-
-function writePractice(items: PracticedRecord[]) {
-  try {
-    localStorage.setItem(PRACTICE_KEY, JSON.stringify(items));
-  } catch (e) {
-    console.error("Failed to write practice records", e);
-  }
-}
-
 /**
  * Generate a question bank for a given job title and industry.
  * This is heuristic-based and uses templates. It's deterministic per-run
@@ -197,37 +166,7 @@ export async function fetchQuestionBank(opts: {
   }
 }
 
-export function listPracticed(): PracticedRecord[] {
-  return readPractice();
-}
-
-export function markPracticed(questionId: string, draftResponse?: string): PracticedRecord {
-  const all = readPractice();
-  const rec: PracticedRecord = {
-    id: makeId("p"),
-    questionId,
-    practicedAt: new Date().toISOString(),
-    draftResponse,
-  };
-  all.push(rec);
-  writePractice(all);
-  return rec;
-}
-
-export function clearPractice() {
-  writePractice([]);
-}
-
-export function exportPracticeJSON() {
-  const payload = { exportedAt: new Date().toISOString(), items: readPractice() };
-  return JSON.stringify(payload, null, 2);
-}
-
 export default {
   generateQuestionBank,
-  listPracticed,
-  markPracticed,
-  clearPractice,
-  exportPracticeJSON,
   fetchQuestionBank,
 };
@@ -0,0 +1,615 @@
+/**
+ * INTERVIEW PREP SERVICE
+ *
+ * Persists the question bank's response library and all practice attempts in
+ * Supabase (RLS: owner only) so saved answers and scores follow the user
+ * across devices.
+ *
+ * Features:
+ * - Response library: one entry per question with versioned answers, AI
+ *   feedback/score, competency tags and linked jobs (reuse across jobs)
+ * - Practice attempts from the question bank, technical prep and mock
+ *   interviews
+ * - Practice history per question (score trend over time)
+ * - One-time import of the old localStorage data
+ *
+ * Questions are matched by the database's question_key (hash of the trimmed,
+ * lower-cased text) because generated question ids change on every run.
+ */
+
+import { supabase } from "@shared/services/supabaseClient";
+import { getUserStorage } from "@shared/utils/userStorage";
+import type { Result } from "@shared/services/types";
+import type {
+  InterviewPracticeAttemptRow,
+  QuestionCategory,
+  InterviewResponseRow,
+  InterviewResponseVersionRow,
+  PracticeSource,
+  QuestionPracticeHistory,
+  RecordAttemptData,
+  ResponseLibraryItem,
+  SaveResponseData,
+} from "../types/interviewPrep.types";
+
+const LIBRARY_SELECT = `
+  *,
+  versions:interview_response_versions(*),
+  jobs:interview_response_jobs(job_id)
+`;
+
+function fail<T>(message: string): Result<T> {
+  return { data: null, error: { message, status: null }, status: null };
+}
+
+type LibraryRow = InterviewResponseRow & {
+  versions?: InterviewResponseVersionRow[] | null;
+  jobs?: Array<{ job_id: number }> | null;
+};
+
+function toLibraryItem(row: LibraryRow): ResponseLibraryItem {
+  const { versions, jobs, ...response } = row;
+  return {
+    ...response,
+    versions: (versions ?? [])
+      .slice()
+      .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+    job_ids: (jobs ?? []).map((j) => Number(j.job_id)),
+  };
+}
+
+function cleanList(values?: string[]): string[] {
+  return [...new Set((values ?? []).map((v) => v.trim()).filter(Boolean))];
+}
+
+/** Normalize a 0-1 or 0-100 score to an integer percentage (null if invalid) */
+export function normalizeScore(raw: unknown): number | null {
+  if (raw == null || raw === "") return null;
+  const n = Number(raw);
+  if (Number.isNaN(n)) return null;
+  const pct = n > 0 && n <= 1 ? Math.round(n * 100) : Math.round(n);
+  return Math.max(0, Math.min(100, pct));
+}
+
+// ============================================================================
+// RESPONSE LIBRARY
+// ============================================================================
+
+/**
+ * List saved responses (most recently updated first)
+ * Optionally only those tagged with a competency or linked to a job
+ */
+export async function listResponses(
+  userId: string,
+  filters?: { competency?: string; jobId?: number }
+): Promise<Result<ResponseLibraryItem[]>> {
+  let query = supabase
+    .from("interview_responses")
+    .select(LIBRARY_SELECT)
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (filters?.competency) {
+    query = query.contains("competencies", [filters.competency]);
+  }
+
+  const { data, error } = await query;
+  if (error) return fail(error.message);
+
+  let items = ((data ?? []) as unknown as LibraryRow[]).map(toLibraryItem);
+  if (filters?.jobId != null) {
+    items = items.filter((item) => item.job_ids.includes(filters.jobId!));
+  }
+  return { data: items, error: null, status: 200 };
+}
+
+async function getResponse(
+  userId: string,
+  responseId: string
+): Promise<Result<ResponseLibraryItem>> {
+  const { data, error } = await supabase
+    .from("interview_responses")
+    .select(LIBRARY_SELECT)
+    .eq("user_id", userId)
+    .eq("id", responseId)
+    .single();
+  if (error) return fail(error.message);
+  return {
+    data: toLibraryItem(data as unknown as LibraryRow),
+    error: null,
+    status: 200,
+  };
+}
+
+/**
+ * Save an answer to the library
+ * The question's entry is created on first save; every save adds a version.
+ * Tags, competencies and (when given) linked jobs are replaced.
+ */
+export async function saveResponse(
+  userId: string,
+  input: SaveResponseData
+): Promise<Result<ResponseLibraryItem>> {
+  const questionText = input.questionText.trim();
+  if (!questionText) return fail("Question text is required");
+  if (!input.content.trim()) return fail("Response text is required");
+
+  const { data: response, error } = await supabase
+    .from("interview_responses")
+    .upsert(
+      {
+        user_id: userId,
+        question_text: questionText,
+        category: input.category ?? "behavioral",
+        competencies: cleanList(input.competencies),
+        tags: cleanList(input.tags),
+        skills: cleanList(input.skills),
+        companies: cleanList(input.companies),
+        job_title: input.jobTitle ?? null,
+        level: input.level ?? null,
+      },
+      { onConflict: "user_id,question_key" }
+    )
+    .select("id")
+    .single();
+  if (error || !response) {
+    return fail(error?.message ?? "Failed to save response");
+  }
+
+  const { error: versionError } = await supabase
+    .from("interview_response_versions")
+    .insert({
+      response_id: response.id,
+      user_id: userId,
+      content: input.content,
+      ai_feedback: input.aiFeedback ?? null,
+      score: normalizeScore(input.score),
+      job_title: input.jobTitle ?? null,
+      level: input.level ?? null,
+    });
+  if (versionError) return fail(versionError.message);
+
+  if (input.jobIds) {
+    const linked = await setResponseJobs(userId, response.id, input.jobIds);
+    if (linked.error) return fail(linked.error.message);
+  }
+
+  return getResponse(userId, response.id);
+}
+
+/**
+ * Update competency / tag metadata without adding a version
+ */
+export async function updateResponseTags(
+  userId: string,
+  responseId: string,
+  patch: Pick<
+    SaveResponseData,
+    "competencies" | "tags" | "skills" | "companies"
+  >
+): Promise<Result<ResponseLibraryItem>> {
+  const update: Record<string, string[]> = {};
+  for (const key of ["competencies", "tags", "skills", "companies"] as const) {
+    if (patch[key]) update[key] = cleanList(patch[key]);
+  }
+
+  const { error } = await supabase
+    .from("interview_responses")
+    .update(update)
+    .eq("user_id", userId)
+    .eq("id", responseId);
+  if (error) return fail(error.message);
+  return getResponse(userId, responseId);
+}
+
+/**
+ * Replace the jobs a saved answer is linked to
+ */
+export async function setResponseJobs(
+  userId: string,
+  responseId: string,
+  jobIds: number[]
+): Promise<Result<number[]>> {
+  const { error: deleteError } = await supabase
+    .from("interview_response_jobs")
+    .delete()
+    .eq("user_id", userId)
+    .eq("response_id", responseId);
+  if (deleteError) return fail(deleteError.message);
+
+  const unique = [...new Set(jobIds)];
+  if (unique.length > 0) {
+    const { error } = await supabase.from("interview_response_jobs").insert(
+      unique.map((jobId) => ({
+        response_id: responseId,
+        job_id: jobId,
+        user_id: userId,
+      }))
+    );
+    if (error) return fail(error.message);
+  }
+  return { data: unique, error: null, status: 200 };
+}
+
+/**
+ * Delete one version; the entry itself is removed with its last version
+ */
+export async function deleteResponseVersion(
+  userId: string,
+  responseId: string,
+  versionId: string
+): Promise<Result<{ responseDeleted: boolean }>> {
+  const { error } = await supabase
+    .from("interview_response_versions")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", versionId);
+  if (error) return fail(error.message);
+
+  const { count, error: countError } = await supabase
+    .from("interview_response_versions")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("response_id", responseId);
+  if (countError) return fail(countError.message);
+
+  if ((count ?? 0) > 0) {
+    return { data: { responseDeleted: false }, error: null, status: 200 };
+  }
+
+  const { error: responseError } = await supabase
+    .from("interview_responses")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", responseId);
+  if (responseError) return fail(responseError.message);
+  return { data: { responseDeleted: true }, error: null, status: 200 };
+}
+
+// ============================================================================
+// PRACTICE ATTEMPTS
+// ============================================================================
+
+function toAttemptRow(userId: string, input: Partial<RecordAttemptData>) {
+  const row: Record<string, unknown> = {};
+  if (input.questionText !== undefined) {
+    row.question_text = input.questionText.trim();
+  }
+  if (input.category !== undefined) row.category = input.category;
+  if (input.source !== undefined) row.source = input.source;
+  if (input.origin !== undefined) row.origin = input.origin;
+  if (input.responseText !== undefined) row.response_text = input.responseText;
+  if (input.elapsedMs !== undefined) {
+    row.elapsed_ms =
+      input.elapsedMs == null ? null : Math.max(0, Math.round(input.elapsedMs));
+  }
+  if (input.status !== undefined) row.status = input.status;
+  if (input.score !== undefined) row.score = normalizeScore(input.score);
+  if (input.feedback !== undefined) row.feedback = input.feedback ?? null;
+  if (input.modelAnswer !== undefined) row.model_answer = input.modelAnswer;
+  if (input.jobId !== undefined) row.job_id = input.jobId;
+  if (input.responseId !== undefined) row.response_id = input.responseId;
+  if (input.practicedAt !== undefined) row.practiced_at = input.practicedAt;
+  return { user_id: userId, ...row };
+}
+
+/**
+ * List practice attempts (newest first)
+ */
+export async function listPracticeAttempts(
+  userId: string,
+  filters?: { source?: PracticeSource; limit?: number }
+): Promise<Result<InterviewPracticeAttemptRow[]>> {
+  let query = supabase
+    .from("interview_practice_attempts")
+    .select("*")
+    .eq("user_id", userId)
+    .order("practiced_at", { ascending: false });
+
+  if (filters?.source) query = query.eq("source", filters.source);
+  if (filters?.limit) query = query.limit(filters.limit);
+
+  const { data, error } = await query;
+  if (error) return fail(error.message);
+  return {
+    data: (data ?? []) as InterviewPracticeAttemptRow[],
+    error: null,
+    status: 200,
+  };
+}
+
+/**
+ * Record one practice attempt
+ */
+export async function recordPracticeAttempt(
+  userId: string,
+  input: RecordAttemptData
+): Promise<Result<InterviewPracticeAttemptRow>> {
+  if (!input.questionText?.trim()) return fail("Question text is required");
+
+  const { data, error } = await supabase
+    .from("interview_practice_attempts")
+    .insert({ status: "completed", ...toAttemptRow(userId, input) })
+    .select("*")
+    .single();
+  if (error) return fail(error.message);
+  return {
+    data: data as InterviewPracticeAttemptRow,
+    error: null,
+    status: 201,
+  };
+}
+
+/**
+ * Patch an attempt (e.g. attach AI feedback once it arrives, or an edit)
+ */
+export async function updatePracticeAttempt(
+  userId: string,
+  attemptId: string,
+  patch: Partial<RecordAttemptData>
+): Promise<Result<InterviewPracticeAttemptRow>> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { user_id, ...update } = toAttemptRow(userId, patch);
+  const { data, error } = await supabase
+    .from("interview_practice_attempts")
+    .update(update)
+    .eq("user_id", userId)
+    .eq("id", attemptId)
+    .select("*")
+    .single();
+  if (error) return fail(error.message);
+  return {
+    data: data as InterviewPracticeAttemptRow,
+    error: null,
+    status: 200,
+  };
+}
+
+/**
+ * Flatten an attempt into the shape the prep-time heuristics read
+ * (interview success scoring, job predictions)
+ */
+export function toAttemptSummary(row: InterviewPracticeAttemptRow) {
+  return {
+    id: row.id,
+    text: row.question_text,
+    origin: row.origin ?? row.source,
+    code: row.response_text ?? "",
+    elapsedMs: row.elapsed_ms ?? 0,
+    jobId: row.job_id,
+    practicedAt: row.practiced_at,
+  };
+}
+
+/**
+ * Group attempts by question into score trends
+ * Most recently practiced question first; attempts oldest first.
+ */
+export function buildPracticeHistory(
+  attempts: InterviewPracticeAttemptRow[]
+): QuestionPracticeHistory[] {
+  const byQuestion = new Map<string, InterviewPracticeAttemptRow[]>();
+  for (const attempt of attempts) {
+    const list = byQuestion.get(attempt.question_key) ?? [];
+    list.push(attempt);
+    byQuestion.set(attempt.question_key, list);
+  }
+
+  const history: QuestionPracticeHistory[] = [];
+  for (const [questionKey, list] of byQuestion) {
+    const sorted = list
+      .slice()
+      .sort((a, b) => a.practiced_at.localeCompare(b.practiced_at));
+    const scores = sorted
+      .map((a) => a.score)
+      .filter((s): s is number => s != null);
+    const latest = sorted[sorted.length - 1];
+
+    history.push({
+      questionKey,
+      questionText: latest.question_text,
+      category: latest.category,
+      attempts: sorted.map((a) => ({
+        id: a.id,
+        practicedAt: a.practiced_at,
+        score: a.score,
+        source: a.source,
+      })),
+      firstScore: scores.length ? scores[0] : null,
+      latestScore: scores.length ? scores[scores.length - 1] : null,
+      bestScore: scores.length ? Math.max(...scores) : null,
+      improvement:
+        scores.length >= 2 ? scores[scores.length - 1] - scores[0] : null,
+      lastPracticedAt: latest.practiced_at,
+    });
+  }
+
+  return history.sort((a, b) =>
+    b.lastPracticedAt.localeCompare(a.lastPracticedAt)
+  );
+}
+
+/**
+ * Practice history for every question the user has practiced
+ */
+export async function getPracticeHistory(
+  userId: string
+): Promise<Result<QuestionPracticeHistory[]>> {
+  const res = await listPracticeAttempts(userId);
+  if (res.error) return fail(res.error.message);
+  return {
+    data: buildPracticeHistory(res.data ?? []),
+    error: null,
+    status: 200,
+  };
+}
+
+// ============================================================================
+// LOCALSTORAGE IMPORT
+// ============================================================================
+
+const LEGACY_KEYS = {
+  library: "sgt:response_library",
+  technical: "sgt:technical_prep_attempts",
+  practice: "sgt:interview_question_practice",
+} as const;
+
+// Names used after migrateToUserScopedStorage() moved the unscoped keys
+const SCOPED_KEYS = {
+  technical: "technical_prep_attempts",
+  practice: "interview_question_practice",
+} as const;
+
+/** Shapes written by the old localStorage implementation */
+interface LegacyLibraryVersion {
+  content?: string;
+  tags?: string[];
+  skills?: string[];
+  companies?: string[];
+  aiFeedback?: (Record<string, unknown> & { score?: number | null }) | null;
+  jobTitle?: string | null;
+  level?: string | null;
+}
+
+interface LegacyLibraryItem extends Omit<LegacyLibraryVersion, "content"> {
+  questionId?: string;
+  questionText?: string;
+  category?: QuestionCategory;
+  versions?: LegacyLibraryVersion[];
+}
+
+interface LegacyTechnicalAttempt {
+  text?: string;
+  category?: string;
+  origin?: string | null;
+  code?: string | null;
+  elapsedMs?: number;
+  status?: string;
+  feedback?: unknown;
+  modelAnswer?: string | null;
+  practicedAt?: string;
+}
+
+interface LegacyPracticeRecord {
+  questionId?: string;
+  practicedAt?: string;
+  draftResponse?: string;
+}
+
+function readLegacy<T>(key: string): T[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+type ImportResult = Result<{ responses: number; attempts: number }>;
+
+// In-flight imports per user, so concurrent mounts don't upload twice
+const importsInFlight = new Map<string, Promise<ImportResult>>();
+
+/**
+ * Upload response library and practice data still held in localStorage,
+ * then remove the local copies. Keys are only cleared after a successful
+ * upload, so a failed import is retried on the next call.
+ */
+export function importLocalInterviewPrep(
+  userId: string
+): Promise<ImportResult> {
+  const pending = importsInFlight.get(userId);
+  if (pending) return pending;
+
+  const run = runImport(userId).finally(() => importsInFlight.delete(userId));
+  importsInFlight.set(userId, run);
+  return run;
+}
+
+async function runImport(userId: string): Promise<ImportResult> {
+  const storage = getUserStorage(userId);
+  const library = readLegacy<LegacyLibraryItem>(LEGACY_KEYS.library);
+  const technical = [
+    ...readLegacy<LegacyTechnicalAttempt>(LEGACY_KEYS.technical),
+    ...storage.get<LegacyTechnicalAttempt[]>(SCOPED_KEYS.technical, []),
+  ];
+  // Question-bank practice records only hold a question id, not its text,
+  // so only those whose question was saved to the library can be moved.
+  const practice = [
+    ...readLegacy<LegacyPracticeRecord>(LEGACY_KEYS.practice),
+    ...storage.get<LegacyPracticeRecord[]>(SCOPED_KEYS.practice, []),
+  ];
+
+  let responses = 0;
+  for (const item of library) {
+    const versions = Array.isArray(item?.versions) ? item.versions : [];
+    // oldest first so the newest ends up as the latest version
+    for (const v of versions.slice().reverse()) {
+      if (!item.questionText || !v?.content) continue;
+      const res = await saveResponse(userId, {
+        questionText: item.questionText,
+        category: item.category,
+        content: v.content,
+        tags: v.tags ?? item.tags,
+        skills: v.skills ?? item.skills,
+        companies: v.companies ?? item.companies,
+        jobTitle: v.jobTitle ?? item.jobTitle ?? null,
+        level: v.level ?? item.level ?? null,
+        aiFeedback: v.aiFeedback ?? null,
+        score: v.aiFeedback?.score ?? null,
+      });
+      if (res.error) return fail(res.error.message);
+      responses++;
+    }
+  }
+
+  const questionTextById = new Map<string, string>(
+    library
+      .filter((item) => item.questionId && item.questionText)
+      .map((item) => [item.questionId!, item.questionText!])
+  );
+  const rows = [
+    ...technical
+      .filter((a) => a?.text)
+      .map((a) =>
+        toAttemptRow(userId, {
+          questionText: String(a.text),
+          category: a.category ?? "technical",
+          source: "technical_prep",
+          origin: a.origin ?? null,
+          responseText: a.code ?? null,
+          elapsedMs: Number(a.elapsedMs) || null,
+          status: a.status ?? "completed",
+          feedback: a.feedback ?? null,
+          modelAnswer: a.modelAnswer ?? null,
+          practicedAt: a.practicedAt,
+        })
+      ),
+    ...practice
+      .filter((p) => p?.questionId && questionTextById.has(p.questionId))
+      .map((p) =>
+        toAttemptRow(userId, {
+          questionText: questionTextById.get(p.questionId!)!,
+          source: "question_bank",
+          responseText: p.draftResponse ?? null,
+          practicedAt: p.practicedAt,
+        })
+      ),
+  ];
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from("interview_practice_attempts")
+      .insert(rows);
+    if (error) return fail(error.message);
+  }
+
+  for (const key of Object.values(LEGACY_KEYS)) localStorage.removeItem(key);
+  for (const key of Object.values(SCOPED_KEYS)) storage.remove(key);
+
+  return {
+    data: { responses, attempts: rows.length },
+    error: null,
+    status: 200,
+  };
+}
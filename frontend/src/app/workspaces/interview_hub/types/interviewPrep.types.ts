@@ -0,0 +1,154 @@
+/**
+ * Interview Prep Type Definitions
+ *
+ * Mirrors the interview_responses / interview_response_versions /
+ * interview_response_jobs / interview_practice_attempts tables
+ * (db/migrations/2026-10-19_add_interview_response_library.sql).
+ * Used by the question bank, technical prep and interview success views.
+ */
+
+// ============================================================================
+// ENUMS / CONSTANTS
+// ============================================================================
+
+export type QuestionCategory = "behavioral" | "technical" | "situational";
+
+export type PracticeSource =
+  "question_bank" | "technical_prep" | "mock_interview";
+
+/**
+ * Competencies used to tag saved answers so one STAR story can be found
+ * for any question that probes the same skill.
+ */
+export const COMPETENCIES = [
+  { value: "leadership", label: "Leadership" },
+  { value: "teamwork", label: "Teamwork" },
+  { value: "communication", label: "Communication" },
+  { value: "conflict_resolution", label: "Conflict resolution" },
+  { value: "problem_solving", label: "Problem solving" },
+  { value: "ownership", label: "Ownership" },
+  { value: "adaptability", label: "Adaptability" },
+  { value: "customer_focus", label: "Customer focus" },
+  { value: "influence", label: "Influence" },
+  { value: "technical_depth", label: "Technical depth" },
+  { value: "system_design", label: "System design" },
+] as const;
+
+export type Competency = (typeof COMPETENCIES)[number]["value"];
+
+// ============================================================================
+// DATABASE ROWS
+// ============================================================================
+
+export interface InterviewResponseRow {
+  id: string;
+  user_id: string;
+  question_text: string;
+  question_key: string;
+  category: QuestionCategory;
+  competencies: string[];
+  tags: string[];
+  skills: string[];
+  companies: string[];
+  job_title: string | null;
+  level: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InterviewResponseVersionRow {
+  id: string;
+  response_id: string;
+  user_id: string;
+  content: string;
+  ai_feedback: Record<string, unknown> | null;
+  score: number | null;
+  job_title: string | null;
+  level: string | null;
+  outcome: string | null;
+  created_at: string;
+}
+
+export interface InterviewPracticeAttemptRow {
+  id: string;
+  user_id: string;
+  question_text: string;
+  question_key: string;
+  category: string;
+  source: PracticeSource;
+  origin: string | null;
+  response_text: string | null;
+  elapsed_ms: number | null;
+  status: string;
+  score: number | null;
+  feedback: unknown;
+  model_answer: string | null;
+  job_id: number | null;
+  response_id: string | null;
+  practiced_at: string;
+  created_at: string;
+}
+
+// ============================================================================
+// VIEW MODELS
+// ============================================================================
+
+/** Library entry with its versions (newest first) and linked job ids */
+export interface ResponseLibraryItem extends InterviewResponseRow {
+  versions: InterviewResponseVersionRow[];
+  job_ids: number[];
+}
+
+/** One question's practice history, oldest attempt first */
+export interface QuestionPracticeHistory {
+  questionKey: string;
+  questionText: string;
+  category: string;
+  attempts: Array<{
+    id: string;
+    practicedAt: string;
+    score: number | null;
+    source: PracticeSource;
+  }>;
+  firstScore: number | null;
+  latestScore: number | null;
+  bestScore: number | null;
+  /** latestScore - firstScore (null until two scored attempts exist) */
+  improvement: number | null;
+  lastPracticedAt: string;
+}
+
+// ============================================================================
+// INPUTS
+// ============================================================================
+
+export interface SaveResponseData {
+  questionText: string;
+  category?: QuestionCategory;
+  content: string;
+  competencies?: string[];
+  tags?: string[];
+  skills?: string[];
+  companies?: string[];
+  jobIds?: number[];
+  jobTitle?: string | null;
+  level?: string | null;
+  aiFeedback?: Record<string, unknown> | null;
+  score?: number | null;
+}
+
+export interface RecordAttemptData {
+  questionText: string;
+  category?: string;
+  source: PracticeSource;
+  origin?: string | null;
+  responseText?: string | null;
+  elapsedMs?: number | null;
+  status?: string;
+  score?: number | null;
+  feedback?: unknown;
+  modelAnswer?: string | null;
+  jobId?: number | null;
+  responseId?: string | null;
+  practicedAt?: string;
+}
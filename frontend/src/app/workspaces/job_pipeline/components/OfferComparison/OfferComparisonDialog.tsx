@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   Dialog,
   DialogTitle,
@@ -17,35 +17,53 @@ import {
   TableCell,
   TableBody,
   MenuItem,
+  Alert,
+  FormControlLabel,
+  Switch,
+  CircularProgress,
 } from "@mui/material";
 import CloseIcon from "@mui/icons-material/Close";
-
-type Offer = {
-  id: string;
-  title: string;
-  company: string;
-  salary: number; // base salary
-  bonus: number; // expected annual bonus
-  equityValue: number; // estimated annualized equity value
-  benefitsValue: number; // estimated annual benefits value
-  location: string;
-  colIndex?: number; // cost of living index (1.0 = baseline)
-  remote: string; // e.g., Remote / Hybrid / Onsite
-  culture: number; // 0-10
-  growth: number; // 0-10
-  worklife: number; // 0-10
-  archived?: boolean;
-  archiveReason?: string;
-};
-
-const STORAGE_KEY = "offers:compare";
-const ARCHIVE_KEY = "offers:archive";
-
-function genId(prefix = "o") {
-  return `${prefix}_${Date.now().toString(36)}_${Math.random()
-    .toString(36)
-    .slice(2, 8)}`;
-}
+import { useAuth } from "@shared/context/AuthContext";
+import { getAppQueryClient } from "@shared/cache";
+import { coreKeys } from "@shared/cache/coreQueryKeys";
+import { fetchCoreJobs } from "@shared/cache/coreFetchers";
+import type { JobRow } from "@shared/types/database";
+import {
+  archiveOffer as archiveOfferRecord,
+  deleteOffer,
+  getCompensationRegions,
+  getOfferProjection,
+  importLocalOffers,
+  listOffers,
+  offerLabel,
+  saveOffer,
+  updateOffer as updateOfferRecord,
+} from "@job_pipeline/services/jobOffersService";
+import type {
+  CompensationRegions,
+  JobOfferInput,
+  JobOfferWithJob,
+  NegotiationOutcome,
+  OfferComparison,
+  OfferProjection,
+  VestingFrequency,
+} from "@job_pipeline/types";
+
+const HORIZON_YEARS = 4;
+const SAVE_DELAY_MS = 600;
+const PROJECTION_DELAY_MS = 400;
+
+const OUTCOMES: NegotiationOutcome[] = [
+  "pending",
+  "countered",
+  "accepted",
+  "declined",
+  "withdrawn",
+];
+const FREQUENCIES: VestingFrequency[] = ["monthly", "quarterly", "annual"];
+
+const money = (n: number | undefined) =>
+  `$${Math.round(n ?? 0).toLocaleString()}`;
 
 export default function OfferComparisonDialog({
   open,
@@ -54,120 +72,222 @@ export default function OfferComparisonDialog({
   open: boolean;
   onClose: () => void;
 }) {
-  const [offers, setOffers] = useState<Offer[]>(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      return raw ? (JSON.parse(raw) as Offer[]) : [];
-    } catch {
-      return [];
-    }
-  });
-
-  const [editing, setEditing] = useState<Partial<Offer> | null>(null);
+  const { user } = useAuth();
+  const [offers, setOffers] = useState<JobOfferWithJob[]>([]);
+  const [jobs, setJobs] = useState<JobRow[]>([]);
+  const [regions, setRegions] = useState<CompensationRegions | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newJobId, setNewJobId] = useState<number | "">("");
+
+  const [comparison, setComparison] = useState<OfferComparison | null>(null);
+  const [scenario, setScenario] = useState<OfferComparison | null>(null);
+  const [projecting, setProjecting] = useState(false);
   const [scenarioPct, setScenarioPct] = useState<number>(10);
 
-  const saveOffers = (next: Offer[]) => {
-    setOffers(next);
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
-    } catch {}
-  };
+  // pending (debounced) field edits per offer
+  const pendingSaves = useRef(
+    new Map<
+      string,
+      { patch: JobOfferInput; timer: ReturnType<typeof setTimeout> }
+    >()
+  );
 
-  const addOffer = () => {
-    const o: Offer = {
-      id: genId(),
-      title: "New Role",
-      company: "Company",
-      salary: 100000,
-      bonus: 0,
-      equityValue: 0,
-      benefitsValue: 10000,
-      location: "US",
-      colIndex: 1,
-      remote: "Hybrid",
-      culture: 5,
-      growth: 5,
-      worklife: 5,
+  const refreshOffers = useCallback(async () => {
+    if (!user?.id) return;
+    const res = await listOffers(user.id, { includeArchived: true });
+    if (res.error) {
+      setError(res.error.message);
+      return;
+    }
+    setOffers(res.data ?? []);
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!open || !user?.id) return;
+    let cancelled = false;
+    setLoading(true);
+    (async () => {
+      const rows = await getAppQueryClient()
+        .ensureQueryData({
+          queryKey: coreKeys.jobs(user.id),
+          queryFn: () => fetchCoreJobs<JobRow>(user.id),
+          staleTime: 60 * 60 * 1000,
+        })
+        .catch(() => [] as JobRow[]);
+      const jobRows = Array.isArray(rows) ? (rows as JobRow[]) : [];
+      if (cancelled) return;
+      setJobs(jobRows);
+
+      // move offers saved in this browser by the old dialog onto their jobs
+      const imported = await importLocalOffers(user.id, jobRows);
+      if (imported.error) {
+        console.error("Failed to import local offers:", imported.error.message);
+      } else if (imported.data?.unmatched) {
+        setNotice(
+          `${imported.data.unmatched} offer(s) saved in this browser could not be matched to a job. Add the job to your pipeline to import them.`
+        );
+      }
+
+      const regionsRes = await getCompensationRegions();
+      if (!cancelled && regionsRes.data) setRegions(regionsRes.data);
+      if (!cancelled) await refreshOffers();
+      if (!cancelled) setLoading(false);
+    })();
+    return () => {
+      cancelled = true;
     };
-    const next = [...offers, o];
-    saveOffers(next);
+  }, [open, user?.id, refreshOffers]);
+
+  const flushSaves = useCallback(() => {
+    if (!user?.id) return;
+    for (const [id, { patch, timer }] of pendingSaves.current) {
+      clearTimeout(timer);
+      updateOfferRecord(user.id, id, patch).then((res) => {
+        if (res.error) setError(res.error.message);
+      });
+    }
+    pendingSaves.current.clear();
+  }, [user?.id]);
+
+  const handleClose = () => {
+    flushSaves();
+    onClose();
   };
 
-  const updateOffer = (id: string, patch: Partial<Offer>) => {
-    const next = offers.map((o) => (o.id === id ? { ...o, ...patch } : o));
-    saveOffers(next);
+  const updateOffer = (id: string, patch: JobOfferInput) => {
+    setOffers((prev) =>
+      prev.map((o) => (o.id === id ? { ...o, ...patch } : o))
+    );
+    const userId = user?.id;
+    if (!userId) return;
+    const pending = pendingSaves.current.get(id);
+    if (pending) clearTimeout(pending.timer);
+    const merged = { ...pending?.patch, ...patch };
+    const timer = setTimeout(async () => {
+      pendingSaves.current.delete(id);
+      const res = await updateOfferRecord(userId, id, merged);
+      if (res.error) setError(res.error.message);
+    }, SAVE_DELAY_MS);
+    pendingSaves.current.set(id, { patch: merged, timer });
   };
 
-  const removeOffer = (id: string) => {
-    const next = offers.filter((o) => o.id !== id);
-    saveOffers(next);
+  const addOffer = async () => {
+    if (!user?.id || newJobId === "") return;
+    const job = jobs.find((j) => j.id === newJobId);
+    const res = await saveOffer(user.id, Number(newJobId), {
+      base_salary: job?.end_salary_range ?? job?.start_salary_range ?? 0,
+      location: job?.city_name ?? null,
+      tax_country: "US",
+      tax_state: job?.state_code ?? null,
+      offer_received_date: new Date().toISOString().split("T")[0],
+      negotiation_outcome: "pending",
+    });
+    if (res.error) {
+      setError(res.error.message);
+      return;
+    }
+    setNewJobId("");
+    await refreshOffers();
   };
 
-  const archiveOffer = (id: string, reason?: string) => {
-    const next = offers.map((o) =>
-      o.id === id ? { ...o, archived: true, archiveReason: reason } : o
-    );
-    saveOffers(next);
-    // persist archive separately for quick reference
-    try {
-      const raw = localStorage.getItem(ARCHIVE_KEY) || "[]";
-      const arr = JSON.parse(raw);
-      const target = next.find((x) => x.id === id);
-      if (target) {
-        arr.unshift({ ...target, archivedAt: new Date().toISOString() });
-        localStorage.setItem(ARCHIVE_KEY, JSON.stringify(arr));
-      }
-    } catch {}
+  const archiveOffer = async (id: string, reason?: string) => {
+    if (!user?.id) return;
+    const res = await archiveOfferRecord(user.id, id, reason);
+    if (res.error) setError(res.error.message);
+    await refreshOffers();
   };
 
-  const totalComp = (o: Offer) => {
-    // total compensation = salary + bonus + equityValue + benefitsValue + 401k match estimate (3% of salary)
-    const match = Math.round((o.salary || 0) * 0.03);
-    return (
-      (o.salary || 0) +
-      (o.bonus || 0) +
-      (o.equityValue || 0) +
-      (o.benefitsValue || 0) +
-      match
-    );
+  const restoreOffer = async (id: string) => {
+    if (!user?.id) return;
+    const res = await updateOfferRecord(user.id, id, {
+      status: "active",
+      archive_reason: null,
+    });
+    if (res.error) setError(res.error.message);
+    await refreshOffers();
   };
 
-  const adjustedForCOL = (o: Offer) => {
-    const col = o.colIndex && o.colIndex > 0 ? o.colIndex : 1;
-    return Math.round(totalComp(o) / col);
+  const removeOffer = async (id: string) => {
+    if (!user?.id) return;
+    const pending = pendingSaves.current.get(id);
+    if (pending) clearTimeout(pending.timer);
+    pendingSaves.current.delete(id);
+    const res = await deleteOffer(user.id, id);
+    if (res.error) setError(res.error.message);
+    await refreshOffers();
   };
 
-  const nonFinancialScore = (o: Offer) => {
+  const activeOffers = useMemo(
+    () =>
+      offers.filter((o) => o.status === "active" || o.status === "accepted"),
+    [offers]
+  );
+  const archivedOffers = offers.filter(
+    (o) => o.status === "archived" || o.status === "declined"
+  );
+  const jobsWithoutOffer = jobs.filter(
+    (j) => !offers.some((o) => o.job_id === j.id)
+  );
+
+  // projections from the server-side compensation model (debounced)
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setProjecting(true);
+      const scenarioOffers = activeOffers.map((o) => ({
+        ...o,
+        base_salary: Math.round((o.base_salary || 0) * (1 + scenarioPct / 100)),
+      }));
+      const [current, withRaise] = await Promise.all([
+        getOfferProjection(activeOffers, HORIZON_YEARS),
+        scenarioPct
+          ? getOfferProjection(scenarioOffers, HORIZON_YEARS)
+          : Promise.resolve(null),
+      ]);
+      if (cancelled) return;
+      if (current.error) setError(current.error.message);
+      setComparison(current.data);
+      setScenario(withRaise?.data ?? null);
+      setProjecting(false);
+    }, PROJECTION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, activeOffers, scenarioPct]);
+
+  const projectionFor = (id: string): OfferProjection | undefined =>
+    comparison?.offers.find((p) => p.id === id);
+
+  const nonFinancialScore = (o: JobOfferWithJob) => {
     // scale scores 0-10 into weighted 0-1 and return composite
     const weights = { culture: 0.4, growth: 0.35, worklife: 0.25 };
     const s =
-      ((o.culture || 0) / 10) * weights.culture +
-      ((o.growth || 0) / 10) * weights.growth +
-      ((o.worklife || 0) / 10) * weights.worklife;
+      ((o.culture_score || 0) / 10) * weights.culture +
+      ((o.growth_score || 0) / 10) * weights.growth +
+      ((o.worklife_score || 0) / 10) * weights.worklife;
     return Math.round(s * 100);
   };
 
-  const withScenario = (o: Offer, pct: number) => {
-    const increased = {
-      ...o,
-      salary: Math.round((o.salary || 0) * (1 + pct / 100)),
-    } as Offer;
-    return { total: totalComp(increased), adjusted: adjustedForCOL(increased) };
-  };
-
   // negotiation recommendations generator
-  const computeNegotiationRecommendations = (o: Offer) => {
-    const total = totalComp(o);
-    const adj = adjustedForCOL(o);
+  const computeNegotiationRecommendations = (o: JobOfferWithJob) => {
+    const firstYear = projectionFor(o.id)?.years[0];
+    const total = firstYear?.gross ?? 0;
+    const salary = o.base_salary || 0;
+    const annualEquity = (o.equity_grant_value || 0) / (o.vesting_years || 4);
+    const title = o.job?.job_title || "this";
+    const company = o.job?.company_name || "";
 
     // baseline counter-offer heuristics
-    const suggestedSalary = Math.round(
-      Math.max(o.salary * 1.12, o.salary + 5000)
-    );
+    const suggestedSalary = Math.round(Math.max(salary * 1.12, salary + 5000));
     const suggestedBonus = Math.round(
-      Math.max(o.bonus * 1.25, (o.salary || 0) * 0.05)
+      Math.max((o.bonus_target || 0) * 1.25, salary * 0.05)
     );
-    const suggestedEquity = Math.round(Math.max(o.equityValue * 1.5, 0));
+    const suggestedEquity = Math.round(Math.max(annualEquity * 1.5, 0));
 
     // what to emphasize in talking points
     const nf = nonFinancialScore(o);
@@ -180,26 +300,28 @@ export default function OfferComparisonDialog({
       emphasize.push(
         "Non-financial factors look weaker — prioritize clear monetary improvements and a signing bonus."
       );
-    if (o.remote && o.remote.toLowerCase().includes("remote"))
+    if (o.remote_policy && o.remote_policy.toLowerCase().includes("remote"))
       emphasize.push(
         "Leverage remote flexibility to negotiate for higher pay or extra equity."
       );
-    if ((o.bonus || 0) < (o.salary || 0) * 0.05)
+    if ((o.bonus_target || 0) < salary * 0.05)
       emphasize.push(
         "Ask for a structured bonus or performance review within 6-12 months."
       );
+    if ((o.vesting_cliff_months || 0) >= 12 && (o.equity_grant_value || 0) > 0)
+      emphasize.push(
+        "A 12-month cliff delays all equity; ask for a shorter cliff or a signing bonus to bridge the first year."
+      );
 
     // BATNA / fallback
     const batna = `If they can't meet the numbers, consider asking for a sign-on bonus (~$${Math.round(
-      suggestedSalary - o.salary
+      suggestedSalary - salary
     )}), accelerated equity vesting, or a guaranteed review in 6 months.`;
 
     // sample email template
-    const email = `Hi ${o.company} Hiring Team,
+    const email = `Hi ${company} Hiring Team,
 
-Thank you again for the offer for the ${
-      o.title
-    } role. I'm excited about the opportunity and the team. Based on market research and the responsibilities of this role, I'm seeking a base salary of $${suggestedSalary.toLocaleString()} (or a total compensation package closer to $${Math.round(
+Thank you again for the offer for the ${title} role. I'm excited about the opportunity and the team. Based on market research and the responsibilities of this role, I'm seeking a base salary of $${suggestedSalary.toLocaleString()} (or a first-year total compensation package closer to $${Math.round(
       total * 1.12
     ).toLocaleString()}), with an improved bonus and equity component.
 
@@ -211,11 +333,11 @@ Best,
 [Your name]`;
 
     const points = [
-      `Target a base salary of $${suggestedSalary.toLocaleString()} (≈${Math.round(
-        ((suggestedSalary - o.salary) / o.salary) * 100
-      )}% increase).`,
+      `Target a base salary of $${suggestedSalary.toLocaleString()} (≈${
+        salary ? Math.round(((suggestedSalary - salary) / salary) * 100) : 0
+      }% increase).`,
       `Ask for a bonus of ~$${suggestedBonus.toLocaleString()} and consider a sign-on bonus if needed.`,
-      `Request increased equity (~$${suggestedEquity.toLocaleString()}) or faster vesting.`,
+      `Request increased equity (~$${suggestedEquity.toLocaleString()}/year) or faster vesting.`,
       ...emphasize,
       batna,
     ];
@@ -226,91 +348,68 @@ Best,
       suggestedEquity,
       talkingPoints: points,
       sampleEmail: email,
-      total,
-      adjusted: adj,
     };
   };
 
   const [showRec, setShowRec] = useState<Record<string, boolean>>({});
 
-  // Simple built-in COL index lookup by location (fallback dataset).
-  // Values are multipliers where 1.0 = baseline US average.
-  const COL_LOOKUP: Record<string, number> = {
-    // Bay Area
-    "san francisco": 1.6,
-    "san francisco, ca": 1.6,
-    sf: 1.6,
-    "san jose": 1.7,
-    "palo alto": 1.8,
-    "bay area": 1.6,
-    // New York
-    "new york": 1.5,
-    "new york city": 1.5,
-    nyc: 1.5,
-    // Large US metros
-    seattle: 1.25,
-    boston: 1.3,
-    "los angeles": 1.35,
-    la: 1.35,
-    chicago: 1.1,
-    austin: 1.05,
-    denver: 1.05,
-    atlanta: 0.95,
-    miami: 1.0,
-    dallas: 0.95,
-    houston: 0.95,
-    // International examples
-    london: 1.4,
-    berlin: 0.9,
-    toronto: 1.1,
-    vancouver: 1.15,
-    sydney: 1.2,
-    madrid: 0.9,
-    paris: 1.2,
-    bangalore: 0.4,
-    mumbai: 0.45,
-    india: 0.45,
-    "mexico city": 0.6,
-    "sao paulo": 0.7,
+  const labelFor = (id: string | null) => {
+    const o = offers.find((x) => x.id === id);
+    return o ? offerLabel(o) : "—";
   };
 
-  function estimateCOLFromLocation(loc?: string) {
-    if (!loc) return 1;
-    const s = loc.toLowerCase().trim();
-    // try direct match
-    if (COL_LOOKUP[s]) return COL_LOOKUP[s];
-    // try to find a key contained in the string (e.g., 'San Francisco, CA')
-    for (const key of Object.keys(COL_LOOKUP)) {
-      if (s.includes(key)) return COL_LOOKUP[key];
-    }
-    // fallback heuristics
-    if (s.includes("remote")) return 1; // remote baseline
-    if (s.includes("us") || s.includes("usa") || s.includes("united states"))
-      return 1;
-    // country-level fallbacks
-    if (s.includes("canada")) return 1.05;
-    if (s.includes("uk") || s.includes("united kingdom")) return 1.3;
-    if (s.includes("india")) return 0.45;
-    return 1; // default baseline
-  }
-
-  const summary = useMemo(() => {
-    return offers.map((o) => ({
-      id: o.id,
-      company: o.company,
-      title: o.title,
-      total: totalComp(o),
-      adjusted: adjustedForCOL(o),
-      nonFin: nonFinancialScore(o),
-    }));
-  }, [offers]);
+  const numberField = (
+    o: JobOfferWithJob,
+    field: keyof JobOfferInput,
+    label: string,
+    sm = 4
+  ) => (
+    <Grid size={{ xs: 12, sm: sm }}>
+      <TextField
+        fullWidth
+        label={label}
+        type="number"
+        size="small"
+        value={(o[field] as number | null) ?? ""}
+        onChange={(e) =>
+          updateOffer(o.id, { [field]: Number(e.target.value || 0) })
+        }
+      />
+    </Grid>
+  );
+
+  const scoreField = (
+    o: JobOfferWithJob,
+    field: "culture_score" | "growth_score" | "worklife_score",
+    label: string
+  ) => (
+    <Grid size={{ xs: 12, sm: 4 }}>
+      <Typography variant="caption" sx={{ display: "block", mb: 0.5 }}>
+        {label} (0-10)
+      </Typography>
+      <TextField
+        select
+        fullWidth
+        size="small"
+        value={o[field]}
+        onChange={(e) => updateOffer(o.id, { [field]: Number(e.target.value) })}
+        inputProps={{ "aria-label": label }}
+      >
+        {Array.from({ length: 11 }).map((_, i) => (
+          <MenuItem key={i} value={i}>
+            {i}
+          </MenuItem>
+        ))}
+      </TextField>
+    </Grid>
+  );
 
   return (
-    <Dialog open={open} onClose={onClose} fullWidth maxWidth="lg">
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="lg">
       <DialogTitle>
         Offer Comparison
         <IconButton
-          onClick={onClose}
+          onClick={handleClose}
           size="small"
           sx={{ position: "absolute", right: 8, top: 8 }}
         >
@@ -319,8 +418,42 @@ Best,
       </DialogTitle>
       <DialogContent dividers>
         <Stack spacing={2}>
-          <Stack direction="row" spacing={1} alignItems="center">
-            <Button variant="contained" onClick={addOffer}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+          {notice && (
+            <Alert severity="info" onClose={() => setNotice(null)}>
+              {notice}
+            </Alert>
+          )}
+
+          <Stack
+            direction="row"
+            spacing={1}
+            alignItems="center"
+            flexWrap="wrap"
+          >
+            <TextField
+              select
+              size="small"
+              label="Job with an offer"
+              value={newJobId}
+              onChange={(e) => setNewJobId(Number(e.target.value))}
+              sx={{ minWidth: 260 }}
+            >
+              {jobsWithoutOffer.map((j) => (
+                <MenuItem key={j.id} value={j.id}>
+                  {[j.job_title, j.company_name].filter(Boolean).join(" — ")}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Button
+              variant="contained"
+              onClick={addOffer}
+              disabled={newJobId === ""}
+            >
               Add Offer
             </Button>
             <TextField
@@ -330,359 +463,501 @@ Best,
               value={scenarioPct}
               onChange={(e) => setScenarioPct(Number(e.target.value || 0))}
             />
-            <Button
-              onClick={() => {
-                /* noop, recompute on the fly via summary */
-              }}
-            >
-              Apply Scenario
-            </Button>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={showArchived}
+                  onChange={(e) => setShowArchived(e.target.checked)}
+                />
+              }
+              label={`Archived (${archivedOffers.length})`}
+            />
+            {(loading || projecting) && <CircularProgress size={20} />}
           </Stack>
 
+          {!loading && activeOffers.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No offers yet. Pick a job from your pipeline to record its offer.
+            </Typography>
+          )}
+
           <Grid container spacing={2}>
-            {offers.map((o) => (
-              <Grid item xs={12} md={6} key={o.id}>
-                <Paper sx={{ p: 2 }}>
-                  <Stack spacing={1}>
-                    <Stack
-                      direction="row"
-                      justifyContent="space-between"
-                      alignItems="center"
-                    >
-                      <Grid container spacing={1} sx={{ alignItems: "center" }}>
-                        <Grid item xs={12} sm={6}>
+            {activeOffers.map((o) => {
+              const projection = projectionFor(o.id);
+              const firstYear = projection?.years[0];
+              const scenarioYear = scenario?.offers.find((p) => p.id === o.id)
+                ?.years[0];
+              return (
+                <Grid size={{ xs: 12, md: 6 }} key={o.id}>
+                  <Paper sx={{ p: 2 }}>
+                    <Stack spacing={1}>
+                      <Stack
+                        direction="row"
+                        justifyContent="space-between"
+                        alignItems="center"
+                      >
+                        <Typography variant="subtitle1">
+                          {offerLabel(o)}
+                        </Typography>
+                        <Stack direction="row" spacing={1}>
+                          <Button
+                            size="small"
+                            onClick={() => archiveOffer(o.id, "Declined")}
+                          >
+                            Archive
+                          </Button>
+                          <Button
+                            size="small"
+                            color="error"
+                            onClick={() => removeOffer(o.id)}
+                          >
+                            Remove
+                          </Button>
+                        </Stack>
+                      </Stack>
+
+                      <Typography variant="overline">Cash</Typography>
+                      <Grid container spacing={1}>
+                        {numberField(o, "base_salary", "Base Salary")}
+                        {numberField(o, "annual_raise_pct", "Annual raise %")}
+                        {numberField(o, "bonus_target", "Bonus target")}
+                        {numberField(o, "signing_bonus", "Signing bonus", 6)}
+                        {numberField(
+                          o,
+                          "signing_amortization_months",
+                          "Signing spread (months)",
+                          6
+                        )}
+                      </Grid>
+
+                      <Typography variant="overline">Equity</Typography>
+                      <Grid container spacing={1}>
+                        {numberField(o, "equity_grant_value", "Grant value")}
+                        {numberField(o, "vesting_years", "Vesting years")}
+                        {numberField(
+                          o,
+                          "vesting_cliff_months",
+                          "Cliff (months)"
+                        )}
+                        <Grid size={{ xs: 12, sm: 4 }}>
                           <TextField
+                            select
                             fullWidth
-                            label="Role / Title"
                             size="small"
-                            value={o.title}
+                            label="Vesting"
+                            value={o.vesting_frequency}
                             onChange={(e) =>
-                              updateOffer(o.id, { title: e.target.value })
+                              updateOffer(o.id, {
+                                vesting_frequency: e.target
+                                  .value as VestingFrequency,
+                              })
                             }
+                          >
+                            {FREQUENCIES.map((f) => (
+                              <MenuItem key={f} value={f}>
+                                {f}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        </Grid>
+                        <Grid size={{ xs: 12, sm: 8 }}>
+                          <TextField
+                            fullWidth
+                            size="small"
+                            label="% per year (optional, e.g. 5,15,40,40)"
+                            defaultValue={(o.vesting_year_percents ?? []).join(
+                              ","
+                            )}
+                            onBlur={(e) => {
+                              const parts = e.target.value
+                                .split(",")
+                                .map((p) => Number(p.trim()))
+                                .filter((p) => Number.isFinite(p) && p >= 0);
+                              updateOffer(o.id, {
+                                vesting_year_percents: parts.length
+                                  ? parts
+                                  : null,
+                              });
+                            }}
                           />
                         </Grid>
-                        <Grid item xs={12} sm={6}>
+                        {numberField(
+                          o,
+                          "refresher_annual_value",
+                          "Refresher / year",
+                          6
+                        )}
+                        {numberField(
+                          o,
+                          "refresher_start_year",
+                          "Refreshers from year",
+                          6
+                        )}
+                      </Grid>
+
+                      <Typography variant="overline">
+                        Retirement & benefits
+                      </Typography>
+                      <Grid container spacing={1}>
+                        {numberField(o, "retirement_match_pct", "Match %")}
+                        {numberField(
+                          o,
+                          "retirement_match_limit_pct",
+                          "Up to % of base"
+                        )}
+                        {numberField(o, "benefits_value", "Benefits value")}
+                      </Grid>
+
+                      <Typography variant="overline">
+                        Location & taxes
+                      </Typography>
+                      <Grid container spacing={1}>
+                        <Grid size={{ xs: 12, sm: 6 }}>
                           <TextField
                             fullWidth
-                            label="Company"
+                            label="Location"
                             size="small"
-                            value={o.company}
+                            value={o.location ?? ""}
                             onChange={(e) =>
-                              updateOffer(o.id, { company: e.target.value })
+                              updateOffer(o.id, { location: e.target.value })
                             }
                           />
                         </Grid>
-                      </Grid>
-                      <Stack direction="row" spacing={1}>
-                        <Button
-                          size="small"
-                          onClick={() => archiveOffer(o.id, "Declined")}
-                        >
-                          Archive
-                        </Button>
-                        <Button
-                          size="small"
-                          color="error"
-                          onClick={() => removeOffer(o.id)}
-                        >
-                          Remove
-                        </Button>
-                      </Stack>
-                    </Stack>
-                    <Grid container spacing={1}>
-                      <Grid item xs={12} sm={4}>
-                        <TextField
-                          fullWidth
-                          label="Base Salary"
-                          type="number"
-                          size="small"
-                          value={o.salary}
-                          onChange={(e) =>
-                            updateOffer(o.id, {
-                              salary: Number(e.target.value || 0),
-                            })
-                          }
-                        />
-                      </Grid>
-                      <Grid item xs={12} sm={4}>
-                        <TextField
-                          fullWidth
-                          label="Bonus"
-                          type="number"
-                          size="small"
-                          value={o.bonus}
-                          onChange={(e) =>
-                            updateOffer(o.id, {
-                              bonus: Number(e.target.value || 0),
-                            })
-                          }
-                        />
-                      </Grid>
-                      <Grid item xs={12} sm={4}>
-                        <TextField
-                          fullWidth
-                          label="Equity (annualized)"
-                          type="number"
-                          size="small"
-                          value={o.equityValue}
-                          onChange={(e) =>
-                            updateOffer(o.id, {
-                              equityValue: Number(e.target.value || 0),
-                            })
-                          }
-                        />
-                      </Grid>
-                      <Grid item xs={12} sm={4}>
-                        <TextField
-                          fullWidth
-                          label="Benefits value"
-                          type="number"
-                          size="small"
-                          value={o.benefitsValue}
-                          onChange={(e) =>
-                            updateOffer(o.id, {
-                              benefitsValue: Number(e.target.value || 0),
-                            })
-                          }
-                        />
-                      </Grid>
-                      <Grid item xs={12} sm={5}>
-                        <TextField
-                          fullWidth
-                          label="Location"
-                          size="small"
-                          value={o.location}
-                          onChange={(e) =>
-                            updateOffer(o.id, { location: e.target.value })
-                          }
-                        />
-                      </Grid>
-                      <Grid item xs={12} sm={3}>
-                        <Stack direction="row" spacing={1} alignItems="center">
+                        <Grid size={{ xs: 12, sm: 6 }}>
                           <TextField
                             fullWidth
-                            label="COL index"
+                            label="COL index (blank = auto)"
                             size="small"
                             type="number"
-                            value={o.colIndex ?? 1}
+                            value={o.col_index ?? ""}
+                            helperText={
+                              projection
+                                ? `Using ${projection.colIndex} (${projection.colSource})`
+                                : undefined
+                            }
                             onChange={(e) =>
                               updateOffer(o.id, {
-                                colIndex: Number(e.target.value || 1),
+                                col_index: e.target.value
+                                  ? Number(e.target.value)
+                                  : null,
                               })
                             }
                           />
-                          <Button
+                        </Grid>
+                        <Grid size={{ xs: 12, sm: 6 }}>
+                          <TextField
+                            select
+                            fullWidth
                             size="small"
-                            onClick={() =>
+                            label="Tax country"
+                            value={o.tax_country}
+                            onChange={(e) =>
                               updateOffer(o.id, {
-                                colIndex: estimateCOLFromLocation(o.location),
+                                tax_country: e.target.value,
+                                tax_state:
+                                  e.target.value === "US" ? o.tax_state : null,
                               })
                             }
                           >
-                            Auto
-                          </Button>
-                        </Stack>
+                            {(regions?.countries ?? [])
+                              .concat(
+                                regions?.countries.some(
+                                  (c) => c.code === o.tax_country
+                                )
+                                  ? []
+                                  : [
+                                      {
+                                        code: o.tax_country,
+                                        name: o.tax_country,
+                                        currency: o.currency,
+                                      },
+                                    ]
+                              )
+                              .map((c) => (
+                                <MenuItem key={c.code} value={c.code}>
+                                  {c.name}
+                                </MenuItem>
+                              ))}
+                          </TextField>
+                        </Grid>
+                        {o.tax_country === "US" && (
+                          <Grid size={{ xs: 12, sm: 6 }}>
+                            <TextField
+                              select
+                              fullWidth
+                              size="small"
+                              label="State"
+                              value={o.tax_state ?? ""}
+                              onChange={(e) =>
+                                updateOffer(o.id, {
+                                  tax_state: e.target.value || null,
+                                })
+                              }
+                            >
+                              <MenuItem value="">Federal only</MenuItem>
+                              {(regions?.states ?? []).map((s) => (
+                                <MenuItem key={s.code} value={s.code}>
+                                  {s.name}
+                                  {s.hasIncomeTax ? "" : " (no income tax)"}
+                                </MenuItem>
+                              ))}
+                            </TextField>
+                          </Grid>
+                        )}
+                        <Grid size={{ xs: 12, sm: 6 }}>
+                          <TextField
+                            fullWidth
+                            label="Remote Policy"
+                            size="small"
+                            value={o.remote_policy ?? ""}
+                            onChange={(e) =>
+                              updateOffer(o.id, {
+                                remote_policy: e.target.value,
+                              })
+                            }
+                          />
+                        </Grid>
                       </Grid>
-                      <Grid item xs={12} sm={4}>
-                        <TextField
-                          fullWidth
-                          label="Remote Policy"
-                          size="small"
-                          value={o.remote}
-                          onChange={(e) =>
-                            updateOffer(o.id, { remote: e.target.value })
-                          }
-                        />
+
+                      <Grid container spacing={1}>
+                        {scoreField(o, "culture_score", "Culture fit")}
+                        {scoreField(o, "growth_score", "Growth")}
+                        {scoreField(o, "worklife_score", "Work-life")}
                       </Grid>
-                      <Grid item xs={12} sm={4}>
-                        <Typography
-                          variant="caption"
-                          sx={{ display: "block", mb: 0.5 }}
-                        >
-                          Culture fit (0-10)
-                        </Typography>
-                        <TextField
-                          select
-                          fullWidth
-                          size="small"
-                          value={o.culture}
-                          onChange={(e) =>
-                            updateOffer(o.id, {
-                              culture: Number(e.target.value),
-                            })
-                          }
-                          inputProps={{ "aria-label": "Culture fit" }}
-                        >
-                          {Array.from({ length: 11 }).map((_, i) => (
-                            <MenuItem key={i} value={i}>
-                              {i}
-                            </MenuItem>
-                          ))}
-                        </TextField>
+
+                      <Typography variant="overline">Negotiation</Typography>
+                      <Grid container spacing={1}>
+                        {numberField(
+                          o,
+                          "initial_base_salary",
+                          "Initially offered base"
+                        )}
+                        <Grid size={{ xs: 12, sm: 4 }}>
+                          <TextField
+                            fullWidth
+                            size="small"
+                            type="date"
+                            label="Offer received"
+                            InputLabelProps={{ shrink: true }}
+                            value={o.offer_received_date ?? ""}
+                            onChange={(e) =>
+                              updateOffer(o.id, {
+                                offer_received_date: e.target.value || null,
+                              })
+                            }
+                          />
+                        </Grid>
+                        <Grid size={{ xs: 12, sm: 4 }}>
+                          <TextField
+                            select
+                            fullWidth
+                            size="small"
+                            label="Outcome"
+                            value={o.negotiation_outcome ?? ""}
+                            onChange={(e) =>
+                              updateOffer(o.id, {
+                                negotiation_outcome: (e.target.value ||
+                                  null) as NegotiationOutcome | null,
+                              })
+                            }
+                          >
+                            <MenuItem value="">Not started</MenuItem>
+                            {OUTCOMES.map((outcome) => (
+                              <MenuItem key={outcome} value={outcome}>
+                                {outcome}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        </Grid>
                       </Grid>
-                      <Grid item xs={12} sm={4}>
-                        <Typography
-                          variant="caption"
-                          sx={{ display: "block", mb: 0.5 }}
-                        >
-                          Growth (0-10)
+
+                      <Typography variant="body2">
+                        Year 1: {money(firstYear?.gross)} gross,{" "}
+                        {money(firstYear?.net)} after tax (
+                        {Math.round((firstYear?.tax.effectiveRate ?? 0) * 100)}%
+                        {firstYear && !firstYear.tax.supported
+                          ? ", estimated"
+                          : ""}
+                        )
+                      </Typography>
+                      <Typography variant="body2">
+                        Adjusted (COL): {money(firstYear?.adjusted)}
+                      </Typography>
+                      <Typography variant="body2">
+                        Non-financial score: {nonFinancialScore(o)}%
+                      </Typography>
+                      {scenarioYear && (
+                        <Typography variant="body2">
+                          Scenario (+{scenarioPct}% salary):{" "}
+                          {money(scenarioYear.gross)} (adj{" "}
+                          {money(scenarioYear.adjusted)})
                         </Typography>
-                        <TextField
-                          select
-                          fullWidth
+                      )}
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Button
                           size="small"
-                          value={o.growth}
-                          onChange={(e) =>
-                            updateOffer(o.id, {
-                              growth: Number(e.target.value),
-                            })
+                          onClick={() =>
+                            setShowRec((s) => ({ ...s, [o.id]: !s[o.id] }))
                           }
-                          inputProps={{ "aria-label": "Growth" }}
                         >
-                          {Array.from({ length: 11 }).map((_, i) => (
-                            <MenuItem key={i} value={i}>
-                              {i}
-                            </MenuItem>
-                          ))}
-                        </TextField>
-                      </Grid>
-                      <Grid item xs={12} sm={4}>
-                        <Typography
-                          variant="caption"
-                          sx={{ display: "block", mb: 0.5 }}
-                        >
-                          Work-life (0-10)
-                        </Typography>
-                        <TextField
-                          select
-                          fullWidth
-                          size="small"
-                          value={o.worklife}
-                          onChange={(e) =>
-                            updateOffer(o.id, {
-                              worklife: Number(e.target.value),
-                            })
-                          }
-                          inputProps={{ "aria-label": "Work-life" }}
+                          {showRec[o.id]
+                            ? "Hide Negotiation Tips"
+                            : "Show Negotiation Tips"}
+                        </Button>
+                      </Stack>
+                      {showRec[o.id] && (
+                        <Paper
+                          sx={{
+                            p: 2,
+                            mt: 1,
+                            backgroundColor: (theme) => theme.palette.grey[50],
+                          }}
                         >
-                          {Array.from({ length: 11 }).map((_, i) => (
-                            <MenuItem key={i} value={i}>
-                              {i}
-                            </MenuItem>
-                          ))}
-                        </TextField>
-                      </Grid>
-                    </Grid>
-                    <Typography variant="body2">
-                      Total comp: ${totalComp(o).toLocaleString()}
-                    </Typography>
-                    <Typography variant="body2">
-                      Adjusted (COL): ${adjustedForCOL(o).toLocaleString()}
-                    </Typography>
-                    <Typography variant="body2">
-                      Non-financial score: {nonFinancialScore(o)}%
-                    </Typography>
-                    <Typography variant="body2">
-                      Scenario (+{scenarioPct}% salary): $
-                      {withScenario(o, scenarioPct).total.toLocaleString()} (adj
-                      ${withScenario(o, scenarioPct).adjusted.toLocaleString()})
-                    </Typography>
-                    <Stack direction="row" spacing={1} alignItems="center">
-                      <Button
-                        size="small"
-                        onClick={() =>
-                          setShowRec((s) => ({ ...s, [o.id]: !s[o.id] }))
-                        }
-                      >
-                        {showRec[o.id]
-                          ? "Hide Negotiation Tips"
-                          : "Show Negotiation Tips"}
-                      </Button>
+                          {(() => {
+                            const r = computeNegotiationRecommendations(o);
+                            return (
+                              <Stack spacing={1}>
+                                <Typography variant="subtitle2">
+                                  Suggested counter-offer
+                                </Typography>
+                                <Typography variant="body2">
+                                  Base salary: $
+                                  {r.suggestedSalary.toLocaleString()}
+                                </Typography>
+                                <Typography variant="body2">
+                                  Bonus target: $
+                                  {r.suggestedBonus.toLocaleString()}
+                                </Typography>
+                                <Typography variant="body2">
+                                  Equity (per year): $
+                                  {r.suggestedEquity.toLocaleString()}
+                                </Typography>
+                                <Typography variant="subtitle2" sx={{ mt: 1 }}>
+                                  Talking points
+                                </Typography>
+                                {r.talkingPoints.map((p, i) => (
+                                  <Typography variant="body2" key={i}>
+                                    • {p}
+                                  </Typography>
+                                ))}
+                                <Typography variant="subtitle2" sx={{ mt: 1 }}>
+                                  Sample email
+                                </Typography>
+                                <TextField
+                                  fullWidth
+                                  multiline
+                                  minRows={6}
+                                  value={r.sampleEmail}
+                                />
+                              </Stack>
+                            );
+                          })()}
+                        </Paper>
+                      )}
                     </Stack>
-                    {showRec[o.id] && (
-                      <Paper
-                        sx={{
-                          p: 2,
-                          mt: 1,
-                          backgroundColor: (theme) => theme.palette.grey[50],
-                        }}
-                      >
-                        {(() => {
-                          const r = computeNegotiationRecommendations(o);
+                  </Paper>
+                </Grid>
+              );
+            })}
+          </Grid>
+
+          {activeOffers.length > 0 && (
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6">Comparison Matrix</Typography>
+              <Typography variant="caption" color="text.secondary">
+                Cumulative totals: COL-adjusted after-tax value (after tax /
+                gross). Taxes are simplified estimates from bundled tables.
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Offer</TableCell>
+                    <TableCell>1 year</TableCell>
+                    <TableCell>2 years</TableCell>
+                    <TableCell>4 years</TableCell>
+                    <TableCell>Non-fin%</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {activeOffers.map((o) => {
+                    const projection = projectionFor(o.id);
+                    return (
+                      <TableRow key={o.id}>
+                        <TableCell>{offerLabel(o)}</TableCell>
+                        {[1, 2, 4].map((years) => {
+                          const t = projection?.totals.find(
+                            (x) => x.years === years
+                          );
                           return (
-                            <Stack spacing={1}>
-                              <Typography variant="subtitle2">
-                                Suggested counter-offer
-                              </Typography>
-                              <Typography variant="body2">
-                                Base salary: $
-                                {r.suggestedSalary.toLocaleString()}
-                              </Typography>
-                              <Typography variant="body2">
-                                Bonus target: $
-                                {r.suggestedBonus.toLocaleString()}
+                            <TableCell key={years}>
+                              <Typography variant="body2" fontWeight={600}>
+                                {money(t?.adjusted)}
                               </Typography>
-                              <Typography variant="body2">
-                                Equity (annualized): $
-                                {r.suggestedEquity.toLocaleString()}
+                              <Typography
+                                variant="caption"
+                                color="text.secondary"
+                              >
+                                {money(t?.net)} / {money(t?.gross)}
                               </Typography>
-                              <Typography variant="subtitle2" sx={{ mt: 1 }}>
-                                Talking points
-                              </Typography>
-                              {r.talkingPoints.map((p, i) => (
-                                <Typography variant="body2" key={i}>
-                                  • {p}
-                                </Typography>
-                              ))}
-                              <Typography variant="subtitle2" sx={{ mt: 1 }}>
-                                Sample email
-                              </Typography>
-                              <TextField
-                                fullWidth
-                                multiline
-                                minRows={6}
-                                value={r.sampleEmail}
-                              />
-                            </Stack>
+                            </TableCell>
                           );
-                        })()}
-                      </Paper>
-                    )}
-                  </Stack>
-                </Paper>
-              </Grid>
-            ))}
-          </Grid>
-
-          <Paper sx={{ p: 2 }}>
-            <Typography variant="h6">Comparison Matrix</Typography>
-            <Table size="small">
-              <TableHead>
-                <TableRow>
-                  <TableCell>Offer</TableCell>
-                  <TableCell>Total Comp</TableCell>
-                  <TableCell>Adj (COL)</TableCell>
-                  <TableCell>Non-fin%</TableCell>
-                </TableRow>
-              </TableHead>
-              <TableBody>
-                {summary.map((s) => (
-                  <TableRow key={s.id}>
-                    <TableCell>
-                      {s.title} — {s.company}
-                    </TableCell>
-                    <TableCell>${s.total.toLocaleString()}</TableCell>
-                    <TableCell>${s.adjusted.toLocaleString()}</TableCell>
-                    <TableCell>{s.nonFin}%</TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </Paper>
+                        })}
+                        <TableCell>{nonFinancialScore(o)}%</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {(comparison?.breakEven.length ?? 0) > 0 && (
+                <Stack spacing={0.5} sx={{ mt: 2 }}>
+                  <Typography variant="subtitle2">Break-even points</Typography>
+                  {comparison!.breakEven.map((b) => {
+                    const trailing =
+                      b.initialLeader === b.offerA ? b.offerB : b.offerA;
+                    return (
+                      <Typography
+                        variant="body2"
+                        key={`${b.offerA}-${b.offerB}`}
+                      >
+                        {b.initialLeader == null
+                          ? `${labelFor(b.offerA)} and ${labelFor(b.offerB)} are worth the same`
+                          : b.month == null
+                            ? `${labelFor(b.initialLeader)} stays ahead of ${labelFor(trailing)} for ${comparison!.horizonYears} years`
+                            : `${labelFor(trailing)} catches up with ${labelFor(b.initialLeader)} after ${b.month} months`}
+                      </Typography>
+                    );
+                  })}
+                </Stack>
+              )}
+            </Paper>
+          )}
+
+          {showArchived && archivedOffers.length > 0 && (
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6">Archived Offers</Typography>
+              {archivedOffers.map((o) => (
+                <Stack
+                  key={o.id}
+                  direction="row"
+                  justifyContent="space-between"
+                  alignItems="center"
+                >
+                  <Typography variant="body2">
+                    {offerLabel(o)} — {money(o.base_salary)}
+                    {o.archive_reason ? ` (${o.archive_reason})` : ""}
+                  </Typography>
+                  <Button size="small" onClick={() => restoreOffer(o.id)}>
+                    Restore
+                  </Button>
+                </Stack>
+              ))}
+            </Paper>
+          )}
         </Stack>
       </DialogContent>
       <DialogActions>
-        <Button onClick={onClose}>Close</Button>
+        <Button onClick={handleClose}>Close</Button>
       </DialogActions>
     </Dialog>
   );
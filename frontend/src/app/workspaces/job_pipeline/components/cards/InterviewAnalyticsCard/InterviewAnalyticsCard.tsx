@@ -45,7 +45,7 @@ import {
   EmojiEvents as SuccessIcon,
 } from "@mui/icons-material";
 import { useAuth } from "@shared/context/AuthContext";
-import { getUserStorage } from "@shared/utils/userStorage";
+import { listPracticeAttempts } from "@workspaces/interview_hub/services/interviewPrepService";
 import {
   listInterviews,
   listConfidenceLogs,
@@ -183,33 +183,32 @@ export default function InterviewAnalyticsCard() {
     loadData();
   }, [user?.id]);
 
-  // Load practice records from user-scoped localStorage and listen for storage events
+  // Load practice attempts from the database and refresh when the practice UI records one
   useEffect(() => {
-    function loadPractice() {
-      try {
-        const storage = getUserStorage(user?.id);
-        const arr = storage.get<any[]>("interview_question_practice", []);
-        setPracticeRecords(Array.isArray(arr) ? arr : []);
-      } catch (e) {
-        setPracticeRecords([]);
-      }
+    if (!user?.id) return;
+    const userId = user.id;
+    let cancelled = false;
+
+    async function loadPractice() {
+      const res = await listPracticeAttempts(userId);
+      if (cancelled) return;
+      setPracticeRecords(
+        (res.data ?? []).map((a) => ({
+          id: a.id,
+          questionId: a.question_key,
+          practicedAt: a.practiced_at,
+        }))
+      );
     }
 
     loadPractice();
-    const storage = getUserStorage(user?.id);
-    const practiceKey = storage.getFullKey("interview_question_practice");
-    const onStorage = (ev: StorageEvent) => {
-      if (ev.key === practiceKey) loadPractice();
-    };
-    window.addEventListener("storage", onStorage);
-    // custom event from practice UI (if any)
     const handlePractice = () => loadPractice();
     window.addEventListener(
       "practice-updated",
       handlePractice as EventListener
     );
     return () => {
-      window.removeEventListener("storage", onStorage);
+      cancelled = true;
       window.removeEventListener(
         "practice-updated",
         handlePractice as EventListener
@@ -6,6 +6,8 @@
  *
  * Backend: Uses analytics_cache and match scores from jobs
  * Cache: Aggregates data from individual job match analyses
+ * Gaps are grouped through the skills taxonomy, so "JS" and "JavaScript"
+ * count as one skill under its canonical name
  *
  * Contract:
  * - Inputs: User ID (from auth context)
@@ -38,7 +40,9 @@ import { useAuth } from "@shared/context/AuthContext";
 import {
   useAnalyticsCacheDocumentMatchScores,
   useCoreJobs,
+  useSkillTaxonomy,
 } from "@shared/cache/coreHooks";
+import { createSkillResolver } from "@shared/services/skillTaxonomy";
 
 interface SkillGap {
   skill: string;
@@ -78,6 +82,9 @@ export default function SkillsGapCard() {
     user?.id
   );
 
+  const { data: taxonomy } = useSkillTaxonomy();
+  const resolver = useMemo(() => createSkillResolver(taxonomy), [taxonomy]);
+
   const jobs = jobsQuery.data ?? EMPTY_JOBS;
   const analyticsCache = analyticsQuery.data ?? EMPTY_CACHE;
 
@@ -91,7 +98,8 @@ export default function SkillsGapCard() {
 
   // Aggregate skills gaps from analytics cache
   const skillsGapAnalysis = useMemo(() => {
-    const skillsMap = new Map<string, number>();
+    // Canonical key -> display name and job count
+    const skillsMap = new Map<string, { skill: string; frequency: number }>();
 
     // Extract missing skills from cached match analyses
     analyticsCache.forEach((cache) => {
@@ -100,15 +108,25 @@ export default function SkillsGapCard() {
         data?.missingSkills ||
         []) as string[];
 
+      // A job listing "JS" and "JavaScript" counts once
+      const seen = new Set<string>();
       skillsGaps.forEach((skill: string) => {
-        const count = skillsMap.get(skill) || 0;
-        skillsMap.set(skill, count + 1);
+        if (typeof skill !== "string" || !skill.trim()) return;
+        const key = resolver.key(skill);
+        if (seen.has(key)) return;
+        seen.add(key);
+        const entry = skillsMap.get(key) ?? {
+          skill: resolver.resolve(skill)?.name ?? skill.trim(),
+          frequency: 0,
+        };
+        entry.frequency += 1;
+        skillsMap.set(key, entry);
       });
     });
 
     // Convert to array and sort by frequency
-    const gaps: SkillGap[] = Array.from(skillsMap.entries())
-      .map(([skill, frequency]) => ({
+    const gaps: SkillGap[] = Array.from(skillsMap.values())
+      .map(({ skill, frequency }) => ({
         skill,
         frequency,
         priority:
@@ -121,7 +139,7 @@ export default function SkillsGapCard() {
       .sort((a, b) => b.frequency - a.frequency);
 
     return gaps;
-  }, [analyticsCache]);
+  }, [analyticsCache, resolver]);
 
   // Generate learning recommendations based on top gaps
   const learningRecommendations: LearningResource[] = useMemo(() => {
@@ -289,24 +289,28 @@ export default function JobFormDialog({
                         ),
                         start_salary: String(
                           data.salary_start ||
+                            data.start_salary_range ||
                             salary?.min ||
                             prev.start_salary ||
                             ""
                         ),
                         end_salary: String(
                           data.salary_end ||
+                            data.end_salary_range ||
                             salary?.max ||
                             prev.end_salary ||
                             ""
                         ),
                         city_name: String(
-                          data.location_city ||
+                          data.city_name ||
+                            data.location_city ||
                             location?.city ||
                             prev.city_name ||
                             ""
                         ),
                         state_code: String(
-                          data.location_state ||
+                          data.state_code ||
+                            data.location_state ||
                             location?.state ||
                             prev.state_code ||
                             ""
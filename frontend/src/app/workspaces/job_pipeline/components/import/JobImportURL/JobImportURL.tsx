@@ -1,35 +1,39 @@
 /**
  * JobImportURL Component
  *
- * AI-powered job posting URL importer.
- * Extracts job details from job posting URLs using backend AI endpoint.
+ * Job posting URL importer.
+ * Extracts job details from job posting URLs via the backend import endpoint,
+ * which reads structured data (JSON-LD, Greenhouse, Lever, Workday, Ashby,
+ * SmartRecruiters) directly and only falls back to AI for other pages.
  *
  * Features:
  * - URL input with validation
- * - AI extraction with loading state
- * - Confidence score display
+ * - Extraction as a server background job with progress and cancel
+ * - Confidence score and extractor display
  * - Extracted data preview
  * - Retry on failure
  * - Auto-fill parent form on success
  *
  * Flow:
  * 1. User pastes job posting URL
- * 2. Click "Import" triggers AI extraction
- * 3. Backend fetches HTML + AI extraction
+ * 2. Click "Import" triggers extraction
+ * 3. Backend fetches HTML + structured parsing (or AI extraction)
  * 4. Display extracted data with confidence badge
  * 5. User reviews and clicks "Apply to Form"
  * 6. Parent form fields pre-filled
  *
- * API: POST /api/generate/job-import
+ * API: POST /api/background-jobs (kind "job_import", the
+ * POST /api/generate/job-import body as input)
  */
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
   Box,
   TextField,
   Button,
   Typography,
   CircularProgress,
+  LinearProgress,
   Alert,
   Chip,
   Paper,
@@ -43,7 +47,10 @@ import {
   Link as LinkIcon,
 } from "@mui/icons-material";
 import { useAuth } from "@shared/context/AuthContext";
-import { toApiUrl } from "@shared/services/apiUrl";
+import {
+  runBackgroundJob,
+  type BackgroundJobProgress,
+} from "@shared/services/backgroundJobs";
 
 /**
  * Extracted job data structure (matches backend API)
@@ -63,6 +70,7 @@ interface ExtractedJobData {
   requirements?: string[] | null;
   qualifications?: string[] | null;
   benefits?: string[] | null;
+  application_deadline?: string | null; // YYYY-MM-DD
 }
 
 /**
@@ -71,7 +79,9 @@ interface ExtractedJobData {
 interface JobImportResponse {
   jobData: ExtractedJobData;
   meta: {
-    source: "ai";
+    source: "ai" | "structured";
+    // "json-ld" | "greenhouse" | "lever" | "workday" | "ashby" | "smartrecruiters" | "ai"
+    extractor?: string;
     confidence: number;
     url: string;
     latency_ms: number;
@@ -90,6 +100,17 @@ type Props = {
   onImport: (data: ImportPayload) => void;
 };
 
+// Display names for meta.extractor
+const EXTRACTOR_LABELS: Record<string, string> = {
+  "json-ld": "Structured data",
+  greenhouse: "Greenhouse",
+  lever: "Lever",
+  workday: "Workday",
+  ashby: "Ashby",
+  smartrecruiters: "SmartRecruiters",
+  ai: "AI",
+};
+
 export default function JobImportURL({ onImport }: Props) {
   const { user } = useAuth();
   const [url, setUrl] = useState("");
@@ -97,6 +118,11 @@ export default function JobImportURL({ onImport }: Props) {
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<JobImportResponse | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const [progress, setProgress] = useState<BackgroundJobProgress | null>(null);
+  const importAbort = useRef<AbortController | null>(null);
+
+  // Cancel a running import when the dialog closes
+  useEffect(() => () => importAbort.current?.abort(), []);
 
   /**
    * Validate URL format
@@ -142,7 +168,7 @@ export default function JobImportURL({ onImport }: Props) {
   };
 
   /**
-   * Call backend AI import endpoint
+   * Queue the import job and wait for it
    */
   const handleImport = async (forceBrowser: boolean = false) => {
     // Validation
@@ -163,45 +189,42 @@ export default function JobImportURL({ onImport }: Props) {
       return;
     }
 
+    importAbort.current?.abort();
+    const controller = new AbortController();
+    importAbort.current = controller;
+
     setLoading(true);
     setError(null);
     setResult(null);
+    setProgress(null);
 
     try {
-      // Call backend AI endpoint
-      const response = await fetch(toApiUrl("/api/generate/job-import"), {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-User-Id": user.id,
-        },
-        body: JSON.stringify({
+      const data = await runBackgroundJob<JobImportResponse>(
+        "job_import",
+        {
           url: url.trim(),
           options: {
             forceStrategy: forceBrowser ? "puppeteer" : undefined,
             maxRetries: 3,
             verbose: false,
           },
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.error || `HTTP ${response.status}: ${response.statusText}`
-        );
-      }
-
-      const data: JobImportResponse = await response.json();
+        },
+        { onProgress: setProgress, signal: controller.signal }
+      );
       setResult(data);
       setRetryCount(0); // Reset retry count on success
     } catch (err: unknown) {
+      if (err instanceof Error && err.name === "AbortError") return;
       const errorMessage =
         err instanceof Error ? err.message : "Failed to import job posting";
       setError(errorMessage);
       setRetryCount((prev) => prev + 1);
     } finally {
-      setLoading(false);
+      if (importAbort.current === controller) {
+        importAbort.current = null;
+        setLoading(false);
+        setProgress(null);
+      }
     }
   };
 
@@ -226,6 +249,7 @@ export default function JobImportURL({ onImport }: Props) {
       job_description: jobData.job_description || "",
       industry: jobData.industry || "",
       job_type: jobData.job_type || "",
+      deadline: jobData.application_deadline || "",
       job_link: result.meta.url || url,
     };
 
@@ -295,13 +319,30 @@ export default function JobImportURL({ onImport }: Props) {
 
       {/* Loading State */}
       {loading && (
-        <Alert severity="info" sx={{ mb: 2 }}>
-          <Stack direction="row" spacing={2} alignItems="center">
-            <CircularProgress size={20} />
-            <Typography variant="body2">
-              Extracting job details with AI... This may take a few seconds.
-            </Typography>
-          </Stack>
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            <Button
+              color="inherit"
+              size="small"
+              onClick={() => importAbort.current?.abort()}
+            >
+              Cancel
+            </Button>
+          }
+        >
+          <Typography variant="body2">
+            {progress?.message ??
+              (progress?.status === "pending"
+                ? "Waiting to start..."
+                : "Starting import...")}
+          </Typography>
+          <LinearProgress
+            variant={progress?.progress ? "determinate" : "indeterminate"}
+            value={progress?.progress ?? 0}
+            sx={{ mt: 1 }}
+          />
         </Alert>
       )}
 
@@ -345,14 +386,30 @@ export default function JobImportURL({ onImport }: Props) {
             <Typography variant="subtitle2" color="text.secondary">
               Extracted Data
             </Typography>
-            <Chip
-              size="small"
-              label={`${result.meta.confidence}% ${
-                getConfidenceDisplay(result.meta.confidence).label
-              }`}
-              color={getConfidenceDisplay(result.meta.confidence).color}
-              icon={getConfidenceDisplay(result.meta.confidence).icon}
-            />
+            <Stack direction="row" spacing={1}>
+              <Chip
+                size="small"
+                variant="outlined"
+                label={
+                  EXTRACTOR_LABELS[
+                    result.meta.extractor ?? result.meta.source
+                  ] ?? result.meta.extractor
+                }
+                title={
+                  result.meta.source === "structured"
+                    ? "Read from the page's structured data (no AI)"
+                    : "Extracted by AI"
+                }
+              />
+              <Chip
+                size="small"
+                label={`${result.meta.confidence}% ${
+                  getConfidenceDisplay(result.meta.confidence).label
+                }`}
+                color={getConfidenceDisplay(result.meta.confidence).color}
+                icon={getConfidenceDisplay(result.meta.confidence).icon}
+              />
+            </Stack>
           </Box>
 
           {/* Extracted Fields */}
@@ -432,6 +489,17 @@ export default function JobImportURL({ onImport }: Props) {
               </Box>
             )}
 
+            {result.jobData.application_deadline && (
+              <Box>
+                <Typography variant="caption" color="text.secondary">
+                  Application Deadline
+                </Typography>
+                <Typography variant="body2">
+                  {result.jobData.application_deadline}
+                </Typography>
+              </Box>
+            )}
+
             {result.jobData.job_description && (
               <Box>
                 <Typography variant="caption" color="text.secondary">
@@ -30,6 +30,7 @@ interface UseJobsPaginationResult {
   error: string | null;
   hasMore: boolean;
   total: number;
+  stageCounts: Record<string, number>;
   loadMore: () => Promise<void>;
   refresh: () => Promise<void>;
   reset: () => void;
@@ -49,6 +50,7 @@ interface UseJobsPaginationResult {
  * - error: Error message if fetch failed
  * - hasMore: Boolean indicating more pages available
  * - total: Total count of jobs matching filters
+ * - stageCounts: Matching jobs per pipeline stage (ignores the stage filter)
  * - loadMore: Function to load next page
  * - refresh: Function to reset and reload from beginning
  * - reset: Function to clear state without fetching
@@ -70,6 +72,7 @@ export function useJobsPagination(
   const [error, setError] = useState<string | null>(null);
   const [offset, setOffset] = useState(0);
   const [total, setTotal] = useState(0);
+  const [stageCounts, setStageCounts] = useState<Record<string, number>>({});
   const [hasMore, setHasMore] = useState(true);
 
   /**
@@ -102,6 +105,7 @@ export function useJobsPagination(
       // Append new jobs to existing list
       setJobs((prev) => [...prev, ...data.jobs]);
       setTotal(data.total);
+      setStageCounts(data.stageCounts ?? {});
       setHasMore(data.hasMore);
       setOffset((prev) => prev + data.jobs.length);
     } catch (err) {
@@ -144,6 +148,7 @@ export function useJobsPagination(
 
       setJobs(data.jobs);
       setTotal(data.total);
+      setStageCounts(data.stageCounts ?? {});
       setHasMore(data.hasMore);
       setOffset(data.jobs.length);
     } catch (err) {
@@ -160,6 +165,7 @@ export function useJobsPagination(
     setJobs([]);
     setOffset(0);
     setTotal(0);
+    setStageCounts({});
     setHasMore(true);
     setError(null);
   }, []);
@@ -179,6 +185,7 @@ export function useJobsPagination(
     error,
     hasMore,
     total,
+    stageCounts,
     loadMore,
     refresh,
     reset,
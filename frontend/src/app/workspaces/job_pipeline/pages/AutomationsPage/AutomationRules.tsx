@@ -0,0 +1,752 @@
+/**
+ * AUTOMATION RULES
+ * Builder and list for server-side automation rules (trigger → conditions →
+ * actions) plus the execution log.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import DeleteIcon from "@mui/icons-material/Delete";
+import AddIcon from "@mui/icons-material/Add";
+import RefreshIcon from "@mui/icons-material/Refresh";
+import { useAuth } from "@shared/context/AuthContext";
+import * as teamService from "@workspaces/team_management/services/teamService";
+import {
+  createRule,
+  deleteRule,
+  listRules,
+  listRuns,
+  setRuleEnabled,
+} from "../../services/automationsService";
+import type {
+  AutomationAction,
+  AutomationActionType,
+  AutomationCondition,
+  AutomationRule,
+  AutomationRun,
+  AutomationRunStatus,
+  AutomationTriggerType,
+  ConditionOperator,
+} from "../../types/automation.types";
+
+const STAGES = [
+  "Interested",
+  "Applied",
+  "Phone Screen",
+  "Interview",
+  "Offer",
+  "Rejected",
+  "Accepted",
+  "Declined",
+];
+
+const TRIGGERS: Record<AutomationTriggerType, string> = {
+  job_stage_changed: "Job moved to a stage",
+  deadline_approaching: "Application deadline approaching",
+  no_response: "No response after N days",
+  interview_scheduled: "Interview scheduled",
+};
+
+const ACTIONS: Record<AutomationActionType, string> = {
+  create_reminder: "Create a reminder",
+  generate_cover_letter: "Generate a cover letter draft",
+  add_prep_checklist: "Add a prep checklist",
+  move_stage: "Move the job to a stage",
+  notify_teammate: "Notify a teammate",
+};
+
+const CONDITION_FIELDS: Array<{ value: string; label: string }> = [
+  { value: "job.company_name", label: "Company" },
+  { value: "job.job_title", label: "Job title" },
+  { value: "job.industry", label: "Industry" },
+  { value: "job.job_type", label: "Job type" },
+  { value: "job.remote_type", label: "Remote type" },
+  { value: "job.match_score", label: "Match score" },
+  { value: "job.start_salary_range", label: "Salary (min)" },
+  { value: "job.is_favorite", label: "Favorite" },
+  { value: "interview.format", label: "Interview format" },
+  { value: "interview.interview_type", label: "Interview type" },
+];
+
+const OPERATORS: Record<ConditionOperator, string> = {
+  equals: "is",
+  not_equals: "is not",
+  contains: "contains",
+  in: "is one of",
+  gt: "greater than",
+  lt: "less than",
+  exists: "is set",
+};
+
+const RUN_COLORS: Record<
+  AutomationRunStatus,
+  "success" | "warning" | "error" | "default" | "info"
+> = {
+  success: "success",
+  partial: "warning",
+  failed: "error",
+  skipped: "default",
+  running: "info",
+};
+
+type Teammate = { id: string; name: string };
+
+/** trigger_config keys across trigger types */
+type TriggerConfig = {
+  to_stage?: string;
+  days_before?: number;
+  stages?: string[];
+  stage?: string;
+  days?: number;
+};
+
+function describeTrigger(rule: AutomationRule): string {
+  const c = rule.trigger_config as TriggerConfig;
+  switch (rule.trigger_type) {
+    case "job_stage_changed":
+      return c.to_stage ? `Job moved to ${c.to_stage}` : "Job changes stage";
+    case "deadline_approaching":
+      return `Deadline within ${c.days_before} days`;
+    case "no_response":
+      return `No response ${c.days} days after ${c.stage}`;
+    case "interview_scheduled":
+      return "Interview scheduled";
+  }
+}
+
+/** Parse a condition value typed by the user ("a, b" for "is one of") */
+function conditionValue(operator: ConditionOperator, raw: string): unknown {
+  if (operator === "in") {
+    return raw
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean);
+  }
+  if (operator === "gt" || operator === "lt") return Number(raw);
+  if (operator === "exists") return raw !== "false";
+  if (raw === "true" || raw === "false") return raw === "true";
+  return raw;
+}
+
+const EMPTY_DRAFT = {
+  name: "",
+  trigger_type: "job_stage_changed" as AutomationTriggerType,
+  trigger_config: { to_stage: "Applied" } as TriggerConfig,
+  conditions: [] as Array<AutomationCondition & { raw: string }>,
+  actions: [
+    { type: "create_reminder", config: { delay_days: 7 } },
+  ] as AutomationAction[],
+};
+
+export default function AutomationRules() {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [teammates, setTeammates] = useState<Teammate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const [rulesResult, runsResult] = await Promise.all([
+      listRules(),
+      listRuns({ limit: 50 }),
+    ]);
+    setError(rulesResult.error?.message ?? runsResult.error?.message ?? null);
+    setRules(rulesResult.data ?? []);
+    setRuns(runsResult.data ?? []);
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    void refresh();
+
+    // Teammates that notify_teammate can target
+    const userId = user.id;
+    (async () => {
+      const teams = await teamService.getUserTeams(userId);
+      const byId = new Map<string, Teammate>();
+      for (const team of teams.data ?? []) {
+        const members = await teamService.getTeamMembers(userId, team.team_id);
+        for (const m of members.data ?? []) {
+          if (m.user_id === userId) continue;
+          byId.set(m.user_id, {
+            id: m.user_id,
+            name: m.profile.full_name || m.profile.email || "Teammate",
+          });
+        }
+      }
+      setTeammates([...byId.values()]);
+    })();
+  }, [user?.id, refresh]);
+
+  const updateDraft = (patch: Partial<typeof EMPTY_DRAFT>) =>
+    setDraft((d) => ({ ...d, ...patch }));
+
+  const changeTrigger = (type: AutomationTriggerType) => {
+    const defaults: Record<AutomationTriggerType, TriggerConfig> = {
+      job_stage_changed: { to_stage: "Applied" },
+      deadline_approaching: { days_before: 3, stages: ["Interested"] },
+      no_response: { stage: "Applied", days: 14 },
+      interview_scheduled: {},
+    };
+    updateDraft({ trigger_type: type, trigger_config: defaults[type] });
+  };
+
+  const setTriggerConfig = (key: string, value: unknown) =>
+    updateDraft({ trigger_config: { ...draft.trigger_config, [key]: value } });
+
+  const setCondition = (
+    index: number,
+    patch: Partial<AutomationCondition & { raw: string }>
+  ) =>
+    updateDraft({
+      conditions: draft.conditions.map((c, i) =>
+        i === index ? { ...c, ...patch } : c
+      ),
+    });
+
+  const setAction = (index: number, patch: Partial<AutomationAction>) =>
+    updateDraft({
+      actions: draft.actions.map((a, i) =>
+        i === index ? { ...a, ...patch } : a
+      ),
+    });
+
+  const setActionConfig = (index: number, key: string, value: unknown) =>
+    setAction(index, {
+      config: { ...draft.actions[index].config, [key]: value },
+    });
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await createRule({
+      name: draft.name,
+      trigger_type: draft.trigger_type,
+      trigger_config: draft.trigger_config,
+      conditions: draft.conditions.map(({ field, operator, raw }) => ({
+        field,
+        operator,
+        value: conditionValue(operator, raw),
+      })),
+      actions: draft.actions,
+    });
+    setSaving(false);
+    if (result.error) {
+      setError(result.error.message);
+      return;
+    }
+    setError(null);
+    setDialogOpen(false);
+    setDraft(EMPTY_DRAFT);
+    setRules((cur) => [result.data!, ...cur]);
+  };
+
+  const handleToggle = async (rule: AutomationRule) => {
+    const result = await setRuleEnabled(rule.id, !rule.enabled);
+    if (result.error) return setError(result.error.message);
+    setRules((cur) => cur.map((r) => (r.id === rule.id ? result.data! : r)));
+  };
+
+  const handleDelete = async (rule: AutomationRule) => {
+    if (!window.confirm(`Delete the automation "${rule.name}"?`)) return;
+    const result = await deleteRule(rule.id);
+    if (result.error) return setError(result.error.message);
+    setRules((cur) => cur.filter((r) => r.id !== rule.id));
+  };
+
+  const triggerConfig = draft.trigger_config;
+
+  return (
+    <Grid container spacing={3}>
+      <Grid size={12}>
+        <Card variant="outlined">
+          <CardContent>
+            <Stack direction="row" justifyContent="space-between" mb={1}>
+              <Box>
+                <Typography variant="h6">Automation Rules</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Rules run on the server: when a trigger fires and the
+                  conditions match, the actions run in order.
+                </Typography>
+              </Box>
+              <Button
+                variant="contained"
+                startIcon={<AddIcon />}
+                onClick={() => setDialogOpen(true)}
+              >
+                New Automation
+              </Button>
+            </Stack>
+
+            {error && (
+              <Alert
+                severity="error"
+                sx={{ mb: 2 }}
+                onClose={() => setError(null)}
+              >
+                {error}
+              </Alert>
+            )}
+
+            {rules.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No automations yet.
+              </Typography>
+            ) : (
+              <List>
+                {rules.map((rule) => (
+                  <ListItem
+                    key={rule.id}
+                    divider
+                    secondaryAction={
+                      <Stack direction="row" alignItems="center">
+                        <Tooltip title={rule.enabled ? "Disable" : "Enable"}>
+                          <Switch
+                            checked={rule.enabled}
+                            onChange={() => handleToggle(rule)}
+                          />
+                        </Tooltip>
+                        <IconButton
+                          edge="end"
+                          aria-label="Delete automation"
+                          onClick={() => handleDelete(rule)}
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      </Stack>
+                    }
+                  >
+                    <ListItemText
+                      primary={rule.name}
+                      secondary={
+                        <>
+                          {describeTrigger(rule)}
+                          {rule.conditions.length > 0 &&
+                            ` · ${rule.conditions.length} condition(s)`}
+                          {" → "}
+                          {rule.actions.map((a) => ACTIONS[a.type]).join(", ")}
+                          {rule.last_run_at &&
+                            ` · last ran ${new Date(rule.last_run_at).toLocaleString()}`}
+                        </>
+                      }
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </CardContent>
+        </Card>
+      </Grid>
+
+      <Grid size={12}>
+        <Card variant="outlined">
+          <CardContent>
+            <Stack direction="row" justifyContent="space-between" mb={1}>
+              <Typography variant="h6">Automation Log</Typography>
+              <IconButton aria-label="Refresh log" onClick={() => refresh()}>
+                <RefreshIcon />
+              </IconButton>
+            </Stack>
+            {runs.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                Nothing has run yet.
+              </Typography>
+            ) : (
+              <List dense>
+                {runs.map((run) => (
+                  <ListItem key={run.id} divider alignItems="flex-start">
+                    <ListItemText
+                      primary={
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Chip
+                            size="small"
+                            label={run.status}
+                            color={RUN_COLORS[run.status]}
+                          />
+                          <span>{run.rule_name}</span>
+                          <Typography variant="caption" color="text.secondary">
+                            {new Date(run.started_at).toLocaleString()}
+                          </Typography>
+                        </Stack>
+                      }
+                      secondary={
+                        <>
+                          {run.error && <span>{run.error}. </span>}
+                          {run.results.map((r, i) => (
+                            <span key={i}>
+                              {ACTIONS[r.type]}: {r.error ?? "done"}
+                              {Array.isArray(r.output?.items) &&
+                                ` (${(r.output.items as string[]).length} checklist items)`}
+                              {i < run.results.length - 1 ? " · " : ""}
+                            </span>
+                          ))}
+                        </>
+                      }
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </CardContent>
+        </Card>
+      </Grid>
+
+      <Dialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        maxWidth="md"
+        fullWidth
+      >
+        <DialogTitle>New Automation</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="Name"
+            fullWidth
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            sx={{ mt: 1, mb: 2 }}
+          />
+
+          {/* Trigger */}
+          <Typography variant="subtitle2" gutterBottom>
+            When
+          </Typography>
+          <Grid container spacing={2} sx={{ mb: 2 }}>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <FormControl fullWidth>
+                <InputLabel>Trigger</InputLabel>
+                <Select
+                  label="Trigger"
+                  value={draft.trigger_type}
+                  onChange={(e) =>
+                    changeTrigger(e.target.value as AutomationTriggerType)
+                  }
+                >
+                  {Object.entries(TRIGGERS).map(([value, label]) => (
+                    <MenuItem key={value} value={value}>
+                      {label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            {draft.trigger_type === "job_stage_changed" && (
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <FormControl fullWidth>
+                  <InputLabel>Moved to</InputLabel>
+                  <Select
+                    label="Moved to"
+                    value={triggerConfig.to_stage ?? ""}
+                    onChange={(e) =>
+                      setTriggerConfig("to_stage", e.target.value || undefined)
+                    }
+                  >
+                    <MenuItem value="">Any stage</MenuItem>
+                    {STAGES.map((s) => (
+                      <MenuItem key={s} value={s}>
+                        {s}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            )}
+            {draft.trigger_type === "deadline_approaching" && (
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  type="number"
+                  label="Days before the deadline"
+                  fullWidth
+                  value={triggerConfig.days_before}
+                  onChange={(e) =>
+                    setTriggerConfig("days_before", Number(e.target.value))
+                  }
+                />
+              </Grid>
+            )}
+            {draft.trigger_type === "no_response" && (
+              <>
+                <Grid size={{ xs: 6, sm: 3 }}>
+                  <FormControl fullWidth>
+                    <InputLabel>Still in</InputLabel>
+                    <Select
+                      label="Still in"
+                      value={triggerConfig.stage}
+                      onChange={(e) =>
+                        setTriggerConfig("stage", e.target.value)
+                      }
+                    >
+                      {STAGES.map((s) => (
+                        <MenuItem key={s} value={s}>
+                          {s}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid size={{ xs: 6, sm: 3 }}>
+                  <TextField
+                    type="number"
+                    label="Days"
+                    fullWidth
+                    value={triggerConfig.days}
+                    onChange={(e) =>
+                      setTriggerConfig("days", Number(e.target.value))
+                    }
+                  />
+                </Grid>
+              </>
+            )}
+          </Grid>
+
+          {/* Conditions */}
+          <Typography variant="subtitle2" gutterBottom>
+            Only if (all must match)
+          </Typography>
+          {draft.conditions.map((condition, i) => (
+            <Grid container spacing={1} key={i} sx={{ mb: 1 }}>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <Select
+                  fullWidth
+                  size="small"
+                  value={condition.field}
+                  onChange={(e) => setCondition(i, { field: e.target.value })}
+                >
+                  {CONDITION_FIELDS.map((f) => (
+                    <MenuItem key={f.value} value={f.value}>
+                      {f.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </Grid>
+              <Grid size={{ xs: 5, sm: 3 }}>
+                <Select
+                  fullWidth
+                  size="small"
+                  value={condition.operator}
+                  onChange={(e) =>
+                    setCondition(i, {
+                      operator: e.target.value as ConditionOperator,
+                    })
+                  }
+                >
+                  {Object.entries(OPERATORS).map(([value, label]) => (
+                    <MenuItem key={value} value={value}>
+                      {label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </Grid>
+              <Grid size={{ xs: 5, sm: 4 }}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  placeholder={
+                    condition.operator === "in" ? "a, b, c" : "Value"
+                  }
+                  disabled={condition.operator === "exists"}
+                  value={condition.raw}
+                  onChange={(e) => setCondition(i, { raw: e.target.value })}
+                />
+              </Grid>
+              <Grid size={{ xs: 2, sm: 1 }}>
+                <IconButton
+                  aria-label="Remove condition"
+                  onClick={() =>
+                    updateDraft({
+                      conditions: draft.conditions.filter((_, j) => j !== i),
+                    })
+                  }
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Grid>
+            </Grid>
+          ))}
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() =>
+              updateDraft({
+                conditions: [
+                  ...draft.conditions,
+                  { field: "job.company_name", operator: "equals", raw: "" },
+                ],
+              })
+            }
+            sx={{ mb: 2 }}
+          >
+            Add condition
+          </Button>
+
+          <Divider sx={{ mb: 2 }} />
+
+          {/* Actions */}
+          <Typography variant="subtitle2" gutterBottom>
+            Then
+          </Typography>
+          {draft.actions.map((action, i) => (
+            <Grid container spacing={1} key={i} sx={{ mb: 1 }}>
+              <Grid size={{ xs: 12, sm: 5 }}>
+                <Select
+                  fullWidth
+                  size="small"
+                  value={action.type}
+                  onChange={(e) =>
+                    setAction(i, {
+                      type: e.target.value as AutomationActionType,
+                      config: {},
+                    })
+                  }
+                >
+                  {Object.entries(ACTIONS).map(([value, label]) => (
+                    <MenuItem key={value} value={value}>
+                      {label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </Grid>
+              <Grid size={{ xs: 10, sm: 6 }}>
+                {action.type === "create_reminder" && (
+                  <Stack direction="row" spacing={1}>
+                    <TextField
+                      size="small"
+                      type="number"
+                      label="After (days)"
+                      value={action.config.delay_days ?? 0}
+                      onChange={(e) =>
+                        setActionConfig(i, "delay_days", Number(e.target.value))
+                      }
+                      sx={{ width: 120 }}
+                    />
+                    <TextField
+                      size="small"
+                      fullWidth
+                      label="Title (optional)"
+                      value={action.config.title ?? ""}
+                      onChange={(e) =>
+                        setActionConfig(i, "title", e.target.value)
+                      }
+                    />
+                  </Stack>
+                )}
+                {action.type === "move_stage" && (
+                  <Select
+                    fullWidth
+                    size="small"
+                    displayEmpty
+                    value={(action.config.stage as string) ?? ""}
+                    onChange={(e) =>
+                      setActionConfig(i, "stage", e.target.value)
+                    }
+                  >
+                    <MenuItem value="" disabled>
+                      Stage
+                    </MenuItem>
+                    {STAGES.map((s) => (
+                      <MenuItem key={s} value={s}>
+                        {s}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                )}
+                {action.type === "notify_teammate" && (
+                  <Stack direction="row" spacing={1}>
+                    <Select
+                      size="small"
+                      displayEmpty
+                      value={(action.config.teammate_id as string) ?? ""}
+                      onChange={(e) =>
+                        setActionConfig(i, "teammate_id", e.target.value)
+                      }
+                      sx={{ minWidth: 160 }}
+                    >
+                      <MenuItem value="" disabled>
+                        {teammates.length ? "Teammate" : "No teammates"}
+                      </MenuItem>
+                      {teammates.map((t) => (
+                        <MenuItem key={t.id} value={t.id}>
+                          {t.name}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                    <TextField
+                      size="small"
+                      fullWidth
+                      label="Message (optional)"
+                      value={action.config.message ?? ""}
+                      onChange={(e) =>
+                        setActionConfig(i, "message", e.target.value)
+                      }
+                    />
+                  </Stack>
+                )}
+              </Grid>
+              <Grid size={{ xs: 2, sm: 1 }}>
+                <IconButton
+                  aria-label="Remove action"
+                  disabled={draft.actions.length === 1}
+                  onClick={() =>
+                    updateDraft({
+                      actions: draft.actions.filter((_, j) => j !== i),
+                    })
+                  }
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Grid>
+            </Grid>
+          ))}
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() =>
+              updateDraft({
+                actions: [
+                  ...draft.actions,
+                  { type: "add_prep_checklist", config: {} },
+                ],
+              })
+            }
+          >
+            Add action
+          </Button>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" disabled={saving} onClick={handleSave}>
+            Save Automation
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Grid>
+  );
+}
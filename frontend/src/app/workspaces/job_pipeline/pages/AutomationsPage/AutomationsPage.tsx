@@ -6,12 +6,8 @@ import {
   Card,
   CardContent,
   Grid,
-  TextField,
   Snackbar,
   Alert,
-  List,
-  ListItem,
-  ListItemText,
   Dialog,
   DialogTitle,
   DialogContent,
@@ -23,8 +19,8 @@ import {
 } from "@mui/material";
 import RegionAnchor from "@shared/components/common/RegionAnchor";
 import InterviewScheduling from "./InterviewScheduling";
+import AutomationRules from "./AutomationRules";
 import { useAuth } from "@shared/context/AuthContext";
-import { supabase } from "@shared/services/supabaseClient";
 import JSZip from "jszip";
 import { getAppQueryClient } from "@shared/cache";
 import { coreKeys } from "@shared/cache/coreQueryKeys";
@@ -48,16 +44,6 @@ export default function AutomationsPage() {
 
   const [openDialog, setOpenDialog] = useState(false);
 
-  const [schedule, setSchedule] = useState("");
-  const [jobName, setJobName] = useState("");
-  const [scheduledApplications, setScheduledApplications] = useState<
-    { id: string; datetime: string; jobTitle?: string }[]
-  >([]);
-
-  function uid(prefix = "a") {
-    return `${prefix}-${Math.random().toString(36).slice(2, 9)}`;
-  }
-
   // Load resumes and cover letters on mount
   useEffect(() => {
     if (!user?.id) return;
@@ -177,31 +163,6 @@ export default function AutomationsPage() {
     }
   };
 
-  const handleScheduleSubmission = () => {
-    if (!schedule) {
-      setSnackbar({
-        open: true,
-        message: "Please enter a submission date/time.",
-        severity: "info",
-      });
-      return;
-    }
-
-    setScheduledApplications((cur) => [
-      ...cur,
-      { id: uid(), datetime: schedule, jobTitle: jobName },
-    ]);
-
-    setSnackbar({
-      open: true,
-      message: `Application for "${jobName}" scheduled for ${schedule}.`,
-      severity: "success",
-    });
-
-    setSchedule("");
-    setJobName("");
-  };
-
   return (
     <Box sx={{ p: 4 }}>
       <RegionAnchor
@@ -234,57 +195,11 @@ export default function AutomationsPage() {
           </Card>
         </Grid>
 
-        {/* Schedule Application Submissions */}
+        {/* Automation rules and execution log */}
         <Grid size={12}>
-          <Card variant="outlined">
-            <CardContent>
-              <Typography variant="h6">
-                Schedule Application Submissions
-              </Typography>
-              <TextField
-                label="Job Name"
-                fullWidth
-                value={jobName}
-                onChange={(e) => setJobName(e.target.value)}
-                sx={{ mb: 2 }}
-              />
-              <TextField
-                type="datetime-local"
-                fullWidth
-                value={schedule}
-                onChange={(e) => setSchedule(e.target.value)}
-                sx={{ mb: 2 }}
-              />
-              <Button variant="contained" onClick={handleScheduleSubmission}>
-                Schedule Submission
-              </Button>
-            </CardContent>
-          </Card>
+          <AutomationRules />
         </Grid>
 
-        {/* Scheduled Submissions */}
-        <Card variant="outlined" sx={{ mt: 2 }}>
-          <CardContent>
-            <Typography variant="h6">Scheduled Submissions</Typography>
-            {scheduledApplications.length === 0 ? (
-              <Typography variant="body2" color="text.secondary">
-                No scheduled submissions yet.
-              </Typography>
-            ) : (
-              <List>
-                {scheduledApplications.map((app) => (
-                  <ListItem key={app.id}>
-                    <ListItemText
-                      primary={app.jobTitle || "Job Application"}
-                      secondary={new Date(app.datetime).toLocaleString()}
-                    />
-                  </ListItem>
-                ))}
-              </List>
-            )}
-          </CardContent>
-        </Card>
-
         <Grid size={12}>
           <InterviewScheduling />
         </Grid>
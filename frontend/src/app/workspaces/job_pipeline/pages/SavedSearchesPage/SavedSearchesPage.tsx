@@ -1,4 +1,5 @@
-import { Box, Typography, Paper } from "@mui/material";
+import { Box, Typography, Paper, Chip } from "@mui/material";
+import { useSearchParams } from "react-router-dom";
 import JobSearchFilters, {
   type JobFilters,
 } from "../../components/search/JobSearchFilters/JobSearchFilters";
@@ -12,6 +13,12 @@ import { useCoreJobs } from "@shared/cache/coreHooks";
 import { getAppQueryClient } from "@shared/cache";
 import { coreKeys } from "@shared/cache/coreQueryKeys";
 import { fetchCoreJobs } from "@shared/cache/coreFetchers";
+import SavedSearchesPanel from "./SavedSearchesPanel";
+import {
+  filtersFromCriteria,
+  listMatches,
+} from "../../services/savedSearchesService";
+import type { SavedSearch } from "../../types/savedSearch.types";
 
 export default function SavedSearchesPage() {
   const { user } = useAuth();
@@ -24,6 +31,12 @@ export default function SavedSearchesPage() {
   const [selectedJobId, setSelectedJobId] = useState<string | number | null>(
     null
   );
+  const [searchParams] = useSearchParams();
+  const [filters, setFilters] = useState<JobFilters>({});
+  // Remounts the filter form when a saved search fills it in
+  const [filtersKey, setFiltersKey] = useState(0);
+  const [activeSearch, setActiveSearch] = useState<SavedSearch | null>(null);
+  const [newJobIds, setNewJobIds] = useState<Set<number>>(new Set());
 
   // Load all non-archived jobs once when the page mounts so searches operate on local data
   useEffect(() => {
@@ -49,6 +62,9 @@ export default function SavedSearchesPage() {
 
   async function handleApply(filters: JobFilters) {
     if (!user) return handleError("Not signed in");
+    setFilters(filters);
+    setActiveSearch(null);
+    setNewJobIds(new Set());
     try {
       // Prefer filtering from the cached allJobs; fallback to fetching if not loaded yet
       let rows = allJobs;
@@ -101,6 +117,11 @@ export default function SavedSearchesPage() {
           ).toLowerCase();
           if (!combined.includes(loc)) return false;
         }
+        // Same salary floor as saved searches: top of the posted range
+        if (typeof filters.salaryMin === "number") {
+          const top = r.end_salary_range ?? r.start_salary_range;
+          if (top == null || Number(top) < filters.salaryMin) return false;
+        }
         return true;
       });
       setPreviewCount(matched.length);
@@ -110,6 +131,24 @@ export default function SavedSearchesPage() {
     }
   }
 
+  // Show a saved search's server-side matches, newest first
+  async function handleSelectSearch(search: SavedSearch | null) {
+    setActiveSearch(search);
+    if (!search) {
+      setNewJobIds(new Set());
+      return handleApply(filters);
+    }
+    const next = filtersFromCriteria(search.criteria);
+    setFilters(next);
+    setFiltersKey((k) => k + 1);
+    const result = await listMatches(search.id);
+    if (result.error) return handleError(result.error.message);
+    const matches = result.data ?? [];
+    setMatchedJobs(matches.map((m) => m.job));
+    setPreviewCount(matches.length);
+    setNewJobIds(new Set(matches.filter((m) => m.is_new).map((m) => m.job.id)));
+  }
+
   return (
     <Box>
       <Typography variant="h4" sx={{ mb: 1 }}>
@@ -117,14 +156,29 @@ export default function SavedSearchesPage() {
       </Typography>
 
       <Paper sx={{ p: 2, mb: 2 }}>
-        <JobSearchFilters onApply={handleApply} />
+        <JobSearchFilters
+          key={filtersKey}
+          initial={filters}
+          onApply={handleApply}
+        />
         <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
           {previewCount === null
             ? "Enter filters and click Apply to preview matches."
-            : `${previewCount} jobs match these criteria`}
+            : activeSearch
+              ? `${previewCount} jobs match "${activeSearch.name}"`
+              : `${previewCount} jobs match these criteria`}
         </Typography>
       </Paper>
 
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <SavedSearchesPanel
+          currentFilters={filters}
+          selectedId={activeSearch?.id ?? null}
+          onSelect={handleSelectSearch}
+          autoSelectId={searchParams.get("search")}
+        />
+      </Paper>
+
       <Box sx={{ mb: 2 }}>
         {matchedJobs === null ? (
           <Typography color="text.secondary">
@@ -136,14 +190,23 @@ export default function SavedSearchesPage() {
           </Typography>
         ) : (
           matchedJobs.map((j) => (
-            <JobCard
-              key={String((j as any).id)}
-              job={j}
-              onOpen={(id) => {
-                setSelectedJobId(id);
-                setOpen(true);
-              }}
-            />
+            <Box key={String(j.id)} sx={{ position: "relative" }}>
+              {newJobIds.has(j.id) && (
+                <Chip
+                  size="small"
+                  color="primary"
+                  label="New"
+                  sx={{ position: "absolute", top: 8, right: 8, zIndex: 1 }}
+                />
+              )}
+              <JobCard
+                job={j}
+                onOpen={(id) => {
+                  setSelectedJobId(id);
+                  setOpen(true);
+                }}
+              />
+            </Box>
           ))
         )}
       </Box>
@@ -0,0 +1,310 @@
+/**
+ * SAVED SEARCHES PANEL
+ * Named searches stored on the server with their match and "new since last
+ * viewed" counts, digest settings, and a dialog to save the current filters.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import DeleteIcon from "@mui/icons-material/Delete";
+import SaveIcon from "@mui/icons-material/Save";
+import type { JobFilters } from "../../components/search/JobSearchFilters/JobSearchFilters";
+import {
+  createSearch,
+  criteriaFromFilters,
+  deleteSearch,
+  listSearches,
+  markViewed,
+  updateSearch,
+} from "../../services/savedSearchesService";
+import type {
+  SavedSearch,
+  SavedSearchCriteria,
+  SavedSearchDigestFrequency,
+} from "../../types/savedSearch.types";
+
+const DIGESTS: Record<SavedSearchDigestFrequency, string> = {
+  off: "No digest",
+  daily: "Daily digest",
+  weekly: "Weekly digest",
+};
+
+function describeCriteria(criteria: SavedSearchCriteria): string {
+  const parts = [
+    criteria.query && `"${criteria.query}"`,
+    criteria.industry,
+    criteria.location,
+    criteria.remote_type,
+    criteria.salary_min != null && `$${criteria.salary_min.toLocaleString()}+`,
+    criteria.min_match_score != null && `match ≥ ${criteria.min_match_score}%`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "All active jobs";
+}
+
+type Props = {
+  /** Filters currently applied on the page (saved by "Save search") */
+  currentFilters: JobFilters;
+  selectedId: string | null;
+  onSelect: (search: SavedSearch | null) => void;
+  /** Select this search once loaded (e.g. from a digest link) */
+  autoSelectId?: string | null;
+};
+
+export default function SavedSearchesPanel({
+  currentFilters,
+  selectedId,
+  onSelect,
+  autoSelectId,
+}: Props) {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [minMatchScore, setMinMatchScore] = useState<number | "">("");
+  const [digest, setDigest] = useState<SavedSearchDigestFrequency>("off");
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    const result = await listSearches();
+    if (result.error) return setError(result.error.message);
+    setSearches(result.data ?? []);
+    setError(null);
+    return result.data ?? [];
+  }, []);
+
+  useEffect(() => {
+    void load().then((loaded) => {
+      const match = loaded?.find((s) => s.id === autoSelectId);
+      if (match) select(match);
+    });
+    // Only on mount: later selections come from clicks
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [load]);
+
+  function select(search: SavedSearch) {
+    if (search.id === selectedId) return onSelect(null);
+    onSelect(search);
+    if (search.new_count) {
+      setSearches((prev) =>
+        prev.map((s) => (s.id === search.id ? { ...s, new_count: 0 } : s))
+      );
+    }
+    void markViewed(search.id);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    const result = await createSearch({
+      name,
+      criteria: criteriaFromFilters(currentFilters, minMatchScore),
+      digest_frequency: digest,
+    });
+    setSaving(false);
+    if (result.error) return setError(result.error.message);
+    setDialogOpen(false);
+    setName("");
+    setMinMatchScore("");
+    setDigest("off");
+    setError(null);
+    if (result.data) setSearches((prev) => [result.data!, ...prev]);
+  }
+
+  async function handleDigestChange(
+    search: SavedSearch,
+    frequency: SavedSearchDigestFrequency
+  ) {
+    const result = await updateSearch(search.id, {
+      digest_frequency: frequency,
+    });
+    if (result.error) return setError(result.error.message);
+    setSearches((prev) =>
+      prev.map((s) =>
+        s.id === search.id ? { ...s, digest_frequency: frequency } : s
+      )
+    );
+  }
+
+  async function handleDelete(search: SavedSearch) {
+    const result = await deleteSearch(search.id);
+    if (result.error) return setError(result.error.message);
+    setSearches((prev) => prev.filter((s) => s.id !== search.id));
+    if (search.id === selectedId) onSelect(null);
+  }
+
+  return (
+    <Box>
+      <Stack
+        direction="row"
+        alignItems="center"
+        justifyContent="space-between"
+        sx={{ mb: 1 }}
+      >
+        <Typography variant="h6">Saved searches</Typography>
+        <Button
+          size="small"
+          startIcon={<SaveIcon />}
+          onClick={() => setDialogOpen(true)}
+        >
+          Save current search
+        </Button>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {searches.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Save a search to have new and imported jobs matched automatically.
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {searches.map((search) => (
+            <ListItemButton
+              key={search.id}
+              selected={search.id === selectedId}
+              onClick={() => select(search)}
+              sx={{ borderRadius: 1, gap: 1 }}
+            >
+              <ListItemText
+                primary={
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <span>{search.name}</span>
+                    {!!search.new_count && (
+                      <Chip
+                        size="small"
+                        color="primary"
+                        label={`${search.new_count} new`}
+                      />
+                    )}
+                  </Stack>
+                }
+                secondary={`${describeCriteria(search.criteria)} · ${
+                  search.match_count ?? 0
+                } matching`}
+              />
+              {/* Menu clicks bubble through the portal; keep them off the row */}
+              <Stack
+                direction="row"
+                spacing={1}
+                alignItems="center"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <TextField
+                  select
+                  size="small"
+                  value={search.digest_frequency}
+                  onChange={(e) =>
+                    handleDigestChange(
+                      search,
+                      e.target.value as SavedSearchDigestFrequency
+                    )
+                  }
+                  sx={{ minWidth: 140 }}
+                >
+                  {Object.entries(DIGESTS).map(([value, label]) => (
+                    <MenuItem key={value} value={value}>
+                      {label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <Tooltip title="Delete saved search">
+                  <IconButton
+                    size="small"
+                    onClick={() => void handleDelete(search)}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Stack>
+            </ListItemButton>
+          ))}
+        </List>
+      )}
+
+      <Dialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        fullWidth
+        maxWidth="xs"
+      >
+        <DialogTitle>Save search</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              {describeCriteria(
+                criteriaFromFilters(currentFilters, minMatchScore)
+              )}
+            </Typography>
+            <TextField
+              label="Name"
+              size="small"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+            />
+            <TextField
+              label="Minimum match score"
+              size="small"
+              type="number"
+              value={minMatchScore}
+              onChange={(e) =>
+                setMinMatchScore(
+                  e.target.value === ""
+                    ? ""
+                    : Math.min(100, Math.max(0, Number(e.target.value)))
+                )
+              }
+              helperText="Jobs are checked again once they have been scored"
+            />
+            <TextField
+              select
+              label="Notifications"
+              size="small"
+              value={digest}
+              onChange={(e) =>
+                setDigest(e.target.value as SavedSearchDigestFrequency)
+              }
+            >
+              {Object.entries(DIGESTS).map(([value, label]) => (
+                <MenuItem key={value} value={value}>
+                  {label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
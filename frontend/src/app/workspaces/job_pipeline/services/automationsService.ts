@@ -0,0 +1,115 @@
+/**
+ * AUTOMATIONS SERVICE
+ *
+ * Pipeline automation rules (trigger → conditions → actions) stored and run
+ * by the server, plus the execution log.
+ *
+ * Features:
+ * - List, create, update (enable/disable), delete rules (/api/automations)
+ * - Execution log with per-action results (/api/automations/runs)
+ *
+ * Rules run on the server, so they fire even when the app is closed.
+ *
+ * USAGE:
+ * ```ts
+ * import { listRules, createRule } from "@job_pipeline/services/automationsService";
+ * await createRule({
+ *   name: "Follow up after applying",
+ *   trigger_type: "no_response",
+ *   trigger_config: { stage: "Applied", days: 10 },
+ *   actions: [{ type: "create_reminder", config: {} }],
+ * });
+ * ```
+ */
+
+import aiClient from "@shared/services/ai/client";
+import type { Result } from "@shared/services/types";
+import type {
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationRun,
+} from "../types/automation.types";
+
+function fail<T>(err: unknown, fallback: string): Result<T> {
+  const message = err instanceof Error ? err.message : fallback;
+  return { data: null, error: { message, status: null }, status: null };
+}
+
+export async function listRules(): Promise<Result<AutomationRule[]>> {
+  try {
+    const { rules } = await aiClient.getJson<{ rules: AutomationRule[] }>(
+      "/api/automations"
+    );
+    return { data: rules, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to load automations");
+  }
+}
+
+export async function createRule(
+  input: AutomationRuleInput
+): Promise<Result<AutomationRule>> {
+  if (!input.name.trim()) {
+    return fail(new Error("Give the automation a name"), "");
+  }
+  if (input.actions.length === 0) {
+    return fail(new Error("Add at least one action"), "");
+  }
+  try {
+    const { rule } = await aiClient.postJson<{ rule: AutomationRule }>(
+      "/api/automations",
+      input
+    );
+    return { data: rule, error: null, status: 201 };
+  } catch (err) {
+    return fail(err, "Failed to create automation");
+  }
+}
+
+export async function updateRule(
+  ruleId: string,
+  patch: Partial<AutomationRuleInput>
+): Promise<Result<AutomationRule>> {
+  try {
+    const { rule } = await aiClient.patchJson<{ rule: AutomationRule }>(
+      `/api/automations/${ruleId}`,
+      patch
+    );
+    return { data: rule, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to update automation");
+  }
+}
+
+export function setRuleEnabled(
+  ruleId: string,
+  enabled: boolean
+): Promise<Result<AutomationRule>> {
+  return updateRule(ruleId, { enabled });
+}
+
+/** Delete a rule; its past runs stay in the log */
+export async function deleteRule(ruleId: string): Promise<Result<null>> {
+  try {
+    await aiClient.deleteJson(`/api/automations/${ruleId}`);
+    return { data: null, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to delete automation");
+  }
+}
+
+/** Execution log, newest first (optionally for one rule) */
+export async function listRuns(
+  options: { ruleId?: string; limit?: number } = {}
+): Promise<Result<AutomationRun[]>> {
+  const params = new URLSearchParams({ limit: String(options.limit ?? 50) });
+  if (options.ruleId) params.set("ruleId", options.ruleId);
+  try {
+    const { runs } = await aiClient.getJson<{ runs: AutomationRun[] }>(
+      `/api/automations/runs?${params}`
+    );
+    return { data: runs, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to load the automation log");
+  }
+}
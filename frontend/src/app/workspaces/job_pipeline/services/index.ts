@@ -5,6 +5,9 @@
  * - jobsService: Core CRUD operations for jobs table
  * - pipelineService: Pipeline stage transitions and grouping
  * - analyticsCache: AI analytics caching layer (match scores, research, etc.)
+ * - jobOffersService: Offer records per job + compensation projections
+ * - automationsService: Server-side automation rules + execution log
+ * - savedSearchesService: Saved searches with new-match counts
  *
  * All services use:
  * - @shared/services/crud for database operations (RLS-enforced)
@@ -17,6 +20,9 @@
 // =====================================================================
 export { default as jobsService } from "./jobsService.js";
 export { default as pipelineService } from "./pipelineService.js";
+export * as jobOffersService from "./jobOffersService.js";
+export * as automationsService from "./automationsService.js";
+export * as savedSearchesService from "./savedSearchesService.js";
 
 // =====================================================================
 // ANALYTICS & CACHING
@@ -0,0 +1,334 @@
+/**
+ * JOB OFFERS SERVICE
+ *
+ * Offer records stored against the job (job_offers table, RLS: owner only)
+ * plus the server-side compensation model.
+ *
+ * Features:
+ * - One offer per job: create/update (upsert on job_id), archive, delete
+ * - Projections: 1/2/4-year gross, net and cost-of-living adjusted totals
+ *   and break-even points (POST /api/offers/projection)
+ * - Supported tax regions and COL locations (GET /api/offers/regions)
+ * - One-time import of the old localStorage offers (offers:compare), matched
+ *   to the user's jobs by company and title
+ *
+ * USAGE:
+ * ```ts
+ * import { listOffers, getOfferProjection } from "@job_pipeline/services/jobOffersService";
+ * const { data: offers } = await listOffers(user.id);
+ * const comparison = await getOfferProjection(offers ?? [], 4);
+ * ```
+ */
+
+import { supabase } from "@shared/services/supabaseClient";
+import aiClient from "@shared/services/ai/client";
+import type { Result } from "@shared/services/types";
+import type {
+  CompensationRegions,
+  JobOfferInput,
+  JobOfferRow,
+  JobOfferWithJob,
+  OfferComparison,
+} from "../types/offer.types";
+
+const OFFER_SELECT = "*, job:jobs(job_title, company_name)";
+
+/** localStorage keys used before offers were stored in the database */
+const LEGACY_OFFERS_KEY = "offers:compare";
+
+function fail<T>(message: string): Result<T> {
+  return { data: null, error: { message, status: null }, status: null };
+}
+
+/** Display label for an offer ("Title — Company") */
+export function offerLabel(offer: JobOfferWithJob): string {
+  const title = offer.job?.job_title || "Untitled role";
+  return offer.job?.company_name
+    ? `${title} — ${offer.job.company_name}`
+    : title;
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+/**
+ * List offers with their job (most recently updated first)
+ * Archived and declined offers are only included with includeArchived.
+ */
+export async function listOffers(
+  userId: string,
+  options?: { includeArchived?: boolean }
+): Promise<Result<JobOfferWithJob[]>> {
+  let query = supabase
+    .from("job_offers")
+    .select(OFFER_SELECT)
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (!options?.includeArchived) {
+    query = query.in("status", ["active", "accepted"]);
+  }
+
+  const { data, error } = await query;
+  if (error) return fail(error.message);
+  return {
+    data: (data ?? []) as unknown as JobOfferWithJob[],
+    error: null,
+    status: 200,
+  };
+}
+
+/**
+ * Create or update the offer for a job
+ * The first base salary saved is kept as initial_base_salary so negotiated
+ * raises show up in /api/analytics/salary.
+ */
+export async function saveOffer(
+  userId: string,
+  jobId: number,
+  input: JobOfferInput
+): Promise<Result<JobOfferWithJob>> {
+  if (input.base_salary != null && input.base_salary < 0) {
+    return fail("Base salary cannot be negative");
+  }
+
+  const { data, error } = await supabase
+    .from("job_offers")
+    .upsert(
+      { ...input, user_id: userId, job_id: jobId },
+      { onConflict: "job_id" }
+    )
+    .select(OFFER_SELECT)
+    .single();
+  if (error) return fail(error.message);
+
+  const offer = data as unknown as JobOfferWithJob;
+  if (offer.initial_base_salary == null && offer.base_salary > 0) {
+    return updateOffer(userId, offer.id, {
+      initial_base_salary: offer.base_salary,
+    });
+  }
+  return { data: offer, error: null, status: 200 };
+}
+
+/** Update fields of an existing offer */
+export async function updateOffer(
+  userId: string,
+  offerId: string,
+  patch: JobOfferInput
+): Promise<Result<JobOfferWithJob>> {
+  const { data, error } = await supabase
+    .from("job_offers")
+    .update(patch)
+    .eq("user_id", userId)
+    .eq("id", offerId)
+    .select(OFFER_SELECT)
+    .single();
+  if (error) return fail(error.message);
+  return { data: data as unknown as JobOfferWithJob, error: null, status: 200 };
+}
+
+/** Archive an offer (kept for history and salary analytics) */
+export function archiveOffer(
+  userId: string,
+  offerId: string,
+  reason?: string
+): Promise<Result<JobOfferWithJob>> {
+  return updateOffer(userId, offerId, {
+    status: "archived",
+    archive_reason: reason ?? null,
+  });
+}
+
+export async function deleteOffer(
+  userId: string,
+  offerId: string
+): Promise<Result<null>> {
+  const { error } = await supabase
+    .from("job_offers")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", offerId);
+  if (error) return fail(error.message);
+  return { data: null, error: null, status: 200 };
+}
+
+// ============================================================================
+// COMPENSATION MODEL (server)
+// ============================================================================
+
+/** Row as sent to the model (columns + display label, without the join) */
+function toModelInput(offer: JobOfferWithJob | JobOfferRow) {
+  return {
+    ...offer,
+    job: undefined,
+    label: "job" in offer ? offerLabel(offer) : null,
+  };
+}
+
+/**
+ * Project offers over `horizonYears` (1-10, default 4)
+ * Unsaved edits can be passed as-is; nothing is stored.
+ */
+export async function getOfferProjection(
+  offers: Array<JobOfferWithJob | JobOfferRow>,
+  horizonYears = 4
+): Promise<Result<OfferComparison>> {
+  if (offers.length === 0) {
+    return {
+      data: { horizonYears, offers: [], breakEven: [] },
+      error: null,
+      status: 200,
+    };
+  }
+  try {
+    const data = await aiClient.postJson<OfferComparison>(
+      "/api/offers/projection",
+      { offers: offers.map(toModelInput), horizonYears }
+    );
+    return { data, error: null, status: 200 };
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : "Projection failed");
+  }
+}
+
+let regionsCache: Promise<CompensationRegions> | null = null;
+
+/** Supported tax countries/states and COL locations (cached per session) */
+export async function getCompensationRegions(): Promise<
+  Result<CompensationRegions>
+> {
+  regionsCache ??= aiClient.getJson<CompensationRegions>("/api/offers/regions");
+  try {
+    return { data: await regionsCache, error: null, status: 200 };
+  } catch (err) {
+    regionsCache = null;
+    return fail(err instanceof Error ? err.message : "Failed to load regions");
+  }
+}
+
+// ============================================================================
+// LOCAL IMPORT
+// ============================================================================
+
+/** Offer shape stored in localStorage by the old comparison dialog */
+interface LegacyOffer {
+  title?: string;
+  company?: string;
+  salary?: number;
+  bonus?: number;
+  equityValue?: number;
+  benefitsValue?: number;
+  location?: string;
+  colIndex?: number;
+  remote?: string;
+  culture?: number;
+  growth?: number;
+  worklife?: number;
+  archived?: boolean;
+  archiveReason?: string;
+}
+
+type JobRef = {
+  id: number;
+  job_title?: string | null;
+  company_name?: string | null;
+};
+
+function normalize(value?: string | null): string {
+  return (value ?? "").trim().toLowerCase();
+}
+
+function readLegacyOffers(): LegacyOffer[] {
+  try {
+    const raw = localStorage.getItem(LEGACY_OFFERS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Match a local offer to a job: same company, title breaks ties */
+function matchJob(offer: LegacyOffer, jobs: JobRef[]): JobRef | null {
+  const byCompany = jobs.filter(
+    (j) => normalize(j.company_name) === normalize(offer.company)
+  );
+  if (byCompany.length <= 1) return byCompany[0] ?? null;
+  return (
+    byCompany.find((j) => normalize(j.job_title) === normalize(offer.title)) ??
+    null
+  );
+}
+
+/**
+ * Move offers from localStorage into job_offers
+ * Offers whose company/title match one of `jobs` are saved (without
+ * overwriting an existing offer for that job); unmatched ones stay local.
+ */
+export async function importLocalOffers(
+  userId: string,
+  jobs: JobRef[]
+): Promise<Result<{ imported: number; unmatched: number }>> {
+  const legacy = readLegacyOffers();
+  if (legacy.length === 0) {
+    return { data: { imported: 0, unmatched: 0 }, error: null, status: 200 };
+  }
+
+  const rows: Array<JobOfferInput & { user_id: string; job_id: number }> = [];
+  const unmatched: LegacyOffer[] = [];
+  for (const offer of legacy) {
+    const job = matchJob(offer, jobs);
+    if (!job || rows.some((r) => r.job_id === job.id)) {
+      unmatched.push(offer);
+      continue;
+    }
+    rows.push({
+      user_id: userId,
+      job_id: job.id,
+      base_salary: offer.salary ?? 0,
+      initial_base_salary: offer.salary ?? null,
+      bonus_target: offer.bonus ?? 0,
+      // The old dialog stored equity as an annualized value
+      equity_grant_value: (offer.equityValue ?? 0) * 4,
+      vesting_years: 4,
+      vesting_cliff_months: 0,
+      benefits_value: offer.benefitsValue ?? 0,
+      retirement_match_pct: 100,
+      retirement_match_limit_pct: 3,
+      location: offer.location ?? null,
+      col_index: offer.colIndex && offer.colIndex !== 1 ? offer.colIndex : null,
+      remote_policy: offer.remote ?? null,
+      culture_score: offer.culture ?? 5,
+      growth_score: offer.growth ?? 5,
+      worklife_score: offer.worklife ?? 5,
+      status: offer.archived ? "archived" : "active",
+      archive_reason: offer.archiveReason ?? null,
+    });
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from("job_offers")
+      .upsert(rows, { onConflict: "job_id", ignoreDuplicates: true });
+    if (error) return fail(error.message);
+  }
+
+  try {
+    if (unmatched.length > 0) {
+      localStorage.setItem(LEGACY_OFFERS_KEY, JSON.stringify(unmatched));
+    } else {
+      localStorage.removeItem(LEGACY_OFFERS_KEY);
+      localStorage.removeItem("offers:archive");
+    }
+  } catch {
+    // storage unavailable; the next import is a no-op thanks to ignoreDuplicates
+  }
+
+  return {
+    data: { imported: rows.length, unmatched: unmatched.length },
+    error: null,
+    status: 200,
+  };
+}
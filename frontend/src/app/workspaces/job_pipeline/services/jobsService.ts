@@ -13,6 +13,8 @@
  * - Returns Result<T> type: { data, error, status }
  * - Pagination support with limit/offset
  * - Optional filtering and sorting
+ * - Paginated listing and counts filter, search and page on the server
+ *   (GET /api/jobs) instead of loading every job
  *
  * USAGE:
  * ```ts
@@ -22,6 +24,7 @@
  */
 
 import * as crud from "@shared/services/crud";
+import aiClient from "@shared/services/ai/client";
 import type { Result } from "@shared/services/types";
 import type { JobRow } from "@shared/types/database";
 import type {
@@ -592,91 +595,103 @@ const archiveJob = async (
 };
 
 /**
- * COUNT JOBS: Get total count of jobs (useful for pagination metadata).
- *
- * Inputs:
- * - userId: User UUID (RLS scope)
- * - filters?: Optional filters to count subset
- *
- * Outputs:
- * - Result<number> with count
- *
- * Note: For now, we fetch all jobs and count client-side.
- * Future: Add count RPC function to database for performance.
+ * Query string for GET /api/jobs from JobFilters (empty values omitted).
  */
-const countJobs = async (
-  userId: string,
-  filters?: JobFilters
-): Promise<Result<number>> => {
-  // Fetch without pagination to get count
-  const result = await listJobs(userId, {
-    ...filters,
-    limit: undefined,
-    offset: undefined,
-  });
-
-  if (result.error) {
-    return {
-      data: null,
-      error: result.error,
-      status: result.status,
-    } as Result<number>;
+function toJobSearchQuery(filters?: JobFilters): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters ?? {})) {
+    if (value === undefined || value === null || value === "") continue;
+    if (key === "stage" && value === "All") continue;
+    params.set(key, String(value));
   }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
 
-  const count = Array.isArray(result.data) ? result.data.length : 0;
-  return {
-    data: count,
-    error: null,
-    status: result.status,
+/** GET /api/jobs response (offset mode) */
+interface JobSearchResponse {
+  data: JobRow[];
+  pagination: {
+    totalItems: number;
+    hasNextPage: boolean;
   };
-};
+  stageCounts: Record<string, number>;
+}
 
 /**
- * LIST JOBS PAGINATED: Convenience wrapper that returns pagination metadata.
+ * LIST JOBS PAGINATED: One page of jobs with pagination metadata and
+ * per-stage counts. Filtering, full-text search, sorting and paging happen
+ * on the server, so only the requested page is loaded.
  *
  * Inputs:
- * - userId: User UUID
+ * - _userId: Kept for call-site compatibility; the server scopes to the
+ *   signed-in user
  * - filters: Filters including limit and offset
  *
  * Outputs:
- * - Result<PaginatedJobs> with jobs array, total count, and hasMore flag
+ * - Result<PaginatedJobs> with jobs array, total count, hasMore flag and
+ *   stage counts
  */
 const listJobsPaginated = async (
-  userId: string,
+  _userId: string,
   filters: JobFilters
 ): Promise<Result<PaginatedJobs>> => {
   const limit = filters.limit ?? 50;
   const offset = filters.offset ?? 0;
 
-  // Fetch jobs with pagination
-  const jobsResult = await listJobs(userId, filters);
-
-  if (jobsResult.error) {
+  try {
+    const response = await aiClient.getJson<JobSearchResponse>(
+      `/api/jobs${toJobSearchQuery({ ...filters, limit, offset })}`
+    );
+    return {
+      data: {
+        jobs: response.data,
+        total: response.pagination.totalItems,
+        limit,
+        offset,
+        hasMore: response.pagination.hasNextPage,
+        stageCounts: response.stageCounts,
+      },
+      error: null,
+      status: 200,
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Failed to load jobs";
     return {
       data: null,
-      error: jobsResult.error,
-      status: jobsResult.status,
+      error: { message, status: null },
+      status: null,
     } as Result<PaginatedJobs>;
   }
+};
 
-  // Get total count (for now, fetch all - future: optimize with count RPC)
-  const countResult = await countJobs(userId, filters);
-  const total = countResult.data ?? 0;
-
-  const jobs = Array.isArray(jobsResult.data) ? jobsResult.data : [];
-  const hasMore = offset + jobs.length < total;
-
-  return {
-    data: {
-      jobs,
-      total,
-      limit,
-      offset,
-      hasMore,
-    },
-    error: null,
-    status: jobsResult.status,
-  };
+/**
+ * COUNT JOBS: Number of jobs matching the filters, counted on the server.
+ *
+ * Inputs:
+ * - userId: User UUID (the server scopes to the signed-in user)
+ * - filters?: Optional filters (pagination ignored)
+ *
+ * Outputs:
+ * - Result<number> with matching job count
+ */
+const countJobs = async (
+  userId: string,
+  filters?: JobFilters
+): Promise<Result<number>> => {
+  const result = await listJobsPaginated(userId, {
+    ...filters,
+    limit: 1,
+    offset: 0,
+  });
+  if (result.error) {
+    return {
+      data: null,
+      error: result.error,
+      status: result.status,
+    } as Result<number>;
+  }
+  return { data: result.data?.total ?? 0, error: null, status: result.status };
 };
 
 export default {
@@ -0,0 +1,149 @@
+/**
+ * SAVED SEARCHES SERVICE
+ *
+ * Named job searches stored on the server. The server re-runs every search
+ * when jobs are created, imported, edited or scored, so matches (and the
+ * "new since last viewed" count) stay current without the page open.
+ *
+ * Features:
+ * - List, create, update, delete searches (/api/saved-searches)
+ * - Matching jobs flagged new / seen, mark a search viewed
+ * - Convert between the search form's JobFilters and stored criteria
+ *
+ * USAGE:
+ * ```ts
+ * import { createSearch } from "@job_pipeline/services/savedSearchesService";
+ * await createSearch({
+ *   name: "Remote React",
+ *   criteria: { query: "react", remote_type: "remote", salary_min: 120000 },
+ *   digest_frequency: "daily",
+ * });
+ * ```
+ */
+
+import aiClient from "@shared/services/ai/client";
+import type { Result } from "@shared/services/types";
+import type { JobFilters } from "../components/search/JobSearchFilters/JobSearchFilters";
+import type {
+  SavedSearch,
+  SavedSearchCriteria,
+  SavedSearchInput,
+  SavedSearchMatch,
+} from "../types/savedSearch.types";
+
+function fail<T>(err: unknown, fallback: string): Result<T> {
+  const message = err instanceof Error ? err.message : fallback;
+  return { data: null, error: { message, status: null }, status: null };
+}
+
+/**
+ * Stored criteria from the search form. Sorting, deadline and archive
+ * options only apply to the page, not to saved searches.
+ */
+export function criteriaFromFilters(
+  filters: JobFilters,
+  minMatchScore?: number | ""
+): SavedSearchCriteria {
+  const criteria: SavedSearchCriteria = {};
+  if (filters.query?.trim()) criteria.query = filters.query.trim();
+  if (filters.industry) criteria.industry = filters.industry;
+  if (filters.location?.trim()) criteria.location = filters.location.trim();
+  if (typeof filters.salaryMin === "number") {
+    criteria.salary_min = filters.salaryMin;
+  }
+  if (typeof minMatchScore === "number") {
+    criteria.min_match_score = minMatchScore;
+  }
+  return criteria;
+}
+
+/** Search form values for a stored search (to edit or re-apply it) */
+export function filtersFromCriteria(criteria: SavedSearchCriteria): JobFilters {
+  return {
+    query: criteria.query ?? "",
+    industry: criteria.industry ?? "",
+    location: criteria.location ?? "",
+    salaryMin: criteria.salary_min ?? "",
+  };
+}
+
+export async function listSearches(): Promise<Result<SavedSearch[]>> {
+  try {
+    const { searches } = await aiClient.getJson<{ searches: SavedSearch[] }>(
+      "/api/saved-searches"
+    );
+    return { data: searches, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to load saved searches");
+  }
+}
+
+export async function createSearch(
+  input: SavedSearchInput
+): Promise<Result<SavedSearch>> {
+  if (!input.name.trim()) {
+    return fail(new Error("Give the search a name"), "");
+  }
+  try {
+    const { search } = await aiClient.postJson<{ search: SavedSearch }>(
+      "/api/saved-searches",
+      input
+    );
+    return { data: search, error: null, status: 201 };
+  } catch (err) {
+    return fail(err, "Failed to save search");
+  }
+}
+
+export async function updateSearch(
+  searchId: string,
+  patch: Partial<SavedSearchInput>
+): Promise<Result<SavedSearch>> {
+  try {
+    const { search } = await aiClient.patchJson<{ search: SavedSearch }>(
+      `/api/saved-searches/${searchId}`,
+      patch
+    );
+    return { data: search, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to update saved search");
+  }
+}
+
+export async function deleteSearch(searchId: string): Promise<Result<null>> {
+  try {
+    await aiClient.deleteJson(`/api/saved-searches/${searchId}`);
+    return { data: null, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to delete saved search");
+  }
+}
+
+/** Jobs matching a search, newest match first */
+export async function listMatches(
+  searchId: string
+): Promise<Result<SavedSearchMatch[]>> {
+  try {
+    const { matches } = await aiClient.getJson<{
+      matches: SavedSearchMatch[];
+    }>(`/api/saved-searches/${searchId}/matches`);
+    return { data: matches, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to load matching jobs");
+  }
+}
+
+/** Reset the search's "new" count */
+export async function markViewed(
+  searchId: string
+): Promise<Result<SavedSearch>> {
+  try {
+    const { search } = await aiClient.postJson<{ search: SavedSearch }>(
+      `/api/saved-searches/${searchId}/viewed`,
+      {}
+    );
+    return { data: search, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to update saved search");
+  }
+}
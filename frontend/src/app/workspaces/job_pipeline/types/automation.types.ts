@@ -0,0 +1,81 @@
+/**
+ * AUTOMATION TYPES
+ * Pipeline automation rules (automation_rules) and their execution log
+ * (automation_runs), as returned by /api/automations.
+ */
+
+export type AutomationTriggerType =
+  | "job_stage_changed"
+  | "deadline_approaching"
+  | "no_response"
+  | "interview_scheduled";
+
+export type AutomationActionType =
+  | "create_reminder"
+  | "generate_cover_letter"
+  | "add_prep_checklist"
+  | "move_stage"
+  | "notify_teammate";
+
+export type ConditionOperator =
+  "equals" | "not_equals" | "contains" | "in" | "gt" | "lt" | "exists";
+
+export interface AutomationCondition {
+  /** "job.<column>", "interview.<column>" or "trigger.<key>" */
+  field: string;
+  operator: ConditionOperator;
+  value?: unknown;
+}
+
+export interface AutomationAction {
+  type: AutomationActionType;
+  config: Record<string, unknown>;
+}
+
+export interface AutomationRule {
+  id: string;
+  user_id: string;
+  name: string;
+  enabled: boolean;
+  trigger_type: AutomationTriggerType;
+  trigger_config: Record<string, unknown>;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Create payload; the server fills trigger/action defaults */
+export interface AutomationRuleInput {
+  name: string;
+  enabled?: boolean;
+  trigger_type: AutomationTriggerType;
+  trigger_config?: Record<string, unknown>;
+  conditions?: AutomationCondition[];
+  actions: AutomationAction[];
+}
+
+export type AutomationRunStatus =
+  "running" | "success" | "partial" | "failed" | "skipped";
+
+export interface AutomationActionResult {
+  type: AutomationActionType;
+  status: "success" | "failed";
+  output: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface AutomationRun {
+  id: string;
+  rule_id: string | null;
+  rule_name: string;
+  trigger_type: AutomationTriggerType;
+  job_id: number | null;
+  dedupe_key: string;
+  status: AutomationRunStatus;
+  results: AutomationActionResult[];
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
@@ -7,6 +7,9 @@
  * - pipeline.types.ts: Pipeline stages, filters, pagination
  * - analytics.types.ts: Statistics, metrics, match analysis
  * - navigation.types.ts: View types and navigation items
+ * - offer.types.ts: Job offers and compensation projections
+ * - automation.types.ts: Automation rules and their execution log
+ * - savedSearch.types.ts: Saved searches and their matching jobs
  */
 
 // Job entity types
@@ -30,3 +33,41 @@ export type {
 // Navigation types
 export type { JobsView, NavItem } from "./navigation.types";
 export { NAV_ITEMS } from "./navigation.types";
+
+// Offer types
+export type {
+  JobOfferRow,
+  JobOfferWithJob,
+  JobOfferInput,
+  OfferStatus,
+  NegotiationOutcome,
+  VestingFrequency,
+  OfferComparison,
+  OfferProjection,
+  BreakEvenPoint,
+  CompensationRegions,
+} from "./offer.types";
+
+// Automation types
+export type {
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationRun,
+  AutomationRunStatus,
+  AutomationActionResult,
+  AutomationTriggerType,
+  AutomationActionType,
+  AutomationCondition,
+  AutomationAction,
+  ConditionOperator,
+} from "./automation.types";
+
+// Saved search types
+export type {
+  SavedSearch,
+  SavedSearchInput,
+  SavedSearchCriteria,
+  SavedSearchMatch,
+  SavedSearchRemoteType,
+  SavedSearchDigestFrequency,
+} from "./savedSearch.types";
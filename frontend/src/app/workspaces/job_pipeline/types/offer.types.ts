@@ -0,0 +1,125 @@
+/**
+ * JOB OFFER TYPES
+ * Offer records (job_offers table) and the compensation projections returned
+ * by POST /api/offers/projection.
+ */
+
+export type VestingFrequency = "monthly" | "quarterly" | "annual";
+
+export type OfferStatus = "active" | "accepted" | "declined" | "archived";
+
+export type NegotiationOutcome =
+  "accepted" | "declined" | "countered" | "pending" | "withdrawn";
+
+/** job_offers row (one offer per job) */
+export interface JobOfferRow {
+  id: string;
+  user_id: string;
+  job_id: number;
+  currency: string;
+  base_salary: number;
+  annual_raise_pct: number;
+  bonus_target: number;
+  signing_bonus: number;
+  signing_amortization_months: number;
+  equity_grant_value: number;
+  vesting_years: number;
+  vesting_cliff_months: number;
+  vesting_frequency: VestingFrequency;
+  vesting_year_percents: number[] | null;
+  refresher_annual_value: number;
+  refresher_start_year: number;
+  retirement_match_pct: number;
+  retirement_match_limit_pct: number;
+  benefits_value: number;
+  location: string | null;
+  tax_country: string;
+  tax_state: string | null;
+  col_index: number | null;
+  remote_policy: string | null;
+  culture_score: number;
+  growth_score: number;
+  worklife_score: number;
+  initial_base_salary: number | null;
+  offer_received_date: string | null;
+  negotiation_outcome: NegotiationOutcome | null;
+  status: OfferStatus;
+  archive_reason: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Offer with the job it belongs to (for labels) */
+export interface JobOfferWithJob extends JobOfferRow {
+  job: { job_title: string | null; company_name: string | null } | null;
+}
+
+/** Editable offer fields */
+export type JobOfferInput = Partial<
+  Omit<JobOfferRow, "id" | "user_id" | "job_id" | "created_at" | "updated_at">
+>;
+
+export interface CompensationComponents {
+  base: number;
+  bonus: number;
+  signing: number;
+  equity: number;
+  refreshers: number;
+  retirementMatch: number;
+  benefits: number;
+}
+
+export interface ProjectionYear {
+  year: number;
+  components: CompensationComponents;
+  gross: number;
+  taxable: number;
+  tax: {
+    incomeTax: number;
+    stateTax: number;
+    contributions: number;
+    total: number;
+    effectiveRate: number;
+    supported: boolean;
+  };
+  net: number;
+  adjusted: number;
+}
+
+export interface OfferProjection {
+  id: string;
+  label: string | null;
+  colIndex: number;
+  colSource: "override" | "location" | "default";
+  taxRegion: string;
+  years: ProjectionYear[];
+  totals: Array<{
+    years: number;
+    gross: number;
+    net: number;
+    adjusted: number;
+  }>;
+  cumulativeAdjusted: number[];
+}
+
+export interface BreakEvenPoint {
+  offerA: string;
+  offerB: string;
+  initialLeader: string | null;
+  finalLeader: string | null;
+  /** First month the initial leader is caught up, null if never */
+  month: number | null;
+}
+
+export interface OfferComparison {
+  horizonYears: number;
+  offers: OfferProjection[];
+  breakEven: BreakEvenPoint[];
+}
+
+export interface CompensationRegions {
+  countries: Array<{ code: string; name: string; currency: string }>;
+  states: Array<{ code: string; name: string; hasIncomeTax: boolean }>;
+  colLocations: Array<{ location: string; index: number }>;
+}
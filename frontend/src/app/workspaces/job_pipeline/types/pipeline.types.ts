@@ -51,6 +51,9 @@ export interface JobFilters {
   createdBefore?: string;
   createdAfter?: string;
 
+  // Include archived jobs (server-side listing excludes them by default)
+  includeArchived?: boolean;
+
   // Pagination
   limit?: number;
   offset?: number;
@@ -77,4 +80,6 @@ export interface PaginatedJobs {
   limit: number;
   offset: number;
   hasMore: boolean;
+  // Matching jobs per pipeline stage, ignoring the stage filter
+  stageCounts?: Record<string, number>;
 }
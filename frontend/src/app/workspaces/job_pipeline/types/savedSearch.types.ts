@@ -0,0 +1,49 @@
+/**
+ * SAVED SEARCH TYPES
+ * Named job searches (saved_searches) and the jobs matching them
+ * (saved_search_matches), as returned by /api/saved-searches.
+ */
+
+export type SavedSearchRemoteType = "onsite" | "remote" | "hybrid";
+export type SavedSearchDigestFrequency = "off" | "daily" | "weekly";
+
+/** All set fields must match; unset fields are ignored */
+export interface SavedSearchCriteria {
+  query?: string;
+  industry?: string;
+  location?: string;
+  remote_type?: SavedSearchRemoteType;
+  /** Top of the posted salary range must reach this */
+  salary_min?: number;
+  /** 0-100; unscored jobs match once they are scored */
+  min_match_score?: number;
+}
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  digest_frequency: SavedSearchDigestFrequency;
+  last_viewed_at: string;
+  last_evaluated_at: string;
+  last_digest_at: string | null;
+  created_at: string;
+  updated_at: string;
+  /** Present on list / create responses */
+  match_count?: number;
+  new_count?: number;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  criteria: SavedSearchCriteria;
+  digest_frequency?: SavedSearchDigestFrequency;
+}
+
+export interface SavedSearchMatch {
+  job: Record<string, unknown> & { id: number };
+  matched_at: string;
+  /** Matched after the search was last viewed */
+  is_new: boolean;
+}
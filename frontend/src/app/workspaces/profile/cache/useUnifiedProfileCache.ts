@@ -17,8 +17,14 @@
  *   └── useEmploymentData() selects employment array
  *   └── etc.
  */
+import { useMemo } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@shared/context/AuthContext";
+import { useSkillTaxonomy } from "@shared/cache/coreHooks";
+import {
+  createSkillResolver,
+  type SkillResolver,
+} from "@shared/services/skillTaxonomy";
 import { CACHE_STALE_TIME, CACHE_GC_TIME } from "./cacheConfig";
 import { profileKeys } from "./queryKeys";
 
@@ -347,12 +353,25 @@ export function useCertificationsData() {
 
 /**
  * Transform skills to chart data format
+ * Other spellings of one skill ("JS", "JavaScript") are counted once
  */
-function transformToSkillChartData(skills: SkillItem[]): SkillChartData[] {
+function transformToSkillChartData(
+  skills: SkillItem[],
+  resolver: SkillResolver
+): SkillChartData[] {
+  const distinct = new Map<string, string>();
+  skills.forEach((skill) => {
+    const key = skill.taxonomyId ?? resolver.key(skill.name);
+    if (distinct.has(key)) return;
+    distinct.set(
+      key,
+      skill.category || resolver.resolve(skill.name)?.category || "Other"
+    );
+  });
+
   // Group by category and count
   const categoryMap = new Map<string, number>();
-  skills.forEach((skill) => {
-    const category = skill.category || "Other";
+  distinct.forEach((category) => {
     categoryMap.set(category, (categoryMap.get(category) || 0) + 1);
   });
 
@@ -451,6 +470,8 @@ export function useDashboardData(): DashboardData {
   const queryClient = useQueryClient();
 
   const { data, isLoading, isError } = useUnifiedProfile();
+  const { data: taxonomy } = useSkillTaxonomy();
+  const resolver = useMemo(() => createSkillResolver(taxonomy), [taxonomy]);
 
   // Extract header from profile - parse fullName into firstName/lastName
   let header: ProfileHeader | null = null;
@@ -489,7 +510,7 @@ export function useDashboardData(): DashboardData {
       projectsCount: data?.projects.length ?? 0,
       certificationsCount: data?.certifications.length ?? 0,
     },
-    skills: data ? transformToSkillChartData(data.skills) : [],
+    skills: data ? transformToSkillChartData(data.skills, resolver) : [],
     careerEvents: data ? transformToCareerEvents(data.employment) : [],
     recentActivity: data
       ? buildRecentActivity(
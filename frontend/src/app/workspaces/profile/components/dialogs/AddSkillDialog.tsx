@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useAuth } from "@shared/context/AuthContext";
 import { useProfileChange } from "@shared/context";
 import skillsService from "../../services/skills";
@@ -18,7 +18,11 @@ import {
 import type { DbSkillRow } from "../../types/skill.ts";
 import { SKILL_LEVEL_OPTIONS, SKILL_CATEGORY_OPTIONS } from "@shared/constants";
 import { useUnifiedCacheUtils } from "@profile/cache";
+import { useSkillTaxonomy } from "@shared/cache/coreHooks";
+import { createSkillResolver } from "@shared/services/skillTaxonomy";
+import SkillEvidenceSection from "./SkillEvidenceSection";
 
+// Used until the skills taxonomy has loaded
 const suggestedSkillList = [
   // Frontend
   "JavaScript",
@@ -209,6 +213,13 @@ export const AddSkillDialog = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showErrors, setShowErrors] = useState(false);
 
+  const { data: taxonomy } = useSkillTaxonomy({ enabled: open });
+  const resolver = useMemo(() => createSkillResolver(taxonomy), [taxonomy]);
+  const skillOptions = resolver.names.length
+    ? resolver.names
+    : suggestedSkillList;
+  const normalized = resolver.normalize(selectedSkill);
+
   // Initialize form when editing
   useEffect(() => {
     if (mode === "edit" && existingSkill) {
@@ -253,9 +264,10 @@ export const AddSkillDialog = ({
     }
 
     if (mode === "add") {
-      // Prevent duplicate skill names (case-insensitive)
+      // Prevent duplicates, including other spellings ("JS" vs "JavaScript")
+      const key = resolver.key(trimmedSkill);
       const exists = existingSkills.some(
-        (skill) => skill.name.toLowerCase() === trimmedSkill.toLowerCase()
+        (skill) => resolver.key(skill.name) === key
       );
       if (exists) {
         showWarning("You already added this skill!");
@@ -273,7 +285,7 @@ export const AddSkillDialog = ({
           skill_category: trimmedCategory,
         };
 
-        const res = await skillsService.createSkill(user.id, payload);
+        const res = await skillsService.createSkill(user.id, payload, resolver);
 
         if (res.error) {
           handleError(res.error);
@@ -375,7 +387,7 @@ export const AddSkillDialog = ({
         <Stack spacing={2.5}>
           <Autocomplete
             freeSolo
-            options={suggestedSkillList}
+            options={skillOptions}
             inputValue={inputValue}
             disabled={mode === "edit"} // Can't change skill name when editing
             onInputChange={(_, newInputValue) => {
@@ -387,12 +399,18 @@ export const AddSkillDialog = ({
                 typeof newValue === "string" ? newValue : newValue || "";
               setSelectedSkill(v);
               setInputValue(v);
+              // Default the category from the taxonomy
+              const category = resolver.resolve(v)?.category;
+              if (category && !selectedCategory) setSelectedCategory(category);
+            }}
+            filterOptions={(options, state) => {
+              const input = (state.inputValue || "").toLowerCase();
+              // An alias ("k8s") also offers its canonical name
+              const aliasOf = resolver.resolve(input)?.name;
+              return options.filter(
+                (o) => o.toLowerCase().includes(input) || o === aliasOf
+              );
             }}
-            filterOptions={(options, state) =>
-              options.filter((o) =>
-                o.toLowerCase().includes((state.inputValue || "").toLowerCase())
-              )
-            }
             getOptionLabel={(option) => option}
             noOptionsText="No matching skill"
             renderInput={(params) => (
@@ -403,7 +421,16 @@ export const AddSkillDialog = ({
                 required
                 error={skillError}
                 helperText={
-                  skillError ? "Skill name is required" : "Type or pick a skill"
+                  skillError
+                    ? "Skill name is required"
+                    : mode === "add" && normalized.id
+                      ? [
+                          normalized.name !== selectedSkill.trim()
+                            ? `Saved as ${normalized.name}`
+                            : normalized.name,
+                          ...normalized.path,
+                        ].join(" › ")
+                      : "Type or pick a skill"
                 }
               />
             )}
@@ -450,6 +477,14 @@ export const AddSkillDialog = ({
               </MenuItem>
             ))}
           </TextField>
+
+          {mode === "edit" && existingSkill?.id && (
+            <SkillEvidenceSection
+              skillId={existingSkill.id}
+              skillName={existingSkill.name}
+              resolver={resolver}
+            />
+          )}
         </Stack>
       </DialogContent>
 
@@ -0,0 +1,529 @@
+/**
+ * IMPORT RESUME DIALOG
+ *
+ * Fill the profile from a PDF or Word resume:
+ * 1. Upload - the server reads the file and diffs it against the profile
+ * 2. Review - pick which profile fields and entries to keep; fill in
+ *    required values the resume didn't have (e.g. start dates)
+ * 3. Merge - kept entries are added or update the matching rows
+ *
+ * Nothing is saved until the user confirms the review step.
+ */
+import React, { useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  LinearProgress,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useProfileChange } from "@shared/context";
+import { useErrorHandler } from "@shared/hooks/useErrorHandler";
+import { ErrorSnackbar } from "@shared/components/feedback/ErrorSnackbar";
+import { useUnifiedCacheUtils } from "@profile/cache";
+import {
+  RESUME_FILE_ACCEPT,
+  buildMergeInput,
+  mergeResume,
+  parseResume,
+  validateResumeFile,
+} from "../../services/resumeImport";
+import type {
+  ResumeImportItem,
+  ResumeImportPreview,
+  ResumeSection,
+} from "../../types/resumeImport";
+
+interface ImportResumeDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+const SECTION_LABELS: Record<ResumeSection, string> = {
+  employment: "Employment",
+  education: "Education",
+  skills: "Skills",
+  projects: "Projects",
+  certifications: "Certifications",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  full_name: "Name",
+  first_name: "First name",
+  last_name: "Last name",
+  phone: "Phone",
+  city: "City",
+  state: "State",
+  professional_title: "Headline",
+  summary: "Summary",
+  job_title: "Title",
+  company_name: "Company",
+  institution_name: "Institution",
+  degree_type: "Degree",
+  field_of_study: "Field of study",
+  start_date: "Start date",
+  end_date: "End date",
+  graduation_date: "Graduation date",
+  date_earned: "Date earned",
+  issuing_org: "Issuer",
+};
+
+/** Required values the user can fill in, and the input type for each */
+const FILLABLE: Record<string, "month" | "text"> = {
+  start_date: "month",
+  degree_type: "text",
+  job_title: "text",
+  company_name: "text",
+};
+
+function fieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field.replace(/_/g, " ");
+}
+
+function display(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+function itemTitle(item: ResumeImportItem): string {
+  const d = item.data;
+  const text = (key: string) => (typeof d[key] === "string" ? d[key] : "");
+  switch (item.section) {
+    case "employment":
+      return [text("job_title"), text("company_name")]
+        .filter(Boolean)
+        .join(" at ");
+    case "education":
+      return [text("degree_type"), text("institution_name")]
+        .filter(Boolean)
+        .join(", ");
+    case "skills":
+      return text("skill_name");
+    case "projects":
+      return text("proj_name");
+    default:
+      return text("name");
+  }
+}
+
+export const ImportResumeDialog: React.FC<ImportResumeDialogProps> = ({
+  open,
+  onClose,
+  onSuccess,
+}) => {
+  const { markProfileChanged } = useProfileChange();
+  const {
+    notification,
+    closeNotification,
+    handleError,
+    showSuccess,
+    showWarning,
+  } = useErrorHandler();
+  const { invalidateAll } = useUnifiedCacheUtils();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [useAi, setUseAi] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [preview, setPreview] = useState<ResumeImportPreview | null>(null);
+  const [itemIds, setItemIds] = useState<Set<string>>(new Set());
+  const [profileFields, setProfileFields] = useState<Set<string>>(new Set());
+  const [edits, setEdits] = useState<Record<string, Record<string, string>>>(
+    {}
+  );
+  const [failures, setFailures] = useState<string[]>([]);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setItemIds(new Set());
+    setProfileFields(new Set());
+    setEdits({});
+    setFailures([]);
+  };
+
+  const handleClose = () => {
+    if (busy) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0] ?? null;
+    event.target.value = "";
+    if (!chosen) return;
+    const invalid = validateResumeFile(chosen);
+    if (invalid) {
+      showWarning(invalid);
+      return;
+    }
+    setFile(chosen);
+  };
+
+  const handleRead = async () => {
+    if (!file) return;
+    setBusy(true);
+    const res = await parseResume(file, { useAi });
+    setBusy(false);
+    if (res.error || !res.data) {
+      handleError(res.error);
+      return;
+    }
+    const result = res.data;
+    if (!result.items.length && !result.profile.changes.length) {
+      showWarning("Nothing new found in this resume");
+    }
+    setPreview(result);
+    // New entries and changes are kept by default; the user opts out
+    setItemIds(
+      new Set(
+        result.items
+          .filter((item) => item.action !== "duplicate")
+          .map((item) => item.id)
+      )
+    );
+    // Only fill empty profile fields by default, never overwrite
+    setProfileFields(
+      new Set(
+        result.profile.changes
+          .filter((change) => !change.current)
+          .map((change) => change.field)
+      )
+    );
+  };
+
+  const toggle = (
+    set: Set<string>,
+    update: (next: Set<string>) => void,
+    key: string
+  ) => {
+    const next = new Set(set);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    update(next);
+  };
+
+  const setEdit = (id: string, field: string, value: string) => {
+    setEdits((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const unfilled = (item: ResumeImportItem) =>
+    item.action === "new"
+      ? item.missing.filter((field) => !edits[item.id]?.[field]?.trim())
+      : [];
+
+  const blocked = (preview?.items ?? []).filter(
+    (item) => itemIds.has(item.id) && unfilled(item).length > 0
+  ).length;
+
+  const handleMerge = async () => {
+    if (!preview) return;
+    const input = buildMergeInput(preview, {
+      itemIds: [...itemIds],
+      profileFields: [...profileFields],
+      edits,
+    });
+    setBusy(true);
+    const res = await mergeResume(input);
+    setBusy(false);
+    if (res.error || !res.data) {
+      handleError(res.error);
+      return;
+    }
+
+    const { created, updated, failed, results } = res.data;
+    await invalidateAll();
+    markProfileChanged();
+    onSuccess?.();
+
+    if (failed > 0) {
+      // Keep the dialog open so the user can see what didn't import
+      // buildMergeInput keeps the preview's order of the kept entries
+      const sent = preview.items.filter(
+        (item) => itemIds.has(item.id) && item.action !== "duplicate"
+      );
+      setFailures(
+        results
+          .filter((r) => r.error)
+          .map(
+            (r) =>
+              `${SECTION_LABELS[r.section]}: ${itemTitle(sent[r.index])} - ${r.error}`
+          )
+      );
+      showWarning(
+        `Imported ${created + updated} entries; ${failed} could not be saved`
+      );
+      return;
+    }
+
+    showSuccess(
+      `Resume imported: ${created} added, ${updated} updated${
+        res.data.profileUpdated ? ", profile updated" : ""
+      }`
+    );
+    reset();
+    onClose();
+  };
+
+  const sections = (Object.keys(SECTION_LABELS) as ResumeSection[])
+    .map((section) => ({
+      section,
+      items: (preview?.items ?? []).filter((i) => i.section === section),
+    }))
+    .filter((group) => group.items.length > 0);
+
+  return (
+    <>
+      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+        <DialogTitle>Import Resume</DialogTitle>
+        <DialogContent dividers sx={{ pt: 3 }}>
+          {busy && <LinearProgress sx={{ mb: 2 }} />}
+
+          {!preview ? (
+            <Stack spacing={2.5}>
+              <Typography color="text.secondary">
+                Upload a PDF or Word (.docx) resume. You'll review everything it
+                found before anything is saved to your profile.
+              </Typography>
+              <input
+                ref={fileInput}
+                type="file"
+                accept={RESUME_FILE_ACCEPT}
+                hidden
+                onChange={handleFile}
+              />
+              <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                <Button
+                  variant="outlined"
+                  onClick={() => fileInput.current?.click()}
+                  disabled={busy}
+                >
+                  Choose File
+                </Button>
+                <Typography variant="body2">
+                  {file ? file.name : "No file selected (max 5 MB)"}
+                </Typography>
+              </Box>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={useAi}
+                    onChange={(e) => setUseAi(e.target.checked)}
+                  />
+                }
+                label="Use AI to sort out entries the parser isn't sure about"
+              />
+            </Stack>
+          ) : (
+            <Stack spacing={3}>
+              {failures.length > 0 && (
+                <Alert severity="warning">
+                  {failures.map((failure) => (
+                    <div key={failure}>{failure}</div>
+                  ))}
+                </Alert>
+              )}
+
+              {preview.profile.changes.length > 0 && (
+                <Box>
+                  <Typography variant="h6" gutterBottom>
+                    Profile
+                  </Typography>
+                  {preview.profile.changes.map((change) => (
+                    <FormControlLabel
+                      key={change.field}
+                      sx={{ display: "flex", alignItems: "flex-start" }}
+                      control={
+                        <Checkbox
+                          checked={profileFields.has(change.field)}
+                          onChange={() =>
+                            toggle(
+                              profileFields,
+                              setProfileFields,
+                              change.field
+                            )
+                          }
+                        />
+                      }
+                      label={
+                        <Typography variant="body2" sx={{ pt: 1.2 }}>
+                          <strong>{fieldLabel(change.field)}:</strong>{" "}
+                          {display(change.current)} → {display(change.imported)}
+                        </Typography>
+                      }
+                    />
+                  ))}
+                </Box>
+              )}
+
+              {sections.map(({ section, items }) => (
+                <Box key={section}>
+                  <Typography variant="h6" gutterBottom>
+                    {SECTION_LABELS[section]}
+                  </Typography>
+                  <Stack spacing={1.5}>
+                    {items.map((item) => (
+                      <Box
+                        key={item.id}
+                        sx={{
+                          border: 1,
+                          borderColor: "divider",
+                          borderRadius: 1,
+                          p: 1.5,
+                          opacity: item.action === "duplicate" ? 0.6 : 1,
+                        }}
+                      >
+                        <Box sx={{ display: "flex", alignItems: "center" }}>
+                          <Checkbox
+                            checked={itemIds.has(item.id)}
+                            disabled={item.action === "duplicate"}
+                            onChange={() =>
+                              toggle(itemIds, setItemIds, item.id)
+                            }
+                          />
+                          <Typography fontWeight={600} sx={{ flex: 1 }}>
+                            {itemTitle(item) || "(untitled)"}
+                          </Typography>
+                          <Chip
+                            size="small"
+                            label={
+                              item.action === "new"
+                                ? "New"
+                                : item.action === "update"
+                                  ? "Update"
+                                  : "Already in profile"
+                            }
+                            color={
+                              item.action === "new" ? "success" : "default"
+                            }
+                          />
+                          {item.ambiguous.length > 0 && (
+                            <Chip
+                              size="small"
+                              color="warning"
+                              variant="outlined"
+                              sx={{ ml: 1 }}
+                              label={`Check ${item.ambiguous
+                                .map(fieldLabel)
+                                .join(", ")
+                                .toLowerCase()}`}
+                            />
+                          )}
+                        </Box>
+
+                        {item.action === "update" &&
+                          item.changes.map((change) => (
+                            <Typography
+                              key={change.field}
+                              variant="body2"
+                              sx={{ pl: 6 }}
+                            >
+                              {fieldLabel(change.field)}:{" "}
+                              {display(change.current)} →{" "}
+                              {display(change.imported)}
+                            </Typography>
+                          ))}
+
+                        {itemIds.has(item.id) &&
+                          item.action === "new" &&
+                          item.missing.map((field) => (
+                            <TextField
+                              key={field}
+                              size="small"
+                              type={FILLABLE[field] ?? "text"}
+                              label={fieldLabel(field)}
+                              required
+                              value={edits[item.id]?.[field] ?? ""}
+                              onChange={(e) =>
+                                setEdit(item.id, field, e.target.value)
+                              }
+                              InputLabelProps={{ shrink: true }}
+                              helperText="Not found in the resume"
+                              sx={{ ml: 6, mt: 1, minWidth: 220 }}
+                            />
+                          ))}
+                      </Box>
+                    ))}
+                  </Stack>
+                </Box>
+              ))}
+
+              {preview.unassigned.length > 0 && (
+                <Box>
+                  <Typography variant="h6" gutterBottom>
+                    Not imported
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" mb={1}>
+                    These parts of the resume didn't match a profile section.
+                  </Typography>
+                  {preview.unassigned.map((block) => (
+                    <Typography
+                      key={block}
+                      variant="body2"
+                      component="pre"
+                      sx={{ whiteSpace: "pre-wrap", fontFamily: "inherit" }}
+                    >
+                      {block}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {preview && (
+            <Button onClick={reset} disabled={busy} sx={{ mr: "auto" }}>
+              Choose Another File
+            </Button>
+          )}
+          <Button onClick={handleClose} disabled={busy}>
+            {failures.length ? "Done" : "Cancel"}
+          </Button>
+          {!preview ? (
+            <Button
+              variant="contained"
+              onClick={handleRead}
+              disabled={!file || busy}
+            >
+              Read Resume
+            </Button>
+          ) : (
+            !failures.length && (
+              <Button
+                variant="contained"
+                onClick={handleMerge}
+                disabled={
+                  busy ||
+                  blocked > 0 ||
+                  (itemIds.size === 0 && profileFields.size === 0)
+                }
+              >
+                {blocked > 0
+                  ? `Fill in ${blocked} required ${blocked === 1 ? "value" : "values"}`
+                  : "Import Selected"}
+              </Button>
+            )
+          )}
+        </DialogActions>
+      </Dialog>
+
+      <ErrorSnackbar notification={notification} onClose={closeNotification} />
+    </>
+  );
+};
+
+export default ImportResumeDialog;
@@ -0,0 +1,206 @@
+/**
+ * SKILL EVIDENCE SECTION
+ *
+ * Shown in the edit skill dialog. Links the skill to the employment bullets,
+ * projects and certifications that show it. Profile entries that mention the
+ * skill (or one of its aliases) are suggested first.
+ */
+import { useEffect, useMemo, useState } from "react";
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useAuth } from "@shared/context/AuthContext";
+import { useErrorHandler } from "@shared/hooks/useErrorHandler";
+import type { SkillResolver } from "@shared/services/skillTaxonomy";
+import { useUnifiedProfile } from "@profile/cache";
+import skillsService, {
+  evidenceCandidateKey,
+  evidenceRowKey,
+  findEvidenceCandidates,
+} from "../../services/skills";
+import type {
+  DbSkillEvidenceRow,
+  SkillEvidenceCandidate,
+  SkillEvidenceSource,
+} from "../../types/skill";
+
+interface SkillEvidenceSectionProps {
+  skillId: string;
+  skillName: string;
+  resolver: SkillResolver;
+}
+
+const SOURCE_LABELS: Record<SkillEvidenceSource, string> = {
+  employment: "Employment",
+  project: "Project",
+  certification: "Certification",
+};
+
+function candidateText(candidate: SkillEvidenceCandidate): string {
+  return candidate.excerpt
+    ? `${candidate.label}: ${candidate.excerpt}`
+    : candidate.label;
+}
+
+export default function SkillEvidenceSection({
+  skillId,
+  skillName,
+  resolver,
+}: SkillEvidenceSectionProps) {
+  const { user } = useAuth();
+  const { handleError } = useErrorHandler();
+  const { data: profile } = useUnifiedProfile();
+
+  const [evidence, setEvidence] = useState<DbSkillEvidenceRow[]>([]);
+  const [selected, setSelected] = useState<SkillEvidenceCandidate | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    skillsService.listSkillEvidence(user.id, skillId).then((res) => {
+      if (cancelled) return;
+      if (res.error) {
+        handleError(res.error);
+        return;
+      }
+      setEvidence(res.data ?? []);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, skillId]);
+
+  const candidates = useMemo(
+    () =>
+      findEvidenceCandidates(skillName, resolver, {
+        employment: profile?.employment ?? [],
+        projects: profile?.projects ?? [],
+        certifications: profile?.certifications ?? [],
+      }),
+    [skillName, resolver, profile]
+  );
+
+  const byKey = useMemo(
+    () =>
+      new Map(
+        candidates.map((c) => [
+          evidenceCandidateKey(c.sourceType, c.sourceId, c.excerpt),
+          c,
+        ])
+      ),
+    [candidates]
+  );
+  const linked = new Set(evidence.map(evidenceRowKey));
+  const options = candidates.filter(
+    (c) =>
+      !linked.has(evidenceCandidateKey(c.sourceType, c.sourceId, c.excerpt))
+  );
+
+  const handleAdd = async () => {
+    if (!user || !selected) return;
+    setBusy(true);
+    const res = await skillsService.addSkillEvidence(
+      user.id,
+      skillId,
+      selected
+    );
+    setBusy(false);
+    if (res.error || !res.data) {
+      handleError(res.error);
+      return;
+    }
+    setEvidence((prev) => [...prev, res.data as DbSkillEvidenceRow]);
+    setSelected(null);
+  };
+
+  const handleRemove = async (row: DbSkillEvidenceRow) => {
+    if (!user) return;
+    const res = await skillsService.removeSkillEvidence(user.id, row.id);
+    if (res.error) {
+      handleError(res.error);
+      return;
+    }
+    setEvidence((prev) => prev.filter((e) => e.id !== row.id));
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>
+        Evidence
+      </Typography>
+
+      {evidence.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Link the bullets, projects and certifications that show this skill.
+        </Typography>
+      ) : (
+        <Stack spacing={1} sx={{ mb: 1.5 }}>
+          {evidence.map((row) => {
+            const candidate = byKey.get(evidenceRowKey(row));
+            return (
+              <Chip
+                key={row.id}
+                variant="outlined"
+                label={
+                  candidate
+                    ? `${SOURCE_LABELS[row.source_type]} · ${candidateText(
+                        candidate
+                      )}`
+                    : // The bullet was edited or the entry is still loading
+                      `${SOURCE_LABELS[row.source_type]} · ${
+                        row.excerpt ?? "Profile entry"
+                      }`
+                }
+                onDelete={() => handleRemove(row)}
+                sx={{
+                  justifyContent: "space-between",
+                  height: "auto",
+                  "& .MuiChip-label": { whiteSpace: "normal", py: 0.5 },
+                }}
+              />
+            );
+          })}
+        </Stack>
+      )}
+
+      <Stack direction="row" spacing={1} alignItems="flex-start">
+        <Autocomplete
+          fullWidth
+          size="small"
+          options={options}
+          value={selected}
+          onChange={(_, value) => setSelected(value)}
+          groupBy={(option) =>
+            option.suggested
+              ? "Mentions this skill"
+              : SOURCE_LABELS[option.sourceType]
+          }
+          getOptionLabel={candidateText}
+          isOptionEqualToValue={(a, b) =>
+            evidenceCandidateKey(a.sourceType, a.sourceId, a.excerpt) ===
+            evidenceCandidateKey(b.sourceType, b.sourceId, b.excerpt)
+          }
+          noOptionsText="No more profile entries to link"
+          renderInput={(params) => (
+            <TextField {...params} label="Add evidence" />
+          )}
+        />
+        <Button
+          variant="outlined"
+          onClick={handleAdd}
+          disabled={!selected || busy}
+        >
+          Link
+        </Button>
+      </Stack>
+    </Box>
+  );
+}
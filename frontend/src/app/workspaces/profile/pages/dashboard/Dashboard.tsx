@@ -66,6 +66,7 @@ import SummaryCards from "../../components/profile/SummaryCards";
 import ProfileCompletion from "../../components/profile/ProfileCompletion";
 import ProfileStrengthTips from "../../components/profile/ProfileStrengthTips";
 import RecentActivityTimeline from "../../components/profile/RecentActivityTimeline";
+import ImportResumeDialog from "../../components/dialogs/ImportResumeDialog";
 
 // Lazy load heavy chart components to improve initial load time
 const SkillsDistributionChart = lazy(
@@ -135,6 +136,7 @@ const Dashboard: FC = () => {
   } = useDashboardData();
 
   const [showOnboardingPrompt, setShowOnboardingPrompt] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
 
   const needsProfileInfo = useMemo(() => {
     if (!profile) return false;
@@ -338,8 +340,15 @@ const Dashboard: FC = () => {
         </Box>
       </Box>
 
-      {/* Export Button - Positioned separately */}
-      <Box sx={{ display: "flex", justifyContent: "flex-end", mb: 2 }}>
+      {/* Import / Export Buttons - Positioned separately */}
+      <Box sx={{ display: "flex", justifyContent: "flex-end", gap: 2, mb: 2 }}>
+        <Button
+          variant="outlined"
+          onClick={() => setImportOpen(true)}
+          aria-label="Import profile from a resume file"
+        >
+          Import Resume
+        </Button>
         <Button
           variant="contained"
           startIcon={<Icon name="Download" color="inherit" />}
@@ -350,6 +359,12 @@ const Dashboard: FC = () => {
         </Button>
       </Box>
 
+      <ImportResumeDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        onSuccess={refresh}
+      />
+
       {/* Main Dashboard Content */}
       <Box sx={{ p: 4, maxWidth: "1200px", margin: "0 auto" }}>
         <Typography variant="h2" mb={3} fontWeight="bold">
@@ -1,7 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@shared/services/supabaseClient';
 import { useAuth } from '@shared/context/AuthContext';
 import { useConfirmDialog } from '@shared/hooks/useConfirmDialog';
+import {
+  applyGithubSkillSuggestions,
+  createProjectFromRepository,
+  getGithubAccount,
+  getGithubSkillSuggestions,
+  languageBreakdown,
+  listRepositories,
+  setRepositoryFeatured,
+  syncGithub,
+} from '@profile/services/github';
+import type {
+  GithubRepository,
+  GithubSkillSuggestion,
+} from '@profile/types/github';
 
 // MUI Imports
 import {
@@ -17,7 +31,9 @@ import {
   Stack,
   CircularProgress,
   Divider,
-  Paper
+  Paper,
+  LinearProgress,
+  Tooltip
 } from '@mui/material';
 
 // Icons
@@ -27,56 +43,57 @@ import SyncIcon from '@mui/icons-material/Sync';
 import CodeIcon from '@mui/icons-material/Code';
 import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
 import HistoryIcon from '@mui/icons-material/History'; // Added for "Last Push"
+import WorkOutlineIcon from '@mui/icons-material/WorkOutline';
+
+type Repo = GithubRepository;
 
-// Minimal local repo type
-type Repo = {
-  id: number;
-  created_at: string;
-  user_id: string | null;
-  name: string | null;
-  full_name: string | null;
-  description: string | null;
-  html_url: string | null;
-  language: string | null;
-  stargazers_count: number | null;
-  forks_count: number | null;
-  pushed_at: string | null; // GitHub's last push time
-  is_featured: boolean | null;
-  updated_at: string | null; // DB's last sync time
-};
+// Fixed palette for the language bar; "Other" is always grey
+const LANGUAGE_COLORS = ['#3178c6', '#f1a035', '#3fb950', '#a371f7'];
 
 export default function GithubRepos() {
-  const { session } = useAuth();
+  const { session, user } = useAuth();
   
   const [repos, setRepos] = useState<Repo[]>([]);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
+  const [syncProgress, setSyncProgress] = useState<{ percent: number; message: string | null } | null>(null);
+  const [accountLinked, setAccountLinked] = useState(false);
+  const [suggestions, setSuggestions] = useState<GithubSkillSuggestion[]>([]);
+  const [selectedSkills, setSelectedSkills] = useState<string[]>([]);
+  const [applyingSkills, setApplyingSkills] = useState(false);
+  const [creatingProjectId, setCreatingProjectId] = useState<number | null>(null);
   const { confirm } = useConfirmDialog();
 
   // 1. Fetch Repos from DB
-  const fetchRepos = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('repositories')
-        .select('*')
-        .order('stargazers_count', { ascending: false }); // Sort by popularity
-
-      if (error) throw error;
-      if (data) setRepos(data);
-    } catch (err) {
-      console.error('Error loading repos:', err);
-    } finally {
-      setLoading(false);
+  const fetchRepos = useCallback(async () => {
+    if (!user?.id) return;
+    setLoading(true);
+    const { data, error } = await listRepositories(user.id); // Sorted by popularity
+    if (error) console.error('Error loading repos:', error.message);
+    else if (data) setRepos(data);
+    setLoading(false);
+  }, [user?.id]);
+
+  const fetchSuggestions = useCallback(async () => {
+    const { data, error } = await getGithubSkillSuggestions();
+    if (error) {
+      console.warn('Skill suggestions unavailable:', error.message);
+      return;
     }
-  };
+    const next = data?.suggestions ?? [];
+    setSuggestions(next);
+    // Preselect new skills; updates are opt-in
+    setSelectedSkills(next.filter(s => s.action === 'add').map(s => s.skill));
+  }, []);
 
   useEffect(() => {
     fetchRepos();
-  }, []);
+    getGithubAccount().then(({ data }) => setAccountLinked(!!data));
+    fetchSuggestions();
+  }, [fetchRepos, fetchSuggestions]);
 
   // 2. Sync Logic
-  const triggerSync = async (token: string) => {
+  const triggerSync = async (token: string | null) => {
     if (syncing) return;
     setSyncing(true);
     console.log("Starting GitHub Sync...");
@@ -115,32 +132,36 @@ export default function GithubRepos() {
       console.warn('Error incrementing github quota:', e);
     }
 
-    try {
-      const { error } = await supabase.functions.invoke('sync-repos', {
-        body: { provider_token: token }
-      });
-
-      if (error) throw error;
+    // The server pulls repositories, READMEs, languages and commit activity
+    setSyncProgress({ percent: 0, message: 'Queued' });
+    const { data, error } = await syncGithub({
+      token,
+      onProgress: (p) => setSyncProgress({ percent: p.progress, message: p.message }),
+    });
+    setSyncProgress(null);
+    setSyncing(false);
 
-      console.log("Sync successful!");
-      await fetchRepos();
-      await confirm({
-        title: 'Sync Complete',
-        message: 'Repositories synced successfully!',
-        confirmText: 'OK',
-        confirmColor: 'primary',
-      });
-    } catch (error) {
-      console.error('Sync Error:', error);
+    if (error || !data) {
+      console.error('Sync Error:', error?.message);
       await confirm({
         title: 'Sync Failed',
-        message: 'Repositories failed to sync. Check console for details.',
+        message: error?.message || 'Repositories failed to sync.',
         confirmText: 'OK',
         confirmColor: 'error',
       });
-    } finally {
-      setSyncing(false);
+      return;
     }
+
+    console.log("Sync successful!", data);
+    setAccountLinked(true);
+    await fetchRepos();
+    await fetchSuggestions();
+    await confirm({
+      title: 'Sync Complete',
+      message: `Synced ${data.repositories} repositories (${data.added} new, ${data.removed} removed).`,
+      confirmText: 'OK',
+      confirmColor: 'primary',
+    });
   };
 
   // 3. Auto-Sync
@@ -156,6 +177,9 @@ export default function GithubRepos() {
     const providerToken = session?.provider_token;
     if (providerToken) {
       await triggerSync(providerToken);
+    } else if (accountLinked) {
+      // The server still has the token from the last sign-in
+      await triggerSync(null);
     } else {
       await supabase.auth.signInWithOAuth({
         provider: 'github',
@@ -166,20 +190,65 @@ export default function GithubRepos() {
 
   // 4. Toggle Featured
   const toggleFeatured = async (id: number, currentStatus: boolean | null) => {
+    if (!user?.id) return;
     // Optimistic UI Update
     setRepos(prev => prev.map(r => r.id === id ? { ...r, is_featured: !currentStatus } : r));
 
-    const { error } = await supabase
-      .from('repositories')
-      .update({ is_featured: !currentStatus })
-      .eq('id', id);
+    const { error } = await setRepositoryFeatured(user.id, id, !currentStatus);
 
     if (error) {
-        console.error('Update failed:', error);
+        console.error('Update failed:', error.message);
         fetchRepos(); // Revert
     }
   };
 
+  // 5. Featured repo -> projects entry (AI-written description)
+  const handleCreateProject = async (repo: Repo) => {
+    setCreatingProjectId(repo.id);
+    const { data, error } = await createProjectFromRepository(repo.id);
+    setCreatingProjectId(null);
+    if (error || !data) {
+      await confirm({
+        title: 'Project Not Created',
+        message: error?.message || 'Could not create the project.',
+        confirmText: 'OK',
+        confirmColor: 'error',
+      });
+      return;
+    }
+    setRepos(prev => prev.map(r => r.id === repo.id ? { ...r, project_id: data.projectId } : r));
+    await confirm({
+      title: 'Project Added',
+      message: data.aiGenerated
+        ? `${repo.name} was added to your projects with an AI-written description. Review it on the Projects page.`
+        : `${repo.name} was added to your projects with the repository description.`,
+      confirmText: 'OK',
+      confirmColor: 'primary',
+    });
+  };
+
+  // 6. Skill suggestions
+  const toggleSkill = (skill: string) => {
+    setSelectedSkills(prev => prev.includes(skill) ? prev.filter(s => s !== skill) : [...prev, skill]);
+  };
+
+  const handleApplySkills = async () => {
+    setApplyingSkills(true);
+    const { data, error } = await applyGithubSkillSuggestions(selectedSkills);
+    setApplyingSkills(false);
+    if (error || !data) {
+      console.error('Applying skills failed:', error?.message);
+      return;
+    }
+    await fetchSuggestions();
+    await confirm({
+      title: 'Skills Updated',
+      message: `Added ${data.added.length} and updated ${data.updated.length} skills.`,
+      confirmText: 'OK',
+      confirmColor: 'primary',
+    });
+  };
+
   // Helper to format dates cleanly
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'N/A';
@@ -190,7 +259,7 @@ export default function GithubRepos() {
     });
   };
 
-  // 5. Computed Lists
+  // 7. Computed Lists
   const featuredRepos = repos.filter(r => r.is_featured);
   const otherRepos = repos.filter(r => !r.is_featured);
 
@@ -240,6 +309,9 @@ export default function GithubRepos() {
           {repo.description || "No description available."}
         </Typography>
 
+        {/* Language Breakdown */}
+        <LanguageBar languages={repo.languages} />
+
         {/* Timestamps Section */}
         <Box sx={{ bgcolor: isHighlight ? 'rgba(255,255,255,0.6)' : 'action.hover', p: 1, borderRadius: 1, mb: 2 }}>
             <Stack spacing={0.5}>
@@ -251,6 +323,16 @@ export default function GithubRepos() {
                     </Typography>
                 </Box>
                 
+                {/* Commit Activity */}
+                {repo.commits_synced_at && (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'text.secondary' }}>
+                    <CommitSparkline weeks={repo.weekly_commits} />
+                    <Typography variant="caption">
+                        {repo.commits_last_year} commits in the last year
+                    </Typography>
+                  </Box>
+                )}
+
                 {/* Last Sync Date (Meta-data) */}
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'text.disabled' }}>
                     <SyncIcon sx={{ fontSize: 16 }} />
@@ -266,6 +348,20 @@ export default function GithubRepos() {
         {/* Footer */}
         <Stack direction="row" justifyContent="space-between" alignItems="center">
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            {isHighlight && (
+              repo.project_id ? (
+                <Chip icon={<WorkOutlineIcon />} label="In projects" size="small" color="success" variant="outlined" />
+              ) : (
+                <Button
+                  size="small"
+                  startIcon={creatingProjectId === repo.id ? <CircularProgress size={14} /> : <WorkOutlineIcon />}
+                  onClick={() => handleCreateProject(repo)}
+                  disabled={creatingProjectId !== null}
+                >
+                  Add as project
+                </Button>
+              )
+            )}
             {repo.language && (
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, color: 'text.secondary', fontSize: '0.8rem' }}>
                 <CodeIcon fontSize="inherit" />
@@ -319,6 +415,51 @@ export default function GithubRepos() {
         </Button>
       </Box>
 
+      {syncProgress && (
+        <Box sx={{ mb: 4 }}>
+          <LinearProgress variant="determinate" value={syncProgress.percent} />
+          <Typography variant="caption" color="text.secondary">
+            {syncProgress.message || 'Syncing...'}
+          </Typography>
+        </Box>
+      )}
+
+      {/* Skill Suggestions from languages, volume and recency */}
+      {suggestions.length > 0 && (
+        <Paper variant="outlined" sx={{ p: 2, mb: 4 }}>
+          <Stack direction="row" justifyContent="space-between" alignItems="center" mb={1}>
+            <Typography variant="h6" fontWeight="bold">
+              Skills from your code
+            </Typography>
+            <Button
+              variant="outlined"
+              size="small"
+              onClick={handleApplySkills}
+              disabled={applyingSkills || selectedSkills.length === 0}
+            >
+              {applyingSkills ? 'Saving...' : `Add ${selectedSkills.length} to skills`}
+            </Button>
+          </Stack>
+          <Stack direction="row" flexWrap="wrap" gap={1}>
+            {suggestions.map(s => (
+              <Tooltip
+                key={s.skill}
+                title={`${Math.round(s.share * 100)}% of your code, ${s.repoCount} repos, ${s.commitsLastYear} commits last year, last used ${formatDate(s.lastUsed)}`}
+              >
+                <Chip
+                  label={s.action === 'add'
+                    ? `${s.skill} · ${s.suggestedProficiency}`
+                    : `${s.skill} · ${s.currentProficiency ?? 'unset'} → ${s.suggestedProficiency}`}
+                  color={selectedSkills.includes(s.skill) ? 'primary' : 'default'}
+                  variant={selectedSkills.includes(s.skill) ? 'filled' : 'outlined'}
+                  onClick={() => toggleSkill(s.skill)}
+                />
+              </Tooltip>
+            ))}
+          </Stack>
+        </Paper>
+      )}
+
       {/* SECTION 1: Featured Repositories */}
       {featuredRepos.length > 0 && (
         <Box sx={{ mb: 6 }}>
@@ -366,4 +507,41 @@ export default function GithubRepos() {
       </Box>
     </Box>
   );
-}
\ No newline at end of file
+}
+
+// Stacked bar of the repository's languages by bytes
+function LanguageBar({ languages }: { languages: Record<string, number> | null }) {
+  const parts = languageBreakdown(languages);
+  if (parts.length === 0) return null;
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Box sx={{ display: 'flex', height: 6, borderRadius: 3, overflow: 'hidden', mb: 0.5 }}>
+        {parts.map((p, i) => (
+          <Box
+            key={p.language}
+            sx={{ width: `${p.share * 100}%`, bgcolor: p.language === 'Other' ? 'grey.400' : LANGUAGE_COLORS[i % LANGUAGE_COLORS.length] }}
+          />
+        ))}
+      </Box>
+      <Typography variant="caption" color="text.secondary">
+        {parts.map(p => `${p.language} ${Math.round(p.share * 100)}%`).join(' · ')}
+      </Typography>
+    </Box>
+  );
+}
+
+// Weekly commits for the last 26 weeks as tiny bars
+function CommitSparkline({ weeks }: { weeks: number[] }) {
+  const recent = (weeks ?? []).slice(-26);
+  const max = Math.max(1, ...recent);
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: '1px', height: 16 }}>
+      {recent.map((count, i) => (
+        <Box
+          key={i}
+          sx={{ width: 2, height: `${Math.max(1, (count / max) * 16)}px`, bgcolor: count ? 'success.main' : 'divider' }}
+        />
+      ))}
+    </Box>
+  );
+}
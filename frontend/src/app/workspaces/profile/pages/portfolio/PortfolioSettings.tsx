@@ -0,0 +1,380 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  FormControlLabel,
+  FormGroup,
+  Link,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import DownloadIcon from "@mui/icons-material/Download";
+import OpenInNewIcon from "@mui/icons-material/OpenInNew";
+import VisibilityIcon from "@mui/icons-material/Visibility";
+import { useAuth } from "@shared/context/AuthContext";
+import { AutoBreadcrumbs } from "@shared/components/navigation/AutoBreadcrumbs";
+import LoadingSpinner from "@shared/components/feedback/LoadingSpinner";
+import { ErrorSnackbar } from "@shared/components/feedback/ErrorSnackbar";
+import { useErrorHandler } from "@shared/hooks/useErrorHandler";
+import { getAllThemes } from "@ai_workspace/services";
+import type { Theme } from "@ai_workspace/types";
+import { useProjectsList } from "@profile/cache";
+import {
+  downloadPortfolioBundle,
+  getPortfolio,
+  portfolioUrl,
+  savePortfolio,
+  toPortfolioSlug,
+} from "@profile/services/portfolio";
+import type {
+  PortfolioSection,
+  PortfolioSections,
+  PortfolioSettings as Settings,
+} from "@profile/types/portfolio";
+
+/*
+  PortfolioSettings — the public portfolio page at /p/<slug>
+
+  - The user picks the address, a theme, which sections are visible and
+    which projects are shown (in the order they are ticked).
+  - Nothing is public until "Published" is on; the view counter comes from
+    the server and only counts published page views.
+  - "Download HTML" renders the saved settings on the server and zips the
+    static files so the page can be hosted anywhere.
+*/
+
+const SECTION_LABELS: Record<PortfolioSection, string> = {
+  about: "About (summary and location)",
+  projects: "Projects",
+  skills: "Skills",
+  employment: "Experience",
+  github: "Featured GitHub repositories",
+};
+
+const DEFAULT_SECTIONS: PortfolioSections = {
+  about: true,
+  projects: true,
+  skills: true,
+  employment: true,
+  github: true,
+};
+
+// Static fallback themes have readable ids; only saved themes can be chosen
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Draft = {
+  slug: string;
+  is_published: boolean;
+  theme_id: string;
+  headline: string;
+  sections: PortfolioSections;
+  project_ids: string[];
+};
+
+function toDraft(settings: Settings | null): Draft {
+  return {
+    slug: settings?.slug ?? "",
+    is_published: settings?.is_published ?? false,
+    theme_id: settings?.theme_id ?? "",
+    headline: settings?.headline ?? "",
+    sections: { ...DEFAULT_SECTIONS, ...settings?.sections },
+    project_ids: settings?.project_ids ?? [],
+  };
+}
+
+export default function PortfolioSettings() {
+  const { user, loading: authLoading } = useAuth();
+  const { data: projects = [], isLoading: projectsLoading } = useProjectsList();
+  const { notification, closeNotification, showSuccess, handleError } =
+    useErrorHandler();
+
+  const [saved, setSaved] = useState<Settings | null>(null);
+  const [draft, setDraft] = useState<Draft>(toDraft(null));
+  const [themes, setThemes] = useState<Theme[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    (async () => {
+      const [portfolio, allThemes] = await Promise.all([
+        getPortfolio(),
+        getAllThemes(user.id),
+      ]);
+      if (cancelled) return;
+      if (portfolio.error) handleError(new Error(portfolio.error.message));
+      setSaved(portfolio.data);
+      setDraft(toDraft(portfolio.data));
+      setThemes(allThemes.filter((theme) => UUID_PATTERN.test(theme.id)));
+      setLoading(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, handleError]);
+
+  const dirty = useMemo(
+    () => JSON.stringify(toDraft(saved)) !== JSON.stringify(draft),
+    [saved, draft]
+  );
+
+  if (authLoading || loading || projectsLoading) return <LoadingSpinner />;
+
+  const update = (patch: Partial<Draft>) =>
+    setDraft((current) => ({ ...current, ...patch }));
+
+  const toggleSection = (section: PortfolioSection, visible: boolean) =>
+    update({ sections: { ...draft.sections, [section]: visible } });
+
+  const toggleProject = (id: string, shown: boolean) =>
+    update({
+      project_ids: shown
+        ? [...draft.project_ids, id]
+        : draft.project_ids.filter((projectId) => projectId !== id),
+    });
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { data, error } = await savePortfolio({
+      slug: toPortfolioSlug(draft.slug),
+      is_published: draft.is_published,
+      theme_id: draft.theme_id || null,
+      headline: draft.headline.trim() || null,
+      sections: draft.sections,
+      project_ids: draft.project_ids,
+    });
+    setSaving(false);
+    if (error || !data) {
+      handleError(new Error(error?.message ?? "Failed to save portfolio"));
+      return;
+    }
+    setSaved(data);
+    setDraft(toDraft(data));
+    showSuccess(data.is_published ? "Portfolio published" : "Portfolio saved");
+  };
+
+  const handleCopy = async () => {
+    if (!saved) return;
+    try {
+      await navigator.clipboard.writeText(portfolioUrl(saved.slug));
+      showSuccess("Link copied");
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    const { error } = await downloadPortfolioBundle();
+    setExporting(false);
+    if (error) handleError(new Error(error.message));
+  };
+
+  const publicUrl = saved ? portfolioUrl(saved.slug) : null;
+
+  return (
+    <Box sx={{ width: "100%", p: 3, pt: 2 }}>
+      <AutoBreadcrumbs />
+      <Box sx={{ maxWidth: 900, mx: "auto" }}>
+        <Box sx={{ textAlign: "center", mb: 3 }}>
+          <Typography variant="h3">Public Portfolio</Typography>
+          <Typography variant="subtitle1" color="text.secondary">
+            Share a read-only page with your projects, skills and experience
+          </Typography>
+        </Box>
+
+        {saved && (
+          <Card variant="outlined" sx={{ mb: 3 }}>
+            <CardContent>
+              <Stack
+                direction={{ xs: "column", sm: "row" }}
+                spacing={2}
+                alignItems={{ sm: "center" }}
+                justifyContent="space-between"
+              >
+                <Box>
+                  <Typography variant="subtitle2" color="text.secondary">
+                    {saved.is_published ? "Live at" : "Not published yet"}
+                  </Typography>
+                  {saved.is_published && publicUrl ? (
+                    <Link href={publicUrl} target="_blank" rel="noopener">
+                      {publicUrl}
+                      <OpenInNewIcon
+                        fontSize="inherit"
+                        sx={{ ml: 0.5, verticalAlign: "middle" }}
+                      />
+                    </Link>
+                  ) : (
+                    <Typography variant="body2">{publicUrl}</Typography>
+                  )}
+                </Box>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <VisibilityIcon fontSize="small" color="action" />
+                  <Typography variant="body2" sx={{ mr: 1 }}>
+                    {saved.view_count.toLocaleString()}{" "}
+                    {saved.view_count === 1 ? "view" : "views"}
+                  </Typography>
+                  <Button
+                    size="small"
+                    startIcon={<ContentCopyIcon />}
+                    onClick={handleCopy}
+                    disabled={!saved.is_published}
+                  >
+                    Copy link
+                  </Button>
+                  <Button
+                    size="small"
+                    startIcon={<DownloadIcon />}
+                    onClick={handleExport}
+                    disabled={exporting}
+                  >
+                    {exporting ? "Exporting..." : "Download HTML"}
+                  </Button>
+                </Stack>
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card variant="outlined" sx={{ mb: 3 }}>
+          <CardContent>
+            <Stack spacing={2}>
+              <TextField
+                label="Address"
+                value={draft.slug}
+                onChange={(e) => update({ slug: e.target.value })}
+                onBlur={() => update({ slug: toPortfolioSlug(draft.slug) })}
+                helperText={`${window.location.origin}/p/${
+                  toPortfolioSlug(draft.slug) || "your-name"
+                } (3-40 letters, digits or hyphens)`}
+                required
+              />
+              <TextField
+                label="Headline"
+                value={draft.headline}
+                onChange={(e) => update({ headline: e.target.value })}
+                helperText="Leave empty to use your professional title"
+                inputProps={{ maxLength: 160 }}
+              />
+              <TextField
+                select
+                label="Theme"
+                value={draft.theme_id}
+                onChange={(e) => update({ theme_id: e.target.value })}
+              >
+                <MenuItem value="">Default</MenuItem>
+                {themes.map((theme) => (
+                  <MenuItem key={theme.id} value={theme.id}>
+                    {theme.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={draft.is_published}
+                    onChange={(e) => update({ is_published: e.target.checked })}
+                  />
+                }
+                label="Published (anyone with the link can see it)"
+              />
+            </Stack>
+          </CardContent>
+        </Card>
+
+        <Card variant="outlined" sx={{ mb: 3 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              Visible sections
+            </Typography>
+            <FormGroup>
+              {(Object.keys(SECTION_LABELS) as PortfolioSection[]).map(
+                (section) => (
+                  <FormControlLabel
+                    key={section}
+                    control={
+                      <Switch
+                        checked={draft.sections[section]}
+                        onChange={(e) =>
+                          toggleSection(section, e.target.checked)
+                        }
+                      />
+                    }
+                    label={SECTION_LABELS[section]}
+                  />
+                )
+              )}
+            </FormGroup>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              Contact details are never shown. Choose which repositories are
+              featured on the GitHub page.
+            </Typography>
+          </CardContent>
+        </Card>
+
+        <Card variant="outlined" sx={{ mb: 3 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              Projects
+            </Typography>
+            {projects.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                You have no projects yet.
+              </Typography>
+            ) : (
+              <FormGroup>
+                {projects.map((project) => {
+                  const position = draft.project_ids.indexOf(project.id);
+                  return (
+                    <FormControlLabel
+                      key={project.id}
+                      disabled={!draft.sections.projects}
+                      control={
+                        <Checkbox
+                          checked={position !== -1}
+                          onChange={(e) =>
+                            toggleProject(project.id, e.target.checked)
+                          }
+                        />
+                      }
+                      label={
+                        position === -1
+                          ? project.projectName
+                          : `${position + 1}. ${project.projectName}`
+                      }
+                    />
+                  );
+                })}
+              </FormGroup>
+            )}
+          </CardContent>
+        </Card>
+
+        <Box sx={{ textAlign: "right" }}>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saving || !draft.slug.trim() || (!dirty && !!saved)}
+          >
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </Box>
+
+        <ErrorSnackbar
+          notification={notification}
+          onClose={closeNotification}
+        />
+      </Box>
+    </Box>
+  );
+}
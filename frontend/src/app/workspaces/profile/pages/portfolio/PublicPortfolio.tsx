@@ -0,0 +1,390 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useParams } from "react-router-dom";
+import { Box, Chip, Link, Stack, Typography } from "@mui/material";
+import StarIcon from "@mui/icons-material/Star";
+import LoadingSpinner from "@shared/components/feedback/LoadingSpinner";
+import { getPublicPortfolio } from "@profile/services/portfolio";
+import type {
+  PortfolioTheme,
+  PublicPortfolio as Portfolio,
+} from "@profile/types/portfolio";
+
+/*
+  PublicPortfolio — read-only page at /p/:slug, no sign-in needed
+
+  Shows only what the server returns for a published portfolio (visible
+  sections only), styled with the owner's theme colors and fonts. The
+  downloadable HTML bundle renders the same content on the server.
+*/
+
+function monthYear(value: string | null): string {
+  if (!value) return "";
+  const date = new Date(`${value.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return "";
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function dateRange(start: string | null, end: string | null, current = false) {
+  const from = monthYear(start);
+  const to = current ? "Present" : monthYear(end);
+  return from && to ? `${from} – ${to}` : from || to;
+}
+
+/** Only http(s) links are rendered as links */
+function safeUrl(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:"
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function fontStack(name: string) {
+  return `"${name}", system-ui, -apple-system, "Segoe UI", sans-serif`;
+}
+
+function Section({
+  title,
+  theme,
+  children,
+}: {
+  title: string;
+  theme: PortfolioTheme;
+  children: ReactNode;
+}) {
+  return (
+    <Box component="section" sx={{ mb: 5 }}>
+      <Typography
+        component="h2"
+        sx={{
+          fontFamily: fontStack(theme.fonts.heading),
+          fontSize: "1.25rem",
+          fontWeight: 700,
+          color: theme.colors.primary,
+          borderBottom: `2px solid ${theme.colors.border}`,
+          pb: 0.75,
+          mb: 2,
+        }}
+      >
+        {title}
+      </Typography>
+      {children}
+    </Box>
+  );
+}
+
+function Card({
+  theme,
+  children,
+}: {
+  theme: PortfolioTheme;
+  children: ReactNode;
+}) {
+  return (
+    <Box
+      component="article"
+      sx={{
+        bgcolor: theme.colors.surface,
+        border: `1px solid ${theme.colors.border}`,
+        borderRadius: 2,
+        px: 2.5,
+        py: 2,
+        mb: 1.5,
+      }}
+    >
+      {children}
+    </Box>
+  );
+}
+
+function Tags({ values, theme }: { values: string[]; theme: PortfolioTheme }) {
+  if (values.length === 0) return null;
+  return (
+    <Stack direction="row" flexWrap="wrap" gap={0.75} sx={{ mt: 1.25 }}>
+      {values.map((value) => (
+        <Chip
+          key={value}
+          label={value}
+          size="small"
+          variant="outlined"
+          sx={{ borderColor: theme.colors.border, color: theme.colors.text }}
+        />
+      ))}
+    </Stack>
+  );
+}
+
+export default function PublicPortfolio() {
+  const { slug = "" } = useParams<{ slug: string }>();
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getPublicPortfolio(slug).then(({ data, error }) => {
+      if (cancelled) return;
+      setPortfolio(data);
+      setError(error?.message ?? null);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  useEffect(() => {
+    if (!portfolio) return;
+    const previous = document.title;
+    document.title = portfolio.headline
+      ? `${portfolio.name} – ${portfolio.headline}`
+      : portfolio.name;
+    return () => {
+      document.title = previous;
+    };
+  }, [portfolio]);
+
+  if (loading) return <LoadingSpinner />;
+
+  if (!portfolio) {
+    return (
+      <Box sx={{ textAlign: "center", py: 12, px: 3 }}>
+        <Typography variant="h5" gutterBottom>
+          Portfolio not found
+        </Typography>
+        <Typography color="text.secondary">{error}</Typography>
+      </Box>
+    );
+  }
+
+  const { theme } = portfolio;
+  const metaSx = { color: theme.colors.secondary, fontSize: "0.9rem" };
+  const cardTitleSx = {
+    fontFamily: fontStack(theme.fonts.heading),
+    fontWeight: 600,
+    fontSize: "1.05rem",
+  };
+
+  return (
+    <Box
+      sx={{
+        minHeight: "100vh",
+        bgcolor: theme.colors.background,
+        color: theme.colors.text,
+        fontFamily: fontStack(theme.fonts.body),
+        "& *": { fontFamily: "inherit" },
+        "& a": { color: theme.colors.primary },
+      }}
+    >
+      <Box
+        component="main"
+        sx={{ maxWidth: 880, mx: "auto", px: 3, pt: 6, pb: 8 }}
+      >
+        <Box component="header" sx={{ mb: 5 }}>
+          <Typography
+            component="h1"
+            sx={{
+              fontFamily: fontStack(theme.fonts.heading),
+              fontSize: "2.25rem",
+              fontWeight: 700,
+            }}
+          >
+            {portfolio.name}
+          </Typography>
+          {portfolio.headline && (
+            <Typography
+              sx={{ fontSize: "1.2rem", color: theme.colors.secondary }}
+            >
+              {portfolio.headline}
+            </Typography>
+          )}
+          {portfolio.about?.location && (
+            <Typography sx={{ color: theme.colors.secondary }}>
+              {portfolio.about.location}
+            </Typography>
+          )}
+          {portfolio.about?.summary && (
+            <Typography sx={{ mt: 2, whiteSpace: "pre-line" }}>
+              {portfolio.about.summary}
+            </Typography>
+          )}
+        </Box>
+
+        {portfolio.projects.length > 0 && (
+          <Section title="Projects" theme={theme}>
+            {portfolio.projects.map((project) => {
+              const url = safeUrl(project.url);
+              const meta = [
+                project.role,
+                dateRange(project.startDate, project.endDate),
+                project.status,
+              ].filter(Boolean);
+              return (
+                <Card key={project.id} theme={theme}>
+                  <Typography component="h3" sx={cardTitleSx}>
+                    {url ? (
+                      <Link href={url} target="_blank" rel="noopener">
+                        {project.name}
+                      </Link>
+                    ) : (
+                      project.name
+                    )}
+                  </Typography>
+                  {meta.length > 0 && (
+                    <Typography sx={metaSx}>{meta.join(" · ")}</Typography>
+                  )}
+                  {project.description && (
+                    <Typography sx={{ mt: 1 }}>
+                      {project.description}
+                    </Typography>
+                  )}
+                  {project.outcomes && (
+                    <Typography sx={{ mt: 1 }}>
+                      <strong>Outcomes:</strong> {project.outcomes}
+                    </Typography>
+                  )}
+                  <Tags values={project.technologies} theme={theme} />
+                </Card>
+              );
+            })}
+          </Section>
+        )}
+
+        {portfolio.skills.length > 0 && (
+          <Section title="Skills" theme={theme}>
+            {portfolio.skills.map((group) => (
+              <Box key={group.category} sx={{ mb: 2 }}>
+                <Typography
+                  component="h3"
+                  sx={{
+                    ...cardTitleSx,
+                    color: theme.colors.secondary,
+                    fontSize: "0.95rem",
+                  }}
+                >
+                  {group.category}
+                </Typography>
+                <Tags
+                  values={group.skills.map((skill) =>
+                    skill.level ? `${skill.name} · ${skill.level}` : skill.name
+                  )}
+                  theme={theme}
+                />
+              </Box>
+            ))}
+          </Section>
+        )}
+
+        {portfolio.employment.length > 0 && (
+          <Section title="Experience" theme={theme}>
+            {portfolio.employment.map((job, index) => (
+              <Card
+                key={`${job.company}-${job.startDate}-${index}`}
+                theme={theme}
+              >
+                <Typography component="h3" sx={cardTitleSx}>
+                  {job.title}
+                </Typography>
+                <Typography sx={metaSx}>
+                  {[
+                    job.company,
+                    job.location,
+                    dateRange(job.startDate, job.endDate, job.current),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </Typography>
+                {job.bullets.length > 0 && (
+                  <Box component="ul" sx={{ mt: 1, mb: 0, pl: 2.5 }}>
+                    {job.bullets.map((bullet, i) => (
+                      <li key={i}>{bullet}</li>
+                    ))}
+                  </Box>
+                )}
+              </Card>
+            ))}
+          </Section>
+        )}
+
+        {portfolio.repositories.length > 0 && (
+          <Section title="Open Source" theme={theme}>
+            <Box
+              sx={{
+                display: "grid",
+                gridTemplateColumns: "repeat(auto-fill, minmax(240px, 1fr))",
+                gap: 1.5,
+                "& article": { mb: 0 },
+              }}
+            >
+              {portfolio.repositories.map((repo) => {
+                const url = safeUrl(repo.url);
+                const homepage = safeUrl(repo.homepage);
+                return (
+                  <Card key={repo.url} theme={theme}>
+                    <Typography component="h3" sx={cardTitleSx}>
+                      {url ? (
+                        <Link href={url} target="_blank" rel="noopener">
+                          {repo.name}
+                        </Link>
+                      ) : (
+                        repo.name
+                      )}
+                    </Typography>
+                    <Stack
+                      direction="row"
+                      spacing={1}
+                      alignItems="center"
+                      sx={metaSx}
+                    >
+                      {repo.language && <span>{repo.language}</span>}
+                      {repo.stars > 0 && (
+                        <Stack direction="row" alignItems="center">
+                          <StarIcon sx={{ fontSize: 14, mr: 0.25 }} />
+                          {repo.stars}
+                        </Stack>
+                      )}
+                    </Stack>
+                    {repo.description && (
+                      <Typography sx={{ mt: 1 }}>{repo.description}</Typography>
+                    )}
+                    {homepage && (
+                      <Link
+                        href={homepage}
+                        target="_blank"
+                        rel="noopener"
+                        sx={{ display: "block", mt: 1 }}
+                      >
+                        Live site
+                      </Link>
+                    )}
+                    <Tags values={repo.topics} theme={theme} />
+                  </Card>
+                );
+              })}
+            </Box>
+          </Section>
+        )}
+
+        <Typography
+          component="footer"
+          sx={{
+            textAlign: "center",
+            fontSize: "0.85rem",
+            color: theme.colors.secondary,
+          }}
+        >
+          Updated {monthYear(portfolio.updatedAt)}
+        </Typography>
+      </Box>
+    </Box>
+  );
+}
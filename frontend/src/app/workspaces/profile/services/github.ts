@@ -0,0 +1,170 @@
+/**
+ * GITHUB SERVICE
+ *
+ * Synced GitHub repositories and what they say about the user's skills:
+ * - syncGithub: the server pulls repositories, READMEs, language bytes and
+ *   commit activity (github_sync background job) and reports progress
+ * - getGithubSkillSuggestions / applyGithubSkillSuggestions: languages by
+ *   volume and recency, compared with the profile's skills
+ * - createProjectFromRepository: add a repository to `projects` with an
+ *   AI-written description
+ *
+ * Connection:
+ * - Backend: /api/github/* (server/src/routes/github)
+ * - Repository rows are read from `repositories` directly (RLS: own rows)
+ */
+
+import aiClient from "@shared/services/ai/client";
+import * as crud from "@shared/services/crud";
+import { waitForBackgroundJob } from "@shared/services/backgroundJobs";
+import type {
+  BackgroundJob,
+  BackgroundJobProgress,
+} from "@shared/services/backgroundJobs";
+import type { Result } from "@shared/services/types";
+import type {
+  GithubAccount,
+  GithubApplySkillsResult,
+  GithubRepository,
+  GithubSkillSuggestions,
+  GithubSyncResult,
+} from "@profile/types/github";
+
+function fail<T>(err: unknown, fallback: string): Result<T> {
+  const message = err instanceof Error ? err.message : fallback;
+  return { data: null, error: { message, status: null }, status: null };
+}
+
+export async function listRepositories(
+  userId: string
+): Promise<Result<GithubRepository[]>> {
+  return crud.withUser(userId).listRows<GithubRepository>("repositories", "*", {
+    order: { column: "stargazers_count", ascending: false },
+  });
+}
+
+export async function setRepositoryFeatured(
+  userId: string,
+  repoId: number,
+  featured: boolean
+): Promise<Result<GithubRepository>> {
+  return crud
+    .withUser(userId)
+    .updateRow<GithubRepository>(
+      "repositories",
+      { is_featured: featured },
+      { eq: { id: repoId } }
+    );
+}
+
+/** Linked account, or null when none is linked */
+export async function getGithubAccount(): Promise<
+  Result<GithubAccount | null>
+> {
+  try {
+    const { account } = await aiClient.getJson<{
+      account: GithubAccount | null;
+    }>("/api/github/account");
+    return { data: account, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to load GitHub account");
+  }
+}
+
+/**
+ * Sync repositories on the server and wait for the job.
+ * `token` (the GitHub sign-in's provider_token) links or refreshes the
+ * account first; without it the stored token is used.
+ */
+export async function syncGithub(
+  options: {
+    token?: string | null;
+    onProgress?: (progress: BackgroundJobProgress) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<Result<GithubSyncResult>> {
+  try {
+    const { job } = await aiClient.postJson<{ job: BackgroundJob }>(
+      "/api/github/sync",
+      options.token ? { token: options.token } : {}
+    );
+    const result = await waitForBackgroundJob<GithubSyncResult>(job.id, {
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+    return { data: result, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "GitHub sync failed");
+  }
+}
+
+export async function getGithubSkillSuggestions(): Promise<
+  Result<GithubSkillSuggestions>
+> {
+  try {
+    const data =
+      await aiClient.getJson<GithubSkillSuggestions>("/api/github/skills");
+    return { data, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to load skill suggestions");
+  }
+}
+
+export async function applyGithubSkillSuggestions(
+  skills: string[]
+): Promise<Result<GithubApplySkillsResult>> {
+  try {
+    const data = await aiClient.postJson<GithubApplySkillsResult>(
+      "/api/github/skills/apply",
+      { skills }
+    );
+    return { data, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to update skills");
+  }
+}
+
+export async function createProjectFromRepository(
+  repoId: number,
+  options: { useAi?: boolean } = {}
+): Promise<Result<{ projectId: string; aiGenerated: boolean }>> {
+  try {
+    const { project, aiGenerated } = await aiClient.postJson<{
+      project: { id: string };
+      aiGenerated: boolean;
+    }>(`/api/github/repositories/${repoId}/project`, {
+      useAi: options.useAi ?? true,
+    });
+    return {
+      data: { projectId: project.id, aiGenerated },
+      error: null,
+      status: 201,
+    };
+  } catch (err) {
+    return fail(err, "Failed to create project");
+  }
+}
+
+/**
+ * Largest languages by bytes with their share (0-1); the rest is summed
+ * as "Other"
+ */
+export function languageBreakdown(
+  languages: Record<string, number> | null | undefined,
+  top = 4
+): Array<{ language: string; bytes: number; share: number }> {
+  const entries = Object.entries(languages ?? {})
+    .filter(([, bytes]) => bytes > 0)
+    .sort((a, b) => b[1] - a[1]);
+  const total = entries.reduce((sum, [, bytes]) => sum + bytes, 0);
+  if (!total) return [];
+
+  const shown = entries.slice(0, top);
+  const rest = entries.slice(top).reduce((sum, [, bytes]) => sum + bytes, 0);
+  if (rest > 0) shown.push(["Other", rest]);
+  return shown.map(([language, bytes]) => ({
+    language,
+    bytes,
+    share: bytes / total,
+  }));
+}
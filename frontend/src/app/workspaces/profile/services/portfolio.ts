@@ -0,0 +1,130 @@
+/**
+ * PORTFOLIO SERVICE
+ *
+ * The public, read-only portfolio page built from the profile:
+ * - getPortfolio / savePortfolio: slug, theme, visible sections and the
+ *   projects shown (nothing is public until is_published)
+ * - getPublicPortfolio: a published page by slug, for anyone; the server
+ *   counts the view
+ * - downloadPortfolioBundle: the page as a static index.html + styles.css
+ *   zip that can be hosted anywhere
+ *
+ * Connection:
+ * - Backend: /api/portfolio and /api/public/portfolios/:slug
+ *   (server/src/routes/portfolio)
+ */
+
+import JSZip from "jszip";
+import aiClient from "@shared/services/ai/client";
+import { toApiUrl } from "@shared/services/apiUrl";
+import type { Result } from "@shared/services/types";
+import type {
+  PortfolioBundle,
+  PortfolioSettings,
+  PortfolioUpdate,
+  PublicPortfolio,
+} from "@profile/types/portfolio";
+
+function fail<T>(err: unknown, fallback: string): Result<T> {
+  const message = err instanceof Error ? err.message : fallback;
+  const status = (err as { status?: number } | null)?.status ?? null;
+  return { data: null, error: { message, status }, status };
+}
+
+/** Public address of a portfolio in this app */
+export function portfolioUrl(slug: string, origin = window.location.origin) {
+  return `${origin}/p/${encodeURIComponent(slug)}`;
+}
+
+/** "My Portfolio" -> "my-portfolio" (the server applies the same rule) */
+export function toPortfolioSlug(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .replace(/-+/g, "-");
+}
+
+/** The user's settings, or null until they have saved a portfolio */
+export async function getPortfolio(): Promise<
+  Result<PortfolioSettings | null>
+> {
+  try {
+    const { portfolio } = await aiClient.getJson<{
+      portfolio: PortfolioSettings | null;
+    }>("/api/portfolio");
+    return { data: portfolio, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to load portfolio");
+  }
+}
+
+/** Create or update the settings; 409 when the slug is taken */
+export async function savePortfolio(
+  update: PortfolioUpdate
+): Promise<Result<PortfolioSettings>> {
+  try {
+    const { portfolio } = await aiClient.patchJson<{
+      portfolio: PortfolioSettings;
+    }>(toApiUrl("/api/portfolio"), update);
+    return { data: portfolio, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to save portfolio");
+  }
+}
+
+/** Published page content; works without signing in */
+export async function getPublicPortfolio(
+  slug: string
+): Promise<Result<PublicPortfolio>> {
+  try {
+    const resp = await fetch(
+      toApiUrl(`/api/public/portfolios/${encodeURIComponent(slug)}`)
+    );
+    const body = await resp.json().catch(() => null);
+    if (!resp.ok) {
+      const message =
+        resp.status === 404
+          ? "This portfolio does not exist or is not published"
+          : body?.message || body?.error || `Request failed (${resp.status})`;
+      return {
+        data: null,
+        error: { message, status: resp.status },
+        status: resp.status,
+      };
+    }
+    return { data: body.portfolio, error: null, status: resp.status };
+  } catch (err) {
+    return fail(err, "Failed to load portfolio");
+  }
+}
+
+/** Zip of the static files, named after the slug */
+export async function buildPortfolioZip(
+  bundle: PortfolioBundle
+): Promise<Blob> {
+  const zip = new JSZip();
+  for (const file of bundle.files) zip.file(file.path, file.content);
+  return zip.generateAsync({ type: "blob" });
+}
+
+/** Render the saved settings on the server and download them as a zip */
+export async function downloadPortfolioBundle(): Promise<Result<string>> {
+  try {
+    const bundle = await aiClient.getJson<PortfolioBundle>(
+      "/api/portfolio/export"
+    );
+    const blob = await buildPortfolioZip(bundle);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = bundle.fileName;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+    return { data: bundle.fileName, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to export portfolio");
+  }
+}
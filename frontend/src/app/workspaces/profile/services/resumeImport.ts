@@ -0,0 +1,142 @@
+/**
+ * RESUME IMPORT SERVICE
+ *
+ * Fill the profile from an existing resume (PDF or Word .docx):
+ * 1. parseResume(file) - the server extracts and segments the text and diffs
+ *    it against the profile; nothing is saved yet
+ * 2. The user reviews the preview (ImportResumeDialog)
+ * 3. mergeResume(buildMergeInput(preview, selection)) writes what they kept
+ *
+ * Connection:
+ * - Backend: /api/resume-import/* (server/src/routes/resume-import)
+ */
+
+import aiClient from "@shared/services/ai/client";
+import type { Result } from "@shared/services/types";
+import type {
+  ResumeImportPreview,
+  ResumeImportSelection,
+  ResumeMergeInput,
+  ResumeMergeItem,
+  ResumeMergeResult,
+} from "@profile/types/resumeImport";
+
+/** Same limit as the server (MAX_RESUME_FILE_BYTES) */
+export const MAX_RESUME_FILE_BYTES = 5 * 1024 * 1024;
+
+export const RESUME_FILE_ACCEPT =
+  ".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+function fail<T>(err: unknown, fallback: string): Result<T> {
+  const message = err instanceof Error ? err.message : fallback;
+  return { data: null, error: { message, status: null }, status: null };
+}
+
+/** Why a file can't be imported, or null if it can */
+export function validateResumeFile(file: File): string | null {
+  if (!/\.(pdf|docx)$/i.test(file.name)) {
+    return file.name.toLowerCase().endsWith(".doc")
+      ? "Older .doc files are not supported; save the resume as .docx or PDF"
+      : "Upload a PDF or Word (.docx) resume";
+  }
+  if (file.size > MAX_RESUME_FILE_BYTES) {
+    return "Resume files are limited to 5 MB";
+  }
+  if (file.size === 0) return "The file is empty";
+  return null;
+}
+
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // "data:<type>;base64,<content>"
+    reader.onload = () =>
+      resolve(String(reader.result).replace(/^data:[^,]*,/, ""));
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Could not read the file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Read a resume and preview what it would add or change */
+export async function parseResume(
+  file: File,
+  options: { useAi?: boolean } = {}
+): Promise<Result<ResumeImportPreview>> {
+  const invalid = validateResumeFile(file);
+  if (invalid) return fail(new Error(invalid), "");
+  try {
+    const { preview } = await aiClient.postJson<{
+      preview: ResumeImportPreview;
+    }>("/api/resume-import/parse", {
+      fileName: file.name,
+      contentBase64: await readFileAsBase64(file),
+      useAi: options.useAi ?? true,
+    });
+    return { data: preview, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to read resume");
+  }
+}
+
+/**
+ * Merge request for the entries the user kept. Updates only send the fields
+ * that changed (plus the user's edits) so untouched columns keep their
+ * current values; duplicates are never sent.
+ */
+export function buildMergeInput(
+  preview: ResumeImportPreview,
+  selection: ResumeImportSelection
+): ResumeMergeInput {
+  const kept = new Set(selection.itemIds);
+  const items: ResumeMergeItem[] = [];
+
+  for (const item of preview.items) {
+    if (!kept.has(item.id) || item.action === "duplicate") continue;
+    const edits = selection.edits?.[item.id] ?? {};
+    if (item.action === "new") {
+      items.push({
+        section: item.section,
+        action: "new",
+        data: { ...item.data, ...edits },
+      });
+      continue;
+    }
+    const changed = Object.fromEntries(
+      item.changes.map((change) => [change.field, change.imported])
+    );
+    items.push({
+      section: item.section,
+      action: "update",
+      existingId: item.existingId ?? undefined,
+      data: { ...changed, ...edits },
+    });
+  }
+
+  const profileFields = new Set(selection.profileFields);
+  const profile = Object.fromEntries(
+    preview.profile.changes
+      .filter((change) => profileFields.has(change.field))
+      .map((change) => [change.field, change.imported])
+  );
+
+  return Object.keys(profile).length ? { profile, items } : { items };
+}
+
+/** Write the reviewed entries; entries that fail are listed in results */
+export async function mergeResume(
+  input: ResumeMergeInput
+): Promise<Result<ResumeMergeResult>> {
+  if (!input.items.length && !input.profile) {
+    return fail(new Error("Nothing selected to import"), "");
+  }
+  try {
+    const result = await aiClient.postJson<ResumeMergeResult>(
+      "/api/resume-import/merge",
+      input
+    );
+    return { data: result, error: null, status: 200 };
+  } catch (err) {
+    return fail(err, "Failed to import resume");
+  }
+}
@@ -1,9 +1,20 @@
 import crud from "@shared/services/crud";
 import { supabase } from "@shared/services/supabaseClient";
-import type { DbSkillRow, SkillItem } from "@profile/types/skill";
+import type { SkillResolver } from "@shared/services/skillTaxonomy";
+import type { Result } from "@shared/services/types";
+import type {
+  DbSkillEvidenceRow,
+  DbSkillRow,
+  SkillEvidenceCandidate,
+  SkillEvidenceSource,
+  SkillItem,
+} from "@profile/types/skill";
+import type { EmploymentRow } from "@profile/types/employment";
+import type { Project } from "@profile/types/project";
+import type { Certification } from "@profile/types/certification";
 
 const PROJECTION =
-  "id,skill_name,proficiency_level,skill_category,metadata,created_at,updated_at";
+  "id,skill_name,proficiency_level,skill_category,taxonomy_id,metadata,created_at,updated_at";
 
 function mapRowToSkill(r: DbSkillRow): SkillItem {
   return {
@@ -26,6 +37,25 @@ function mapRowToSkill(r: DbSkillRow): SkillItem {
       return undefined;
     })(),
     meta: r.metadata ?? null,
+    taxonomyId: r.taxonomy_id ?? null,
+  };
+}
+
+/**
+ * Canonical name and taxonomy id for a new skill ("JS" -> "JavaScript").
+ * The category follows the taxonomy only when the caller left it empty.
+ */
+export function normalizeSkillRow(
+  payload: DbSkillRow,
+  resolver: SkillResolver
+): DbSkillRow {
+  const normalized = resolver.normalize(payload.skill_name ?? "");
+  return {
+    ...payload,
+    skill_name: normalized.name,
+    taxonomy_id: normalized.id,
+    skill_category:
+      payload.skill_category || normalized.category || "Technical",
   };
 }
 
@@ -46,8 +76,13 @@ export async function listSkills(userId: string) {
   return { data: mapped, error: null };
 }
 
-export async function createSkill(userId: string, payload: DbSkillRow) {
+export async function createSkill(
+  userId: string,
+  payload: DbSkillRow,
+  resolver?: SkillResolver
+) {
   const userCrud = crud.withUser(userId);
+  const row = resolver ? normalizeSkillRow(payload, resolver) : payload;
 
   // Ensure profile exists before creating skill (skills table has FK to profiles)
   // Use direct supabase query since profiles table doesn't have user_id column
@@ -102,7 +137,7 @@ export async function createSkill(userId: string, payload: DbSkillRow) {
     }
   }
 
-  const res = await userCrud.insertRow("skills", payload, "*");
+  const res = await userCrud.insertRow("skills", row, "*");
   if (res.error) return { data: null, error: res.error };
   const inserted = Array.isArray(res.data) ? res.data[0] : res.data;
   return { data: mapRowToSkill(inserted as DbSkillRow), error: null };
@@ -217,10 +252,166 @@ export async function batchUpdateSkills(
   return { data: updatedRows, error: null };
 }
 
+// ============================================================================
+// Evidence (employment bullets, projects and certifications behind a skill)
+// ============================================================================
+
+export async function listSkillEvidence(
+  userId: string,
+  skillId: string
+): Promise<Result<DbSkillEvidenceRow[]>> {
+  return crud
+    .withUser(userId)
+    .listRows<DbSkillEvidenceRow>("skill_evidence", "*", {
+      eq: { skill_id: skillId },
+      order: { column: "created_at", ascending: true },
+    });
+}
+
+const SOURCE_COLUMN: Record<SkillEvidenceSource, string> = {
+  employment: "employment_id",
+  project: "project_id",
+  certification: "certification_id",
+};
+
+export async function addSkillEvidence(
+  userId: string,
+  skillId: string,
+  candidate: Pick<
+    SkillEvidenceCandidate,
+    "sourceType" | "sourceId" | "excerpt"
+  >,
+  note?: string
+): Promise<Result<DbSkillEvidenceRow>> {
+  return crud.withUser(userId).insertRow<DbSkillEvidenceRow>(
+    "skill_evidence",
+    {
+      skill_id: skillId,
+      source_type: candidate.sourceType,
+      [SOURCE_COLUMN[candidate.sourceType]]: candidate.sourceId,
+      excerpt: candidate.sourceType === "employment" ? candidate.excerpt : null,
+      note: note?.trim() || null,
+    },
+    "*"
+  );
+}
+
+export async function removeSkillEvidence(userId: string, id: string) {
+  return crud.withUser(userId).deleteRow("skill_evidence", { eq: { id } });
+}
+
+/** Achievement bullets, or the description's lines when there are none */
+export function employmentBullets(row: EmploymentRow): string[] {
+  const lines = row.achievements?.length
+    ? row.achievements
+    : (row.job_description ?? "").split(/\r?\n/);
+  return lines
+    .map((line) => line.replace(/^\s*(?:[-*•‣▪◦]|\d+[.)])\s*/, "").trim())
+    .filter(Boolean);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whether text mentions any form of a skill as a whole word. Forms of two
+ * letters or fewer ("Go", "JS") must match case so "go live" is not Go.
+ */
+function mentionsSkill(text: string, forms: string[]): boolean {
+  return forms.some((form) => {
+    if (form.length < 2) return false;
+    const short = form.length <= 2;
+    const pattern = new RegExp(
+      `(^|[^A-Za-z0-9+#])${escapeRegExp(form)}($|[^A-Za-z0-9+#])`,
+      short ? "" : "i"
+    );
+    return pattern.test(text);
+  });
+}
+
+/** Stable key for a candidate, to tell which ones are already linked */
+export function evidenceCandidateKey(
+  sourceType: SkillEvidenceSource,
+  sourceId: string,
+  excerpt: string | null
+): string {
+  return `${sourceType}:${sourceId}:${excerpt ?? ""}`;
+}
+
+export function evidenceRowKey(row: DbSkillEvidenceRow): string {
+  const sourceId =
+    row.employment_id ?? row.project_id ?? row.certification_id ?? "";
+  return evidenceCandidateKey(row.source_type, sourceId, row.excerpt);
+}
+
+/**
+ * Profile entries that could back a skill: one per employment bullet, plus
+ * projects and certifications. Entries that mention the skill (or one of
+ * its aliases) are marked suggested and listed first.
+ */
+export function findEvidenceCandidates(
+  skillName: string,
+  resolver: SkillResolver,
+  sources: {
+    employment: EmploymentRow[];
+    projects: Project[];
+    certifications: Certification[];
+  }
+): SkillEvidenceCandidate[] {
+  const skill = resolver.resolve(skillName);
+  const forms = skill ? [skill.name, ...skill.aliases] : [skillName.trim()];
+  const key = resolver.key(skillName);
+  const candidates: SkillEvidenceCandidate[] = [];
+
+  for (const job of sources.employment) {
+    for (const bullet of employmentBullets(job)) {
+      candidates.push({
+        sourceType: "employment",
+        sourceId: job.id,
+        label: `${job.job_title} · ${job.company_name}`,
+        excerpt: bullet,
+        suggested: mentionsSkill(bullet, forms),
+      });
+    }
+  }
+  for (const project of sources.projects) {
+    const listed = (project.technologies ?? "")
+      .split(",")
+      .some((tech) => tech.trim() && resolver.key(tech) === key);
+    candidates.push({
+      sourceType: "project",
+      sourceId: project.id,
+      label: project.projectName,
+      excerpt: null,
+      suggested:
+        listed ||
+        mentionsSkill(`${project.description} ${project.outcomes}`, forms),
+    });
+  }
+  for (const cert of sources.certifications) {
+    candidates.push({
+      sourceType: "certification",
+      sourceId: cert.id,
+      label: cert.organization
+        ? `${cert.name} · ${cert.organization}`
+        : cert.name,
+      excerpt: null,
+      suggested: mentionsSkill(`${cert.name} ${cert.category}`, forms),
+    });
+  }
+
+  // Stable sort: suggested first, profile order otherwise
+  return candidates.sort((a, b) => Number(b.suggested) - Number(a.suggested));
+}
+
 export default {
   listSkills,
   createSkill,
   updateSkill,
   deleteSkill,
   batchUpdateSkills,
+  listSkillEvidence,
+  addSkillEvidence,
+  removeSkillEvidence,
 };
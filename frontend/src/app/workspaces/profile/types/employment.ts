@@ -7,6 +7,7 @@ export type EmploymentRow = {
   start_date: string; // ISO date (YYYY-MM-DD)
   end_date?: string | null;
   job_description?: string | null;
+  achievements?: string[] | null;
   current_position: boolean;
   created_at: string;
   updated_at: string;
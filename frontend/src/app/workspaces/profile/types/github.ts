@@ -0,0 +1,91 @@
+// GitHub account, synced repositories and skill evidence (server: /api/github/*)
+
+export type GithubAccount = {
+  user_id: string;
+  github_user_id: number;
+  login: string;
+  avatar_url: string | null;
+  html_url: string | null;
+  last_synced_at: string | null;
+  last_sync_status: "succeeded" | "failed" | null;
+  last_sync_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Row of the `repositories` table */
+export type GithubRepository = {
+  id: number;
+  created_at: string;
+  user_id: string;
+  github_id: number | null;
+  name: string;
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  homepage: string | null;
+  language: string | null;
+  topics: string[];
+  stargazers_count: number;
+  forks_count: number;
+  is_fork: boolean;
+  is_archived: boolean;
+  repo_created_at: string | null;
+  pushed_at: string | null;
+  /** Bytes per language */
+  languages: Record<string, number>;
+  readme_excerpt: string | null;
+  /** Owner's commits per week for the last 52 weeks, oldest first */
+  weekly_commits: number[];
+  commits_last_year: number;
+  commits_synced_at: string | null;
+  is_featured: boolean;
+  project_id: string | null;
+  updated_at: string;
+};
+
+export type GithubProficiency =
+  "beginner" | "intermediate" | "advanced" | "expert";
+
+export type GithubSkillEvidence = {
+  skill: string;
+  category: "Technical" | "Soft" | "Language" | "Tool" | "Framework" | "Other";
+  languages: string[];
+  bytes: number;
+  /** Share of all code bytes, 0-1 */
+  share: number;
+  repoCount: number;
+  commitsLastYear: number;
+  firstUsed: string | null;
+  lastUsed: string | null;
+  years: number;
+  suggestedProficiency: GithubProficiency;
+  repos: string[];
+};
+
+export type GithubSkillSuggestion = GithubSkillEvidence & {
+  action: "add" | "update";
+  currentProficiency: GithubProficiency | null;
+};
+
+export type GithubSkillSuggestions = {
+  evidence: GithubSkillEvidence[];
+  suggestions: GithubSkillSuggestion[];
+};
+
+export type GithubSyncResult = {
+  login: string;
+  repositories: number;
+  added: number;
+  updated: number;
+  removed: number;
+  detailed: number;
+  requests: number;
+  skills: GithubSkillEvidence[];
+};
+
+export type GithubApplySkillsResult = {
+  added: string[];
+  updated: string[];
+  skipped: string[];
+};
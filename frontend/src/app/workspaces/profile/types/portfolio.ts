@@ -0,0 +1,107 @@
+// Public portfolio settings and page content (server: /api/portfolio, /api/public/portfolios/:slug)
+
+export type PortfolioSection =
+  "about" | "projects" | "skills" | "employment" | "github";
+
+export type PortfolioSections = Record<PortfolioSection, boolean>;
+
+/** Row of the `portfolios` table */
+export type PortfolioSettings = {
+  user_id: string;
+  slug: string;
+  is_published: boolean;
+  theme_id: string | null;
+  headline: string | null;
+  sections: PortfolioSections;
+  /** Projects shown, in order */
+  project_ids: string[];
+  view_count: number;
+  last_viewed_at: string | null;
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/** PATCH /api/portfolio body; slug is required the first time */
+export type PortfolioUpdate = Partial<
+  Pick<
+    PortfolioSettings,
+    | "slug"
+    | "is_published"
+    | "theme_id"
+    | "headline"
+    | "sections"
+    | "project_ids"
+  >
+>;
+
+export type PortfolioTheme = {
+  name: string | null;
+  colors: {
+    primary: string;
+    text: string;
+    secondary: string;
+    border: string;
+    background: string;
+    surface: string;
+  };
+  fonts: { heading: string; body: string };
+};
+
+export type PublicPortfolioProject = {
+  id: string;
+  name: string;
+  description: string | null;
+  role: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  status: string | null;
+  technologies: string[];
+  outcomes: string | null;
+  url: string | null;
+};
+
+export type PublicPortfolioSkillGroup = {
+  category: string;
+  skills: Array<{ name: string; level: string | null }>;
+};
+
+export type PublicPortfolioJob = {
+  title: string;
+  company: string;
+  location: string | null;
+  startDate: string;
+  endDate: string | null;
+  current: boolean;
+  bullets: string[];
+};
+
+export type PublicPortfolioRepository = {
+  name: string;
+  description: string | null;
+  url: string;
+  homepage: string | null;
+  language: string | null;
+  stars: number;
+  topics: string[];
+};
+
+/** Published page content; hidden sections are null or empty */
+export type PublicPortfolio = {
+  slug: string;
+  name: string;
+  headline: string | null;
+  about: { summary: string | null; location: string | null } | null;
+  projects: PublicPortfolioProject[];
+  skills: PublicPortfolioSkillGroup[];
+  employment: PublicPortfolioJob[];
+  repositories: PublicPortfolioRepository[];
+  theme: PortfolioTheme;
+  views: number;
+  updatedAt: string;
+};
+
+export type PortfolioBundle = {
+  fileName: string;
+  files: Array<{ path: string; content: string }>;
+};
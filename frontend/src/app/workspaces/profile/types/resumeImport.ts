@@ -0,0 +1,82 @@
+// Resume import preview and merge types (server: /api/resume-import/*)
+
+export type ResumeSection =
+  "employment" | "education" | "skills" | "projects" | "certifications";
+
+/**
+ * new: not in the profile yet
+ * update: matches an existing row with different values
+ * duplicate: matches an existing row with nothing new
+ */
+export type ResumeImportAction = "new" | "update" | "duplicate";
+
+export type ResumeFieldChange = {
+  field: string;
+  current: unknown;
+  imported: unknown;
+};
+
+export type ResumeImportItem = {
+  id: string;
+  section: ResumeSection;
+  action: ResumeImportAction;
+  existingId: string | null;
+  /** Imported row in the table's column names */
+  data: Record<string, unknown>;
+  /** For updates: imported values that differ from the existing row */
+  changes: ResumeFieldChange[];
+  /** Required columns the resume did not provide */
+  missing: string[];
+  /** Fields that are a best guess */
+  ambiguous: string[];
+  /** 0-1 */
+  confidence: number;
+  /** Resume text the entry was read from */
+  source: string;
+};
+
+export type ResumeImportPreview = {
+  format: "pdf" | "docx" | "txt";
+  pages: number;
+  profile: { changes: ResumeFieldChange[] };
+  items: ResumeImportItem[];
+  /** Text that could not be placed in any section */
+  unassigned: string[];
+  ai: { used: boolean; resolved: number };
+};
+
+/** What the user kept in the review step */
+export type ResumeImportSelection = {
+  /** Profile fields to take from the resume */
+  profileFields: string[];
+  /** Item ids to write */
+  itemIds: string[];
+  /** Values the user filled in or corrected, by item id */
+  edits?: Record<string, Record<string, unknown>>;
+};
+
+export type ResumeMergeItem = {
+  section: ResumeSection;
+  action: "new" | "update";
+  existingId?: string;
+  data: Record<string, unknown>;
+};
+
+export type ResumeMergeInput = {
+  profile?: Record<string, unknown>;
+  items: ResumeMergeItem[];
+};
+
+export type ResumeMergeResult = {
+  profileUpdated: boolean;
+  created: number;
+  updated: number;
+  failed: number;
+  results: Array<{
+    index: number;
+    section: ResumeSection;
+    action: "new" | "update";
+    id: string | null;
+    error: string | null;
+  }>;
+};
@@ -11,6 +11,8 @@ export type DbSkillRow = {
     | "expert"
     | string;
   skill_category?: string;
+  /** Skills taxonomy id; null for skills outside the taxonomy */
+  taxonomy_id?: string | null;
   metadata?: Record<string, unknown> | null;
   created_at?: string;
   updated_at?: string;
@@ -31,6 +33,36 @@ export type SkillItem = {
   // Preserve the raw meta object coming from the DB (if any). This is
   // helpful for future small feature flags without schema changes.
   meta?: Record<string, unknown> | null;
+  // Canonical skill id from the skills taxonomy (null for custom skills)
+  taxonomyId?: string | null;
+};
+
+// Evidence that backs a skill: an employment bullet, a project or a
+// certification (table `skill_evidence`)
+export type SkillEvidenceSource = "employment" | "project" | "certification";
+
+export type DbSkillEvidenceRow = {
+  id: string;
+  user_id: string;
+  skill_id: string;
+  source_type: SkillEvidenceSource;
+  employment_id: string | null;
+  project_id: string | null;
+  certification_id: string | null;
+  // Bullet text for employment evidence
+  excerpt: string | null;
+  note: string | null;
+  created_at: string;
+};
+
+// A profile entry that could be linked as evidence
+export type SkillEvidenceCandidate = {
+  sourceType: SkillEvidenceSource;
+  sourceId: string;
+  label: string;
+  excerpt: string | null;
+  // The entry mentions the skill (by name or alias)
+  suggested: boolean;
 };
 
 // Compact UI skill used by SkillsOverview mapping
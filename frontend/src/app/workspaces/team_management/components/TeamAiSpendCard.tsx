@@ -0,0 +1,146 @@
+/**
+ * TEAM AI SPEND CARD
+ *
+ * Purpose:
+ * - Show team admins how many AI tokens each member used and the estimated cost
+ * - Helps admins spot heavy usage before members hit their quotas
+ *
+ * Data Sources:
+ * - GET /api/ai/usage/teams (server-side ledger, admin-only)
+ *
+ * Usage:
+ *   <TeamAiSpendCard teamId={currentTeam.id} />
+ */
+
+import { useState, useEffect } from "react";
+import {
+  Paper,
+  Stack,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress,
+  Alert,
+  Box,
+} from "@mui/material";
+import { useAuth } from "@shared/context/AuthContext";
+import { getTeamAiSpend } from "@shared/services/ai/aiGeneration";
+import type { TeamAiSpend } from "@shared/types/ai";
+
+interface TeamAiSpendCardProps {
+  teamId: string;
+}
+
+const PERIODS = [7, 30, 90];
+
+export function TeamAiSpendCard({ teamId }: TeamAiSpendCardProps) {
+  const { user } = useAuth();
+  const [days, setDays] = useState(30);
+  const [spend, setSpend] = useState<TeamAiSpend | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getTeamAiSpend(user.id, days)
+      .then((result) => {
+        if (cancelled) return;
+        setSpend(result.teams.find((t) => t.teamId === teamId) ?? null);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message || "Failed to load AI spend");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, teamId, days]);
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack
+        direction="row"
+        justifyContent="space-between"
+        alignItems="center"
+        mb={2}
+      >
+        <Box>
+          <Typography variant="h6">AI Usage &amp; Spend</Typography>
+          {spend && (
+            <Typography variant="body2" color="text.secondary">
+              {spend.tokens.toLocaleString()} tokens · $
+              {spend.costUsd.toFixed(2)} estimated across {spend.generations}{" "}
+              generations
+            </Typography>
+          )}
+        </Box>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={days}
+          onChange={(_, value) => value && setDays(value)}
+        >
+          {PERIODS.map((period) => (
+            <ToggleButton key={period} value={period}>
+              {period}d
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Stack>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" py={3}>
+          <CircularProgress size={28} />
+        </Box>
+      ) : error ? (
+        <Alert severity="error">{error}</Alert>
+      ) : !spend || spend.members.length === 0 ? (
+        <Typography color="text.secondary" textAlign="center" py={3}>
+          No AI usage recorded for this team yet
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Member</TableCell>
+                <TableCell align="right">Generations</TableCell>
+                <TableCell align="right">Tokens</TableCell>
+                <TableCell align="right">Est. Cost</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {spend.members.map((member) => (
+                <TableRow key={member.userId}>
+                  <TableCell>{member.fullName || "Unnamed member"}</TableCell>
+                  <TableCell align="right">{member.generations}</TableCell>
+                  <TableCell align="right">
+                    {member.tokens.toLocaleString()}
+                  </TableCell>
+                  <TableCell align="right">
+                    ${member.costUsd.toFixed(2)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+}
+
+export default TeamAiSpendCard;
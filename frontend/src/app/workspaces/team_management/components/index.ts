@@ -14,6 +14,7 @@ export { EngagementMonitor } from "./EngagementMonitor";
 export { AccountabilityTracker } from "./AccountabilityTracker";
 export { TeamActivityFeed } from "./TeamActivityFeed";
 export { TeamPerformanceBenchmark } from "./TeamPerformanceBenchmark";
+export { TeamAiSpendCard } from "./TeamAiSpendCard";
 export { ShareJobWithTeamButton } from "./ShareJobWithTeamButton";
 export { ShareJobFromPipelineDialog } from "./ShareJobFromPipelineDialog";
 export { SharedJobCard } from "./SharedJobCard";
@@ -43,6 +43,7 @@ import {
 import { useTeam } from "@shared/context/useTeam";
 import { useAuth } from "@shared/context/AuthContext";
 import * as teamService from "../services/teamService";
+import { TeamAiSpendCard } from "../components/TeamAiSpendCard";
 
 export function TeamReports() {
   const { user } = useAuth();
@@ -384,6 +385,9 @@ export function TeamReports() {
                 </Box>
               )}
             </Paper>
+
+            {/* AI spend per member (admins only) */}
+            {isAdmin && <TeamAiSpendCard teamId={currentTeam.id} />}
           </>
         ) : (
           <Alert severity="info">No data available</Alert>
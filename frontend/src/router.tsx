@@ -42,6 +42,12 @@ const ProfileDetails = lazy(
 );
 const Settings = lazy(() => import("@profile/pages/profile/Settings"));
 const Github = lazy(() => import("@profile/pages/github/GithubRepos"));
+const PortfolioSettings = lazy(
+  () => import("@profile/pages/portfolio/PortfolioSettings")
+);
+const PublicPortfolio = lazy(
+  () => import("@profile/pages/portfolio/PublicPortfolio")
+);
 const ProfileAnalytics = lazy(() => import("./pages/AnalyticsDashboard"));
 
 // Layouts and shared components
@@ -662,6 +668,16 @@ export const router = createBrowserRouter([
   { path: "/forgot-password", element: <ForgotPassword /> },
   { path: "/reset-password", element: <ResetPassword /> },
 
+  // Public portfolio pages (no sign-in)
+  {
+    path: "/p/:slug",
+    element: (
+      <Suspense fallback={<LazyLoadFallback />}>
+        <PublicPortfolio />
+      </Suspense>
+    ),
+  },
+
   // Profile workspace - All routes nested under /profile
   {
     path: "/profile",
@@ -753,6 +769,14 @@ export const router = createBrowserRouter([
           </Suspense>
         ),
       },
+      {
+        path: "portfolio",
+        element: (
+          <Suspense fallback={<LazyLoadFallback />}>
+            <PortfolioSettings />
+          </Suspense>
+        ),
+      },
     ],
   },
 
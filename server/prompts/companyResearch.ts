@@ -136,23 +136,5 @@ Research ${companyName} now and provide the structured JSON response.`;
 // "marketPositioning": "Short 1-2 sentence summary of company's position in market vs competitors",
 // "talkingPoints": [ "short talking point 1", "talking point 2" ],
 // "interviewQuestions": [ "intelligent question 1", "question 2" ]
-
-/**
- * Validate company research AI response
- *
- * WHAT: Checks if AI response contains required company fields
- * WHY: Ensure downstream parsing won't fail on malformed data
- *
- * Returns: true if response is valid, false otherwise
- */
-export function validateCompanyResearchResponse(response: any): boolean {
-  if (!response || typeof response !== "object") return false;
-
-  // Just need company name - everything else is optional
-  const hasName =
-    typeof response.companyName === "string" ||
-    typeof response.company_name === "string" ||
-    typeof response.name === "string";
-
-  return hasName;
-}
+//
+// Output is validated against outputSchemas.company_research (services/aiOutputSchemas.ts)
@@ -2,6 +2,9 @@
  * Server Entry Point
  *
  * Loads environment variables, creates the HTTP server, and starts listening.
+ * Starts the notification scheduler (reminder delivery), the automation
+ * rules runner, the saved search evaluator, the background job queue and
+ * the cache invalidation listener once listening.
  * Handles graceful shutdown on SIGTERM/SIGINT.
  * 
  * Last CI/CD test: 2025-12-16
@@ -42,6 +45,24 @@ if (fs.existsSync(envBasePath)) {
 import { createServer } from "./server.js";
 import { logSystemEvent, logError } from "../utils/logger.js";
 import { closeBrowser } from "./services/scraper.js";
+import {
+  startNotificationScheduler,
+  stopNotificationScheduler,
+} from "./services/notificationService.js";
+import {
+  startAutomationScheduler,
+  stopAutomationScheduler,
+} from "./services/automationService.js";
+import {
+  startSavedSearchScheduler,
+  stopSavedSearchScheduler,
+} from "./services/savedSearchService.js";
+import { startJobQueue, stopJobQueue } from "./services/jobQueueService.js";
+import {
+  startCacheInvalidation,
+  stopCacheInvalidation,
+} from "./services/cacheService.js";
+import { getCacheStore } from "./services/cacheStore.js";
 
 const PORT = process.env.PORT ? Number(process.env.PORT) : 8787;
 
@@ -79,7 +100,7 @@ let server: ReturnType<typeof createServer>;
 try {
   server = createServer();
 
-  server.listen(PORT, () => {
+  server.listen(PORT, async () => {
     console.log("\n" + "=".repeat(80));
     console.log("🚀 SERVER STARTED");
     console.log("=".repeat(80));
@@ -109,6 +130,26 @@ try {
     console.log(`📝 Log Level: ${process.env.LOG_LEVEL || "info"}`);
     console.log("\n" + "=".repeat(80) + "\n");
 
+    // Deliver interview/contact reminders and follow-up nudges
+    // (needs the database; disabled with NOTIFICATION_SCHEDULER=off)
+    const schedulerStarted = startNotificationScheduler();
+    // Run pipeline automation rules (disabled with AUTOMATION_SCHEDULER=off)
+    const automationsStarted = startAutomationScheduler();
+    // Match new jobs against saved searches, send digests
+    // (disabled with SAVED_SEARCH_SCHEDULER=off)
+    const savedSearchesStarted = startSavedSearchScheduler();
+    // Run queued research, simulation and job import jobs
+    // (disabled with JOB_QUEUE=off)
+    const jobQueueStarted = startJobQueue();
+    // Drop cached profile/analytics data when the user's rows change
+    // (disabled with CACHE_INVALIDATION=off)
+    const cacheInvalidationStarted = await startCacheInvalidation().catch(
+      (err) => {
+        logError("Failed to start cache invalidation", err);
+        return false;
+      }
+    );
+
     logSystemEvent("startup", {
       port: PORT,
       node_version: process.version,
@@ -119,6 +160,12 @@ try {
         process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
       ),
       cors_origin: process.env.CORS_ORIGIN || "*",
+      notification_scheduler: schedulerStarted,
+      automation_scheduler: automationsStarted,
+      saved_search_scheduler: savedSearchesStarted,
+      job_queue: jobQueueStarted,
+      cache_store: getCacheStore().kind,
+      cache_invalidation: cacheInvalidationStarted,
     });
   });
 
@@ -168,6 +215,13 @@ process.on("SIGTERM", async () => {
   console.log("=".repeat(80) + "\n");
 
   logSystemEvent("shutdown", { signal: "SIGTERM" });
+  stopNotificationScheduler();
+  stopAutomationScheduler();
+  stopSavedSearchScheduler();
+  // Hand running jobs back to the queue before the browser goes away
+  await stopJobQueue();
+  await stopCacheInvalidation();
+  await getCacheStore().close();
   await closeBrowser(); // Gracefully close Puppeteer browser
   if (server) {
     server.close(() => process.exit(0));
@@ -182,6 +236,13 @@ process.on("SIGINT", async () => {
   console.log("=".repeat(80) + "\n");
 
   logSystemEvent("shutdown", { signal: "SIGINT" });
+  stopNotificationScheduler();
+  stopAutomationScheduler();
+  stopSavedSearchScheduler();
+  // Hand running jobs back to the queue before the browser goes away
+  await stopJobQueue();
+  await stopCacheInvalidation();
+  await getCacheStore().close();
   await closeBrowser(); // Gracefully close Puppeteer browser
   if (server) {
     server.close(() => process.exit(0));
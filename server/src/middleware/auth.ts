@@ -18,6 +18,9 @@ import type { IncomingMessage } from "node:http";
 import { extractUserId } from "../../utils/auth.js";
 import { ApiError } from "../../utils/errors.js";
 
+// Requests authenticated once (e.g. by the AI quota guard) skip re-verifying the JWT
+const authenticatedUsers = new WeakMap<IncomingMessage, string>();
+
 /**
  * Require authentication and return userId
  *
@@ -42,11 +45,14 @@ import { ApiError } from "../../utils/errors.js";
  *   }
  */
 export async function requireAuth(req: IncomingMessage): Promise<string> {
+  const cached = authenticatedUsers.get(req);
+  if (cached) return cached;
   try {
     const userId = await extractUserId(
       req.headers.authorization,
       req.headers["x-user-id"] as string | undefined
     );
+    authenticatedUsers.set(req, userId);
     return userId;
   } catch (err: unknown) {
     const error = err as Error;
@@ -1,6 +1,7 @@
 import type http from "node:http";
 import { ApiError } from "../../utils/errors.js";
 import { checkLimit } from "../../utils/rateLimiter.js";
+import type { RateLimitGroup } from "../routes/router.js";
 
 function isHttps(req: http.IncomingMessage): boolean {
   const xfProto = String(req.headers["x-forwarded-proto"] || "").toLowerCase();
@@ -89,51 +90,65 @@ export function enforceBrowserOriginOrThrow(
   }
 }
 
-function normalizeRateLimitGroup(pathname: string): string {
-  if (pathname.startsWith("/api/generate/")) return "/api/generate/*";
-  if (pathname.startsWith("/api/predict/")) return "/api/predict/*";
-  if (pathname.startsWith("/api/predictions/")) return "/api/predictions/*";
-  if (pathname.startsWith("/api/cover-letter/drafts"))
-    return "/api/cover-letter/drafts";
-  if (pathname.startsWith("/api/artifacts")) return "/api/artifacts";
-  if (pathname.startsWith("/api/job-materials")) return "/api/job-materials";
-  if (pathname.startsWith("/api/jobs/")) return "/api/jobs/*";
-  if (pathname.startsWith("/api/company/")) return "/api/company/*";
-  if (pathname.startsWith("/api/analytics/")) return "/api/analytics/*";
-  if (pathname.startsWith("/api/monitoring/")) return "/api/monitoring/*";
-  return pathname;
+/** Requests per IP, method and key in each window, by route group */
+const RATE_LIMITS: Record<Exclude<RateLimitGroup, "none">, number> = {
+  default: 600,
+  ai: 200,
+  monitoring: 120,
+};
+
+/** Path prefixes whose "default" routes share one budget */
+const SHARED_BUDGET_PREFIXES = [
+  "/api/generate/",
+  "/api/predict/",
+  "/api/predictions/",
+  "/api/cover-letter/drafts",
+  "/api/artifacts",
+  "/api/job-materials",
+  "/api/jobs/",
+  "/api/company/",
+  "/api/analytics/",
+  "/api/monitoring/",
+];
+
+/**
+ * Budget key for a "default" route: its prefix group ("/api/jobs/*" for
+ * every jobs route), else the matched route path.
+ */
+export function defaultRateLimitKey(
+  pathname: string,
+  routePath: string | undefined
+): string {
+  const prefix = SHARED_BUDGET_PREFIXES.find((p) => pathname.startsWith(p));
+  if (prefix) return prefix.endsWith("/") ? `${prefix}*` : prefix;
+  return routePath ?? "unmatched";
 }
 
-export function enforceIpRateLimitOrThrow(
+/**
+ * Count a request against its route's IP rate limit.
+ *
+ * `key` separates budgets within a group: server.ts passes
+ * defaultRateLimitKey() for "default" routes and the group name otherwise,
+ * so every AI route shares one budget.
+ */
+export async function enforceIpRateLimitOrThrow(
   req: http.IncomingMessage,
   res: http.ServerResponse,
-  pathname: string
-) {
-  if (!pathname.startsWith("/api/") || pathname === "/api/health") return;
+  group: RateLimitGroup,
+  key: string
+): Promise<void> {
+  if (group === "none") return;
 
   const ip = getClientIp(req);
-  const group = normalizeRateLimitGroup(pathname);
 
-  // Why: This service runs on a single Node process in most course deployments.
-  // This per-instance limiter still prevents accidental storms and basic abuse.
-  // For multi-instance production, swap to a shared store (Redis) behind this interface.
-  let max = 600;
+  // Why: counters live in the shared cache store (utils/rateLimiter.ts), so
+  // with REDIS_URL set the limit holds across server instances; without it
+  // this per-instance limiter still prevents accidental storms and basic abuse.
+  const max = RATE_LIMITS[group];
   const windowMs = 300_000; // 5 minutes
 
-  if (
-    group === "/api/generate/*" ||
-    group === "/api/predict/*" ||
-    group === "/api/predictions/*"
-  ) {
-    max = 200;
-  }
-
-  if (group === "/api/monitoring/*" || group === "/api/metrics") {
-    max = 120;
-  }
-
   const method = String(req.method || "GET").toUpperCase();
-  const limit = checkLimit(`ip:${ip}:${method}:${group}`, max, windowMs);
+  const limit = await checkLimit(`ip:${ip}:${method}:${key}`, max, windowMs);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
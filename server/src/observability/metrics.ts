@@ -1,3 +1,25 @@
+/**
+ * Request, AI and scraper metrics
+ *
+ * Two views over the same recordings:
+ * - Cumulative counters and latency histograms (since process start),
+ *   rendered in the Prometheus / OpenMetrics text format for scraping:
+ *   GET /api/metrics?format=openmetrics (or format=prometheus)
+ * - A JSON summary of recent requests (GET /api/metrics?window=300), built
+ *   from 10-second slots of per-route histograms kept for an hour, so every
+ *   request in the window is counted however busy the server is
+ *
+ * Request paths are normalized to routes (ids → ":id") to bound label
+ * cardinality; past MAX_ROUTES distinct routes, new ones are reported as
+ * "other". Percentiles in the JSON summary are estimated from the buckets.
+ *
+ * Recorders:
+ * - recordRequest: one HTTP request (middleware/logging.ts)
+ * - recordAiCall: one provider call, ok or failed (services/aiClient.ts)
+ * - recordScraperAttempt: one extraction strategy attempt
+ *   (services/extractionStrategies.ts)
+ */
+
 export type RequestMetricSample = {
   ts: number;
   duration_ms: number;
@@ -6,105 +28,435 @@ export type RequestMetricSample = {
   path: string;
 };
 
-const MAX_SAMPLES = 1000;
+export type AiCallSample = {
+  kind: string;
+  provider: string;
+  duration_ms: number;
+  ok: boolean;
+  tokens?: number;
+};
+
+export type ScraperAttemptSample = {
+  strategy: string;
+  duration_ms: number;
+  ok: boolean;
+};
+
+type Labels = Record<string, string>;
 
-const samples: RequestMetricSample[] = [];
+// ============================================================================
+// Metric families
+// ============================================================================
 
-export function recordRequest(sample: RequestMetricSample): void {
-  samples.push(sample);
-  if (samples.length > MAX_SAMPLES) {
-    samples.splice(0, samples.length - MAX_SAMPLES);
+const HTTP_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+const AI_BUCKETS = [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+const SCRAPER_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60];
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(labels);
+}
+
+class Counter {
+  readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels, by = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key);
+    if (entry) entry.value += by;
+    else this.series.set(key, { labels, value: by });
   }
 }
 
-function percentile(sorted: number[], p: number): number {
-  if (sorted.length === 0) return 0;
-  const index = Math.ceil((p / 100) * sorted.length) - 1;
-  return sorted[Math.min(Math.max(index, 0), sorted.length - 1)] ?? 0;
+interface HistogramSeries {
+  labels: Labels;
+  /** Per-bucket (non-cumulative) counts; the last slot is +Inf */
+  counts: number[];
+  sum: number;
+  count: number;
 }
 
-function summarizeWindow(windowSamples: RequestMetricSample[]) {
-  const durations = windowSamples
-    .map((s) => s.duration_ms)
-    .filter((n) => Number.isFinite(n))
-    .sort((a, b) => a - b);
+class Histogram {
+  readonly series = new Map<string, HistogramSeries>();
 
-  const count = windowSamples.length;
-  const avg =
-    count === 0
-      ? 0
-      : Math.round(
-          windowSamples.reduce((sum, s) => sum + s.duration_ms, 0) / count
-        );
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = {
+        labels,
+        counts: new Array(this.buckets.length + 1).fill(0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, entry);
+    }
+    entry.counts[bucketIndex(this.buckets, value)]++;
+    entry.sum += value;
+    entry.count++;
+  }
+}
+
+function bucketIndex(buckets: number[], value: number): number {
+  const index = buckets.findIndex((upper) => value <= upper);
+  return index === -1 ? buckets.length : index;
+}
+
+const httpRequests = new Counter("http_requests", "HTTP requests handled.");
+const httpDuration = new Histogram(
+  "http_request_duration_seconds",
+  "HTTP request latency.",
+  HTTP_BUCKETS
+);
+const aiRequests = new Counter(
+  "ai_requests",
+  "AI provider calls by outcome (ok or error)."
+);
+const aiDuration = new Histogram(
+  "ai_request_duration_seconds",
+  "AI provider call latency.",
+  AI_BUCKETS
+);
+const aiTokens = new Counter(
+  "ai_tokens",
+  "Tokens reported by AI providers (prompt + completion)."
+);
+const scraperAttempts = new Counter(
+  "scraper_attempts",
+  "Job posting extraction attempts by strategy and outcome."
+);
+const scraperDuration = new Histogram(
+  "scraper_attempt_duration_seconds",
+  "Job posting extraction attempt latency by strategy.",
+  SCRAPER_BUCKETS
+);
+
+const families: Array<Counter | Histogram> = [
+  httpRequests,
+  httpDuration,
+  aiRequests,
+  aiDuration,
+  aiTokens,
+  scraperAttempts,
+  scraperDuration,
+];
+
+// ============================================================================
+// Route normalization
+// ============================================================================
+
+const MAX_ROUTES = 500;
+const knownRoutes = new Set<string>();
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isIdSegment(segment: string): boolean {
+  if (UUID.test(segment) || /^\d+$/.test(segment)) return true;
+  if (/^[0-9a-f]{16,}$/i.test(segment)) return true;
+  // Long opaque tokens (share links, cursors) mixing letters and digits
+  return segment.length >= 20 && /\d/.test(segment) && /[a-z]/i.test(segment);
+}
+
+/** "/api/jobs/3f2c…?x=1" → "/api/jobs/:id" */
+export function normalizeRoute(path: string): string {
+  const pathname = path.split("?")[0] || "/";
+  const route = pathname
+    .split("/")
+    .map((segment) => (isIdSegment(segment) ? ":id" : segment))
+    .join("/");
+  if (knownRoutes.has(route)) return route;
+  if (knownRoutes.size >= MAX_ROUTES) return "other";
+  knownRoutes.add(route);
+  return route;
+}
+
+// ============================================================================
+// Recent-request slots (JSON summary)
+// ============================================================================
+
+const SLOT_MS = 10_000;
+const MAX_WINDOW_SECONDS = 3600;
+
+interface RouteSlot {
+  method: string;
+  path: string;
+  status: Record<StatusClass, number>;
+  latency: HistogramSeries;
+}
+
+/** slot start (ms) → "METHOD route" → counts */
+const slots = new Map<number, Map<string, RouteSlot>>();
+
+type StatusClass = "2xx" | "3xx" | "4xx" | "5xx";
+
+function statusClass(status: number): StatusClass {
+  if (status >= 500) return "5xx";
+  if (status >= 400) return "4xx";
+  if (status >= 300) return "3xx";
+  return "2xx";
+}
+
+function recordInSlot(sample: RequestMetricSample, route: string): void {
+  const now = Date.now();
+  const start = Math.floor(sample.ts / SLOT_MS) * SLOT_MS;
+  if (start + SLOT_MS <= now - MAX_WINDOW_SECONDS * 1000) return;
+
+  let slot = slots.get(start);
+  if (!slot) {
+    slot = new Map();
+    slots.set(start, slot);
+    for (const key of slots.keys()) {
+      if (key + SLOT_MS <= now - MAX_WINDOW_SECONDS * 1000) slots.delete(key);
+    }
+  }
+  const key = `${sample.method} ${route}`;
+  let entry = slot.get(key);
+  if (!entry) {
+    entry = {
+      method: sample.method,
+      path: route,
+      status: { "2xx": 0, "3xx": 0, "4xx": 0, "5xx": 0 },
+      latency: {
+        labels: {},
+        counts: new Array(HTTP_BUCKETS.length + 1).fill(0),
+        sum: 0,
+        count: 0,
+      },
+    };
+    slot.set(key, entry);
+  }
+  entry.status[statusClass(sample.status)]++;
+  const seconds = sample.duration_ms / 1000;
+  entry.latency.counts[bucketIndex(HTTP_BUCKETS, seconds)]++;
+  entry.latency.sum += seconds;
+  entry.latency.count++;
+}
+
+// ============================================================================
+// Recorders
+// ============================================================================
 
-  const p50 = percentile(durations, 50);
-  const p95 = percentile(durations, 95);
+export function recordRequest(sample: RequestMetricSample): void {
+  const route = normalizeRoute(sample.path);
+  const labels = {
+    method: sample.method,
+    route,
+    status: String(sample.status),
+  };
+  httpRequests.inc(labels);
+  httpDuration.observe(labels, sample.duration_ms / 1000);
+  recordInSlot(sample, route);
+}
+
+export function recordAiCall(sample: AiCallSample): void {
+  const labels = { kind: sample.kind, provider: sample.provider };
+  aiRequests.inc({ ...labels, outcome: sample.ok ? "ok" : "error" });
+  aiDuration.observe(labels, sample.duration_ms / 1000);
+  if (sample.tokens) aiTokens.inc(labels, sample.tokens);
+}
+
+export function recordScraperAttempt(sample: ScraperAttemptSample): void {
+  scraperAttempts.inc({
+    strategy: sample.strategy,
+    outcome: sample.ok ? "ok" : "error",
+  });
+  scraperDuration.observe(
+    { strategy: sample.strategy },
+    sample.duration_ms / 1000
+  );
+}
+
+// ============================================================================
+// JSON summary
+// ============================================================================
+
+/** Percentile (ms) by linear interpolation within the bucket holding it */
+function percentile(latency: HistogramSeries, p: number): number {
+  if (latency.count === 0) return 0;
+  const rank = (p / 100) * latency.count;
+  let seen = 0;
+  for (let i = 0; i < latency.counts.length; i++) {
+    const inBucket = latency.counts[i];
+    if (inBucket > 0 && seen + inBucket >= rank) {
+      const lower = i === 0 ? 0 : HTTP_BUCKETS[i - 1];
+      // The +Inf bucket has no upper bound; report its lower edge
+      const upper = HTTP_BUCKETS[i] ?? lower;
+      const within = (rank - seen) / inBucket;
+      return Math.round((lower + (upper - lower) * within) * 1000);
+    }
+    seen += inBucket;
+  }
+  return Math.round(HTTP_BUCKETS[HTTP_BUCKETS.length - 1] * 1000);
+}
 
-  const statusCounts = {
+function summarize(entries: RouteSlot[]) {
+  const latency: HistogramSeries = {
+    labels: {},
+    counts: new Array(HTTP_BUCKETS.length + 1).fill(0),
+    sum: 0,
+    count: 0,
+  };
+  const status: Record<StatusClass, number> = {
     "2xx": 0,
     "3xx": 0,
     "4xx": 0,
     "5xx": 0,
   };
 
-  for (const s of windowSamples) {
-    if (s.status >= 500) statusCounts["5xx"]++;
-    else if (s.status >= 400) statusCounts["4xx"]++;
-    else if (s.status >= 300) statusCounts["3xx"]++;
-    else statusCounts["2xx"]++;
+  for (const entry of entries) {
+    for (const key of Object.keys(status) as StatusClass[]) {
+      status[key] += entry.status[key];
+    }
+    entry.latency.counts.forEach((n, i) => (latency.counts[i] += n));
+    latency.sum += entry.latency.sum;
+    latency.count += entry.latency.count;
   }
 
   return {
-    count,
-    status: statusCounts,
-    latency_ms: { avg, p50, p95 },
+    count: latency.count,
+    status,
+    latency_ms: {
+      avg:
+        latency.count === 0
+          ? 0
+          : Math.round((latency.sum / latency.count) * 1000),
+      p50: percentile(latency, 50),
+      p95: percentile(latency, 95),
+      p99: percentile(latency, 99),
+    },
   };
 }
 
 export function getMetricsSnapshot(options?: { windowSeconds?: number }) {
-  const windowSeconds = options?.windowSeconds ?? 300;
+  const windowSeconds = Math.min(
+    Math.max(options?.windowSeconds ?? 300, 1),
+    MAX_WINDOW_SECONDS
+  );
   const now = Date.now();
   const windowStart = now - windowSeconds * 1000;
 
-  const windowSamples = samples.filter((s) => s.ts >= windowStart);
-  const totals = summarizeWindow(windowSamples);
-
-  const byRouteMap = new Map<string, RequestMetricSample[]>();
-  for (const s of windowSamples) {
-    const key = `${s.method} ${s.path}`;
-    const list = byRouteMap.get(key);
-    if (list) list.push(s);
-    else byRouteMap.set(key, [s]);
+  const all: RouteSlot[] = [];
+  const byRoute = new Map<string, RouteSlot[]>();
+  for (const [start, slot] of slots) {
+    if (start + SLOT_MS <= windowStart) continue;
+    for (const [key, entry] of slot) {
+      all.push(entry);
+      const list = byRoute.get(key);
+      if (list) list.push(entry);
+      else byRoute.set(key, [entry]);
+    }
   }
 
-  const by_route = Array.from(byRouteMap.entries())
-    .map(([key, list]) => {
-      const [method, ...pathParts] = key.split(" ");
-      const path = pathParts.join(" ");
-      const summary = summarizeWindow(list);
-      return {
-        method,
-        path,
-        count: summary.count,
-        status: summary.status,
-        latency_ms: summary.latency_ms,
-      };
-    })
+  const by_route = Array.from(byRoute.values())
+    .map((list) => ({
+      method: list[0].method,
+      path: list[0].path,
+      ...summarize(list),
+    }))
     .sort((a, b) => b.count - a.count)
     .slice(0, 10);
 
   return {
     generated_at: new Date(now).toISOString(),
     window_seconds: windowSeconds,
-    totals,
+    totals: summarize(all),
     by_route,
-    buffer: {
-      max_samples: MAX_SAMPLES,
-      current_samples: samples.length,
+    retention: {
+      slot_seconds: SLOT_MS / 1000,
+      max_window_seconds: MAX_WINDOW_SECONDS,
     },
   };
 }
 
+// ============================================================================
+// Exposition
+// ============================================================================
+
+export const OPENMETRICS_CONTENT_TYPE =
+  "application/openmetrics-text; version=1.0.0; charset=utf-8";
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const parts = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  );
+  return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return "+Inf";
+  return Number.isInteger(value) ? String(value) : String(+value.toFixed(6));
+}
+
+/**
+ * All metric families as text. OpenMetrics names counter families without
+ * the _total suffix and ends with "# EOF"; the Prometheus 0.0.4 format uses
+ * the sample name throughout.
+ */
+export function renderMetrics(
+  format: "openmetrics" | "prometheus" = "openmetrics"
+): string {
+  const lines: string[] = [];
+  const openMetrics = format === "openmetrics";
+
+  for (const family of families) {
+    if (family instanceof Counter) {
+      const sample = `${family.name}_total`;
+      const name = openMetrics ? family.name : sample;
+      lines.push(`# TYPE ${name} counter`, `# HELP ${name} ${family.help}`);
+      for (const { labels, value } of family.series.values()) {
+        lines.push(`${sample}${formatLabels(labels)} ${formatNumber(value)}`);
+      }
+      continue;
+    }
+
+    lines.push(
+      `# TYPE ${family.name} histogram`,
+      `# HELP ${family.name} ${family.help}`
+    );
+    for (const series of family.series.values()) {
+      let cumulative = 0;
+      [...family.buckets, Infinity].forEach((upper, i) => {
+        cumulative += series.counts[i];
+        const labels = { ...series.labels, le: formatNumber(upper) };
+        lines.push(
+          `${family.name}_bucket${formatLabels(labels)} ${cumulative}`
+        );
+      });
+      const labels = formatLabels(series.labels);
+      lines.push(
+        `${family.name}_sum${labels} ${formatNumber(series.sum)}`,
+        `${family.name}_count${labels} ${series.count}`
+      );
+    }
+  }
+
+  if (openMetrics) lines.push("# EOF");
+  return lines.join("\n") + "\n";
+}
+
 export function resetMetrics(): void {
-  samples.length = 0;
+  slots.clear();
+  knownRoutes.clear();
+  for (const family of families) family.series.clear();
 }
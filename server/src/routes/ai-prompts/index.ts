@@ -0,0 +1,63 @@
+/**
+ * AI PROMPT ROUTES
+ *
+ * Endpoints:
+ * - GET /api/ai/prompts        - list()     Registered prompts, versions, experiments and the caller's assigned version
+ * - GET /api/ai/prompts/stats  - getStats() Per-version artifact count, average score and edit rate (?promptId=&days=30)
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { sendJson } from "../../../utils/http.js";
+import * as promptRegistry from "../../services/promptRegistry.js";
+import type { PromptId } from "../../services/promptRegistry.js";
+
+/**
+ * GET /api/ai/prompts
+ *
+ * Used to pick versions for POST /api/generate/compare
+ */
+export async function list(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const prompts = promptRegistry.listPrompts().map((prompt) => ({
+    ...prompt,
+    assignedVersion: promptRegistry.assignPromptVersion(prompt.id, userId)
+      .version,
+  }));
+  sendJson(res, 200, { prompts });
+}
+
+/**
+ * GET /api/ai/prompts/stats
+ *
+ * Aggregates only; no artifact content or user ids are returned
+ */
+export async function getStats(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const promptId = url.searchParams.get("promptId");
+  if (promptId && !promptRegistry.getPrompt(promptId as PromptId)) {
+    throw new ApiError(400, `unknown promptId: ${promptId}`, "bad_request");
+  }
+  const days = Number(url.searchParams.get("days") ?? 30);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    throw new ApiError(400, "days must be between 1 and 365", "bad_request");
+  }
+  const stats = await promptRegistry.getPromptVersionStats(
+    (promptId as PromptId | null) ?? null,
+    days
+  );
+  sendJson(res, 200, { promptId: promptId ?? null, days, stats });
+}
@@ -0,0 +1,51 @@
+/**
+ * AI USAGE ROUTES
+ *
+ * Endpoints:
+ * - GET /api/ai/usage          - get()          Caller's tokens/cost for today and this month, with limits
+ * - GET /api/ai/usage/teams    - getTeamSpend() Spend per member for teams the caller administers (?days=30)
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { sendJson } from "../../../utils/http.js";
+import * as aiUsageService from "../../services/aiUsageService.js";
+
+/**
+ * GET /api/ai/usage
+ *
+ * Usage summary used by the AI workspace hub
+ */
+export async function get(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const summary = await aiUsageService.getUsageSummary(userId);
+  sendJson(res, 200, summary);
+}
+
+/**
+ * GET /api/ai/usage/teams
+ *
+ * Team admin view of AI spend (403 for non-admins)
+ */
+export async function getTeamSpend(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const days = Number(url.searchParams.get("days") ?? 30);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    throw new ApiError(400, "days must be between 1 and 365", "bad_request");
+  }
+  const result = await aiUsageService.getTeamSpend(userId, days);
+  sendJson(res, 200, result);
+}
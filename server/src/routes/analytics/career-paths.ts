@@ -28,6 +28,7 @@
 import type { IncomingMessage, ServerResponse } from "http";
 import { readJson, sendJson } from "../../../utils/http.js";
 import { requireAuth } from "../../middleware/auth.js";
+import type { ProgressReporter } from "../../services/jobQueueService.js";
 import aiClient from "../../services/aiClient.js";
 import supabaseAdmin from "../../services/supabaseAdmin.js";
 
@@ -439,124 +440,9 @@ export async function handleCareerPathSimulation(
     // Parse request
     const body = ((await readJson(req)) || {}) as CareerPathSimulationRequest;
 
-    // Build user context from database
-    const userContext = await buildUserContext(userId);
-
-    // Override with request params if provided
-    if (body.currentRole) userContext.currentRole = body.currentRole;
-    if (body.currentSalary) userContext.currentSalary = body.currentSalary;
-    if (body.yearsExperience) userContext.yearsExperience = body.yearsExperience;
-
-    // Build AI prompt
-    const prompt = buildCareerPathSimulationPrompt({ userContext, request: body });
-
-    // Call AI
-    const aiResult = await aiClient.generate("career_paths", prompt, {
-      temperature: 0.7,
-      maxTokens: 4000,
-    });
-
-    // Parse AI response
-    let aiData: any = null;
-    if (aiResult.json) {
-      aiData = aiResult.json;
-    } else if (aiResult.text) {
-      try {
-        aiData = JSON.parse(aiResult.text);
-      } catch (err) {
-        console.error("Failed to parse AI career paths response:", err);
-      }
-    }
-
-    if (!aiData || !aiData.paths || aiData.paths.length === 0) {
-      sendJson(res, 500, {
-        error: "AI returned invalid career path simulation data",
-      });
-      return;
-    }
-
-    // Transform AI data to match frontend expectations
-    const transformedData: CareerPathSimulationData = {
-      paths: aiData.paths.map((path: any) => ({
-        id: path.id,
-        name: path.name,
-        description: path.description,
-        targetRole: path.targetRole,
-        targetIndustry: path.targetIndustry,
-        companyType: path.companyType,
-        // Simplify milestones - remove salaryRange and requiredSkills, convert probability to percentage
-        milestones: path.milestones.map((m: any) => ({
-          year: m.year,
-          title: m.title,
-          description: m.description,
-          probability: m.probability ? Math.round(m.probability * 100) : undefined,
-        })),
-        // Transform salary progression - add baseYear, rename percentile fields
-        salaryProgression: path.salaryProgression.map((s: any) => ({
-          year: s.year,
-          baseYear: s.year - 1, // Year 1 = baseYear 0
-          best: s.best,
-          average: s.average,
-          worst: s.worst,
-          percentile90: s.percentile75 || s.best,
-          percentile50: s.average,
-          percentile10: s.percentile25 || s.worst,
-        })),
-        fiveYearEarnings: path.fiveYearEarnings,
-        tenYearEarnings: path.tenYearEarnings,
-        lifetimeEarningsEstimate: path.lifetimeEarningsEstimate,
-        // Rename riskAnalysis.summary to details
-        riskAnalysis: {
-          volatility: path.riskAnalysis.volatility,
-          marketDependence: path.riskAnalysis.marketDependence,
-          skillObsolescence: path.riskAnalysis.skillObsolescence,
-          competitionLevel: path.riskAnalysis.competitionLevel,
-          details: path.riskAnalysis.summary || path.riskAnalysis.details || "",
-        },
-        // Rename success score fields
-        successScores: {
-          salary: path.successScores.salary,
-          workLifeBalance: path.successScores.workLifeBalance,
-          learningGrowth: path.successScores.learningOpportunities || path.successScores.learningGrowth || 0,
-          impact: path.successScores.careerImpact || path.successScores.impact || 0,
-          autonomy: path.successScores.autonomy,
-        },
-        advantages: path.advantages,
-        disadvantages: path.disadvantages,
-        criticalSkillsNeeded: path.criticalSkillsNeeded,
-        recommendedActions: path.recommendedActions,
-      })),
-      // Transform decision points
-      decisionPoints: (aiData.decisionPoints || []).map((dp: any) => ({
-        year: dp.year || parseInt(dp.timeframe?.match(/\d+/)?.[0] || "0"),
-        decision: dp.decision,
-        paths: dp.paths || [dp.pathA, dp.pathB].filter(Boolean),
-        recommendation: dp.recommendation || dp.recommendedChoice || dp.reasoning || "",
-      })),
-      industryContext: aiData.industryContext || {
-        industryGrowthOutlook: "Moderate growth expected",
-        majorDisruptors: [],
-        keyOpportunities: [],
-      },
-      topRecommendation: aiData.topRecommendation || (aiData.paths[0]?.id || ""),
-      summary: aiData.summary || aiData.reasoning || "Career path analysis complete",
-    };
-
-    // Build response
-    const response: CareerPathSimulationResponse = {
-      ai: transformedData,
-      userContext: {
-        currentRole: userContext.currentRole,
-        currentSalary: userContext.currentSalary,
-        yearsExperience: userContext.yearsExperience,
-        topSkills: userContext.topSkills.slice(0, 5),
-        targetIndustries: userContext.industries.slice(0, 3),
-      },
-    };
-
     sendJson(res, 200, {
       success: true,
-      data: response,
+      data: await simulateCareerPaths(userId, body),
     });
   } catch (error) {
     console.error("Career path simulation error:", error);
@@ -566,3 +452,129 @@ export async function handleCareerPathSimulation(
     });
   }
 }
+
+/**
+ * Build the user's context, ask the AI for career paths and reshape them
+ *
+ * Shared by the POST route and the career_paths background job; the
+ * optional progress reporter is called between steps.
+ */
+export async function simulateCareerPaths(
+  userId: string,
+  body: CareerPathSimulationRequest,
+  progress?: ProgressReporter
+): Promise<CareerPathSimulationResponse> {
+  // Build user context from database
+  await progress?.(10, "Reading your profile");
+  const userContext = await buildUserContext(userId);
+
+  // Override with request params if provided
+  if (body.currentRole) userContext.currentRole = body.currentRole;
+  if (body.currentSalary) userContext.currentSalary = body.currentSalary;
+  if (body.yearsExperience) userContext.yearsExperience = body.yearsExperience;
+
+  // Build AI prompt
+  const prompt = buildCareerPathSimulationPrompt({ userContext, request: body });
+
+  // Call AI
+  await progress?.(25, "Simulating career paths");
+  const aiResult = await aiClient.generate("career_paths", prompt, {
+    temperature: 0.7,
+    maxTokens: 4000,
+  });
+
+  // Parse AI response
+  let aiData: any = null;
+  if (aiResult.json) {
+    aiData = aiResult.json;
+  } else if (aiResult.text) {
+    try {
+      aiData = JSON.parse(aiResult.text);
+    } catch (err) {
+      console.error("Failed to parse AI career paths response:", err);
+    }
+  }
+
+  if (!aiData || !aiData.paths || aiData.paths.length === 0) {
+    throw new Error("AI returned invalid career path simulation data");
+  }
+
+  // Transform AI data to match frontend expectations
+  const transformedData: CareerPathSimulationData = {
+    paths: aiData.paths.map((path: any) => ({
+      id: path.id,
+      name: path.name,
+      description: path.description,
+      targetRole: path.targetRole,
+      targetIndustry: path.targetIndustry,
+      companyType: path.companyType,
+      // Simplify milestones - remove salaryRange and requiredSkills, convert probability to percentage
+      milestones: path.milestones.map((m: any) => ({
+        year: m.year,
+        title: m.title,
+        description: m.description,
+        probability: m.probability ? Math.round(m.probability * 100) : undefined,
+      })),
+      // Transform salary progression - add baseYear, rename percentile fields
+      salaryProgression: path.salaryProgression.map((s: any) => ({
+        year: s.year,
+        baseYear: s.year - 1, // Year 1 = baseYear 0
+        best: s.best,
+        average: s.average,
+        worst: s.worst,
+        percentile90: s.percentile75 || s.best,
+        percentile50: s.average,
+        percentile10: s.percentile25 || s.worst,
+      })),
+      fiveYearEarnings: path.fiveYearEarnings,
+      tenYearEarnings: path.tenYearEarnings,
+      lifetimeEarningsEstimate: path.lifetimeEarningsEstimate,
+      // Rename riskAnalysis.summary to details
+      riskAnalysis: {
+        volatility: path.riskAnalysis.volatility,
+        marketDependence: path.riskAnalysis.marketDependence,
+        skillObsolescence: path.riskAnalysis.skillObsolescence,
+        competitionLevel: path.riskAnalysis.competitionLevel,
+        details: path.riskAnalysis.summary || path.riskAnalysis.details || "",
+      },
+      // Rename success score fields
+      successScores: {
+        salary: path.successScores.salary,
+        workLifeBalance: path.successScores.workLifeBalance,
+        learningGrowth: path.successScores.learningOpportunities || path.successScores.learningGrowth || 0,
+        impact: path.successScores.careerImpact || path.successScores.impact || 0,
+        autonomy: path.successScores.autonomy,
+      },
+      advantages: path.advantages,
+      disadvantages: path.disadvantages,
+      criticalSkillsNeeded: path.criticalSkillsNeeded,
+      recommendedActions: path.recommendedActions,
+    })),
+    // Transform decision points
+    decisionPoints: (aiData.decisionPoints || []).map((dp: any) => ({
+      year: dp.year || parseInt(dp.timeframe?.match(/\d+/)?.[0] || "0"),
+      decision: dp.decision,
+      paths: dp.paths || [dp.pathA, dp.pathB].filter(Boolean),
+      recommendation: dp.recommendation || dp.recommendedChoice || dp.reasoning || "",
+    })),
+    industryContext: aiData.industryContext || {
+      industryGrowthOutlook: "Moderate growth expected",
+      majorDisruptors: [],
+      keyOpportunities: [],
+    },
+    topRecommendation: aiData.topRecommendation || (aiData.paths[0]?.id || ""),
+    summary: aiData.summary || aiData.reasoning || "Career path analysis complete",
+  };
+
+  // Build response
+  return {
+    ai: transformedData,
+    userContext: {
+      currentRole: userContext.currentRole,
+      currentSalary: userContext.currentSalary,
+      yearsExperience: userContext.yearsExperience,
+      topSkills: userContext.topSkills.slice(0, 5),
+      targetIndustries: userContext.industries.slice(0, 3),
+    },
+  };
+}
@@ -28,6 +28,17 @@ import type { IncomingMessage, ServerResponse } from "http";
 import { readJson, sendJson } from "../../../utils/http.js";
 import { requireAuth } from "../../middleware/auth.js";
 import supabaseAdmin from "../../services/supabaseAdmin.js";
+import {
+  CacheKeys,
+  CacheTTL,
+  CachedAnalytics,
+  cached,
+} from "../../services/cacheService.js";
+import {
+  canonicalSkillKey,
+  compareSkills,
+  resolveSkill,
+} from "../../services/skillTaxonomy.js";
 
 interface UserMetrics {
   applicationsPerMonth: number;
@@ -122,186 +133,204 @@ export async function handleGetCompetitivePosition(
     // console.log("[CompetitivePosition] Sending mock response...");
     // return sendJson(res, 200, { success: true, data: { /* mock data */ } });
 
-    // 1. Load user profile and determine segment
-    // @ts-ignore - supabaseAdmin is checked for null at function entry
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from("profiles")
-      .select("industry, experience_level, professional_title")
-      .eq("id", userId)
-      .single();
-
-    if (profileError || !profile) {
+    // Cached per user (a miss also stores the user_competitive_position
+    // snapshot); job and profile changes invalidate it
+    const analysis = await cached(
+      CacheKeys.analytics(userId, CachedAnalytics.competitivePosition),
+      CacheTTL.analytics,
+      () => analyzeCompetitivePosition(userId)
+    );
+    if (!analysis) {
       return sendJson(res, 404, {
         error: "Profile not found",
       });
     }
+    return sendJson(res, 200, analysis);
+  } catch (error: unknown) {
+    console.error("[handleGetCompetitivePosition] Error:", error);
+    return sendJson(res, 500, {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to generate competitive analysis",
+    });
+  }
+}
 
-    // @ts-ignore - profile is checked for null above
-    const industry = profile.industry || "Software";
-    // @ts-ignore
-    const experienceLevel = profile.experience_level || "mid";
-    // @ts-ignore
-    const professionalTitle = profile.professional_title || "";
+/**
+ * Full competitive position analysis for a user (the response body), or
+ * null without a profile
+ */
+async function analyzeCompetitivePosition(userId: string) {
+  // 1. Load user profile and determine segment
+  // @ts-ignore - supabaseAdmin is checked for null at function entry
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from("profiles")
+    .select("industry, experience_level, professional_title")
+    .eq("id", userId)
+    .single();
 
-    // Normalize title to category (simplified)
-    const titleCategory = normalizeTitleCategory(professionalTitle);
+  if (profileError || !profile) {
+    return null;
+  }
 
-    // 2. Calculate user's current metrics
-    const userMetrics = await calculateUserMetrics(userId);
+  // @ts-ignore - profile is checked for null above
+  const industry = profile.industry || "Software";
+  // @ts-ignore
+  const experienceLevel = profile.experience_level || "mid";
+  // @ts-ignore
+  const professionalTitle = profile.professional_title || "";
 
-    // 3. Fetch peer benchmark for user's segment
-    const peerBenchmark = await getPeerBenchmark(
-      industry,
-      experienceLevel,
-      titleCategory
-    );
+  // Normalize title to category (simplified)
+  const titleCategory = normalizeTitleCategory(professionalTitle);
 
-    // 4. Fetch industry standards
-    const industryStandard = await getIndustryStandard(industry);
+  // 2. Calculate user's current metrics
+  const userMetrics = await calculateUserMetrics(userId);
 
-    // 5. Fetch career progression patterns
-    const careerPaths = await getCareerProgressionPaths(
-      professionalTitle,
-      industry
-    );
+  // 3. Fetch peer benchmark for user's segment
+  const peerBenchmark = await getPeerBenchmark(
+    industry,
+    experienceLevel,
+    titleCategory
+  );
 
-    // 6. Analyze skill gaps against peer data
-    const skillGapAnalysis = await analyzeSkillGaps(
-      userId,
-      industry,
-      experienceLevel,
-      peerBenchmark
-    );
+  // 4. Fetch industry standards
+  const industryStandard = await getIndustryStandard(industry);
 
-    // 7. Calculate percentile rankings
-    const percentileRankings = calculatePercentiles(userMetrics, peerBenchmark);
+  // 5. Fetch career progression patterns
+  const careerPaths = await getCareerProgressionPaths(
+    professionalTitle,
+    industry
+  );
 
-    // 8. Generate competitive advantage recommendations
-    const competitiveAdvantages = generateCompetitiveAdvantages(
-      userMetrics,
-      peerBenchmark,
-      industryStandard,
-      skillGapAnalysis
-    );
+  // 6. Analyze skill gaps against peer data
+  const skillGapAnalysis = await analyzeSkillGaps(
+    userId,
+    industry,
+    experienceLevel,
+    peerBenchmark
+  );
 
-    // 9. Generate differentiation strategies
-    const differentiationStrategies = generateDifferentiationStrategies(
-      userMetrics,
-      skillGapAnalysis,
-      careerPaths
-    );
+  // 7. Calculate percentile rankings
+  const percentileRankings = calculatePercentiles(userMetrics, peerBenchmark);
 
-    // 10. Generate market optimization recommendations
-    const marketOptimization = generateMarketOptimization(
-      userMetrics,
-      peerBenchmark,
-      industryStandard,
-      skillGapAnalysis
-    );
+  // 8. Generate competitive advantage recommendations
+  const competitiveAdvantages = generateCompetitiveAdvantages(
+    userMetrics,
+    peerBenchmark,
+    industryStandard,
+    skillGapAnalysis
+  );
 
-    // 11. Cache results in user_competitive_position table
-    await cacheCompetitivePosition(
-      userId,
-      industry,
-      experienceLevel,
-      titleCategory,
-      percentileRankings,
-      userMetrics,
-      peerBenchmark,
-      competitiveAdvantages,
-      skillGapAnalysis
-    );
+  // 9. Generate differentiation strategies
+  const differentiationStrategies = generateDifferentiationStrategies(
+    userMetrics,
+    skillGapAnalysis,
+    careerPaths
+  );
 
-    // Return comprehensive analysis
-    return sendJson(res, 200, {
-      success: true,
-      data: {
-        segment: {
-          industry,
-          experienceLevel,
-          titleCategory,
+  // 10. Generate market optimization recommendations
+  const marketOptimization = generateMarketOptimization(
+    userMetrics,
+    peerBenchmark,
+    industryStandard,
+    skillGapAnalysis
+  );
+
+  // 11. Cache results in user_competitive_position table
+  await cacheCompetitivePosition(
+    userId,
+    industry,
+    experienceLevel,
+    titleCategory,
+    percentileRankings,
+    userMetrics,
+    peerBenchmark,
+    competitiveAdvantages,
+    skillGapAnalysis
+  );
+
+  // Return comprehensive analysis
+  return {
+    success: true,
+    data: {
+      segment: {
+        industry,
+        experienceLevel,
+        titleCategory,
+      },
+      userMetrics: {
+        applicationsPerMonth: userMetrics.applicationsPerMonth,
+        responseRate: userMetrics.responseRate,
+        interviewRate: userMetrics.interviewRate,
+        offerRate: userMetrics.offerRate,
+        avgTimeToInterview: userMetrics.avgTimeToInterview,
+        avgTimeToOffer: userMetrics.avgTimeToOffer,
+        totalSkills: userMetrics.totalSkills,
+      },
+      percentileRankings,
+      peerComparison: {
+        benchmark: {
+          applicationsPerMonth:
+            peerBenchmark?.avg_applications_per_month || 0,
+          responseRate: peerBenchmark?.avg_response_rate || 0,
+          interviewRate: peerBenchmark?.avg_interview_rate || 0,
+          offerRate: peerBenchmark?.avg_offer_rate || 0,
+          sampleSize: peerBenchmark?.sample_size || 0,
         },
-        userMetrics: {
+        yourPerformance: {
           applicationsPerMonth: userMetrics.applicationsPerMonth,
           responseRate: userMetrics.responseRate,
           interviewRate: userMetrics.interviewRate,
           offerRate: userMetrics.offerRate,
-          avgTimeToInterview: userMetrics.avgTimeToInterview,
-          avgTimeToOffer: userMetrics.avgTimeToOffer,
-          totalSkills: userMetrics.totalSkills,
-        },
-        percentileRankings,
-        peerComparison: {
-          benchmark: {
-            applicationsPerMonth:
-              peerBenchmark?.avg_applications_per_month || 0,
-            responseRate: peerBenchmark?.avg_response_rate || 0,
-            interviewRate: peerBenchmark?.avg_interview_rate || 0,
-            offerRate: peerBenchmark?.avg_offer_rate || 0,
-            sampleSize: peerBenchmark?.sample_size || 0,
-          },
-          yourPerformance: {
-            applicationsPerMonth: userMetrics.applicationsPerMonth,
-            responseRate: userMetrics.responseRate,
-            interviewRate: userMetrics.interviewRate,
-            offerRate: userMetrics.offerRate,
-          },
-          comparison: {
-            applicationsPerMonth: calculateDelta(
-              userMetrics.applicationsPerMonth,
-              peerBenchmark?.avg_applications_per_month || 0
-            ),
-            responseRate: calculateDelta(
-              userMetrics.responseRate,
-              peerBenchmark?.avg_response_rate || 0
-            ),
-            interviewRate: calculateDelta(
-              userMetrics.interviewRate,
-              peerBenchmark?.avg_interview_rate || 0
-            ),
-            offerRate: calculateDelta(
-              userMetrics.offerRate,
-              peerBenchmark?.avg_offer_rate || 0
-            ),
-          },
-        },
-        industryStandards: {
-          applicationsPerMonth:
-            industryStandard?.standard_applications_per_month || 0,
-          responseRate: industryStandard?.standard_response_rate || 0,
-          interviewRate: industryStandard?.standard_interview_rate || 0,
-          offerRate: industryStandard?.standard_offer_rate || 0,
-          timeToHire: industryStandard?.standard_time_to_hire_days || 0,
-          salaryRange:
-            industryStandard?.salary_benchmarks?.[experienceLevel] || null,
-          requiredSkills:
-            industryStandard?.required_skills_by_level?.[experienceLevel] || [],
         },
-        careerProgression: {
-          currentTitle: professionalTitle,
-          possiblePaths: careerPaths.map((path) => ({
-            nextTitle: path.to_title,
-            avgMonths: path.avg_months_to_transition,
-            skillsNeeded: path.skills_acquired,
-            successFactors: path.success_factors,
-            successRate: path.success_rate,
-          })),
+        comparison: {
+          applicationsPerMonth: calculateDelta(
+            userMetrics.applicationsPerMonth,
+            peerBenchmark?.avg_applications_per_month || 0
+          ),
+          responseRate: calculateDelta(
+            userMetrics.responseRate,
+            peerBenchmark?.avg_response_rate || 0
+          ),
+          interviewRate: calculateDelta(
+            userMetrics.interviewRate,
+            peerBenchmark?.avg_interview_rate || 0
+          ),
+          offerRate: calculateDelta(
+            userMetrics.offerRate,
+            peerBenchmark?.avg_offer_rate || 0
+          ),
         },
-        skillGapAnalysis,
-        competitiveAdvantages,
-        differentiationStrategies,
-        marketOptimization,
       },
-    });
-  } catch (error: unknown) {
-    console.error("[handleGetCompetitivePosition] Error:", error);
-    return sendJson(res, 500, {
-      error:
-        error instanceof Error
-          ? error.message
-          : "Failed to generate competitive analysis",
-    });
-  }
+      industryStandards: {
+        applicationsPerMonth:
+          industryStandard?.standard_applications_per_month || 0,
+        responseRate: industryStandard?.standard_response_rate || 0,
+        interviewRate: industryStandard?.standard_interview_rate || 0,
+        offerRate: industryStandard?.standard_offer_rate || 0,
+        timeToHire: industryStandard?.standard_time_to_hire_days || 0,
+        salaryRange:
+          industryStandard?.salary_benchmarks?.[experienceLevel] || null,
+        requiredSkills:
+          industryStandard?.required_skills_by_level?.[experienceLevel] || [],
+      },
+      careerProgression: {
+        currentTitle: professionalTitle,
+        possiblePaths: careerPaths.map((path) => ({
+          nextTitle: path.to_title,
+          avgMonths: path.avg_months_to_transition,
+          skillsNeeded: path.skills_acquired,
+          successFactors: path.success_factors,
+          successRate: path.success_rate,
+        })),
+      },
+      skillGapAnalysis,
+      competitiveAdvantages,
+      differentiationStrategies,
+      marketOptimization,
+    },
+  };
 }
 
 /**
@@ -362,10 +391,21 @@ async function calculateUserMetrics(userId: string): Promise<UserMetrics> {
     .select("skill_name, skill_category")
     .eq("user_id", userId);
 
-  const totalSkills = skills?.length || 0;
-  const skillsByCategory: Record<string, number> = {};
+  // Count each canonical skill once ("JS" and "JavaScript" are one skill)
+  const distinctSkills = new Map<string, string>();
   skills?.forEach((skill) => {
-    const category = skill.skill_category || "Other";
+    const key = canonicalSkillKey(skill.skill_name);
+    if (distinctSkills.has(key)) return;
+    distinctSkills.set(
+      key,
+      resolveSkill(skill.skill_name)?.category ||
+        skill.skill_category ||
+        "Other"
+    );
+  });
+  const totalSkills = distinctSkills.size;
+  const skillsByCategory: Record<string, number> = {};
+  distinctSkills.forEach((category) => {
     skillsByCategory[category] = (skillsByCategory[category] || 0) + 1;
   });
 
@@ -469,9 +509,7 @@ async function analyzeSkillGaps(
     .select("skill_name")
     .eq("user_id", userId);
 
-  const userSkillSet = new Set(
-    (userSkills || []).map((s) => s.skill_name.toLowerCase())
-  );
+  const userSkillNames = (userSkills || []).map((s) => s.skill_name as string);
 
   // Get industry required skills
   // @ts-ignore - supabaseAdmin checked at handler entry
@@ -485,9 +523,11 @@ async function analyzeSkillGaps(
     experienceLevel
   ] || []) as string[];
 
-  // Calculate missing skills
-  const missingSkills = requiredSkills.filter(
-    (skill) => !userSkillSet.has(skill.toLowerCase())
+  // Match through the skills taxonomy (aliases, and child skills covering
+  // their parents)
+  const { matched: matchedSkills, missing: missingSkills } = compareSkills(
+    userSkillNames,
+    requiredSkills
   );
 
   // Get top missing skills from peer benchmark
@@ -495,15 +535,12 @@ async function analyzeSkillGaps(
 
   // Skill depth comparison
   const skillsDepth = {
-    user: userSkills?.length || 0,
+    user: new Set(userSkillNames.map(canonicalSkillKey)).size,
     peerAverage: peerBenchmark?.avg_skills_per_profile || 0,
     industryRequired: requiredSkills.length,
   };
 
   // Calculate skill match percentage
-  const matchedSkills = requiredSkills.filter((skill) =>
-    userSkillSet.has(skill.toLowerCase())
-  );
   const skillMatchPercentage =
     requiredSkills.length > 0
       ? (matchedSkills.length / requiredSkills.length) * 100
@@ -20,6 +20,7 @@
 import type { IncomingMessage, ServerResponse } from "http";
 import { readJson, sendJson } from "../../../utils/http.js";
 import { requireAuth } from "../../middleware/auth.js";
+import type { ProgressReporter } from "../../services/jobQueueService.js";
 import aiClient from "../../services/aiClient.js";
 import supabaseAdmin from "../../services/supabaseAdmin.js";
 
@@ -388,54 +389,9 @@ export async function handleGetMarketIntelligence(
       body = {};
     }
 
-    // Build user context from DB (real user input)
-    let userContext = await buildUserContextFromJobs(userId);
-
-    // Allow explicit overrides from frontend filters, if passed
-    if (body.targetRole) userContext.targetRole = body.targetRole;
-    if (body.targetIndustries && body.targetIndustries.length > 0) {
-      userContext.targetIndustries = body.targetIndustries;
-    }
-    if (body.targetLocations && body.targetLocations.length > 0) {
-      userContext.targetLocations = body.targetLocations;
-    }
-
-    const experienceLevel = body.experienceLevel || "mid";
-
-    const prompt = buildMarketIntelligencePrompt({
-      userId,
-      userContext,
-      experienceLevel,
-    });
-
-    const aiResult = await aiClient.generate("market_intelligence", prompt);
-
-    let aiData: MarketIntelligenceData | null = null;
-    if (aiResult?.json) {
-      aiData = aiResult.json as MarketIntelligenceData;
-    } else if (typeof aiResult?.text === "string") {
-      try {
-        aiData = JSON.parse(aiResult.text) as MarketIntelligenceData;
-      } catch {
-        // JSON parse error - aiData remains null
-      }
-    }
-
-    if (!aiData) {
-      return sendJson(res, 500, {
-        success: false,
-        error: "AI returned invalid market intelligence payload",
-      });
-    }
-
-    const payload: MarketIntelligenceResponseBody = {
-      ai: aiData,
-      userContext,
-    };
-
     return sendJson(res, 200, {
       success: true,
-      data: payload,
+      data: await buildMarketIntelligence(userId, body),
     });
   } catch (err: any) {
     return sendJson(res, 500, {
@@ -444,3 +400,59 @@ export async function handleGetMarketIntelligence(
     });
   }
 }
+
+/**
+ * Build the user's context from their jobs and ask the AI for market trends
+ *
+ * Shared by the POST route and the market_intelligence background job; the
+ * optional progress reporter is called between steps.
+ */
+export async function buildMarketIntelligence(
+  userId: string,
+  body: MarketIntelligenceRequestBody,
+  progress?: ProgressReporter
+): Promise<MarketIntelligenceResponseBody> {
+  // Build user context from DB (real user input)
+  await progress?.(10, "Reading your job search");
+  let userContext = await buildUserContextFromJobs(userId);
+
+  // Allow explicit overrides from frontend filters, if passed
+  if (body.targetRole) userContext.targetRole = body.targetRole;
+  if (body.targetIndustries && body.targetIndustries.length > 0) {
+    userContext.targetIndustries = body.targetIndustries;
+  }
+  if (body.targetLocations && body.targetLocations.length > 0) {
+    userContext.targetLocations = body.targetLocations;
+  }
+
+  const experienceLevel = body.experienceLevel || "mid";
+
+  const prompt = buildMarketIntelligencePrompt({
+    userId,
+    userContext,
+    experienceLevel,
+  });
+
+  await progress?.(25, "Analyzing the market");
+  const aiResult = await aiClient.generate("market_intelligence", prompt);
+
+  let aiData: MarketIntelligenceData | null = null;
+  if (aiResult?.json) {
+    aiData = aiResult.json as MarketIntelligenceData;
+  } else if (typeof aiResult?.text === "string") {
+    try {
+      aiData = JSON.parse(aiResult.text) as MarketIntelligenceData;
+    } catch {
+      // JSON parse error - aiData remains null
+    }
+  }
+
+  if (!aiData) {
+    throw new Error("AI returned invalid market intelligence payload");
+  }
+
+  return {
+    ai: aiData,
+    userContext,
+  };
+}
@@ -271,7 +271,7 @@ export async function post(
   userId: string
 ): Promise<void> {
   // Rate limit: moderate (30 requests/5min per user)
-  const limit = checkLimit(`networking-analytics:${userId}`, 30, 300_000);
+  const limit = await checkLimit(`networking-analytics:${userId}`, 30, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
@@ -19,6 +19,12 @@ import type { IncomingMessage, ServerResponse } from "node:http";
 import supabaseAdmin from "../../services/supabaseAdmin.js";
 import { sendJson } from "../../../utils/http.js";
 import { requireAuth } from "../../middleware/auth.js";
+import {
+  CacheKeys,
+  CacheTTL,
+  CachedAnalytics,
+  cached,
+} from "../../services/cacheService.js";
 
 interface Job {
   id: string;
@@ -98,115 +104,131 @@ export async function handleGetPatternRecognition(
       return sendJson(res, 500, { error: "Database connection not available" });
     }
 
-    // Fetch all user's jobs with details
-    const { data: jobs, error: jobsError } = await supabaseAdmin
-      .from("jobs")
-      .select("*")
-      .eq("user_id", userId)
-      .eq("is_archived", false)
-      .order("created_at", { ascending: false });
+    // Cached per user; job and profile changes invalidate it
+    const analysis = await cached(
+      CacheKeys.analytics(userId, CachedAnalytics.patternRecognition),
+      CacheTTL.analytics,
+      () => analyzePatterns(userId)
+    );
+    return sendJson(res, 200, analysis);
+  } catch (error: unknown) {
+    console.error("[handleGetPatternRecognition] Error:", error);
+    return sendJson(res, 500, {
+      error:
+        error instanceof Error ? error.message : "Failed to analyze patterns",
+    });
+  }
+}
 
-    if (jobsError) {
-      return sendJson(res, 500, { error: "Failed to fetch job data" });
-    }
+/**
+ * Full pattern analysis for a user (the GET response body)
+ */
+async function analyzePatterns(userId: string) {
+  // Checked by the handler before the cache lookup
+  const db = supabaseAdmin!;
 
-    if (!jobs || jobs.length === 0) {
-      return sendJson(res, 200, {
-        success: true,
-        message: "No job data available for pattern analysis",
-        data: getEmptyPatternData(),
-      });
-    }
+  // Fetch all user's jobs with details
+  const { data: jobs, error: jobsError } = await db
+    .from("jobs")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("is_archived", false)
+    .order("created_at", { ascending: false });
 
-    // 1. Identify patterns in successful applications, interviews, and offers
-    const applicationPatterns = await identifyApplicationPatterns(userId, jobs);
-    const interviewPatterns = await identifyInterviewPatterns(userId, jobs);
-    const offerPatterns = await identifyOfferPatterns(userId, jobs);
+  if (jobsError) {
+    throw new Error("Failed to fetch job data");
+  }
 
-    // 2. Analyze correlation between preparation activities and outcomes
-    const preparationCorrelations = await analyzePreparationCorrelations(
-      userId
-    );
+  if (!jobs || jobs.length === 0) {
+    return {
+      success: true,
+      message: "No job data available for pattern analysis",
+      data: getEmptyPatternData(),
+    };
+  }
 
-    // 3. Monitor timing patterns for optimal career move execution
-    const timingPatterns = await analyzeTimingPatterns(userId, jobs);
+  // 1. Identify patterns in successful applications, interviews, and offers
+  const applicationPatterns = await identifyApplicationPatterns(userId, jobs);
+  const interviewPatterns = await identifyInterviewPatterns(userId, jobs);
+  const offerPatterns = await identifyOfferPatterns(userId, jobs);
 
-    // 4. Track strategy effectiveness across market conditions
-    const strategyEffectiveness = await analyzeStrategyEffectiveness(
-      userId,
-      jobs
-    );
+  // 2. Analyze correlation between preparation activities and outcomes
+  const preparationCorrelations = await analyzePreparationCorrelations(
+    userId
+  );
 
-    // 5. Generate insights on personal success factors
-    const successFactors = await generateSuccessFactors(
-      jobs,
-      applicationPatterns,
-      interviewPatterns,
-      offerPatterns,
-      preparationCorrelations
-    );
+  // 3. Monitor timing patterns for optimal career move execution
+  const timingPatterns = await analyzeTimingPatterns(userId, jobs);
 
-    // 6. Include predictive modeling for future opportunity success
-    const predictiveInsights = await generatePredictiveInsights(
-      userId,
-      jobs,
-      successFactors
-    );
+  // 4. Track strategy effectiveness across market conditions
+  const strategyEffectiveness = await analyzeStrategyEffectiveness(
+    userId,
+    jobs
+  );
+
+  // 5. Generate insights on personal success factors
+  const successFactors = await generateSuccessFactors(
+    jobs,
+    applicationPatterns,
+    interviewPatterns,
+    offerPatterns,
+    preparationCorrelations
+  );
+
+  // 6. Include predictive modeling for future opportunity success
+  const predictiveInsights = await generatePredictiveInsights(
+    userId,
+    jobs,
+    successFactors
+  );
+
+  // 7. Provide recommendations based on historical success patterns
+  const recommendations = await generatePatternRecommendations(
+    applicationPatterns,
+    interviewPatterns,
+    offerPatterns,
+    timingPatterns,
+    strategyEffectiveness,
+    successFactors
+  );
+
+  // 8. Track pattern evolution and strategy adaptation
+  const patternEvolution = await trackPatternEvolution(userId);
 
-    // 7. Provide recommendations based on historical success patterns
-    const recommendations = await generatePatternRecommendations(
+  // Return comprehensive pattern analysis
+  return {
+    success: true,
+    data: {
+      summary: {
+        totalJobs: jobs.length,
+        patternsIdentified:
+          applicationPatterns.length +
+          interviewPatterns.length +
+          offerPatterns.length,
+        highConfidencePatterns: [
+          ...applicationPatterns,
+          ...interviewPatterns,
+          ...offerPatterns,
+        ].filter((p) => p.confidence_score >= 0.7).length,
+        topSuccessRate: Math.max(
+          ...applicationPatterns.map((p) => p.success_rate),
+          ...interviewPatterns.map((p) => p.success_rate),
+          ...offerPatterns.map((p) => p.success_rate),
+          0
+        ),
+      },
       applicationPatterns,
       interviewPatterns,
       offerPatterns,
+      preparationCorrelations,
       timingPatterns,
       strategyEffectiveness,
-      successFactors
-    );
-
-    // 8. Track pattern evolution and strategy adaptation
-    const patternEvolution = await trackPatternEvolution(userId);
-
-    // Return comprehensive pattern analysis
-    return sendJson(res, 200, {
-      success: true,
-      data: {
-        summary: {
-          totalJobs: jobs.length,
-          patternsIdentified:
-            applicationPatterns.length +
-            interviewPatterns.length +
-            offerPatterns.length,
-          highConfidencePatterns: [
-            ...applicationPatterns,
-            ...interviewPatterns,
-            ...offerPatterns,
-          ].filter((p) => p.confidence_score >= 0.7).length,
-          topSuccessRate: Math.max(
-            ...applicationPatterns.map((p) => p.success_rate),
-            ...interviewPatterns.map((p) => p.success_rate),
-            ...offerPatterns.map((p) => p.success_rate),
-            0
-          ),
-        },
-        applicationPatterns,
-        interviewPatterns,
-        offerPatterns,
-        preparationCorrelations,
-        timingPatterns,
-        strategyEffectiveness,
-        successFactors,
-        predictiveInsights,
-        recommendations,
-        patternEvolution,
-      },
-    });
-  } catch (error: unknown) {
-    console.error("[handleGetPatternRecognition] Error:", error);
-    return sendJson(res, 500, {
-      error:
-        error instanceof Error ? error.message : "Failed to analyze patterns",
-    });
-  }
+      successFactors,
+      predictiveInsights,
+      recommendations,
+      patternEvolution,
+    },
+  };
 }
 
 /**
@@ -3,6 +3,7 @@
  * 
  * Calculates comprehensive salary progression and negotiation analytics:
  * - Salary progression over time (offers received)
+ *   from job_offers (preferred) and offer fields on job_notes
  * - Negotiation success rates and outcomes
  * - Total compensation evolution
  * - Career advancement impact on earnings
@@ -15,6 +16,7 @@ import type { URL } from "node:url";
 import { createClient } from "@supabase/supabase-js";
 import { readJson } from "../../../utils/http.js";
 import { getCorsHeaders } from "../../middleware/cors.js";
+import { projectOffer } from "../../services/compensationModel.js";
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -119,7 +121,66 @@ export async function post(
       return;
     }
 
-    const offers = (data || []).map((row: any) => ({
+    // Offers tracked with the compensation model (job_offers) replace the
+    // offer fields on job_notes for the same job
+    const { data: offerRows, error: offersError } = await supabase
+      .from("job_offers")
+      .select(`
+        *,
+        jobs!inner(
+          job_title,
+          company_name,
+          job_status,
+          industry,
+          experience_level,
+          city_name,
+          state_code
+        )
+      `)
+      .eq("user_id", userId)
+      .gt("base_salary", 0);
+
+    if (offersError) {
+      console.error("Salary analytics job_offers query error:", offersError);
+      const errorBody = JSON.stringify({ error: "Failed to fetch salary data" });
+      res.writeHead(500, {
+        "Content-Type": "application/json",
+        ...getCorsHeaders(),
+      });
+      res.end(errorBody);
+      return;
+    }
+
+    const thresholdDate = dateThreshold
+      ? dateThreshold.toISOString().split("T")[0]
+      : null;
+    const modeledOffers = (offerRows || [])
+      .filter((row: any) => row.base_salary != null && row.jobs)
+      .map((row: any) => {
+        const yearOne = projectOffer({ ...row, id: String(row.id) }, 1).years[0];
+        const negotiated = row.initial_base_salary != null;
+        return {
+          job_id: row.job_id,
+          offered_salary: Number(negotiated ? row.initial_base_salary : row.base_salary),
+          negotiated_salary: negotiated ? Number(row.base_salary) : null,
+          offer_received_date:
+            row.offer_received_date || String(row.created_at || "").split("T")[0] || null,
+          negotiation_outcome: row.negotiation_outcome,
+          total_compensation_breakdown: { ...yearOne.components, total: yearOne.gross },
+          jobs: row.jobs,
+        };
+      })
+      .filter((row: any) => !thresholdDate || (row.offer_received_date && row.offer_received_date >= thresholdDate));
+    const modeledJobIds = new Set(modeledOffers.map((row: any) => row.job_id));
+
+    const rows = [
+      ...(data || []).filter((row: any) => !modeledJobIds.has(row.job_id)),
+      ...modeledOffers,
+    ].sort((a: any, b: any) =>
+      String(a.offer_received_date || "").localeCompare(String(b.offer_received_date || ""))
+    );
+
+    const offers = rows.map((row: any) => ({
       job_title: row.jobs.job_title,
       company_name: row.jobs.company_name,
       offered_salary: row.offered_salary,
@@ -0,0 +1,55 @@
+/**
+ * ATS SCORING ROUTES
+ *
+ * Endpoints:
+ * - POST /api/ats/versions/:id - scoreVersion() Keyword-match a resume version
+ *                                against a job and store ats_score
+ *
+ * Scoring is deterministic (services/atsAnalyzer.ts) and makes no AI calls.
+ *
+ * All routes require authentication; versions and jobs are scoped to the user
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { readJson, sendJson } from "../../../utils/http.js";
+import * as atsScore from "../../services/atsScoreService.js";
+
+/**
+ * POST /api/ats/versions/:id
+ *
+ * Body (optional): { jobId? } - defaults to the job the version or its
+ * document is linked to
+ */
+export async function scoreVersion(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  versionId: string
+): Promise<void> {
+  let body: any;
+  try {
+    body = await readJson(req);
+  } catch {
+    throw new ApiError(400, "Invalid JSON body", "bad_json");
+  }
+
+  // Job ids arrive as numbers or numeric strings
+  const jobId =
+    body?.jobId === undefined || body?.jobId === null
+      ? null
+      : Number(body.jobId);
+  if (jobId !== null && !(Number.isInteger(jobId) && jobId > 0)) {
+    throw new ApiError(400, "jobId must be a job id", "bad_request");
+  }
+
+  const result = await atsScore.scoreDocumentVersion({
+    userId,
+    versionId,
+    jobId,
+  });
+  sendJson(res, 200, result);
+}
@@ -0,0 +1,139 @@
+/**
+ * AUTOMATION ROUTES
+ *
+ * Endpoints:
+ * - GET    /api/automations      - list()   Rules with trigger, conditions and actions
+ * - POST   /api/automations      - create() Create a rule
+ * - PATCH  /api/automations/:id  - update() Update a rule (enable/disable, edit)
+ * - DELETE /api/automations/:id  - remove() Delete a rule (its runs stay in the log)
+ * - GET    /api/automations/runs - runs()   Execution log (?ruleId=&limit=50)
+ *
+ * Rules are executed by the automation scheduler (services/automationService),
+ * not by these routes.
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { readJson, sendJson } from "../../../utils/http.js";
+import * as automationService from "../../services/automationService.js";
+import type { AutomationRuleInput } from "../../services/automationService.js";
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseLimit(url: URL): number {
+  const limit = Number(url.searchParams.get("limit") ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+    throw new ApiError(400, "limit must be between 1 and 200", "bad_request");
+  }
+  return limit;
+}
+
+function requireRuleId(ruleId: string): string {
+  if (!UUID.test(ruleId)) {
+    throw new ApiError(400, "Invalid rule id", "bad_request");
+  }
+  return ruleId;
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  try {
+    return await readJson(req);
+  } catch {
+    throw new ApiError(400, "Invalid JSON body", "bad_json");
+  }
+}
+
+/**
+ * GET /api/automations
+ */
+export async function list(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const rules = await automationService.listRules(userId);
+  sendJson(res, 200, { rules });
+}
+
+/**
+ * POST /api/automations
+ *
+ * Body: { name, enabled?, trigger_type, trigger_config?, conditions?, actions }
+ */
+export async function create(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const input = automationService.validateRuleInput(await readBody(req));
+  const rule = await automationService.createRule(
+    userId,
+    input as AutomationRuleInput
+  );
+  sendJson(res, 201, { rule });
+}
+
+/**
+ * PATCH /api/automations/:id
+ *
+ * Body: any subset of the create fields (trigger_config needs trigger_type)
+ */
+export async function update(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  ruleId: string
+): Promise<void> {
+  requireRuleId(ruleId);
+  const patch = automationService.validateRuleInput(await readBody(req), {
+    partial: true,
+  });
+  if (Object.keys(patch).length === 0) {
+    throw new ApiError(400, "Nothing to update", "bad_request");
+  }
+  const rule = await automationService.updateRule(userId, ruleId, patch);
+  sendJson(res, 200, { rule });
+}
+
+/**
+ * DELETE /api/automations/:id
+ */
+export async function remove(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  ruleId: string
+): Promise<void> {
+  await automationService.deleteRule(userId, requireRuleId(ruleId));
+  sendJson(res, 200, { deleted: true });
+}
+
+/**
+ * GET /api/automations/runs
+ */
+export async function runs(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const ruleId = url.searchParams.get("ruleId") ?? undefined;
+  if (ruleId) requireRuleId(ruleId);
+  const result = await automationService.listRuns(userId, {
+    ruleId,
+    limit: parseLimit(url),
+  });
+  sendJson(res, 200, { runs: result });
+}
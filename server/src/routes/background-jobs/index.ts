@@ -0,0 +1,328 @@
+/**
+ * BACKGROUND JOB ROUTES
+ *
+ * Endpoints:
+ * - POST /api/background-jobs            - create() Queue a job, 202 with its id
+ * - GET  /api/background-jobs            - list()   Recent jobs (?status=&kind=&limit=50)
+ * - GET  /api/background-jobs/:id        - get()    One job with progress and result
+ * - GET  /api/background-jobs/:id/events - events() Progress as server-sent events
+ * - POST /api/background-jobs/:id/cancel - cancel() Cancel a pending or running job
+ *
+ * Kinds (body { kind, input }; input is what the inline route takes):
+ * - company_research    - GET /api/company/research query as
+ *                         { companyName, industry?, jobDescription? }
+ * - career_paths        - POST /api/analytics/career/paths body
+ * - market_intelligence - POST /api/analytics/market-intelligence body
+ * - job_import          - POST /api/generate/job-import body
+ * - github_sync         - {}; queued by POST /api/github/sync for the
+ *                         linked account
+ *
+ * Jobs are run by the job queue (services/jobQueueService), not by these
+ * routes; the handlers registered below reuse the inline routes' code.
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { readJson, sendJson } from "../../../utils/http.js";
+import { openEventStream, sendEvent } from "../../../utils/sse.js";
+import * as jobQueue from "../../services/jobQueueService.js";
+import type {
+  BackgroundJobKind,
+  BackgroundJobRow,
+  BackgroundJobStatus,
+} from "../../services/jobQueueService.js";
+import { fetchCompanyResearch } from "../../services/companyResearchService.js";
+import { syncGithubRepositories } from "../../services/githubSyncService.js";
+import {
+  runJobImport,
+  validateJobImportInput,
+} from "../generate/job-import.js";
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** How often the event stream re-reads the job */
+const EVENTS_POLL_MS = 1_000;
+/** Comment line that keeps proxies from closing an idle stream */
+const EVENTS_HEARTBEAT_MS = 15_000;
+
+// ============================================================================
+// Job handlers
+// ============================================================================
+
+// Result: { data: CompanyResearch | null }, as GET /api/company/research
+jobQueue.registerJobHandler("company_research", {
+  validate: (input) => {
+    const name = input.companyName;
+    if (typeof name !== "string" || !name.trim()) {
+      throw new ApiError(400, "companyName is required", "bad_request");
+    }
+  },
+  run: async (input, ctx) => {
+    const text = (value: unknown, max: number) =>
+      typeof value === "string" && value.trim()
+        ? value.trim().slice(0, max)
+        : null;
+    const data = await fetchCompanyResearch(
+      String(input.companyName).trim().slice(0, 200),
+      text(input.industry, 100),
+      text(input.jobDescription, 5000),
+      ctx.userId,
+      ctx.progress
+    );
+    return { data };
+  },
+});
+
+jobQueue.registerJobHandler("job_import", {
+  validate: validateJobImportInput,
+  run: (input, ctx) =>
+    runJobImport(ctx.userId, input, {
+      reqId: ctx.jobId,
+      progress: ctx.progress,
+    }),
+});
+
+// Result: GithubSyncResult (counts and skill evidence)
+jobQueue.registerJobHandler("github_sync", {
+  run: (input, ctx) =>
+    syncGithubRepositories(ctx.userId, {
+      progress: ctx.progress,
+      signal: ctx.signal,
+    }),
+});
+
+// The analytics modules stay loaded on first use, as in the route table.
+// Results match the routes' 200 bodies.
+jobQueue.registerJobHandler("career_paths", {
+  run: async (input, ctx) => {
+    const { simulateCareerPaths } =
+      await import("../analytics/career-paths.js");
+    return {
+      success: true,
+      data: await simulateCareerPaths(ctx.userId, input, ctx.progress),
+    };
+  },
+});
+
+jobQueue.registerJobHandler("market_intelligence", {
+  run: async (input, ctx) => {
+    const { buildMarketIntelligence } =
+      await import("../analytics/market-intelligence.js");
+    return {
+      success: true,
+      data: await buildMarketIntelligence(ctx.userId, input, ctx.progress),
+    };
+  },
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function requireJobId(jobId: string): string {
+  if (!UUID.test(jobId)) {
+    throw new ApiError(400, "Invalid job id", "bad_request");
+  }
+  return jobId;
+}
+
+function parseLimit(url: URL): number {
+  const limit = Number(url.searchParams.get("limit") ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+    throw new ApiError(400, "limit must be between 1 and 200", "bad_request");
+  }
+  return limit;
+}
+
+function parseKind(value: unknown): BackgroundJobKind {
+  if (!jobQueue.BACKGROUND_JOB_KINDS.includes(value as BackgroundJobKind)) {
+    throw new ApiError(
+      400,
+      `kind must be one of ${jobQueue.BACKGROUND_JOB_KINDS.join(", ")}`,
+      "bad_request"
+    );
+  }
+  return value as BackgroundJobKind;
+}
+
+function parseStatus(value: string): BackgroundJobStatus {
+  if (
+    !jobQueue.BACKGROUND_JOB_STATUSES.includes(value as BackgroundJobStatus)
+  ) {
+    throw new ApiError(
+      400,
+      `status must be one of ${jobQueue.BACKGROUND_JOB_STATUSES.join(", ")}`,
+      "bad_request"
+    );
+  }
+  return value as BackgroundJobStatus;
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  try {
+    return await readJson(req);
+  } catch {
+    throw new ApiError(400, "Invalid JSON body", "bad_json");
+  }
+}
+
+/** Progress fields sent on every event */
+function progressOf(job: BackgroundJobRow) {
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    progress: job.progress,
+    message: job.progress_message,
+    attempts: job.attempts,
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * POST /api/background-jobs
+ *
+ * Body: { kind, input }
+ */
+export async function create(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+  const kind = parseKind(body?.kind);
+  const input = body?.input ?? {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new ApiError(400, "input must be an object", "bad_request");
+  }
+
+  const job = await jobQueue.enqueueJob(userId, kind, input);
+  sendJson(res, 202, { job });
+}
+
+/**
+ * GET /api/background-jobs
+ */
+export async function list(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const status = url.searchParams.get("status");
+  const kind = url.searchParams.get("kind");
+  const jobs = await jobQueue.listJobs(userId, {
+    status: status ? parseStatus(status) : undefined,
+    kind: kind ? parseKind(kind) : undefined,
+    limit: parseLimit(url),
+  });
+  sendJson(res, 200, { jobs });
+}
+
+/**
+ * GET /api/background-jobs/:id
+ */
+export async function get(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  jobId: string
+): Promise<void> {
+  const job = await jobQueue.getJob(userId, requireJobId(jobId));
+  sendJson(res, 200, { job });
+}
+
+/**
+ * GET /api/background-jobs/:id/events
+ *
+ * Events: "progress" whenever the job changes, then one of "complete"
+ * ({ job } with its result), "error" (failed) or "cancelled"; the stream
+ * ends after it.
+ */
+export async function events(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  jobId: string
+): Promise<void> {
+  // Missing jobs are a plain 404 before the stream opens
+  let job = await jobQueue.getJob(userId, requireJobId(jobId));
+
+  openEventStream(res);
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+
+  let lastUpdate = "";
+  let lastHeartbeat = Date.now();
+  while (!closed) {
+    if (job.updated_at !== lastUpdate) {
+      lastUpdate = job.updated_at;
+      sendEvent(res, "progress", progressOf(job));
+    }
+
+    if (job.status === "succeeded") {
+      sendEvent(res, "complete", { job });
+      break;
+    }
+    if (job.status === "failed") {
+      sendEvent(res, "error", {
+        ...progressOf(job),
+        error: job.last_error ?? "Job failed",
+        code: "job_failed",
+      });
+      break;
+    }
+    if (job.status === "cancelled") {
+      sendEvent(res, "cancelled", progressOf(job));
+      break;
+    }
+
+    if (Date.now() - lastHeartbeat >= EVENTS_HEARTBEAT_MS) {
+      lastHeartbeat = Date.now();
+      if (!res.writableEnded) res.write(": heartbeat\n\n");
+    }
+    await new Promise((resolve) => setTimeout(resolve, EVENTS_POLL_MS));
+    if (closed) break;
+
+    try {
+      job = await jobQueue.getJob(userId, jobId);
+    } catch (e: any) {
+      sendEvent(res, "error", {
+        error: e?.message ?? String(e),
+        code: e?.code ?? "db_error",
+      });
+      break;
+    }
+  }
+  res.end();
+}
+
+/**
+ * POST /api/background-jobs/:id/cancel
+ */
+export async function cancel(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  jobId: string
+): Promise<void> {
+  const job = await jobQueue.cancelJob(userId, requireJobId(jobId));
+  sendJson(res, 200, { job });
+}
@@ -0,0 +1,114 @@
+/**
+ * DOCUMENT EXPORT ROUTES
+ *
+ * Endpoints:
+ * - POST /api/export/:format         - post()        (format: pdf | docx | html | txt)
+ * - GET  /api/export/history         - getHistory()  (?documentId= optional)
+ * - GET  /api/export/:id/download    - getDownload()
+ *
+ * All routes require authentication; documents and exports are scoped to the user
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { readJson, sendJson } from "../../../utils/http.js";
+import * as exportService from "../../services/exportService.js";
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Ids are uuid columns; anything else would fail in Postgres as a 500 */
+function parseId(value: unknown, field: string): string {
+  if (typeof value !== "string" || !UUID.test(value)) {
+    throw new ApiError(400, `${field} must be a UUID`, "bad_request");
+  }
+  return value;
+}
+
+/**
+ * POST /api/export/:format
+ *
+ * Render a document with a template/theme, store the file and record history.
+ * Body: { documentId, templateId?, themeId?, sentTo?, filename? }
+ */
+export async function post(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  format: string
+): Promise<void> {
+  if (!exportService.isExportFormat(format)) {
+    throw new ApiError(
+      400,
+      `Unsupported export format: ${format}`,
+      "bad_request"
+    );
+  }
+
+  let body: any;
+  try {
+    body = await readJson(req);
+  } catch (e: any) {
+    throw new ApiError(400, "Invalid JSON body", "bad_json");
+  }
+
+  if (!body?.documentId || typeof body.documentId !== "string") {
+    throw new ApiError(400, "documentId is required", "bad_request");
+  }
+
+  const result = await exportService.createExport({
+    userId,
+    documentId: parseId(body.documentId, "documentId"),
+    format,
+    templateId: body.templateId ?? null,
+    themeId: body.themeId ?? null,
+    sentTo: typeof body.sentTo === "string" ? body.sentTo : null,
+    filename: typeof body.filename === "string" ? body.filename : null,
+  });
+
+  sendJson(res, 201, result);
+}
+
+/**
+ * GET /api/export/history
+ *
+ * Export history (newest first) plus per-document summaries
+ */
+export async function getHistory(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const filter = url.searchParams.get("documentId");
+  const documentId = filter ? parseId(filter, "documentId") : null;
+  const result = await exportService.listExportHistory(userId, documentId);
+  sendJson(res, 200, result);
+}
+
+/**
+ * GET /api/export/:id/download
+ *
+ * Signed URL for re-downloading the exact stored file
+ */
+export async function getDownload(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  exportId: string
+): Promise<void> {
+  if (!exportId) {
+    throw new ApiError(400, "Export ID is required", "bad_request");
+  }
+
+  const result = await exportService.getExportDownload(
+    userId,
+    parseId(exportId, "Export ID")
+  );
+  sendJson(res, 200, result);
+}
@@ -238,7 +238,7 @@ export async function post(
   counters: GenerationCounters
 ): Promise<void> {
   // Rate limiting - 30 requests per minute for coaching insights
-  const limit = checkLimit(`coaching_insights:${userId}`, 30, 60_000);
+  const limit = await checkLimit(`coaching_insights:${userId}`, 30, 60_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(
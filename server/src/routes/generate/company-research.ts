@@ -62,7 +62,7 @@ export async function post(
   counters: GenerationCounters
 ): Promise<void> {
   // Rate limit: 10 requests per minute per user (research is less intensive than generation)
-  const limit = checkLimit(`company-research:${userId}`, 50, 300_000);
+  const limit = await checkLimit(`company-research:${userId}`, 50, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
@@ -143,6 +143,8 @@ export async function post(
         prompt: artifact.prompt,
         model: artifact.model,
         content: artifact.content,
+        prompt_id: artifact.prompt_id,
+        prompt_version: artifact.prompt_version,
         metadata,
       });
       metadata.persisted = true;
@@ -0,0 +1,220 @@
+/**
+ * PROMPT COMPARISON ROUTE
+ *
+ * POST /api/generate/compare
+ *
+ * Runs two registered versions of a prompt side by side for the same job so
+ * their outputs can be reviewed together and their artifacts compared later
+ * (see get_prompt_version_stats).
+ *
+ * Request:
+ * - Body: { promptId, jobId: number, versions: [number, number], options? }
+ *   promptId: resume | cover_letter | skills_optimization | experience_tailoring
+ *   options: same as the single-variant route (promptVersion is set per variant)
+ *
+ * Response: 201 with { comparisonId, promptId, variants }, one entry per version:
+ * - { promptVersion, id, preview, content, persisted, metadata } on success
+ * - { promptVersion, error, code } when that variant failed
+ * Each artifact is persisted separately with metadata.comparison_id.
+ * 502 only when every variant failed.
+ *
+ * Rate Limiting: 10 requests per 5 minutes per user (each runs two generations)
+ * Authentication: Required
+ */
+
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { checkLimit } from "../../../utils/rateLimiter.js";
+import { legacyLogError as logError } from "../../../utils/logger.js";
+import { readJson } from "../../../utils/http.js";
+import { getCorsHeaders } from "../../middleware/cors.js";
+import * as orchestrator from "../../services/orchestrator.js";
+import type { PromptId } from "../../services/promptRegistry.js";
+import type { ArtifactRow } from "../../types/index.js";
+import type { GenerationCounters } from "./types.js";
+import { makePreview, parsePromptVersion } from "./utils.js";
+
+type HandlerResult = { artifact?: ArtifactRow; error?: string; code?: string };
+
+/** Orchestrator entry point per comparable prompt */
+const handlers: Partial<
+  Record<
+    PromptId,
+    (
+      userId: string,
+      jobId: number,
+      options: Record<string, unknown>
+    ) => Promise<HandlerResult>
+  >
+> = {
+  resume: (userId, jobId, options) =>
+    orchestrator.handleGenerateResume({ userId, jobId, options }),
+  cover_letter: (userId, jobId, options) =>
+    orchestrator.handleGenerateCoverLetter({ userId, jobId, options }),
+  skills_optimization: (userId, jobId, options) =>
+    orchestrator.handleSkillsOptimization({ userId, jobId, options }),
+  experience_tailoring: (userId, jobId, options) =>
+    orchestrator.handleExperienceTailoring({ userId, jobId, options }),
+};
+
+/**
+ * POST /api/generate/compare
+ *
+ * Flow:
+ * 1. Rate limit check
+ * 2. Validate promptId, jobId and both versions against the registry
+ * 3. Generate both variants in parallel
+ * 4. Persist each artifact tagged with the comparison id (if configured)
+ * 5. Return both variants
+ */
+export async function post(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  counters: GenerationCounters
+): Promise<void> {
+  const limit = await checkLimit(`prompt-compare:${userId}`, 10, 300_000);
+  if (!limit.ok) {
+    res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
+    throw new ApiError(429, "rate limited", "rate_limited");
+  }
+
+  let body: any;
+  try {
+    body = await readJson(req);
+  } catch (e: any) {
+    throw new ApiError(400, "invalid JSON body", "bad_json");
+  }
+
+  const promptId = body?.promptId as PromptId;
+  const generate = handlers[promptId];
+  if (!generate) {
+    throw new ApiError(
+      400,
+      `promptId must be one of ${Object.keys(handlers).join(", ")}`,
+      "bad_request"
+    );
+  }
+
+  const jobId = body?.jobId;
+  if (jobId === undefined || jobId === null || Number.isNaN(Number(jobId))) {
+    throw new ApiError(
+      400,
+      "jobId is required and must be a number",
+      "bad_request"
+    );
+  }
+
+  const rawVersions = body?.versions;
+  if (!Array.isArray(rawVersions) || rawVersions.length !== 2) {
+    throw new ApiError(
+      400,
+      "versions must list exactly two prompt versions",
+      "bad_request"
+    );
+  }
+  const versions = rawVersions.map((v) => parsePromptVersion(promptId, v));
+  if (versions.some((v) => v === undefined) || versions[0] === versions[1]) {
+    throw new ApiError(
+      400,
+      "versions must be two different prompt versions",
+      "bad_request"
+    );
+  }
+
+  const comparisonId = randomUUID();
+  const options = body?.options ?? {};
+  counters.generate_total += versions.length;
+  const start = Date.now();
+  const results = await Promise.all(
+    versions.map((promptVersion) =>
+      generate(userId, Number(jobId), { ...options, promptVersion }).catch(
+        (e: any): HandlerResult => ({ error: e?.message ?? String(e) })
+      )
+    )
+  );
+  const latencyMs = Date.now() - start;
+
+  const canPersist = Boolean(
+    process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  );
+
+  const variants = [];
+  for (const [i, result] of results.entries()) {
+    const promptVersion = versions[i];
+    const artifact = result.artifact;
+    if (result.error || !artifact) {
+      counters.generate_fail++;
+      logError("generate_compare_variant_failed", {
+        reqId,
+        userId,
+        jobId,
+        promptId,
+        promptVersion,
+        error: result.error ?? "no artifact produced",
+      });
+      variants.push({
+        promptVersion,
+        error: result.error ?? "no artifact produced",
+        code: result.error ? (result.code ?? "ai_error") : "no_artifact",
+      });
+      continue;
+    }
+
+    const metadata = {
+      ...(artifact.metadata ?? {}),
+      comparison_id: comparisonId,
+      latency_ms: latencyMs,
+      persisted: false,
+    } as Record<string, unknown>;
+
+    if (canPersist) {
+      try {
+        const mod = await import("../../services/supabaseAdmin.js");
+        const row = await mod.insertAiArtifact({
+          user_id: artifact.user_id,
+          job_id: artifact.job_id,
+          kind: artifact.kind,
+          title: artifact.title,
+          prompt: artifact.prompt,
+          model: artifact.model,
+          content: artifact.content,
+          prompt_id: artifact.prompt_id,
+          prompt_version: artifact.prompt_version,
+          metadata,
+        });
+        metadata.persisted = true;
+        metadata.artifact_id = row?.id;
+      } catch (e: any) {
+        logError("artifact_persist_failed", { reqId, error: e.message });
+      }
+    }
+
+    counters.generate_success++;
+    variants.push({
+      promptVersion,
+      id: (metadata.artifact_id as string | undefined) ?? null,
+      preview: makePreview(artifact.content),
+      content: artifact.content,
+      persisted: metadata.persisted,
+      metadata,
+    });
+  }
+
+  if (variants.every((v) => "error" in v)) {
+    const first = variants[0] as { error: string; code: string };
+    throw new ApiError(502, first.error, first.code);
+  }
+
+  const bodyStr = JSON.stringify({ comparisonId, promptId, variants });
+  res.writeHead(201, {
+    "Content-Type": "application/json",
+    "Content-Length": Buffer.byteLength(bodyStr).toString(),
+    ...getCorsHeaders(),
+  });
+  res.end(bodyStr);
+}
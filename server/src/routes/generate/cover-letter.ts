@@ -8,11 +8,17 @@
  * personalized cover letters.
  *
  * Request:
- * - Body: { jobId: number, options?: { tone, focus, variant, model, prompt, templateId } }
+ * - Body: { jobId: number, options?: { tone, focus, variant, model, prompt, templateId, promptVersion } }
  * - Headers: Authorization (JWT) or X-User-Id (dev mode)
  *
  * Response: 201 with { id, kind, created_at, preview, content, persisted, metadata }
  *
+ * Streaming: send `Accept: text/event-stream` (or ?stream=true) to receive SSE:
+ * - start    { kind, jobId }
+ * - section  { path, value } as each top-level section of the JSON completes
+ * - complete same payload as the 201 response, after the artifact is persisted
+ * - error    { error, code } (validation/rate limit errors still use HTTP status)
+ *
  * Rate Limiting: 5 requests per minute per user
  * Authentication: Required
  */
@@ -23,10 +29,16 @@ import { ApiError } from "../../../utils/errors.js";
 import { checkLimit } from "../../../utils/rateLimiter.js";
 import { legacyLogError as logError } from "../../../utils/logger.js";
 import { readJson } from "../../../utils/http.js";
+import {
+  openEventStream,
+  sendEvent,
+  wantsEventStream,
+} from "../../../utils/sse.js";
 import { getCorsHeaders } from "../../middleware/cors.js";
 import * as orchestrator from "../../services/orchestrator.js";
+import { JsonSectionStream } from "../../services/jsonSectionStream.js";
 import type { GenerationCounters } from "./types.js";
-import { makePreview } from "./utils.js";
+import { makePreview, parsePromptVersion } from "./utils.js";
 
 /**
  * POST /api/generate/cover-letter
@@ -39,7 +51,7 @@ export async function post(
   userId: string,
   counters: GenerationCounters
 ): Promise<void> {
-  const limit = checkLimit(`cover-letter:${userId}`, 50, 300_000);
+  const limit = await checkLimit(`cover-letter:${userId}`, 50, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
@@ -60,7 +72,15 @@ export async function post(
       "bad_request"
     );
   }
-  const options = body?.options ?? undefined;
+  const options = body?.options
+    ? {
+        ...body.options,
+        promptVersion: parsePromptVersion(
+          "cover_letter",
+          body.options.promptVersion
+        ),
+      }
+    : undefined;
 
   if (options?.templateId) {
     console.log(
@@ -68,13 +88,34 @@ export async function post(
     );
   }
 
+  // Streaming: headers go out now, sections are pushed as the JSON completes
+  const streaming = wantsEventStream(req, url);
+  let onDelta: ((delta: string) => void) | undefined;
+  if (streaming) {
+    const sections = new JsonSectionStream();
+    onDelta = (delta) => {
+      for (const section of sections.push(delta)) {
+        sendEvent(res, "section", section);
+      }
+    };
+    openEventStream(res);
+    sendEvent(res, "start", { kind: "cover_letter", jobId });
+  }
+
   counters.generate_total++;
   const start = Date.now();
-  const result = await orchestrator.handleGenerateCoverLetter({
-    userId,
-    jobId,
-    options,
-  });
+  let result: Awaited<
+    ReturnType<typeof orchestrator.handleGenerateCoverLetter>
+  >;
+  try {
+    result = await orchestrator.handleGenerateCoverLetter(
+      { userId, jobId, options },
+      onDelta
+    );
+  } catch (e: any) {
+    if (!streaming) throw e;
+    result = { error: e?.message ?? String(e) };
+  }
   const latencyMs = Date.now() - start;
 
   if (result.error) {
@@ -86,11 +127,29 @@ export async function post(
       error: result.error,
       latency_ms: latencyMs,
     });
-    throw new ApiError(502, result.error, "ai_error");
+    if (streaming) {
+      sendEvent(res, "error", {
+        error: result.error,
+        code: result.code ?? "ai_error",
+      });
+      res.end();
+      return;
+    }
+    throw new ApiError(502, result.error, result.code ?? "ai_error");
   }
 
   const artifact = result.artifact;
-  if (!artifact) throw new ApiError(500, "no artifact produced", "no_artifact");
+  if (!artifact) {
+    if (streaming) {
+      sendEvent(res, "error", {
+        error: "no artifact produced",
+        code: "no_artifact",
+      });
+      res.end();
+      return;
+    }
+    throw new ApiError(500, "no artifact produced", "no_artifact");
+  }
 
   const canPersist = Boolean(
     process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -113,6 +172,8 @@ export async function post(
         prompt: artifact.prompt,
         model: artifact.model,
         content: artifact.content,
+        prompt_id: artifact.prompt_id,
+        prompt_version: artifact.prompt_version,
         metadata,
       });
       metadata.persisted = true;
@@ -133,6 +194,12 @@ export async function post(
     metadata,
   };
 
+  if (streaming) {
+    sendEvent(res, "complete", payload);
+    res.end();
+    return;
+  }
+
   const bodyStr = JSON.stringify(payload);
   res.writeHead(201, {
     "Content-Type": "application/json",
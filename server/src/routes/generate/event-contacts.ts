@@ -57,7 +57,7 @@ export async function post(
   userId: string,
   counters: GenerationCounters
 ): Promise<void> {
-  const limit = checkLimit(`event_contacts:${userId}`, 30, 300_000);
+  const limit = await checkLimit(`event_contacts:${userId}`, 30, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
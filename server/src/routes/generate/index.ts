@@ -9,6 +9,7 @@
  *   POST /api/generate/skills-optimization     -> skills-optimization.ts::post()
  *   POST /api/generate/experience-tailoring    -> experience-tailoring.ts::post()
  *   POST /api/generate/company-research        -> company-research.ts::post()
+ *   POST /api/generate/compare                 -> compare.ts::post()
  */
 
 export { post as postResume } from "./resume.js";
@@ -16,6 +17,7 @@ export { post as postCoverLetter } from "./cover-letter.js";
 export { post as postSkillsOptimization } from "./skills-optimization.js";
 export { post as postExperienceTailoring } from "./experience-tailoring.js";
 export { post as postCompanyResearch } from "./company-research.js";
+export { post as postPromptComparison } from "./compare.js";
 export { post as postRelationship } from "./relationship.js";
 export { post as postReferralRequest } from "./referral-request.js";
 export { post as postReferencePoints } from "./reference-points.js";
@@ -88,7 +88,7 @@ export async function post(
   userId: string,
   counters: GenerationCounters
 ): Promise<void> {
-  const limit = checkLimit(`interview_feedback:${userId}`, 60, 60_000);
+  const limit = await checkLimit(`interview_feedback:${userId}`, 60, 60_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
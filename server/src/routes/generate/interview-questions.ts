@@ -10,6 +10,10 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type { URL } from "node:url";
 import { generate } from "../../services/aiClient.js";
+import {
+  AiOutputError,
+  outputSchemas,
+} from "../../services/aiOutputSchemas.js";
 import {
   legacyLogInfo as logInfo,
   legacyLogError as logError,
@@ -65,7 +69,7 @@ export async function post(
   counters: GenerationCounters
 ): Promise<void> {
   // Rate limit: moderate
-  const limit = checkLimit(`interview_questions:${userId}`, 30, 300_000);
+  const limit = await checkLimit(`interview_questions:${userId}`, 30, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
@@ -89,23 +93,15 @@ export async function post(
       temperature: 0.55,
       maxTokens: 1200,
       timeoutMs: 20000,
+      schema: outputSchemas.interview_questions,
     });
 
-    let questions: any[] = [];
-
-    if (aiResult.json && Array.isArray((aiResult.json as any).questions)) {
-      questions = (aiResult.json as any).questions;
-    } else if (aiResult.text) {
-      try {
-        const parsed = JSON.parse(aiResult.text);
-        if (Array.isArray(parsed.questions)) questions = parsed.questions;
-      } catch (e) {
-        // ignore parse error
-      }
-    }
+    // Validated by generate(); malformed output was repaired or thrown as AiOutputError.
+    // The mock provider has no questions fixture, so an empty list lets the client
+    // fall back to its local generator.
+    const questions =
+      (aiResult.json as { questions?: unknown[] } | undefined)?.questions ?? [];
 
-    // If AI returned nothing structured, return empty array and let client-side
-    // fallback logic handle generation locally.
     const latencyMs = Date.now() - start;
     counters.generate_success++;
     logInfo("interview_questions_generate_success", { userId, reqId, latencyMs, count: questions.length });
@@ -116,6 +112,10 @@ export async function post(
     counters.generate_fail++;
     logError("interview_questions_generate_error", { userId, reqId, error: err?.message ?? String(err), latencyMs });
     // Bubble up as AI error so client falls back to local generator
-    throw new ApiError(502, err?.message ?? "AI generation failed", "ai_error");
+    throw new ApiError(
+      502,
+      err?.message ?? "AI generation failed",
+      err instanceof AiOutputError ? err.code : "ai_error"
+    );
   }
 }
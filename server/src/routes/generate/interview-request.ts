@@ -63,7 +63,7 @@ export async function post(
   counters: GenerationCounters
 ): Promise<void> {
   // Rate limit: moderate
-  const limit = checkLimit(`interview-request:${userId}`, 50, 300_000);
+  const limit = await checkLimit(`interview-request:${userId}`, 50, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
@@ -1,20 +1,24 @@
 /**
  * JOB IMPORT FROM URL: POST /api/generate/job-import
  *
- * Flow: validate → extract HTML → AI extraction → parse → return structured job data
+ * Flow: validate → extract HTML → structured parsers (JSON-LD / ATS layouts)
+ *       → AI extraction only when no structured data → return job data
  *
  * Inputs:
  * - headers: { 'X-User-Id': uuid } (or Authorization JWT)
  * - body: { url: string, options?: { useScreenshot?: boolean } }
  *
  * Output:
- * - 200: { jobData: ExtractedJobData, meta: { source: 'ai'|'scraper', confidence: number } }
+ * - 200: { jobData: ExtractedJobData, meta: { source: 'structured'|'ai', extractor, confidence: number } }
+ *   extractor: json-ld | greenhouse | lever | workday | ashby | smartrecruiters | ai
  * - 400: validation error
  * - 500: extraction failure
  *
  * Contract:
  * - Fetches job posting HTML from URL
- * - Sends HTML to OpenAI for structured extraction
+ * - Reads schema.org JobPosting / Greenhouse / Lever / Workday / Ashby /
+ *   SmartRecruiters data directly (no AI call)
+ * - Otherwise sends cleaned text to the AI for structured extraction
  * - Parses and validates extracted job details
  * - Returns job data ready for form pre-fill
  *
@@ -24,6 +28,8 @@
  * - AI extraction parses HTML into structured data
  * - Returns partial data if extraction is incomplete
  * - Does NOT persist job (frontend handles that)
+ * - runJobImport also backs the job_import background job
+ *   (routes/background-jobs), which avoids request timeouts on slow sites
  */
 
 import type { IncomingMessage, ServerResponse } from "node:http";
@@ -33,6 +39,7 @@ import {
   extractJobPosting,
   checkUrlAccessibility,
 } from "../../services/extractionStrategies.js";
+import { parseStructuredJobPosting } from "../../services/jobPostingParsers.js";
 import {
   legacyLogInfo as logInfo,
   legacyLogError as logError,
@@ -40,6 +47,7 @@ import {
 import { readJson, sendJson } from "../../../utils/http.js";
 import { ApiError } from "../../../utils/errors.js";
 import { checkLimit } from "../../../utils/rateLimiter.js";
+import type { ProgressReporter } from "../../services/jobQueueService.js";
 import type { GenerationCounters } from "./types.js";
 
 // Extracted job data structure
@@ -58,6 +66,7 @@ export interface ExtractedJobData {
   requirements?: string[] | null;
   qualifications?: string[] | null;
   benefits?: string[] | null;
+  application_deadline?: string | null; // YYYY-MM-DD
 }
 
 // Request body type
@@ -106,7 +115,8 @@ Extract the following information and return ONLY valid JSON (no markdown, no co
   "job_type": "employment type (Full-time, Part-time, Contract, Internship, etc.)",
   "requirements": ["array", "of", "key", "requirements"],
   "qualifications": ["array", "of", "required", "qualifications"],
-  "benefits": ["array", "of", "benefits", "mentioned"]
+  "benefits": ["array", "of", "benefits", "mentioned"],
+  "application_deadline": "YYYY-MM-DD if an application deadline is listed, otherwise null"
 }
 
 Rules:
@@ -163,6 +173,11 @@ function parseExtractionResult(aiResult: any): ExtractedJobData {
     benefits: Array.isArray(data.benefits)
       ? data.benefits.filter((b: any) => typeof b === "string")
       : null,
+    application_deadline:
+      typeof data.application_deadline === "string" &&
+      /^\d{4}-\d{2}-\d{2}$/.test(data.application_deadline.trim())
+        ? data.application_deadline.trim()
+        : null,
   };
 
   return extracted;
@@ -203,7 +218,7 @@ function calculateConfidence(data: ExtractedJobData): number {
 
 /**
  * POST /api/generate/job-import
- * Extract job posting details from URL using AI
+ * Extract job posting details from URL (structured parsers first, then AI)
  *
  * Rate limit: 10 requests per minute per user
  */
@@ -216,7 +231,7 @@ export async function post(
   counters: GenerationCounters
 ): Promise<void> {
   // Rate limit (50 per 5min per user)
-  const limit = checkLimit(`job-import:${userId}`, 50, 300_000);
+  const limit = await checkLimit(`job-import:${userId}`, 50, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
@@ -230,6 +245,12 @@ export async function post(
     throw new ApiError(400, "invalid JSON body", "bad_json");
   }
 
+  const payload = await runJobImport(userId, body, { reqId, counters });
+  sendJson(res, 200, payload);
+}
+
+/** Reject a missing or non-http(s) url (400) */
+export function validateJobImportInput(body: any): void {
   // Validate URL
   if (!body?.url || typeof body.url !== "string") {
     throw new ApiError(400, "Missing or invalid url field", "bad_request");
@@ -249,11 +270,32 @@ export async function post(
       "bad_request"
     );
   }
+}
+
+/**
+ * Extract a job posting (structured parsers first, then AI)
+ *
+ * Shared by the POST route and the job_import background job; the optional
+ * progress reporter is called between steps.
+ *
+ * Outputs: { jobData, meta } (the route's 200 payload)
+ */
+export async function runJobImport(
+  userId: string,
+  body: any,
+  options: {
+    reqId?: string;
+    counters?: GenerationCounters;
+    progress?: ProgressReporter;
+  } = {}
+) {
+  const { reqId, counters } = options;
+  validateJobImportInput(body);
 
   logInfo("job_import_request", { userId, url: body.url, reqId });
 
   // Update counters
-  counters.generate_total++;
+  if (counters) counters.generate_total++;
   const start = Date.now();
 
   try {
@@ -269,6 +311,7 @@ export async function post(
     }
 
     // Step 1: Extract HTML using multi-strategy approach
+    await options.progress?.(10, "Fetching the job posting");
     const forceStrategy =
       body.options?.forceStrategy ||
       (body.options?.useScreenshot ? "puppeteer" : undefined);
@@ -287,18 +330,33 @@ export async function post(
       latency_ms: extractionResult.meta.latency_ms,
     });
 
-    // Step 2: Build AI prompt with cleaned content
-    const prompt = buildExtractionPrompt(extractionResult.cleanText, body.url);
+    // Step 2: Structured data (JSON-LD / known ATS layouts) needs no AI call
+    await options.progress?.(60, "Reading job details");
+    const structured = parseStructuredJobPosting(
+      extractionResult.html,
+      extractionResult.finalUrl || body.url
+    );
 
-    // Step 3: Call AI extraction
-    const aiResult = await generate("job-import", prompt, {
-      model: "gpt-4o-mini",
-      temperature: 0.1,
-      maxTokens: 2000,
-    });
+    let extractedData: ExtractedJobData;
+    if (structured) {
+      extractedData = structured.data;
+    } else {
+      // Step 3: Build AI prompt with cleaned content and call AI extraction
+      await options.progress?.(70, "Extracting details with AI");
+      const prompt = buildExtractionPrompt(
+        extractionResult.cleanText,
+        body.url
+      );
+      const aiResult = await generate("job-import", prompt, {
+        model: "gpt-4o-mini",
+        temperature: 0.1,
+        maxTokens: 2000,
+      });
 
-    // Step 4: Parse and validate result
-    const extractedData = parseExtractionResult(aiResult);
+      // Step 4: Parse and validate result
+      extractedData = parseExtractionResult(aiResult);
+    }
+    const extractor = structured?.extractor ?? "ai";
 
     // Step 5: Calculate confidence
     const confidence = calculateConfidence(extractedData);
@@ -313,16 +371,18 @@ export async function post(
       hasTitle: !!extractedData.job_title,
       hasCompany: !!extractedData.company_name,
       strategy: extractionResult.meta.strategy,
+      extractor,
       latency_ms: latencyMs,
     });
 
-    counters.generate_success++;
+    if (counters) counters.generate_success++;
 
     // Return extracted data
-    sendJson(res, 200, {
+    return {
       jobData: extractedData,
       meta: {
-        source: "ai",
+        source: structured ? "structured" : "ai",
+        extractor,
         confidence,
         url: body.url,
         latency_ms: latencyMs,
@@ -332,11 +392,11 @@ export async function post(
           latency_ms: extractionResult.meta.latency_ms,
         },
       },
-    });
+    };
   } catch (err: any) {
     const latencyMs = Date.now() - start;
 
-    counters.generate_fail++;
+    if (counters) counters.generate_fail++;
     logError("job_import_error", {
       userId,
       url: body.url,
@@ -32,6 +32,10 @@
 
 import type { IncomingMessage, ServerResponse } from "node:http";
 import { generate } from "../../services/aiClient.js";
+import {
+  AiOutputError,
+  outputSchemas,
+} from "../../services/aiOutputSchemas.js";
 import {
   legacyLogInfo as logInfo,
   legacyLogError as logError,
@@ -444,7 +448,7 @@ export async function post(
   counters: GenerationCounters
 ): Promise<void> {
   // Rate limit (5/min per user)
-  const limit = checkLimit(`job-match:${userId}`, 50, 300_000);
+  const limit = await checkLimit(`job-match:${userId}`, 50, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
@@ -518,9 +522,10 @@ export async function post(
       model: "gpt-4o-mini",
       temperature: 0.2, // Slightly higher for nuanced analysis
       maxTokens: 1500,
+      schema: outputSchemas["job-match"],
     });
 
-    // Step 5: Parse result
+    // Step 5: Clamp/normalize the schema-validated result
     const analysis = parseMatchResult(aiResult);
 
     // Step 6: Persist artifact
@@ -587,7 +592,7 @@ export async function post(
     throw new ApiError(
       502,
       err?.message ?? "Failed to generate job match",
-      "ai_error"
+      err instanceof AiOutputError ? err.code : "ai_error"
     );
   }
 }
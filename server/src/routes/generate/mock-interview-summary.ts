@@ -56,7 +56,7 @@ export async function post(
   userId: string,
   counters: GenerationCounters
 ): Promise<void> {
-  const limit = checkLimit(`mock_interview:${userId}`, 10, 60_000);
+  const limit = await checkLimit(`mock_interview:${userId}`, 10, 60_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
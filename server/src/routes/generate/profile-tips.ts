@@ -38,7 +38,7 @@ export async function post(
 	counters: GenerationCounters
 ): Promise<void> {
 	// Rate limit: moderate per-user
-	const limit = checkLimit(`profile_tips:${userId}`, 30, 300_000);
+	const limit = await checkLimit(`profile_tips:${userId}`, 30, 300_000);
 	if (!limit.ok) {
 		res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
 		throw new ApiError(429, "rate limited", "rate_limited");
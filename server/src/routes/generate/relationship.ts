@@ -77,7 +77,7 @@ export async function post(
   counters: GenerationCounters
 ): Promise<void> {
   // Rate limit: moderate (50 requests/5min per user)
-  const limit = checkLimit(`relationship:${userId}`, 50, 300_000);
+  const limit = await checkLimit(`relationship:${userId}`, 50, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
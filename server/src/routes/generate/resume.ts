@@ -7,11 +7,17 @@
  * Uses user profile data and job requirements to create optimized resume sections.
  *
  * Request:
- * - Body: { jobId: number, options?: { tone, focus, variant, model, prompt, templateId } }
+ * - Body: { jobId: number, options?: { tone, focus, variant, model, prompt, templateId, promptVersion } }
  * - Headers: Authorization (JWT) or X-User-Id (dev mode)
  *
  * Response: 201 with { id, kind, created_at, preview, content, persisted, metadata }
  *
+ * Streaming: send `Accept: text/event-stream` (or ?stream=true) to receive SSE:
+ * - start    { kind, jobId }
+ * - section  { path, value } as each top-level section of the JSON completes
+ * - complete same payload as the 201 response, after the artifact is persisted
+ * - error    { error, code } (validation/rate limit errors still use HTTP status)
+ *
  * Rate Limiting: 5 requests per minute per user
  * Authentication: Required
  */
@@ -22,10 +28,16 @@ import { ApiError } from "../../../utils/errors.js";
 import { checkLimit } from "../../../utils/rateLimiter.js";
 import { legacyLogError as logError } from "../../../utils/logger.js";
 import { readJson } from "../../../utils/http.js";
+import {
+  openEventStream,
+  sendEvent,
+  wantsEventStream,
+} from "../../../utils/sse.js";
 import { getCorsHeaders } from "../../middleware/cors.js";
 import * as orchestrator from "../../services/orchestrator.js";
+import { JsonSectionStream } from "../../services/jsonSectionStream.js";
 import type { GenerationCounters } from "./types.js";
-import { makePreview } from "./utils.js";
+import { makePreview, parsePromptVersion } from "./utils.js";
 
 /**
  * POST /api/generate/resume
@@ -46,7 +58,7 @@ export async function post(
   counters: GenerationCounters
 ): Promise<void> {
   // Rate limit (50 per 5min per user)
-  const limit = checkLimit(`resume:${userId}`, 50, 300_000);
+  const limit = await checkLimit(`resume:${userId}`, 50, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
@@ -67,7 +79,12 @@ export async function post(
       "bad_request"
     );
   }
-  const options = body?.options ?? undefined;
+  const options = body?.options
+    ? {
+        ...body.options,
+        promptVersion: parsePromptVersion("resume", body.options.promptVersion),
+      }
+    : undefined;
 
   // Log template-aware generation if templateId provided
   if (options?.templateId) {
@@ -76,13 +93,32 @@ export async function post(
     );
   }
 
+  // Streaming: headers go out now, sections are pushed as the JSON completes
+  const streaming = wantsEventStream(req, url);
+  let onDelta: ((delta: string) => void) | undefined;
+  if (streaming) {
+    const sections = new JsonSectionStream();
+    onDelta = (delta) => {
+      for (const section of sections.push(delta)) {
+        sendEvent(res, "section", section);
+      }
+    };
+    openEventStream(res);
+    sendEvent(res, "start", { kind: "resume", jobId });
+  }
+
   counters.generate_total++;
   const start = Date.now();
-  const result = await orchestrator.handleGenerateResume({
-    userId,
-    jobId,
-    options,
-  });
+  let result: Awaited<ReturnType<typeof orchestrator.handleGenerateResume>>;
+  try {
+    result = await orchestrator.handleGenerateResume(
+      { userId, jobId, options },
+      onDelta
+    );
+  } catch (e: any) {
+    if (!streaming) throw e;
+    result = { error: e?.message ?? String(e) };
+  }
   const latencyMs = Date.now() - start;
 
   if (result.error) {
@@ -94,11 +130,29 @@ export async function post(
       error: result.error,
       latency_ms: latencyMs,
     });
-    throw new ApiError(502, result.error, "ai_error");
+    if (streaming) {
+      sendEvent(res, "error", {
+        error: result.error,
+        code: result.code ?? "ai_error",
+      });
+      res.end();
+      return;
+    }
+    throw new ApiError(502, result.error, result.code ?? "ai_error");
   }
 
   const artifact = result.artifact;
-  if (!artifact) throw new ApiError(500, "no artifact produced", "no_artifact");
+  if (!artifact) {
+    if (streaming) {
+      sendEvent(res, "error", {
+        error: "no artifact produced",
+        code: "no_artifact",
+      });
+      res.end();
+      return;
+    }
+    throw new ApiError(500, "no artifact produced", "no_artifact");
+  }
 
   const canPersist = Boolean(
     process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -122,6 +176,8 @@ export async function post(
         prompt: artifact.prompt,
         model: artifact.model,
         content: artifact.content,
+        prompt_id: artifact.prompt_id,
+        prompt_version: artifact.prompt_version,
         metadata,
       });
       metadata.persisted = true;
@@ -141,6 +197,12 @@ export async function post(
     persisted: metadata.persisted,
     metadata,
   };
+  if (streaming) {
+    sendEvent(res, "complete", payload);
+    res.end();
+    return;
+  }
+
   const bodyStr = JSON.stringify(payload);
   res.writeHead(201, {
     "Content-Type": "application/json",
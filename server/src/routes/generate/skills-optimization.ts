@@ -24,7 +24,7 @@ import { readJson } from "../../../utils/http.js";
 import { getCorsHeaders } from "../../middleware/cors.js";
 import * as orchestrator from "../../services/orchestrator.js";
 import type { GenerationCounters } from "./types.js";
-import { makePreview } from "./utils.js";
+import { makePreview, parsePromptVersion } from "./utils.js";
 
 /**
  * POST /api/generate/skills-optimization
@@ -61,7 +61,7 @@ export async function post(
   counters: GenerationCounters
 ): Promise<void> {
   // Rate limit: 50 requests per 5 minutes per user
-  const limit = checkLimit(`skills:${userId}`, 50, 300_000);
+  const limit = await checkLimit(`skills:${userId}`, 50, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
@@ -84,12 +84,18 @@ export async function post(
     );
   }
 
+  const promptVersion = parsePromptVersion(
+    "skills_optimization",
+    body?.options?.promptVersion
+  );
+
   // Orchestrate AI skills optimization
   counters.generate_total++;
   const start = Date.now();
   const result = await orchestrator.handleSkillsOptimization({
     userId,
     jobId,
+    options: { promptVersion },
   });
   const latencyMs = Date.now() - start;
 
@@ -102,7 +108,7 @@ export async function post(
       error: result.error,
       latency_ms: latencyMs,
     });
-    throw new ApiError(502, result.error, "ai_error");
+    throw new ApiError(502, result.error, result.code ?? "ai_error");
   }
 
   const artifact = result.artifact;
@@ -128,6 +134,8 @@ export async function post(
         job_id: artifact.job_id,
         kind: artifact.kind,
         content: artifact.content,
+        prompt_id: artifact.prompt_id,
+        prompt_version: artifact.prompt_version,
         metadata,
       });
       metadata.persisted = true;
@@ -75,7 +75,7 @@ export async function post(
   userId: string,
   counters: GenerationCounters
 ): Promise<void> {
-  const limit = checkLimit(`suggest_contacts:${userId}`, 50, 300_000);
+  const limit = await checkLimit(`suggest_contacts:${userId}`, 50, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
@@ -4,6 +4,10 @@
  * Helper functions used across multiple AI generation endpoints.
  */
 
+import { ApiError } from "../../../utils/errors.js";
+import { getPrompt } from "../../services/promptRegistry.js";
+import type { PromptId } from "../../services/promptRegistry.js";
+
 /**
  * Build a short preview for UI
  *
@@ -51,3 +55,31 @@ export function makePreview(content: unknown): string | null {
     return null;
   }
 }
+
+/**
+ * Validate a requested prompt version
+ *
+ * Inputs:
+ * - promptId: registry id the route generates with
+ * - raw: options.promptVersion from the request body (number or numeric string)
+ *
+ * Outputs:
+ * - number | undefined - registered version, or undefined to let the registry assign one
+ *
+ * Throws 400 bad_request for versions that are not registered
+ */
+export function parsePromptVersion(
+  promptId: PromptId,
+  raw: unknown
+): number | undefined {
+  if (raw === undefined || raw === null || raw === "") return undefined;
+  const version = Number(raw);
+  if (!Number.isInteger(version) || !getPrompt(promptId, version)) {
+    throw new ApiError(
+      400,
+      `unknown ${promptId} prompt version: ${String(raw)}`,
+      "bad_request"
+    );
+  }
+  return version;
+}
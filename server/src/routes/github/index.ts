@@ -0,0 +1,189 @@
+/**
+ * GITHUB ROUTES
+ *
+ * Endpoints:
+ * - GET    /api/github/account                   - getAccount()    Linked account and last sync
+ * - POST   /api/github/account                   - linkAccount()   Link with an OAuth token
+ * - DELETE /api/github/account                   - unlinkAccount() Forget the token
+ * - POST   /api/github/sync                      - sync()          Queue a repository sync
+ *                                                  (github_sync job), 202
+ * - GET    /api/github/skills                    - skills()        Skill evidence and suggestions
+ * - POST   /api/github/skills/apply              - applySkills()   Write accepted suggestions
+ * - POST   /api/github/repositories/:id/project  - createProject() Turn a repository into a
+ *                                                  projects entry
+ *
+ * The token is the provider_token from the GitHub sign-in; it is stored
+ * server-side (github_accounts) and never returned.
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { readJson, sendJson } from "../../../utils/http.js";
+import * as github from "../../services/githubSyncService.js";
+import * as jobQueue from "../../services/jobQueueService.js";
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  try {
+    return await readJson(req);
+  } catch {
+    throw new ApiError(400, "Invalid JSON body", "bad_json");
+  }
+}
+
+function readToken(body: any, required: boolean): string | null {
+  const token = body?.token;
+  if (token === undefined || token === null || token === "") {
+    if (required) throw new ApiError(400, "token is required", "bad_request");
+    return null;
+  }
+  if (typeof token !== "string" || token.length > 500) {
+    throw new ApiError(
+      400,
+      "token must be a GitHub access token",
+      "bad_request"
+    );
+  }
+  return token.trim();
+}
+
+/**
+ * GET /api/github/account
+ *
+ * Response: { account } - null when no account is linked
+ */
+export async function getAccount(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const account = await github.getGithubAccount(userId);
+  sendJson(res, 200, { account });
+}
+
+/**
+ * POST /api/github/account
+ *
+ * Body: { token }
+ */
+export async function linkAccount(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+  const account = await github.linkGithubAccount(
+    userId,
+    readToken(body, true)!
+  );
+  sendJson(res, 200, { account });
+}
+
+/**
+ * DELETE /api/github/account
+ */
+export async function unlinkAccount(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  await github.unlinkGithubAccount(userId);
+  sendJson(res, 200, { success: true });
+}
+
+/**
+ * POST /api/github/sync
+ *
+ * Body (optional): { token? } - links (or refreshes) the account first
+ * Response 202: { job } - follow it with /api/background-jobs/:id
+ */
+export async function sync(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+  const token = readToken(body, false);
+  if (token) await github.linkGithubAccount(userId, token);
+
+  const job = await jobQueue.enqueueJob(userId, "github_sync", {});
+  sendJson(res, 202, { job });
+}
+
+/**
+ * GET /api/github/skills
+ *
+ * Response: { evidence, suggestions }
+ */
+export async function skills(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  sendJson(res, 200, await github.getGithubSkillSuggestions(userId));
+}
+
+/**
+ * POST /api/github/skills/apply
+ *
+ * Body: { skills: string[] } - skill names from the suggestions
+ */
+export async function applySkills(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+  const names = body?.skills;
+  if (
+    !Array.isArray(names) ||
+    !names.length ||
+    names.some((n) => typeof n !== "string" || !n.trim())
+  ) {
+    throw new ApiError(
+      400,
+      "skills must be a non-empty array of skill names",
+      "bad_request"
+    );
+  }
+  sendJson(res, 200, await github.applySkillSuggestions(userId, names));
+}
+
+/**
+ * POST /api/github/repositories/:id/project
+ *
+ * Body (optional): { useAi? } - false skips the AI description
+ * Response 201: { project, aiGenerated }
+ */
+export async function createProject(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  repoId: string
+): Promise<void> {
+  const body = await readBody(req);
+  const id = Number(repoId);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ApiError(400, "Invalid repository id", "bad_request");
+  }
+  const result = await github.createProjectFromRepository(userId, id, {
+    useAi: body?.useAi !== false,
+  });
+  sendJson(res, 201, result);
+}
@@ -12,6 +12,9 @@
  *   /api/artifacts       -> artifacts/index.ts::get()
  *   /api/artifacts/:id   -> artifacts/index.ts::getById()
  *   /api/job-materials   -> artifacts/job-materials.ts::post()
+ *
+ * server.ts dispatches through the route table (table.ts), which maps
+ * each method + path to one of these exports.
  */
 
 // ===== HEALTH =====
@@ -59,6 +62,108 @@ export {
   del as deleteCoverLetterDraft, // DELETE /api/cover-letter/drafts/:id
 } from "./cover-letter/drafts.js";
 
+// ===== DOCUMENT EXPORTS =====
+export {
+  post as postExport, // POST /api/export/:format
+  getHistory as getExportHistory, // GET /api/export/history
+  getDownload as getExportDownload, // GET /api/export/:id/download
+} from "./export/index.js";
+
+// ===== AI USAGE =====
+export {
+  get as getAiUsage, // GET /api/ai/usage
+  getTeamSpend as getTeamAiSpend, // GET /api/ai/usage/teams
+} from "./ai-usage/index.js";
+
+// ===== AI PROMPTS =====
+export {
+  list as listAiPrompts, // GET /api/ai/prompts
+  getStats as getAiPromptStats, // GET /api/ai/prompts/stats
+} from "./ai-prompts/index.js";
+
+// ===== NOTIFICATIONS =====
+export {
+  list as listNotifications, // GET /api/notifications
+  markRead as markNotificationsRead, // POST /api/notifications/read
+  listScheduled as listScheduledNotifications, // GET /api/notifications/scheduled
+  scheduleFollowup as scheduleFollowupNudge, // POST /api/notifications/followups
+  cancelFollowup as cancelFollowupNudge, // DELETE /api/notifications/followups/:sourceId
+  getPreferences as getNotificationPreferences, // GET /api/notifications/preferences
+  patchPreferences as patchNotificationPreferences, // PATCH /api/notifications/preferences
+} from "./notifications/index.js";
+
+// ===== OFFERS =====
+export {
+  projection as postOfferProjection, // POST /api/offers/projection
+  regions as getOfferRegions, // GET /api/offers/regions
+} from "./offers/index.js";
+
+// ===== AUTOMATIONS =====
+export {
+  list as listAutomations, // GET /api/automations
+  create as createAutomation, // POST /api/automations
+  update as updateAutomation, // PATCH /api/automations/:id
+  remove as deleteAutomation, // DELETE /api/automations/:id
+  runs as listAutomationRuns, // GET /api/automations/runs
+} from "./automations/index.js";
+
+// ===== BACKGROUND JOBS =====
+export {
+  create as createBackgroundJob, // POST /api/background-jobs
+  list as listBackgroundJobs, // GET /api/background-jobs
+  get as getBackgroundJob, // GET /api/background-jobs/:id
+  events as streamBackgroundJobEvents, // GET /api/background-jobs/:id/events
+  cancel as cancelBackgroundJob, // POST /api/background-jobs/:id/cancel
+} from "./background-jobs/index.js";
+
+// ===== RESUME IMPORT =====
+export {
+  parse as parseResumeImport, // POST /api/resume-import/parse
+  merge as mergeResumeImport, // POST /api/resume-import/merge
+} from "./resume-import/index.js";
+
+// ===== ATS SCORING =====
+export {
+  scoreVersion as scoreDocumentVersionAts, // POST /api/ats/versions/:id
+} from "./ats/index.js";
+
+// ===== GITHUB =====
+export {
+  getAccount as getGithubAccount, // GET /api/github/account
+  linkAccount as linkGithubAccount, // POST /api/github/account
+  unlinkAccount as unlinkGithubAccount, // DELETE /api/github/account
+  sync as syncGithub, // POST /api/github/sync
+  skills as getGithubSkills, // GET /api/github/skills
+  applySkills as applyGithubSkills, // POST /api/github/skills/apply
+  createProject as createGithubProject, // POST /api/github/repositories/:id/project
+} from "./github/index.js";
+
+// ===== SKILLS =====
+export {
+  taxonomy as getSkillTaxonomy, // GET /api/skills/taxonomy
+} from "./skills/index.js";
+
+// ===== PORTFOLIO =====
+export {
+  getPortfolio, // GET /api/portfolio
+  savePortfolio, // PUT /api/portfolio
+  exportPortfolio, // GET /api/portfolio/export
+  publicPortfolio as getPublicPortfolio, // GET /api/public/portfolios/:slug
+} from "./portfolio/index.js";
+
+// ===== SAVED SEARCHES =====
+export {
+  list as listSavedSearches, // GET /api/saved-searches
+  create as createSavedSearch, // POST /api/saved-searches
+  update as updateSavedSearch, // PATCH /api/saved-searches/:id
+  remove as deleteSavedSearch, // DELETE /api/saved-searches/:id
+  matches as listSavedSearchMatches, // GET /api/saved-searches/:id/matches
+  viewed as markSavedSearchViewed, // POST /api/saved-searches/:id/viewed
+} from "./saved-searches/index.js";
+
+// ===== JOBS =====
+export { list as listJobs } from "./jobs/index.js"; // GET /api/jobs
+
 // ===== COMPANY RESEARCH =====
 export { get as getCompanyResearch } from "./company/research.js";
 export { get as getUserCompanies } from "./company/user-companies.js";
@@ -74,34 +179,3 @@ export { getBenchmarks as getAnalyticsBenchmarks } from "./analytics.js";
 
 // ===== PREDICTIONS =====
 export { post as postPredictionsResponseTime } from "./predictions/response-time.js";
-
-// ===== LEGACY COMPATIBILITY EXPORTS =====
-// Maintain old function names for server.ts during transition
-// These match the old handleXyz naming convention used in server.ts routing
-export { post as handleGenerateResume } from "./generate/resume.js";
-export { post as handleGenerateCoverLetter } from "./generate/cover-letter.js";
-export { post as handleSkillsOptimization } from "./generate/skills-optimization.js";
-export { post as handleExperienceTailoring } from "./generate/experience-tailoring.js";
-export { post as handleCompanyResearch } from "./generate/company-research.js";
-export { post as handleJobImport } from "./generate/job-import.js";
-export { post as handleJobMatch } from "./generate/job-match.js";
-export { post as handleProfileTips } from "./generate/profile-tips.js";
-export { post as handleRelationship } from "./generate/relationship.js";
-export { post as handleReferralRequest } from "./generate/referral-request.js";
-export { post as handleReferencePoints } from "./generate/reference-points.js";
-export { post as handleGenerateInterviewRequest } from "./generate/interview-request.js";
-export { post as handleGenerateInterviewQuestions } from "./generate/interview-questions.js";
-export { post as handleGenerateInterviewFeedback } from "./generate/interview-feedback.js";
-export { post as handleCoachingInsights } from "./generate/coaching-insights.js";
-export { get as handleListArtifacts } from "./artifacts/index.js";
-export { getById as handleGetArtifact } from "./artifacts/index.js";
-export { post as handleCreateJobMaterials } from "./artifacts/job-materials.js";
-export { getByJob as handleListJobMaterialsForJob } from "./artifacts/job-materials.js";
-export { list as handleListDrafts } from "./cover-letter/drafts.js";
-export { get as handleGetDraft } from "./cover-letter/drafts.js";
-export { post as handleCreateDraft } from "./cover-letter/drafts.js";
-export { patch as handleUpdateDraft } from "./cover-letter/drafts.js";
-export { del as handleDeleteDraft } from "./cover-letter/drafts.js";
-export { get as handleGetCompanyResearch } from "./company/research.js";
-export { get as handleGetUserCompanies } from "./company/user-companies.js";
-export { post as handleSalaryResearch } from "./salary/research.js";
@@ -0,0 +1,41 @@
+/**
+ * JOB ROUTES
+ *
+ * Endpoints:
+ * - GET /api/jobs - list()  Filtered, searched, sorted page of jobs with per-stage counts
+ *
+ * Query parameters (all optional):
+ * - search: full-text over title, company and description (websearch syntax)
+ * - stage, industry, jobType, minSalary, maxSalary
+ * - deadlineBefore, deadlineAfter, createdBefore, createdAfter (ISO dates)
+ * - includeArchived=true
+ * - sortBy (created_at | application_deadline | company_name | job_title),
+ *   sortOrder (asc | desc)
+ * - limit, page or offset (offset mode), or mode=cursor with cursor
+ *
+ * Job create / update / delete still go through Supabase directly.
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { sendJson } from "../../../utils/http.js";
+import {
+  parseJobSearchParams,
+  searchJobs,
+} from "../../services/jobSearchService.js";
+
+/**
+ * GET /api/jobs
+ */
+export async function list(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const params = parseJobSearchParams(url.searchParams);
+  sendJson(res, 200, await searchJobs(userId, params));
+}
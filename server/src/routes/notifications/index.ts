@@ -0,0 +1,244 @@
+/**
+ * NOTIFICATION ROUTES
+ *
+ * Endpoints:
+ * - GET    /api/notifications                     - list()            In-app inbox (?unread=true&limit=50)
+ * - POST   /api/notifications/read                - markRead()        Mark inbox items read ({ ids? }, none = all)
+ * - GET    /api/notifications/scheduled           - listScheduled()   Reminder jobs with per-channel delivery status (?status=)
+ * - POST   /api/notifications/followups           - scheduleFollowup() Schedule a follow-up nudge
+ * - DELETE /api/notifications/followups/:sourceId - cancelFollowup()  Cancel a pending follow-up nudge
+ * - GET    /api/notifications/preferences         - getPreferences()  Delivery channels
+ * - PATCH  /api/notifications/preferences         - patchPreferences() Update delivery channels
+ *
+ * Interview and contact reminders are scheduled by database triggers, so only
+ * follow-up nudges are created through this API.
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { readJson, sendJson } from "../../../utils/http.js";
+import * as notificationService from "../../services/notificationService.js";
+import type { NotificationStatus } from "../../services/notificationService.js";
+
+const STATUSES: NotificationStatus[] = [
+  "pending",
+  "processing",
+  "sent",
+  "failed",
+  "cancelled",
+];
+
+function parseLimit(url: URL): number {
+  const limit = Number(url.searchParams.get("limit") ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+    throw new ApiError(400, "limit must be between 1 and 200", "bad_request");
+  }
+  return limit;
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  try {
+    return await readJson(req);
+  } catch {
+    throw new ApiError(400, "Invalid JSON body", "bad_json");
+  }
+}
+
+/**
+ * GET /api/notifications
+ */
+export async function list(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const result = await notificationService.listInbox(userId, {
+    unreadOnly: url.searchParams.get("unread") === "true",
+    limit: parseLimit(url),
+  });
+  sendJson(res, 200, result);
+}
+
+/**
+ * POST /api/notifications/read
+ */
+export async function markRead(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+  const ids = body?.ids;
+  if (
+    ids !== undefined &&
+    (!Array.isArray(ids) || ids.some((id) => typeof id !== "string"))
+  ) {
+    throw new ApiError(400, "ids must be an array of strings", "bad_request");
+  }
+  const updated = await notificationService.markInboxRead(userId, ids);
+  sendJson(res, 200, { updated });
+}
+
+/**
+ * GET /api/notifications/scheduled
+ */
+export async function listScheduled(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const status = url.searchParams.get("status") ?? undefined;
+  if (status && !STATUSES.includes(status as NotificationStatus)) {
+    throw new ApiError(
+      400,
+      `status must be one of ${STATUSES.join(", ")}`,
+      "bad_request"
+    );
+  }
+  const notifications = await notificationService.listScheduledNotifications(
+    userId,
+    { status: status as NotificationStatus | undefined, limit: parseLimit(url) }
+  );
+  sendJson(res, 200, { notifications });
+}
+
+/**
+ * POST /api/notifications/followups
+ *
+ * Body: { sourceId, runAt (ISO), title, body?, link? }
+ * Re-posting the same sourceId replaces its pending nudge.
+ */
+export async function scheduleFollowup(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+
+  const sourceId = body?.sourceId;
+  if (typeof sourceId !== "string" || !sourceId.trim()) {
+    throw new ApiError(400, "sourceId is required", "bad_request");
+  }
+  const title = body?.title;
+  if (typeof title !== "string" || !title.trim()) {
+    throw new ApiError(400, "title is required", "bad_request");
+  }
+  const runAt = new Date(body?.runAt);
+  if (typeof body?.runAt !== "string" || Number.isNaN(runAt.getTime())) {
+    throw new ApiError(400, "runAt must be an ISO timestamp", "bad_request");
+  }
+
+  const notification = await notificationService.scheduleFollowupNudge(userId, {
+    sourceId: sourceId.trim(),
+    runAt,
+    title: title.trim().slice(0, 200),
+    body: typeof body.body === "string" ? body.body.slice(0, 2000) : null,
+    link: typeof body.link === "string" ? body.link : null,
+  });
+  sendJson(res, 201, { notification });
+}
+
+/**
+ * DELETE /api/notifications/followups/:sourceId
+ */
+export async function cancelFollowup(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  sourceId: string
+): Promise<void> {
+  if (!sourceId) {
+    throw new ApiError(400, "sourceId is required", "bad_request");
+  }
+  const cancelled = await notificationService.cancelNotifications(
+    userId,
+    "followup_nudge",
+    sourceId
+  );
+  sendJson(res, 200, { cancelled });
+}
+
+/**
+ * GET /api/notifications/preferences
+ */
+export async function getPreferences(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const preferences = await notificationService.getPreferences(userId);
+  sendJson(res, 200, { preferences });
+}
+
+/**
+ * PATCH /api/notifications/preferences
+ *
+ * Body: { channels: ("in_app" | "email" | "webhook")[], email?, webhookUrl? }
+ */
+export async function patchPreferences(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+
+  const channels = body?.channels;
+  if (
+    !Array.isArray(channels) ||
+    channels.length === 0 ||
+    channels.some((c) => !notificationService.NOTIFICATION_CHANNELS.includes(c))
+  ) {
+    throw new ApiError(
+      400,
+      `channels must list one or more of ${notificationService.NOTIFICATION_CHANNELS.join(", ")}`,
+      "bad_request"
+    );
+  }
+
+  const email =
+    typeof body.email === "string" && body.email.trim()
+      ? body.email.trim()
+      : null;
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new ApiError(400, "email is not a valid address", "bad_request");
+  }
+
+  const webhookUrl =
+    typeof body.webhookUrl === "string" && body.webhookUrl.trim()
+      ? body.webhookUrl.trim()
+      : null;
+  if (webhookUrl && !/^https?:\/\//.test(webhookUrl)) {
+    throw new ApiError(400, "webhookUrl must be an http(s) URL", "bad_request");
+  }
+  if (channels.includes("webhook") && !webhookUrl) {
+    throw new ApiError(
+      400,
+      "webhookUrl is required for the webhook channel",
+      "bad_request"
+    );
+  }
+
+  const preferences = await notificationService.updatePreferences(userId, {
+    channels: [...new Set(channels)] as typeof channels,
+    email,
+    webhookUrl,
+  });
+  sendJson(res, 200, { preferences });
+}
@@ -0,0 +1,98 @@
+/**
+ * OFFER ROUTES
+ *
+ * Endpoints:
+ * - POST /api/offers/projection - projection() Multi-year totals and break-even points
+ * - GET  /api/offers/regions    - regions()    Supported tax regions and COL locations
+ *
+ * Offers themselves live in job_offers and are read/written by the frontend
+ * through Supabase (RLS); projection is stateless and takes the rows (or
+ * unsaved edits) in the request body.
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { readJson, sendJson } from "../../../utils/http.js";
+import {
+  compareOffers,
+  listCompensationRegions,
+  normalizeHorizon,
+  type OfferInput,
+} from "../../services/compensationModel.js";
+
+const MAX_OFFERS = 10;
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  try {
+    return await readJson(req);
+  } catch {
+    throw new ApiError(400, "Invalid JSON body", "bad_json");
+  }
+}
+
+/**
+ * POST /api/offers/projection
+ *
+ * Body: { offers: OfferInput[] (job_offers columns + id), horizonYears?: 1-10 }
+ */
+export async function projection(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+  const offers = body?.offers;
+
+  if (!Array.isArray(offers) || offers.length === 0) {
+    throw new ApiError(400, "offers must be a non-empty array", "bad_request");
+  }
+  if (offers.length > MAX_OFFERS) {
+    throw new ApiError(
+      400,
+      `At most ${MAX_OFFERS} offers can be compared`,
+      "bad_request"
+    );
+  }
+  offers.forEach((offer: any, i: number) => {
+    if (!offer || typeof offer !== "object") {
+      throw new ApiError(400, `offers[${i}] must be an object`, "bad_request");
+    }
+    if (!Number.isFinite(Number(offer.base_salary))) {
+      throw new ApiError(
+        400,
+        `offers[${i}].base_salary must be a number`,
+        "bad_request"
+      );
+    }
+  });
+
+  const inputs: OfferInput[] = offers.map((offer: any, i: number) => ({
+    ...offer,
+    id: String(offer.id ?? `offer-${i + 1}`),
+    base_salary: Number(offer.base_salary),
+  }));
+
+  sendJson(
+    res,
+    200,
+    compareOffers(inputs, normalizeHorizon(body.horizonYears))
+  );
+}
+
+/**
+ * GET /api/offers/regions
+ */
+export async function regions(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  sendJson(res, 200, listCompensationRegions());
+}
@@ -0,0 +1,162 @@
+/**
+ * OPENAPI DOCUMENT
+ *
+ * Builds an OpenAPI 3.1 document from the route table (routes/router.ts),
+ * served at GET /api/openapi.json for generating typed API clients.
+ *
+ * Mapping:
+ * - ":id" path segments → "{id}" path parameters
+ * - auth "required" → bearer JWT security; "optional" → bearer or none
+ * - body → application/json request body; responses by status code
+ * - every operation also documents the shared error shape
+ *   ({ error: code, message, ...details }) as its default response
+ * - operationId is route.operationId, else method + path in camelCase
+ *   (PATCH /api/cover-letter/drafts/:id → patchCoverLetterDraftsById)
+ */
+
+import type { OutputSchema } from "../services/aiOutputSchemas.js";
+import type { RouteDefinition } from "./router.js";
+
+type JsonObject = Record<string, unknown>;
+
+const ERROR_SCHEMA: OutputSchema = {
+  type: "object",
+  required: ["error", "message"],
+  properties: {
+    error: { type: "string", description: "Machine-readable error code" },
+    message: { type: "string" },
+  },
+};
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+}
+
+function pascal(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+export function defaultOperationId(route: RouteDefinition): string {
+  const words = route.path
+    .split("/")
+    .filter((segment) => segment && segment !== "api")
+    .map((segment) =>
+      segment.startsWith(":") ? `By${pascal(segment.slice(1))}` : segment
+    )
+    .flatMap((segment) => segment.split(/[^A-Za-z0-9]+/))
+    .filter(Boolean)
+    .map(pascal);
+  return route.method.toLowerCase() + words.join("");
+}
+
+/** OutputSchema → JSON Schema (OpenAPI 3.1 uses JSON Schema directly) */
+function jsonSchema(schema: OutputSchema): JsonObject {
+  const out: JsonObject = { ...schema };
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, child]) => [
+        key,
+        jsonSchema(child),
+      ])
+    );
+  }
+  if (schema.items) out.items = jsonSchema(schema.items);
+  if (schema.anyOf) out.anyOf = schema.anyOf.map(jsonSchema);
+  return out;
+}
+
+function pathParamNames(path: string): string[] {
+  return [...path.matchAll(/:([A-Za-z0-9_]+)/g)].map((m) => m[1]);
+}
+
+function operation(route: RouteDefinition): JsonObject {
+  const parameters = [
+    ...pathParamNames(route.path).map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: jsonSchema(route.params?.[name] ?? { type: "string" }),
+    })),
+    ...Object.entries(route.query ?? {}).map(([name, schema]) => ({
+      name,
+      in: "query",
+      required: false,
+      ...(schema.description ? { description: schema.description } : {}),
+      schema: jsonSchema(schema),
+    })),
+  ];
+
+  const responses: JsonObject = {};
+  const declared = route.responses ?? { 200: { description: "OK" } };
+  for (const [status, response] of Object.entries(declared)) {
+    responses[status] = {
+      description: response.description,
+      ...(response.schema
+        ? {
+            content: {
+              [response.contentType ?? "application/json"]: {
+                schema: jsonSchema(response.schema),
+              },
+            },
+          }
+        : {}),
+    };
+  }
+  responses.default = {
+    description: "Error",
+    content: {
+      "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+    },
+  };
+
+  const op: JsonObject = {
+    operationId: route.operationId ?? defaultOperationId(route),
+    tags: [route.tag],
+    summary: route.summary,
+    ...(route.description ? { description: route.description } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(route.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: jsonSchema(route.body) } },
+          },
+        }
+      : {}),
+    responses,
+  };
+  if (route.auth === "required") op.security = [{ bearerAuth: [] }];
+  else if (route.auth === "optional") op.security = [{}, { bearerAuth: [] }];
+  else op.security = [];
+  return op;
+}
+
+/** The OpenAPI document for a route table */
+export function buildOpenApiDocument(
+  routes: readonly RouteDefinition[],
+  info: { title: string; version: string; description?: string }
+): JsonObject {
+  const paths: Record<string, JsonObject> = {};
+  for (const route of routes) {
+    const path = toOpenApiPath(route.path);
+    paths[path] ??= {};
+    paths[path][route.method.toLowerCase()] = operation(route);
+  }
+
+  const tags = [...new Set(routes.map((route) => route.tag))].map((name) => ({
+    name,
+  }));
+
+  return {
+    openapi: "3.1.0",
+    info,
+    tags,
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+      schemas: { Error: jsonSchema(ERROR_SCHEMA) },
+    },
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * PORTFOLIO ROUTES
+ *
+ * Endpoints:
+ * - GET /api/portfolio                 - getPortfolio()    The user's portfolio settings
+ * - PATCH /api/portfolio               - savePortfolio()   Create or update them
+ * - GET /api/portfolio/export          - exportPortfolio() Static HTML bundle files
+ * - GET /api/public/portfolios/:slug   - publicPortfolio() Published page content;
+ *                                        counts the view
+ *
+ * The public route needs no authentication; it only returns the sections
+ * the owner made visible. All other routes require authentication.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { readJson, sendJson } from "../../../utils/http.js";
+import { getClientIp } from "../../middleware/security.js";
+import * as portfolios from "../../services/portfolioService.js";
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  try {
+    return await readJson(req);
+  } catch {
+    throw new ApiError(400, "Invalid JSON body", "bad_json");
+  }
+}
+
+/**
+ * GET /api/portfolio
+ *
+ * Response: { portfolio } - null until the user has saved one
+ */
+export async function getPortfolio(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const portfolio = await portfolios.getPortfolio(userId);
+  sendJson(res, 200, { portfolio });
+}
+
+/**
+ * PATCH /api/portfolio
+ *
+ * Body: { slug?, is_published?, theme_id?, headline?, sections?, project_ids? }
+ * (slug is required the first time)
+ * Response: { portfolio }
+ */
+export async function savePortfolio(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+  const input = portfolios.validatePortfolioInput(body, { partial: true });
+  const portfolio = await portfolios.savePortfolio(userId, input);
+  sendJson(res, 200, { portfolio });
+}
+
+/**
+ * GET /api/portfolio/export
+ *
+ * Response: { fileName, files: [{ path, content }] }
+ */
+export async function exportPortfolio(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const bundle = await portfolios.exportPortfolioBundle(userId);
+  sendJson(res, 200, bundle);
+}
+
+/**
+ * GET /api/public/portfolios/:slug
+ *
+ * Response: { portfolio }; 404 when the slug is unknown or unpublished
+ */
+export async function publicPortfolio(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  slug: string
+): Promise<void> {
+  const portfolio = await portfolios.getPublicPortfolio(slug, {
+    ip: getClientIp(req),
+    userAgent: String(req.headers["user-agent"] ?? ""),
+  });
+  sendJson(res, 200, { portfolio });
+}
@@ -23,7 +23,7 @@ export async function post(
   counters: GenerationCounters
 ): Promise<void> {
   // Rate limit: reuse generation bucket logic (configurable)
-  const limit = checkLimit(`predict:${userId}`, 50, 300_000);
+  const limit = await checkLimit(`predict:${userId}`, 50, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
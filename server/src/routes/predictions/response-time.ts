@@ -70,7 +70,7 @@ export async function post(
   userId: string,
   counters: GenerationCounters
 ): Promise<void> {
-  const limit = checkLimit(`predictions_response_time:${userId}`, 30, 300_000);
+  const limit = await checkLimit(`predictions_response_time:${userId}`, 30, 300_000);
   if (!limit.ok) {
     res.setHeader("Retry-After", String(limit.retryAfterSec ?? 60));
     throw new ApiError(429, "rate limited", "rate_limited");
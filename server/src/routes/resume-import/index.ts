@@ -0,0 +1,107 @@
+/**
+ * RESUME IMPORT ROUTES
+ *
+ * Endpoints:
+ * - POST /api/resume-import/parse - parse() Read a PDF/DOCX resume and diff it
+ *                                   against the profile (nothing is written)
+ * - POST /api/resume-import/merge - merge() Write the entries the user kept
+ *
+ * Files are sent as base64 in JSON ({ fileName, contentBase64 }) like the
+ * rest of the API; the limit is MAX_RESUME_FILE_BYTES after decoding.
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { readJson, sendJson } from "../../../utils/http.js";
+import * as resumeImport from "../../services/resumeImportService.js";
+import type { MergeInput } from "../../services/resumeImportService.js";
+import { MAX_RESUME_FILE_BYTES } from "../../services/resumeTextExtractor.js";
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  try {
+    return await readJson(req);
+  } catch {
+    throw new ApiError(400, "Invalid JSON body", "bad_json");
+  }
+}
+
+/** Decode the upload, rejecting oversized files before allocating them */
+function decodeFile(body: any): { fileName: string; content: Buffer } {
+  const fileName = body?.fileName;
+  if (typeof fileName !== "string" || !fileName.trim()) {
+    throw new ApiError(400, "fileName is required", "bad_request");
+  }
+  // A data: URL prefix from FileReader is accepted
+  const encoded = String(body?.contentBase64 ?? "")
+    .replace(/^data:[^,]*,/, "")
+    .replace(/\s+/g, "");
+  if (!encoded || !BASE64.test(encoded)) {
+    throw new ApiError(400, "contentBase64 must be base64", "bad_request");
+  }
+  if ((encoded.length * 3) / 4 > MAX_RESUME_FILE_BYTES + 3) {
+    throw new ApiError(
+      413,
+      `Resume files are limited to ${MAX_RESUME_FILE_BYTES / 1024 / 1024} MB`,
+      "file_too_large"
+    );
+  }
+  return {
+    fileName: fileName.trim().slice(0, 255),
+    content: Buffer.from(encoded, "base64"),
+  };
+}
+
+/**
+ * POST /api/resume-import/parse
+ *
+ * Body: { fileName, contentBase64, useAi? }
+ */
+export async function parse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+  const file = decodeFile(body);
+  const preview = await resumeImport.previewResumeImport(userId, file, {
+    useAi: body?.useAi !== false,
+  });
+  sendJson(res, 200, { preview });
+}
+
+/**
+ * POST /api/resume-import/merge
+ *
+ * Body: { profile?, items: [{ section, action, existingId?, data }] }
+ */
+export async function merge(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const body = await readBody(req);
+  if (!Array.isArray(body?.items)) {
+    throw new ApiError(400, "items must be an array", "bad_request");
+  }
+  if (
+    body.profile !== undefined &&
+    (typeof body.profile !== "object" || Array.isArray(body.profile))
+  ) {
+    throw new ApiError(400, "profile must be an object", "bad_request");
+  }
+
+  const result = await resumeImport.mergeResumeImport(
+    userId,
+    body as MergeInput
+  );
+  sendJson(res, 200, result);
+}
@@ -0,0 +1,193 @@
+/**
+ * ROUTER
+ *
+ * Declarative route definitions and path matching for server.ts.
+ *
+ * A route declares its method and path (":name" segments are path params),
+ * how callers authenticate, which IP rate limit group it counts against,
+ * and optional request/response schemas. The same definitions drive
+ * dispatch (server.ts) and the OpenAPI document (routes/openapi.ts).
+ *
+ * Matching:
+ * - Routes are tried in table order; the first method + path match wins, so
+ *   static paths ("/api/export/history") go before params ("/api/export/:id")
+ * - Params are URL-decoded; an `integer` param only matches digits
+ *
+ * Schemas use the AI output schema subset (services/aiOutputSchemas.ts).
+ * A `body` schema is checked before the handler runs (400 bad_request with
+ * the errors); the handler's own readJson returns the same parsed body.
+ *
+ * Exports:
+ * - RouteDefinition / RouteContext: route table types
+ * - createRouter: compile a table into a matcher
+ * - validateRequestBody: schema check used by the dispatcher
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../utils/errors.js";
+import { readJson } from "../../utils/http.js";
+import {
+  validateOutput,
+  type OutputSchema,
+} from "../services/aiOutputSchemas.js";
+import type { HealthCounters } from "./health.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * - required: the router authenticates (401 otherwise) and passes userId
+ * - optional: the handler authenticates itself when it can (tryAuth)
+ * - none: public, or guarded by a shared secret inside the handler
+ */
+export type RouteAuth = "required" | "optional" | "none";
+
+/** IP rate limit groups (middleware/security.ts); "none" is never limited */
+export type RateLimitGroup = "default" | "ai" | "monitoring" | "none";
+
+export interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  url: URL;
+  reqId: string;
+  /** Authenticated user ("" unless auth is "required") */
+  userId: string;
+  /** Decoded path params by name */
+  params: Record<string, string>;
+  counters: HealthCounters;
+  startedAt: number;
+}
+
+export interface RouteResponse {
+  description: string;
+  schema?: OutputSchema;
+  /** Defaults to application/json */
+  contentType?: string;
+}
+
+export interface RouteDefinition {
+  method: HttpMethod;
+  /** e.g. "/api/cover-letter/drafts/:id" */
+  path: string;
+  /** Groups routes in the OpenAPI document */
+  tag: string;
+  summary: string;
+  description?: string;
+  /** Defaults to a name derived from method and path */
+  operationId?: string;
+  auth: RouteAuth;
+  /** Defaults to "default" */
+  rateLimit?: RateLimitGroup;
+  /** Counts against the per-user AI budget; off with FEATURE_AI_ROUTES=false */
+  ai?: boolean;
+  /** Skip completion logging and request metrics (health checks) */
+  quiet?: boolean;
+  /** Path param schemas; params default to strings */
+  params?: Record<string, OutputSchema>;
+  /** Query parameters (documented, not validated) */
+  query?: Record<string, OutputSchema>;
+  body?: OutputSchema;
+  /** By status code; defaults to 200 "OK" */
+  responses?: Record<number, RouteResponse>;
+  handler: (ctx: RouteContext) => Promise<void>;
+}
+
+export interface RouteMatch {
+  route: RouteDefinition;
+  params: Record<string, string>;
+}
+
+export interface Router {
+  routes: readonly RouteDefinition[];
+  match(method: string, pathname: string): RouteMatch | null;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+interface CompiledRoute {
+  route: RouteDefinition;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+function compile(route: RouteDefinition): CompiledRoute {
+  const paramNames: string[] = [];
+  const source = route.path
+    .split("/")
+    .map((segment) => {
+      if (!segment.startsWith(":")) {
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      }
+      const name = segment.slice(1);
+      paramNames.push(name);
+      return route.params?.[name]?.type === "integer" ? "(\\d+)" : "([^/]+)";
+    })
+    .join("/");
+  return { route, pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+/** Compile a route table; throws on duplicate method + path */
+export function createRouter(routes: RouteDefinition[]): Router {
+  const seen = new Set<string>();
+  for (const route of routes) {
+    const key = `${route.method} ${route.path}`;
+    if (seen.has(key)) throw new Error(`Duplicate route: ${key}`);
+    seen.add(key);
+  }
+  const compiled = routes.map(compile);
+
+  return {
+    routes,
+    match(method, pathname) {
+      for (const { route, pattern, paramNames } of compiled) {
+        if (route.method !== method) continue;
+        const m = pattern.exec(pathname);
+        if (!m) continue;
+        const params: Record<string, string> = {};
+        try {
+          paramNames.forEach((name, i) => {
+            params[name] = decodeURIComponent(m[i + 1]);
+          });
+        } catch {
+          // Malformed percent-encoding never matches
+          continue;
+        }
+        return { route, params };
+      }
+      return null;
+    },
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/** Check the JSON body against route.body (no-op without a schema) */
+export async function validateRequestBody(
+  route: RouteDefinition,
+  req: IncomingMessage
+): Promise<void> {
+  if (!route.body) return;
+  let body: unknown;
+  try {
+    body = await readJson(req);
+  } catch {
+    throw new ApiError(400, "invalid JSON body", "bad_json");
+  }
+  const errors = validateOutput(route.body, body);
+  if (errors.length > 0) {
+    throw new ApiError(
+      400,
+      `Invalid request body: ${errors.slice(0, 3).join("; ")}`,
+      "bad_request",
+      { errors }
+    );
+  }
+}
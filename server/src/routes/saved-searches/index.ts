@@ -0,0 +1,158 @@
+/**
+ * SAVED SEARCH ROUTES
+ *
+ * Endpoints:
+ * - GET    /api/saved-searches              - list()     Searches with match and "new" counts
+ * - POST   /api/saved-searches              - create()   Save a search (current matches become the baseline)
+ * - PATCH  /api/saved-searches/:id          - update()   Rename, change criteria or digest frequency
+ * - DELETE /api/saved-searches/:id          - remove()   Delete a search and its matches
+ * - GET    /api/saved-searches/:id/matches  - matches()  Matching jobs, newest first, flagged new (?limit=200)
+ * - POST   /api/saved-searches/:id/viewed   - viewed()   Mark all current matches as seen
+ *
+ * New jobs are matched by the saved search evaluator
+ * (services/savedSearchService), not by these routes.
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { ApiError } from "../../../utils/errors.js";
+import { readJson, sendJson } from "../../../utils/http.js";
+import * as savedSearchService from "../../services/savedSearchService.js";
+import type { SavedSearchInput } from "../../services/savedSearchService.js";
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseLimit(url: URL): number {
+  const limit = Number(url.searchParams.get("limit") ?? 200);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    throw new ApiError(400, "limit must be between 1 and 500", "bad_request");
+  }
+  return limit;
+}
+
+function requireSearchId(searchId: string): string {
+  if (!UUID.test(searchId)) {
+    throw new ApiError(400, "Invalid saved search id", "bad_request");
+  }
+  return searchId;
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  try {
+    return await readJson(req);
+  } catch {
+    throw new ApiError(400, "Invalid JSON body", "bad_json");
+  }
+}
+
+/**
+ * GET /api/saved-searches
+ */
+export async function list(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const searches = await savedSearchService.listSearches(userId);
+  sendJson(res, 200, { searches });
+}
+
+/**
+ * POST /api/saved-searches
+ *
+ * Body: { name, criteria, digest_frequency? }
+ */
+export async function create(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  const input = savedSearchService.validateSearchInput(await readBody(req));
+  const search = await savedSearchService.createSearch(
+    userId,
+    input as SavedSearchInput
+  );
+  sendJson(res, 201, { search });
+}
+
+/**
+ * PATCH /api/saved-searches/:id
+ *
+ * Body: any subset of { name, criteria, digest_frequency }
+ */
+export async function update(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  searchId: string
+): Promise<void> {
+  requireSearchId(searchId);
+  const patch = savedSearchService.validateSearchInput(await readBody(req), {
+    partial: true,
+  });
+  if (Object.keys(patch).length === 0) {
+    throw new ApiError(400, "Nothing to update", "bad_request");
+  }
+  const search = await savedSearchService.updateSearch(userId, searchId, patch);
+  sendJson(res, 200, { search });
+}
+
+/**
+ * DELETE /api/saved-searches/:id
+ */
+export async function remove(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  searchId: string
+): Promise<void> {
+  await savedSearchService.deleteSearch(userId, requireSearchId(searchId));
+  sendJson(res, 200, { deleted: true });
+}
+
+/**
+ * GET /api/saved-searches/:id/matches
+ */
+export async function matches(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  searchId: string
+): Promise<void> {
+  const result = await savedSearchService.listMatches(
+    userId,
+    requireSearchId(searchId),
+    { limit: parseLimit(url) }
+  );
+  sendJson(res, 200, result);
+}
+
+/**
+ * POST /api/saved-searches/:id/viewed
+ */
+export async function viewed(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string,
+  searchId: string
+): Promise<void> {
+  const search = await savedSearchService.markViewed(
+    userId,
+    requireSearchId(searchId)
+  );
+  sendJson(res, 200, { search });
+}
@@ -0,0 +1,37 @@
+/**
+ * SKILLS ROUTES
+ *
+ * Endpoints:
+ * - GET /api/skills/taxonomy  - taxonomy()  Canonical skills, aliases and parents
+ *
+ * The taxonomy is bundled with the server (services/skillTaxonomy.ts); the
+ * frontend normalizes new skills and groups skill gaps with it.
+ *
+ * All routes require authentication
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { sendJson } from "../../../utils/http.js";
+import {
+  SKILL_TAXONOMY,
+  SKILL_TAXONOMY_VERSION,
+} from "../../services/skillTaxonomy.js";
+
+/**
+ * GET /api/skills/taxonomy
+ *
+ * Response: { version, skills: [{ id, name, category, parent, aliases }] }
+ */
+export async function taxonomy(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  reqId: string,
+  userId: string
+): Promise<void> {
+  sendJson(res, 200, {
+    version: SKILL_TAXONOMY_VERSION,
+    skills: SKILL_TAXONOMY,
+  });
+}
@@ -0,0 +1,1616 @@
+/**
+ * API ROUTE TABLE
+ *
+ * Every authenticated API endpoint, declared once: method and path, auth,
+ * rate limit group, schemas and the handler call. server.ts dispatches
+ * through this table (plus its own health/monitoring routes) and
+ * GET /api/openapi.json documents it (routes/openapi.ts).
+ *
+ * Conventions:
+ * - Static paths before param paths that could shadow them
+ * - AI routes (ai: true) use the "ai" rate limit group and the AI budget
+ * - Handlers that were loaded on first use stay dynamically imported
+ * - Body schemas only require what the handler itself rejects without;
+ *   the handler still does the detailed validation
+ */
+
+import type { OutputSchema } from "../services/aiOutputSchemas.js";
+import type { RouteDefinition, RouteResponse } from "./router.js";
+import {
+  postGenerateResume,
+  postGenerateCoverLetter,
+  postSkillsOptimization,
+  postExperienceTailoring,
+  postCompanyResearch,
+  postRelationship,
+  postProfileTips,
+  postReferralRequest,
+  postReferencePoints,
+  postInterviewRequest,
+  postInterviewQuestions,
+  postInterviewFeedback,
+  postCoachingInsights,
+  postJobImport,
+  postJobMatch,
+  postSalaryResearch,
+  getArtifacts,
+  getArtifact,
+  postJobMaterials,
+  getJobMaterials,
+  listCoverLetterDrafts,
+  getCoverLetterDraft,
+  postCoverLetterDraft,
+  patchCoverLetterDraft,
+  deleteCoverLetterDraft,
+  postExport,
+  getExportHistory,
+  getExportDownload,
+  getAiUsage,
+  getTeamAiSpend,
+  listAiPrompts,
+  getAiPromptStats,
+  listNotifications,
+  markNotificationsRead,
+  listScheduledNotifications,
+  scheduleFollowupNudge,
+  cancelFollowupNudge,
+  getNotificationPreferences,
+  patchNotificationPreferences,
+  postOfferProjection,
+  getOfferRegions,
+  listAutomations,
+  createAutomation,
+  updateAutomation,
+  deleteAutomation,
+  listAutomationRuns,
+  createBackgroundJob,
+  listBackgroundJobs,
+  getBackgroundJob,
+  streamBackgroundJobEvents,
+  cancelBackgroundJob,
+  parseResumeImport,
+  mergeResumeImport,
+  scoreDocumentVersionAts,
+  getGithubAccount,
+  linkGithubAccount,
+  unlinkGithubAccount,
+  syncGithub,
+  getGithubSkills,
+  applyGithubSkills,
+  createGithubProject,
+  getSkillTaxonomy,
+  getPortfolio,
+  savePortfolio,
+  exportPortfolio,
+  getPublicPortfolio,
+  listSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  listSavedSearchMatches,
+  markSavedSearchViewed,
+  listJobs,
+  getCompanyResearch,
+  getUserCompanies,
+  getAnalyticsOverview,
+  getAnalyticsTrends,
+} from "./index.js";
+import { post as handleNetworkingAnalytics } from "./analytics/networking.js";
+import { post as handleSalaryAnalytics } from "./analytics/salary.js";
+import { post as handleGoalsAnalytics } from "./analytics/goals.js";
+
+// ============================================================================
+// Shared schemas
+// ============================================================================
+
+/** Job ids arrive as numbers or numeric strings */
+const jobId: OutputSchema = {
+  anyOf: [{ type: "integer" }, { type: "string" }],
+  description: "jobs.id",
+};
+
+const generationOptions: OutputSchema = {
+  type: "object",
+  description:
+    "tone, focus, variant, model, prompt, templateId, promptVersion, length",
+};
+
+const jobGenerationBody: OutputSchema = {
+  type: "object",
+  required: ["jobId"],
+  properties: { jobId, options: generationOptions },
+};
+
+const artifact: OutputSchema = {
+  type: "object",
+  required: ["id", "kind", "content"],
+  properties: {
+    id: { type: "string" },
+    kind: { type: "string" },
+    created_at: { type: "string" },
+    preview: { type: "string" },
+    content: { type: "object" },
+    persisted: { type: "boolean" },
+    metadata: { type: "object" },
+  },
+};
+
+const created = (description: string, schema?: OutputSchema) => ({
+  201: { description, schema } as RouteResponse,
+});
+
+const ok = (description: string, schema?: OutputSchema) => ({
+  200: { description, schema } as RouteResponse,
+});
+
+const limitQuery: OutputSchema = { type: "integer", minimum: 1 };
+const uuidParam: OutputSchema = { type: "string", description: "UUID" };
+
+// ============================================================================
+// AI generation
+// ============================================================================
+
+const generateRoutes: RouteDefinition[] = [
+  {
+    method: "POST",
+    path: "/api/generate/resume",
+    tag: "generate",
+    summary: "Generate resume content tailored to a job",
+    description:
+      "Send Accept: text/event-stream (or ?stream=true) to stream sections as SSE.",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    body: jobGenerationBody,
+    responses: created("Generated artifact", artifact),
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postGenerateResume(req, res, url, reqId, userId, counters),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/cover-letter",
+    tag: "generate",
+    summary: "Generate a cover letter for a job",
+    description:
+      "Send Accept: text/event-stream (or ?stream=true) to stream sections as SSE.",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    body: jobGenerationBody,
+    responses: created("Generated artifact", artifact),
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postGenerateCoverLetter(req, res, url, reqId, userId, counters),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/skills-optimization",
+    tag: "generate",
+    summary: "Suggest skills to emphasize or add for a job",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    body: jobGenerationBody,
+    responses: created("Generated artifact", artifact),
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postSkillsOptimization(req, res, url, reqId, userId, counters),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/experience-tailoring",
+    tag: "generate",
+    summary: "Rewrite experience bullets for a job",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    body: jobGenerationBody,
+    responses: created("Generated artifact", artifact),
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postExperienceTailoring(req, res, url, reqId, userId, counters),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/company-research",
+    tag: "generate",
+    summary: "Research a company (cached)",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    body: {
+      type: "object",
+      required: ["companyName"],
+      properties: { companyName: { type: "string" }, jobId },
+    },
+    responses: created("Generated artifact", artifact),
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postCompanyResearch(req, res, url, reqId, userId, counters),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/compare",
+    tag: "generate",
+    summary: "Generate with two prompt versions side by side",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    body: {
+      type: "object",
+      required: ["promptId", "jobId", "versions"],
+      properties: {
+        promptId: { type: "string" },
+        jobId,
+        versions: { type: "array", items: { type: "integer" }, minItems: 2 },
+        options: generationOptions,
+      },
+    },
+    responses: created("Both generations"),
+    handler: async ({ req, res, url, reqId, userId, counters }) => {
+      const mod = await import("./generate/compare.js");
+      await mod.post(req, res, url, reqId, userId, counters);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/generate/job-import",
+    tag: "generate",
+    summary: "Extract job details from a posting URL",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    body: {
+      type: "object",
+      required: ["url"],
+      properties: {
+        url: { type: "string" },
+        options: {
+          type: "object",
+          properties: { useScreenshot: { type: "boolean" } },
+        },
+      },
+    },
+    responses: ok("Extracted job data", {
+      type: "object",
+      properties: { jobData: { type: "object" }, meta: { type: "object" } },
+    }),
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postJobImport(req, res, url, reqId, userId, counters),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/job-match",
+    tag: "generate",
+    summary: "Score how well the profile matches a job",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    body: {
+      type: "object",
+      required: ["jobId"],
+      properties: { jobId },
+    },
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postJobMatch(req, res, url, reqId, userId, counters),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/checklist",
+    tag: "generate",
+    summary: "Interview preparation checklist",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    responses: created("Checklist"),
+    handler: async ({ req, res, url, reqId, userId }) => {
+      const mod = await import("./generate/checklist.js");
+      await mod.post(req, res, url, reqId, userId);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/generate/relationship",
+    tag: "generate",
+    summary: "Relationship-building message for a contact",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postRelationship(req, res, url, reqId, userId, counters as any),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/referral-request",
+    tag: "generate",
+    summary: "Referral request message",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postReferralRequest(req, res, url, reqId, userId, counters as any),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/suggest-contacts",
+    tag: "generate",
+    summary: "Suggest people to contact at a company",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    handler: async ({ req, res, url, reqId, userId, counters }) => {
+      const mod = await import("./generate/suggest-contacts.js");
+      await mod.post(req, res, url, reqId, userId, counters as any);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/generate/event-contacts",
+    tag: "generate",
+    summary: "Suggest people to meet at an event",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    handler: async ({ req, res, url, reqId, userId, counters }) => {
+      const mod = await import("./generate/event-contacts.js");
+      await mod.post(req, res, url, reqId, userId, counters as any);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/generate/profile-tips",
+    tag: "generate",
+    summary: "Tips to strengthen the profile",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postProfileTips(req, res, url, reqId, userId, counters as any),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/interview-request",
+    tag: "generate",
+    summary: "Informational interview request message",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    responses: created("Generated message"),
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postInterviewRequest(req, res, url, reqId, userId, counters as any),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/interview-questions",
+    tag: "generate",
+    summary: "Likely interview questions for a job",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    responses: created("Generated questions"),
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postInterviewQuestions(req, res, url, reqId, userId, counters as any),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/interview-feedback",
+    tag: "generate",
+    summary: "Feedback on a practice answer",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    responses: created("Generated feedback"),
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postInterviewFeedback(req, res, url, reqId, userId, counters as any),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/coaching-insights",
+    tag: "generate",
+    summary: "Coaching insights from interview history",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postCoachingInsights(req, res, url, reqId, userId, counters as any),
+  },
+  {
+    method: "POST",
+    path: "/api/generate/mock-interview-summary",
+    tag: "generate",
+    summary: "Summary of a mock interview session",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    responses: created("Generated summary"),
+    handler: async ({ req, res, url, reqId, userId, counters }) => {
+      const mod = await import("./generate/mock-interview-summary.js");
+      await mod.post(req, res, url, reqId, userId, counters as any);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/generate/reference-points",
+    tag: "generate",
+    summary: "Talking points for a reference",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postReferencePoints(req, res, url, reqId, userId, counters as any),
+  },
+];
+
+// ============================================================================
+// Analytics
+// ============================================================================
+
+/** Handlers that authenticate themselves and take (req, res) */
+function selfAuthenticated(
+  load: () => Promise<
+    (
+      req: import("node:http").IncomingMessage,
+      res: import("node:http").ServerResponse
+    ) => Promise<void>
+  >
+): RouteDefinition["handler"] {
+  return async ({ req, res }) => (await load())(req, res);
+}
+
+const analyticsRoutes: RouteDefinition[] = [
+  {
+    method: "GET",
+    path: "/api/analytics/overview",
+    tag: "analytics",
+    summary: "Interview analytics overview",
+    auth: "optional",
+    handler: ({ req, res }) => getAnalyticsOverview(req, res),
+  },
+  {
+    method: "GET",
+    path: "/api/analytics/trends",
+    tag: "analytics",
+    summary: "Interview analytics trends",
+    auth: "optional",
+    handler: ({ req, res }) => getAnalyticsTrends(req, res),
+  },
+  {
+    method: "POST",
+    path: "/api/analytics/networking",
+    tag: "analytics",
+    summary: "Networking and referral analytics",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      handleNetworkingAnalytics(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/analytics/salary",
+    tag: "analytics",
+    summary: "Salary analytics",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      handleSalaryAnalytics(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/analytics/goals",
+    tag: "analytics",
+    summary: "Goal progress analytics",
+    auth: "required",
+    handler: ({ req, res, userId }) => handleGoalsAnalytics(req, res, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/analytics/competitive/position",
+    tag: "analytics",
+    summary: "Competitive position against peer benchmarks (cached)",
+    auth: "required",
+    handler: selfAuthenticated(
+      async () =>
+        (await import("./analytics/competitive.js"))
+          .handleGetCompetitivePosition
+    ),
+  },
+  {
+    method: "POST",
+    path: "/api/analytics/market/intelligence",
+    tag: "analytics",
+    summary: "Market intelligence for the user's target roles",
+    auth: "required",
+    handler: selfAuthenticated(
+      async () =>
+        (await import("./analytics/market-intelligence.js"))
+          .handleGetMarketIntelligence
+    ),
+  },
+  {
+    method: "POST",
+    path: "/api/analytics/career/paths",
+    tag: "analytics",
+    summary: "Career path simulation",
+    auth: "required",
+    handler: selfAuthenticated(
+      async () =>
+        (await import("./analytics/career-paths.js")).handleCareerPathSimulation
+    ),
+  },
+  {
+    method: "POST",
+    path: "/api/analytics/productivity/time-investment",
+    tag: "analytics",
+    summary: "Time investment and productivity analytics",
+    auth: "required",
+    handler: selfAuthenticated(
+      async () =>
+        (await import("./analytics/productivity/timeInvestment.js"))
+          .handleTimeInvestmentAnalytics
+    ),
+  },
+  {
+    method: "POST",
+    path: "/api/analytics/pattern-recognition",
+    tag: "analytics",
+    summary: "Application, interview and offer patterns (cached)",
+    auth: "required",
+    handler: async ({ req, res, userId }) => {
+      (req as any).userId = userId;
+      const { handleGetPatternRecognition } =
+        await import("./analytics/pattern-recognition.js");
+      await handleGetPatternRecognition(req, res);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/time-entries",
+    tag: "analytics",
+    summary: "Log time spent on job search activities",
+    auth: "required",
+    responses: created("Time entry"),
+    handler: selfAuthenticated(
+      async () =>
+        (await import("./time-entries/create.js")).handleCreateTimeEntry
+    ),
+  },
+  {
+    method: "POST",
+    path: "/api/admin/compute-benchmarks",
+    tag: "admin",
+    summary: "Recompute peer benchmarks",
+    auth: "required",
+    handler: selfAuthenticated(
+      async () =>
+        (await import("./admin/benchmarks.js")).handleComputeBenchmarks
+    ),
+  },
+  {
+    method: "GET",
+    path: "/api/admin/benchmark-status",
+    tag: "admin",
+    summary: "Peer benchmark coverage",
+    auth: "required",
+    handler: selfAuthenticated(
+      async () => (await import("./admin/benchmarks.js")).handleBenchmarkStatus
+    ),
+  },
+  {
+    method: "POST",
+    path: "/api/salary-research",
+    tag: "analytics",
+    summary: "Salary research for a role and location",
+    auth: "required",
+    body: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        location: { type: "string" },
+      },
+    },
+    responses: created("Salary research"),
+    handler: ({ req, res, url, reqId, userId, counters }) =>
+      postSalaryResearch(req, res, url, reqId, userId, counters),
+  },
+];
+
+// ============================================================================
+// Documents
+// ============================================================================
+
+const documentRoutes: RouteDefinition[] = [
+  {
+    method: "GET",
+    path: "/api/artifacts",
+    tag: "artifacts",
+    summary: "List generated artifacts",
+    auth: "required",
+    query: {
+      kind: { type: "string" },
+      jobId: { type: "integer" },
+      limit: limitQuery,
+      offset: { type: "integer", minimum: 0 },
+    },
+    handler: ({ req, res, url, userId }) => getArtifacts(req, res, url, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/artifacts/:id",
+    tag: "artifacts",
+    summary: "Get one artifact",
+    auth: "required",
+    responses: ok("Artifact", artifact),
+    handler: ({ req, res, url, userId }) => getArtifact(req, res, url, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/job-materials",
+    tag: "artifacts",
+    summary: "Record the materials used for a job application",
+    auth: "required",
+    body: {
+      type: "object",
+      required: ["jobId"],
+      properties: {
+        jobId,
+        resumeDocumentId: { type: "string" },
+        resumeArtifactId: { type: "string" },
+        coverDocumentId: { type: "string" },
+        coverArtifactId: { type: "string" },
+        metadata: { type: "object" },
+      },
+    },
+    responses: created("Job materials"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      postJobMaterials(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/jobs/:jobId/materials",
+    tag: "artifacts",
+    summary: "Materials used for a job",
+    auth: "required",
+    params: { jobId: { type: "integer" } },
+    handler: ({ req, res, url, userId }) =>
+      getJobMaterials(req, res, url, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/cover-letter/drafts",
+    tag: "cover-letter",
+    summary: "List cover letter drafts",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      listCoverLetterDrafts(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/cover-letter/drafts/:id",
+    tag: "cover-letter",
+    summary: "Get a cover letter draft",
+    auth: "required",
+    params: { id: uuidParam },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      getCoverLetterDraft(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "POST",
+    path: "/api/cover-letter/drafts",
+    tag: "cover-letter",
+    summary: "Create a cover letter draft",
+    auth: "required",
+    body: {
+      type: "object",
+      required: ["name"],
+      properties: {
+        name: { type: "string" },
+        template_id: { type: "string" },
+        job_id: { type: "integer" },
+        company_name: { type: "string" },
+        job_title: { type: "string" },
+        content: { type: "object" },
+        metadata: { type: "object" },
+        company_research: { type: "object" },
+      },
+    },
+    responses: created("Draft"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      postCoverLetterDraft(req, res, url, reqId, userId),
+  },
+  {
+    method: "PATCH",
+    path: "/api/cover-letter/drafts/:id",
+    tag: "cover-letter",
+    summary: "Update a cover letter draft",
+    auth: "required",
+    params: { id: uuidParam },
+    body: { type: "object" },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      patchCoverLetterDraft(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "DELETE",
+    path: "/api/cover-letter/drafts/:id",
+    tag: "cover-letter",
+    summary: "Delete a cover letter draft",
+    auth: "required",
+    params: { id: uuidParam },
+    responses: { 204: { description: "Deleted" } },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      deleteCoverLetterDraft(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "GET",
+    path: "/api/export/history",
+    tag: "export",
+    summary: "Export history",
+    auth: "required",
+    query: { documentId: { type: "string" } },
+    handler: ({ req, res, url, reqId, userId }) =>
+      getExportHistory(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/export/:id/download",
+    tag: "export",
+    summary: "Signed download link for an export",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      getExportDownload(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "POST",
+    path: "/api/export/:format",
+    tag: "export",
+    summary: "Export a document",
+    auth: "required",
+    params: {
+      format: { type: "string", enum: ["pdf", "docx", "html", "txt"] },
+    },
+    body: {
+      type: "object",
+      required: ["documentId"],
+      properties: {
+        documentId: { type: "string" },
+        templateId: { type: "string" },
+        themeId: { type: "string" },
+        sentTo: { type: "string" },
+        filename: { type: "string" },
+      },
+    },
+    responses: created("Export record with download link"),
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      postExport(req, res, url, reqId, userId, params.format),
+  },
+];
+
+// ============================================================================
+// ATS scoring
+// ============================================================================
+
+const atsRoutes: RouteDefinition[] = [
+  {
+    method: "POST",
+    path: "/api/ats/versions/:id",
+    tag: "ats",
+    summary: "Score a resume version against a job",
+    description:
+      "Deterministic keyword match (no AI): required/preferred keywords " +
+      "matched or missing by resume section, formatting risks and a 0-100 " +
+      "score, saved to document_versions.ats_score / ats_analysis. jobId " +
+      "defaults to the job the version or its document is linked to.",
+    auth: "required",
+    params: { id: uuidParam },
+    body: {
+      type: "object",
+      properties: { jobId },
+    },
+    responses: ok("Stored score with the keyword and formatting breakdown"),
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      scoreDocumentVersionAts(req, res, url, reqId, userId, params.id),
+  },
+];
+
+// ============================================================================
+// GitHub
+// ============================================================================
+
+const githubToken: OutputSchema = {
+  type: "string",
+  description: "provider_token from the GitHub sign-in",
+};
+
+const githubRoutes: RouteDefinition[] = [
+  {
+    method: "GET",
+    path: "/api/github/account",
+    tag: "github",
+    summary: "Linked GitHub account and last sync status",
+    auth: "required",
+    responses: ok("{ account }, null when not linked"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      getGithubAccount(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/github/account",
+    tag: "github",
+    summary: "Link a GitHub account",
+    description:
+      "Checks the token with GitHub and stores it server-side; the token " +
+      "is never returned.",
+    auth: "required",
+    body: {
+      type: "object",
+      required: ["token"],
+      properties: { token: githubToken },
+    },
+    responses: ok("Linked account"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      linkGithubAccount(req, res, url, reqId, userId),
+  },
+  {
+    method: "DELETE",
+    path: "/api/github/account",
+    tag: "github",
+    summary: "Unlink the GitHub account (synced repositories stay)",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      unlinkGithubAccount(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/github/sync",
+    tag: "github",
+    summary: "Queue a GitHub repository sync",
+    description:
+      "Queues a github_sync background job: repositories, README, language " +
+      "bytes and the owner's weekly commits. Passing token links the " +
+      "account first. The job result holds counts and skill evidence.",
+    auth: "required",
+    body: { type: "object", properties: { token: githubToken } },
+    responses: { 202: { description: "Queued job" } },
+    handler: ({ req, res, url, reqId, userId }) =>
+      syncGithub(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/github/skills",
+    tag: "github",
+    summary: "Skill evidence from synced repositories",
+    description:
+      "Languages by code volume, repository count, commits and recency, " +
+      "with add/update suggestions against the profile's skills.",
+    auth: "required",
+    responses: ok("{ evidence, suggestions }"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      getGithubSkills(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/github/skills/apply",
+    tag: "github",
+    summary: "Add or update skills from GitHub suggestions",
+    auth: "required",
+    body: {
+      type: "object",
+      required: ["skills"],
+      properties: {
+        skills: { type: "array", items: { type: "string" }, minItems: 1 },
+      },
+    },
+    responses: ok("Names added, updated and skipped"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      applyGithubSkills(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/github/repositories/:id/project",
+    tag: "github",
+    summary: "Create a project from a synced repository",
+    description:
+      "Adds a projects entry from the repository (dates, languages, topics, " +
+      "link) with an AI-written description unless useAi is false.",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    params: { id: { type: "integer", description: "repositories.id" } },
+    body: { type: "object", properties: { useAi: { type: "boolean" } } },
+    responses: created("{ project, aiGenerated }"),
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      createGithubProject(req, res, url, reqId, userId, params.id),
+  },
+];
+
+// ============================================================================
+// Skills
+// ============================================================================
+
+const skillRoutes: RouteDefinition[] = [
+  {
+    method: "GET",
+    path: "/api/skills/taxonomy",
+    tag: "skills",
+    summary: "Skills taxonomy",
+    description:
+      "Canonical skills with aliases, categories and parent skills, used to " +
+      "normalize skill names and match skill gaps.",
+    auth: "required",
+    responses: ok("{ version, skills }"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      getSkillTaxonomy(req, res, url, reqId, userId),
+  },
+];
+
+// ============================================================================
+// Portfolio
+// ============================================================================
+
+const portfolioSections: OutputSchema = {
+  type: "object",
+  description: "Visible sections: about, projects, skills, employment, github",
+  properties: {
+    about: { type: "boolean" },
+    projects: { type: "boolean" },
+    skills: { type: "boolean" },
+    employment: { type: "boolean" },
+    github: { type: "boolean" },
+  },
+};
+
+const portfolioRoutes: RouteDefinition[] = [
+  {
+    method: "GET",
+    path: "/api/portfolio",
+    tag: "portfolio",
+    summary: "Portfolio settings",
+    auth: "required",
+    responses: ok("{ portfolio } (null until saved)"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      getPortfolio(req, res, url, reqId, userId),
+  },
+  {
+    method: "PATCH",
+    path: "/api/portfolio",
+    tag: "portfolio",
+    summary: "Create or update portfolio settings",
+    description:
+      "slug is required the first time; 409 slug_taken when another user " +
+      "has it. Project ids that are not the user's are dropped.",
+    auth: "required",
+    body: {
+      type: "object",
+      properties: {
+        slug: { type: "string" },
+        is_published: { type: "boolean" },
+        theme_id: { description: "themes.id; null for the default look" },
+        headline: {
+          description: "Up to 160 characters; null for the profile title",
+        },
+        sections: portfolioSections,
+        project_ids: { type: "array", items: { type: "string" } },
+      },
+    },
+    responses: ok("{ portfolio }"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      savePortfolio(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/portfolio/export",
+    tag: "portfolio",
+    summary: "Static HTML bundle of the portfolio",
+    description:
+      "index.html and styles.css for the saved settings (published or not), " +
+      "with no scripts or external assets.",
+    auth: "required",
+    responses: ok("{ fileName, files: [{ path, content }] }"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      exportPortfolio(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/public/portfolios/:slug",
+    tag: "portfolio",
+    summary: "Published portfolio page",
+    description:
+      "Public. Only the sections the owner made visible; counts one view " +
+      "per visitor every 30 minutes. 404 when unknown or unpublished.",
+    auth: "none",
+    params: { slug: { type: "string", description: "portfolios.slug" } },
+    responses: ok("{ portfolio }"),
+    handler: ({ req, res, url, reqId, params }) =>
+      getPublicPortfolio(req, res, url, reqId, params.slug),
+  },
+];
+
+// ============================================================================
+// Resume import
+// ============================================================================
+
+const resumeSection: OutputSchema = {
+  type: "string",
+  enum: ["employment", "education", "skills", "projects", "certifications"],
+};
+
+const resumeImportRoutes: RouteDefinition[] = [
+  {
+    method: "POST",
+    path: "/api/resume-import/parse",
+    tag: "resume-import",
+    summary: "Parse a PDF/DOCX resume into profile entries",
+    description:
+      "Extracts and segments the resume, asks the AI only about ambiguous " +
+      "entries (unless useAi is false) and diffs the result against the " +
+      "profile. Nothing is written.",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    body: {
+      type: "object",
+      required: ["fileName", "contentBase64"],
+      properties: {
+        fileName: { type: "string" },
+        contentBase64: { type: "string", description: "File, max 5 MB" },
+        useAi: { type: "boolean" },
+      },
+    },
+    responses: ok(
+      "Import preview: profile changes and new/update/duplicate entries"
+    ),
+    handler: ({ req, res, url, reqId, userId }) =>
+      parseResumeImport(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/resume-import/merge",
+    tag: "resume-import",
+    summary: "Write reviewed resume entries to the profile",
+    auth: "required",
+    body: {
+      type: "object",
+      required: ["items"],
+      properties: {
+        profile: { type: "object" },
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["section", "action", "data"],
+            properties: {
+              section: resumeSection,
+              action: { type: "string", enum: ["new", "update"] },
+              existingId: { type: "string" },
+              data: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    responses: ok("Per-entry results with created/updated/failed counts"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      mergeResumeImport(req, res, url, reqId, userId),
+  },
+];
+
+// ============================================================================
+// AI usage and prompts
+// ============================================================================
+
+const aiRoutes: RouteDefinition[] = [
+  {
+    method: "GET",
+    path: "/api/ai/usage",
+    tag: "ai",
+    summary: "Caller's AI tokens and cost with limits",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      getAiUsage(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/ai/usage/teams",
+    tag: "ai",
+    summary: "AI spend per member for teams the caller administers",
+    auth: "required",
+    query: { days: { type: "integer", minimum: 1 } },
+    handler: ({ req, res, url, reqId, userId }) =>
+      getTeamAiSpend(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/ai/prompts",
+    tag: "ai",
+    summary: "Registered prompts, versions and experiments",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      listAiPrompts(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/ai/prompts/stats",
+    tag: "ai",
+    summary: "Per-version prompt outcome stats",
+    auth: "required",
+    query: {
+      promptId: { type: "string" },
+      days: { type: "integer", minimum: 1 },
+    },
+    handler: ({ req, res, url, reqId, userId }) =>
+      getAiPromptStats(req, res, url, reqId, userId),
+  },
+];
+
+// ============================================================================
+// Notifications
+// ============================================================================
+
+const notificationRoutes: RouteDefinition[] = [
+  {
+    method: "GET",
+    path: "/api/notifications",
+    tag: "notifications",
+    summary: "In-app inbox",
+    auth: "required",
+    query: { unread: { type: "boolean" }, limit: limitQuery },
+    handler: ({ req, res, url, reqId, userId }) =>
+      listNotifications(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/notifications/read",
+    tag: "notifications",
+    summary: "Mark inbox items read (all when ids is omitted)",
+    auth: "required",
+    body: {
+      type: "object",
+      properties: { ids: { type: "array", items: { type: "string" } } },
+    },
+    handler: ({ req, res, url, reqId, userId }) =>
+      markNotificationsRead(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/notifications/scheduled",
+    tag: "notifications",
+    summary: "Reminder jobs with per-channel delivery status",
+    auth: "required",
+    query: { status: { type: "string" } },
+    handler: ({ req, res, url, reqId, userId }) =>
+      listScheduledNotifications(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/notifications/followups",
+    tag: "notifications",
+    summary: "Schedule a follow-up nudge",
+    auth: "required",
+    body: {
+      type: "object",
+      required: ["sourceId", "runAt", "title"],
+      properties: {
+        sourceId: { type: "string" },
+        runAt: { type: "string", description: "ISO timestamp" },
+        title: { type: "string" },
+        body: { type: "string" },
+        link: { type: "string" },
+      },
+    },
+    responses: created("Scheduled nudge"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      scheduleFollowupNudge(req, res, url, reqId, userId),
+  },
+  {
+    method: "DELETE",
+    path: "/api/notifications/followups/:sourceId",
+    tag: "notifications",
+    summary: "Cancel a pending follow-up nudge",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      cancelFollowupNudge(req, res, url, reqId, userId, params.sourceId),
+  },
+  {
+    method: "GET",
+    path: "/api/notifications/preferences",
+    tag: "notifications",
+    summary: "Delivery channels",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      getNotificationPreferences(req, res, url, reqId, userId),
+  },
+  {
+    method: "PATCH",
+    path: "/api/notifications/preferences",
+    tag: "notifications",
+    summary: "Update delivery channels",
+    auth: "required",
+    body: {
+      type: "object",
+      properties: {
+        channels: {
+          type: "array",
+          items: { type: "string", enum: ["in_app", "email", "webhook"] },
+        },
+        email: { type: "string" },
+        webhookUrl: { type: "string" },
+      },
+    },
+    handler: ({ req, res, url, reqId, userId }) =>
+      patchNotificationPreferences(req, res, url, reqId, userId),
+  },
+];
+
+// ============================================================================
+// Offers, automations, saved searches, jobs
+// ============================================================================
+
+const pipelineRoutes: RouteDefinition[] = [
+  {
+    method: "POST",
+    path: "/api/offers/projection",
+    tag: "offers",
+    summary: "Multi-year offer totals and break-even points",
+    auth: "required",
+    body: {
+      type: "object",
+      required: ["offers"],
+      properties: {
+        offers: { type: "array", items: { type: "object" }, minItems: 1 },
+        horizonYears: { type: "integer", minimum: 1, maximum: 10 },
+      },
+    },
+    handler: ({ req, res, url, reqId, userId }) =>
+      postOfferProjection(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/offers/regions",
+    tag: "offers",
+    summary: "Supported tax regions and cost-of-living locations",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      getOfferRegions(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/automations",
+    tag: "automations",
+    summary: "Automation rules",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      listAutomations(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/automations",
+    tag: "automations",
+    summary: "Create an automation rule",
+    auth: "required",
+    body: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        enabled: { type: "boolean" },
+        trigger_type: { type: "string" },
+        trigger_config: { type: "object" },
+        conditions: { type: "array", items: { type: "object" } },
+        actions: { type: "array", items: { type: "object" } },
+      },
+    },
+    responses: created("Rule"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      createAutomation(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/automations/runs",
+    tag: "automations",
+    summary: "Automation execution log",
+    auth: "required",
+    query: { ruleId: { type: "string" }, limit: limitQuery },
+    handler: ({ req, res, url, reqId, userId }) =>
+      listAutomationRuns(req, res, url, reqId, userId),
+  },
+  {
+    method: "PATCH",
+    path: "/api/automations/:id",
+    tag: "automations",
+    summary: "Update an automation rule",
+    auth: "required",
+    params: { id: uuidParam },
+    body: { type: "object" },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      updateAutomation(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "DELETE",
+    path: "/api/automations/:id",
+    tag: "automations",
+    summary: "Delete an automation rule (its runs stay in the log)",
+    auth: "required",
+    params: { id: uuidParam },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      deleteAutomation(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "GET",
+    path: "/api/saved-searches",
+    tag: "saved-searches",
+    summary: "Saved searches with match and new counts",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      listSavedSearches(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/saved-searches",
+    tag: "saved-searches",
+    summary: "Save a search (current matches become the baseline)",
+    auth: "required",
+    body: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        criteria: { type: "object" },
+        digest_frequency: {
+          type: "string",
+          enum: ["none", "daily", "weekly"],
+        },
+      },
+    },
+    responses: created("Saved search"),
+    handler: ({ req, res, url, reqId, userId }) =>
+      createSavedSearch(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/saved-searches/:id/matches",
+    tag: "saved-searches",
+    summary: "Matching jobs, newest first, flagged new",
+    auth: "required",
+    params: { id: uuidParam },
+    query: { limit: limitQuery },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      listSavedSearchMatches(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "POST",
+    path: "/api/saved-searches/:id/viewed",
+    tag: "saved-searches",
+    summary: "Mark all current matches as seen",
+    auth: "required",
+    params: { id: uuidParam },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      markSavedSearchViewed(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "PATCH",
+    path: "/api/saved-searches/:id",
+    tag: "saved-searches",
+    summary: "Rename, change criteria or digest frequency",
+    auth: "required",
+    params: { id: uuidParam },
+    body: { type: "object" },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      updateSavedSearch(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "DELETE",
+    path: "/api/saved-searches/:id",
+    tag: "saved-searches",
+    summary: "Delete a saved search and its matches",
+    auth: "required",
+    params: { id: uuidParam },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      deleteSavedSearch(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "GET",
+    path: "/api/jobs",
+    tag: "jobs",
+    summary: "Filtered, searched and sorted page of jobs with stage counts",
+    auth: "required",
+    query: {
+      search: { type: "string", description: "websearch syntax" },
+      stage: { type: "string" },
+      industry: { type: "string" },
+      jobType: { type: "string" },
+      minSalary: { type: "number" },
+      maxSalary: { type: "number" },
+      deadlineBefore: { type: "string" },
+      deadlineAfter: { type: "string" },
+      createdBefore: { type: "string" },
+      createdAfter: { type: "string" },
+      includeArchived: { type: "boolean" },
+      sortBy: {
+        type: "string",
+        enum: [
+          "created_at",
+          "application_deadline",
+          "company_name",
+          "job_title",
+        ],
+      },
+      sortOrder: { type: "string", enum: ["asc", "desc"] },
+      mode: { type: "string", enum: ["offset", "cursor"] },
+      limit: limitQuery,
+      page: { type: "integer", minimum: 1 },
+      offset: { type: "integer", minimum: 0 },
+      cursor: { type: "string" },
+    },
+    responses: ok("Page of jobs", {
+      type: "object",
+      required: ["data", "pagination", "stageCounts"],
+      properties: {
+        data: { type: "array", items: { type: "object" } },
+        pagination: { type: "object" },
+        stageCounts: { type: "object" },
+      },
+    }),
+    handler: ({ req, res, url, reqId, userId }) =>
+      listJobs(req, res, url, reqId, userId),
+  },
+];
+
+// ============================================================================
+// Background jobs
+// ============================================================================
+
+const backgroundJobKind: OutputSchema = {
+  type: "string",
+  enum: [
+    "company_research",
+    "career_paths",
+    "market_intelligence",
+    "job_import",
+    "github_sync",
+  ],
+};
+
+const backgroundJobRoutes: RouteDefinition[] = [
+  {
+    method: "POST",
+    path: "/api/background-jobs",
+    tag: "background-jobs",
+    summary: "Queue a long-running AI or scraping job",
+    description:
+      "input holds the matching inline route's parameters. Returns at once; " +
+      "follow the job with GET /api/background-jobs/{id} or its events.",
+    auth: "required",
+    rateLimit: "ai",
+    ai: true,
+    body: {
+      type: "object",
+      required: ["kind"],
+      properties: { kind: backgroundJobKind, input: { type: "object" } },
+    },
+    responses: { 202: { description: "Queued job" } },
+    handler: ({ req, res, url, reqId, userId }) =>
+      createBackgroundJob(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/background-jobs",
+    tag: "background-jobs",
+    summary: "Recent background jobs",
+    auth: "required",
+    query: {
+      status: {
+        type: "string",
+        enum: ["pending", "running", "succeeded", "failed", "cancelled"],
+      },
+      kind: backgroundJobKind,
+      limit: limitQuery,
+    },
+    handler: ({ req, res, url, reqId, userId }) =>
+      listBackgroundJobs(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/background-jobs/:id",
+    tag: "background-jobs",
+    summary: "A background job with its progress and result",
+    auth: "required",
+    params: { id: uuidParam },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      getBackgroundJob(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "GET",
+    path: "/api/background-jobs/:id/events",
+    tag: "background-jobs",
+    summary: "Background job progress as server-sent events",
+    auth: "required",
+    params: { id: uuidParam },
+    responses: {
+      200: {
+        description: "progress events, then complete, error or cancelled",
+        contentType: "text/event-stream",
+      },
+    },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      streamBackgroundJobEvents(req, res, url, reqId, userId, params.id),
+  },
+  {
+    method: "POST",
+    path: "/api/background-jobs/:id/cancel",
+    tag: "background-jobs",
+    summary: "Cancel a pending or running background job",
+    auth: "required",
+    params: { id: uuidParam },
+    handler: ({ req, res, url, reqId, userId, params }) =>
+      cancelBackgroundJob(req, res, url, reqId, userId, params.id),
+  },
+];
+
+// ============================================================================
+// Company research and predictions
+// ============================================================================
+
+const researchRoutes: RouteDefinition[] = [
+  {
+    method: "GET",
+    path: "/api/company/research",
+    tag: "company",
+    summary: "Stored research for a company",
+    auth: "required",
+    query: { name: { type: "string" }, industry: { type: "string" } },
+    handler: ({ req, res, url, reqId, userId }) =>
+      getCompanyResearch(req, res, url, reqId, userId),
+  },
+  {
+    method: "GET",
+    path: "/api/company/user-companies",
+    tag: "company",
+    summary: "Companies from the user's jobs",
+    auth: "required",
+    handler: ({ req, res, url, reqId, userId }) =>
+      getUserCompanies(req, res, url, reqId, userId),
+  },
+  {
+    method: "POST",
+    path: "/api/predict/job-search",
+    tag: "predictions",
+    summary: "Job search outcome predictions",
+    auth: "required",
+    rateLimit: "ai",
+    body: {
+      type: "object",
+      required: ["jobs"],
+      properties: { jobs: { type: "array", items: { type: "object" } } },
+    },
+    handler: async ({ req, res, url, reqId, userId, counters }) => {
+      const mod = await import("./predict/job-search.js");
+      await mod.post(req, res, url, reqId, userId, counters as any);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/predictions/response-time",
+    tag: "predictions",
+    summary: "Expected employer response time",
+    auth: "required",
+    rateLimit: "ai",
+    body: {
+      type: "object",
+      properties: {
+        submissions: { type: "array", items: { type: "object" } },
+        job: { type: "object" },
+      },
+    },
+    handler: async ({ req, res, url, reqId, userId, counters }) => {
+      const mod = await import("./predictions/response-time.js");
+      await mod.post(req, res, url, reqId, userId, counters as any);
+    },
+  },
+];
+
+export const apiRoutes: RouteDefinition[] = [
+  ...generateRoutes,
+  ...analyticsRoutes,
+  ...documentRoutes,
+  ...resumeImportRoutes,
+  ...atsRoutes,
+  ...githubRoutes,
+  ...skillRoutes,
+  ...portfolioRoutes,
+  ...aiRoutes,
+  ...notificationRoutes,
+  ...pipelineRoutes,
+  ...backgroundJobRoutes,
+  ...researchRoutes,
+];
@@ -36,13 +36,19 @@ import {
 import { ApiError, errorPayload } from "../utils/errors.js";
 import { getCorsHeaders, handleCorsPreflight } from "./middleware/cors.js";
 import { createRequestContext } from "./middleware/logging.js";
-import { requireAuth, tryAuth } from "./middleware/auth.js";
+import { requireAuth } from "./middleware/auth.js";
 import {
   applySecurityHeaders,
+  defaultRateLimitKey,
   enforceBrowserOriginOrThrow,
   enforceIpRateLimitOrThrow,
 } from "./middleware/security.js";
-import { getMetricsSnapshot } from "./observability/metrics.js";
+import {
+  getMetricsSnapshot,
+  renderMetrics,
+  OPENMETRICS_CONTENT_TYPE,
+  PROMETHEUS_CONTENT_TYPE,
+} from "./observability/metrics.js";
 import {
   captureException,
   getSentryMeta,
@@ -50,32 +56,14 @@ import {
   initSentry,
   isSentryEnabled,
 } from "./observability/sentry.js";
+import { handleHealth } from "./routes/index.js";
 import {
-  handleHealth,
-  handleGenerateResume,
-  handleGenerateCoverLetter,
-  handleSkillsOptimization,
-  handleExperienceTailoring,
-  handleCompanyResearch,
-  handleRelationship,
-  handleProfileTips,
-  handleReferralRequest,
-  handleJobImport,
-  handleJobMatch,
-  handleSalaryResearch,
-  handleListArtifacts,
-  handleGetArtifact,
-  handleCreateJobMaterials,
-  handleListJobMaterialsForJob,
-  handleListDrafts,
-  handleGetDraft,
-  handleCreateDraft,
-  handleUpdateDraft,
-  handleDeleteDraft,
-} from "./routes/index.js";
-import { post as handleNetworkingAnalytics } from "./routes/analytics/networking.js";
-import { post as handleSalaryAnalytics } from "./routes/analytics/salary.js";
-import { post as handleGoalsAnalytics } from "./routes/analytics/goals.js";
+  createRouter,
+  validateRequestBody,
+  type RouteDefinition,
+} from "./routes/router.js";
+import { apiRoutes } from "./routes/table.js";
+import { buildOpenApiDocument } from "./routes/openapi.js";
 
 // ------------------------------------------------------------------
 // ENVIRONMENT LOADING
@@ -143,7 +131,7 @@ export function loadEnvFromFiles() {
  * Checks:
  * - Required vars: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
  * - Optional vars: AI_API_KEY, CORS_ORIGIN, LOG_LEVEL, FAKE_AI, ALLOW_DEV_AUTH
- * - AI provider validation (AI_API_KEY required unless FAKE_AI=true)
+ * - AI provider validation (provider credentials required unless FAKE_AI=true)
  * - Auth security (ALLOW_DEV_AUTH should be disabled in production)
  *
  * Outputs: Structured logs for each config item (missing, loaded, invalid)
@@ -179,11 +167,23 @@ export function validateConfiguration() {
     }
   }
 
-  // Validate AI configuration
-  if (process.env.FAKE_AI !== "true" && !process.env.AI_API_KEY) {
-    logConfigEvent("invalid", "AI_PROVIDER", {
-      issue: "AI_API_KEY required when FAKE_AI is not true",
-    });
+  // Validate AI configuration (default provider; AI_PROVIDER_<KIND> overrides are checked at call time)
+  // Each entry lists env vars of which at least one must be set
+  const aiProvider = (process.env.AI_PROVIDER ?? "openai").toLowerCase();
+  const aiRequirements: Record<string, string[][]> = {
+    openai: [["AI_API_KEY", "OPENAI_API_KEY"]],
+    azure: [["AZURE_OPENAI_ENDPOINT"], ["AZURE_OPENAI_API_KEY", "AI_API_KEY"]],
+    anthropic: [["ANTHROPIC_API_KEY", "AI_API_KEY"]],
+    "openai-compatible": [["AI_BASE_URL"]],
+  };
+  if (process.env.FAKE_AI !== "true") {
+    for (const anyOf of aiRequirements[aiProvider] ?? []) {
+      if (!anyOf.some((varName) => process.env[varName])) {
+        logConfigEvent("invalid", "AI_PROVIDER", {
+          issue: `${anyOf.join(" or ")} required for AI_PROVIDER=${aiProvider} when FAKE_AI is not true`,
+        });
+      }
+    }
   }
 
   // Validate auth configuration
@@ -307,97 +307,91 @@ function sendError(
 }
 
 // ------------------------------------------------------------------
-// REQUEST ROUTING
+// SYSTEM ROUTES
 // ------------------------------------------------------------------
 /**
- * Main HTTP request handler with routing logic
- *
- * Flow:
- * 1. Increment request counter
- * 2. Create request context (logging, timing)
- * 3. Handle CORS preflight (OPTIONS)
- * 4. Parse URL and route to handlers
- * 5. Apply auth middleware for protected routes
- * 6. Call route handler with necessary context
- * 7. Handle errors and send response
- * 8. Log completion with timing
+ * Health, monitoring and API description routes. They live here rather
+ * than in routes/table.ts because they read server state (start time,
+ * counters) and use the gzip-aware jsonReply.
  *
- * Routes:
- * - GET  /api/health
- * - POST /api/generate/resume
- * - POST /api/generate/cover-letter
- * - POST /api/generate/skills-optimization
- * - POST /api/generate/experience-tailoring
- * - POST /api/generate/company-research
- * - POST /api/generate/job-import
- * - POST /api/generate/job-match
- * - GET  /api/artifacts
- * - GET  /api/artifacts/:id
- * - POST /api/job-materials
- * - GET  /api/jobs/:jobId/materials
- * - GET  /api/cover-letter/drafts
- * - GET  /api/cover-letter/drafts/:id
- * - POST /api/cover-letter/drafts
- * - PATCH /api/cover-letter/drafts/:id
- * - DELETE /api/cover-letter/drafts/:id
- *
- * Error modes:
- * - 404 for unknown routes
- * - 401 for missing/invalid auth on protected routes
- * - 500 for unhandled exceptions
+ * Monitoring routes are public but protected by shared secrets
+ * (METRICS_TOKEN, MONITORING_TEST_TOKEN); without the secret they 404.
  */
-async function handleRequest(
-  req: http.IncomingMessage,
-  res: http.ServerResponse
-) {
-  counters.requests_total++;
-
-  const ctx = createRequestContext(req);
-
-  try {
-    // Apply baseline security headers for every response.
-    applySecurityHeaders(req, res);
-
-    // Handle CORS preflight
-    if (req.method === "OPTIONS") {
-      handleCorsPreflight(req, res);
-      ctx.logComplete(req.method, req.url || "/", 204);
-      return;
-    }
-
-    const url = new URL(req.url!, `http://${req.headers.host}`);
-    const pathname = url.pathname;
-    const method = req.method || "GET";
-
-    // Production hardening: basic browser-origin guard + per-IP rate limiting.
-    enforceBrowserOriginOrThrow(req, pathname);
-    enforceIpRateLimitOrThrow(req, res, pathname);
+function aiRoutesEnabled(): boolean {
+  return (process.env.FEATURE_AI_ROUTES ?? "true").toLowerCase() !== "false";
+}
 
-    // ------------------------------------------------------------------
-    // HEALTH CHECK ENDPOINT (public)
-    // ------------------------------------------------------------------
-    if (method === "GET" && pathname === "/api/health") {
-      await handleHealth(url, req, res, { startedAt, counters });
-      // Don't log health checks to reduce clutter
-      return;
-    }
+/** Check a shared-secret bearer token; replies 404/401 and returns false */
+function checkSharedSecret(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  envVar: "METRICS_TOKEN" | "MONITORING_TEST_TOKEN"
+): boolean {
+  const token = (process.env[envVar] || "").trim();
+  if (!token) {
+    jsonReply(req, res, 404, { error: "Not Found" });
+    return false;
+  }
+  if (String(req.headers.authorization || "") !== `Bearer ${token}`) {
+    jsonReply(req, res, 401, { error: "unauthorized" });
+    return false;
+  }
+  return true;
+}
 
-    // ------------------------------------------------------------------
-    // MONITORING ENDPOINTS (public but protected by shared secret)
-    // ------------------------------------------------------------------
-    if (method === "GET" && pathname === "/api/metrics") {
-      const metricsToken = (process.env.METRICS_TOKEN || "").trim();
-      if (!metricsToken) {
-        jsonReply(req, res, 404, { error: "Not Found" });
-        ctx.logComplete(method, pathname, 404);
+let openApiDocument: unknown = null;
+
+const systemRoutes: RouteDefinition[] = [
+  {
+    method: "GET",
+    path: "/api/health",
+    tag: "system",
+    summary: "Liveness and dependency health",
+    auth: "none",
+    rateLimit: "none",
+    // Don't log health checks to reduce clutter
+    quiet: true,
+    query: { deep: { type: "boolean" } },
+    handler: ({ req, res, url }) =>
+      handleHealth(url, req, res, { startedAt, counters }),
+  },
+  {
+    method: "GET",
+    path: "/api/metrics",
+    tag: "system",
+    summary: "Request, AI and scraper metrics (METRICS_TOKEN bearer)",
+    description:
+      "JSON snapshot by default; ?format=openmetrics|prometheus for the text exposition formats.",
+    auth: "none",
+    rateLimit: "monitoring",
+    query: {
+      format: { type: "string", enum: ["json", "openmetrics", "prometheus"] },
+      window: { type: "integer", description: "Snapshot window in seconds" },
+    },
+    handler: async ({ req, res, url }) => {
+      if (!checkSharedSecret(req, res, "METRICS_TOKEN")) return;
+
+      // Text exposition for Prometheus-compatible scrapers (same bearer token)
+      const format = url.searchParams.get("format");
+      if (format === "openmetrics" || format === "prometheus") {
+        const body = renderMetrics(format);
+        res.writeHead(200, {
+          "Content-Type":
+            format === "openmetrics"
+              ? OPENMETRICS_CONTENT_TYPE
+              : PROMETHEUS_CONTENT_TYPE,
+          "Content-Length": Buffer.byteLength(body).toString(),
+          "Cache-Control": "no-store",
+        });
+        res.end(body);
         return;
       }
-
-      const authHeader = String(req.headers.authorization || "");
-      if (authHeader !== `Bearer ${metricsToken}`) {
-        jsonReply(req, res, 401, { error: "unauthorized" });
-        ctx.logComplete(method, pathname, 401);
-        return;
+      if (format && format !== "json") {
+        throw new ApiError(
+          400,
+          "format must be json, openmetrics or prometheus",
+          "bad_request"
+        );
       }
 
       const windowSecondsRaw = url.searchParams.get("window");
@@ -410,30 +404,25 @@ async function handleRequest(
           windowSeconds: Number.isFinite(windowSeconds) ? windowSeconds : 300,
         }),
       });
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    if (method === "POST" && pathname === "/api/monitoring/test-error") {
-      const testToken = (process.env.MONITORING_TEST_TOKEN || "").trim();
-      if (!testToken) {
-        jsonReply(req, res, 404, { error: "Not Found" });
-        ctx.logComplete(method, pathname, 404);
-        return;
-      }
-
-      const authHeader = String(req.headers.authorization || "");
-      if (authHeader !== `Bearer ${testToken}`) {
-        jsonReply(req, res, 401, { error: "unauthorized" });
-        ctx.logComplete(method, pathname, 401);
-        return;
-      }
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/monitoring/test-error",
+    tag: "system",
+    summary:
+      "Emit an intentional error to verify Sentry (MONITORING_TEST_TOKEN bearer)",
+    auth: "none",
+    rateLimit: "monitoring",
+    responses: { 500: { description: "Always; reports Sentry status" } },
+    handler: async ({ req, res, reqId, url }) => {
+      if (!checkSharedSecret(req, res, "MONITORING_TEST_TOKEN")) return;
 
       const err = new Error("Monitoring test error (intentional)");
       captureException(err, {
-        requestId: ctx.reqId,
-        route: pathname,
-        method,
+        requestId: reqId,
+        route: url.pathname,
+        method: "POST",
         status: 500,
       });
 
@@ -456,624 +445,141 @@ async function handleRequest(
         sentry_dsn_host: sentryMeta.dsnHost,
         sentry_project_id: sentryMeta.projectId,
       });
-      ctx.logComplete(method, pathname, 500);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // AI GENERATION ENDPOINTS (protected)
-    // ------------------------------------------------------------------
-    const aiRoutesEnabled =
-      (process.env.FEATURE_AI_ROUTES ?? "true").toLowerCase() !== "false";
-
-    // UC-131 (Feature flags): allow gradual rollout by disabling AI endpoints
-    // in staging/production without code changes.
-    if (
-      !aiRoutesEnabled &&
-      method === "POST" &&
-      pathname.startsWith("/api/generate/")
-    ) {
-      jsonReply(req, res, 503, {
-        error: "AI endpoints are disabled in this environment",
-        feature: "FEATURE_AI_ROUTES",
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/openapi.json",
+    tag: "system",
+    summary: "OpenAPI 3.1 description of this API",
+    description:
+      "Generated from the route table; use it to generate typed API clients.",
+    auth: "none",
+    responses: { 200: { description: "OpenAPI document" } },
+    handler: async ({ req, res }) => {
+      // Built once: the route table is static for the life of the process
+      openApiDocument ??= buildOpenApiDocument(router.routes, {
+        title: "FlowATS API",
+        version: "1.0.0",
       });
-      ctx.logComplete(method, pathname, 503);
-      return;
-    }
-
-    if (method === "POST" && pathname === "/api/generate/resume") {
-      const userId = await requireAuth(req);
-      await handleGenerateResume(req, res, url, ctx.reqId, userId, counters);
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
-
-    if (method === "POST" && pathname === "/api/generate/cover-letter") {
-      const userId = await requireAuth(req);
-      await handleGenerateCoverLetter(
-        req,
-        res,
-        url,
-        ctx.reqId,
-        userId,
-        counters
-      );
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
+      jsonReply(req, res, 200, openApiDocument);
+    },
+  },
+];
 
-    if (method === "POST" && pathname === "/api/generate/skills-optimization") {
-      const userId = await requireAuth(req);
-      await handleSkillsOptimization(
-        req,
-        res,
-        url,
-        ctx.reqId,
-        userId,
-        counters
-      );
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
-
-    if (
-      method === "POST" &&
-      pathname === "/api/generate/experience-tailoring"
-    ) {
-      const userId = await requireAuth(req);
-      await handleExperienceTailoring(
-        req,
-        res,
-        url,
-        ctx.reqId,
-        userId,
-        counters
-      );
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
+const router = createRouter([...systemRoutes, ...apiRoutes]);
 
-    if (method === "POST" && pathname === "/api/generate/company-research") {
-      const userId = await requireAuth(req);
-      await handleCompanyResearch(req, res, url, ctx.reqId, userId, counters);
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
-
-    if (method === "POST" && pathname === "/api/generate/job-import") {
-      const userId = await requireAuth(req);
-      await handleJobImport(req, res, url, ctx.reqId, userId, counters);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    if (method === "POST" && pathname === "/api/generate/job-match") {
-      const userId = await requireAuth(req);
-      await handleJobMatch(req, res, url, ctx.reqId, userId, counters);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    if (method === "POST" && pathname === "/api/generate/checklist") {
-      const userId = await requireAuth(req);
-      // dynamic import to avoid loading when not needed
-      const mod = await import("./routes/generate/checklist.js");
-      await mod.post(req, res, url, ctx.reqId, userId);
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
-
-    if (method === "POST" && pathname === "/api/generate/relationship") {
-      const userId = await requireAuth(req);
-      await handleRelationship(
-        req,
-        res,
-        url,
-        ctx.reqId,
-        userId,
-        counters as any
-      );
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
+// ------------------------------------------------------------------
+// REQUEST ROUTING
+// ------------------------------------------------------------------
+/**
+ * Main HTTP request handler
+ *
+ * Flow:
+ * 1. Increment request counter
+ * 2. Create request context (logging, timing)
+ * 3. Handle CORS preflight (OPTIONS)
+ * 4. Match the route table (routes/table.ts + system routes below)
+ * 5. IP rate limit by route group, then 404 for unknown routes
+ * 6. Auth, AI feature flag and AI budget for the matched route
+ * 7. Validate the request body against the route schema
+ * 8. Call the route handler; log completion with its status
+ * 9. Handle errors and send response
+ *
+ * Routes: see routes/table.ts, or GET /api/openapi.json
+ *
+ * Error modes:
+ * - 404 for unknown routes
+ * - 401 for missing/invalid auth on protected routes
+ * - 400 for request bodies that fail the route schema
+ * - 429 when rate limited or over the AI budget
+ * - 500 for unhandled exceptions
+ */
+async function handleRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+) {
+  counters.requests_total++;
 
-    if (method === "POST" && pathname === "/api/generate/referral-request") {
-      const userId = await requireAuth(req);
-      await handleReferralRequest(
-        req,
-        res,
-        url,
-        ctx.reqId,
-        userId,
-        counters as any
-      );
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
+  const ctx = createRequestContext(req);
 
-    if (method === "POST" && pathname === "/api/generate/suggest-contacts") {
-      const userId = await requireAuth(req);
-      const mod = await import("./routes/generate/suggest-contacts.js");
-      await mod.post(req, res, url, ctx.reqId, userId, counters as any);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
+  try {
+    // Apply baseline security headers for every response.
+    applySecurityHeaders(req, res);
 
-    if (method === "POST" && pathname === "/api/generate/event-contacts") {
-      const userId = await requireAuth(req);
-      const mod = await import("./routes/generate/event-contacts.js");
-      await mod.post(req, res, url, ctx.reqId, userId, counters as any);
-      ctx.logComplete(method, pathname, 200);
+    // Handle CORS preflight
+    if (req.method === "OPTIONS") {
+      handleCorsPreflight(req, res);
+      ctx.logComplete(req.method, req.url || "/", 204);
       return;
     }
 
-    if (method === "POST" && pathname === "/api/generate/profile-tips") {
-      const userId = await requireAuth(req);
-      const { handleProfileTips } = await import("./routes/index.js");
-      await handleProfileTips(
-        req,
-        res,
-        url,
-        ctx.reqId,
-        userId,
-        counters as any
-      );
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
+    const url = new URL(req.url!, `http://${req.headers.host}`);
+    const pathname = url.pathname;
+    const method = req.method || "GET";
 
-    if (method === "POST" && pathname === "/api/generate/interview-request") {
-      const userId = await requireAuth(req);
-      const { handleGenerateInterviewRequest } = await import(
-        "./routes/index.js"
-      );
-      await handleGenerateInterviewRequest(
-        req,
-        res,
-        url,
-        ctx.reqId,
-        userId,
-        counters as any
-      );
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
+    // Production hardening: basic browser-origin guard + per-IP rate limiting.
+    enforceBrowserOriginOrThrow(req, pathname);
 
-    if (method === "POST" && pathname === "/api/generate/interview-questions") {
-      const userId = await requireAuth(req);
-      const { handleGenerateInterviewQuestions } = await import(
-        "./routes/index.js"
-      );
-      await handleGenerateInterviewQuestions(
+    const match = router.match(method, pathname);
+    const group = match?.route.rateLimit ?? "default";
+    if (pathname.startsWith("/api/")) {
+      await enforceIpRateLimitOrThrow(
         req,
         res,
-        url,
-        ctx.reqId,
-        userId,
-        counters as any
+        group,
+        group === "default"
+          ? defaultRateLimitKey(pathname, match?.route.path)
+          : group
       );
-      ctx.logComplete(method, pathname, 201);
-      return;
     }
 
-    if (method === "POST" && pathname === "/api/generate/interview-feedback") {
-      const userId = await requireAuth(req);
-      const { handleGenerateInterviewFeedback } = await import(
-        "./routes/index.js"
-      );
-      await handleGenerateInterviewFeedback(
-        req,
-        res,
-        url,
-        ctx.reqId,
-        userId,
-        counters as any
-      );
-      ctx.logComplete(method, pathname, 201);
+    if (!match) {
+      jsonReply(req, res, 404, { error: "Not Found", path: pathname });
+      ctx.logComplete(method, pathname, 404);
       return;
     }
+    const { route, params } = match;
 
-    if (method === "POST" && pathname === "/api/generate/coaching-insights") {
-      const userId = await requireAuth(req);
-      const { handleCoachingInsights } = await import("./routes/index.js");
-      await handleCoachingInsights(
-        req,
-        res,
-        url,
-        ctx.reqId,
-        userId,
-        counters as any
-      );
-      ctx.logComplete(method, pathname, 200);
+    // UC-131 (Feature flags): allow gradual rollout by disabling AI endpoints
+    // in staging/production without code changes.
+    if (route.ai && !aiRoutesEnabled()) {
+      jsonReply(req, res, 503, {
+        error: "AI endpoints are disabled in this environment",
+        feature: "FEATURE_AI_ROUTES",
+      });
+      ctx.logComplete(method, pathname, 503);
       return;
     }
 
-    if (
-      method === "POST" &&
-      pathname === "/api/generate/mock-interview-summary"
-    ) {
-      const userId = await requireAuth(req);
-      const mod = await import("./routes/generate/mock-interview-summary.js");
-      await mod.post(req, res, url, ctx.reqId, userId, counters as any);
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
+    const userId = route.auth === "required" ? await requireAuth(req) : "";
 
-    if (method === "POST" && pathname === "/api/generate/reference-points") {
-      const userId = await requireAuth(req);
-      const { handleReferencePoints } = await import("./routes/index.js");
-      await handleReferencePoints(
-        req,
-        res,
-        url,
-        ctx.reqId,
-        userId,
-        counters as any
+    // Per-user AI budget: reject over-quota users before any generation handler
+    // runs, then attribute the request's AI calls to them in the usage ledger.
+    if (route.ai) {
+      const { checkQuota, enterUsageContext } = await import(
+        "./services/aiUsageService.js"
       );
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // INTERVIEW ANALYTICS ENDPOINTS (protected)
-    // ------------------------------------------------------------------
-    if (method === "GET" && pathname === "/api/analytics/overview") {
-      try {
-        const { get: handleAnalyticsOverview } = await import(
-          "./routes/analytics.js"
-        );
-        await handleAnalyticsOverview(req, res);
-        ctx.logComplete(method, pathname, 200);
-        return;
-      } catch (err: any) {
-        console.error("[analytics/overview] Error:", err);
-        jsonReply(req, res, 500, { error: err?.message ?? String(err) });
-        return;
-      }
-    }
-
-    if (method === "GET" && pathname === "/api/analytics/trends") {
-      try {
-        const { getTrends: handleAnalyticsTrends } = await import(
-          "./routes/analytics.js"
-        );
-        await handleAnalyticsTrends(req, res);
-        ctx.logComplete(method, pathname, 200);
-        return;
-      } catch (err: any) {
-        console.error("[analytics/trends] Error:", err);
-        jsonReply(req, res, 500, { error: err?.message ?? String(err) });
-        return;
-      }
-    }
-
-    // ------------------------------------------------------------------
-    // NETWORKING ANALYTICS ENDPOINT (protected)
-    // ------------------------------------------------------------------
-    if (method === "POST" && pathname === "/api/analytics/networking") {
-      const userId = await requireAuth(req);
-      await handleNetworkingAnalytics(req, res, url, ctx.reqId, userId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // SALARY ANALYTICS ENDPOINT (protected)
-    // ------------------------------------------------------------------
-    if (method === "POST" && pathname === "/api/analytics/salary") {
-      const userId = await requireAuth(req);
-      await handleSalaryAnalytics(req, res, url, ctx.reqId, userId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // GOALS ANALYTICS ENDPOINT (protected)
-    // ------------------------------------------------------------------
-    if (method === "POST" && pathname === "/api/analytics/goals") {
-      const userId = await requireAuth(req);
-      await handleGoalsAnalytics(req, res, userId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // COMPETITIVE BENCHMARKING ENDPOINT (protected)
-    // ------------------------------------------------------------------
-    if (
-      method === "POST" &&
-      pathname === "/api/analytics/competitive/position"
-    ) {
-      try {
-        const { handleGetCompetitivePosition } = await import(
-          "./routes/analytics/competitive.js"
-        );
-        await handleGetCompetitivePosition(req, res);
-        ctx.logComplete(method, pathname, 200);
-        return;
-      } catch (error) {
-        console.error("❌ ERROR in competitive route:", error);
-        jsonReply(req, res, 500, { error: "Internal server error" });
-        return;
-      }
-    }
-
-    // ------------------------------------------------------------------
-    // MARKET INTELLIGENCE ENDPOINT (protected)
-    // ------------------------------------------------------------------
-    if (
-      method === "POST" &&
-      pathname === "/api/analytics/market/intelligence"
-    ) {
-      try {
-        const { handleGetMarketIntelligence } = await import(
-          "./routes/analytics/market-intelligence.js"
-        );
-        await handleGetMarketIntelligence(req, res);
-        ctx.logComplete(method, pathname, 200);
-        return;
-      } catch (error) {
-        console.error("❌ ERROR in market intelligence route:", error);
-        jsonReply(req, res, 500, { error: "Internal server error" });
-        return;
-      }
-    }
-
-    // ------------------------------------------------------------------
-    // CAREER PATH SIMULATION ENDPOINT (protected)
-    // ------------------------------------------------------------------
-    if (
-      method === "POST" &&
-      pathname === "/api/analytics/career/paths"
-    ) {
-      try {
-        const { handleCareerPathSimulation } = await import(
-          "./routes/analytics/career-paths.js"
-        );
-        await handleCareerPathSimulation(req, res);
-        ctx.logComplete(method, pathname, 200);
-        return;
-      } catch (error) {
-        console.error("❌ ERROR in career paths route:", error);
-        jsonReply(req, res, 500, { error: "Internal server error" });
-        return;
-      }
-    }
-
-    // ------------------------------------------------------------------
-    // TIME ENTRIES ENDPOINT (protected)
-    // ------------------------------------------------------------------
-    if (method === "POST" && pathname === "/api/time-entries") {
-      try {
-        const { handleCreateTimeEntry } = await import(
-          "./routes/time-entries/create.js"
-        );
-        await handleCreateTimeEntry(req, res);
-        ctx.logComplete(method, pathname, 201);
-        return;
-      } catch (error) {
-        console.error("❌ ERROR in time entries route:", error);
-        jsonReply(req, res, 500, { error: "Internal server error" });
-        return;
-      }
-    }
-
-    // ------------------------------------------------------------------
-    // TIME INVESTMENT & PRODUCTIVITY ANALYTICS ENDPOINT (protected)
-    // ------------------------------------------------------------------
-    if (
-      method === "POST" &&
-      pathname === "/api/analytics/productivity/time-investment"
-    ) {
-      try {
-        const { handleTimeInvestmentAnalytics } = await import(
-          "./routes/analytics/productivity/timeInvestment.js"
-        );
-        await handleTimeInvestmentAnalytics(req, res);
-        ctx.logComplete(method, pathname, 200);
-        return;
-      } catch (error) {
-        console.error("❌ ERROR in time investment route:", error);
-        jsonReply(req, res, 500, { error: "Internal server error" });
-        return;
-      }
-    }
-
-    // ------------------------------------------------------------------
-    // PATTERN RECOGNITION ANALYTICS ENDPOINT (protected)
-    // ------------------------------------------------------------------
-    if (
-      method === "POST" &&
-      pathname === "/api/analytics/pattern-recognition"
-    ) {
-      try {
-        const userId = await requireAuth(req);
-        (req as any).userId = userId;
-        const { handleGetPatternRecognition } = await import(
-          "./routes/analytics/pattern-recognition.js"
-        );
-        await handleGetPatternRecognition(req, res);
-        ctx.logComplete(method, pathname, 200);
-        return;
-      } catch (error) {
-        console.error("❌ ERROR in pattern recognition route:", error);
-        jsonReply(req, res, 500, { error: "Internal server error" });
-        return;
+      const quota = await checkQuota(userId);
+      if (!quota.ok) {
+        res.setHeader("Retry-After", String(quota.retryAfterSec));
+        throw new ApiError(429, quota.message, "quota_exceeded", quota.details);
       }
-    }
-
-    // ------------------------------------------------------------------
-    // ADMIN BENCHMARK ENDPOINTS (protected, admin only in production)
-    // ------------------------------------------------------------------
-    if (method === "POST" && pathname === "/api/admin/compute-benchmarks") {
-      const userId = await requireAuth(req);
-      const { handleComputeBenchmarks } = await import(
-        "./routes/admin/benchmarks.js"
-      );
-      await handleComputeBenchmarks(req, res);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    if (method === "GET" && pathname === "/api/admin/benchmark-status") {
-      const userId = await requireAuth(req);
-      const { handleBenchmarkStatus } = await import(
-        "./routes/admin/benchmarks.js"
-      );
-      await handleBenchmarkStatus(req, res);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // SALARY RESEARCH ENDPOINT (protected)
-    // ------------------------------------------------------------------
-    if (method === "POST" && pathname === "/api/salary-research") {
-      const userId = await requireAuth(req);
-      await handleSalaryResearch(req, res, url, ctx.reqId, userId, counters);
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // ARTIFACT ENDPOINTS (protected)
-    // ------------------------------------------------------------------
-    if (method === "GET" && pathname === "/api/artifacts") {
-      const userId = await requireAuth(req);
-      await handleListArtifacts(req, res, url, userId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // GET /api/artifacts/:id
-    if (method === "GET" && pathname.startsWith("/api/artifacts/")) {
-      const userId = await requireAuth(req);
-      await handleGetArtifact(req, res, url, userId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // JOB MATERIALS ENDPOINTS (protected)
-    // ------------------------------------------------------------------
-    if (method === "POST" && pathname === "/api/job-materials") {
-      const userId = await requireAuth(req);
-      await handleCreateJobMaterials(req, res, url, ctx.reqId, userId);
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
-
-    // GET /api/jobs/:jobId/materials
-    if (method === "GET" && pathname.match(/^\/api\/jobs\/\d+\/materials$/)) {
-      const userId = await requireAuth(req);
-      await handleListJobMaterialsForJob(req, res, url, userId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // COVER LETTER DRAFTS ENDPOINTS (protected)
-    // ------------------------------------------------------------------
-    // GET /api/cover-letter/drafts
-    if (method === "GET" && pathname === "/api/cover-letter/drafts") {
-      const userId = await requireAuth(req);
-      await handleListDrafts(req, res, url, ctx.reqId, userId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // GET /api/cover-letter/drafts/:id
-    if (
-      method === "GET" &&
-      pathname.match(/^\/api\/cover-letter\/drafts\/.+$/)
-    ) {
-      const userId = await requireAuth(req);
-      const draftId = pathname.split("/").pop() || "";
-      await handleGetDraft(req, res, url, ctx.reqId, userId, draftId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // POST /api/cover-letter/drafts
-    if (method === "POST" && pathname === "/api/cover-letter/drafts") {
-      const userId = await requireAuth(req);
-      await handleCreateDraft(req, res, url, ctx.reqId, userId);
-      ctx.logComplete(method, pathname, 201);
-      return;
-    }
-
-    // PATCH /api/cover-letter/drafts/:id
-    if (
-      method === "PATCH" &&
-      pathname.match(/^\/api\/cover-letter\/drafts\/.+$/)
-    ) {
-      const userId = await requireAuth(req);
-      const draftId = pathname.split("/").pop() || "";
-      await handleUpdateDraft(req, res, url, ctx.reqId, userId, draftId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // DELETE /api/cover-letter/drafts/:id
-    if (
-      method === "DELETE" &&
-      pathname.match(/^\/api\/cover-letter\/drafts\/.+$/)
-    ) {
-      const userId = await requireAuth(req);
-      const draftId = pathname.split("/").pop() || "";
-      await handleDeleteDraft(req, res, url, ctx.reqId, userId, draftId);
-      ctx.logComplete(method, pathname, 204);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // COMPANY RESEARCH
-    // ------------------------------------------------------------------
-
-    // GET /api/company/research
-    if (method === "GET" && pathname === "/api/company/research") {
-      const userId = await requireAuth(req);
-      const { handleGetCompanyResearch } = await import("./routes/index.js");
-      await handleGetCompanyResearch(req, res, url, ctx.reqId, userId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // GET /api/company/user-companies
-    if (method === "GET" && pathname === "/api/company/user-companies") {
-      const userId = await requireAuth(req);
-      const { handleGetUserCompanies } = await import("./routes/index.js");
-      await handleGetUserCompanies(req, res, url, ctx.reqId, userId);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // PREDICTIONS
-    // ------------------------------------------------------------------
-    // POST /api/predict/job-search
-    if (method === "POST" && pathname === "/api/predict/job-search") {
-      const userId = await requireAuth(req);
-      const mod = await import("./routes/predict/job-search.js");
-      await mod.post(req, res, url, ctx.reqId, userId, counters as any);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // POST /api/predictions/response-time
-    if (method === "POST" && pathname === "/api/predictions/response-time") {
-      const userId = await requireAuth(req);
-      const mod = await import("./routes/predictions/response-time.js");
-      await mod.post(req, res, url, ctx.reqId, userId, counters as any);
-      ctx.logComplete(method, pathname, 200);
-      return;
-    }
-
-    // ------------------------------------------------------------------
-    // 404 NOT FOUND
-    // ------------------------------------------------------------------
-    jsonReply(req, res, 404, { error: "Not Found", path: pathname });
-    ctx.logComplete(method, pathname, 404);
+      enterUsageContext({ userId, route: pathname, reqId: ctx.reqId });
+    }
+
+    await validateRequestBody(route, req);
+    await route.handler({
+      req,
+      res,
+      url,
+      reqId: ctx.reqId,
+      userId,
+      params,
+      counters,
+      startedAt,
+    });
+    if (!route.quiet) ctx.logComplete(method, pathname, res.statusCode);
   } catch (err: any) {
     // Error handling - log full details safely
     try {
@@ -3,23 +3,45 @@
  *
  * What this does:
  * - Centralizes AI provider selection and request normalization
+ * - Provider registry: openai, azure, anthropic, openai-compatible (local/self-hosted) and mock
  * - Supports a "mock" provider via FAKE_AI=true or AI_PROVIDER=mock for local dev
  * - Exposes `generate(kind, prompt, opts)` returning a normalized shape
  *
+ * Provider selection (per call):
+ * - AI_PROVIDER_<KIND> (e.g. AI_PROVIDER_COVER_LETTER=anthropic), else AI_PROVIDER, else openai
+ * - result.meta.provider reports which adapter produced the result
+ *
  * Where it's used:
  * - Orchestrator calls `aiClient.generate` to create resume/cover/company research/etc.
  * - The caller persists results (ai_artifacts) and handles UI flow.
  *
  * Notes:
- * - Keep provider specifics isolated here. If you add Azure or Anthropic, add a sendToX function and route in selectProvider.
+ * - Keep provider specifics isolated here. To add a backend, write a sendToX adapter and add it to
+ *   the `providers` map (or call registerProvider at startup).
  * - Avoid leaking SDK types outward; return a simple typed object.
+ * - Streaming: pass `stream: true` with `onDelta` to receive text as it arrives; the
+ *   resolved result is the same shape as a non-streamed call.
+ * - Usage: successful non-mock calls are written to the per-user ledger (aiUsageService)
+ *   when the request has a usage context.
+ * - Metrics: every provider call (including repairs and failures) is counted with its
+ *   latency and tokens in observability/metrics, labeled by kind and provider.
+ * - Validation: pass `schema` (from aiOutputSchemas) to get checked output in `result.data`.
+ *   Malformed output triggers repair prompts; AiOutputError is thrown if it never validates.
+ *   Mock results are returned as-is since fixtures are not model output.
+ * - Record/replay: AI_FIXTURE_MODE=record saves real responses under AI_FIXTURE_DIR
+ *   (kind + prompt hash); AI_FIXTURE_MODE=replay serves them through the "replay"
+ *   provider without network access (see aiFixtures).
  */
 import { logError, logInfo } from "../../utils/logger.js";
-
-type Provider = "openai" | "azure" | "mock";
-
-const PROVIDER = process.env.AI_PROVIDER ?? "openai";
-const FAKE_AI = (process.env.FAKE_AI ?? "false").toLowerCase() === "true";
+import { recordUsage } from "./aiUsageService.js";
+import {
+  AiOutputError,
+  buildRepairPrompt,
+  validateOutput,
+  type OutputSchema,
+} from "./aiOutputSchemas.js";
+import { getFixtureMode, loadFixture, recordFixture } from "./aiFixtures.js";
+import { recordAiCall } from "../observability/metrics.js";
 
 /** Options supported when generating content */
 export interface GenerateOptions {
@@ -29,16 +51,22 @@ export interface GenerateOptions {
   maxTokens?: number;
   /** Temperature (0..1) */
   temperature?: number;
-  /** Enable streaming (not implemented in this wrapper yet) */
+  /** Stream the completion; deltas are delivered through `onDelta` */
   stream?: boolean;
+  /** Called with each text delta while streaming (requires `stream: true`) */
+  onDelta?: (delta: string) => void;
   /** Request timeout in milliseconds */
   timeoutMs?: number;
   /** Max retries for transient errors */
   maxRetries?: number;
+  /** Expected JSON shape (see outputSchemas); invalid output is repaired or rejected */
+  schema?: OutputSchema;
+  /** Repair prompts to send after validation failures (default AI_REPAIR_ATTEMPTS or 1) */
+  repairAttempts?: number;
 }
 
 /** Normalized result returned by providers */
-export interface GenerateResult {
+export interface GenerateResult<T = unknown> {
   /** Plain text, when provider returns text */
   text?: string | null;
   /** Structured JSON, when the prompt asks for JSON */
@@ -49,6 +77,8 @@ export interface GenerateResult {
   tokens?: number;
   /** Additional metadata such as HTTP status, headers, etc. */
   meta?: Record<string, unknown>;
+  /** `json` after it passed `opts.schema` (only set when a schema was given) */
+  data?: T;
 }
 
 /**
@@ -599,29 +629,170 @@ function randomSampleForKind(kind: string) {
   }
 }
 
+/** Send a canned result through onDelta in small chunks so streaming UIs can be exercised */
+function emitCannedDeltas(
+  result: { text?: string | null; json?: unknown },
+  opts: GenerateOptions
+) {
+  if (!opts.stream || !opts.onDelta) return;
+  const serialized =
+    result.json !== undefined && result.json !== null
+      ? JSON.stringify(result.json)
+      : (result.text ?? "");
+  for (let i = 0; i < serialized.length; i += 64) {
+    opts.onDelta(serialized.slice(i, i + 64));
+  }
+}
+
+/** Mock provider: canned output per kind (replayed through onDelta when streaming) */
+async function sendToMock(
+  _prompt: string,
+  opts: GenerateOptions,
+  kind: string
+): Promise<GenerateResult> {
+  const mockResult = randomSampleForKind(kind);
+  emitCannedDeltas(mockResult, opts);
+  // Add metadata to indicate mock data was used
+  return {
+    ...mockResult,
+    meta: {
+      ...("meta" in mockResult && mockResult.meta ? mockResult.meta : {}),
+      isMockData: true,
+    },
+  };
+}
+
 /**
- * OpenAI REST integration using chat.completions endpoint.
- * Lightweight and dependency-free (uses fetch via undici/polyfill).
+ * Replay provider: serves a response recorded with AI_FIXTURE_MODE=record.
+ * Throws AiFixtureMissingError when no fixture matches the kind + prompt.
  */
-async function sendToOpenAI(
+async function sendToReplay(
   prompt: string,
-  opts: GenerateOptions
+  opts: GenerateOptions,
+  kind: string
 ): Promise<GenerateResult> {
-  // Read the API key at call-time so late-loaded env (from index env loader) is respected.
-  // Support common aliases to reduce configuration friction.
-  const apiKey = process.env.AI_API_KEY || process.env.OPENAI_API_KEY || "";
-  if (!apiKey) throw new Error("AI_API_KEY is not set");
+  const fixture = await loadFixture(kind, prompt);
+  emitCannedDeltas(fixture.result, opts);
+  return {
+    ...fixture.result,
+    meta: {
+      ...(fixture.result.meta ?? {}),
+      replayed: true,
+      recordedProvider: fixture.provider,
+      recordedAt: fixture.recordedAt,
+    },
+  };
+}
 
-  // Basic retry + timeout wrapper around a single REST call.
+/**
+ * Parse JSON from completion text if it looks like JSON.
+ * Falls back to stripping markdown code fences; returns undefined otherwise.
+ */
+function parseJsonText(text: string | null | undefined): unknown {
+  if (!text) return undefined;
+  const trimmed = text.trim();
+  if (
+    !trimmed.startsWith("{") &&
+    !trimmed.startsWith("[") &&
+    !trimmed.startsWith("```")
+  ) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch (e) {
+    // Try removing markdown code blocks if present
+    try {
+      const cleaned = trimmed
+        .replace(/```json\s*/g, "")
+        .replace(/```\s*/g, "")
+        .trim();
+      return JSON.parse(cleaned);
+    } catch (e2) {
+      // Not valid JSON, leave json undefined and keep text
+      logInfo("ai_json_parse_failed", {
+        error: String(e),
+        textPreview: trimmed.substring(0, 200),
+      });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Read an SSE response body line by line.
+ * onData receives each `data:` payload; returning true stops reading
+ * (e.g. OpenAI's "[DONE]" sentinel).
+ */
+async function readEventStream(
+  resp: Response,
+  provider: string,
+  onData: (data: string) => boolean | void
+): Promise<void> {
+  if (!resp.body) throw new Error(`${provider} stream has no body`);
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  const handleLine = (line: string): boolean =>
+    line.startsWith("data:") ? onData(line.slice(5).trim()) === true : false;
+
+  for await (const part of resp.body as any) {
+    buffer += decoder.decode(part, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+      if (handleLine(line)) return;
+    }
+  }
+  handleLine(buffer.trim());
+}
+
+/** Parse one SSE data payload, ignoring keep-alives and partial garbage */
+function parseEventData(data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+/** Build an error carrying the HTTP status so the retry policy can inspect it */
+async function providerHttpError(
+  provider: string,
+  resp: Response
+): Promise<Error> {
+  let raw: any = null;
+  try {
+    raw = await resp.json();
+  } catch {
+    // Non-JSON error body; fall back to the status line
+  }
+  const errMsg = raw?.error?.message || `${provider} HTTP ${resp.status}`;
+  const err: any = new Error(errMsg);
+  err.status = resp.status;
+  return err;
+}
+
+/**
+ * Basic retry + timeout wrapper around a single provider call.
+ * - Retries transient network errors, aborts and 5xx with exponential backoff
+ * - Never retries once a streamed delta has reached the caller (it would duplicate output)
+ */
+async function withRetries(
+  opts: GenerateOptions,
+  call: (
+    signal: AbortSignal,
+    onDelta: (delta: string) => void
+  ) => Promise<GenerateResult>
+): Promise<GenerateResult> {
   const maxRetries = opts.maxRetries ?? 2;
   const timeoutMs = opts.timeoutMs ?? 120_000;
 
-  const body = {
-    model: opts.model ?? "gpt-4o-mini",
-    messages: [{ role: "user", content: prompt }],
-    temperature: opts.temperature ?? 0.2,
-    max_tokens: opts.maxTokens ?? 1500,
-    response_format: { type: "json_object" }, // Force JSON response
+  let emitted = false;
+  const onDelta = (delta: string) => {
+    emitted = true;
+    opts.onDelta?.(delta);
   };
 
   let attempt = 0;
@@ -630,76 +801,15 @@ async function sendToOpenAI(
     const controller = new AbortController();
     const id = setTimeout(() => controller.abort(), timeoutMs);
     try {
-      const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
-
-      let raw: any;
-      try {
-        raw = await resp.json();
-      } catch (jsonErr) {
-        clearTimeout(id);
-        logError("ai_response_json_parse_failed", {
-          status: resp.status,
-          error: String(jsonErr),
-        });
-        throw new Error(`Failed to parse OpenAI response: ${resp.status}`);
-      }
-
+      const result = await call(controller.signal, onDelta);
       clearTimeout(id);
-      if (!resp.ok) {
-        const errMsg = raw?.error?.message || `OpenAI HTTP ${resp.status}`;
-        const err: any = new Error(errMsg);
-        (err.status as any) = resp.status;
-        throw err;
-      }
-
-      // Compose text from choices if present
-      const text =
-        raw?.choices
-          ?.map((c: any) => c.message?.content ?? c.text)
-          .filter((t: any) => typeof t === "string")
-          .join("\n") ?? null;
-      const tokens = raw?.usage?.total_tokens ?? undefined;
-
-      // Try to parse JSON from text if it looks like JSON
-      let json: unknown = undefined;
-      if (text) {
-        const trimmed = text.trim();
-        if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
-          try {
-            json = JSON.parse(trimmed);
-          } catch (e) {
-            // Try removing markdown code blocks if present
-            try {
-              const cleaned = trimmed
-                .replace(/```json\s*/g, "")
-                .replace(/```\s*/g, "")
-                .trim();
-              json = JSON.parse(cleaned);
-            } catch (e2) {
-              // Not valid JSON, leave json undefined and keep text
-              logInfo("ai_json_parse_failed", {
-                error: String(e),
-                textPreview: trimmed.substring(0, 200),
-              });
-            }
-          }
-        }
-      }
-
-      return { text, json, raw, tokens, meta: { status: resp.status } };
+      return result;
     } catch (err: any) {
       clearTimeout(id);
       const isAbort = err?.name === "AbortError";
       // Retry on transient network / 5xx or abort if out of retries
       const shouldRetry =
+        !emitted &&
         attempt <= maxRetries &&
         (isAbort || err?.status >= 500 || !err?.status);
       if (!shouldRetry) {
@@ -714,38 +824,372 @@ async function sendToOpenAI(
   }
 }
 
-/** Azure provider placeholder (wire in your Azure OpenAI endpoint/headers here) */
+/** Connection details for an OpenAI-style chat.completions endpoint */
+interface ChatCompletionsTarget {
+  /** Provider name used in errors */
+  provider: string;
+  /** Full chat/completions URL */
+  url: string;
+  /** Auth headers (Authorization or api-key) */
+  headers: Record<string, string>;
+  /** Model (or Azure deployment) name */
+  model: string;
+  /** Send response_format json_object (some local servers reject it) */
+  jsonMode: boolean;
+}
+
+/**
+ * chat.completions call shared by OpenAI, Azure OpenAI and OpenAI-compatible servers.
+ * Lightweight and dependency-free (uses fetch via undici/polyfill).
+ */
+async function sendChatCompletions(
+  target: ChatCompletionsTarget,
+  prompt: string,
+  opts: GenerateOptions
+): Promise<GenerateResult> {
+  const body = {
+    model: target.model,
+    messages: [{ role: "user", content: prompt }],
+    temperature: opts.temperature ?? 0.2,
+    max_tokens: opts.maxTokens ?? 1500,
+    ...(target.jsonMode ? { response_format: { type: "json_object" } } : {}), // Force JSON response
+    ...(opts.stream
+      ? { stream: true, stream_options: { include_usage: true } }
+      : {}),
+  };
+
+  return withRetries(opts, async (signal, onDelta) => {
+    const resp = await fetch(target.url, {
+      method: "POST",
+      headers: { ...target.headers, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!resp.ok) throw await providerHttpError(target.provider, resp);
+
+    if (opts.stream) {
+      // Usage arrives in the final chunk when stream_options.include_usage is set
+      let text = "";
+      let tokens: number | undefined;
+      let finishReason: string | undefined;
+      await readEventStream(resp, target.provider, (data) => {
+        if (data === "[DONE]") return true;
+        const chunk = parseEventData(data);
+        const choice = chunk?.choices?.[0];
+        const delta = choice?.delta?.content;
+        if (typeof delta === "string" && delta.length > 0) {
+          text += delta;
+          onDelta(delta);
+        }
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+        if (chunk?.usage?.total_tokens != null) {
+          tokens = chunk.usage.total_tokens;
+        }
+      });
+      return {
+        text,
+        json: parseJsonText(text),
+        raw: { streamed: true, finish_reason: finishReason },
+        tokens,
+        meta: { status: resp.status, streamed: true, model: target.model },
+      };
+    }
+
+    let raw: any;
+    try {
+      raw = await resp.json();
+    } catch (jsonErr) {
+      logError("ai_response_json_parse_failed", {
+        provider: target.provider,
+        status: resp.status,
+        error: String(jsonErr),
+      });
+      throw new Error(
+        `Failed to parse ${target.provider} response: ${resp.status}`
+      );
+    }
+
+    // Compose text from choices if present
+    const text =
+      raw?.choices
+        ?.map((c: any) => c.message?.content ?? c.text)
+        .filter((t: any) => typeof t === "string")
+        .join("\n") ?? null;
+    const tokens = raw?.usage?.total_tokens ?? undefined;
+
+    return {
+      text,
+      json: parseJsonText(text),
+      raw,
+      tokens,
+      meta: { status: resp.status, model: target.model },
+    };
+  });
+}
+
+/** OpenAI (api.openai.com) */
+async function sendToOpenAI(
+  prompt: string,
+  opts: GenerateOptions
+): Promise<GenerateResult> {
+  // Read the API key at call-time so late-loaded env (from index env loader) is respected.
+  // Support common aliases to reduce configuration friction.
+  const apiKey = process.env.AI_API_KEY || process.env.OPENAI_API_KEY || "";
+  if (!apiKey) throw new Error("AI_API_KEY is not set");
+
+  return sendChatCompletions(
+    {
+      provider: "OpenAI",
+      url: "https://api.openai.com/v1/chat/completions",
+      headers: { Authorization: `Bearer ${apiKey}` },
+      model: opts.model ?? "gpt-4o-mini",
+      jsonMode: true,
+    },
+    prompt,
+    opts
+  );
+}
+
+/**
+ * Azure OpenAI Service.
+ * Env: AZURE_OPENAI_ENDPOINT (https://<resource>.openai.azure.com),
+ *      AZURE_OPENAI_API_KEY (falls back to AI_API_KEY),
+ *      AZURE_OPENAI_DEPLOYMENT (falls back to the requested model),
+ *      AZURE_OPENAI_API_VERSION (default 2024-10-21)
+ */
 async function sendToAzureAI(
   prompt: string,
   opts: GenerateOptions
 ): Promise<GenerateResult> {
-  throw new Error("Azure provider not implemented yet");
+  const endpoint = (process.env.AZURE_OPENAI_ENDPOINT ?? "").replace(
+    /\/+$/,
+    ""
+  );
+  if (!endpoint) throw new Error("AZURE_OPENAI_ENDPOINT is not set");
+  const apiKey = process.env.AZURE_OPENAI_API_KEY || process.env.AI_API_KEY;
+  if (!apiKey) throw new Error("AZURE_OPENAI_API_KEY is not set");
+  const deployment = process.env.AZURE_OPENAI_DEPLOYMENT || opts.model;
+  if (!deployment) throw new Error("AZURE_OPENAI_DEPLOYMENT is not set");
+  const apiVersion = process.env.AZURE_OPENAI_API_VERSION || "2024-10-21";
+
+  return sendChatCompletions(
+    {
+      provider: "Azure OpenAI",
+      url: `${endpoint}/openai/deployments/${encodeURIComponent(
+        deployment
+      )}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`,
+      headers: { "api-key": apiKey },
+      model: deployment,
+      jsonMode: true,
+    },
+    prompt,
+    opts
+  );
 }
 
-/** Provider selector */
-function selectProvider(): Provider {
-  if (FAKE_AI || PROVIDER === "mock") return "mock";
-  if (PROVIDER === "openai" || PROVIDER === "azure") return PROVIDER;
+/**
+ * Any server speaking the OpenAI chat.completions protocol (Ollama, vLLM,
+ * LM Studio, llama.cpp, LiteLLM, ...).
+ * Env: AI_BASE_URL (e.g. http://localhost:11434/v1), AI_COMPAT_API_KEY (optional),
+ *      AI_COMPAT_MODEL (falls back to the requested model),
+ *      AI_COMPAT_JSON_MODE=false to omit response_format
+ */
+async function sendToOpenAICompatible(
+  prompt: string,
+  opts: GenerateOptions
+): Promise<GenerateResult> {
+  const baseUrl = (process.env.AI_BASE_URL ?? "").replace(/\/+$/, "");
+  if (!baseUrl) throw new Error("AI_BASE_URL is not set");
+  const model = process.env.AI_COMPAT_MODEL || opts.model;
+  if (!model) throw new Error("AI_COMPAT_MODEL is not set");
+  const apiKey = process.env.AI_COMPAT_API_KEY;
+
+  return sendChatCompletions(
+    {
+      provider: "OpenAI-compatible",
+      url: `${baseUrl}/chat/completions`,
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      model,
+      jsonMode:
+        (process.env.AI_COMPAT_JSON_MODE ?? "true").toLowerCase() !== "false",
+    },
+    prompt,
+    opts
+  );
+}
+
+/**
+ * Anthropic Messages API.
+ * Env: ANTHROPIC_API_KEY (falls back to AI_API_KEY),
+ *      ANTHROPIC_MODEL (used unless the requested model is a Claude model)
+ */
+async function sendToAnthropic(
+  prompt: string,
+  opts: GenerateOptions
+): Promise<GenerateResult> {
+  const apiKey = process.env.ANTHROPIC_API_KEY || process.env.AI_API_KEY;
+  if (!apiKey) throw new Error("ANTHROPIC_API_KEY is not set");
+  // Requested models default to OpenAI names (AI_MODEL); only honor Claude ones
+  const model = opts.model?.startsWith("claude")
+    ? opts.model
+    : process.env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest";
+
+  const body = {
+    model,
+    max_tokens: opts.maxTokens ?? 1500,
+    temperature: opts.temperature ?? 0.2,
+    // No response_format equivalent; ask for bare JSON instead
+    system: "Respond with a single valid JSON object and no other text.",
+    messages: [{ role: "user", content: prompt }],
+    ...(opts.stream ? { stream: true } : {}),
+  };
+
+  return withRetries(opts, async (signal, onDelta) => {
+    const resp = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!resp.ok) throw await providerHttpError("Anthropic", resp);
+
+    if (opts.stream) {
+      let text = "";
+      let inputTokens = 0;
+      let outputTokens = 0;
+      let stopReason: string | undefined;
+      await readEventStream(resp, "Anthropic", (data) => {
+        const event = parseEventData(data);
+        switch (event?.type) {
+          case "message_start":
+            inputTokens = event.message?.usage?.input_tokens ?? 0;
+            break;
+          case "content_block_delta":
+            if (typeof event.delta?.text === "string") {
+              text += event.delta.text;
+              onDelta(event.delta.text);
+            }
+            break;
+          case "message_delta":
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+            stopReason = event.delta?.stop_reason ?? stopReason;
+            break;
+          case "message_stop":
+            return true;
+        }
+      });
+      return {
+        text,
+        json: parseJsonText(text),
+        raw: { streamed: true, stop_reason: stopReason },
+        tokens: inputTokens + outputTokens || undefined,
+        meta: { status: resp.status, streamed: true, model },
+      };
+    }
+
+    const raw: any = await resp.json();
+    const text =
+      raw?.content
+        ?.filter((block: any) => block?.type === "text")
+        .map((block: any) => block.text)
+        .join("\n") ?? null;
+    const usage = raw?.usage;
+    const tokens = usage
+      ? (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0)
+      : undefined;
+
+    return {
+      text,
+      json: parseJsonText(text),
+      raw,
+      tokens,
+      meta: { status: resp.status, model },
+    };
+  });
+}
+
+// ---------------------------------------------------------------------
+// Provider registry
+// ---------------------------------------------------------------------
+
+/**
+ * A provider adapter sends one prompt and returns a normalized GenerateResult.
+ * `kind` is passed through for adapters that shape output per kind (mock).
+ */
+export type ProviderAdapter = (
+  prompt: string,
+  opts: GenerateOptions,
+  kind: string
+) => Promise<GenerateResult>;
+
+const providers = new Map<string, ProviderAdapter>([
+  ["openai", sendToOpenAI],
+  ["azure", sendToAzureAI],
+  ["anthropic", sendToAnthropic],
+  ["openai-compatible", sendToOpenAICompatible],
+  ["mock", sendToMock],
+  ["replay", sendToReplay],
+]);
+
+/** Register (or replace) a provider adapter under a name usable in AI_PROVIDER* config */
+export function registerProvider(name: string, adapter: ProviderAdapter): void {
+  providers.set(name.trim().toLowerCase(), adapter);
+}
+
+/** Names of all registered providers */
+export function listProviders(): string[] {
+  return [...providers.keys()];
+}
+
+/** Env var holding the per-kind provider override, e.g. cover_letter → AI_PROVIDER_COVER_LETTER */
+function providerEnvKey(kind: string): string {
+  return `AI_PROVIDER_${kind.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}`;
+}
+
+/**
+ * Provider selector
+ * Order: AI_FIXTURE_MODE=replay → replay; FAKE_AI=true → mock; AI_PROVIDER_<KIND>;
+ * AI_PROVIDER; "openai".
+ * Read at call-time so late-loaded env is respected.
+ */
+export function selectProvider(kind: string): string {
+  if (getFixtureMode() === "replay") return "replay";
+  if ((process.env.FAKE_AI ?? "false").toLowerCase() === "true") return "mock";
+  const configured = (
+    process.env[providerEnvKey(kind)] ||
+    process.env.AI_PROVIDER ||
+    "openai"
+  )
+    .trim()
+    .toLowerCase();
+  if (providers.has(configured)) return configured;
+  logError("ai_provider_unknown", { kind, provider: configured });
   return "openai"; // default
 }
 
 /**
  * Generate content for a given kind using the selected provider.
- * - kind: used to decide mock shape and can be used in future provider routing
+ * - kind: used to decide mock shape and per-kind provider routing
  * - prompt: the constructed instruction/payload
+ * - opts.schema: validate the JSON result, re-prompting with the errors when invalid
  */
-export async function generate(
+export async function generate<T = unknown>(
   kind: string,
   prompt: string,
   opts: GenerateOptions = {}
-): Promise<GenerateResult> {
+): Promise<GenerateResult<T>> {
   if (!prompt || typeof prompt !== "string" || prompt.trim().length < 10) {
     throw new Error("prompt too short or invalid");
   }
   if (prompt.length > 20000) {
     throw new Error("prompt exceeds maximum length (20k chars)");
   }
-  const provider = selectProvider();
+  const provider = selectProvider(kind);
+  const adapter = providers.get(provider);
   logInfo("ai_generate_start", {
     kind,
     provider,
@@ -753,39 +1197,88 @@ export async function generate(
     len: prompt.length,
   });
   try {
-    if (provider === "mock") {
-      const mockResult = randomSampleForKind(kind);
-      // Add metadata to indicate mock data was used
-      return {
-        ...mockResult,
-        meta: {
-          ...("meta" in mockResult && mockResult.meta ? mockResult.meta : {}),
-          isMockData: true,
-          provider: "mock",
-        },
-      };
-    }
-    if (provider === "openai") {
-      const r = await sendToOpenAI(prompt, opts);
-      logInfo("ai_generate_ok", {
+    if (!adapter) throw new Error("Unsupported AI provider: " + provider);
+
+    const call = async (text: string, callOpts: GenerateOptions) => {
+      const started = Date.now();
+      let r: GenerateResult;
+      try {
+        r = await adapter(text, callOpts, kind);
+      } catch (e) {
+        recordAiCall({
+          kind,
+          provider,
+          duration_ms: Date.now() - started,
+          ok: false,
+        });
+        throw e;
+      }
+      recordAiCall({
         kind,
         provider,
+        duration_ms: Date.now() - started,
+        ok: true,
         tokens: r.tokens,
-        model: opts.model,
       });
+      if (provider !== "mock" && provider !== "replay") {
+        const model =
+          typeof r.meta?.model === "string" ? r.meta.model : opts.model;
+        logInfo("ai_generate_ok", {
+          kind,
+          provider,
+          tokens: r.tokens,
+          model,
+        });
+        void recordUsage({ kind, provider, model, tokens: r.tokens });
+        if (getFixtureMode() === "record") {
+          // Recording must never fail the generation itself
+          await recordFixture(kind, text, r, { provider, model }).catch((e) =>
+            logError("ai_fixture_record_failed", {
+              kind,
+              error: e?.message ?? String(e),
+            })
+          );
+        }
+      }
       return r;
-    }
-    if (provider === "azure") {
-      const r = await sendToAzureAI(prompt, opts);
-      logInfo("ai_generate_ok", {
-        kind,
-        provider,
-        tokens: r.tokens,
-        model: opts.model,
+    };
+
+    let r = await call(prompt, opts);
+    // Every result reports which provider produced it
+    let meta: Record<string, unknown> = { ...(r.meta ?? {}), provider };
+
+    if (!opts.schema) return { ...r, meta } as GenerateResult<T>;
+    if (provider === "mock") return { ...r, meta, data: r.json as T };
+
+    const maxRepairs =
+      opts.repairAttempts ?? Number(process.env.AI_REPAIR_ATTEMPTS ?? 1);
+    let errors = outputErrors(opts.schema, r);
+    let repairs = 0;
+    while (errors.length > 0 && repairs < maxRepairs) {
+      repairs++;
+      logInfo("ai_output_repair", { kind, provider, attempt: repairs, errors });
+      const repairPrompt = buildRepairPrompt({
+        originalPrompt: prompt,
+        errors,
+        previousText: r.text ?? JSON.stringify(r.json ?? null),
+        schema: opts.schema,
       });
-      return r;
+      // Repairs are never streamed: the caller already received the first attempt's deltas
+      r = await call(repairPrompt, {
+        ...opts,
+        stream: false,
+        onDelta: undefined,
+        temperature: 0,
+      });
+      errors = outputErrors(opts.schema, r);
     }
-    throw new Error("Unsupported AI provider: " + provider);
+    if (errors.length > 0) {
+      throw new AiOutputError(kind, errors, repairs + 1);
+    }
+
+    meta = { ...(r.meta ?? {}), provider };
+    if (repairs > 0) meta.repairs = repairs;
+    return { ...r, meta, data: r.json as T };
   } catch (e: any) {
     logError("ai_generate_error", {
       kind,
@@ -797,4 +1290,11 @@ export async function generate(
   }
 }
 
+function outputErrors(schema: OutputSchema, r: GenerateResult): string[] {
+  if (r.json === undefined || r.json === null) {
+    return ["$: response was not valid JSON"];
+  }
+  return validateOutput(schema, r.json);
+}
+
 export default { generate };
@@ -0,0 +1,154 @@
+/**
+ * AI FIXTURES (record / replay)
+ *
+ * Saves real provider responses to JSON files and serves them back offline, so
+ * local QA sees realistic output and orchestrator flows can be regression-tested
+ * without network access or provider cost.
+ *
+ * Modes (AI_FIXTURE_MODE, read per call):
+ * - off (default): fixtures are not touched
+ * - record: every successful non-mock provider call is written to
+ *   <AI_FIXTURE_DIR>/<kind>/<promptHash>.json (existing files are overwritten)
+ * - replay: aiClient routes every call to the "replay" provider, which serves the
+ *   fixture for the same kind + prompt hash and never calls the network
+ *
+ * Matching in replay (AI_FIXTURE_MATCH):
+ * - exact (default): the prompt hash must match; a missing fixture throws
+ *   AiFixtureMissingError (code "ai_fixture_missing") naming the expected file
+ * - kind: fall back to a recorded fixture of the same kind, picked by prompt hash,
+ *   so different inputs still get varied but stable responses
+ *
+ * Fixtures hold the generated content (which may include profile details) and a
+ * short prompt preview. Review them before committing.
+ *
+ * Exports:
+ * - getFixtureMode / getFixtureDir / promptHash / fixturePath
+ * - recordFixture: write a provider result
+ * - loadFixture: read the result for a kind + prompt (respecting AI_FIXTURE_MATCH)
+ * - AiFixtureMissingError
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import type { GenerateResult } from "./aiClient.js";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+/** On-disk fixture format */
+export interface AiFixture {
+  kind: string;
+  promptHash: string;
+  /** First 200 chars of the prompt, to tell fixtures apart when reviewing */
+  promptPreview: string;
+  provider: string;
+  model?: string;
+  recordedAt: string;
+  result: Pick<GenerateResult, "text" | "json" | "tokens" | "meta">;
+}
+
+/** Thrown in replay mode when no fixture exists for a prompt */
+export class AiFixtureMissingError extends Error {
+  readonly code = "ai_fixture_missing";
+
+  constructor(
+    public readonly kind: string,
+    public readonly file: string
+  ) {
+    super(
+      `No AI fixture for ${kind} (expected ${file}); record it with AI_FIXTURE_MODE=record`
+    );
+    this.name = "AiFixtureMissingError";
+  }
+}
+
+export function getFixtureMode(): FixtureMode {
+  const mode = (process.env.AI_FIXTURE_MODE ?? "off").trim().toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+/** AI_FIXTURE_DIR, relative to the working directory (default fixtures/ai) */
+export function getFixtureDir(): string {
+  return path.resolve(
+    process.cwd(),
+    process.env.AI_FIXTURE_DIR || "fixtures/ai"
+  );
+}
+
+/** Stable 16-char hash of the prompt text (whitespace at the ends ignored) */
+export function promptHash(prompt: string): string {
+  return createHash("sha256").update(prompt.trim()).digest("hex").slice(0, 16);
+}
+
+/** Kind names become directory names; keep them filesystem-safe */
+function kindDir(kind: string): string {
+  return path.join(getFixtureDir(), kind.replace(/[^a-zA-Z0-9_-]+/g, "_"));
+}
+
+export function fixturePath(kind: string, prompt: string): string {
+  return path.join(kindDir(kind), `${promptHash(prompt)}.json`);
+}
+
+/** Write a provider result; returns the file path */
+export async function recordFixture(
+  kind: string,
+  prompt: string,
+  result: GenerateResult,
+  info: { provider: string; model?: string }
+): Promise<string> {
+  const file = fixturePath(kind, prompt);
+  const fixture: AiFixture = {
+    kind,
+    promptHash: promptHash(prompt),
+    promptPreview: prompt.trim().slice(0, 200),
+    provider: info.provider,
+    model: info.model,
+    recordedAt: new Date().toISOString(),
+    // raw provider payloads are left out: large and not needed to replay
+    result: {
+      text: result.text ?? null,
+      json: result.json ?? null,
+      tokens: result.tokens,
+      meta: result.meta,
+    },
+  };
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fixture, null, 2) + "\n", "utf8");
+  return file;
+}
+
+async function readFixture(file: string): Promise<AiFixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as AiFixture;
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+/**
+ * Fixture for a kind + prompt.
+ * Throws AiFixtureMissingError when nothing matches.
+ */
+export async function loadFixture(
+  kind: string,
+  prompt: string
+): Promise<AiFixture & { file: string }> {
+  const file = fixturePath(kind, prompt);
+  const exact = await readFixture(file);
+  if (exact) return { ...exact, file };
+
+  if ((process.env.AI_FIXTURE_MATCH ?? "exact").toLowerCase() === "kind") {
+    const names = await fs.readdir(kindDir(kind)).catch(() => [] as string[]);
+    const candidates = names.filter((n) => n.endsWith(".json")).sort();
+    if (candidates.length > 0) {
+      const index =
+        parseInt(promptHash(prompt).slice(0, 8), 16) % candidates.length;
+      const fallback = path.join(kindDir(kind), candidates[index]);
+      const fixture = await readFixture(fallback);
+      if (fixture) return { ...fixture, file: fallback };
+    }
+  }
+
+  throw new AiFixtureMissingError(kind, file);
+}
@@ -0,0 +1,406 @@
+/**
+ * AI OUTPUT SCHEMAS
+ *
+ * Declared JSON shapes for AI generation kinds, plus a small validator.
+ *
+ * Flow:
+ * - Callers pass `schema: outputSchemas[kind]` to aiClient.generate
+ * - generate validates the parsed JSON; when it does not match, it re-prompts the
+ *   provider with the validation errors (buildRepairPrompt) up to `repairAttempts` times
+ * - The validated object is returned as `result.data`; if every attempt fails,
+ *   generate throws AiOutputError (code "ai_invalid_output") with the errors
+ *
+ * Schemas are a JSON Schema subset (type, properties, required, items, enum,
+ * minimum/maximum, minItems, anyOf). Keep them to what callers actually rely on:
+ * anything stricter than the post-processing needs only causes extra repair calls.
+ *
+ * Exports:
+ * - OutputSchema: schema type
+ * - validateOutput(schema, value): list of "$.path: problem" errors (empty = valid)
+ * - outputSchemas / registerOutputSchema / getOutputSchema: per-kind registry
+ * - buildRepairPrompt: re-prompt sent after a validation failure
+ * - AiOutputError: thrown when output still fails validation after repairs
+ */
+
+export interface OutputSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  /** Human-readable hint included in repair prompts */
+  description?: string;
+  properties?: Record<string, OutputSchema>;
+  required?: string[];
+  items?: OutputSchema;
+  minItems?: number;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  /** Valid when at least one branch matches */
+  anyOf?: OutputSchema[];
+}
+
+/** Thrown by aiClient.generate when output fails its schema after all repair attempts */
+export class AiOutputError extends Error {
+  readonly code = "ai_invalid_output";
+
+  constructor(
+    public readonly kind: string,
+    public readonly errors: string[],
+    public readonly attempts: number
+  ) {
+    super(
+      `AI returned invalid ${kind} output after ${attempts} attempt(s): ${errors
+        .slice(0, 3)
+        .join("; ")}`
+    );
+    this.name = "AiOutputError";
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(type: OutputSchema["type"], value: unknown): boolean {
+  switch (type) {
+    case "object":
+      return typeOf(value) === "object";
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validate a value against a schema.
+ * Returns every problem found (capped at 20) as "$.path: message".
+ */
+export function validateOutput(
+  schema: OutputSchema,
+  value: unknown,
+  path = "$"
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    return [`${path}: expected ${schema.type}, got ${typeOf(value)}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined || obj[key] === null) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, child] of Object.entries(schema.properties ?? {})) {
+      if (obj[key] === undefined || obj[key] === null) continue;
+      errors.push(...validateOutput(child, obj[key], `${path}.${key}`));
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => {
+        errors.push(...validateOutput(schema.items!, item, `${path}[${i}]`));
+      });
+    }
+  }
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map((branch) =>
+      validateOutput(branch, value, path)
+    );
+    if (branches.every((branchErrors) => branchErrors.length > 0)) {
+      errors.push(...branches[0]);
+    }
+  }
+
+  return errors.slice(0, 20);
+}
+
+// ============================================================================
+// Schemas per kind
+// ============================================================================
+
+const stringArray: OutputSchema = { type: "array", items: { type: "string" } };
+const score: OutputSchema = { type: "number", minimum: 0, maximum: 100 };
+
+export const outputSchemas: Record<string, OutputSchema> = {
+  resume: {
+    type: "object",
+    required: ["summary", "ordered_skills"],
+    properties: {
+      summary: { type: "string" },
+      ordered_skills: stringArray,
+      emphasize_skills: stringArray,
+      add_skills: stringArray,
+      ats_keywords: stringArray,
+      score,
+      sections: {
+        type: "object",
+        properties: {
+          experience: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["bullets"],
+              properties: { bullets: stringArray },
+            },
+          },
+          education: { type: "array", items: { type: "object" } },
+          projects: {
+            type: "array",
+            items: { type: "object", properties: { bullets: stringArray } },
+          },
+        },
+      },
+    },
+  },
+
+  cover_letter: {
+    type: "object",
+    required: ["sections"],
+    properties: {
+      sections: {
+        type: "object",
+        required: ["opening", "body", "closing"],
+        properties: {
+          opening: { type: "string" },
+          body: { ...stringArray, minItems: 1 },
+          closing: { type: "string" },
+        },
+      },
+      metadata: { type: "object" },
+    },
+  },
+
+  skills_optimization: {
+    type: "object",
+    required: ["emphasize", "add", "order"],
+    properties: {
+      emphasize: stringArray,
+      add: stringArray,
+      order: stringArray,
+      categories: {
+        type: "object",
+        properties: { technical: stringArray, soft: stringArray },
+      },
+      gaps: stringArray,
+      score,
+    },
+  },
+
+  experience_tailoring: {
+    type: "object",
+    required: ["roles"],
+    properties: {
+      roles: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["tailored_bullets"],
+          properties: { tailored_bullets: stringArray, relevance_score: score },
+        },
+      },
+      overall: {
+        type: "object",
+        properties: { keywords: stringArray, global_score: score },
+      },
+    },
+  },
+
+  company_research: {
+    type: "object",
+    description: "company name in name, companyName or company_name",
+    anyOf: [
+      {
+        required: ["companyName"],
+        properties: { companyName: { type: "string" } },
+      },
+      {
+        required: ["company_name"],
+        properties: { company_name: { type: "string" } },
+      },
+      { required: ["name"], properties: { name: { type: "string" } } },
+    ],
+  },
+
+  "job-match": {
+    type: "object",
+    required: ["matchScore", "breakdown"],
+    properties: {
+      matchScore: score,
+      breakdown: {
+        type: "object",
+        properties: {
+          skills: score,
+          experience: score,
+          education: score,
+          culturalFit: score,
+        },
+      },
+      skillsGaps: stringArray,
+      strengths: stringArray,
+      recommendations: stringArray,
+      reasoning: { type: "string" },
+    },
+  },
+
+  interview_questions: {
+    type: "object",
+    required: ["questions"],
+    properties: {
+      questions: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          required: ["text"],
+          properties: {
+            text: { type: "string" },
+            category: { type: "string" },
+            difficulty: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+
+  "job-prediction": {
+    type: "object",
+    required: ["predictions"],
+    properties: {
+      predictions: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          required: ["kind", "score"],
+          properties: {
+            kind: { type: "string" },
+            score: { type: "number" },
+            confidence: { type: "number", minimum: 0, maximum: 1 },
+            recommendations: stringArray,
+          },
+        },
+      },
+    },
+  },
+
+  resume_import: {
+    type: "object",
+    required: ["entries"],
+    properties: {
+      entries: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["id", "fields"],
+          properties: {
+            id: { type: "string" },
+            fields: { type: "object" },
+          },
+        },
+      },
+      blocks: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["id", "section"],
+          properties: {
+            id: { type: "string" },
+            section: {
+              type: "string",
+              enum: [
+                "employment",
+                "education",
+                "skills",
+                "projects",
+                "certifications",
+                "none",
+              ],
+            },
+          },
+        },
+      },
+    },
+  },
+
+  github_project: {
+    type: "object",
+    required: ["description"],
+    properties: {
+      description: { type: "string" },
+      highlights: stringArray,
+    },
+  },
+};
+
+/** Declare (or replace) the output schema for a kind */
+export function registerOutputSchema(kind: string, schema: OutputSchema) {
+  outputSchemas[kind] = schema;
+}
+
+export function getOutputSchema(kind: string): OutputSchema | undefined {
+  return outputSchemas[kind];
+}
+
+// ============================================================================
+// Repair prompt
+// ============================================================================
+
+const MAX_REPAIR_PROMPT_CHARS = 19_500;
+
+/**
+ * Follow-up prompt sent after a response fails validation.
+ * Includes the errors, a preview of the bad response and the original instructions
+ * so the provider can regenerate without conversation state.
+ */
+export function buildRepairPrompt(params: {
+  originalPrompt: string;
+  errors: string[];
+  previousText?: string | null;
+  schema: OutputSchema;
+}): string {
+  const preview = String(params.previousText ?? "").slice(0, 1500);
+  const head = [
+    "The previous response failed validation.",
+    "Return ONLY corrected JSON (no markdown, no prose) that fixes every error below.",
+    "Validation errors:",
+    ...params.errors.map((e) => `- ${e}`),
+    "Required JSON schema:",
+    JSON.stringify(params.schema),
+    "Previous response:",
+    preview || "(empty or not JSON)",
+    "Original instructions:",
+  ].join("\n");
+  // Stay under generate()'s 20k prompt limit
+  const room = Math.max(0, MAX_REPAIR_PROMPT_CHARS - head.length - 1);
+  return `${head}\n${params.originalPrompt.slice(0, room)}`;
+}
@@ -0,0 +1,469 @@
+/**
+ * AI Usage Service
+ *
+ * Per-user AI token ledger, cost estimates and quota enforcement
+ *
+ * Flow:
+ * 1. server.ts authenticates POST /api/generate/* and calls checkQuota (429 when over budget)
+ * 2. It then binds a usage context (userId, route, reqId) to the request with enterUsageContext
+ * 3. aiClient.generate calls recordUsage after each successful provider call; the
+ *    context tells it which user to charge, so individual routes need no changes
+ *
+ * Limits (0 or unset = unlimited), overridable per user in ai_usage_quotas:
+ * - AI_DAILY_TOKEN_LIMIT, AI_MONTHLY_TOKEN_LIMIT, AI_MONTHLY_COST_LIMIT_USD
+ * Days and months are UTC.
+ *
+ * Functions:
+ * - enterUsageContext / getUsageContext: request-scoped user for ledger writes
+ * - runWithUsageContext: same for background jobs (services/jobQueueService.ts)
+ * - estimateCostUsd: blended per-model cost estimate from total tokens
+ * - recordUsage: insert an ai_usage_ledger row (never throws)
+ * - getUsageSummary: today / this month totals, limits and per-kind breakdown
+ * - checkQuota: { ok } or the exceeded limit with a retry-after
+ * - getTeamSpend: per-team, per-member spend for teams the caller administers
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { ApiError } from "../../utils/errors.js";
+import { legacyLogError as logError } from "../../utils/logger.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UsageContext {
+  userId: string;
+  route?: string;
+  reqId?: string;
+}
+
+export interface UsageEntry {
+  kind: string;
+  provider: string;
+  model?: string | null;
+  tokens?: number | null;
+}
+
+export interface UsageLimits {
+  dailyTokens: number | null;
+  monthlyTokens: number | null;
+  monthlyCostUsd: number | null;
+}
+
+export interface UsageTotals {
+  generations: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface AiUsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  limits: UsageLimits;
+  byKind: Array<UsageTotals & { kind: string }>;
+  /** Next UTC midnight / first of next month */
+  resetsAt: { daily: string; monthly: string };
+}
+
+export type QuotaPeriod = "daily" | "monthly";
+
+export type QuotaCheck =
+  | { ok: true }
+  | {
+      ok: false;
+      message: string;
+      retryAfterSec: number;
+      details: {
+        period: QuotaPeriod;
+        metric: "tokens" | "cost_usd";
+        limit: number;
+        used: number;
+        resets_at: string;
+      };
+    };
+
+export interface TeamMemberSpend {
+  userId: string;
+  fullName: string | null;
+  generations: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface TeamSpend {
+  teamId: string;
+  teamName: string;
+  generations: number;
+  tokens: number;
+  costUsd: number;
+  members: TeamMemberSpend[];
+}
+
+// ============================================================================
+// Request context
+// ============================================================================
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+/** Attribute AI calls made during the rest of this request to a user */
+export function enterUsageContext(context: UsageContext): void {
+  usageContext.enterWith(context);
+}
+
+/** Attribute AI calls made inside fn to a user (work outside a request) */
+export function runWithUsageContext<T>(
+  context: UsageContext,
+  fn: () => Promise<T>
+): Promise<T> {
+  return usageContext.run(context, fn);
+}
+
+export function getUsageContext(): UsageContext | undefined {
+  return usageContext.getStore();
+}
+
+// ============================================================================
+// Cost estimates
+// ============================================================================
+
+/**
+ * Blended USD per 1M tokens (input/output weighted roughly 3:1, matching our
+ * prompt-heavy generations). Matched by longest model-name prefix.
+ */
+export const MODEL_PRICING_PER_MILLION: Record<string, number> = {
+  "gpt-4o-mini": 0.3,
+  "gpt-4o": 4.4,
+  "gpt-4.1-nano": 0.18,
+  "gpt-4.1-mini": 0.7,
+  "gpt-4.1": 3.5,
+  "gpt-4-turbo": 15,
+  "gpt-3.5-turbo": 0.9,
+  "claude-3-5-haiku": 1.6,
+  "claude-3-haiku": 0.5,
+  "claude-3-5-sonnet": 6,
+  "claude-sonnet": 6,
+  "claude-3-opus": 30,
+};
+
+/** Estimated cost of a call; unknown models use AI_DEFAULT_COST_PER_1M_TOKENS (default 0) */
+export function estimateCostUsd(
+  model: string | null | undefined,
+  tokens: number
+): number {
+  const name = (model ?? "").toLowerCase();
+  const match = Object.keys(MODEL_PRICING_PER_MILLION)
+    .filter((prefix) => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  const rate = match
+    ? MODEL_PRICING_PER_MILLION[match]
+    : Number(process.env.AI_DEFAULT_COST_PER_1M_TOKENS ?? 0) || 0;
+  return Math.round(((tokens * rate) / 1_000_000) * 1e6) / 1e6;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function envLimit(name: string): number | null {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/** 0 in an override means unlimited; null falls back to the default */
+function pickLimit(
+  override: number | string | null | undefined,
+  fallback: number | null
+): number | null {
+  if (override === null || override === undefined) return fallback;
+  const value = Number(override);
+  return value > 0 ? value : null;
+}
+
+function periodStarts(now: Date) {
+  const day = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const nextDay = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+  const nextMonth = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+  );
+  return { day, month, nextDay, nextMonth };
+}
+
+function emptyTotals(): UsageTotals {
+  return { generations: 0, tokens: 0, costUsd: 0 };
+}
+
+function addTo(totals: UsageTotals, tokens: number, cost: number): void {
+  totals.generations += 1;
+  totals.tokens += tokens;
+  totals.costUsd = Math.round((totals.costUsd + cost) * 1e6) / 1e6;
+}
+
+async function getLimits(userId: string): Promise<UsageLimits> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("ai_usage_quotas")
+    .select("daily_token_limit, monthly_token_limit, monthly_cost_limit_usd")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+
+  return {
+    dailyTokens: pickLimit(
+      data?.daily_token_limit,
+      envLimit("AI_DAILY_TOKEN_LIMIT")
+    ),
+    monthlyTokens: pickLimit(
+      data?.monthly_token_limit,
+      envLimit("AI_MONTHLY_TOKEN_LIMIT")
+    ),
+    monthlyCostUsd: pickLimit(
+      data?.monthly_cost_limit_usd,
+      envLimit("AI_MONTHLY_COST_LIMIT_USD")
+    ),
+  };
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+/**
+ * Record one generation for the user in the current usage context.
+ * No-op outside a context (background jobs, scripts); failures are logged, not thrown,
+ * so a ledger outage never fails a generation that already succeeded.
+ */
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  const context = getUsageContext();
+  if (!context?.userId) return;
+
+  const tokens = Math.max(0, Math.round(entry.tokens ?? 0));
+  try {
+    const supabase = await getSupabaseAdmin();
+    const { error } = await supabase.from("ai_usage_ledger").insert({
+      user_id: context.userId,
+      kind: entry.kind,
+      provider: entry.provider,
+      model: entry.model ?? null,
+      route: context.route ?? null,
+      request_id: context.reqId ?? null,
+      tokens,
+      estimated_cost_usd: estimateCostUsd(entry.model, tokens),
+    });
+    if (error) throw new Error(error.message);
+  } catch (e: any) {
+    logError("ai_usage_record_failed", {
+      userId: context.userId,
+      kind: entry.kind,
+      error: e?.message ?? String(e),
+    });
+  }
+}
+
+/** Usage for today and this month (UTC) with the user's effective limits */
+export async function getUsageSummary(
+  userId: string,
+  now: Date = new Date()
+): Promise<AiUsageSummary> {
+  const { day, month, nextDay, nextMonth } = periodStarts(now);
+  const supabase = await getSupabaseAdmin();
+
+  const [{ data, error }, limits] = await Promise.all([
+    supabase
+      .from("ai_usage_ledger")
+      .select("kind, tokens, estimated_cost_usd, created_at")
+      .eq("user_id", userId)
+      .gte("created_at", month.toISOString()),
+    getLimits(userId),
+  ]);
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  const today = emptyTotals();
+  const monthTotals = emptyTotals();
+  const byKind = new Map<string, UsageTotals>();
+
+  for (const row of data ?? []) {
+    const tokens = Number(row.tokens) || 0;
+    const cost = Number(row.estimated_cost_usd) || 0;
+    addTo(monthTotals, tokens, cost);
+    if (new Date(row.created_at) >= day) addTo(today, tokens, cost);
+    if (!byKind.has(row.kind)) byKind.set(row.kind, emptyTotals());
+    addTo(byKind.get(row.kind)!, tokens, cost);
+  }
+
+  return {
+    today,
+    month: monthTotals,
+    limits,
+    byKind: [...byKind.entries()]
+      .map(([kind, totals]) => ({ kind, ...totals }))
+      .sort((a, b) => b.tokens - a.tokens),
+    resetsAt: {
+      daily: nextDay.toISOString(),
+      monthly: nextMonth.toISOString(),
+    },
+  };
+}
+
+/**
+ * Compare the user's usage to their limits.
+ * Fails open (ok) when the ledger cannot be read so a database hiccup does not
+ * block generation.
+ */
+export async function checkQuota(
+  userId: string,
+  now: Date = new Date()
+): Promise<QuotaCheck> {
+  let summary: AiUsageSummary;
+  try {
+    summary = await getUsageSummary(userId, now);
+  } catch (e: any) {
+    logError("ai_quota_check_failed", { userId, error: e?.message });
+    return { ok: true };
+  }
+
+  const { limits, today, month, resetsAt } = summary;
+  const checks: Array<{
+    period: QuotaPeriod;
+    metric: "tokens" | "cost_usd";
+    limit: number | null;
+    used: number;
+    label: string;
+  }> = [
+    {
+      period: "daily",
+      metric: "tokens",
+      limit: limits.dailyTokens,
+      used: today.tokens,
+      label: "Daily AI token limit",
+    },
+    {
+      period: "monthly",
+      metric: "tokens",
+      limit: limits.monthlyTokens,
+      used: month.tokens,
+      label: "Monthly AI token limit",
+    },
+    {
+      period: "monthly",
+      metric: "cost_usd",
+      limit: limits.monthlyCostUsd,
+      used: month.costUsd,
+      label: "Monthly AI spend limit",
+    },
+  ];
+
+  const exceeded = checks.find((c) => c.limit !== null && c.used >= c.limit);
+  if (!exceeded) return { ok: true };
+
+  const resets_at =
+    exceeded.period === "daily" ? resetsAt.daily : resetsAt.monthly;
+  return {
+    ok: false,
+    message: `${exceeded.label} reached (${exceeded.used} of ${exceeded.limit}). Resets at ${resets_at}.`,
+    retryAfterSec: Math.max(
+      1,
+      Math.ceil((new Date(resets_at).getTime() - now.getTime()) / 1000)
+    ),
+    details: {
+      period: exceeded.period,
+      metric: exceeded.metric,
+      limit: exceeded.limit!,
+      used: exceeded.used,
+      resets_at,
+    },
+  };
+}
+
+// ============================================================================
+// Team spend (admin view)
+// ============================================================================
+
+/**
+ * Spend per team and member since `days` ago, for teams where the caller is an admin
+ */
+export async function getTeamSpend(
+  userId: string,
+  days: number = 30,
+  now: Date = new Date()
+): Promise<{ since: string; teams: TeamSpend[] }> {
+  const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const supabase = await getSupabaseAdmin();
+
+  const { data: memberships, error: membershipError } = await supabase
+    .from("team_members")
+    .select("team_id, teams(name)")
+    .eq("user_id", userId)
+    .eq("role", "admin")
+    .eq("is_active", true);
+  if (membershipError) {
+    throw new ApiError(500, membershipError.message, "db_error");
+  }
+  if (!memberships?.length) {
+    throw new ApiError(
+      403,
+      "Only team admins can view team AI spend",
+      "forbidden"
+    );
+  }
+
+  const teamIds = memberships.map((m: any) => m.team_id as string);
+  const { data: rows, error } = await supabase.rpc("get_team_ai_spend", {
+    p_team_ids: teamIds,
+    p_since: since.toISOString(),
+  });
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  const teams = new Map<string, TeamSpend>(
+    memberships.map((m: any) => [
+      m.team_id,
+      {
+        teamId: m.team_id,
+        teamName: m.teams?.name ?? "Team",
+        generations: 0,
+        tokens: 0,
+        costUsd: 0,
+        members: [],
+      },
+    ])
+  );
+
+  for (const row of rows ?? []) {
+    const team = teams.get(row.team_id);
+    if (!team) continue;
+    const member: TeamMemberSpend = {
+      userId: row.user_id,
+      fullName: row.full_name ?? null,
+      generations: Number(row.generations) || 0,
+      tokens: Number(row.tokens) || 0,
+      costUsd: Number(row.estimated_cost_usd) || 0,
+    };
+    team.members.push(member);
+    team.generations += member.generations;
+    team.tokens += member.tokens;
+    team.costUsd = Math.round((team.costUsd + member.costUsd) * 1e6) / 1e6;
+  }
+
+  for (const team of teams.values()) {
+    team.members.sort((a, b) => b.costUsd - a.costUsd || b.tokens - a.tokens);
+  }
+
+  return {
+    since: since.toISOString(),
+    teams: [...teams.values()].sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
@@ -0,0 +1,834 @@
+/**
+ * ATS KEYWORD ANALYZER
+ *
+ * Deterministic resume-vs-job-description match for a document version
+ * (stored by atsScoreService in document_versions.ats_score / ats_analysis).
+ * No AI is called: the same resume content, job and template always give the
+ * same result. Bump ATS_ANALYZER_VERSION when the rules or vocabulary change
+ * so stored scores can be told apart.
+ *
+ * Keywords:
+ * - jobs.required_skills / preferred_skills, plus vocabulary terms found in
+ *   the description. Description lines under "Preferred" / "Nice to have"
+ *   headings, or that say "a plus" / "bonus", are preferred; benefits and
+ *   company blurbs are skipped; everything else is required.
+ * - Matching uses the synonym table (k8s = Kubernetes) and light suffix
+ *   stemming (managed / managing / management), per resume section.
+ *
+ * Score (0-100):
+ * - 60 required coverage + 15 preferred coverage (all 75 on required when the
+ *   job lists no preferred keywords)
+ * - 10 for required keywords backed by experience, projects or summary
+ *   rather than only the skills list
+ * - 15 structure: contact details, experience, education, skills
+ * - minus formatting risks (tables, images, multi-column layout,
+ *   headers/footers)
+ */
+
+export const ATS_ANALYZER_VERSION = 1;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AtsSection =
+  | "header"
+  | "summary"
+  | "experience"
+  | "education"
+  | "skills"
+  | "projects"
+  | "certifications"
+  | "other";
+
+export type KeywordImportance = "required" | "preferred";
+
+/** jobs row columns the analyzer reads */
+export interface AtsJobInput {
+  job_title?: string | null;
+  job_description?: string | null;
+  required_skills?: string[] | null;
+  preferred_skills?: string[] | null;
+}
+
+/** templates row columns the analyzer reads (layout / features jsonb) */
+export interface AtsTemplateInput {
+  layout?: {
+    columns?: number;
+    headerFooter?: {
+      showHeader?: boolean;
+      showFooter?: boolean;
+      headerContent?: string;
+      footerContent?: string;
+    };
+  } | null;
+}
+
+export interface AtsKeyword {
+  /** Display form (canonical vocabulary name or the job's wording) */
+  term: string;
+  importance: KeywordImportance;
+  matched: boolean;
+  /** Resume sections the keyword appears in */
+  sections: AtsSection[];
+  /** Occurrences across the resume */
+  count: number;
+  /** Resume wording when it differs from the term (synonym or stem) */
+  matchedAs?: string;
+}
+
+export type FormattingRiskKind =
+  "table" | "image" | "multi_column" | "header_footer";
+
+export interface AtsFormattingRisk {
+  kind: FormattingRiskKind;
+  severity: "high" | "medium" | "low";
+  message: string;
+  /** Points taken off the score */
+  penalty: number;
+}
+
+export interface AtsAnalysis {
+  version: number;
+  score: number;
+  breakdown: {
+    /** Share of keywords found, 0-1 (null when the job lists none) */
+    requiredCoverage: number | null;
+    preferredCoverage: number | null;
+    keywordPoints: number;
+    contextPoints: number;
+    structurePoints: number;
+    formattingPenalty: number;
+  };
+  keywords: AtsKeyword[];
+  missing: { required: string[]; preferred: string[] };
+  /** Matched keyword terms per resume section */
+  sections: Partial<Record<AtsSection, string[]>>;
+  formatting: AtsFormattingRisk[];
+}
+
+// ============================================================================
+// Vocabulary
+// ============================================================================
+
+/**
+ * Canonical term → other spellings. Terms found in a job description are
+ * only picked up when listed here; jobs.required_skills / preferred_skills
+ * may name anything.
+ */
+const VOCABULARY: Record<string, string[]> = {
+  // Languages
+  JavaScript: ["js", "ecmascript", "es6"],
+  TypeScript: ["ts"],
+  Python: [],
+  Java: [],
+  Go: ["golang"],
+  Rust: [],
+  "C++": ["cpp"],
+  "C#": ["csharp", "c sharp"],
+  Ruby: [],
+  PHP: [],
+  Kotlin: [],
+  Swift: [],
+  Scala: [],
+  SQL: [],
+  Bash: ["shell scripting", "shell"],
+  HTML: ["html5"],
+  CSS: ["css3"],
+  // Frameworks and runtimes
+  React: ["react.js", "reactjs"],
+  "React Native": [],
+  Angular: ["angularjs"],
+  "Vue.js": ["vue", "vuejs"],
+  "Next.js": ["nextjs"],
+  "Node.js": ["node", "nodejs"],
+  Express: ["express.js", "expressjs"],
+  Django: [],
+  Flask: [],
+  FastAPI: [],
+  Spring: ["spring boot"],
+  ".NET": ["dotnet", "asp.net"],
+  "Ruby on Rails": ["rails"],
+  GraphQL: [],
+  "REST APIs": ["restful", "rest api", "restful apis"],
+  gRPC: [],
+  Microservices: ["microservice architecture"],
+  // Data and ML
+  PostgreSQL: ["postgres", "psql"],
+  MySQL: [],
+  MongoDB: ["mongo"],
+  Redis: [],
+  Elasticsearch: ["elastic search", "opensearch"],
+  DynamoDB: [],
+  Cassandra: [],
+  Snowflake: [],
+  BigQuery: [],
+  Kafka: ["apache kafka"],
+  Spark: ["apache spark", "pyspark"],
+  Airflow: ["apache airflow"],
+  "Machine Learning": ["ml"],
+  "Deep Learning": [],
+  "Natural Language Processing": ["nlp"],
+  "Computer Vision": [],
+  TensorFlow: [],
+  PyTorch: [],
+  "scikit-learn": ["sklearn"],
+  Pandas: [],
+  NumPy: [],
+  "Data Analysis": ["data analytics", "analyzing data"],
+  "Data Visualization": [],
+  Tableau: [],
+  "Power BI": ["powerbi"],
+  Excel: ["microsoft excel", "ms excel"],
+  ETL: ["data pipelines", "data pipeline"],
+  Statistics: ["statistical analysis"],
+  "A/B Testing": ["ab testing", "experimentation"],
+  // Cloud and infrastructure
+  AWS: ["amazon web services"],
+  Azure: ["microsoft azure"],
+  GCP: ["google cloud", "google cloud platform"],
+  Docker: ["containers", "containerization"],
+  Kubernetes: ["k8s"],
+  Terraform: ["infrastructure as code", "iac"],
+  Ansible: [],
+  "CI/CD": [
+    "continuous integration",
+    "continuous delivery",
+    "continuous deployment",
+  ],
+  Jenkins: [],
+  "GitHub Actions": [],
+  Git: ["version control"],
+  Linux: ["unix"],
+  Serverless: ["aws lambda", "lambda"],
+  Observability: ["monitoring"],
+  Prometheus: [],
+  Grafana: [],
+  Security: ["cybersecurity", "information security", "infosec"],
+  // Practices
+  Agile: ["scrum", "kanban"],
+  "Test-Driven Development": ["tdd"],
+  "Unit Testing": ["automated testing", "test automation"],
+  "System Design": ["distributed systems", "software architecture"],
+  "Object-Oriented Programming": ["oop", "object oriented"],
+  "Data Structures": ["algorithms"],
+  "Code Review": ["code reviews"],
+  "Performance Optimization": ["performance tuning"],
+  Accessibility: ["a11y", "wcag"],
+  "Responsive Design": [],
+  "UX Design": ["user experience", "ux"],
+  "UI Design": ["user interface design"],
+  Figma: [],
+  "Product Management": ["product manager", "product roadmap"],
+  "Project Management": ["project manager", "program management"],
+  Jira: [],
+  SaaS: [],
+  // Business and people
+  "Stakeholder Management": ["stakeholders", "cross-functional"],
+  Leadership: ["led", "team lead", "leading teams"],
+  Mentoring: ["mentorship", "coaching"],
+  Communication: ["communication skills", "written and verbal"],
+  "Problem Solving": ["problem-solving", "troubleshooting"],
+  Collaboration: ["teamwork"],
+  "Customer Success": ["customer service", "client relationships"],
+  Sales: ["business development"],
+  Marketing: ["digital marketing"],
+  SEO: ["search engine optimization"],
+  Budgeting: ["budget management", "forecasting"],
+  "Financial Analysis": ["financial modeling"],
+  Salesforce: ["crm"],
+  "Bachelor's Degree": [
+    "bachelor's",
+    "bachelors",
+    "bs",
+    "b.s",
+    "b.a",
+    "undergraduate degree",
+  ],
+  "Master's Degree": ["master's", "masters", "m.s", "mba"],
+  PMP: [],
+};
+
+/** Vocabulary terms that are also common English words: need their exact case */
+const CASE_SENSITIVE = new Set([
+  "Go",
+  "Swift",
+  "Spring",
+  "Express",
+  "Rust",
+  "Spark",
+  "Excel",
+]);
+
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have in is it of on or our the to we with you your will".split(
+    " "
+  )
+);
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+interface Token {
+  /** Lowercase surface form */
+  raw: string;
+  /** Stemmed form used for matching */
+  stem: string;
+  /** Original casing */
+  original: string;
+}
+
+/**
+ * Light suffix stripping so "managed", "managing" and "management" meet.
+ * Short words and tokens with symbols (c++, node.js) are left alone.
+ */
+export function stem(word: string): string {
+  if (word.length <= 4 || !/^[a-z]+$/.test(word)) return word;
+  const stripped = word.replace(
+    /(?:ational|ations|ation|ments|ment|ings|ing|ers|er|ed|ies|es|s|ly)$/,
+    (suffix) => (suffix === "ies" ? "y" : "")
+  );
+  const base = stripped.length >= 3 ? stripped : word;
+  // manage / managing → manag; develop stays develop
+  return base.replace(/e$/, "");
+}
+
+/** Words with their stems; keeps symbols that belong to tech names */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/\.?[A-Za-z0-9][A-Za-z0-9+#.'/-]*/g)) {
+    // Split joined forms (CI/CD, front-end) but keep c++, c#, .net, node.js
+    for (const part of match[0].split(/[/-]/)) {
+      const original = part.replace(/^'+|[.']+$/g, "").replace(/'s$/, "");
+      if (!original || original === ".") continue;
+      const raw = original.toLowerCase();
+      tokens.push({ raw, stem: stem(raw), original });
+    }
+  }
+  return tokens;
+}
+
+interface Phrase {
+  term: string;
+  /** Stem sequences that count as the term */
+  forms: string[][];
+  caseSensitive: boolean;
+}
+
+function formsOf(spellings: string[]): string[][] {
+  const seen = new Set<string>();
+  const forms: string[][] = [];
+  for (const spelling of spellings) {
+    const stems = tokenize(spelling).map((t) => t.stem);
+    const key = stems.join(" ");
+    if (stems.length && !seen.has(key)) {
+      seen.add(key);
+      forms.push(stems);
+    }
+  }
+  return forms;
+}
+
+const VOCABULARY_PHRASES: Phrase[] = Object.entries(VOCABULARY).map(
+  ([term, aliases]) => ({
+    term,
+    forms: formsOf([term, ...aliases]),
+    caseSensitive: CASE_SENSITIVE.has(term),
+  })
+);
+
+/** First stem → vocabulary entries, for scanning text */
+const VOCABULARY_INDEX = new Map<string, Phrase[]>();
+for (const phrase of VOCABULARY_PHRASES) {
+  for (const form of phrase.forms) {
+    const list = VOCABULARY_INDEX.get(form[0]) ?? [];
+    if (!list.includes(phrase)) list.push(phrase);
+    VOCABULARY_INDEX.set(form[0], list);
+  }
+}
+
+function vocabularyPhrase(term: string): Phrase | null {
+  const key = tokenize(term)
+    .map((t) => t.stem)
+    .join(" ");
+  return (
+    VOCABULARY_PHRASES.find((phrase) =>
+      phrase.forms.some((form) => form.join(" ") === key)
+    ) ?? null
+  );
+}
+
+/** Where `form` occurs in `tokens` (start indexes) */
+function occurrences(
+  tokens: Token[],
+  form: string[],
+  caseSensitiveTerm: string | null
+): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i + form.length <= tokens.length; i++) {
+    let hit = true;
+    for (let j = 0; j < form.length; j++) {
+      if (tokens[i + j].stem !== form[j]) {
+        hit = false;
+        break;
+      }
+    }
+    // "go" / "spring" as plain words don't count as the technology
+    if (
+      hit &&
+      caseSensitiveTerm &&
+      tokens[i].raw === caseSensitiveTerm.toLowerCase() &&
+      tokens[i].original !== caseSensitiveTerm &&
+      tokens[i].original !== caseSensitiveTerm.toUpperCase()
+    ) {
+      hit = false;
+    }
+    if (hit) starts.push(i);
+  }
+  return starts;
+}
+
+// ============================================================================
+// Job keywords
+// ============================================================================
+
+const PREFERRED_HEADING =
+  /\b(preferred|nice[- ]to[- ]have|bonus|desired|pluses|good to have|extra credit)\b/i;
+const REQUIRED_HEADING =
+  /\b(requirements?|qualifications|must[- ]haves?|required|what you('ll)? (need|bring)|you have|skills|responsibilities|what you('ll)? do|the role)\b/i;
+const SKIPPED_HEADING =
+  /\b(benefits|perks|about (us|the company)|who we are|compensation|equal opportunity|eeo)\b/i;
+const PREFERRED_LINE =
+  /\b(a plus|is a plus|are a plus|bonus|preferred|nice to have|ideally)\b/i;
+
+/** Short line ending in ":" or without sentence punctuation, e.g. "Requirements" */
+function isHeading(line: string): boolean {
+  // Bullets are list items, even short ones
+  if (/^\s*([-\u2022\u00b7]|\*\s|\d+[.)])/.test(line)) return false;
+  const text = line.replace(/^[#*\s]+|[*\s]+$/g, "");
+  if (!text || text.length > 60) return false;
+  return (
+    text.endsWith(":") || (!/[.,;]/.test(text) && text.split(/\s+/).length <= 6)
+  );
+}
+
+interface JobKeyword {
+  term: string;
+  importance: KeywordImportance;
+  phrase: Phrase;
+}
+
+function addKeyword(
+  keywords: Map<string, JobKeyword>,
+  phrase: Phrase,
+  importance: KeywordImportance
+) {
+  const key = phrase.forms[0].join(" ");
+  const existing = keywords.get(key);
+  // Listed as required anywhere wins over preferred
+  if (existing) {
+    if (importance === "required") existing.importance = "required";
+    return;
+  }
+  keywords.set(key, { term: phrase.term, importance, phrase });
+}
+
+function scanVocabulary(text: string): Phrase[] {
+  const tokens = tokenize(text);
+  const found: Phrase[] = [];
+  tokens.forEach((token, i) => {
+    for (const phrase of VOCABULARY_INDEX.get(token.stem) ?? []) {
+      if (found.includes(phrase)) continue;
+      const match = phrase.forms.some(
+        (form) =>
+          form[0] === token.stem &&
+          occurrences(
+            tokens.slice(i, i + form.length),
+            form,
+            phrase.caseSensitive ? phrase.term : null
+          ).length > 0
+      );
+      if (match) found.push(phrase);
+    }
+  });
+  return found;
+}
+
+/** Required and preferred keywords for a job, in the order they appear */
+export function extractJobKeywords(job: AtsJobInput): JobKeyword[] {
+  const keywords = new Map<string, JobKeyword>();
+
+  const listed = (
+    skills: string[] | null | undefined,
+    importance: KeywordImportance
+  ) => {
+    for (const skill of skills ?? []) {
+      const name = skill.trim();
+      if (!name) continue;
+      const phrase = vocabularyPhrase(name) ?? {
+        term: name,
+        forms: formsOf([name]),
+        caseSensitive: false,
+      };
+      if (phrase.forms.length) addKeyword(keywords, phrase, importance);
+    }
+  };
+  listed(job.required_skills, "required");
+  listed(job.preferred_skills, "preferred");
+  for (const phrase of scanVocabulary(job.job_title ?? "")) {
+    addKeyword(keywords, phrase, "required");
+  }
+
+  let mode: KeywordImportance | "skip" = "required";
+  for (const line of (job.job_description ?? "").split(/\r?\n/)) {
+    if (isHeading(line)) {
+      if (SKIPPED_HEADING.test(line)) mode = "skip";
+      else if (PREFERRED_HEADING.test(line)) mode = "preferred";
+      else if (REQUIRED_HEADING.test(line)) mode = "required";
+    }
+    if (mode === "skip") continue;
+    const importance = PREFERRED_LINE.test(line) ? "preferred" : mode;
+    for (const phrase of scanVocabulary(line)) {
+      addKeyword(keywords, phrase, importance);
+    }
+  }
+
+  return [...keywords.values()].filter(
+    (k) => !k.phrase.forms.every((f) => f.length === 1 && STOPWORDS.has(f[0]))
+  );
+}
+
+// ============================================================================
+// Resume sections
+// ============================================================================
+
+function strings(value: unknown): string[] {
+  if (typeof value === "string") return value.trim() ? [value] : [];
+  if (typeof value === "number") return [String(value)];
+  if (Array.isArray(value)) return value.flatMap(strings);
+  if (value && typeof value === "object") {
+    return Object.values(value as Record<string, unknown>).flatMap(strings);
+  }
+  return [];
+}
+
+function enabled(section: any): boolean {
+  return Boolean(section) && section.enabled !== false;
+}
+
+/**
+ * Text of each resume section (ResumeContent shape). Disabled sections are
+ * left out because they are not rendered.
+ */
+export function resumeSectionText(
+  content: Record<string, any>
+): Partial<Record<AtsSection, string>> {
+  const c = content ?? {};
+  const join = (parts: unknown[]) => strings(parts).join("\n");
+  const items = (section: any) =>
+    Array.isArray(section?.items) ? section.items : [];
+  const text: Partial<Record<AtsSection, string>> = {
+    header: join([c.header?.fullName, c.header?.title, c.header?.location]),
+  };
+
+  if (enabled(c.summary)) {
+    text.summary = join([c.summary.text, c.summary.highlights]);
+  }
+  if (enabled(c.experience)) {
+    text.experience = join(
+      items(c.experience).map((item: any) => [
+        item.title,
+        item.company,
+        item.bullets,
+        item.highlights,
+        item.technologies,
+      ])
+    );
+  }
+  if (enabled(c.education)) {
+    text.education = join(
+      items(c.education).map((item: any) => [
+        item.degree,
+        item.field,
+        item.institution,
+        item.honors,
+        item.relevant,
+      ])
+    );
+  }
+  if (enabled(c.skills)) {
+    const categories = Array.isArray(c.skills.categories)
+      ? c.skills.categories
+      : [];
+    text.skills = join(
+      categories.map((category: any) => [
+        category?.name,
+        (Array.isArray(category?.skills) ? category.skills : []).map(
+          (skill: any) => (typeof skill === "string" ? skill : skill?.name)
+        ),
+      ])
+    );
+  }
+  if (enabled(c.projects)) {
+    text.projects = join(
+      items(c.projects).map((item: any) => [
+        item.name,
+        item.role,
+        item.description,
+        item.technologies,
+        item.highlights,
+      ])
+    );
+  }
+  if (enabled(c.certifications)) {
+    text.certifications = join(
+      items(c.certifications).map((item: any) => [item.name, item.issuer])
+    );
+  }
+
+  const other: unknown[] = [];
+  for (const key of ["awards", "publications", "languages"]) {
+    if (enabled(c[key])) other.push(items(c[key]));
+  }
+  for (const custom of Array.isArray(c.customSections)
+    ? c.customSections
+    : []) {
+    if (enabled(custom)) other.push(custom.title, custom.content);
+  }
+  if (other.length) text.other = join(other);
+
+  return text;
+}
+
+// ============================================================================
+// Formatting risks
+// ============================================================================
+
+const PENALTY = { high: 10, medium: 5, low: 2 } as const;
+
+function risk(
+  kind: FormattingRiskKind,
+  severity: AtsFormattingRisk["severity"],
+  message: string
+): AtsFormattingRisk {
+  return { kind, severity, message, penalty: PENALTY[severity] };
+}
+
+/** Layout features that ATS parsers commonly misread */
+export function detectFormattingRisks(
+  content: Record<string, any>,
+  template: AtsTemplateInput | null
+): AtsFormattingRisk[] {
+  const risks: AtsFormattingRisk[] = [];
+  const layout = template?.layout ?? null;
+
+  if ((layout?.columns ?? 1) > 1) {
+    risks.push(
+      risk(
+        "multi_column",
+        "high",
+        "Multi-column layouts are often read straight across the page, mixing lines from both columns"
+      )
+    );
+  }
+
+  const tables = (
+    Array.isArray(content?.customSections) ? content.customSections : []
+  ).filter((section: any) => enabled(section) && section.format === "table");
+  // Pipe-separated rows pasted into bullets or descriptions read as tables too
+  const pipeRows = strings(content).filter(
+    (line) => (line.match(/\|/g) ?? []).length >= 2
+  );
+  if (tables.length || pipeRows.length) {
+    risks.push(
+      risk(
+        "table",
+        tables.length ? "high" : "medium",
+        tables.length
+          ? `Table sections (${tables.map((s: any) => s.title || "untitled").join(", ")}) may be skipped or read out of order`
+          : "Pipe-separated text may be read as a table; use bullets instead"
+      )
+    );
+  }
+
+  if (
+    typeof content?.header?.photoUrl === "string" &&
+    content.header.photoUrl.trim()
+  ) {
+    risks.push(
+      risk(
+        "image",
+        "medium",
+        "ATS ignore images, and a photo can get a resume filtered out in some regions"
+      )
+    );
+  }
+
+  const headerFooter = layout?.headerFooter;
+  if (headerFooter?.showHeader || headerFooter?.showFooter) {
+    const hasText = Boolean(
+      (headerFooter.showHeader && headerFooter.headerContent?.trim()) ||
+      (headerFooter.showFooter && headerFooter.footerContent?.trim())
+    );
+    risks.push(
+      risk(
+        "header_footer",
+        hasText ? "medium" : "low",
+        "Text in page headers and footers is skipped by many ATS; keep contact details in the body"
+      )
+    );
+  }
+
+  return risks;
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+const SECTION_ORDER: AtsSection[] = [
+  "header",
+  "summary",
+  "experience",
+  "education",
+  "skills",
+  "projects",
+  "certifications",
+  "other",
+];
+
+/** Sections that show a keyword in use rather than just listed */
+const CONTEXT_SECTIONS = new Set<AtsSection>([
+  "summary",
+  "experience",
+  "projects",
+]);
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function structurePoints(
+  content: Record<string, any>,
+  text: Partial<Record<AtsSection, string>>
+) {
+  let points = 0;
+  if (content?.header?.email) points += 3;
+  if (content?.header?.phone) points += 2;
+  if (text.experience?.trim()) points += 4;
+  if (text.education?.trim()) points += 3;
+  if (text.skills?.trim()) points += 3;
+  return points;
+}
+
+export function analyzeAts(
+  content: Record<string, any>,
+  job: AtsJobInput,
+  template: AtsTemplateInput | null = null
+): AtsAnalysis {
+  const sectionText = resumeSectionText(content);
+  const sectionTokens = SECTION_ORDER.filter((s) => sectionText[s]).map(
+    (section) => [section, tokenize(sectionText[section] ?? "")] as const
+  );
+
+  const keywords: AtsKeyword[] = extractJobKeywords(job).map((keyword) => {
+    const sections: AtsSection[] = [];
+    let count = 0;
+    let matchedAs: string | undefined;
+    for (const [section, tokens] of sectionTokens) {
+      for (const form of keyword.phrase.forms) {
+        const starts = occurrences(
+          tokens,
+          form,
+          keyword.phrase.caseSensitive ? keyword.phrase.term : null
+        );
+        if (!starts.length) continue;
+        count += starts.length;
+        if (!sections.includes(section)) sections.push(section);
+        if (matchedAs === undefined) {
+          const wording = tokens
+            .slice(starts[0], starts[0] + form.length)
+            .map((t) => t.original)
+            .join(" ");
+          if (wording.toLowerCase() !== keyword.term.toLowerCase())
+            matchedAs = wording;
+        }
+      }
+    }
+    const result: AtsKeyword = {
+      term: keyword.term,
+      importance: keyword.importance,
+      matched: count > 0,
+      sections,
+      count,
+    };
+    if (matchedAs) result.matchedAs = matchedAs;
+    return result;
+  });
+
+  const required = keywords.filter((k) => k.importance === "required");
+  const preferred = keywords.filter((k) => k.importance === "preferred");
+  const coverage = (list: AtsKeyword[]) =>
+    list.length ? list.filter((k) => k.matched).length / list.length : null;
+  const requiredCoverage = coverage(required);
+  const preferredCoverage = coverage(preferred);
+
+  let keywordPoints: number;
+  if (requiredCoverage === null && preferredCoverage === null)
+    keywordPoints = 0;
+  else if (preferredCoverage === null)
+    keywordPoints = 75 * (requiredCoverage ?? 0);
+  else if (requiredCoverage === null) keywordPoints = 75 * preferredCoverage;
+  else keywordPoints = 60 * requiredCoverage + 15 * preferredCoverage;
+
+  const matchedRequired = required.filter((k) => k.matched);
+  const inContext = matchedRequired.filter((k) =>
+    k.sections.some((s) => CONTEXT_SECTIONS.has(s))
+  ).length;
+  const contextPoints = required.length
+    ? (10 * inContext) / required.length
+    : 0;
+
+  const structure = structurePoints(content, sectionText);
+  const formatting = detectFormattingRisks(content, template);
+  const formattingPenalty = formatting.reduce((sum, r) => sum + r.penalty, 0);
+
+  const score = Math.max(
+    0,
+    Math.min(
+      100,
+      Math.round(keywordPoints + contextPoints + structure - formattingPenalty)
+    )
+  );
+
+  const sections: Partial<Record<AtsSection, string[]>> = {};
+  for (const keyword of keywords) {
+    for (const section of keyword.sections) {
+      (sections[section] ??= []).push(keyword.term);
+    }
+  }
+
+  return {
+    version: ATS_ANALYZER_VERSION,
+    score,
+    breakdown: {
+      requiredCoverage:
+        requiredCoverage === null ? null : round(requiredCoverage),
+      preferredCoverage:
+        preferredCoverage === null ? null : round(preferredCoverage),
+      keywordPoints: round(keywordPoints, 1),
+      contextPoints: round(contextPoints, 1),
+      structurePoints: structure,
+      formattingPenalty,
+    },
+    keywords,
+    missing: {
+      required: required.filter((k) => !k.matched).map((k) => k.term),
+      preferred: preferred.filter((k) => !k.matched).map((k) => k.term),
+    },
+    sections,
+    formatting,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * ATS Score Service
+ *
+ * Scores a saved resume version against a job with the deterministic keyword
+ * analyzer (atsAnalyzer) and stores the result on the version:
+ * document_versions.ats_score, ats_analysis, ats_job_id, ats_analyzed_at.
+ *
+ * Flow (scoreDocumentVersion):
+ * 1. Load the user's version
+ * 2. Resolve the job: explicit jobId, else the version's job_id, else the
+ *    document's job_id
+ * 3. Load the template layout (column count, header/footer)
+ * 4. Analyze and write the score back
+ */
+
+import { ApiError } from "../../utils/errors.js";
+import { logInfo } from "../../utils/logger.js";
+import {
+  analyzeAts,
+  type AtsAnalysis,
+  type AtsJobInput,
+  type AtsTemplateInput,
+} from "./atsAnalyzer.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+export interface ScoreVersionInput {
+  userId: string;
+  versionId: string;
+  /** Job to score against; defaults to the job the version was written for */
+  jobId?: number | null;
+}
+
+export interface ScoreVersionResult {
+  versionId: string;
+  jobId: number;
+  analyzedAt: string;
+  analysis: AtsAnalysis;
+}
+
+async function loadJob(
+  supabase: Awaited<ReturnType<typeof getSupabaseAdmin>>,
+  userId: string,
+  jobId: number
+): Promise<AtsJobInput> {
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("id, job_title, job_description, required_skills, preferred_skills")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new ApiError(500, "Failed to load job", "db_error");
+  if (!data) throw new ApiError(404, "Job not found", "not_found");
+  return data as AtsJobInput;
+}
+
+/** Analyze a version against a job and store the score on the version */
+export async function scoreDocumentVersion(
+  input: ScoreVersionInput
+): Promise<ScoreVersionResult> {
+  const { userId, versionId } = input;
+  const supabase = await getSupabaseAdmin();
+
+  const { data: version, error: versionError } = await supabase
+    .from("document_versions")
+    .select("id, document_id, content, template_id, job_id")
+    .eq("id", versionId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (versionError) {
+    throw new ApiError(500, "Failed to load document version", "db_error");
+  }
+  if (!version) {
+    throw new ApiError(404, "Document version not found", "not_found");
+  }
+
+  let jobId = input.jobId ?? version.job_id ?? null;
+  if (jobId == null) {
+    const { data: doc } = await supabase
+      .from("documents")
+      .select("job_id")
+      .eq("id", version.document_id)
+      .eq("user_id", userId)
+      .maybeSingle();
+    jobId = doc?.job_id ?? null;
+  }
+  if (jobId == null) {
+    throw new ApiError(
+      400,
+      "Link the document to a job or pass jobId to score it",
+      "job_required"
+    );
+  }
+
+  const [job, template] = await Promise.all([
+    loadJob(supabase, userId, jobId),
+    version.template_id
+      ? supabase
+          .from("templates")
+          .select("id, layout")
+          .eq("id", version.template_id)
+          .maybeSingle()
+          .then(({ data }) => data as AtsTemplateInput | null)
+      : null,
+  ]);
+
+  const analysis = analyzeAts(version.content ?? {}, job, template);
+  if (!analysis.keywords.length) {
+    throw new ApiError(
+      422,
+      "The job has no skills or description keywords to compare against",
+      "no_keywords"
+    );
+  }
+
+  const analyzedAt = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from("document_versions")
+    .update({
+      ats_score: analysis.score,
+      ats_analysis: analysis,
+      ats_job_id: jobId,
+      ats_analyzed_at: analyzedAt,
+    })
+    .eq("id", versionId)
+    .eq("user_id", userId);
+  if (updateError) {
+    throw new ApiError(500, "Failed to save ATS score", "db_error");
+  }
+
+  logInfo("ats_score_saved", {
+    userId,
+    versionId,
+    jobId,
+    score: analysis.score,
+    keywords: analysis.keywords.length,
+  });
+
+  return { versionId, jobId, analyzedAt, analysis };
+}
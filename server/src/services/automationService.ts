@@ -0,0 +1,1124 @@
+/**
+ * Automation Service
+ *
+ * User-defined pipeline rules (trigger → conditions → actions) and the
+ * server-side runner behind /api/automations.
+ *
+ * Flow:
+ * 1. Event triggers land in automation_events via database triggers: a job
+ *    moved to a stage (job_stage_changed) or an interview scheduled
+ *    (interview_scheduled)
+ * 2. Time-based triggers are found by scanning the user's jobs every
+ *    AUTOMATION_SCAN_INTERVAL_MS: application deadline within N days
+ *    (deadline_approaching), no stage change for N days (no_response)
+ * 3. For every matching rule a run is claimed in automation_runs. The
+ *    (rule_id, dedupe_key) key makes a rule fire once per event / job, even
+ *    with several server instances
+ * 4. Conditions are checked, then actions run in order; each action's
+ *    outcome is stored on the run (success, partial, failed or skipped)
+ *
+ * Stage moves made by a rule do not trigger other rules, so two rules can
+ * never bounce a job between stages.
+ *
+ * Functions:
+ * - validateRuleInput / evaluateConditions: pure helpers
+ * - listRules / createRule / updateRule / deleteRule / listRuns: data access
+ * - executeRule: run one rule against a job / interview and log the run
+ * - runAutomationTick: process pending events and time-based triggers
+ * - startAutomationScheduler / stopAutomationScheduler: polling loop
+ */
+
+import { ApiError } from "../../utils/errors.js";
+import {
+  legacyLogError as logError,
+  legacyLogInfo as logInfo,
+} from "../../utils/logger.js";
+import { createCoverLetterDraft } from "./coverLetterDraftsService.js";
+import { scheduleAutomationNotification } from "./notificationService.js";
+import { buildPrepChecklist } from "./prepChecklist.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AutomationTriggerType =
+  | "job_stage_changed"
+  | "deadline_approaching"
+  | "no_response"
+  | "interview_scheduled";
+
+export type AutomationActionType =
+  | "create_reminder"
+  | "generate_cover_letter"
+  | "add_prep_checklist"
+  | "move_stage"
+  | "notify_teammate";
+
+export type ConditionOperator =
+  "equals" | "not_equals" | "contains" | "in" | "gt" | "lt" | "exists";
+
+export interface AutomationCondition {
+  /** "job.<column>", "interview.<column>" or "trigger.<key>" */
+  field: string;
+  operator: ConditionOperator;
+  value?: unknown;
+}
+
+export interface AutomationAction {
+  type: AutomationActionType;
+  config: Record<string, unknown>;
+}
+
+export interface AutomationRuleRow {
+  id: string;
+  user_id: string;
+  name: string;
+  enabled: boolean;
+  trigger_type: AutomationTriggerType;
+  trigger_config: Record<string, unknown>;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AutomationRuleInput {
+  name: string;
+  enabled: boolean;
+  trigger_type: AutomationTriggerType;
+  trigger_config: Record<string, unknown>;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+}
+
+export type AutomationRunStatus =
+  "running" | "success" | "partial" | "failed" | "skipped";
+
+export interface ActionResult {
+  type: AutomationActionType;
+  status: "success" | "failed";
+  output: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface AutomationRunRow {
+  id: string;
+  rule_id: string | null;
+  user_id: string;
+  rule_name: string;
+  trigger_type: AutomationTriggerType;
+  event_id: string | null;
+  job_id: number | null;
+  dedupe_key: string;
+  status: AutomationRunStatus;
+  results: ActionResult[];
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+interface AutomationEventRow {
+  id: string;
+  user_id: string;
+  trigger_type: "job_stage_changed" | "interview_scheduled";
+  job_id: number | null;
+  interview_id: string | null;
+  payload: Record<string, unknown>;
+}
+
+/** Data a rule sees: conditions read from it, actions act on it */
+export interface AutomationContext {
+  job: Record<string, any> | null;
+  interview: Record<string, any> | null;
+  trigger: Record<string, unknown>;
+}
+
+export interface AutomationTickResult {
+  events: number;
+  runs: number;
+  skipped: number;
+  failed: number;
+}
+
+export const JOB_STAGES = [
+  "Interested",
+  "Applied",
+  "Phone Screen",
+  "Interview",
+  "Offer",
+  "Rejected",
+  "Accepted",
+  "Declined",
+] as const;
+
+export const TRIGGER_TYPES: AutomationTriggerType[] = [
+  "job_stage_changed",
+  "deadline_approaching",
+  "no_response",
+  "interview_scheduled",
+];
+
+export const ACTION_TYPES: AutomationActionType[] = [
+  "create_reminder",
+  "generate_cover_letter",
+  "add_prep_checklist",
+  "move_stage",
+  "notify_teammate",
+];
+
+const OPERATORS: ConditionOperator[] = [
+  "equals",
+  "not_equals",
+  "contains",
+  "in",
+  "gt",
+  "lt",
+  "exists",
+];
+
+const MAX_CONDITIONS = 20;
+const MAX_ACTIONS = 10;
+
+const JOB_FIELDS =
+  "id, user_id, job_title, company_name, industry, job_type, experience_level, remote_type, city_name, state_code, start_salary_range, end_salary_range, application_deadline, job_status, status_changed_at, match_score, is_favorite, is_archived, source";
+
+const INTERVIEW_FIELDS =
+  "id, user_id, title, company, industry, role, interview_date, format, interview_type, stage, interviewer, location, status, linked_job_id";
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function bad(message: string): ApiError {
+  return new ApiError(400, message, "bad_request");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function optionalString(
+  config: Record<string, unknown>,
+  key: string,
+  maxLength: number
+): string | undefined {
+  const value = config[key];
+  if (value == null || value === "") return undefined;
+  if (typeof value !== "string") throw bad(`${key} must be a string`);
+  if (value.length > maxLength) {
+    throw bad(`${key} must be at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+function integerInRange(
+  config: Record<string, unknown>,
+  key: string,
+  min: number,
+  max: number,
+  fallback: number
+): number {
+  const value = config[key] ?? fallback;
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < min ||
+    (value as number) > max
+  ) {
+    throw bad(`${key} must be an integer between ${min} and ${max}`);
+  }
+  return value as number;
+}
+
+function stage(value: unknown, key: string): string {
+  if (!JOB_STAGES.includes(value as any)) {
+    throw bad(`${key} must be one of ${JOB_STAGES.join(", ")}`);
+  }
+  return value as string;
+}
+
+function normalizeTriggerConfig(
+  type: AutomationTriggerType,
+  raw: unknown
+): Record<string, unknown> {
+  const config = isPlainObject(raw) ? raw : {};
+  switch (type) {
+    case "job_stage_changed": {
+      const result: Record<string, unknown> = {};
+      if (config.to_stage) result.to_stage = stage(config.to_stage, "to_stage");
+      if (config.from_stage) {
+        result.from_stage = stage(config.from_stage, "from_stage");
+      }
+      return result;
+    }
+    case "deadline_approaching": {
+      const stages = config.stages ?? ["Interested"];
+      if (!Array.isArray(stages) || stages.length === 0) {
+        throw bad("stages must be a non-empty array");
+      }
+      return {
+        days_before: integerInRange(config, "days_before", 0, 60, 3),
+        stages: stages.map((s) => stage(s, "stages")),
+      };
+    }
+    case "no_response":
+      return {
+        stage: stage(config.stage ?? "Applied", "stage"),
+        days: integerInRange(config, "days", 1, 365, 14),
+      };
+    case "interview_scheduled":
+      return {};
+  }
+}
+
+function normalizeCondition(raw: unknown): AutomationCondition {
+  if (!isPlainObject(raw)) throw bad("each condition must be an object");
+  const field = raw.field;
+  if (
+    typeof field !== "string" ||
+    !/^(job|interview|trigger)\.[a-z_]+$/.test(field)
+  ) {
+    throw bad(
+      "condition field must look like job.<column>, interview.<column> or trigger.<key>"
+    );
+  }
+  const operator = raw.operator as ConditionOperator;
+  if (!OPERATORS.includes(operator)) {
+    throw bad(`condition operator must be one of ${OPERATORS.join(", ")}`);
+  }
+  if (operator === "in" && !Array.isArray(raw.value)) {
+    throw bad("the in operator needs an array value");
+  }
+  if (
+    (operator === "gt" || operator === "lt") &&
+    !Number.isFinite(Number(raw.value))
+  ) {
+    throw bad(`the ${operator} operator needs a numeric value`);
+  }
+  return { field, operator, value: raw.value ?? null };
+}
+
+function normalizeAction(raw: unknown): AutomationAction {
+  if (!isPlainObject(raw)) throw bad("each action must be an object");
+  const type = raw.type as AutomationActionType;
+  if (!ACTION_TYPES.includes(type)) {
+    throw bad(`action type must be one of ${ACTION_TYPES.join(", ")}`);
+  }
+  const config = isPlainObject(raw.config) ? raw.config : {};
+  switch (type) {
+    case "create_reminder":
+      return {
+        type,
+        config: {
+          title: optionalString(config, "title", 200),
+          message: optionalString(config, "message", 2000),
+          delay_days: integerInRange(config, "delay_days", 0, 365, 0),
+        },
+      };
+    case "generate_cover_letter":
+      return {
+        type,
+        config: {
+          tone: optionalString(config, "tone", 40),
+          template_id: optionalString(config, "template_id", 40),
+        },
+      };
+    case "add_prep_checklist":
+      return {
+        type,
+        config: {
+          interview_type: optionalString(config, "interview_type", 40),
+        },
+      };
+    case "move_stage":
+      return { type, config: { stage: stage(config.stage, "stage") } };
+    case "notify_teammate": {
+      const teammateId = config.teammate_id;
+      if (
+        typeof teammateId !== "string" ||
+        !/^[0-9a-f-]{36}$/i.test(teammateId)
+      ) {
+        throw bad("teammate_id must be a user id");
+      }
+      return {
+        type,
+        config: {
+          teammate_id: teammateId,
+          message: optionalString(config, "message", 2000),
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Validate and normalize a rule payload (defaults filled in, unknown keys
+ * dropped). With `partial`, only the fields present are checked; a new
+ * trigger type without trigger_config gets that type's defaults.
+ */
+export function validateRuleInput(
+  body: unknown,
+  options: { partial?: boolean } = {}
+): Partial<AutomationRuleInput> {
+  if (!isPlainObject(body)) throw bad("body must be an object");
+  const partial = options.partial === true;
+  const result: Partial<AutomationRuleInput> = {};
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      throw bad("name is required");
+    }
+    if (body.name.length > 120) {
+      throw bad("name must be at most 120 characters");
+    }
+    result.name = body.name.trim();
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") {
+      throw bad("enabled must be a boolean");
+    }
+    result.enabled = body.enabled;
+  } else if (!partial) {
+    result.enabled = true;
+  }
+
+  if (!partial || body.trigger_type !== undefined) {
+    const type = body.trigger_type as AutomationTriggerType;
+    if (!TRIGGER_TYPES.includes(type)) {
+      throw bad(`trigger_type must be one of ${TRIGGER_TYPES.join(", ")}`);
+    }
+    result.trigger_type = type;
+    result.trigger_config = normalizeTriggerConfig(type, body.trigger_config);
+  } else if (body.trigger_config !== undefined) {
+    throw bad("trigger_config can only be changed together with trigger_type");
+  }
+
+  if (!partial || body.conditions !== undefined) {
+    const conditions = body.conditions ?? [];
+    if (!Array.isArray(conditions) || conditions.length > MAX_CONDITIONS) {
+      throw bad(`conditions must be an array of at most ${MAX_CONDITIONS}`);
+    }
+    result.conditions = conditions.map(normalizeCondition);
+  }
+
+  if (!partial || body.actions !== undefined) {
+    const actions = body.actions;
+    if (
+      !Array.isArray(actions) ||
+      actions.length === 0 ||
+      actions.length > MAX_ACTIONS
+    ) {
+      throw bad(`actions must be an array of 1 to ${MAX_ACTIONS} actions`);
+    }
+    result.actions = actions.map(normalizeAction);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Conditions
+// ============================================================================
+
+function readField(context: AutomationContext, field: string): unknown {
+  const [scope, key] = field.split(".");
+  const source =
+    scope === "job"
+      ? context.job
+      : scope === "interview"
+        ? context.interview
+        : context.trigger;
+  return source ? source[key] : undefined;
+}
+
+function sameValue(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === "string" && typeof expected === "string") {
+    return actual.trim().toLowerCase() === expected.trim().toLowerCase();
+  }
+  if (typeof actual === "number" || typeof expected === "number") {
+    return Number(actual) === Number(expected);
+  }
+  return actual === expected;
+}
+
+function matches(condition: AutomationCondition, actual: unknown): boolean {
+  const { operator, value } = condition;
+  switch (operator) {
+    case "equals":
+      return sameValue(actual, value);
+    case "not_equals":
+      return !sameValue(actual, value);
+    case "contains":
+      if (Array.isArray(actual)) return actual.some((a) => sameValue(a, value));
+      return (
+        typeof actual === "string" &&
+        typeof value === "string" &&
+        actual.toLowerCase().includes(value.toLowerCase())
+      );
+    case "in":
+      return Array.isArray(value) && value.some((v) => sameValue(actual, v));
+    case "gt":
+    case "lt": {
+      if (actual == null || actual === "") return false;
+      const a = Number(actual);
+      const b = Number(value);
+      if (!Number.isFinite(a) || !Number.isFinite(b)) return false;
+      return operator === "gt" ? a > b : a < b;
+    }
+    case "exists": {
+      const present = actual != null && actual !== "";
+      return value === false ? !present : present;
+    }
+  }
+}
+
+/** True when every condition holds (no conditions = always) */
+export function evaluateConditions(
+  conditions: AutomationCondition[],
+  context: AutomationContext
+): boolean {
+  return conditions.every((c) => matches(c, readField(context, c.field)));
+}
+
+// ============================================================================
+// Rules CRUD
+// ============================================================================
+
+export async function listRules(userId: string): Promise<AutomationRuleRow[]> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("automation_rules")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return (data ?? []) as AutomationRuleRow[];
+}
+
+export async function createRule(
+  userId: string,
+  input: AutomationRuleInput
+): Promise<AutomationRuleRow> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("automation_rules")
+    .insert({ ...input, user_id: userId })
+    .select("*")
+    .single();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return data as AutomationRuleRow;
+}
+
+export async function updateRule(
+  userId: string,
+  ruleId: string,
+  patch: Partial<AutomationRuleInput>
+): Promise<AutomationRuleRow> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("automation_rules")
+    .update(patch)
+    .eq("user_id", userId)
+    .eq("id", ruleId)
+    .select("*")
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data) throw new ApiError(404, "Automation rule not found", "not_found");
+  return data as AutomationRuleRow;
+}
+
+/** Delete a rule; its runs stay in the log with rule_id = null */
+export async function deleteRule(
+  userId: string,
+  ruleId: string
+): Promise<void> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("automation_rules")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", ruleId)
+    .select("id");
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data?.length) {
+    throw new ApiError(404, "Automation rule not found", "not_found");
+  }
+}
+
+export async function listRuns(
+  userId: string,
+  options: { ruleId?: string; limit?: number } = {}
+): Promise<AutomationRunRow[]> {
+  const supabase = await getSupabaseAdmin();
+  let query = supabase
+    .from("automation_runs")
+    .select("*")
+    .eq("user_id", userId)
+    .order("started_at", { ascending: false })
+    .limit(options.limit ?? 50);
+  if (options.ruleId) query = query.eq("rule_id", options.ruleId);
+
+  const { data, error } = await query;
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return (data ?? []) as AutomationRunRow[];
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+interface ActionContext extends AutomationContext {
+  userId: string;
+  rule: AutomationRuleRow;
+  /** Unique per run; keeps notification source ids apart */
+  runKey: string;
+  now: Date;
+}
+
+type ActionHandler = (
+  config: Record<string, any>,
+  ctx: ActionContext
+) => Promise<Record<string, unknown>>;
+
+function jobLabel(ctx: AutomationContext): string {
+  const title =
+    ctx.job?.job_title ?? ctx.interview?.title ?? ctx.interview?.role;
+  const company = ctx.job?.company_name ?? ctx.interview?.company;
+  if (title && company) return `${title} at ${company}`;
+  return title || company || "your application";
+}
+
+function requireJob(ctx: AutomationContext): Record<string, any> {
+  if (!ctx.job) throw new Error("this action needs a job, and none is linked");
+  return ctx.job;
+}
+
+const ACTION_HANDLERS: Record<AutomationActionType, ActionHandler> = {
+  async create_reminder(config, ctx) {
+    const runAt = new Date(
+      ctx.now.getTime() + (config.delay_days ?? 0) * 86_400_000
+    );
+    const row = await scheduleAutomationNotification(ctx.userId, {
+      sourceId: `automation:${ctx.rule.id}:${ctx.runKey}`,
+      runAt,
+      title: config.title || `Reminder: ${jobLabel(ctx)}`,
+      body: config.message ?? `From your automation "${ctx.rule.name}"`,
+      link: ctx.job
+        ? `/jobs/${ctx.job.id}`
+        : ctx.interview
+          ? "/interviews"
+          : null,
+      payload: { rule_id: ctx.rule.id, job_id: ctx.job?.id ?? null },
+    });
+    return { notification_id: row.id, run_at: row.run_at };
+  },
+
+  async generate_cover_letter(config, ctx) {
+    const job = requireJob(ctx);
+    const { default: orchestrator } = await import("./orchestrator.js");
+    const result = await orchestrator.handleGenerateCoverLetter({
+      userId: ctx.userId,
+      jobId: job.id,
+      options: { tone: config.tone, templateId: config.template_id },
+    });
+    if (result.error || !result.artifact) {
+      throw new Error(result.error ?? "no cover letter produced");
+    }
+
+    const sections = (result.artifact.content as any)?.sections ?? {};
+    const draft = await createCoverLetterDraft({
+      user_id: ctx.userId,
+      name: `${jobLabel(ctx)} (automation)`,
+      template_id: config.template_id,
+      job_id: job.id,
+      company_name: job.company_name ?? undefined,
+      job_title: job.job_title ?? undefined,
+      content: {
+        opening: sections.opening ?? "",
+        body: Array.isArray(sections.body) ? sections.body : [],
+        closing: sections.closing ?? "",
+      },
+    });
+    return { draft_id: draft.id, draft_name: draft.name };
+  },
+
+  async add_prep_checklist(config, ctx) {
+    const jobTitle =
+      ctx.job?.job_title ?? ctx.interview?.role ?? ctx.interview?.title ?? "";
+    const company = ctx.job?.company_name ?? ctx.interview?.company ?? "";
+    if (!jobTitle && !company) {
+      throw new Error("a job title or company is needed for a checklist");
+    }
+    const items = buildPrepChecklist({
+      jobTitle,
+      company,
+      industry: ctx.job?.industry ?? ctx.interview?.industry ?? "",
+      interviewType: config.interview_type ?? ctx.interview?.format ?? "",
+    });
+    return { interview_id: ctx.interview?.id ?? null, items };
+  },
+
+  async move_stage(config, ctx) {
+    const job = requireJob(ctx);
+    const from = job.job_status;
+    if (from === config.stage) return { from, to: config.stage, moved: false };
+
+    const supabase = await getSupabaseAdmin();
+    const { error } = await supabase
+      .from("jobs")
+      .update({
+        job_status: config.stage,
+        status_changed_at: ctx.now.toISOString(),
+      })
+      .eq("id", job.id)
+      .eq("user_id", ctx.userId);
+    if (error) throw new Error(error.message);
+
+    // The jobs trigger queued a stage event for this move; rules don't chain
+    await supabase
+      .from("automation_events")
+      .update({ status: "skipped", processed_at: ctx.now.toISOString() })
+      .eq("job_id", job.id)
+      .eq("trigger_type", "job_stage_changed")
+      .eq("status", "pending")
+      .eq("payload->>to_stage", config.stage);
+
+    job.job_status = config.stage;
+    return { from, to: config.stage, moved: true };
+  },
+
+  async notify_teammate(config, ctx) {
+    const supabase = await getSupabaseAdmin();
+    const { data: teams, error } = await supabase
+      .from("team_members")
+      .select("team_id")
+      .eq("user_id", ctx.userId)
+      .eq("is_active", true);
+    if (error) throw new Error(error.message);
+
+    const teamIds = (teams ?? []).map((t: any) => t.team_id);
+    const { data: shared } = teamIds.length
+      ? await supabase
+          .from("team_members")
+          .select("team_id")
+          .eq("user_id", config.teammate_id)
+          .eq("is_active", true)
+          .in("team_id", teamIds)
+          .limit(1)
+      : { data: [] };
+    if (!shared?.length) {
+      throw new Error("the teammate is not an active member of your teams");
+    }
+
+    const row = await scheduleAutomationNotification(config.teammate_id, {
+      sourceId: `automation:${ctx.rule.id}:${ctx.runKey}`,
+      runAt: ctx.now,
+      title: `Update: ${jobLabel(ctx)}`,
+      body: config.message ?? `Sent by the automation "${ctx.rule.name}"`,
+      link: null,
+      payload: {
+        rule_id: ctx.rule.id,
+        from_user_id: ctx.userId,
+        job_id: ctx.job?.id ?? null,
+      },
+    });
+    return { notification_id: row.id, teammate_id: config.teammate_id };
+  },
+};
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+export interface ExecuteRuleOptions {
+  /** One run per rule and key ("event:<id>", "deadline:<job>:<date>", ...) */
+  dedupeKey: string;
+  context: AutomationContext;
+  eventId?: string | null;
+  now?: Date;
+}
+
+/**
+ * Run a rule and log it. Returns null when the rule already ran for this
+ * dedupe key. Action failures are recorded on the run, never thrown.
+ */
+export async function executeRule(
+  rule: AutomationRuleRow,
+  options: ExecuteRuleOptions
+): Promise<AutomationRunRow | null> {
+  const supabase = await getSupabaseAdmin();
+  const now = options.now ?? new Date();
+  const { context } = options;
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("automation_runs")
+    .upsert(
+      {
+        rule_id: rule.id,
+        user_id: rule.user_id,
+        rule_name: rule.name,
+        trigger_type: rule.trigger_type,
+        event_id: options.eventId ?? null,
+        job_id: context.job?.id ?? null,
+        dedupe_key: options.dedupeKey,
+        status: "running",
+        started_at: now.toISOString(),
+      },
+      { onConflict: "rule_id,dedupe_key", ignoreDuplicates: true }
+    )
+    .select("*");
+  if (claimError) throw new ApiError(500, claimError.message, "db_error");
+  const run = (claimed ?? [])[0] as AutomationRunRow | undefined;
+  if (!run) return null;
+
+  const results: ActionResult[] = [];
+  let status: AutomationRunStatus;
+  let runError: string | null = null;
+
+  if (!evaluateConditions(rule.conditions ?? [], context)) {
+    status = "skipped";
+    runError = "conditions not met";
+  } else {
+    const ctx: ActionContext = {
+      ...context,
+      userId: rule.user_id,
+      rule,
+      runKey: options.dedupeKey,
+      now,
+    };
+    for (const action of rule.actions) {
+      try {
+        const output = await ACTION_HANDLERS[action.type](
+          action.config ?? {},
+          ctx
+        );
+        results.push({
+          type: action.type,
+          status: "success",
+          output,
+          error: null,
+        });
+      } catch (e: any) {
+        results.push({
+          type: action.type,
+          status: "failed",
+          output: null,
+          error: e?.message ?? String(e),
+        });
+      }
+    }
+    const failed = results.filter((r) => r.status === "failed").length;
+    status =
+      failed === 0
+        ? "success"
+        : failed === results.length
+          ? "failed"
+          : "partial";
+    if (failed > 0) runError = `${failed} of ${results.length} actions failed`;
+  }
+
+  const finished = {
+    status,
+    results,
+    error: runError,
+    finished_at: new Date().toISOString(),
+  };
+  const { error: updateError } = await supabase
+    .from("automation_runs")
+    .update(finished)
+    .eq("id", run.id);
+  if (updateError) {
+    logError("automation_run_update_failed", {
+      runId: run.id,
+      error: updateError.message,
+    });
+  }
+  if (status !== "skipped") {
+    await supabase
+      .from("automation_rules")
+      .update({ last_run_at: now.toISOString() })
+      .eq("id", rule.id);
+  }
+
+  if (status === "failed" || status === "partial") {
+    logError("automation_run_failed", {
+      ruleId: rule.id,
+      userId: rule.user_id,
+      status,
+      errors: results.filter((r) => r.error).map((r) => r.error),
+    });
+  }
+  return { ...run, ...finished };
+}
+
+async function loadJob(userId: string, jobId: number | null) {
+  if (jobId == null) return null;
+  const supabase = await getSupabaseAdmin();
+  const { data } = await supabase
+    .from("jobs")
+    .select(JOB_FIELDS)
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return (data as Record<string, any> | null) ?? null;
+}
+
+async function loadInterview(userId: string, interviewId: string | null) {
+  if (!interviewId) return null;
+  const supabase = await getSupabaseAdmin();
+  const { data } = await supabase
+    .from("interviews")
+    .select(INTERVIEW_FIELDS)
+    .eq("id", interviewId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return (data as Record<string, any> | null) ?? null;
+}
+
+/** Does a job_stage_changed rule care about this particular move? */
+function stageRuleMatches(
+  rule: AutomationRuleRow,
+  payload: Record<string, unknown>
+): boolean {
+  const config = rule.trigger_config ?? {};
+  if (config.to_stage && config.to_stage !== payload.to_stage) return false;
+  if (config.from_stage && config.from_stage !== payload.from_stage) {
+    return false;
+  }
+  return true;
+}
+
+function tally(result: AutomationTickResult, run: AutomationRunRow | null) {
+  if (!run) return;
+  result.runs++;
+  if (run.status === "skipped") result.skipped++;
+  if (run.status === "failed" || run.status === "partial") result.failed++;
+}
+
+async function processEvents(
+  result: AutomationTickResult,
+  limit: number,
+  now: Date
+): Promise<void> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase.rpc("claim_automation_events", {
+    p_limit: limit,
+  });
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  const events = (data ?? []) as AutomationEventRow[];
+  result.events = events.length;
+
+  for (const event of events) {
+    try {
+      const { data: rules, error: rulesError } = await supabase
+        .from("automation_rules")
+        .select("*")
+        .eq("user_id", event.user_id)
+        .eq("trigger_type", event.trigger_type)
+        .eq("enabled", true);
+      if (rulesError) throw new Error(rulesError.message);
+
+      const matching = ((rules ?? []) as AutomationRuleRow[]).filter(
+        (rule) =>
+          event.trigger_type !== "job_stage_changed" ||
+          stageRuleMatches(rule, event.payload ?? {})
+      );
+      if (matching.length > 0) {
+        const context: AutomationContext = {
+          job: await loadJob(event.user_id, event.job_id),
+          interview: await loadInterview(event.user_id, event.interview_id),
+          trigger: event.payload ?? {},
+        };
+        for (const rule of matching) {
+          tally(
+            result,
+            await executeRule(rule, {
+              dedupeKey: `event:${event.id}`,
+              eventId: event.id,
+              context,
+              now,
+            })
+          );
+        }
+      }
+    } catch (e: any) {
+      logError("automation_event_failed", {
+        eventId: event.id,
+        error: e?.message ?? String(e),
+      });
+    }
+
+    await supabase
+      .from("automation_events")
+      .update({
+        status: "done",
+        locked_at: null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq("id", event.id);
+  }
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Jobs that currently satisfy a time-based trigger, with their dedupe key */
+async function findTimeTriggeredJobs(
+  rule: AutomationRuleRow,
+  now: Date
+): Promise<Array<{ job: Record<string, any>; dedupeKey: string }>> {
+  const supabase = await getSupabaseAdmin();
+  const config = rule.trigger_config as Record<string, any>;
+  let query = supabase
+    .from("jobs")
+    .select(JOB_FIELDS)
+    .eq("user_id", rule.user_id)
+    .eq("is_archived", false)
+    .limit(100);
+
+  if (rule.trigger_type === "deadline_approaching") {
+    const until = new Date(now.getTime() + config.days_before * 86_400_000);
+    query = query
+      .in("job_status", config.stages)
+      .gte("application_deadline", isoDate(now))
+      .lte("application_deadline", isoDate(until));
+  } else {
+    const since = new Date(now.getTime() - config.days * 86_400_000);
+    query = query
+      .eq("job_status", config.stage)
+      .lte("status_changed_at", since.toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return ((data ?? []) as Record<string, any>[]).map((job) => ({
+    job,
+    // A new deadline or a new stage change makes the rule fire again
+    dedupeKey:
+      rule.trigger_type === "deadline_approaching"
+        ? `deadline:${job.id}:${job.application_deadline}`
+        : `no_response:${job.id}:${job.status_changed_at}`,
+  }));
+}
+
+async function processTimeTriggers(
+  result: AutomationTickResult,
+  now: Date
+): Promise<void> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("automation_rules")
+    .select("*")
+    .eq("enabled", true)
+    .in("trigger_type", ["deadline_approaching", "no_response"]);
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  for (const rule of (data ?? []) as AutomationRuleRow[]) {
+    try {
+      for (const { job, dedupeKey } of await findTimeTriggeredJobs(rule, now)) {
+        tally(
+          result,
+          await executeRule(rule, {
+            dedupeKey,
+            context: { job, interview: null, trigger: {} },
+            now,
+          })
+        );
+      }
+    } catch (e: any) {
+      logError("automation_scan_failed", {
+        ruleId: rule.id,
+        error: e?.message ?? String(e),
+      });
+    }
+  }
+}
+
+/**
+ * Process pending events and, when `scan` is set, time-based triggers.
+ * Individual rule failures are logged on their runs, not thrown.
+ */
+export async function runAutomationTick(
+  options: { limit?: number; now?: Date; scan?: boolean } = {}
+): Promise<AutomationTickResult> {
+  const now = options.now ?? new Date();
+  const result: AutomationTickResult = {
+    events: 0,
+    runs: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  await processEvents(result, options.limit ?? 50, now);
+  if (options.scan !== false) await processTimeTriggers(result, now);
+
+  if (result.events > 0 || result.runs > 0) {
+    logInfo("automation_tick", { ...result });
+  }
+  return result;
+}
+
+// ============================================================================
+// Scheduler loop
+// ============================================================================
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let lastScanAt = 0;
+
+/**
+ * Process events every AUTOMATION_POLL_INTERVAL_MS (default 60s) and scan
+ * time-based triggers every AUTOMATION_SCAN_INTERVAL_MS (default 15 min).
+ * No-op when the database is not configured or AUTOMATION_SCHEDULER=off.
+ * Returns true when the loop was started.
+ */
+export function startAutomationScheduler(
+  intervalMs = Number(process.env.AUTOMATION_POLL_INTERVAL_MS || 60_000),
+  scanIntervalMs = Number(process.env.AUTOMATION_SCAN_INTERVAL_MS || 900_000)
+): boolean {
+  if (timer) return true;
+  if (process.env.AUTOMATION_SCHEDULER === "off") return false;
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return false;
+  }
+
+  const tick = async () => {
+    // Skip when the previous batch is still running (AI actions can be slow)
+    if (running) return;
+    running = true;
+    try {
+      const scan = Date.now() - lastScanAt >= scanIntervalMs;
+      if (scan) lastScanAt = Date.now();
+      await runAutomationTick({ scan });
+    } catch (e: any) {
+      logError("automation_tick_failed", { error: e?.message ?? String(e) });
+    } finally {
+      running = false;
+    }
+  };
+
+  timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+  return true;
+}
+
+export function stopAutomationScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
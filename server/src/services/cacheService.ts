@@ -7,9 +7,13 @@
  * - Support TTL-based invalidation
  * 
  * Architecture:
- * - In-memory cache (Map-based) for free tier
- * - Redis-compatible interface for future upgrade
- * - LRU eviction when size limit reached
+ * - Values live in the shared CacheStore (services/cacheStore.ts): this
+ *   process's LRU cache by default, or Redis when REDIS_URL is set, so
+ *   several server instances share one cache
+ * - cached() is the read-through helper used by hot reads (comprehensive
+ *   profile, company research, analytics)
+ * - invalidateUserCache() runs on database change events (Supabase
+ *   Realtime, see startCacheInvalidation) for profile and job tables
  * 
  * UC-137 Requirements:
  * - Caching layer with Redis (free tier: in-memory)
@@ -17,6 +21,9 @@
  * - Monitor resource usage
  */
 
+import { legacyLogError as logError } from "../../utils/logger.js";
+import { getCacheStore } from "./cacheStore.js";
+
 export interface CacheEntry<T> {
   key: string;
   value: T;
@@ -291,10 +298,54 @@ export const CacheKeys = {
   employment: (userId: string) => `employment:${userId}`,
   aiArtifact: (userId: string, kind: string) => `ai:${userId}:${kind}`,
   analytics: (userId: string, type: string) => `analytics:${userId}:${type}`,
+  companyResearch: (normalizedName: string) => `company:${normalizedName}`,
   template: (templateId: string) => `template:${templateId}`,
   theme: (themeId: string) => `theme:${themeId}`,
 };
 
+/**
+ * TTLs for the cached reads. Change events invalidate user data sooner;
+ * the TTL bounds staleness if an event is missed.
+ */
+export const CacheTTL = {
+  profile: 15 * 60 * 1000,
+  companyResearch: 60 * 60 * 1000,
+  analytics: 10 * 60 * 1000,
+};
+
+/** Analytics results cached per user (dropped by invalidateUserCache) */
+export const CachedAnalytics = {
+  patternRecognition: "pattern-recognition",
+  competitivePosition: "competitive-position",
+} as const;
+
+/**
+ * Read-through cache: return the stored value for `key`, or run `load` and
+ * store its result (null / undefined results are not cached). Store errors
+ * are logged and fall through to `load`, so a cache outage only costs speed.
+ */
+export async function cached<T>(
+  key: string,
+  ttlMs: number,
+  load: () => Promise<T>
+): Promise<T> {
+  const store = getCacheStore();
+  try {
+    const hit = await store.get(key);
+    if (hit !== null) return JSON.parse(hit) as T;
+  } catch (err) {
+    logError("Cache read failed", err, { key, store: store.kind });
+  }
+
+  const value = await load();
+  if (value !== null && value !== undefined) {
+    store.set(key, JSON.stringify(value), ttlMs).catch((err) => {
+      logError("Cache write failed", err, { key, store: store.kind });
+    });
+  }
+  return value;
+}
+
 /**
  * Cache invalidation patterns
  * 
@@ -303,13 +354,92 @@ export const CacheKeys = {
  * - User creates/updates job → invalidate jobs cache
  * - AI generates artifact → cache artifact for 7 days
  * - User deletes data → invalidate related caches
+ *
+ * Called from database change events (startCacheInvalidation), so edits made
+ * directly through Supabase by the frontend are picked up too.
  */
-export function invalidateUserCache(userId: string): void {
-  serverCache.delete(CacheKeys.profile(userId));
-  serverCache.delete(CacheKeys.skills(userId));
-  serverCache.delete(CacheKeys.education(userId));
-  serverCache.delete(CacheKeys.employment(userId));
-  serverCache.delete(CacheKeys.jobs(userId));
+export async function invalidateUserCache(userId: string): Promise<void> {
+  const keys = [
+    CacheKeys.profile(userId),
+    CacheKeys.skills(userId),
+    CacheKeys.education(userId),
+    CacheKeys.employment(userId),
+    CacheKeys.jobs(userId),
+    ...Object.values(CachedAnalytics).map((type) =>
+      CacheKeys.analytics(userId, type)
+    ),
+  ];
+  try {
+    await getCacheStore().delete(keys);
+  } catch (err) {
+    logError("Cache invalidation failed", err, { userId });
+  }
+}
+
+/**
+ * Tables whose changes invalidate a user's cache, with the column holding
+ * the user id. Must be in the supabase_realtime publication (see
+ * db/migrations/2026-10-19_add_cache_invalidation_events.sql).
+ */
+export const INVALIDATING_TABLES: Record<string, string> = {
+  profiles: "id",
+  education: "user_id",
+  skills: "user_id",
+  employment: "user_id",
+  projects: "user_id",
+  certifications: "user_id",
+  jobs: "user_id",
+};
+
+let invalidationChannel: { unsubscribe: () => Promise<unknown> } | null =
+  null;
+
+/** User id of a Realtime change payload (old row for deletes) */
+export function changedUserId(
+  table: string,
+  payload: { new?: Record<string, any>; old?: Record<string, any> }
+): string | null {
+  const column = INVALIDATING_TABLES[table];
+  const value = payload.new?.[column] ?? payload.old?.[column];
+  return typeof value === "string" ? value : null;
+}
+
+/**
+ * Subscribe to changes on INVALIDATING_TABLES and invalidate the owner's
+ * cache. Every instance subscribes, so per-process caches stay in sync as
+ * well as a shared one. Off with CACHE_INVALIDATION=off; needs the
+ * database. Returns whether the subscription was started.
+ */
+export async function startCacheInvalidation(): Promise<boolean> {
+  if (invalidationChannel) return true;
+  if (process.env.CACHE_INVALIDATION === "off") return false;
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) return false;
+
+  let channel = supabaseAdmin.channel("server-cache-invalidation");
+  for (const table of Object.keys(INVALIDATING_TABLES)) {
+    channel = channel.on(
+      "postgres_changes",
+      { event: "*", schema: "public", table },
+      (payload) => {
+        const userId = changedUserId(table, payload);
+        if (userId) void invalidateUserCache(userId);
+      }
+    );
+  }
+  channel.subscribe((status, err) => {
+    if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+      logError("Cache invalidation subscription failed", err, { status });
+    }
+  });
+  invalidationChannel = channel;
+  return true;
+}
+
+export async function stopCacheInvalidation(): Promise<void> {
+  const channel = invalidationChannel;
+  invalidationChannel = null;
+  await channel?.unsubscribe();
 }
 
 /**
@@ -335,17 +465,12 @@ export function startCacheCleanup(intervalMs: number = 5 * 60 * 1000): NodeJS.Ti
  * - Suitable for single-server deployment
  * - ~100MB cache size
  * 
- * Future (Production Scale):
- * - Redis/Memcached for distributed caching
- * - Multiple server instances share cache
- * - Pub/sub for cache invalidation across servers
- * - Persistent cache survives server restarts
- * 
- * Migration path:
- * 1. Replace CacheService with RedisClient
- * 2. Use same CacheKeys namespace pattern
- * 3. Configure Redis URL in environment
- * 4. No code changes needed (same interface)
+ * Production Scale:
+ * - Set REDIS_URL: the cache and rate limit counters move to Redis
+ *   (services/cacheStore.ts) and are shared by every instance
+ * - Every instance listens for database changes, so invalidation works
+ *   with or without a shared store
+ * - Same CacheKeys namespace pattern; no code changes needed
  * 
  * Free Redis options:
  * - Upstash Redis (10MB free tier)
@@ -0,0 +1,381 @@
+/**
+ * CACHE STORE
+ *
+ * Key/value backend behind the server cache (services/cacheService.ts) and
+ * the rate limiter (utils/rateLimiter.ts). Values are strings with a TTL;
+ * counters are fixed windows, so limits hold across instances when the
+ * store is shared.
+ *
+ * Backends:
+ * - memory: the process-local CacheService (LRU); one instance only
+ * - redis: any server speaking the Redis protocol (Redis, Valkey, KeyDB,
+ *   Upstash, ...), via the small RESP client below. REDIS_URL is
+ *   redis://[user:password@]host:port[/db], or rediss:// for TLS.
+ *
+ * Selection: CACHE_STORE=memory|redis (default redis when REDIS_URL is set).
+ * REDIS_KEY_PREFIX namespaces keys when the server is shared.
+ *
+ * Exports:
+ * - getCacheStore / setCacheStore: shared store for the process
+ * - createMemoryStore / createRedisStore
+ * - RespClient: minimal Redis protocol client (pipelined, reconnecting)
+ */
+
+import * as net from "node:net";
+import * as tls from "node:tls";
+import { CacheService, serverCache } from "./cacheService.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WindowHit {
+  /** Hits in the current window, including this one */
+  count: number;
+  /** Time until the window resets */
+  resetInMs: number;
+}
+
+export interface CacheStore {
+  readonly kind: "memory" | "redis";
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  /** Count one hit in a fixed window (the first hit opens the window) */
+  hit(key: string, windowMs: number): Promise<WindowHit>;
+  close(): Promise<void>;
+}
+
+// ============================================================================
+// Memory
+// ============================================================================
+
+/** Counter windows kept before expired ones are swept */
+const MAX_MEMORY_WINDOWS = 10_000;
+
+export function createMemoryStore(
+  cache: CacheService = serverCache
+): CacheStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  function sweep(now: number) {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }
+
+  return {
+    kind: "memory",
+    async get(key) {
+      return cache.get<string>(key);
+    },
+    async set(key, value, ttlMs) {
+      cache.set(key, value, ttlMs);
+    },
+    async delete(keys) {
+      for (const key of keys) cache.delete(key);
+    },
+    async hit(key, windowMs) {
+      const now = Date.now();
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        if (windows.size >= MAX_MEMORY_WINDOWS) sweep(now);
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count++;
+      return { count: window.count, resetInMs: window.resetAt - now };
+    },
+    async close() {
+      windows.clear();
+    },
+  };
+}
+
+// ============================================================================
+// Redis protocol (RESP2)
+// ============================================================================
+
+export interface RedisConfig {
+  host: string;
+  port: number;
+  tls: boolean;
+  username?: string;
+  password?: string;
+  db: number;
+  timeoutMs: number;
+}
+
+type RespValue = string | number | null | Error | RespValue[];
+
+/** Parse redis://[user:password@]host:port[/db] (rediss:// for TLS) */
+export function parseRedisUrl(url: string, timeoutMs = 2000): RedisConfig {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "redis:" && parsed.protocol !== "rediss:") {
+    throw new Error("REDIS_URL must start with redis:// or rediss://");
+  }
+  return {
+    host: parsed.hostname,
+    port: Number(parsed.port || 6379),
+    tls: parsed.protocol === "rediss:",
+    username: decodeURIComponent(parsed.username) || undefined,
+    password: decodeURIComponent(parsed.password) || undefined,
+    db: Number(parsed.pathname.slice(1) || 0),
+    timeoutMs,
+  };
+}
+
+function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(""));
+}
+
+/**
+ * Parse one reply starting at `offset`; null when the buffer does not hold
+ * a complete reply yet. Server errors are returned as Error values.
+ */
+export function parseReply(
+  buffer: Buffer,
+  offset = 0
+): { value: RespValue; next: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, next };
+    case "-":
+      return { value: new Error(line), next };
+    case ":":
+      return { value: Number(line), next };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) return { value: null, next };
+      if (buffer.length < next + length + 2) return null;
+      return {
+        value: buffer.toString("utf8", next, next + length),
+        next: next + length + 2,
+      };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return { value: null, next };
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return null;
+        items.push(item.value);
+        cursor = item.next;
+      }
+      return { value: items, next: cursor };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
+
+/**
+ * One pipelined connection. Replies arrive in command order, so pending
+ * commands are a FIFO queue. A dropped connection fails what is in flight
+ * and the next command reconnects.
+ */
+export class RespClient {
+  private socket: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: Array<{
+    resolve: (value: RespValue) => void;
+    reject: (err: Error) => void;
+    timer: NodeJS.Timeout;
+  }> = [];
+
+  constructor(private config: RedisConfig) {}
+
+  async command(args: Array<string | number>): Promise<RespValue> {
+    this.ready ??= this.open().catch((err) => {
+      // Next command retries from scratch
+      this.reset(err);
+      throw err;
+    });
+    await this.ready;
+    const reply = await this.send(args);
+    if (reply instanceof Error) throw reply;
+    return reply;
+  }
+
+  async close(): Promise<void> {
+    if (this.socket) this.reset(new Error("Redis connection closed"));
+  }
+
+  private open(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const { host, port } = this.config;
+      const socket = this.config.tls
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      const timer = setTimeout(
+        () => socket.destroy(new Error("Redis connect timeout")),
+        this.config.timeoutMs
+      );
+      socket.setNoDelay(true);
+      socket.once(this.config.tls ? "secureConnect" : "connect", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      // Events from a socket that was already replaced are ignored
+      socket.on("data", (chunk: Buffer) => {
+        if (this.socket === socket) this.onData(chunk);
+      });
+      socket.on("error", (err) => {
+        clearTimeout(timer);
+        reject(err);
+        if (this.socket === socket) this.reset(err);
+      });
+      socket.on("close", () => {
+        clearTimeout(timer);
+        reject(new Error("Redis connection closed"));
+        if (this.socket === socket) {
+          this.reset(new Error("Redis connection closed"));
+        }
+      });
+      this.socket = socket;
+    }).then(async () => {
+      const { username, password, db } = this.config;
+      const setup: Array<Array<string | number>> = [];
+      if (password) {
+        setup.push(
+          username ? ["AUTH", username, password] : ["AUTH", password]
+        );
+      }
+      if (db) setup.push(["SELECT", db]);
+      for (const reply of await Promise.all(setup.map((c) => this.send(c)))) {
+        if (reply instanceof Error) throw reply;
+      }
+    });
+  }
+
+  private send(args: Array<string | number>): Promise<RespValue> {
+    const socket = this.socket;
+    if (!socket) return Promise.reject(new Error("Redis not connected"));
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => socket.destroy(new Error("Redis command timeout")),
+        this.config.timeoutMs
+      );
+      this.pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer =
+      this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    for (;;) {
+      const reply = parseReply(this.buffer, offset);
+      if (!reply) break;
+      offset = reply.next;
+      const waiter = this.pending.shift();
+      if (waiter) {
+        clearTimeout(waiter.timer);
+        waiter.resolve(reply.value);
+      }
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  /** Fail in-flight commands and drop the socket */
+  private reset(err: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const waiter of pending) {
+      clearTimeout(waiter.timer);
+      waiter.reject(err);
+    }
+    const socket = this.socket;
+    this.socket = null;
+    socket?.destroy();
+    this.ready = null;
+    this.buffer = Buffer.alloc(0);
+  }
+}
+
+/** INCR + expiry on first hit, atomically; repairs a missing expiry */
+const HIT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[1]) end
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return {count, ttl}
+`;
+
+export function createRedisStore(config: RedisConfig, prefix = ""): CacheStore {
+  const client = new RespClient(config);
+  const k = (key: string) => prefix + key;
+
+  return {
+    kind: "redis",
+    async get(key) {
+      const value = await client.command(["GET", k(key)]);
+      return typeof value === "string" ? value : null;
+    },
+    async set(key, value, ttlMs) {
+      await client.command(["SET", k(key), value, "PX", Math.ceil(ttlMs)]);
+    },
+    async delete(keys) {
+      if (keys.length === 0) return;
+      await client.command(["DEL", ...keys.map(k)]);
+    },
+    async hit(key, windowMs) {
+      const reply = await client.command([
+        "EVAL",
+        HIT_SCRIPT,
+        1,
+        k(key),
+        Math.ceil(windowMs),
+      ]);
+      const [count, ttl] = reply as number[];
+      return { count, resetInMs: ttl };
+    },
+    close: () => client.close(),
+  };
+}
+
+// ============================================================================
+// Shared store
+// ============================================================================
+
+let store: CacheStore | null = null;
+
+/** The process-wide store, created from the environment on first use */
+export function getCacheStore(): CacheStore {
+  if (store) return store;
+  const url = process.env.REDIS_URL;
+  const kind = process.env.CACHE_STORE || (url ? "redis" : "memory");
+  if (kind === "redis") {
+    if (!url) throw new Error("CACHE_STORE=redis requires REDIS_URL");
+    store = createRedisStore(
+      parseRedisUrl(url, Number(process.env.REDIS_TIMEOUT_MS || 2000)),
+      process.env.REDIS_KEY_PREFIX || ""
+    );
+  } else {
+    store = createMemoryStore();
+  }
+  return store;
+}
+
+/** Replace the shared store (tests); null re-reads the environment */
+export function setCacheStore(next: CacheStore | null): void {
+  store = next;
+}
@@ -36,6 +36,8 @@
 import { logInfo, logWarn, logError } from "../../utils/logger.js";
 import { scrapeWithBrowser } from "./scraper.js";
 import { generate } from "./aiClient.js";
+import { CacheKeys, CacheTTL, cached } from "./cacheService.js";
+import type { ProgressReporter } from "./jobQueueService.js";
 
 // Helper to get supabase client with proper error handling
 async function getSupabaseAdmin() {
@@ -454,12 +456,14 @@ async function saveCompanyToDatabase(research: CompanyResearch): Promise<void> {
 async function generateCompanyResearchWithAI(
   companyName: string,
   industry?: string | null,
-  jobDescription?: string | null
+  jobDescription?: string | null,
+  progress?: ProgressReporter
 ): Promise<CompanyResearch | null> {
   logInfo("Generating AI-powered company research", { companyName });
 
   try {
     // Step 1: Search for company website and news
+    await progress?.(20, `Searching the web for ${companyName}`);
     const searchQuery = `${companyName} ${
       industry || ""
     } company official website news`;
@@ -553,6 +557,7 @@ CRITICAL REQUIREMENTS:
 6. Return ONLY the JSON object, no additional text or markdown formatting.`;
 
     // Step 3: Call AI to generate structured research
+    await progress?.(50, "Analyzing company information");
     const aiResponse = await generate("company-research", prompt, {
       model: process.env.AI_MODEL || "gpt-4o-mini",
       maxTokens: 2000,
@@ -629,12 +634,42 @@ CRITICAL REQUIREMENTS:
  * - Database query failure → proceed to generation
  * - AI generation failure → fallback to basic mock data
  * - Save failure → log error but return data (non-blocking)
+ *
+ * Results are also kept in the shared server cache by normalized name, so
+ * repeat lookups skip the database.
+ *
+ * The optional progress reporter (company_research background job) is
+ * called between steps.
  */
 export async function fetchCompanyResearch(
   companyName: string,
   industry?: string | null,
   jobDescription?: string | null,
-  userId?: string
+  userId?: string,
+  progress?: ProgressReporter
+): Promise<CompanyResearch | null> {
+  const load = () =>
+    loadCompanyResearch(
+      companyName,
+      industry,
+      jobDescription,
+      userId,
+      progress
+    );
+  if (!companyName?.trim()) return load();
+  return cached(
+    CacheKeys.companyResearch(normalizeCompanyName(companyName)),
+    CacheTTL.companyResearch,
+    load
+  );
+}
+
+async function loadCompanyResearch(
+  companyName: string,
+  industry?: string | null,
+  jobDescription?: string | null,
+  userId?: string,
+  progress?: ProgressReporter
 ): Promise<CompanyResearch | null> {
   try {
     // Validate inputs
@@ -653,6 +688,7 @@ export async function fetchCompanyResearch(
     });
 
     // Step 1: Check database (companies + cache)
+    await progress?.(10, "Checking saved research");
     const existing = await getCompanyFromDatabase(companyName);
     if (existing && existing.source === "cached") {
       // Have both persistent data + fresh cache
@@ -681,7 +717,8 @@ export async function fetchCompanyResearch(
     const research = await generateCompanyResearchWithAI(
       companyName,
       industry,
-      jobDescription
+      jobDescription,
+      progress
     );
 
     // If AI couldn't find the company, return null
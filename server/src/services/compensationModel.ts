@@ -0,0 +1,562 @@
+/**
+ * COMPENSATION MODEL: multi-year total compensation for job offers
+ *
+ * PURPOSE: Turn the inputs stored in job_offers into comparable numbers, so
+ * the offer comparison dialog (via POST /api/offers/projection) and
+ * /api/analytics/salary value offers the same way.
+ *
+ * Month-by-month cash flows over the horizon (default 4 years, max 10):
+ * - base: base_salary / 12, raised by annual_raise_pct every year
+ * - bonus: bonus_target paid at the end of each year (raised with base)
+ * - signing: signing_bonus spread over signing_amortization_months
+ * - equity: equity_grant_value vesting monthly/quarterly/annually over
+ *   vesting_years; everything scheduled before the cliff vests at the cliff.
+ *   vesting_year_percents gives a back-loaded schedule (e.g. [5,15,40,40])
+ * - refreshers: refresher_annual_value granted every year from
+ *   refresher_start_year, vesting evenly over vesting_years with no cliff
+ * - retirementMatch: retirement_match_pct % of contributions up to
+ *   retirement_match_limit_pct % of base (assumes the limit is contributed)
+ * - benefits: benefits_value / 12
+ *
+ * Taxes use the bundled tables (compensationTables.ts) on the yearly taxable
+ * flows (everything except the match and benefits); each month is taxed at
+ * its year's effective rate. The COL-adjusted value is net / cost-of-living
+ * index (col_index override, else a lookup by location, else 1.0).
+ *
+ * Break-even points compare cumulative COL-adjusted value per pair of offers
+ * and report the first month the offer ahead at the start is caught up.
+ *
+ * Usage:
+ * import { compareOffers } from '../services/compensationModel.js';
+ * const comparison = compareOffers(offers, 4);
+ */
+
+import {
+  COUNTRY_TAX_TABLES,
+  US_STATE_TAX_TABLES,
+  COST_OF_LIVING_INDEX,
+  type TaxSchedule,
+} from "./compensationTables.js";
+
+export type VestingFrequency = "monthly" | "quarterly" | "annual";
+
+/** Model inputs (same names as the job_offers columns) */
+export interface OfferInput {
+  id: string;
+  label?: string | null;
+  base_salary: number;
+  annual_raise_pct?: number | null;
+  bonus_target?: number | null;
+  signing_bonus?: number | null;
+  signing_amortization_months?: number | null;
+  equity_grant_value?: number | null;
+  vesting_years?: number | null;
+  vesting_cliff_months?: number | null;
+  vesting_frequency?: VestingFrequency | null;
+  vesting_year_percents?: number[] | null;
+  refresher_annual_value?: number | null;
+  refresher_start_year?: number | null;
+  retirement_match_pct?: number | null;
+  retirement_match_limit_pct?: number | null;
+  benefits_value?: number | null;
+  location?: string | null;
+  tax_country?: string | null;
+  tax_state?: string | null;
+  col_index?: number | null;
+}
+
+export interface CompensationComponents {
+  base: number;
+  bonus: number;
+  signing: number;
+  equity: number;
+  refreshers: number;
+  retirementMatch: number;
+  benefits: number;
+}
+
+export interface TaxEstimate {
+  incomeTax: number;
+  stateTax: number;
+  contributions: number;
+  total: number;
+  effectiveRate: number;
+  /** false when the country has no bundled table (flat fallback rate used) */
+  supported: boolean;
+}
+
+export interface ProjectionYear {
+  year: number;
+  components: CompensationComponents;
+  gross: number;
+  taxable: number;
+  tax: TaxEstimate;
+  net: number;
+  adjusted: number;
+}
+
+export interface ProjectionTotals {
+  years: number;
+  gross: number;
+  net: number;
+  adjusted: number;
+}
+
+export interface OfferProjection {
+  id: string;
+  label: string | null;
+  colIndex: number;
+  colSource: "override" | "location" | "default";
+  taxRegion: string;
+  years: ProjectionYear[];
+  /** Cumulative totals at 1, 2 and 4 years (those within the horizon) */
+  totals: ProjectionTotals[];
+  /** Cumulative COL-adjusted net value at the end of each month */
+  cumulativeAdjusted: number[];
+}
+
+export interface BreakEvenPoint {
+  offerA: string;
+  offerB: string;
+  /** Offer ahead after the first month (null when identical throughout) */
+  initialLeader: string | null;
+  /** Offer ahead at the end of the horizon */
+  finalLeader: string | null;
+  /** First month the initial leader is caught up, null if never */
+  month: number | null;
+}
+
+export interface OfferComparison {
+  horizonYears: number;
+  offers: OfferProjection[];
+  breakEven: BreakEvenPoint[];
+}
+
+export const DEFAULT_HORIZON_YEARS = 4;
+export const MAX_HORIZON_YEARS = 10;
+const TOTAL_YEARS = [1, 2, 4];
+
+/** Used for countries without a bundled table */
+const FALLBACK_TAX_RATE = 0.25;
+
+const FREQUENCY_MONTHS: Record<VestingFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12,
+};
+
+function num(value: unknown, fallback = 0): number {
+  const n = typeof value === "string" ? Number(value) : (value as number);
+  return typeof n === "number" && Number.isFinite(n) ? n : fallback;
+}
+
+function clampInt(value: unknown, fallback: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, Math.round(num(value, fallback))));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// ============================================================================
+// TAXES
+// ============================================================================
+
+/** Income tax for one schedule (deduction, brackets, taper, rebate, surcharge) */
+export function computeScheduleTax(
+  income: number,
+  schedule: TaxSchedule
+): number {
+  let allowance = schedule.deduction ?? 0;
+  if (schedule.allowanceTaper && income > schedule.allowanceTaper.from) {
+    const reduction =
+      (income - schedule.allowanceTaper.from) * schedule.allowanceTaper.ratio;
+    allowance = Math.max(0, allowance - reduction);
+  }
+  const taxable = Math.max(0, income - allowance);
+  if (schedule.rebateUpTo !== undefined && taxable <= schedule.rebateUpTo) {
+    return 0;
+  }
+
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of schedule.brackets) {
+    const upper = bracket.upTo ?? Infinity;
+    if (taxable <= lower) break;
+    tax += (Math.min(taxable, upper) - lower) * bracket.rate;
+    lower = upper;
+  }
+  return tax * (1 + (schedule.surcharge ?? 0));
+}
+
+/** Annual tax on `income` for a country (ISO code) and optional US state */
+export function computeAnnualTax(
+  income: number,
+  country = "US",
+  state?: string | null
+): TaxEstimate {
+  const amount = Math.max(0, income);
+  const table = COUNTRY_TAX_TABLES[country.toUpperCase()];
+
+  if (!table) {
+    const total = amount * FALLBACK_TAX_RATE;
+    return {
+      incomeTax: round2(total),
+      stateTax: 0,
+      contributions: 0,
+      total: round2(total),
+      effectiveRate: amount ? FALLBACK_TAX_RATE : 0,
+      supported: false,
+    };
+  }
+
+  const incomeTax = computeScheduleTax(amount, table.income);
+
+  let stateTax = 0;
+  if (country.toUpperCase() === "US" && state) {
+    const stateTable = US_STATE_TAX_TABLES[state.toUpperCase()];
+    if (stateTable?.income) {
+      stateTax = computeScheduleTax(amount, stateTable.income);
+    }
+  }
+
+  const contributions = table.contributions.reduce((sum, c) => {
+    const base = Math.min(amount, c.upTo ?? Infinity) - (c.from ?? 0);
+    return sum + Math.max(0, base) * c.rate;
+  }, 0);
+
+  const total = incomeTax + stateTax + contributions;
+  return {
+    incomeTax: round2(incomeTax),
+    stateTax: round2(stateTax),
+    contributions: round2(contributions),
+    total: round2(total),
+    effectiveRate: amount ? total / amount : 0,
+    supported: true,
+  };
+}
+
+// ============================================================================
+// COST OF LIVING
+// ============================================================================
+
+/** Cost-of-living index for a free-text location (1.0 when unknown) */
+export function lookupColIndex(location?: string | null): number | null {
+  const key = (location ?? "").trim().toLowerCase();
+  if (!key) return null;
+  if (COST_OF_LIVING_INDEX[key] !== undefined) return COST_OF_LIVING_INDEX[key];
+
+  // Longest key contained in the location wins ("new york" over "york")
+  const match = Object.keys(COST_OF_LIVING_INDEX)
+    .filter((k) => k.length > 2 && key.includes(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? COST_OF_LIVING_INDEX[match] : null;
+}
+
+function resolveColIndex(
+  offer: OfferInput
+): Pick<OfferProjection, "colIndex" | "colSource"> {
+  const override = num(offer.col_index);
+  if (override > 0) return { colIndex: override, colSource: "override" };
+  const looked = lookupColIndex(offer.location);
+  if (looked) return { colIndex: looked, colSource: "location" };
+  return { colIndex: 1, colSource: "default" };
+}
+
+// ============================================================================
+// CASH FLOWS
+// ============================================================================
+
+/**
+ * Vesting amounts by month (1-based) for one grant starting at `startMonth`
+ * (0 = hire date). Amounts scheduled before the cliff vest at the cliff.
+ */
+export function vestingSchedule(
+  grantValue: number,
+  opts: {
+    years: number;
+    frequency: VestingFrequency;
+    cliffMonths?: number;
+    yearPercents?: number[] | null;
+    startMonth?: number;
+  }
+): Map<number, number> {
+  const schedule = new Map<number, number>();
+  if (grantValue <= 0) return schedule;
+
+  const period = FREQUENCY_MONTHS[opts.frequency] ?? 1;
+  const eventsPerYear = 12 / period;
+  const start = opts.startMonth ?? 0;
+  const cliff = opts.cliffMonths ?? 0;
+  const percents =
+    opts.yearPercents?.length === opts.years &&
+    opts.yearPercents.reduce((s, p) => s + num(p), 0) > 0
+      ? opts.yearPercents.map((p) => num(p))
+      : null;
+  const percentTotal = percents?.reduce((s, p) => s + p, 0) ?? 0;
+
+  for (let year = 1; year <= opts.years; year++) {
+    const yearValue = percents
+      ? (grantValue * percents[year - 1]) / percentTotal
+      : grantValue / opts.years;
+    for (let event = 1; event <= eventsPerYear; event++) {
+      const offset = (year - 1) * 12 + event * period;
+      const month = start + Math.max(offset, cliff);
+      schedule.set(
+        month,
+        (schedule.get(month) ?? 0) + yearValue / eventsPerYear
+      );
+    }
+  }
+  return schedule;
+}
+
+type MonthlyFlows = CompensationComponents[];
+
+function emptyComponents(): CompensationComponents {
+  return {
+    base: 0,
+    bonus: 0,
+    signing: 0,
+    equity: 0,
+    refreshers: 0,
+    retirementMatch: 0,
+    benefits: 0,
+  };
+}
+
+function monthlyFlows(offer: OfferInput, horizonYears: number): MonthlyFlows {
+  const months = horizonYears * 12;
+  const flows: MonthlyFlows = Array.from({ length: months }, emptyComponents);
+
+  const base = Math.max(0, num(offer.base_salary));
+  const raise = num(offer.annual_raise_pct) / 100;
+  const bonus = Math.max(0, num(offer.bonus_target));
+  const signing = Math.max(0, num(offer.signing_bonus));
+  const signingMonths = clampInt(offer.signing_amortization_months, 12, 1, 60);
+  const vestingYears = clampInt(offer.vesting_years, 4, 1, 10);
+  const frequency: VestingFrequency =
+    offer.vesting_frequency && offer.vesting_frequency in FREQUENCY_MONTHS
+      ? offer.vesting_frequency
+      : "monthly";
+  const matchRate =
+    (num(offer.retirement_match_pct) / 100) *
+    (num(offer.retirement_match_limit_pct) / 100);
+  const benefits = Math.max(0, num(offer.benefits_value));
+
+  for (let m = 1; m <= months; m++) {
+    const year = Math.ceil(m / 12);
+    const growth = Math.pow(1 + raise, year - 1);
+    const flow = flows[m - 1];
+    flow.base = (base * growth) / 12;
+    flow.retirementMatch = flow.base * matchRate;
+    flow.benefits = benefits / 12;
+    if (m % 12 === 0) flow.bonus = bonus * growth;
+    if (m <= signingMonths) flow.signing = signing / signingMonths;
+  }
+
+  const addGrant = (
+    grant: Map<number, number>,
+    key: "equity" | "refreshers"
+  ) => {
+    for (const [month, amount] of grant) {
+      if (month >= 1 && month <= months) flows[month - 1][key] += amount;
+    }
+  };
+
+  addGrant(
+    vestingSchedule(Math.max(0, num(offer.equity_grant_value)), {
+      years: vestingYears,
+      frequency,
+      cliffMonths: clampInt(offer.vesting_cliff_months, 12, 0, 60),
+      yearPercents: offer.vesting_year_percents,
+    }),
+    "equity"
+  );
+
+  const refresher = Math.max(0, num(offer.refresher_annual_value));
+  const refresherStart = clampInt(offer.refresher_start_year, 2, 1, 10);
+  for (let year = refresherStart; year <= horizonYears; year++) {
+    addGrant(
+      vestingSchedule(refresher, {
+        years: vestingYears,
+        frequency,
+        startMonth: (year - 1) * 12,
+      }),
+      "refreshers"
+    );
+  }
+
+  return flows;
+}
+
+function sumComponents(
+  flows: CompensationComponents[]
+): CompensationComponents {
+  const total = emptyComponents();
+  for (const flow of flows) {
+    for (const key of Object.keys(total) as Array<
+      keyof CompensationComponents
+    >) {
+      total[key] += flow[key];
+    }
+  }
+  return total;
+}
+
+function taxableOf(c: CompensationComponents): number {
+  return c.base + c.bonus + c.signing + c.equity + c.refreshers;
+}
+
+function grossOf(c: CompensationComponents): number {
+  return taxableOf(c) + c.retirementMatch + c.benefits;
+}
+
+// ============================================================================
+// PROJECTION & COMPARISON
+// ============================================================================
+
+export function normalizeHorizon(value: unknown): number {
+  return clampInt(value, DEFAULT_HORIZON_YEARS, 1, MAX_HORIZON_YEARS);
+}
+
+/** Project one offer over `horizonYears` */
+export function projectOffer(
+  offer: OfferInput,
+  horizonYears = DEFAULT_HORIZON_YEARS
+): OfferProjection {
+  const horizon = normalizeHorizon(horizonYears);
+  const country = (offer.tax_country || "US").toUpperCase();
+  const state =
+    country === "US" ? offer.tax_state?.toUpperCase() || null : null;
+  const col = resolveColIndex(offer);
+  const flows = monthlyFlows(offer, horizon);
+
+  const years: ProjectionYear[] = [];
+  const cumulativeAdjusted: number[] = [];
+  let running = 0;
+
+  for (let y = 1; y <= horizon; y++) {
+    const yearFlows = flows.slice((y - 1) * 12, y * 12);
+    const components = sumComponents(yearFlows);
+    const taxable = taxableOf(components);
+    const gross = grossOf(components);
+    const tax = computeAnnualTax(taxable, country, state);
+    const net = gross - tax.total;
+
+    for (const flow of yearFlows) {
+      const monthNet = grossOf(flow) - taxableOf(flow) * tax.effectiveRate;
+      running += monthNet / col.colIndex;
+      cumulativeAdjusted.push(round2(running));
+    }
+
+    years.push({
+      year: y,
+      components: Object.fromEntries(
+        Object.entries(components).map(([k, v]) => [k, round2(v)])
+      ) as unknown as CompensationComponents,
+      gross: round2(gross),
+      taxable: round2(taxable),
+      tax,
+      net: round2(net),
+      adjusted: round2(net / col.colIndex),
+    });
+  }
+
+  const totals = TOTAL_YEARS.filter((n) => n <= horizon).map((n) => {
+    const slice = years.slice(0, n);
+    return {
+      years: n,
+      gross: round2(slice.reduce((s, y) => s + y.gross, 0)),
+      net: round2(slice.reduce((s, y) => s + y.net, 0)),
+      adjusted: round2(slice.reduce((s, y) => s + y.adjusted, 0)),
+    };
+  });
+
+  return {
+    id: offer.id,
+    label: offer.label ?? null,
+    ...col,
+    taxRegion: state ? `${country}-${state}` : country,
+    years,
+    totals,
+    cumulativeAdjusted,
+  };
+}
+
+/** Break-even between two projections on cumulative COL-adjusted value */
+export function findBreakEven(
+  a: OfferProjection,
+  b: OfferProjection
+): BreakEvenPoint {
+  const leaderOf = (diff: number) =>
+    Math.abs(diff) < 0.005 ? null : diff > 0 ? a.id : b.id;
+
+  let initialLeader: string | null = null;
+  let month: number | null = null;
+  const months = Math.min(
+    a.cumulativeAdjusted.length,
+    b.cumulativeAdjusted.length
+  );
+
+  for (let m = 0; m < months; m++) {
+    const leader = leaderOf(a.cumulativeAdjusted[m] - b.cumulativeAdjusted[m]);
+    if (!initialLeader) {
+      initialLeader = leader;
+      continue;
+    }
+    if (leader !== initialLeader) {
+      month = m + 1;
+      break;
+    }
+  }
+
+  const last = months - 1;
+  return {
+    offerA: a.id,
+    offerB: b.id,
+    initialLeader,
+    finalLeader:
+      last >= 0
+        ? leaderOf(a.cumulativeAdjusted[last] - b.cumulativeAdjusted[last])
+        : null,
+    month,
+  };
+}
+
+/** Project every offer and compute break-even points for each pair */
+export function compareOffers(
+  offers: OfferInput[],
+  horizonYears = DEFAULT_HORIZON_YEARS
+): OfferComparison {
+  const horizon = normalizeHorizon(horizonYears);
+  const projections = offers.map((offer) => projectOffer(offer, horizon));
+
+  const breakEven: BreakEvenPoint[] = [];
+  for (let i = 0; i < projections.length; i++) {
+    for (let j = i + 1; j < projections.length; j++) {
+      breakEven.push(findBreakEven(projections[i], projections[j]));
+    }
+  }
+
+  return { horizonYears: horizon, offers: projections, breakEven };
+}
+
+/** Supported tax regions and cost-of-living locations (for UI pickers) */
+export function listCompensationRegions() {
+  return {
+    countries: Object.entries(COUNTRY_TAX_TABLES).map(([code, t]) => ({
+      code,
+      name: t.name,
+      currency: t.currency,
+    })),
+    states: Object.entries(US_STATE_TAX_TABLES).map(([code, t]) => ({
+      code,
+      name: t.name,
+      hasIncomeTax: t.income !== null,
+    })),
+    colLocations: Object.entries(COST_OF_LIVING_INDEX).map(
+      ([location, index]) => ({ location, index })
+    ),
+  };
+}
@@ -0,0 +1,429 @@
+/**
+ * COMPENSATION TABLES
+ *
+ * Bundled reference data for the offer compensation model:
+ * - Income tax schedules (single filer / individual) for the US federal
+ *   government, every US state + DC and a set of countries
+ * - Payroll / social contributions (FICA, UK National Insurance, CPP, ...)
+ * - Cost-of-living index by city or country (1.0 = US average)
+ *
+ * Figures are 2025 tax-year values, simplified: no credits, itemizing or
+ * local/city taxes. States with many brackets are approximated by the
+ * marginal rate a typical professional salary falls into. Good enough to
+ * compare offers side by side, not to file a return.
+ */
+
+export interface TaxBracket {
+  /** Upper bound of taxable income for this bracket (null = no limit) */
+  upTo: number | null;
+  /** Marginal rate as a fraction (0.22 = 22%) */
+  rate: number;
+}
+
+export interface TaxSchedule {
+  /** Standard deduction / personal allowance subtracted before brackets */
+  deduction?: number;
+  brackets: TaxBracket[];
+  /** Allowance withdrawn by `ratio` per unit of income above `from` (UK) */
+  allowanceTaper?: { from: number; ratio: number };
+  /** No income tax when taxable income is at or below this (India rebate) */
+  rebateUpTo?: number;
+  /** Surcharge on the computed tax as a fraction (e.g. 0.04 cess) */
+  surcharge?: number;
+}
+
+export interface Contribution {
+  name: string;
+  rate: number;
+  /** Applies to income above this amount */
+  from?: number;
+  /** Applies to income up to this amount (wage base / ceiling) */
+  upTo?: number;
+}
+
+export interface CountryTaxTable {
+  name: string;
+  currency: string;
+  income: TaxSchedule;
+  contributions: Contribution[];
+}
+
+export interface StateTaxTable {
+  name: string;
+  income: TaxSchedule | null;
+}
+
+/** Flat-rate schedule helper for states approximated by a single rate */
+function flat(rate: number, deduction = 0): TaxSchedule {
+  return { deduction, brackets: [{ upTo: null, rate }] };
+}
+
+// ============================================================================
+// COUNTRIES
+// ============================================================================
+
+export const COUNTRY_TAX_TABLES: Record<string, CountryTaxTable> = {
+  US: {
+    name: "United States",
+    currency: "USD",
+    income: {
+      deduction: 15_000,
+      brackets: [
+        { upTo: 11_925, rate: 0.1 },
+        { upTo: 48_475, rate: 0.12 },
+        { upTo: 103_350, rate: 0.22 },
+        { upTo: 197_300, rate: 0.24 },
+        { upTo: 250_525, rate: 0.32 },
+        { upTo: 626_350, rate: 0.35 },
+        { upTo: null, rate: 0.37 },
+      ],
+    },
+    contributions: [
+      { name: "Social Security", rate: 0.062, upTo: 176_100 },
+      { name: "Medicare", rate: 0.0145 },
+      { name: "Additional Medicare", rate: 0.009, from: 200_000 },
+    ],
+  },
+  GB: {
+    name: "United Kingdom",
+    currency: "GBP",
+    income: {
+      deduction: 12_570,
+      allowanceTaper: { from: 100_000, ratio: 0.5 },
+      brackets: [
+        { upTo: 37_700, rate: 0.2 },
+        { upTo: 125_140, rate: 0.4 },
+        { upTo: null, rate: 0.45 },
+      ],
+    },
+    contributions: [
+      { name: "National Insurance", rate: 0.08, from: 12_570, upTo: 50_270 },
+      { name: "National Insurance (upper)", rate: 0.02, from: 50_270 },
+    ],
+  },
+  CA: {
+    name: "Canada",
+    currency: "CAD",
+    // Federal brackets plus ~9% average provincial tax folded into each band
+    income: {
+      deduction: 16_129,
+      brackets: [
+        { upTo: 57_375, rate: 0.15 + 0.0505 },
+        { upTo: 114_750, rate: 0.205 + 0.0915 },
+        { upTo: 177_882, rate: 0.26 + 0.1116 },
+        { upTo: 253_414, rate: 0.29 + 0.1216 },
+        { upTo: null, rate: 0.33 + 0.1316 },
+      ],
+    },
+    contributions: [
+      { name: "CPP", rate: 0.0595, from: 3_500, upTo: 71_300 },
+      { name: "EI", rate: 0.0164, upTo: 65_700 },
+    ],
+  },
+  DE: {
+    name: "Germany",
+    currency: "EUR",
+    // Progressive zone approximated by a single 24% band
+    income: {
+      deduction: 12_096,
+      brackets: [
+        { upTo: 56_384, rate: 0.24 },
+        { upTo: 265_729, rate: 0.42 },
+        { upTo: null, rate: 0.45 },
+      ],
+    },
+    contributions: [
+      { name: "Pension & unemployment", rate: 0.106, upTo: 96_600 },
+      { name: "Health & care", rate: 0.1055, upTo: 66_150 },
+    ],
+  },
+  IN: {
+    name: "India",
+    currency: "INR",
+    income: {
+      deduction: 75_000,
+      rebateUpTo: 1_200_000,
+      surcharge: 0.04,
+      brackets: [
+        { upTo: 400_000, rate: 0 },
+        { upTo: 800_000, rate: 0.05 },
+        { upTo: 1_200_000, rate: 0.1 },
+        { upTo: 1_600_000, rate: 0.15 },
+        { upTo: 2_000_000, rate: 0.2 },
+        { upTo: 2_400_000, rate: 0.25 },
+        { upTo: null, rate: 0.3 },
+      ],
+    },
+    contributions: [{ name: "EPF", rate: 0.12, upTo: 180_000 }],
+  },
+  AU: {
+    name: "Australia",
+    currency: "AUD",
+    income: {
+      brackets: [
+        { upTo: 18_200, rate: 0 },
+        { upTo: 45_000, rate: 0.16 },
+        { upTo: 135_000, rate: 0.3 },
+        { upTo: 190_000, rate: 0.37 },
+        { upTo: null, rate: 0.45 },
+      ],
+    },
+    contributions: [{ name: "Medicare levy", rate: 0.02 }],
+  },
+  SG: {
+    name: "Singapore",
+    currency: "SGD",
+    income: {
+      brackets: [
+        { upTo: 20_000, rate: 0 },
+        { upTo: 30_000, rate: 0.02 },
+        { upTo: 40_000, rate: 0.035 },
+        { upTo: 80_000, rate: 0.07 },
+        { upTo: 120_000, rate: 0.115 },
+        { upTo: 160_000, rate: 0.15 },
+        { upTo: 200_000, rate: 0.18 },
+        { upTo: 240_000, rate: 0.19 },
+        { upTo: 280_000, rate: 0.195 },
+        { upTo: 320_000, rate: 0.2 },
+        { upTo: 500_000, rate: 0.22 },
+        { upTo: 1_000_000, rate: 0.23 },
+        { upTo: null, rate: 0.24 },
+      ],
+    },
+    contributions: [{ name: "CPF", rate: 0.2, upTo: 88_800 }],
+  },
+  IE: {
+    name: "Ireland",
+    currency: "EUR",
+    // Personal and employee credits (4,000) expressed as a 20% band allowance
+    income: {
+      deduction: 20_000,
+      brackets: [
+        { upTo: 24_000, rate: 0.2 },
+        { upTo: null, rate: 0.4 },
+      ],
+    },
+    contributions: [
+      { name: "USC", rate: 0.03 },
+      { name: "PRSI", rate: 0.041 },
+    ],
+  },
+  NL: {
+    name: "Netherlands",
+    currency: "EUR",
+    income: {
+      brackets: [
+        { upTo: 38_441, rate: 0.3582 },
+        { upTo: 76_817, rate: 0.3748 },
+        { upTo: null, rate: 0.495 },
+      ],
+    },
+    contributions: [],
+  },
+  FR: {
+    name: "France",
+    currency: "EUR",
+    income: {
+      brackets: [
+        { upTo: 11_497, rate: 0 },
+        { upTo: 29_315, rate: 0.11 },
+        { upTo: 83_823, rate: 0.3 },
+        { upTo: 180_294, rate: 0.41 },
+        { upTo: null, rate: 0.45 },
+      ],
+    },
+    contributions: [{ name: "Social charges", rate: 0.22 }],
+  },
+  ES: {
+    name: "Spain",
+    currency: "EUR",
+    income: {
+      deduction: 5_550,
+      brackets: [
+        { upTo: 12_450, rate: 0.19 },
+        { upTo: 20_200, rate: 0.24 },
+        { upTo: 35_200, rate: 0.3 },
+        { upTo: 60_000, rate: 0.37 },
+        { upTo: 300_000, rate: 0.45 },
+        { upTo: null, rate: 0.47 },
+      ],
+    },
+    contributions: [{ name: "Social security", rate: 0.0647, upTo: 58_914 }],
+  },
+};
+
+// ============================================================================
+// US STATES
+// ============================================================================
+
+export const US_STATE_TAX_TABLES: Record<string, StateTaxTable> = {
+  AL: { name: "Alabama", income: flat(0.05, 3_000) },
+  AK: { name: "Alaska", income: null },
+  AZ: { name: "Arizona", income: flat(0.025, 15_000) },
+  AR: { name: "Arkansas", income: flat(0.039, 2_410) },
+  CA: {
+    name: "California",
+    income: {
+      deduction: 5_540,
+      brackets: [
+        { upTo: 10_756, rate: 0.01 },
+        { upTo: 25_499, rate: 0.02 },
+        { upTo: 40_245, rate: 0.04 },
+        { upTo: 55_866, rate: 0.06 },
+        { upTo: 70_606, rate: 0.08 },
+        { upTo: 360_659, rate: 0.093 },
+        { upTo: 432_787, rate: 0.103 },
+        { upTo: 721_314, rate: 0.113 },
+        { upTo: 1_000_000, rate: 0.123 },
+        { upTo: null, rate: 0.133 },
+      ],
+    },
+  },
+  CO: { name: "Colorado", income: flat(0.044, 15_000) },
+  CT: { name: "Connecticut", income: flat(0.055) },
+  DE: { name: "Delaware", income: flat(0.066, 3_250) },
+  DC: { name: "District of Columbia", income: flat(0.085, 15_000) },
+  FL: { name: "Florida", income: null },
+  GA: { name: "Georgia", income: flat(0.0539, 12_000) },
+  HI: { name: "Hawaii", income: flat(0.079, 4_400) },
+  ID: { name: "Idaho", income: flat(0.05695, 15_000) },
+  IL: { name: "Illinois", income: flat(0.0495, 2_850) },
+  IN: { name: "Indiana", income: flat(0.03, 1_000) },
+  IA: { name: "Iowa", income: flat(0.038) },
+  KS: { name: "Kansas", income: flat(0.0558, 3_605) },
+  KY: { name: "Kentucky", income: flat(0.04, 3_270) },
+  LA: { name: "Louisiana", income: flat(0.03, 12_500) },
+  ME: { name: "Maine", income: flat(0.0675, 15_000) },
+  MD: { name: "Maryland", income: flat(0.0475, 2_700) },
+  MA: {
+    name: "Massachusetts",
+    income: {
+      deduction: 4_400,
+      brackets: [
+        { upTo: 1_083_150, rate: 0.05 },
+        { upTo: null, rate: 0.09 },
+      ],
+    },
+  },
+  MI: { name: "Michigan", income: flat(0.0425, 5_800) },
+  MN: { name: "Minnesota", income: flat(0.068, 14_950) },
+  MS: { name: "Mississippi", income: flat(0.044, 2_300) },
+  MO: { name: "Missouri", income: flat(0.047, 15_000) },
+  MT: { name: "Montana", income: flat(0.059, 15_000) },
+  NE: { name: "Nebraska", income: flat(0.052, 8_600) },
+  NV: { name: "Nevada", income: null },
+  NH: { name: "New Hampshire", income: null },
+  NJ: { name: "New Jersey", income: flat(0.0637, 1_000) },
+  NM: { name: "New Mexico", income: flat(0.049, 15_000) },
+  NY: {
+    name: "New York",
+    income: {
+      deduction: 8_000,
+      brackets: [
+        { upTo: 8_500, rate: 0.04 },
+        { upTo: 11_700, rate: 0.045 },
+        { upTo: 13_900, rate: 0.0525 },
+        { upTo: 80_650, rate: 0.055 },
+        { upTo: 215_400, rate: 0.06 },
+        { upTo: 1_077_550, rate: 0.0685 },
+        { upTo: 5_000_000, rate: 0.0965 },
+        { upTo: 25_000_000, rate: 0.103 },
+        { upTo: null, rate: 0.109 },
+      ],
+    },
+  },
+  NC: { name: "North Carolina", income: flat(0.0425, 12_750) },
+  ND: { name: "North Dakota", income: flat(0.0195, 15_000) },
+  OH: { name: "Ohio", income: flat(0.035, 26_050) },
+  OK: { name: "Oklahoma", income: flat(0.0475, 6_350) },
+  OR: { name: "Oregon", income: flat(0.0875, 2_800) },
+  PA: { name: "Pennsylvania", income: flat(0.0307) },
+  RI: { name: "Rhode Island", income: flat(0.0475, 10_900) },
+  SC: { name: "South Carolina", income: flat(0.062, 15_000) },
+  SD: { name: "South Dakota", income: null },
+  TN: { name: "Tennessee", income: null },
+  TX: { name: "Texas", income: null },
+  UT: { name: "Utah", income: flat(0.0455) },
+  VT: { name: "Vermont", income: flat(0.066, 7_400) },
+  VA: { name: "Virginia", income: flat(0.0575, 8_500) },
+  WA: { name: "Washington", income: null },
+  WV: { name: "West Virginia", income: flat(0.0482) },
+  WI: { name: "Wisconsin", income: flat(0.053, 13_560) },
+  WY: { name: "Wyoming", income: null },
+};
+
+// ============================================================================
+// COST OF LIVING
+// ============================================================================
+
+/**
+ * Cost-of-living multipliers (1.0 = US average). Keys are lower-case city,
+ * metro or country names; lookups also match keys contained in a location
+ * string ("San Francisco, CA" -> "san francisco").
+ */
+export const COST_OF_LIVING_INDEX: Record<string, number> = {
+  // Bay Area
+  "san francisco": 1.6,
+  sf: 1.6,
+  "san jose": 1.7,
+  "palo alto": 1.8,
+  "mountain view": 1.75,
+  oakland: 1.45,
+  "bay area": 1.6,
+  // New York
+  "new york": 1.5,
+  nyc: 1.5,
+  brooklyn: 1.45,
+  // Large US metros
+  seattle: 1.25,
+  boston: 1.3,
+  "los angeles": 1.35,
+  "san diego": 1.3,
+  "washington, dc": 1.3,
+  chicago: 1.1,
+  austin: 1.05,
+  denver: 1.05,
+  portland: 1.1,
+  philadelphia: 1.05,
+  minneapolis: 1.0,
+  atlanta: 0.95,
+  miami: 1.0,
+  dallas: 0.95,
+  houston: 0.95,
+  phoenix: 0.95,
+  raleigh: 0.95,
+  "salt lake city": 0.95,
+  pittsburgh: 0.85,
+  columbus: 0.85,
+  // International
+  london: 1.4,
+  dublin: 1.25,
+  amsterdam: 1.2,
+  berlin: 0.9,
+  munich: 1.05,
+  paris: 1.2,
+  madrid: 0.9,
+  toronto: 1.1,
+  vancouver: 1.15,
+  sydney: 1.2,
+  melbourne: 1.1,
+  singapore: 1.3,
+  bangalore: 0.4,
+  bengaluru: 0.4,
+  mumbai: 0.45,
+  "mexico city": 0.6,
+  "sao paulo": 0.7,
+  // Country fallbacks
+  "united kingdom": 1.3,
+  uk: 1.3,
+  canada: 1.05,
+  germany: 0.9,
+  ireland: 1.2,
+  netherlands: 1.15,
+  france: 1.05,
+  spain: 0.85,
+  australia: 1.1,
+  india: 0.45,
+  mexico: 0.55,
+  brazil: 0.65,
+};
@@ -0,0 +1,846 @@
+/**
+ * DOCUMENT RENDERER: Server-side rendering of resumes and cover letters
+ *
+ * WHAT: Turns a `documents.content` snapshot plus a template/theme row into HTML, TXT or DOCX
+ * WHY: Exports must be reproducible without a browser tab (re-download, history, sharing)
+ *
+ * Flow:
+ * 1. Normalize template/theme rows (DB jsonb shape or frontend Theme shape)
+ * 2. Walk sections in template.layout.sectionOrder (or the default order per document type)
+ * 3. Emit format-specific output for each section type
+ *
+ * Section types:
+ * - Resume: header, summary, experience, education, skills, projects, certifications
+ * - Cover letter: header, recipient, salutation, paragraph, signature
+ *
+ * Notes:
+ * - Output is single-column with real headings and bullets so it stays ATS-parseable
+ * - PDF is produced by printing renderHtml() output (see scraper.renderPdfFromHtml)
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document as DocxDocument,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  TextRun,
+} from "docx";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RenderDocumentType = "resume" | "cover-letter";
+
+/** Minimal document snapshot needed for rendering */
+export interface RenderableDocument {
+  type: RenderDocumentType;
+  name: string;
+  content: Record<string, any>;
+}
+
+/** Template row (templates.layout jsonb) */
+export interface RenderTemplate {
+  layout?: {
+    pageSize?: "letter" | "a4";
+    margins?: { top?: number; right?: number; bottom?: number; left?: number };
+    sectionOrder?: Array<{
+      id: string;
+      type: string;
+      defaultEnabled?: boolean;
+    }>;
+  } | null;
+}
+
+/** Theme row (themes.colors / themes.typography jsonb) */
+export interface RenderTheme {
+  colors?: Record<string, any> | null;
+  typography?: Record<string, any> | null;
+}
+
+/** Resolved styling used by every renderer */
+interface RenderStyle {
+  colors: { primary: string; text: string; secondary: string; border: string };
+  fonts: { heading: string; body: string };
+  sizes: { name: number; heading: number; itemTitle: number; body: number; small: number };
+  pageSize: "letter" | "a4";
+  margins: { top: number; right: number; bottom: number; left: number };
+}
+
+type Section = { type: string; data: any };
+
+// ============================================================================
+// Style + section resolution
+// ============================================================================
+
+/** "#RRGGBB" (or "RRGGBB") lowercased with "#", else the fallback */
+export function pickColor(value: unknown, fallback: string): string {
+  if (typeof value !== "string") return fallback;
+  const hex = value.startsWith("#") ? value.slice(1) : value;
+  return /^[0-9a-fA-F]{6}$/.test(hex) ? `#${hex.toLowerCase()}` : fallback;
+}
+
+/**
+ * First family of a font stack. Themes are user data and the name goes
+ * into a <style> block, so only letters, digits, spaces and hyphens are kept.
+ */
+function pickFont(value: unknown, fallback: string): string {
+  const family =
+    typeof value === "string" ? value : (value as any)?.family ?? undefined;
+  if (typeof family !== "string" || !family.trim()) return fallback;
+  const name = family
+    .split(",")[0]
+    .replace(/[^A-Za-z0-9 -]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return name || fallback;
+}
+
+/** Finite number clamped to [min, max], else the fallback */
+function pickNumber(
+  value: unknown,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  if (value === null || value === undefined || value === "") return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(max, Math.max(min, number));
+}
+
+/**
+ * Resolve template + theme into concrete styling.
+ * Accepts both the DB jsonb shape (typography.fontFamily / fontSize,
+ * colors.text as string or object) and the frontend Theme shape
+ * (typography.headingFont / sizes).
+ */
+export function resolveRenderStyle(
+  template: RenderTemplate | null,
+  theme: RenderTheme | null
+): RenderStyle {
+  const colors = theme?.colors ?? {};
+  const typography = theme?.typography ?? {};
+  const textColor =
+    typeof colors.text === "object" ? colors.text?.primary : colors.text;
+  const secondaryColor =
+    typeof colors.text === "object"
+      ? colors.text?.secondary
+      : colors.textSecondary;
+
+  const sizes = typography.sizes ?? {};
+  const fontSize = typography.fontSize ?? {};
+  const margins = template?.layout?.margins ?? {};
+
+  return {
+    colors: {
+      primary: pickColor(colors.primary, "#000000"),
+      text: pickColor(textColor, "#000000"),
+      secondary: pickColor(secondaryColor, "#555555"),
+      border: pickColor(colors.border ?? colors.primary, "#999999"),
+    },
+    fonts: {
+      heading: pickFont(
+        typography.headingFont ?? typography.fontFamily?.heading,
+        "Calibri"
+      ),
+      body: pickFont(
+        typography.bodyFont ?? typography.fontFamily?.body,
+        "Calibri"
+      ),
+    },
+    // Points and inches; these go into CSS and DOCX as-is
+    sizes: {
+      name: pickNumber(sizes.h1 ?? fontSize.name, 20, 6, 72),
+      heading: pickNumber(sizes.h2 ?? fontSize.heading, 12, 6, 72),
+      itemTitle: pickNumber(sizes.h3 ?? fontSize.subheading, 10.5, 6, 72),
+      body: pickNumber(sizes.body ?? fontSize.body, 10, 6, 72),
+      small: pickNumber(sizes.small ?? fontSize.caption, 9, 6, 72),
+    },
+    pageSize: template?.layout?.pageSize === "a4" ? "a4" : "letter",
+    margins: {
+      top: pickNumber(margins.top || 0.75, 0.75, 0.25, 2),
+      right: pickNumber(margins.right || 0.75, 0.75, 0.25, 2),
+      bottom: pickNumber(margins.bottom || 0.75, 0.75, 0.25, 2),
+      left: pickNumber(margins.left || 0.75, 0.75, 0.25, 2),
+    },
+  };
+}
+
+/**
+ * Ordered list of sections to render.
+ * Uses the template's section order when available, otherwise the
+ * default order for the document type (same order as the editor preview).
+ */
+export function resolveSections(
+  document: RenderableDocument,
+  template: RenderTemplate | null
+): Section[] {
+  const content = document.content ?? {};
+  const sectionOrder = template?.layout?.sectionOrder;
+
+  if (sectionOrder && sectionOrder.length > 0) {
+    return sectionOrder
+      .filter(
+        (section) =>
+          section.defaultEnabled !== false || content[section.id]?.enabled
+      )
+      .filter((section) => content[section.id])
+      .map((section) => ({ type: section.type, data: content[section.id] }));
+  }
+
+  if (document.type === "resume") {
+    return [
+      "header",
+      "summary",
+      "experience",
+      "education",
+      "skills",
+      "projects",
+      "certifications",
+    ]
+      .filter((type) => content[type])
+      .map((type) => ({ type, data: content[type] }));
+  }
+
+  const sections: Section[] = [];
+  if (content.header) sections.push({ type: "header", data: content.header });
+  if (content.recipient)
+    sections.push({ type: "recipient", data: content.recipient });
+  sections.push({
+    type: "salutation",
+    data: content.salutation || "Dear Hiring Manager,",
+  });
+  for (const key of ["opening", "body1", "body2", "body3", "closing"]) {
+    if (content.body?.[key]) {
+      sections.push({ type: "paragraph", data: content.body[key] });
+    }
+  }
+  if (content.signature)
+    sections.push({ type: "signature", data: content.signature });
+  return sections;
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+const SECTION_TITLES: Record<string, string> = {
+  summary: "Professional Summary",
+  experience: "Work Experience",
+  education: "Education",
+  skills: "Skills",
+  projects: "Projects",
+  certifications: "Certifications",
+};
+
+function hasItems(data: any, key = "items"): boolean {
+  return Array.isArray(data?.[key]) && data[key].length > 0;
+}
+
+function dateRange(item: any): string {
+  const start = item?.startDate || "";
+  const end = item?.current ? "Present" : item?.endDate || "";
+  return start && end ? `${start} – ${end}` : start || end;
+}
+
+function degreeLine(edu: any): string {
+  return edu?.field ? `${edu.degree || ""} in ${edu.field}` : edu?.degree || "";
+}
+
+function skillsLine(category: any): string {
+  return (category?.skills ?? [])
+    .map((s: any) => (typeof s === "string" ? s : s?.name))
+    .filter(Boolean)
+    .join(", ");
+}
+
+function contactLine(header: any): string {
+  return [
+    header?.email,
+    header?.phone,
+    header?.location,
+    ...(header?.links ?? []).map((link: any) => link?.url),
+  ]
+    .filter(Boolean)
+    .join(" | ");
+}
+
+export function escapeHtml(value: unknown): string {
+  if (value == null) return "";
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+/**
+ * Render a standalone HTML document (inline CSS, no external assets).
+ * Also used as the print source for PDF exports.
+ */
+export function renderHtml(
+  document: RenderableDocument,
+  template: RenderTemplate | null,
+  theme: RenderTheme | null
+): string {
+  const style = resolveRenderStyle(template, theme);
+  const isResume = document.type === "resume";
+  const signatureFallback = document.content?.header?.fullName || "";
+
+  const body = resolveSections(document, template)
+    .map(({ type, data }) => {
+      if (!data || data.enabled === false) return "";
+
+      switch (type) {
+        case "header":
+          return isResume
+            ? `<header class="header">
+  <h1>${escapeHtml(data.fullName)}</h1>
+  ${data.title ? `<p class="title">${escapeHtml(data.title)}</p>` : ""}
+  <p class="contact">${escapeHtml(contactLine(data))}</p>
+</header>`
+            : `<header class="letter-header">
+  <p><strong>${escapeHtml(data.fullName)}</strong></p>
+  ${["email", "phone", "location"]
+    .filter((key) => data[key])
+    .map((key) => `<p>${escapeHtml(data[key])}</p>`)
+    .join("\n  ")}
+  <p class="date">${escapeHtml(data.date || new Date().toLocaleDateString())}</p>
+</header>`;
+
+        case "summary":
+          return data.text
+            ? `<section><h2>${SECTION_TITLES.summary}</h2><p>${escapeHtml(
+                data.text
+              )}</p></section>`
+            : "";
+
+        case "experience":
+          if (!hasItems(data)) return "";
+          return `<section><h2>${SECTION_TITLES.experience}</h2>${data.items
+            .map(
+              (exp: any) => `
+<div class="item">
+  <h3>${escapeHtml(exp.title)}</h3>
+  <p class="meta">${escapeHtml(
+    [exp.company, exp.location].filter(Boolean).join(" • ")
+  )}</p>
+  <p class="meta">${escapeHtml(dateRange(exp))}</p>
+  <ul>${(exp.bullets ?? [])
+    .filter((b: string) => b && b.trim())
+    .map((b: string) => `<li>${escapeHtml(b.trim())}</li>`)
+    .join("")}</ul>
+</div>`
+            )
+            .join("")}</section>`;
+
+        case "education":
+          if (!hasItems(data)) return "";
+          return `<section><h2>${SECTION_TITLES.education}</h2>${data.items
+            .map(
+              (edu: any) => `
+<div class="item">
+  <h3>${escapeHtml(degreeLine(edu))}</h3>
+  <p class="meta">${escapeHtml(
+    [edu.institution, edu.location].filter(Boolean).join(" - ")
+  )}</p>
+  <p class="meta">${escapeHtml(edu.graduationDate)}</p>
+  ${edu.gpa ? `<p>GPA: ${escapeHtml(edu.gpa)}</p>` : ""}
+</div>`
+            )
+            .join("")}</section>`;
+
+        case "skills":
+          if (!hasItems(data, "categories")) return "";
+          return `<section><h2>${SECTION_TITLES.skills}</h2>${data.categories
+            .map(
+              (category: any) =>
+                `<p><strong>${escapeHtml(category.name)}:</strong> ${escapeHtml(
+                  skillsLine(category)
+                )}</p>`
+            )
+            .join("")}</section>`;
+
+        case "projects":
+          if (!hasItems(data)) return "";
+          return `<section><h2>${SECTION_TITLES.projects}</h2>${data.items
+            .map(
+              (project: any) => `
+<div class="item">
+  <h3>${escapeHtml(project.name)}</h3>
+  ${project.description ? `<p>${escapeHtml(project.description)}</p>` : ""}
+  <ul>${(project.highlights ?? [])
+    .map((h: string) => `<li>${escapeHtml(h)}</li>`)
+    .join("")}</ul>
+</div>`
+            )
+            .join("")}</section>`;
+
+        case "certifications":
+          if (!hasItems(data)) return "";
+          return `<section><h2>${SECTION_TITLES.certifications}</h2>${data.items
+            .map(
+              (cert: any) =>
+                `<p><strong>${escapeHtml(cert.name)}</strong>${
+                  cert.issuer ? ` — ${escapeHtml(cert.issuer)}` : ""
+                }</p>`
+            )
+            .join("")}</section>`;
+
+        case "recipient":
+          return `<div class="block">${["name", "title"]
+            .filter((key) => data[key])
+            .map((key) => `<p>${escapeHtml(data[key])}</p>`)
+            .join("")}<p><strong>${escapeHtml(data.company)}</strong></p>${
+            data.address ? `<p>${escapeHtml(data.address)}</p>` : ""
+          }</div>`;
+
+        case "salutation":
+        case "paragraph":
+          return typeof data === "string"
+            ? `<p class="block">${escapeHtml(data)}</p>`
+            : "";
+
+        case "signature":
+          return `<div class="signature"><p>${escapeHtml(
+            data.closing || "Sincerely,"
+          )}</p><p><strong>${escapeHtml(
+            data.name || signatureFallback
+          )}</strong></p></div>`;
+
+        default:
+          return typeof data === "string" && data
+            ? `<p>${escapeHtml(data)}</p>`
+            : "";
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
+
+  const { colors, fonts, sizes, margins } = style;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(document.name)}</title>
+<style>
+  @page { size: ${style.pageSize}; margin: ${margins.top}in ${margins.right}in ${margins.bottom}in ${margins.left}in; }
+  body { font-family: "${fonts.body}", Arial, sans-serif; font-size: ${sizes.body}pt; color: ${colors.text}; line-height: 1.4; margin: 0; }
+  h1, h2, h3 { font-family: "${fonts.heading}", Arial, sans-serif; margin: 0; }
+  h1 { font-size: ${sizes.name}pt; color: ${colors.primary}; }
+  h2 { font-size: ${sizes.heading}pt; color: ${colors.primary}; text-transform: uppercase; border-bottom: 1px solid ${colors.border}; margin: 14pt 0 6pt; padding-bottom: 2pt; }
+  h3 { font-size: ${sizes.itemTitle}pt; }
+  p { margin: 2pt 0; }
+  ul { margin: 4pt 0; padding-left: 16pt; }
+  .header { text-align: center; }
+  .title, .contact, .meta, .date { color: ${colors.secondary}; }
+  .contact { font-size: ${sizes.small}pt; }
+  .item { margin-bottom: 8pt; }
+  .block { margin-bottom: 12pt; }
+  .signature { margin-top: 24pt; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+// ============================================================================
+// TXT
+// ============================================================================
+
+/** Render plain text (no styling, section titles in caps). */
+export function renderText(
+  document: RenderableDocument,
+  template: RenderTemplate | null
+): string {
+  const lines: string[] = [];
+  const heading = (title: string) => {
+    lines.push(title.toUpperCase(), "=".repeat(50));
+  };
+  const signatureFallback = document.content?.header?.fullName || "";
+
+  for (const { type, data } of resolveSections(document, template)) {
+    if (!data || data.enabled === false) continue;
+
+    switch (type) {
+      case "header":
+        if (document.type === "resume") {
+          lines.push(data.fullName || "");
+          if (data.title) lines.push(data.title);
+          const contact = contactLine(data);
+          if (contact) lines.push(contact);
+        } else {
+          for (const key of ["fullName", "email", "phone", "location", "date"]) {
+            if (data[key]) lines.push(data[key]);
+          }
+        }
+        break;
+
+      case "summary":
+        if (!data.text) continue;
+        heading(SECTION_TITLES.summary);
+        lines.push(data.text);
+        break;
+
+      case "experience":
+        if (!hasItems(data)) continue;
+        heading(SECTION_TITLES.experience);
+        data.items.forEach((exp: any, index: number) => {
+          if (index > 0) lines.push("");
+          lines.push(exp.title || "");
+          lines.push([exp.company, exp.location].filter(Boolean).join(" • "));
+          lines.push(dateRange(exp));
+          for (const bullet of exp.bullets ?? []) {
+            if (bullet && bullet.trim()) lines.push(`• ${bullet.trim()}`);
+          }
+        });
+        break;
+
+      case "education":
+        if (!hasItems(data)) continue;
+        heading(SECTION_TITLES.education);
+        for (const edu of data.items) {
+          lines.push(degreeLine(edu));
+          lines.push(
+            [edu.institution, edu.location].filter(Boolean).join(" - ")
+          );
+          if (edu.graduationDate) lines.push(edu.graduationDate);
+          if (edu.gpa) lines.push(`GPA: ${edu.gpa}`);
+        }
+        break;
+
+      case "skills":
+        if (!hasItems(data, "categories")) continue;
+        heading(SECTION_TITLES.skills);
+        for (const category of data.categories) {
+          lines.push(`${category.name || ""}: ${skillsLine(category)}`);
+        }
+        break;
+
+      case "projects":
+        if (!hasItems(data)) continue;
+        heading(SECTION_TITLES.projects);
+        for (const project of data.items) {
+          lines.push(project.name || "");
+          if (project.description) lines.push(project.description);
+          for (const highlight of project.highlights ?? []) {
+            lines.push(`• ${highlight}`);
+          }
+        }
+        break;
+
+      case "certifications":
+        if (!hasItems(data)) continue;
+        heading(SECTION_TITLES.certifications);
+        for (const cert of data.items) {
+          lines.push([cert.name, cert.issuer].filter(Boolean).join(" — "));
+        }
+        break;
+
+      case "recipient":
+        for (const key of ["name", "title", "company", "address"]) {
+          if (data[key]) lines.push(data[key]);
+        }
+        break;
+
+      case "salutation":
+      case "paragraph":
+        if (typeof data === "string") lines.push(data);
+        break;
+
+      case "signature":
+        lines.push(data.closing || "Sincerely,", "", data.name || signatureFallback);
+        break;
+
+      default:
+        if (typeof data === "string" && data) lines.push(data);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+/** Render a Word document (single column, Heading 2 sections, native bullets). */
+export async function renderDocx(
+  document: RenderableDocument,
+  template: RenderTemplate | null,
+  theme: RenderTheme | null
+): Promise<Buffer> {
+  const style = resolveRenderStyle(template, theme);
+  const docxColor = (hex: string) => hex.slice(1).toUpperCase();
+  const halfPoints = (pt: number) => Math.round(pt * 2);
+  const colors = {
+    primary: docxColor(style.colors.primary),
+    text: docxColor(style.colors.text),
+    secondary: docxColor(style.colors.secondary),
+    border: docxColor(style.colors.border),
+  };
+
+  const children: Paragraph[] = [];
+  const run = (
+    text: string,
+    opts: { size?: number; bold?: boolean; color?: string; heading?: boolean } = {}
+  ) =>
+    new TextRun({
+      text,
+      bold: opts.bold,
+      size: halfPoints(opts.size ?? style.sizes.body),
+      color: opts.color ?? colors.text,
+      font: opts.heading ? style.fonts.heading : style.fonts.body,
+    });
+  const line = (
+    text: string,
+    opts: Parameters<typeof run>[1] & {
+      after?: number;
+      center?: boolean;
+    } = {}
+  ) => {
+    if (!text) return;
+    children.push(
+      new Paragraph({
+        alignment: opts.center ? AlignmentType.CENTER : undefined,
+        spacing: { after: opts.after ?? 0 },
+        children: [run(text, opts)],
+      })
+    );
+  };
+  const sectionHeading = (title: string) => {
+    children.push(
+      new Paragraph({
+        heading: HeadingLevel.HEADING_2,
+        keepNext: true,
+        spacing: { before: 240, after: 80 },
+        border: {
+          bottom: {
+            style: BorderStyle.SINGLE,
+            size: 6,
+            color: colors.border,
+            space: 1,
+          },
+        },
+        children: [
+          run(title.toUpperCase(), {
+            size: style.sizes.heading,
+            bold: true,
+            color: colors.primary,
+            heading: true,
+          }),
+        ],
+      })
+    );
+  };
+  const bullet = (text: string) => {
+    if (!text || !text.trim()) return;
+    children.push(
+      new Paragraph({
+        bullet: { level: 0 },
+        spacing: { after: 40 },
+        children: [run(text.trim())],
+      })
+    );
+  };
+  const signatureFallback = document.content?.header?.fullName || "";
+
+  for (const { type, data } of resolveSections(document, template)) {
+    if (!data || data.enabled === false) continue;
+
+    switch (type) {
+      case "header":
+        if (document.type === "resume") {
+          children.push(
+            new Paragraph({
+              heading: HeadingLevel.TITLE,
+              alignment: AlignmentType.CENTER,
+              spacing: { after: 40 },
+              children: [
+                run(data.fullName || "", {
+                  size: style.sizes.name,
+                  bold: true,
+                  color: colors.primary,
+                  heading: true,
+                }),
+              ],
+            })
+          );
+          line(data.title || "", {
+            size: style.sizes.itemTitle,
+            color: colors.secondary,
+            center: true,
+            after: 40,
+          });
+          line(contactLine(data), {
+            size: style.sizes.small,
+            color: colors.secondary,
+            center: true,
+          });
+        } else {
+          line(data.fullName || "", {
+            size: style.sizes.itemTitle,
+            bold: true,
+            color: colors.primary,
+            heading: true,
+          });
+          for (const key of ["email", "phone", "location"]) {
+            line(data[key] || "", { size: style.sizes.small });
+          }
+          line(data.date || new Date().toLocaleDateString(), {
+            color: colors.secondary,
+            after: 240,
+          });
+        }
+        break;
+
+      case "summary":
+        if (!data.text) continue;
+        sectionHeading(SECTION_TITLES.summary);
+        line(data.text);
+        break;
+
+      case "experience":
+        if (!hasItems(data)) continue;
+        sectionHeading(SECTION_TITLES.experience);
+        for (const exp of data.items) {
+          line(exp.title || "", { size: style.sizes.itemTitle, bold: true });
+          line([exp.company, exp.location].filter(Boolean).join(" • "), {
+            color: colors.secondary,
+          });
+          line(dateRange(exp), {
+            size: style.sizes.small,
+            color: colors.secondary,
+            after: 40,
+          });
+          (exp.bullets ?? []).forEach(bullet);
+        }
+        break;
+
+      case "education":
+        if (!hasItems(data)) continue;
+        sectionHeading(SECTION_TITLES.education);
+        for (const edu of data.items) {
+          line(degreeLine(edu), { size: style.sizes.itemTitle, bold: true });
+          line([edu.institution, edu.location].filter(Boolean).join(" - "), {
+            color: colors.secondary,
+          });
+          line(edu.graduationDate || "", {
+            size: style.sizes.small,
+            color: colors.secondary,
+          });
+          if (edu.gpa) line(`GPA: ${edu.gpa}`);
+        }
+        break;
+
+      case "skills":
+        if (!hasItems(data, "categories")) continue;
+        sectionHeading(SECTION_TITLES.skills);
+        for (const category of data.categories) {
+          children.push(
+            new Paragraph({
+              spacing: { after: 40 },
+              children: [
+                run(category.name ? `${category.name}: ` : "", {
+                  bold: true,
+                  color: colors.secondary,
+                }),
+                run(skillsLine(category)),
+              ],
+            })
+          );
+        }
+        break;
+
+      case "projects":
+        if (!hasItems(data)) continue;
+        sectionHeading(SECTION_TITLES.projects);
+        for (const project of data.items) {
+          line(project.name || "", { size: style.sizes.itemTitle, bold: true });
+          line(project.description || "");
+          (project.highlights ?? []).forEach(bullet);
+        }
+        break;
+
+      case "certifications":
+        if (!hasItems(data)) continue;
+        sectionHeading(SECTION_TITLES.certifications);
+        for (const cert of data.items) {
+          line(cert.name || "", { size: style.sizes.itemTitle, bold: true });
+          line(cert.issuer || "", { color: colors.secondary, after: 60 });
+        }
+        break;
+
+      case "recipient":
+        line(data.name || "");
+        line(data.title || "");
+        line(data.company || "", { bold: true });
+        line(data.address || "");
+        children.push(new Paragraph({ spacing: { after: 120 }, children: [] }));
+        break;
+
+      case "salutation":
+      case "paragraph":
+        if (typeof data === "string") line(data, { after: 200 });
+        break;
+
+      case "signature":
+        line(data.closing || "Sincerely,", { after: 480 });
+        line(data.name || signatureFallback, { bold: true });
+        break;
+
+      default:
+        if (typeof data === "string" && data) line(data, { after: 120 });
+    }
+  }
+
+  const twips = (inches: number) => Math.round(inches * 1440);
+  const docx = new DocxDocument({
+    creator: signatureFallback || "FlowATS",
+    title: document.name,
+    styles: {
+      default: {
+        document: {
+          run: {
+            font: style.fonts.body,
+            size: halfPoints(style.sizes.body),
+            color: colors.text,
+          },
+        },
+      },
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            size:
+              style.pageSize === "a4"
+                ? { width: 11906, height: 16838 }
+                : { width: 12240, height: 15840 },
+            margin: {
+              top: twips(style.margins.top),
+              right: twips(style.margins.right),
+              bottom: twips(style.margins.bottom),
+              left: twips(style.margins.left),
+            },
+          },
+        },
+        children,
+      },
+    ],
+  });
+
+  return Packer.toBuffer(docx);
+}
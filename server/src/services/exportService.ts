@@ -0,0 +1,445 @@
+/**
+ * Export Service
+ *
+ * Server-side document exports backed by Supabase Storage and export_history
+ *
+ * Flow (createExport):
+ * 1. Load the user's document (+ current version snapshot when one exists)
+ * 2. Resolve template and theme (explicit ids override the document's own;
+ *    only system rows or the user's own, else 400)
+ * 3. Render to PDF / DOCX / HTML / TXT (documentRenderer + Puppeteer for PDF)
+ * 4. Upload to the private `exports` bucket under <user_id>/<document_id>/
+ * 5. Insert export_history row and bump documents.times_exported
+ *
+ * Functions:
+ * - createExport: Render, store and record an export
+ * - listExportHistory: Past exports for a user (optionally one document) + per-document summary
+ * - getExportDownload: Signed URL for a past export (bumps download_count)
+ */
+
+import { randomUUID } from "node:crypto";
+import { ApiError } from "../../utils/errors.js";
+import { logInfo, legacyLogError as logError } from "../../utils/logger.js";
+import {
+  renderDocx,
+  renderHtml,
+  renderText,
+  type RenderableDocument,
+  type RenderTemplate,
+  type RenderTheme,
+} from "./documentRenderer.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+const EXPORTS_BUCKET = process.env.EXPORTS_BUCKET || "exports";
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const EXPORT_FORMATS = ["pdf", "docx", "html", "txt"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  html: "text/html; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+};
+
+export interface ExportHistoryRow {
+  id: string;
+  user_id: string;
+  document_id: string;
+  version_id: string | null;
+  format: ExportFormat;
+  file_name: string;
+  file_size_bytes: number | null;
+  storage_path: string | null;
+  storage_url: string | null;
+  export_options: Record<string, unknown> | null;
+  status: "completed" | "failed";
+  error_message: string | null;
+  sent_to: string | null;
+  template_id: string | null;
+  theme_id: string | null;
+  created_at: string;
+  expires_at: string | null;
+  download_count: number;
+  last_downloaded_at: string | null;
+}
+
+export interface CreateExportInput {
+  userId: string;
+  documentId: string;
+  format: ExportFormat;
+  templateId?: string | null;
+  themeId?: string | null;
+  /** Company/recipient this file is going to (defaults to documents.target_company) */
+  sentTo?: string | null;
+  /** File name without extension (defaults to the document name) */
+  filename?: string | null;
+}
+
+export interface ExportSummary {
+  documentId: string;
+  exportCount: number;
+  lastExportedAt: string | null;
+  lastSentTo: string | null;
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function sanitizeFilename(name: string): string {
+  const cleaned = name
+    .replace(/[^\w\s.-]/g, "")
+    .trim()
+    .replace(/\s+/g, "_");
+  return cleaned || "document";
+}
+
+/** Render document content to the requested format */
+export async function renderExport(
+  format: ExportFormat,
+  document: RenderableDocument,
+  template: RenderTemplate | null,
+  theme: RenderTheme | null
+): Promise<Buffer> {
+  switch (format) {
+    case "html":
+      return Buffer.from(renderHtml(document, template, theme), "utf8");
+    case "txt":
+      return Buffer.from(renderText(document, template), "utf8");
+    case "docx":
+      return renderDocx(document, template, theme);
+    case "pdf": {
+      const { renderPdfFromHtml } = await import("./scraper.js");
+      return renderPdfFromHtml(renderHtml(document, template, theme), {
+        pageSize: template?.layout?.pageSize === "a4" ? "a4" : "letter",
+      });
+    }
+  }
+}
+
+/** Per-document summary ("exported 3 times, last sent to Acme") */
+export function summarizeExports(rows: ExportHistoryRow[]): ExportSummary[] {
+  const byDocument = new Map<string, ExportSummary>();
+
+  // Rows are newest-first, so the first completed row per document wins
+  for (const row of rows) {
+    if (row.status !== "completed") continue;
+    const summary = byDocument.get(row.document_id);
+    if (!summary) {
+      byDocument.set(row.document_id, {
+        documentId: row.document_id,
+        exportCount: 1,
+        lastExportedAt: row.created_at,
+        lastSentTo: row.sent_to,
+      });
+      continue;
+    }
+    summary.exportCount += 1;
+    if (!summary.lastSentTo && row.sent_to) summary.lastSentTo = row.sent_to;
+  }
+
+  return Array.from(byDocument.values());
+}
+
+// ============================================================================
+// Service functions
+// ============================================================================
+
+/**
+ * Render a document, store the file and record it in export_history.
+ * Returns the history row and a short-lived signed download URL.
+ */
+export async function createExport(
+  input: CreateExportInput
+): Promise<{ export: ExportHistoryRow; downloadUrl: string | null }> {
+  const { userId, documentId, format } = input;
+  const supabase = await getSupabaseAdmin();
+
+  logInfo("create_export_start", { userId, documentId, format });
+
+  try {
+    const { data: doc, error: docError } = await supabase
+      .from("documents")
+      .select(
+        "id, user_id, type, name, content, template_id, theme_id, current_version_id, target_company"
+      )
+      .eq("id", documentId)
+      .eq("user_id", userId)
+      .single();
+
+    if (docError || !doc) {
+      if (!docError || docError.code === "PGRST116") {
+        throw new ApiError(404, "Document not found", "not_found");
+      }
+      throw new ApiError(500, "Failed to load document", "db_error");
+    }
+
+    // Prefer the immutable version snapshot so the export matches history
+    let content = doc.content ?? {};
+    let versionId: string | null = null;
+    let versionTemplateId: string | null = null;
+    let versionThemeId: string | null = null;
+    if (doc.current_version_id) {
+      const { data: version } = await supabase
+        .from("document_versions")
+        .select("id, content, template_id, theme_id")
+        .eq("id", doc.current_version_id)
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (version) {
+        content = version.content ?? content;
+        versionId = version.id;
+        versionTemplateId = version.template_id;
+        versionThemeId = version.theme_id;
+      }
+    }
+
+    const templateId =
+      input.templateId || versionTemplateId || doc.template_id || null;
+    const themeId = input.themeId || versionThemeId || doc.theme_id || null;
+
+    // System rows (no user_id) or the user's own; never someone else's
+    const visible = `user_id.is.null,user_id.eq.${userId}`;
+    const [template, theme] = await Promise.all([
+      templateId
+        ? supabase
+            .from("templates")
+            .select("id, layout")
+            .eq("id", templateId)
+            .or(visible)
+            .maybeSingle()
+            .then(({ data }) => data as RenderTemplate | null)
+        : null,
+      themeId
+        ? supabase
+            .from("themes")
+            .select("id, colors, typography")
+            .eq("id", themeId)
+            .or(visible)
+            .maybeSingle()
+            .then(({ data }) => data as RenderTheme | null)
+        : null,
+    ]);
+    if (templateId && !template) {
+      throw new ApiError(400, "Template not found", "invalid_template");
+    }
+    if (themeId && !theme) {
+      throw new ApiError(400, "Theme not found", "invalid_theme");
+    }
+
+    const buffer = await renderExport(
+      format,
+      { type: doc.type, name: doc.name, content },
+      template,
+      theme
+    );
+
+    const exportId = randomUUID();
+    const fileName = `${sanitizeFilename(input.filename || doc.name)}.${format}`;
+    const storagePath = `${userId}/${documentId}/${exportId}.${format}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(EXPORTS_BUCKET)
+      .upload(storagePath, buffer, {
+        contentType: MIME_TYPES[format],
+        upsert: false,
+      });
+
+    if (uploadError) {
+      logError("create_export_upload_error", {
+        userId,
+        documentId,
+        error: uploadError.message,
+      });
+      throw new ApiError(500, "Failed to store export", "storage_error");
+    }
+
+    const { data: row, error: insertError } = await supabase
+      .from("export_history")
+      .insert({
+        id: exportId,
+        user_id: userId,
+        document_id: documentId,
+        version_id: versionId,
+        format,
+        file_name: fileName,
+        file_size_bytes: buffer.length,
+        storage_path: storagePath,
+        export_options: { pageSize: template?.layout?.pageSize ?? "letter" },
+        status: "completed",
+        sent_to: input.sentTo?.trim() || doc.target_company || null,
+        template_id: template ? templateId : null,
+        theme_id: theme ? themeId : null,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      logError("create_export_insert_error", {
+        userId,
+        documentId,
+        error: insertError.message,
+      });
+      throw new ApiError(500, "Failed to record export", "db_error");
+    }
+
+    const { error: counterError } = await supabase.rpc(
+      "increment_document_exports",
+      { p_document_id: documentId }
+    );
+    if (counterError) {
+      // Non-fatal: history row is the source of truth
+      logError("create_export_counter_error", {
+        documentId,
+        error: counterError.message,
+      });
+    }
+
+    const { data: signed } = await supabase.storage
+      .from(EXPORTS_BUCKET)
+      .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS, {
+        download: fileName,
+      });
+
+    logInfo("create_export_success", {
+      userId,
+      documentId,
+      exportId,
+      format,
+      bytes: buffer.length,
+    });
+
+    return {
+      export: row as ExportHistoryRow,
+      downloadUrl: signed?.signedUrl ?? null,
+    };
+  } catch (err: any) {
+    if (err instanceof ApiError) throw err;
+    logError("create_export_exception", {
+      userId,
+      documentId,
+      format,
+      error: err?.message ?? String(err),
+    });
+    throw new ApiError(500, `Export failed: ${err?.message ?? err}`);
+  }
+}
+
+/**
+ * List export history newest-first, with a per-document summary.
+ */
+export async function listExportHistory(
+  userId: string,
+  documentId?: string | null
+): Promise<{ exports: ExportHistoryRow[]; summaries: ExportSummary[] }> {
+  const supabase = await getSupabaseAdmin();
+
+  logInfo("list_export_history_start", { userId, documentId });
+
+  let query = supabase
+    .from("export_history")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(500);
+
+  if (documentId) {
+    query = query.eq("document_id", documentId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logError("list_export_history_error", { userId, error: error.message });
+    throw new ApiError(
+      500,
+      `Failed to list export history: ${error.message}`,
+      "db_error"
+    );
+  }
+
+  const exports = (data ?? []) as ExportHistoryRow[];
+  return { exports, summaries: summarizeExports(exports) };
+}
+
+/**
+ * Signed URL for re-downloading the exact file from a past export.
+ */
+export async function getExportDownload(
+  userId: string,
+  exportId: string
+): Promise<{ export: ExportHistoryRow; downloadUrl: string }> {
+  const supabase = await getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from("export_history")
+    .select("*")
+    .eq("id", exportId)
+    .eq("user_id", userId)
+    .single();
+
+  if (error || !data) {
+    if (!error || error.code === "PGRST116") {
+      throw new ApiError(404, "Export not found", "not_found");
+    }
+    throw new ApiError(500, "Failed to load export", "db_error");
+  }
+
+  const row = data as ExportHistoryRow;
+  if (!row.storage_path) {
+    throw new ApiError(410, "Export file is no longer available", "gone");
+  }
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(EXPORTS_BUCKET)
+    .createSignedUrl(row.storage_path, SIGNED_URL_TTL_SECONDS, {
+      download: row.file_name,
+    });
+
+  if (signError || !signed?.signedUrl) {
+    logError("export_download_sign_error", {
+      userId,
+      exportId,
+      error: signError?.message,
+    });
+    throw new ApiError(410, "Export file is no longer available", "gone");
+  }
+
+  const { error: updateError } = await supabase
+    .from("export_history")
+    .update({
+      download_count: (row.download_count ?? 0) + 1,
+      last_downloaded_at: new Date().toISOString(),
+    })
+    .eq("id", exportId)
+    .eq("user_id", userId);
+  if (updateError) {
+    logError("export_download_count_error", {
+      exportId,
+      error: updateError.message,
+    });
+  }
+
+  return { export: row, downloadUrl: signed.signedUrl };
+}
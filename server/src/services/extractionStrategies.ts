@@ -18,6 +18,7 @@
  * - Cookie/session handling for authenticated pages
  * - Rate limit detection and handling
  * - Cloudflare/bot detection bypass
+ * - Per-strategy attempt counts and latency (observability/metrics)
  *
  * Usage:
  * import { extractJobPosting } from '../services/extractionStrategies.js';
@@ -30,6 +31,7 @@ import {
   legacyLogInfo as logInfo,
   legacyLogError as logError,
 } from "../../utils/logger.js";
+import { recordScraperAttempt } from "../observability/metrics.js";
 
 /**
  * Extraction result with metadata
@@ -280,8 +282,14 @@ export async function extractJobPosting(
   // Strategy 1: Basic fetch
   if (verbose) logInfo("extraction_attempt_basic", { url, retries });
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const attemptStart = Date.now();
     try {
       const result = await fetchBasic(url, userAgent, timeout);
+      recordScraperAttempt({
+        strategy: "fetch-basic",
+        duration_ms: Date.now() - attemptStart,
+        ok: true,
+      });
       const { cleanText, title } = cleanHTML(result.html);
 
       return {
@@ -298,6 +306,11 @@ export async function extractJobPosting(
         },
       };
     } catch (err: any) {
+      recordScraperAttempt({
+        strategy: "fetch-basic",
+        duration_ms: Date.now() - attemptStart,
+        ok: false,
+      });
       lastError = err;
       retries = attempt;
 
@@ -318,8 +331,14 @@ export async function extractJobPosting(
   // Strategy 2: Fetch with full headers
   if (verbose) logInfo("extraction_attempt_headers", { url });
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const attemptStart = Date.now();
     try {
       const result = await fetchWithHeaders(url, userAgent, timeout);
+      recordScraperAttempt({
+        strategy: "fetch-headers",
+        duration_ms: Date.now() - attemptStart,
+        ok: true,
+      });
       const { cleanText, title } = cleanHTML(result.html);
 
       return {
@@ -336,6 +355,11 @@ export async function extractJobPosting(
         },
       };
     } catch (err: any) {
+      recordScraperAttempt({
+        strategy: "fetch-headers",
+        duration_ms: Date.now() - attemptStart,
+        ok: false,
+      });
       lastError = err;
 
       if (attempt < maxRetries) {
@@ -369,12 +393,18 @@ async function extractWithPuppeteer(
   timeout: number,
   startTime: number
 ): Promise<ExtractionResult> {
+  const attemptStart = Date.now();
   try {
     const result = await scrapeWithBrowser(url, {
       userAgent,
       timeout: timeout * 2, // Give browser more time
       waitForNetworkIdle: true,
     });
+    recordScraperAttempt({
+      strategy: "puppeteer-browser",
+      duration_ms: Date.now() - attemptStart,
+      ok: true,
+    });
 
     const { cleanText, title } = cleanHTML(result.content);
 
@@ -392,6 +422,11 @@ async function extractWithPuppeteer(
       },
     };
   } catch (err: any) {
+    recordScraperAttempt({
+      strategy: "puppeteer-browser",
+      duration_ms: Date.now() - attemptStart,
+      ok: false,
+    });
     logError("extraction_all_failed", {
       url,
       error: err?.message,
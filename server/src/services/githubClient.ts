@@ -0,0 +1,228 @@
+/**
+ * GitHub REST client
+ *
+ * The few GitHub API calls the repository sync needs, authenticated with the
+ * user's OAuth token. GITHUB_API_URL overrides the base URL (GitHub
+ * Enterprise, or a local HTTP stub in tests).
+ *
+ * Errors:
+ * - 400 github_unauthorized: token expired or revoked (the user reconnects;
+ *   not 401, which the app treats as its own session ending)
+ * - 429 github_rate_limited: details.resetAt is when the limit resets
+ * - 502 github_error: anything else GitHub refused
+ */
+
+import { ApiError } from "../../utils/errors.js";
+
+const REQUEST_TIMEOUT_MS = 15_000;
+const PAGE_SIZE = 100;
+/** Upper bound on repositories read per sync */
+export const MAX_GITHUB_REPOS = 300;
+/** README text kept per repository */
+const README_MAX_CHARS = 4_000;
+
+export function githubApiUrl(): string {
+  return (process.env.GITHUB_API_URL || "https://api.github.com").replace(
+    /\/+$/,
+    ""
+  );
+}
+
+// ============================================================================
+// Types (subset of the GitHub responses)
+// ============================================================================
+
+export interface GithubUser {
+  id: number;
+  login: string;
+  avatar_url: string | null;
+  html_url: string | null;
+}
+
+export interface GithubRepo {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  homepage: string | null;
+  language: string | null;
+  topics?: string[];
+  stargazers_count: number;
+  forks_count: number;
+  fork: boolean;
+  archived: boolean;
+  private: boolean;
+  created_at: string;
+  pushed_at: string | null;
+}
+
+/** Commits per week for the last 52 weeks, oldest first */
+export interface GithubParticipation {
+  all: number[];
+  owner: number[];
+}
+
+export interface GithubClient {
+  /** Requests made so far (for quota tracking) */
+  readonly requestCount: number;
+  getUser(): Promise<GithubUser>;
+  listOwnedRepos(): Promise<GithubRepo[]>;
+  getLanguages(fullName: string): Promise<Record<string, number>>;
+  /** README as plain text, or null when the repository has none */
+  getReadme(fullName: string): Promise<string | null>;
+  /** null while GitHub is still computing the statistics (202) */
+  getParticipation(fullName: string): Promise<GithubParticipation | null>;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+function repoPath(fullName: string): string {
+  const [owner, repo] = fullName.split("/");
+  if (!owner || !repo) {
+    throw new ApiError(
+      400,
+      `Invalid repository name: ${fullName}`,
+      "bad_request"
+    );
+  }
+  return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+}
+
+export function createGithubClient(
+  token: string,
+  options: { signal?: AbortSignal } = {}
+): GithubClient {
+  let requestCount = 0;
+
+  async function request(
+    path: string,
+    accept = "application/vnd.github+json"
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const abort = () => controller.abort();
+    options.signal?.addEventListener("abort", abort);
+    requestCount++;
+    try {
+      const res = await fetch(`${githubApiUrl()}${path}`, {
+        headers: {
+          Accept: accept,
+          Authorization: `Bearer ${token}`,
+          "X-GitHub-Api-Version": "2022-11-28",
+          "User-Agent": "ats-candidate-tracker",
+        },
+        signal: controller.signal,
+      });
+      if (res.status === 401) {
+        throw new ApiError(
+          400,
+          "GitHub rejected the access token; reconnect your GitHub account",
+          "github_unauthorized"
+        );
+      }
+      if (
+        (res.status === 403 || res.status === 429) &&
+        res.headers.get("x-ratelimit-remaining") === "0"
+      ) {
+        const reset = Number(res.headers.get("x-ratelimit-reset"));
+        throw new ApiError(
+          429,
+          "GitHub API rate limit reached",
+          "github_rate_limited",
+          {
+            resetAt:
+              Number.isFinite(reset) && reset > 0
+                ? new Date(reset * 1000).toISOString()
+                : null,
+          }
+        );
+      }
+      return res;
+    } catch (e: any) {
+      if (e instanceof ApiError) throw e;
+      throw new ApiError(
+        502,
+        e?.name === "AbortError"
+          ? "GitHub did not respond in time"
+          : `GitHub request failed: ${e?.message ?? e}`,
+        "github_error"
+      );
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  async function json<T>(path: string): Promise<T> {
+    const res = await request(path);
+    if (!res.ok) {
+      throw new ApiError(
+        502,
+        `GitHub responded ${res.status} for ${path.split("?")[0]}`,
+        "github_error"
+      );
+    }
+    return (await res.json()) as T;
+  }
+
+  return {
+    get requestCount() {
+      return requestCount;
+    },
+
+    getUser: () => json<GithubUser>("/user"),
+
+    async listOwnedRepos() {
+      const repos: GithubRepo[] = [];
+      for (let page = 1; repos.length < MAX_GITHUB_REPOS; page++) {
+        const batch = await json<GithubRepo[]>(
+          `/user/repos?affiliation=owner&sort=pushed&per_page=${PAGE_SIZE}&page=${page}`
+        );
+        repos.push(...batch);
+        if (batch.length < PAGE_SIZE) break;
+      }
+      return repos.slice(0, MAX_GITHUB_REPOS);
+    },
+
+    getLanguages: (fullName) =>
+      json<Record<string, number>>(`${repoPath(fullName)}/languages`),
+
+    async getReadme(fullName) {
+      const res = await request(
+        `${repoPath(fullName)}/readme`,
+        "application/vnd.github.raw+json"
+      );
+      if (res.status === 404) return null;
+      if (!res.ok) {
+        throw new ApiError(
+          502,
+          `GitHub responded ${res.status} for the ${fullName} README`,
+          "github_error"
+        );
+      }
+      const text = await res.text();
+      return text.slice(0, README_MAX_CHARS);
+    },
+
+    async getParticipation(fullName) {
+      const res = await request(`${repoPath(fullName)}/stats/participation`);
+      // 202: statistics are being computed; 204: empty repository
+      if (res.status === 202 || res.status === 204) return null;
+      if (!res.ok) {
+        throw new ApiError(
+          502,
+          `GitHub responded ${res.status} for ${fullName} statistics`,
+          "github_error"
+        );
+      }
+      const body = (await res.json()) as Partial<GithubParticipation>;
+      return {
+        all: Array.isArray(body.all) ? body.all : [],
+        owner: Array.isArray(body.owner) ? body.owner : [],
+      };
+    },
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * GitHub Skill Evidence
+ *
+ * Pure functions that turn synced repositories into evidence for the
+ * `skills` table: which languages the user writes, how much, and how
+ * recently. No I/O; githubSyncService loads the rows and writes the
+ * suggestions the user accepts.
+ *
+ * Evidence per skill:
+ * - bytes / share: code size across the user's own (non-fork) repositories
+ * - repoCount: repositories using it for at least 5% of their code
+ * - commitsLastYear: the owner's commits, split across each repository's
+ *   languages by byte share
+ * - firstUsed / lastUsed: repository creation and last push
+ *
+ * Suggested proficiency is capped at "advanced": repository statistics
+ * show usage, not mastery, so "expert" stays a user decision.
+ */
+
+import { canonicalSkillKey, type SkillCategory } from "./skillTaxonomy.js";
+
+export type { SkillCategory };
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProficiencyLevel =
+  "beginner" | "intermediate" | "advanced" | "expert";
+
+/** Repository fields the evidence is derived from */
+export interface RepositoryStats {
+  full_name: string | null;
+  language: string | null;
+  languages: Record<string, number> | null;
+  is_fork: boolean | null;
+  repo_created_at: string | null;
+  pushed_at: string | null;
+  commits_last_year: number | null;
+}
+
+export interface SkillEvidence {
+  skill: string;
+  category: SkillCategory;
+  /** GitHub linguist names folded into this skill */
+  languages: string[];
+  bytes: number;
+  /** Share of all code bytes, 0..1 */
+  share: number;
+  repoCount: number;
+  commitsLastYear: number;
+  firstUsed: string | null;
+  lastUsed: string | null;
+  /** Whole years between firstUsed and lastUsed, at least 1 */
+  years: number;
+  suggestedProficiency: ProficiencyLevel;
+  /** Top repositories by bytes in this skill */
+  repos: string[];
+}
+
+export interface ExistingSkill {
+  skill_name: string;
+  proficiency_level: ProficiencyLevel | null;
+  last_used_date: string | null;
+}
+
+export interface SkillSuggestion extends SkillEvidence {
+  /** "add": not in the profile; "update": profile level or date is behind */
+  action: "add" | "update";
+  currentProficiency: ProficiencyLevel | null;
+}
+
+// ============================================================================
+// Language mapping
+// ============================================================================
+
+/** Linguist names that are build or markup noise rather than skills */
+const IGNORED_LANGUAGES = new Set([
+  "Makefile",
+  "CMake",
+  "Batchfile",
+  "PowerShell",
+  "Procfile",
+  "Roff",
+  "TeX",
+  "Markdown",
+  "Text",
+  "Smarty",
+  "Jinja",
+  "Handlebars",
+  "EJS",
+  "Mustache",
+  "Nix",
+  "Starlark",
+  "M4",
+]);
+
+/** Linguist name -> skill name and category; unlisted names map to themselves */
+const LANGUAGE_SKILLS: Record<
+  string,
+  { skill: string; category: SkillCategory }
+> = {
+  Shell: { skill: "Bash", category: "Technical" },
+  Dockerfile: { skill: "Docker", category: "Tool" },
+  HCL: { skill: "Terraform", category: "Tool" },
+  "Jupyter Notebook": { skill: "Python", category: "Technical" },
+  Vue: { skill: "Vue.js", category: "Framework" },
+  Svelte: { skill: "Svelte", category: "Framework" },
+  Astro: { skill: "Astro", category: "Framework" },
+  SCSS: { skill: "CSS", category: "Technical" },
+  Sass: { skill: "CSS", category: "Technical" },
+  Less: { skill: "CSS", category: "Technical" },
+  PLpgSQL: { skill: "SQL", category: "Technical" },
+  TSQL: { skill: "SQL", category: "Technical" },
+  PLSQL: { skill: "SQL", category: "Technical" },
+  "Objective-C++": { skill: "Objective-C", category: "Technical" },
+};
+
+/** Skill for a linguist language, or null for languages that are not skills */
+export function skillForLanguage(
+  language: string
+): { skill: string; category: SkillCategory } | null {
+  if (IGNORED_LANGUAGES.has(language)) return null;
+  return (
+    LANGUAGE_SKILLS[language] ?? { skill: language, category: "Technical" }
+  );
+}
+
+// ============================================================================
+// Evidence
+// ============================================================================
+
+/** A language counts toward repoCount from this share of a repository */
+const MIN_REPO_SHARE = 0.05;
+/** Skills below this share of all code are left out */
+const MIN_TOTAL_SHARE = 0.01;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PROFICIENCY_ORDER: ProficiencyLevel[] = [
+  "beginner",
+  "intermediate",
+  "advanced",
+  "expert",
+];
+
+/** Byte breakdown of a repository; the main language when none was synced */
+function repoLanguages(repo: RepositoryStats): Record<string, number> {
+  const languages = repo.languages ?? {};
+  if (Object.keys(languages).length) return languages;
+  return repo.language ? { [repo.language]: 1 } : {};
+}
+
+function wholeYears(from: string | null, to: string | null): number {
+  if (!from || !to) return 1;
+  const years = Math.floor(
+    (Date.parse(to) - Date.parse(from)) / (365 * DAY_MS)
+  );
+  return Math.max(1, Number.isFinite(years) ? years : 1);
+}
+
+/**
+ * Suggested level from volume, breadth and recency points:
+ * - share of code: >=25% 2, >=8% 1
+ * - repositories: >=5 2, >=2 1
+ * - commits in the last year: >=200 2, >=30 1
+ * - years of use: >=3 1
+ * - not pushed to in 2 years: -2
+ * 5+ advanced, 2+ intermediate, else beginner.
+ */
+export function suggestProficiency(
+  evidence: Pick<
+    SkillEvidence,
+    "share" | "repoCount" | "commitsLastYear" | "years" | "lastUsed"
+  >,
+  now: Date
+): ProficiencyLevel {
+  let points = 0;
+  points += evidence.share >= 0.25 ? 2 : evidence.share >= 0.08 ? 1 : 0;
+  points += evidence.repoCount >= 5 ? 2 : evidence.repoCount >= 2 ? 1 : 0;
+  points +=
+    evidence.commitsLastYear >= 200
+      ? 2
+      : evidence.commitsLastYear >= 30
+        ? 1
+        : 0;
+  points += evidence.years >= 3 ? 1 : 0;
+  if (
+    !evidence.lastUsed ||
+    now.getTime() - Date.parse(evidence.lastUsed) > 2 * 365 * DAY_MS
+  ) {
+    points -= 2;
+  }
+  if (points >= 5) return "advanced";
+  if (points >= 2) return "intermediate";
+  return "beginner";
+}
+
+/**
+ * Skill evidence from the user's repositories, strongest first (by bytes).
+ * Forks are skipped: their code is mostly someone else's.
+ */
+export function deriveSkillEvidence(
+  repos: RepositoryStats[],
+  now: Date = new Date()
+): SkillEvidence[] {
+  type Acc = Omit<
+    SkillEvidence,
+    "share" | "years" | "suggestedProficiency" | "repos" | "languages"
+  > & {
+    languages: Set<string>;
+    repoBytes: Array<{ name: string; bytes: number }>;
+  };
+  const bySkill = new Map<string, Acc>();
+  let totalBytes = 0;
+
+  for (const repo of repos) {
+    if (repo.is_fork) continue;
+    const languages = repoLanguages(repo);
+    const repoTotal = Object.values(languages).reduce((a, b) => a + b, 0);
+    if (repoTotal <= 0) continue;
+
+    // Fold linguist names into skills first so a repo counts once per skill
+    const repoSkills = new Map<
+      string,
+      { category: SkillCategory; bytes: number; languages: string[] }
+    >();
+    for (const [language, bytes] of Object.entries(languages)) {
+      const mapped = skillForLanguage(language);
+      if (!mapped || bytes <= 0) continue;
+      const entry = repoSkills.get(mapped.skill) ?? {
+        category: mapped.category,
+        bytes: 0,
+        languages: [],
+      };
+      entry.bytes += bytes;
+      entry.languages.push(language);
+      repoSkills.set(mapped.skill, entry);
+    }
+
+    for (const [skill, entry] of repoSkills) {
+      totalBytes += entry.bytes;
+      const acc: Acc = bySkill.get(skill) ?? {
+        skill,
+        category: entry.category,
+        languages: new Set<string>(),
+        bytes: 0,
+        repoCount: 0,
+        commitsLastYear: 0,
+        firstUsed: null,
+        lastUsed: null,
+        repoBytes: [],
+      };
+      const share = entry.bytes / repoTotal;
+      acc.bytes += entry.bytes;
+      entry.languages.forEach((l) => acc.languages.add(l));
+      if (share >= MIN_REPO_SHARE) acc.repoCount++;
+      acc.commitsLastYear += (repo.commits_last_year ?? 0) * share;
+      if (
+        repo.repo_created_at &&
+        (!acc.firstUsed || repo.repo_created_at < acc.firstUsed)
+      ) {
+        acc.firstUsed = repo.repo_created_at;
+      }
+      if (repo.pushed_at && (!acc.lastUsed || repo.pushed_at > acc.lastUsed)) {
+        acc.lastUsed = repo.pushed_at;
+      }
+      if (repo.full_name) {
+        acc.repoBytes.push({ name: repo.full_name, bytes: entry.bytes });
+      }
+      bySkill.set(skill, acc);
+    }
+  }
+
+  if (totalBytes <= 0) return [];
+
+  return [...bySkill.values()]
+    .map((acc) => {
+      const share = acc.bytes / totalBytes;
+      const years = wholeYears(acc.firstUsed, acc.lastUsed);
+      const commitsLastYear = Math.round(acc.commitsLastYear);
+      return {
+        skill: acc.skill,
+        category: acc.category,
+        languages: [...acc.languages].sort(),
+        bytes: acc.bytes,
+        share: Math.round(share * 1000) / 1000,
+        repoCount: acc.repoCount,
+        commitsLastYear,
+        firstUsed: acc.firstUsed,
+        lastUsed: acc.lastUsed,
+        years,
+        suggestedProficiency: suggestProficiency(
+          {
+            share,
+            repoCount: acc.repoCount,
+            commitsLastYear,
+            years,
+            lastUsed: acc.lastUsed,
+          },
+          now
+        ),
+        repos: acc.repoBytes
+          .sort((a, b) => b.bytes - a.bytes)
+          .slice(0, 5)
+          .map((r) => r.name),
+      };
+    })
+    .filter((e) => e.share >= MIN_TOTAL_SHARE)
+    .sort((a, b) => b.bytes - a.bytes);
+}
+
+// ============================================================================
+// Suggestions
+// ============================================================================
+
+/**
+ * Compare evidence with the profile's skills (matched through the skills
+ * taxonomy, so "TS" in the profile is TypeScript):
+ * missing skills are "add"; skills whose level is below the suggestion, or
+ * whose last_used_date is older than the last push, are "update". Skills
+ * already at or above the evidence are left out.
+ */
+export function suggestSkills(
+  evidence: SkillEvidence[],
+  existing: ExistingSkill[]
+): SkillSuggestion[] {
+  const byName = new Map(
+    existing.map((s) => [canonicalSkillKey(s.skill_name), s])
+  );
+  const suggestions: SkillSuggestion[] = [];
+
+  for (const item of evidence) {
+    const current = byName.get(canonicalSkillKey(item.skill));
+    if (!current) {
+      suggestions.push({ ...item, action: "add", currentProficiency: null });
+      continue;
+    }
+    const currentRank = current.proficiency_level
+      ? PROFICIENCY_ORDER.indexOf(current.proficiency_level)
+      : -1;
+    const levelBehind =
+      PROFICIENCY_ORDER.indexOf(item.suggestedProficiency) > currentRank;
+    const dateBehind =
+      !!item.lastUsed &&
+      (!current.last_used_date ||
+        current.last_used_date < item.lastUsed.slice(0, 10));
+    if (levelBehind || dateBehind) {
+      suggestions.push({
+        ...item,
+        skill: current.skill_name,
+        action: "update",
+        currentProficiency: current.proficiency_level,
+      });
+    }
+  }
+
+  return suggestions;
+}
+
+/** The higher of two levels (an update never lowers the user's own level) */
+export function maxProficiency(
+  a: ProficiencyLevel | null,
+  b: ProficiencyLevel
+): ProficiencyLevel {
+  if (!a) return b;
+  return PROFICIENCY_ORDER.indexOf(a) >= PROFICIENCY_ORDER.indexOf(b) ? a : b;
+}
@@ -0,0 +1,716 @@
+/**
+ * GitHub Sync Service
+ *
+ * Links a user's GitHub account and keeps the `repositories` table in sync
+ * with it, behind /api/github. The sync runs as a background job
+ * ("github_sync", routes/background-jobs).
+ *
+ * Flow:
+ * 1. linkGithubAccount checks the OAuth token against GET /user and stores
+ *    it in github_accounts (never returned to clients)
+ * 2. syncGithubRepositories lists the user's own public repositories and
+ *    upserts them. Rows are matched by github_id, then by full_name (rows
+ *    from the old client-side sync), so is_featured and project links
+ *    survive. README, language bytes and commit activity are fetched only
+ *    for repositories pushed since the last sync, or whose commit counts
+ *    are older than a week. Repositories gone from GitHub are removed
+ * 3. getGithubSkillSuggestions derives skill evidence from the rows
+ *    (githubSkillEvidence) and compares it with the `skills` table;
+ *    applySkillSuggestions writes the ones the user accepts
+ * 4. createProjectFromRepository turns a repository into a `projects` row,
+ *    with an AI-written description ("github_project" kind) when available
+ *
+ * Functions:
+ * - linkGithubAccount / getGithubAccount / unlinkGithubAccount
+ * - syncGithubRepositories: the github_sync job
+ * - getGithubSkillSuggestions / applySkillSuggestions
+ * - createProjectFromRepository
+ * - readmeExcerpt: pure, first paragraphs of a README as plain text
+ */
+
+import { ApiError } from "../../utils/errors.js";
+import {
+  legacyLogError as logError,
+  legacyLogInfo as logInfo,
+} from "../../utils/logger.js";
+import aiClient from "./aiClient.js";
+import { outputSchemas } from "./aiOutputSchemas.js";
+import {
+  createGithubClient,
+  type GithubClient,
+  type GithubRepo,
+} from "./githubClient.js";
+import {
+  deriveSkillEvidence,
+  maxProficiency,
+  suggestSkills,
+  type ExistingSkill,
+  type RepositoryStats,
+  type SkillEvidence,
+  type SkillSuggestion,
+} from "./githubSkillEvidence.js";
+import type { ProgressReporter } from "./jobQueueService.js";
+import { canonicalSkillKey, normalizeSkill } from "./skillTaxonomy.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GithubAccount {
+  user_id: string;
+  github_user_id: number;
+  login: string;
+  avatar_url: string | null;
+  html_url: string | null;
+  last_synced_at: string | null;
+  last_sync_status: "succeeded" | "failed" | null;
+  last_sync_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GithubSyncResult {
+  login: string;
+  repositories: number;
+  added: number;
+  updated: number;
+  removed: number;
+  /** Repositories whose README, languages and commits were fetched */
+  detailed: number;
+  /** GitHub API requests made */
+  requests: number;
+  skills: SkillEvidence[];
+}
+
+export interface GithubSkillSuggestions {
+  evidence: SkillEvidence[];
+  suggestions: SkillSuggestion[];
+}
+
+const ACCOUNT_COLUMNS =
+  "user_id, github_user_id, login, avatar_url, html_url, last_synced_at, last_sync_status, last_sync_error, created_at, updated_at";
+
+const STATS_COLUMNS =
+  "full_name, language, languages, is_fork, repo_created_at, pushed_at, commits_last_year";
+
+/** Commit counts are re-read after this long even without new pushes */
+const COMMITS_REFRESH_MS = 7 * 24 * 60 * 60 * 1000;
+const README_EXCERPT_CHARS = 1_000;
+/** A repository pushed to within this many days is an "ongoing" project */
+const ONGOING_PROJECT_DAYS = 90;
+
+const noProgress: ProgressReporter = async () => {};
+
+// ============================================================================
+// Account
+// ============================================================================
+
+/** Verify the token with GitHub and store it as the user's linked account */
+export async function linkGithubAccount(
+  userId: string,
+  token: string
+): Promise<GithubAccount> {
+  const user = await createGithubClient(token).getUser();
+
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("github_accounts")
+    .upsert(
+      {
+        user_id: userId,
+        github_user_id: user.id,
+        login: user.login,
+        avatar_url: user.avatar_url,
+        html_url: user.html_url,
+        access_token: token,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" }
+    )
+    .select(ACCOUNT_COLUMNS)
+    .single();
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  logInfo("github.account_linked", { userId, login: user.login });
+  return data as GithubAccount;
+}
+
+export async function getGithubAccount(
+  userId: string
+): Promise<GithubAccount | null> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("github_accounts")
+    .select(ACCOUNT_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return (data as GithubAccount | null) ?? null;
+}
+
+/** Forget the token; synced repositories stay */
+export async function unlinkGithubAccount(userId: string): Promise<void> {
+  const supabase = await getSupabaseAdmin();
+  const { error } = await supabase
+    .from("github_accounts")
+    .delete()
+    .eq("user_id", userId);
+  if (error) throw new ApiError(500, error.message, "db_error");
+}
+
+async function loadToken(
+  userId: string
+): Promise<{ login: string; token: string }> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("github_accounts")
+    .select("login, access_token")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data) {
+    throw new ApiError(
+      400,
+      "Connect your GitHub account before syncing",
+      "github_not_linked"
+    );
+  }
+  return { login: data.login, token: data.access_token };
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * README as plain text: badges, images, HTML, code blocks and headings
+ * removed, first paragraphs kept up to README_EXCERPT_CHARS
+ */
+export function readmeExcerpt(readme: string | null): string | null {
+  if (!readme) return null;
+  const text = readme
+    .replace(/\r\n/g, "\n")
+    .replace(/```[\s\S]*?```/g, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<[^>]+>/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^#{1,6}\s.*$/gm, "")
+    .replace(/[*_`]/g, "");
+
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s*\n\s*/g, " ").trim())
+    .filter((p) => p.length > 0);
+
+  let excerpt = "";
+  for (const paragraph of paragraphs) {
+    const next = excerpt ? `${excerpt}\n\n${paragraph}` : paragraph;
+    if (next.length > README_EXCERPT_CHARS) {
+      if (!excerpt) excerpt = paragraph.slice(0, README_EXCERPT_CHARS);
+      break;
+    }
+    excerpt = next;
+  }
+  return excerpt || null;
+}
+
+interface ExistingRepoRow {
+  id: number;
+  github_id: number | null;
+  full_name: string | null;
+  pushed_at: string | null;
+  commits_synced_at: string | null;
+}
+
+function sameInstant(a: string | null, b: string | null): boolean {
+  if (!a || !b) return a === b;
+  return Date.parse(a) === Date.parse(b);
+}
+
+function needsDetails(
+  repo: GithubRepo,
+  existing: ExistingRepoRow | undefined,
+  now: number
+): boolean {
+  if (!existing || !existing.commits_synced_at) return true;
+  if (!sameInstant(existing.pushed_at, repo.pushed_at)) return true;
+  return now - Date.parse(existing.commits_synced_at) > COMMITS_REFRESH_MS;
+}
+
+async function fetchDetails(
+  client: GithubClient,
+  repo: GithubRepo,
+  now: string
+) {
+  const [languages, readme, participation] = await Promise.all([
+    client.getLanguages(repo.full_name),
+    client.getReadme(repo.full_name),
+    client.getParticipation(repo.full_name),
+  ]);
+  return {
+    languages,
+    readme_excerpt: readmeExcerpt(readme),
+    // Still being computed by GitHub: keep the previous counts
+    ...(participation
+      ? {
+          weekly_commits: participation.owner,
+          commits_last_year: participation.owner.reduce((a, b) => a + b, 0),
+          commits_synced_at: now,
+        }
+      : {}),
+  };
+}
+
+/**
+ * Sync the user's own public repositories into `repositories`.
+ * Progress is reported between 5 and 95; the sync status is recorded on
+ * github_accounts whether it succeeds or fails.
+ */
+export async function syncGithubRepositories(
+  userId: string,
+  options: { progress?: ProgressReporter; signal?: AbortSignal } = {}
+): Promise<GithubSyncResult> {
+  const progress = options.progress ?? noProgress;
+  const { login, token } = await loadToken(userId);
+  const supabase = await getSupabaseAdmin();
+  const client = createGithubClient(token, { signal: options.signal });
+
+  try {
+    await progress(5, "Listing repositories");
+    // Private repositories stay out: the profile and portfolio are public
+    const repos = (await client.listOwnedRepos()).filter((r) => !r.private);
+
+    const { data: existingData, error: existingError } = await supabase
+      .from("repositories")
+      .select("id, github_id, full_name, pushed_at, commits_synced_at")
+      .eq("user_id", userId);
+    if (existingError) {
+      throw new ApiError(500, existingError.message, "db_error");
+    }
+    const existing = (existingData ?? []) as ExistingRepoRow[];
+    const byGithubId = new Map(
+      existing.filter((r) => r.github_id != null).map((r) => [r.github_id, r])
+    );
+    const byFullName = new Map(
+      existing
+        .filter((r) => r.github_id == null && r.full_name)
+        .map((r) => [r.full_name!.toLowerCase(), r])
+    );
+
+    const now = new Date().toISOString();
+    const nowMs = Date.parse(now);
+    const kept = new Set<number>();
+    let added = 0;
+    let updated = 0;
+    let detailed = 0;
+
+    for (const [index, repo] of repos.entries()) {
+      const match =
+        byGithubId.get(repo.id) ?? byFullName.get(repo.full_name.toLowerCase());
+      const row: Record<string, unknown> = {
+        user_id: userId,
+        github_id: repo.id,
+        name: repo.name,
+        full_name: repo.full_name,
+        description: repo.description,
+        html_url: repo.html_url,
+        homepage: repo.homepage || null,
+        language: repo.language,
+        topics: repo.topics ?? [],
+        stargazers_count: repo.stargazers_count,
+        forks_count: repo.forks_count,
+        is_fork: repo.fork,
+        is_archived: repo.archived,
+        repo_created_at: repo.created_at,
+        pushed_at: repo.pushed_at,
+        updated_at: now,
+      };
+      if (needsDetails(repo, match, nowMs)) {
+        Object.assign(row, await fetchDetails(client, repo, now));
+        detailed++;
+      }
+
+      if (match) {
+        kept.add(match.id);
+        const { error } = await supabase
+          .from("repositories")
+          .update(row)
+          .eq("id", match.id)
+          .eq("user_id", userId);
+        if (error) throw new ApiError(500, error.message, "db_error");
+        updated++;
+      } else {
+        const { error } = await supabase.from("repositories").insert(row);
+        if (error) throw new ApiError(500, error.message, "db_error");
+        added++;
+      }
+
+      await progress(
+        5 + Math.round(((index + 1) / repos.length) * 85),
+        `Synced ${repo.full_name}`
+      );
+    }
+
+    const stale = existing.filter((r) => !kept.has(r.id)).map((r) => r.id);
+    if (stale.length) {
+      const { error } = await supabase
+        .from("repositories")
+        .delete()
+        .eq("user_id", userId)
+        .in("id", stale);
+      if (error) throw new ApiError(500, error.message, "db_error");
+    }
+
+    await progress(95, "Summarizing skills");
+    const skills = deriveSkillEvidence(await loadRepositoryStats(userId));
+
+    await supabase
+      .from("github_accounts")
+      .update({
+        last_synced_at: now,
+        last_sync_status: "succeeded",
+        last_sync_error: null,
+        updated_at: now,
+      })
+      .eq("user_id", userId);
+
+    const result: GithubSyncResult = {
+      login,
+      repositories: repos.length,
+      added,
+      updated,
+      removed: stale.length,
+      detailed,
+      requests: client.requestCount,
+      skills,
+    };
+    logInfo("github.synced", { userId, ...result, skills: skills.length });
+    return result;
+  } catch (e: any) {
+    logError("github.sync_failed", e, { userId });
+    await supabase
+      .from("github_accounts")
+      .update({
+        last_sync_status: "failed",
+        last_sync_error: String(e?.message ?? e).slice(0, 500),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("user_id", userId);
+    throw e;
+  }
+}
+
+// ============================================================================
+// Skills
+// ============================================================================
+
+async function loadRepositoryStats(userId: string): Promise<RepositoryStats[]> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("repositories")
+    .select(STATS_COLUMNS)
+    .eq("user_id", userId);
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return (data ?? []) as RepositoryStats[];
+}
+
+async function loadSkills(
+  userId: string
+): Promise<
+  Array<
+    ExistingSkill & { id: string; metadata: Record<string, unknown> | null }
+  >
+> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("skills")
+    .select("id, skill_name, proficiency_level, last_used_date, metadata")
+    .eq("user_id", userId);
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return data ?? [];
+}
+
+/** Skill evidence from the synced repositories and what it would change */
+export async function getGithubSkillSuggestions(
+  userId: string
+): Promise<GithubSkillSuggestions> {
+  const evidence = deriveSkillEvidence(await loadRepositoryStats(userId));
+  const skills = await loadSkills(userId);
+  return { evidence, suggestions: suggestSkills(evidence, skills) };
+}
+
+function evidenceMetadata(s: SkillSuggestion) {
+  return {
+    source: "github",
+    bytes: s.bytes,
+    share: s.share,
+    repoCount: s.repoCount,
+    commitsLastYear: s.commitsLastYear,
+    repos: s.repos,
+    syncedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Write the accepted suggestions (matched by skill name through the
+ * taxonomy). New skills get the canonical name and taxonomy_id.
+ * Updates only raise the level and move last_used_date forward.
+ */
+export async function applySkillSuggestions(
+  userId: string,
+  skillNames: string[]
+): Promise<{ added: string[]; updated: string[]; skipped: string[] }> {
+  const wanted = new Set(skillNames.map(canonicalSkillKey));
+  const evidence = deriveSkillEvidence(await loadRepositoryStats(userId));
+  const skills = await loadSkills(userId);
+  const suggestions = suggestSkills(evidence, skills);
+  const chosen = suggestions.filter((s) =>
+    wanted.has(canonicalSkillKey(s.skill))
+  );
+  const byName = new Map(
+    skills.map((s) => [canonicalSkillKey(s.skill_name), s])
+  );
+
+  const supabase = await getSupabaseAdmin();
+  const added: string[] = [];
+  const updated: string[] = [];
+
+  for (const suggestion of chosen) {
+    const lastUsed = suggestion.lastUsed?.slice(0, 10) ?? null;
+    const current = byName.get(canonicalSkillKey(suggestion.skill));
+    if (suggestion.action === "add" || !current) {
+      const normalized = normalizeSkill(suggestion.skill);
+      const { error } = await supabase.from("skills").insert({
+        user_id: userId,
+        skill_name: normalized.name,
+        skill_category: normalized.category ?? suggestion.category,
+        taxonomy_id: normalized.id,
+        proficiency_level: suggestion.suggestedProficiency,
+        years_of_experience: suggestion.years,
+        last_used_date: lastUsed,
+        metadata: { github: evidenceMetadata(suggestion) },
+      });
+      if (error) throw new ApiError(500, error.message, "db_error");
+      added.push(normalized.name);
+    } else {
+      const { error } = await supabase
+        .from("skills")
+        .update({
+          proficiency_level: maxProficiency(
+            current.proficiency_level,
+            suggestion.suggestedProficiency
+          ),
+          last_used_date:
+            current.last_used_date &&
+            lastUsed &&
+            current.last_used_date > lastUsed
+              ? current.last_used_date
+              : lastUsed,
+          metadata: {
+            ...(current.metadata ?? {}),
+            github: evidenceMetadata(suggestion),
+          },
+        })
+        .eq("id", current.id)
+        .eq("user_id", userId);
+      if (error) throw new ApiError(500, error.message, "db_error");
+      updated.push(current.skill_name);
+    }
+  }
+
+  const done = new Set([...added, ...updated].map(canonicalSkillKey));
+  const skipped = skillNames.filter((n) => !done.has(canonicalSkillKey(n)));
+  logInfo("github.skills_applied", {
+    userId,
+    added: added.length,
+    updated: updated.length,
+    skipped: skipped.length,
+  });
+  return { added, updated, skipped };
+}
+
+// ============================================================================
+// Projects
+// ============================================================================
+
+interface RepositoryRow {
+  id: number;
+  name: string | null;
+  full_name: string | null;
+  description: string | null;
+  html_url: string | null;
+  homepage: string | null;
+  language: string | null;
+  languages: Record<string, number> | null;
+  topics: string[] | null;
+  readme_excerpt: string | null;
+  repo_created_at: string | null;
+  pushed_at: string | null;
+  created_at: string;
+  commits_last_year: number | null;
+  stargazers_count: number | null;
+  project_id: string | null;
+}
+
+interface AiProjectDescription {
+  description: string;
+  highlights?: string[];
+}
+
+/** Languages by bytes, then topics, without duplicates (case-insensitive) */
+function repoTech(repo: RepositoryRow): string[] {
+  const languages = Object.entries(repo.languages ?? {})
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name)
+    .slice(0, 6);
+  if (!languages.length && repo.language) languages.push(repo.language);
+  const seen = new Set<string>();
+  return [...languages, ...(repo.topics ?? [])].filter((t) => {
+    const key = t.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function buildProjectPrompt(repo: RepositoryRow, tech: string[]): string {
+  return [
+    "Write a project description for a resume from this GitHub repository.",
+    "Use only facts given below; do not invent metrics, users or employers.",
+    'Return JSON: { "description": string (2-3 sentences, first person implied, no "I"), "highlights": string[] (up to 3 short achievement bullets) }',
+    "",
+    `Name: ${repo.name ?? repo.full_name}`,
+    `Description: ${repo.description ?? "(none)"}`,
+    `Technologies: ${tech.join(", ") || "(unknown)"}`,
+    `Stars: ${repo.stargazers_count ?? 0}`,
+    `Commits in the last year: ${repo.commits_last_year ?? 0}`,
+    "README excerpt:",
+    repo.readme_excerpt ?? "(none)",
+  ].join("\n");
+}
+
+async function describeProject(
+  repo: RepositoryRow,
+  tech: string[],
+  userId: string
+): Promise<AiProjectDescription | null> {
+  try {
+    const result = await aiClient.generate<AiProjectDescription>(
+      "github_project",
+      buildProjectPrompt(repo, tech),
+      {
+        temperature: 0.3,
+        maxTokens: 600,
+        timeoutMs: 30_000,
+        schema: outputSchemas.github_project,
+        repairAttempts: 1,
+      }
+    );
+    const description = result.data?.description?.trim();
+    if (!description) return null;
+    return {
+      description,
+      highlights: (result.data?.highlights ?? [])
+        .filter((h) => typeof h === "string" && h.trim())
+        .slice(0, 3),
+    };
+  } catch (e) {
+    // The repository's own description is used instead
+    logError("github.project_ai_failed", e, { userId, repoId: repo.id });
+    return null;
+  }
+}
+
+/**
+ * Create a `projects` row from a synced repository and link it.
+ * 409 when the repository already has a project.
+ */
+export async function createProjectFromRepository(
+  userId: string,
+  repoId: number,
+  options: { useAi?: boolean } = {}
+): Promise<{ project: Record<string, unknown>; aiGenerated: boolean }> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("repositories")
+    .select(
+      "id, name, full_name, description, html_url, homepage, language, languages, topics, readme_excerpt, repo_created_at, pushed_at, created_at, commits_last_year, stargazers_count, project_id"
+    )
+    .eq("id", repoId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data) throw new ApiError(404, "Repository not found", "not_found");
+  const repo = data as RepositoryRow;
+  if (repo.project_id) {
+    throw new ApiError(
+      409,
+      "A project was already created from this repository",
+      "project_exists",
+      { projectId: repo.project_id }
+    );
+  }
+
+  const tech = repoTech(repo);
+  const ai =
+    options.useAi === false ? null : await describeProject(repo, tech, userId);
+  const fallback =
+    repo.description?.trim() || repo.readme_excerpt?.split("\n\n")[0] || null;
+
+  const pushedAt = repo.pushed_at ? Date.parse(repo.pushed_at) : NaN;
+  const ongoing =
+    Number.isFinite(pushedAt) &&
+    Date.now() - pushedAt <= ONGOING_PROJECT_DAYS * 24 * 60 * 60 * 1000;
+  const startDate = (repo.repo_created_at ?? repo.created_at).slice(0, 10);
+
+  const { data: project, error: insertError } = await supabase
+    .from("projects")
+    .insert({
+      user_id: userId,
+      proj_name: repo.name ?? repo.full_name ?? "GitHub project",
+      proj_description: ai?.description ?? fallback,
+      start_date: startDate,
+      end_date: ongoing || !repo.pushed_at ? null : repo.pushed_at.slice(0, 10),
+      status: ongoing ? "ongoing" : "completed",
+      tech_and_skills: tech,
+      project_url: repo.homepage || repo.html_url,
+      proj_outcomes: ai?.highlights?.length ? ai.highlights.join("\n") : null,
+      metadata: {
+        source: "github",
+        repository: repo.full_name,
+        repositoryId: repo.id,
+        aiGenerated: !!ai,
+      },
+    })
+    .select("*")
+    .single();
+  if (insertError) throw new ApiError(500, insertError.message, "db_error");
+
+  const { error: linkError } = await supabase
+    .from("repositories")
+    .update({ project_id: project.id })
+    .eq("id", repo.id)
+    .eq("user_id", userId);
+  if (linkError) throw new ApiError(500, linkError.message, "db_error");
+
+  logInfo("github.project_created", {
+    userId,
+    repoId: repo.id,
+    projectId: project.id,
+    aiGenerated: !!ai,
+  });
+  return { project, aiGenerated: !!ai };
+}
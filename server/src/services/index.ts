@@ -5,7 +5,7 @@
  * Provides a single import point for AI, database, and orchestration services.
  *
  * Structure:
- * - AI Client: OpenAI/Azure integration (aiClient)
+ * - AI Client: provider registry - OpenAI, Azure, Anthropic, OpenAI-compatible (aiClient)
  * - Orchestrators: End-to-end AI generation flows (orchestrator)
  * - Supabase: Database and artifact persistence (supabaseAdmin)
  * - Company Research: External data fetching (companyResearchService)
@@ -68,10 +68,26 @@ export {
   type UpdateCoverLetterDraftInput,
 } from "./coverLetterDraftsService.js";
 
+// ===== DOCUMENT EXPORTS =====
+// Server-side rendering + storage of resume/cover letter exports
+export {
+  createExport,
+  listExportHistory,
+  getExportDownload,
+  isExportFormat,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportHistoryRow,
+  type ExportSummary,
+  type CreateExportInput,
+} from "./exportService.js";
+export { renderHtml, renderText, renderDocx } from "./documentRenderer.js";
+
 // ===== SCRAPER =====
 // Puppeteer-based browser automation for JS-rendered content
 export {
   scrapeWithBrowser,
+  renderPdfFromHtml,
   closeBrowser,
   type ScraperOptions,
   type ScraperResult,
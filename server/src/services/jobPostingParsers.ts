@@ -0,0 +1,589 @@
+/**
+ * JOB POSTING PARSERS: structured extraction without AI
+ *
+ * PURPOSE: Read job details straight from pages that already publish them in a
+ * machine-readable form, so /api/generate/job-import only calls the AI when a
+ * page has no structured data.
+ *
+ * Extractors (host-specific ones win per field, JSON-LD fills the gaps):
+ * - json-ld: schema.org JobPosting in <script type="application/ld+json">
+ *   (single objects, arrays and @graph)
+ * - greenhouse: boards.greenhouse.io / job-boards.greenhouse.io
+ * - lever: jobs.lever.co
+ * - workday: *.myworkdayjobs.com (company taken from the subdomain)
+ * - ashby: jobs.ashbyhq.com (window.__appData payload)
+ * - smartrecruiters: jobs.smartrecruiters.com
+ *
+ * Fields: title, company, location (street/city/state/zip), salary range
+ * (annualized), employment type, application deadline (YYYY-MM-DD) and
+ * description (plain text, max 2000 chars).
+ *
+ * A result counts as usable when it has a title plus a company or description;
+ * otherwise parseStructuredJobPosting returns null and the caller falls back to AI.
+ *
+ * Usage:
+ * import { parseStructuredJobPosting } from '../services/jobPostingParsers.js';
+ * const parsed = parseStructuredJobPosting(html, finalUrl);
+ */
+
+import * as cheerio from "cheerio";
+import { legacyLogInfo as logInfo } from "../../utils/logger.js";
+
+type CheerioRoot = ReturnType<typeof cheerio.load>;
+
+export type JobPostingExtractor =
+  "json-ld" | "greenhouse" | "lever" | "workday" | "ashby" | "smartrecruiters";
+
+/** Fields the parsers can fill (same names as the job-import response) */
+export interface StructuredJobData {
+  job_title: string | null;
+  company_name: string | null;
+  street_address: string | null;
+  city_name: string | null;
+  state_code: string | null;
+  zipcode: string | null;
+  start_salary_range: number | null;
+  end_salary_range: number | null;
+  job_description: string | null;
+  job_type: string | null;
+  application_deadline: string | null;
+}
+
+export interface StructuredJobPosting {
+  /** Extractor that supplied the title (host-specific when one matched) */
+  extractor: JobPostingExtractor;
+  data: StructuredJobData;
+}
+
+const MAX_DESCRIPTION_CHARS = 2000;
+
+// Hours/days/weeks/months per year used to annualize pay
+const ANNUAL_MULTIPLIERS: Record<string, number> = {
+  HOUR: 2080,
+  DAY: 260,
+  WEEK: 52,
+  MONTH: 12,
+  YEAR: 1,
+};
+
+// schema.org / ATS employment types with separators stripped (FULL_TIME, FullTime, Full time)
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  FULLTIME: "Full-time",
+  PARTTIME: "Part-time",
+  CONTRACTOR: "Contract",
+  CONTRACT: "Contract",
+  TEMPORARY: "Temporary",
+  INTERN: "Internship",
+  INTERNSHIP: "Internship",
+  PERDIEM: "Per diem",
+  VOLUNTEER: "Volunteer",
+};
+
+function emptyData(): StructuredJobData {
+  return {
+    job_title: null,
+    company_name: null,
+    street_address: null,
+    city_name: null,
+    state_code: null,
+    zipcode: null,
+    start_salary_range: null,
+    end_salary_range: null,
+    job_description: null,
+    job_type: null,
+    application_deadline: null,
+  };
+}
+
+function cleanString(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.replace(/\s+/g, " ").trim();
+  return trimmed || null;
+}
+
+/** Convert an HTML fragment (or plain text) into readable text */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(`<div id="root">${html}</div>`);
+  $("script, style, noscript").remove();
+  $("br").replaceWith("\n");
+  $("p, div, li, h1, h2, h3, h4, h5, h6, tr").each((_, el) => {
+    $(el).append("\n");
+  });
+  return $("#root")
+    .text()
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function cleanDescription(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  // JSON-LD descriptions are often HTML-escaped HTML
+  const decoded = /&lt;\/?[a-z]/i.test(value)
+    ? cheerio.load(`<div>${value}</div>`)("div").text()
+    : value;
+  const text = htmlToText(decoded);
+  return text ? text.substring(0, MAX_DESCRIPTION_CHARS).trim() : null;
+}
+
+function normalizeJobType(value: unknown): string | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const str = cleanString(raw);
+  if (!str) return null;
+  const key = str.toUpperCase().replace(/[\s_-]+/g, "");
+  return EMPLOYMENT_TYPES[key] ?? str;
+}
+
+/** ISO date or datetime → YYYY-MM-DD (null when unparseable) */
+function normalizeDate(value: unknown): string | null {
+  const str = cleanString(value);
+  if (!str) return null;
+  const iso = str.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (iso) return iso[1];
+  const parsed = new Date(str);
+  return Number.isNaN(parsed.getTime())
+    ? null
+    : parsed.toISOString().split("T")[0];
+}
+
+function toAmount(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const n = Number(value.replace(/[^0-9.]/g, ""));
+    return value.trim() && Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function annualize(amount: number | null, unit: unknown): number | null {
+  if (amount === null || amount <= 0) return null;
+  const key = typeof unit === "string" ? unit.toUpperCase() : "YEAR";
+  return Math.round(amount * (ANNUAL_MULTIPLIERS[key] ?? 1));
+}
+
+/**
+ * Parse a salary range from free text such as "$120,000 - $150,000",
+ * "$120K–$150K" or "$55 - $65 per hour" (hourly/monthly ranges are annualized)
+ */
+export function parseSalaryRange(text: string | null | undefined): {
+  min: number | null;
+  max: number | null;
+} {
+  const none = { min: null, max: null };
+  if (!text) return none;
+
+  const amounts = [
+    ...text.matchAll(/\$\s?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*([kK])?/g),
+  ].map((m) => {
+    const n = Number(m[1].replace(/,/g, ""));
+    return m[2] ? n * 1000 : n;
+  });
+  if (amounts.length === 0) return none;
+
+  const unit = /\b(per hour|hourly|\/\s?h(ou)?r)\b/i.test(text)
+    ? "HOUR"
+    : /\b(per month|monthly|\/\s?mo(nth)?)\b/i.test(text)
+      ? "MONTH"
+      : "YEAR";
+  const [min, max] = [amounts[0], amounts[1] ?? null];
+  return {
+    min: annualize(min, unit),
+    max: max === null ? null : annualize(max, unit),
+  };
+}
+
+/** Parse "City, ST 12345" / "City, State" / "Remote" into address parts */
+export function parseLocation(
+  text: string | null | undefined
+): Pick<StructuredJobData, "city_name" | "state_code" | "zipcode"> {
+  const result = { city_name: null, state_code: null, zipcode: null } as Pick<
+    StructuredJobData,
+    "city_name" | "state_code" | "zipcode"
+  >;
+  // Multi-location postings list "A; B" or "A | B": keep the first
+  const first = cleanString(text?.split(/[;|]|\bor\b/)[0]);
+  if (!first) return result;
+
+  const parts = first.split(",").map((p) => p.trim());
+  result.city_name = parts[0] || null;
+  const region = parts[1];
+  if (region) {
+    const m = region.match(/^([A-Za-z]{2})(?:\s+(\d{5}(?:-\d{4})?))?$/);
+    if (m) {
+      result.state_code = m[1].toUpperCase();
+      result.zipcode = m[2] ?? null;
+    } else {
+      const zip = region.match(/\d{5}(?:-\d{4})?/);
+      result.zipcode = zip ? zip[0] : null;
+    }
+  }
+  return result;
+}
+
+// ------------------------------------------------------------------
+// JSON-LD (schema.org JobPosting)
+// ------------------------------------------------------------------
+
+function isJobPosting(node: any): boolean {
+  const type = node?.["@type"];
+  return Array.isArray(type)
+    ? type.includes("JobPosting")
+    : type === "JobPosting";
+}
+
+function findJobPostingNode(value: any): any | null {
+  if (!value || typeof value !== "object") return null;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findJobPostingNode(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (isJobPosting(value)) return value;
+  return value["@graph"] ? findJobPostingNode(value["@graph"]) : null;
+}
+
+function jsonLdSalary(baseSalary: any): {
+  min: number | null;
+  max: number | null;
+} {
+  if (!baseSalary) return { min: null, max: null };
+  if (typeof baseSalary !== "object") {
+    const amount = annualize(toAmount(baseSalary), "YEAR");
+    return { min: amount, max: null };
+  }
+  const value = baseSalary.value ?? baseSalary;
+  const unit = value?.unitText ?? baseSalary.unitText ?? "YEAR";
+  if (value && typeof value === "object") {
+    const min = annualize(toAmount(value.minValue ?? value.value), unit);
+    const max = annualize(toAmount(value.maxValue), unit);
+    return { min, max };
+  }
+  return { min: annualize(toAmount(value), unit), max: null };
+}
+
+function extractJsonLd($: CheerioRoot): StructuredJobData | null {
+  let node: any = null;
+  $('script[type="application/ld+json"]').each((_, el) => {
+    if (node) return;
+    try {
+      node = findJobPostingNode(JSON.parse($(el).text()));
+    } catch {
+      // Malformed blocks are common (trailing commas, comments); skip them
+    }
+  });
+  if (!node) return null;
+
+  const data = emptyData();
+  data.job_title = cleanString(node.title);
+  const org = Array.isArray(node.hiringOrganization)
+    ? node.hiringOrganization[0]
+    : node.hiringOrganization;
+  data.company_name = cleanString(typeof org === "string" ? org : org?.name);
+
+  const place = Array.isArray(node.jobLocation)
+    ? node.jobLocation[0]
+    : node.jobLocation;
+  const address = place?.address;
+  if (address && typeof address === "object") {
+    data.street_address = cleanString(address.streetAddress);
+    data.city_name = cleanString(address.addressLocality);
+    const region = cleanString(address.addressRegion);
+    data.state_code =
+      region && /^[A-Za-z]{2}$/.test(region) ? region.toUpperCase() : region;
+    data.zipcode = cleanString(address.postalCode);
+  } else if (typeof address === "string") {
+    Object.assign(data, parseLocation(address));
+  }
+
+  const salary = jsonLdSalary(node.baseSalary ?? node.estimatedSalary);
+  data.start_salary_range = salary.min;
+  data.end_salary_range = salary.max;
+  data.job_type = normalizeJobType(node.employmentType);
+  data.application_deadline = normalizeDate(node.validThrough);
+  data.job_description = cleanDescription(node.description);
+  return data;
+}
+
+// ------------------------------------------------------------------
+// Host-specific extractors
+// ------------------------------------------------------------------
+
+function textOf($: CheerioRoot, selector: string): string | null {
+  return cleanString($(selector).first().text());
+}
+
+function descriptionOf($: CheerioRoot, selector: string): string | null {
+  const html = $(selector).first().html();
+  return html ? cleanDescription(html) : null;
+}
+
+/** Data from og:/meta tags that most ATS pages set */
+function metaContent($: CheerioRoot, name: string): string | null {
+  return cleanString(
+    $(`meta[property="${name}"], meta[name="${name}"]`).first().attr("content")
+  );
+}
+
+/** First line of a description that states pay (avoids "$5M raised" etc.) */
+function salaryLine(text: string | null): string | null {
+  if (!text) return null;
+  return (
+    text
+      .split("\n")
+      .find(
+        (line) => /salary|pay|compensation/i.test(line) && /\$/.test(line)
+      ) ?? null
+  );
+}
+
+function salaryFromText(data: StructuredJobData, text: string | null): void {
+  const salary = parseSalaryRange(text);
+  data.start_salary_range = salary.min;
+  data.end_salary_range = salary.max;
+}
+
+function extractGreenhouse($: CheerioRoot, url: URL): StructuredJobData {
+  const data = emptyData();
+  data.job_title =
+    textOf($, ".app-title") ??
+    textOf($, ".job__title h1") ??
+    textOf($, "h1.section-header");
+  data.company_name =
+    textOf($, ".company-name")?.replace(/^at\s+/i, "") ??
+    // boards.greenhouse.io/<board>/jobs/<id>
+    cleanString(url.pathname.split("/")[1]);
+  Object.assign(
+    data,
+    parseLocation(textOf($, ".location") ?? textOf($, ".job__location"))
+  );
+  data.job_description =
+    descriptionOf($, "#content") ?? descriptionOf($, ".job__description");
+  salaryFromText(
+    data,
+    textOf($, ".pay-range") ?? salaryLine(data.job_description)
+  );
+  return data;
+}
+
+function extractLever($: CheerioRoot, url: URL): StructuredJobData {
+  const data = emptyData();
+  data.job_title = textOf($, ".posting-headline h2");
+  // Lever titles read "<Company> - <Role>"; the path is jobs.lever.co/<company>/<id>
+  data.company_name =
+    cleanString(metaContent($, "og:title")?.split(" - ")[0]) ??
+    cleanString(url.pathname.split("/")[1]);
+  Object.assign(
+    data,
+    parseLocation(textOf($, ".posting-categories .location"))
+  );
+  data.job_type = normalizeJobType(
+    textOf($, ".posting-categories .commitment")?.replace(/\/$/, "")
+  );
+  data.job_description =
+    descriptionOf($, '[data-qa="job-description"]') ??
+    descriptionOf($, ".section-wrapper.page-full-width");
+  salaryFromText(data, textOf($, '[data-qa="salary-range"]'));
+  return data;
+}
+
+function extractWorkday($: CheerioRoot, url: URL): StructuredJobData {
+  const data = emptyData();
+  data.job_title = textOf($, '[data-automation-id="jobPostingHeader"]');
+  // <company>.wd5.myworkdayjobs.com
+  const tenant = url.hostname.split(".")[0];
+  data.company_name =
+    metaContent($, "og:site_name") ??
+    (tenant ? tenant.charAt(0).toUpperCase() + tenant.slice(1) : null);
+  Object.assign(
+    data,
+    parseLocation(
+      textOf($, '[data-automation-id="locations"] dd') ??
+        textOf($, '[data-automation-id="locations"]')
+    )
+  );
+  data.job_type = normalizeJobType(
+    textOf($, '[data-automation-id="time"] dd') ??
+      textOf($, '[data-automation-id="time"]')
+  );
+  data.job_description = descriptionOf(
+    $,
+    '[data-automation-id="jobPostingDescription"]'
+  );
+  salaryFromText(data, salaryLine(data.job_description));
+  return data;
+}
+
+function extractAshby($: CheerioRoot): StructuredJobData {
+  const data = emptyData();
+  let appData: any = null;
+  $("script").each((_, el) => {
+    if (appData) return;
+    const m = $(el)
+      .text()
+      .match(/window\.__appData\s*=\s*(\{[\s\S]*\})\s*;?\s*$/);
+    if (!m) return;
+    try {
+      appData = JSON.parse(m[1]);
+    } catch {
+      // Not valid JSON; fall through to DOM/JSON-LD
+    }
+  });
+
+  const posting = appData?.posting ?? appData?.jobPosting;
+  if (posting) {
+    data.job_title = cleanString(posting.title);
+    data.company_name = cleanString(appData.organization?.name);
+    Object.assign(
+      data,
+      parseLocation(posting.locationName ?? posting.location?.name)
+    );
+    data.job_type = normalizeJobType(posting.employmentType);
+    data.job_description = cleanDescription(
+      posting.descriptionHtml ?? posting.descriptionPlainText
+    );
+    salaryFromText(
+      data,
+      cleanString(posting.compensationTierSummary) ??
+        cleanString(posting.scrapeableCompensationSalarySummary)
+    );
+    return data;
+  }
+
+  data.job_title = textOf($, "h1");
+  data.company_name = metaContent($, "og:site_name");
+  return data;
+}
+
+function extractSmartRecruiters($: CheerioRoot, url: URL): StructuredJobData {
+  const data = emptyData();
+  data.job_title = textOf($, "h1.job-title") ?? textOf($, "h1");
+  data.company_name =
+    cleanString(
+      $('[itemprop="hiringOrganization"] [itemprop="name"]')
+        .first()
+        .attr("content")
+    ) ??
+    textOf($, '[itemprop="hiringOrganization"] [itemprop="name"]') ??
+    // jobs.smartrecruiters.com/<Company>/<id>
+    cleanString(url.pathname.split("/")[1]);
+  data.city_name =
+    textOf($, '[itemprop="addressLocality"]') ??
+    cleanString($('[itemprop="addressLocality"]').first().attr("content"));
+  data.state_code = textOf($, '[itemprop="addressRegion"]');
+  data.zipcode = textOf($, '[itemprop="postalCode"]');
+  data.street_address = textOf($, '[itemprop="streetAddress"]');
+  data.job_type = normalizeJobType(textOf($, '[itemprop="employmentType"]'));
+  data.job_description =
+    descriptionOf($, '[itemprop="description"]') ??
+    descriptionOf($, ".job-sections");
+  return data;
+}
+
+const HOST_EXTRACTORS: Array<{
+  name: Exclude<JobPostingExtractor, "json-ld">;
+  matches: (host: string) => boolean;
+  extract: ($: CheerioRoot, url: URL) => StructuredJobData;
+}> = [
+  {
+    name: "greenhouse",
+    matches: (host) => host.endsWith("greenhouse.io"),
+    extract: extractGreenhouse,
+  },
+  {
+    name: "lever",
+    matches: (host) => host === "jobs.lever.co",
+    extract: extractLever,
+  },
+  {
+    name: "workday",
+    matches: (host) => host.endsWith("myworkdayjobs.com"),
+    extract: extractWorkday,
+  },
+  {
+    name: "ashby",
+    matches: (host) => host === "jobs.ashbyhq.com",
+    extract: ($) => extractAshby($),
+  },
+  {
+    name: "smartrecruiters",
+    matches: (host) => host.endsWith("smartrecruiters.com"),
+    extract: extractSmartRecruiters,
+  },
+];
+
+/** Host-specific fields win; JSON-LD fills whatever the page layout lacked */
+function mergeData(
+  primary: StructuredJobData,
+  fallback: StructuredJobData | null
+): StructuredJobData {
+  if (!fallback) return primary;
+  const merged = { ...primary };
+  for (const key of Object.keys(merged) as Array<keyof StructuredJobData>) {
+    if (merged[key] === null || merged[key] === undefined) {
+      (merged as Record<string, unknown>)[key] = fallback[key];
+    }
+  }
+  return merged;
+}
+
+function isUsable(data: StructuredJobData): boolean {
+  return Boolean(data.job_title && (data.company_name || data.job_description));
+}
+
+/**
+ * Extract a job posting from structured page data.
+ * Returns null when nothing usable was found (caller should fall back to AI).
+ */
+export function parseStructuredJobPosting(
+  html: string,
+  pageUrl: string
+): StructuredJobPosting | null {
+  if (!html) return null;
+
+  let url: URL;
+  try {
+    url = new URL(pageUrl);
+  } catch {
+    return null;
+  }
+
+  let $: CheerioRoot;
+  try {
+    $ = cheerio.load(html);
+  } catch (err) {
+    logInfo("job_parser_load_failed", { url: pageUrl, error: String(err) });
+    return null;
+  }
+
+  const jsonLd = extractJsonLd($);
+  const host = url.hostname.toLowerCase();
+  const hostExtractor = HOST_EXTRACTORS.find((e) => e.matches(host));
+
+  if (hostExtractor) {
+    try {
+      const layout = hostExtractor.extract($, url);
+      const data = mergeData(layout, jsonLd);
+      if (isUsable(data)) {
+        // Credit JSON-LD when the layout selectors found no title of their own
+        return {
+          extractor: layout.job_title ? hostExtractor.name : "json-ld",
+          data,
+        };
+      }
+    } catch (err) {
+      logInfo("job_parser_failed", {
+        url: pageUrl,
+        extractor: hostExtractor.name,
+        error: String(err),
+      });
+    }
+  }
+
+  if (jsonLd && isUsable(jsonLd)) {
+    return { extractor: "json-ld", data: jsonLd };
+  }
+  return null;
+}
@@ -0,0 +1,539 @@
+/**
+ * Job Queue Service
+ *
+ * Persisted background jobs for long-running AI and scraping work (company
+ * research, career path simulation, market intelligence, job import, GitHub
+ * sync), plus the data access behind /api/background-jobs.
+ *
+ * Flow:
+ * 1. enqueueJob validates the input with the kind's handler, inserts a
+ *    pending row in background_jobs and wakes the worker
+ * 2. index.ts starts the worker; every JOB_QUEUE_POLL_INTERVAL_MS (and after
+ *    each enqueue or finished job) it calls claim_background_jobs for its
+ *    free slots (JOB_QUEUE_CONCURRENCY, SKIP LOCKED, safe with several
+ *    server instances)
+ * 3. The handler runs with a progress reporter; each report writes progress
+ *    (0-100 + message) to the row, so clients can poll or subscribe, and
+ *    refreshes the lock
+ * 4. Success stores the result. Failures are retried with backoff until
+ *    max_attempts (JOB_QUEUE_MAX_ATTEMPTS), then the job is failed; 4xx
+ *    ApiErrors (bad input) fail at once
+ * 5. Cancelling ends a pending job at once; a running job is marked
+ *    cancelled and stops at its next progress report. Results of cancelled
+ *    jobs are discarded
+ *
+ * Jobs whose worker stopped reporting (crashed server) are reclaimed after
+ * JOB_QUEUE_STALE_AFTER_MS. A clean shutdown hands running jobs back to the
+ * queue without counting the attempt.
+ *
+ * Functions:
+ * - registerJobHandler: what each kind runs (routes/background-jobs)
+ * - enqueueJob / getJob / listJobs / cancelJob: data access
+ * - runJobQueueTick: claim and run one batch of jobs
+ * - startJobQueue / stopJobQueue / wakeJobQueue: worker loop
+ */
+
+import { ApiError } from "../../utils/errors.js";
+import {
+  legacyLogError as logError,
+  legacyLogInfo as logInfo,
+} from "../../utils/logger.js";
+import { runWithUsageContext } from "./aiUsageService.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BackgroundJobKind =
+  | "company_research"
+  | "career_paths"
+  | "market_intelligence"
+  | "job_import"
+  | "github_sync";
+
+export type BackgroundJobStatus =
+  "pending" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface BackgroundJobRow {
+  id: string;
+  user_id: string;
+  kind: BackgroundJobKind;
+  input: Record<string, unknown>;
+  status: BackgroundJobStatus;
+  progress: number;
+  progress_message: string | null;
+  result: unknown;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Report progress (0-100); throws once the job has been cancelled */
+export type ProgressReporter = (
+  percent: number,
+  message: string
+) => Promise<void>;
+
+export interface JobContext {
+  jobId: string;
+  userId: string;
+  attempt: number;
+  progress: ProgressReporter;
+  /** Aborted when the job is cancelled or the server shuts down */
+  signal: AbortSignal;
+}
+
+export interface JobHandler {
+  /** Reject bad input at enqueue time (throw ApiError 400) */
+  validate?: (input: Record<string, unknown>) => void;
+  run: (input: Record<string, unknown>, ctx: JobContext) => Promise<unknown>;
+}
+
+export interface JobQueueTickResult {
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  failed: number;
+  cancelled: number;
+}
+
+type JobOutcome = "succeeded" | "retried" | "failed" | "cancelled";
+
+export const BACKGROUND_JOB_KINDS: BackgroundJobKind[] = [
+  "company_research",
+  "career_paths",
+  "market_intelligence",
+  "job_import",
+  "github_sync",
+];
+
+export const BACKGROUND_JOB_STATUSES: BackgroundJobStatus[] = [
+  "pending",
+  "running",
+  "succeeded",
+  "failed",
+  "cancelled",
+];
+
+const JOB_COLUMNS =
+  "id, user_id, kind, input, status, progress, progress_message, result, attempts, max_attempts, run_after, last_error, started_at, completed_at, created_at, updated_at";
+
+/** Thrown from progress() when the job was cancelled or handed back */
+export class JobCancelledError extends Error {
+  constructor(message = "Job cancelled") {
+    super(message);
+    this.name = "JobCancelledError";
+  }
+}
+
+function envInt(name: string, fallback: number): number {
+  const n = Number(process.env[name] || fallback);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+/** 30s, 1m, 2m, 4m ... after each failed attempt, capped at 10 minutes */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(600_000, 30_000 * 2 ** Math.max(0, attempts - 1));
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+const handlers = new Map<BackgroundJobKind, JobHandler>();
+
+export function registerJobHandler(
+  kind: BackgroundJobKind,
+  handler: JobHandler
+): void {
+  handlers.set(kind, handler);
+}
+
+// ============================================================================
+// Data access
+// ============================================================================
+
+export async function enqueueJob(
+  userId: string,
+  kind: BackgroundJobKind,
+  input: Record<string, unknown>
+): Promise<BackgroundJobRow> {
+  const handler = handlers.get(kind);
+  if (!handler) {
+    throw new ApiError(
+      400,
+      `kind must be one of ${[...handlers.keys()].join(", ")}`,
+      "bad_request"
+    );
+  }
+  handler.validate?.(input);
+
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("background_jobs")
+    .insert({
+      user_id: userId,
+      kind,
+      input,
+      max_attempts: envInt("JOB_QUEUE_MAX_ATTEMPTS", 3),
+    })
+    .select(JOB_COLUMNS)
+    .single();
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  wakeJobQueue();
+  return data as BackgroundJobRow;
+}
+
+export async function getJob(
+  userId: string,
+  jobId: string
+): Promise<BackgroundJobRow> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("background_jobs")
+    .select(JOB_COLUMNS)
+    .eq("user_id", userId)
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data) throw new ApiError(404, "Background job not found", "not_found");
+  return data as BackgroundJobRow;
+}
+
+/** Newest first, without results (fetch one job for its result) */
+export async function listJobs(
+  userId: string,
+  options: {
+    status?: BackgroundJobStatus;
+    kind?: BackgroundJobKind;
+    limit?: number;
+  } = {}
+) {
+  const supabase = await getSupabaseAdmin();
+  let query = supabase
+    .from("background_jobs")
+    .select(
+      "id, kind, status, progress, progress_message, attempts, max_attempts, last_error, started_at, completed_at, created_at, updated_at"
+    )
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? 50);
+  if (options.status) query = query.eq("status", options.status);
+  if (options.kind) query = query.eq("kind", options.kind);
+
+  const { data, error } = await query;
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return data ?? [];
+}
+
+/** Cancel a pending or running job; 409 when it already finished */
+export async function cancelJob(
+  userId: string,
+  jobId: string
+): Promise<BackgroundJobRow> {
+  const supabase = await getSupabaseAdmin();
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("background_jobs")
+    .update({
+      status: "cancelled",
+      completed_at: now,
+      locked_at: null,
+      updated_at: now,
+    })
+    .eq("user_id", userId)
+    .eq("id", jobId)
+    .in("status", ["pending", "running"])
+    .select(JOB_COLUMNS);
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  if (!data?.length) {
+    const job = await getJob(userId, jobId);
+    throw new ApiError(409, `Job already ${job.status}`, "job_finished", {
+      status: job.status,
+    });
+  }
+
+  // Stop at once when this instance runs it; others notice at the next report
+  active.get(jobId)?.abort(new JobCancelledError());
+  return data[0] as BackgroundJobRow;
+}
+
+// ============================================================================
+// Running jobs
+// ============================================================================
+
+/** Jobs running in this process */
+const active = new Map<string, AbortController>();
+
+async function claimJobs(limit: number): Promise<BackgroundJobRow[]> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase.rpc("claim_background_jobs", {
+    p_limit: limit,
+    p_stale_after: `${envInt("JOB_QUEUE_STALE_AFTER_MS", 300_000) / 1000} seconds`,
+  });
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return (data ?? []) as BackgroundJobRow[];
+}
+
+/**
+ * Write a finished or retried job. Guarded on status so a job cancelled
+ * (or handed back) meanwhile is left alone.
+ */
+async function finishJob(
+  job: BackgroundJobRow,
+  update: Record<string, unknown>
+): Promise<void> {
+  const supabase = await getSupabaseAdmin();
+  const { error } = await supabase
+    .from("background_jobs")
+    .update({
+      ...update,
+      locked_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", "running");
+  if (error) {
+    logError("background_job_update_failed", {
+      jobId: job.id,
+      error: error.message,
+    });
+  }
+}
+
+async function runJob(job: BackgroundJobRow): Promise<JobOutcome> {
+  const now = () => new Date().toISOString();
+  const handler = handlers.get(job.kind);
+
+  // Reclaimed after its worker died on the last allowed attempt
+  if (!handler || job.attempts > job.max_attempts) {
+    await finishJob(job, {
+      status: "failed",
+      completed_at: now(),
+      last_error: handler
+        ? (job.last_error ?? "Worker stopped responding")
+        : `No handler for ${job.kind}`,
+    });
+    return "failed";
+  }
+
+  const controller = new AbortController();
+  active.set(job.id, controller);
+  const supabase = await getSupabaseAdmin();
+
+  const progress: ProgressReporter = async (percent, message) => {
+    if (controller.signal.aborted) throw new JobCancelledError();
+    const { data, error } = await supabase
+      .from("background_jobs")
+      .update({
+        progress: Math.max(0, Math.min(100, Math.round(percent))),
+        progress_message: message,
+        locked_at: now(),
+        updated_at: now(),
+      })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .select("id");
+    if (error) {
+      // Progress is best-effort; the job itself keeps going
+      logError("background_job_progress_failed", {
+        jobId: job.id,
+        error: error.message,
+      });
+      return;
+    }
+    if (!data?.length) {
+      controller.abort(new JobCancelledError());
+      throw new JobCancelledError();
+    }
+  };
+
+  const start = Date.now();
+  try {
+    const result = await runWithUsageContext(
+      {
+        userId: job.user_id,
+        route: `background-job:${job.kind}`,
+        reqId: job.id,
+      },
+      () =>
+        handler.run(job.input ?? {}, {
+          jobId: job.id,
+          userId: job.user_id,
+          attempt: job.attempts,
+          progress,
+          signal: controller.signal,
+        })
+    );
+    if (controller.signal.aborted) return "cancelled";
+
+    await finishJob(job, {
+      status: "succeeded",
+      progress: 100,
+      result: result ?? null,
+      last_error: null,
+      completed_at: now(),
+    });
+    logInfo("background_job_succeeded", {
+      jobId: job.id,
+      kind: job.kind,
+      attempts: job.attempts,
+      latency_ms: Date.now() - start,
+    });
+    return "succeeded";
+  } catch (err: any) {
+    if (controller.signal.aborted || err instanceof JobCancelledError) {
+      return "cancelled";
+    }
+
+    const message = err?.message ?? String(err);
+    const permanent =
+      err instanceof ApiError && err.status >= 400 && err.status < 500;
+    const retry = !permanent && job.attempts < job.max_attempts;
+
+    logError("background_job_failed", {
+      jobId: job.id,
+      kind: job.kind,
+      attempts: job.attempts,
+      retry,
+      error: message,
+    });
+
+    if (retry) {
+      await finishJob(job, {
+        status: "pending",
+        run_after: new Date(
+          Date.now() + retryDelayMs(job.attempts)
+        ).toISOString(),
+        last_error: message,
+      });
+      return "retried";
+    }
+    await finishJob(job, {
+      status: "failed",
+      last_error: message,
+      completed_at: now(),
+    });
+    return "failed";
+  } finally {
+    active.delete(job.id);
+  }
+}
+
+/** Claim up to `limit` jobs and run them to completion */
+export async function runJobQueueTick(
+  options: { limit?: number } = {}
+): Promise<JobQueueTickResult> {
+  const jobs = await claimJobs(
+    options.limit ?? envInt("JOB_QUEUE_CONCURRENCY", 2)
+  );
+  const result: JobQueueTickResult = {
+    claimed: jobs.length,
+    succeeded: 0,
+    retried: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  for (const outcome of await Promise.all(jobs.map(runJob))) {
+    result[outcome]++;
+  }
+  return result;
+}
+
+// ============================================================================
+// Worker loop
+// ============================================================================
+
+let timer: NodeJS.Timeout | null = null;
+let claiming = false;
+
+/** Fill free slots; jobs run in the background and poll again when done */
+async function poll(): Promise<void> {
+  const free = envInt("JOB_QUEUE_CONCURRENCY", 2) - active.size;
+  if (!timer || claiming || free <= 0) return;
+  claiming = true;
+  try {
+    const jobs = await claimJobs(free);
+    for (const job of jobs) {
+      void runJob(job).finally(() => void poll());
+    }
+  } catch (e: any) {
+    logError("background_job_claim_failed", {
+      error: e?.message ?? String(e),
+    });
+  } finally {
+    claiming = false;
+  }
+}
+
+/**
+ * Poll for jobs every JOB_QUEUE_POLL_INTERVAL_MS (default 5s).
+ * No-op when the database is not configured or JOB_QUEUE=off.
+ * Returns true when the loop was started.
+ */
+export function startJobQueue(
+  intervalMs = Number(process.env.JOB_QUEUE_POLL_INTERVAL_MS || 5_000)
+): boolean {
+  if (timer) return true;
+  if (process.env.JOB_QUEUE === "off") return false;
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return false;
+  }
+
+  timer = setInterval(() => void poll(), intervalMs);
+  // Never keep the process alive just for the queue
+  timer.unref();
+  void poll();
+  return true;
+}
+
+/** Pick up a new job now instead of at the next poll */
+export function wakeJobQueue(): void {
+  void poll();
+}
+
+/**
+ * Stop polling and hand running jobs back to the queue (the attempt is not
+ * counted), so another instance or the next start picks them up.
+ */
+export async function stopJobQueue(): Promise<void> {
+  if (timer) clearInterval(timer);
+  timer = null;
+  if (active.size === 0) return;
+
+  const ids = [...active.keys()];
+  for (const controller of active.values()) {
+    controller.abort(new JobCancelledError("Server shutting down"));
+  }
+  try {
+    const supabase = await getSupabaseAdmin();
+    const { data, error } = await supabase.rpc("release_background_jobs", {
+      p_ids: ids,
+    });
+    if (error) throw new Error(error.message);
+    logInfo("background_jobs_released", { count: data ?? 0 });
+  } catch (e: any) {
+    logError("background_job_release_failed", {
+      error: e?.message ?? String(e),
+    });
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Job Search Service
+ *
+ * Server-side filtering, full-text search, sorting and pagination of a
+ * user's jobs, behind GET /api/jobs.
+ *
+ * Filtering happens in Postgres (search_jobs RPC): full-text search over
+ * title, company and description (websearch syntax, e.g. "react -angular"),
+ * plus the JobFilters fields the frontend already uses. The stage filter,
+ * ordering and pagination are chained on the RPC result; job_stage_counts
+ * returns per-stage totals for the same filters (ignoring the stage filter),
+ * which also supply the total for pagination.
+ *
+ * Pagination modes (utils/pagination.ts):
+ * - offset (default): page or offset + limit, with page counts
+ * - cursor (mode=cursor): opaque cursor over job id, newest or oldest first,
+ *   for infinite scroll; only with sortBy=created_at
+ *
+ * Functions:
+ * - parseJobSearchParams: query string → validated JobSearchParams
+ * - searchJobs: one page of jobs plus stage counts
+ */
+
+import { ApiError } from "../../utils/errors.js";
+import {
+  applyCursorPagination,
+  buildPaginatedResponse,
+  decodeCursor,
+  processCursorResults,
+  validatePaginationParams,
+  type PaginatedResponse,
+} from "../utils/pagination.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JobSortField =
+  "created_at" | "application_deadline" | "company_name" | "job_title";
+
+/** Mirrors the frontend JobFilters (plus page / cursor / includeArchived) */
+export interface JobSearchParams {
+  search?: string;
+  stage?: string;
+  industry?: string;
+  jobType?: string;
+  minSalary?: number;
+  maxSalary?: number;
+  deadlineBefore?: string;
+  deadlineAfter?: string;
+  createdBefore?: string;
+  createdAfter?: string;
+  includeArchived?: boolean;
+  sortBy: JobSortField;
+  sortOrder: "asc" | "desc";
+  mode: "offset" | "cursor";
+  limit: number;
+  page: number;
+  /** Set when the caller passed offset instead of page */
+  offset?: number;
+  /** Cursor mode: nextCursor of the previous page (absent for the first) */
+  cursor?: string;
+}
+
+export type StageCounts = Record<string, number>;
+
+export interface JobSearchResult extends PaginatedResponse<
+  Record<string, any>
+> {
+  /** Matching jobs per stage, ignoring the stage filter */
+  stageCounts: StageCounts;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SORT_FIELDS: JobSortField[] = [
+  "created_at",
+  "application_deadline",
+  "company_name",
+  "job_title",
+];
+
+/** jobs.job_status values, in pipeline order */
+export const JOB_STAGES = [
+  "Interested",
+  "Applied",
+  "Phone Screen",
+  "Interview",
+  "Offer",
+  "Rejected",
+  "Accepted",
+  "Declined",
+];
+
+const DATE = /^\d{4}-\d{2}-\d{2}/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function bad(message: string): ApiError {
+  return new ApiError(400, message, "bad_request");
+}
+
+function text(params: URLSearchParams, key: string): string | undefined {
+  const value = params.get(key)?.trim();
+  if (!value) return undefined;
+  if (value.length > 200) throw bad(`${key} must be at most 200 characters`);
+  return value;
+}
+
+function nonNegative(params: URLSearchParams, key: string): number | undefined {
+  const raw = params.get(key);
+  if (raw == null || raw === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw bad(`${key} must be a non-negative number`);
+  }
+  return value;
+}
+
+function date(params: URLSearchParams, key: string): string | undefined {
+  const value = params.get(key);
+  if (!value) return undefined;
+  if (!DATE.test(value) || Number.isNaN(new Date(value).getTime())) {
+    throw bad(`${key} must be an ISO date`);
+  }
+  return value;
+}
+
+/** Validate GET /api/jobs query parameters */
+export function parseJobSearchParams(params: URLSearchParams): JobSearchParams {
+  const stage = text(params, "stage");
+  if (stage && stage !== "All" && !JOB_STAGES.includes(stage)) {
+    throw bad(`stage must be one of All, ${JOB_STAGES.join(", ")}`);
+  }
+
+  const sortBy = (params.get("sortBy") ?? "created_at") as JobSortField;
+  if (!SORT_FIELDS.includes(sortBy)) {
+    throw bad(`sortBy must be one of ${SORT_FIELDS.join(", ")}`);
+  }
+  const sortOrder = params.get("sortOrder") ?? "desc";
+  if (sortOrder !== "asc" && sortOrder !== "desc") {
+    throw bad("sortOrder must be asc or desc");
+  }
+
+  const offset = nonNegative(params, "offset");
+  const { page, limit } = validatePaginationParams({
+    page: nonNegative(params, "page"),
+    limit: nonNegative(params, "limit"),
+  });
+
+  const cursor = params.get("cursor") || undefined;
+  const mode = params.get("mode") ?? (cursor ? "cursor" : "offset");
+  if (mode !== "offset" && mode !== "cursor") {
+    throw bad("mode must be offset or cursor");
+  }
+  if (mode === "cursor" && sortBy !== "created_at") {
+    throw bad("cursor pagination only supports sortBy=created_at");
+  }
+  if (cursor && decodeCursor(cursor)?.field !== "id") {
+    throw bad("Invalid cursor");
+  }
+
+  return {
+    search: text(params, "search"),
+    stage: stage === "All" ? undefined : stage,
+    industry: text(params, "industry"),
+    jobType: text(params, "jobType"),
+    minSalary: nonNegative(params, "minSalary"),
+    maxSalary: nonNegative(params, "maxSalary"),
+    deadlineBefore: date(params, "deadlineBefore"),
+    deadlineAfter: date(params, "deadlineAfter"),
+    createdBefore: date(params, "createdBefore"),
+    createdAfter: date(params, "createdAfter"),
+    includeArchived: params.get("includeArchived") === "true",
+    sortBy,
+    sortOrder,
+    mode,
+    limit,
+    page,
+    offset,
+    cursor,
+  };
+}
+
+/** search_jobs filter object; the stage filter is applied separately */
+function rpcFilters(params: JobSearchParams): Record<string, unknown> {
+  const filters: Record<string, unknown> = {
+    search: params.search,
+    // ILIKE wildcards in user input match literally
+    industry: params.industry?.replace(/[\\%_]/g, (c) => `\\${c}`),
+    job_type: params.jobType,
+    min_salary: params.minSalary,
+    max_salary: params.maxSalary,
+    deadline_after: params.deadlineAfter,
+    deadline_before: params.deadlineBefore,
+    created_after: params.createdAfter,
+    created_before: params.createdBefore,
+    include_archived: params.includeArchived || undefined,
+  };
+  for (const key of Object.keys(filters)) {
+    if (filters[key] === undefined) delete filters[key];
+  }
+  return filters;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+async function loadStageCounts(
+  userId: string,
+  filters: Record<string, unknown>
+): Promise<StageCounts> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase.rpc("job_stage_counts", {
+    p_user_id: userId,
+    p_filters: filters,
+  });
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  const counts: StageCounts = Object.fromEntries(
+    JOB_STAGES.map((stage) => [stage, 0])
+  );
+  for (const row of (data ?? []) as Array<{
+    job_status: string;
+    total: number | string;
+  }>) {
+    counts[row.job_status] = Number(row.total);
+  }
+  return counts;
+}
+
+/** One page of a user's jobs matching the filters, with per-stage counts */
+export async function searchJobs(
+  userId: string,
+  params: JobSearchParams
+): Promise<JobSearchResult> {
+  const supabase = await getSupabaseAdmin();
+  const filters = rpcFilters(params);
+  const stageCounts = await loadStageCounts(userId, filters);
+  const totalItems = params.stage
+    ? (stageCounts[params.stage] ?? 0)
+    : Object.values(stageCounts).reduce((sum, n) => sum + n, 0);
+
+  let query = supabase.rpc("search_jobs", {
+    p_user_id: userId,
+    p_filters: filters,
+  });
+  if (params.stage) query = query.eq("job_status", params.stage);
+
+  if (params.mode === "cursor") {
+    // Job ids grow with created_at, so id order is creation order
+    query = applyCursorPagination(query, {
+      cursor: params.cursor,
+      limit: params.limit,
+      cursorField: "id",
+      direction: params.sortOrder,
+    });
+    const { data, error } = await query;
+    if (error) throw new ApiError(500, error.message, "db_error");
+    const page = processCursorResults(
+      (data ?? []) as Record<string, any>[],
+      params.limit,
+      "id"
+    );
+    const response = buildPaginatedResponse(
+      page.data,
+      1,
+      params.limit,
+      totalItems,
+      page.nextCursor
+    );
+    return {
+      ...response,
+      pagination: {
+        ...response.pagination,
+        hasNextPage: page.hasMore,
+        hasPreviousPage: Boolean(params.cursor),
+      },
+      stageCounts,
+    };
+  }
+
+  const from = params.offset ?? (params.page - 1) * params.limit;
+  const page = Math.floor(from / params.limit) + 1;
+  const ascending = params.sortOrder === "asc";
+  const { data, error } = await query
+    .order(params.sortBy, { ascending, nullsFirst: false })
+    // Tie-breaker keeps pages stable when sort values repeat
+    .order("id", { ascending })
+    .range(from, from + params.limit - 1);
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  const rows = (data ?? []) as Record<string, any>[];
+  const response = buildPaginatedResponse(rows, page, params.limit, totalItems);
+  return {
+    ...response,
+    pagination: {
+      ...response.pagination,
+      // An offset need not fall on a page boundary
+      hasNextPage: from + rows.length < totalItems,
+      hasPreviousPage: from > 0,
+    },
+    stageCounts,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * JSON SECTION STREAM
+ *
+ * Purpose:
+ * - Turn a streamed JSON object (arriving as text deltas from the AI provider)
+ *   into "section complete" events as soon as each top-level value closes
+ * - Lets generation routes push resume/cover letter sections to the UI
+ *   before the whole document has been produced
+ *
+ * How it works:
+ * - A single-pass scanner tracks string/escape state and a stack of open
+ *   objects/arrays; it never re-reads earlier text
+ * - When a value directly inside an object at depth <= maxDepth closes, it is
+ *   parsed and emitted with its key path, e.g. ["summary"] or
+ *   ["sections", "experience"]
+ * - Leading markdown fences or prose before the first "{" are ignored
+ *
+ * Usage:
+ *   const stream = new JsonSectionStream();
+ *   for (const delta of deltas) {
+ *     for (const section of stream.push(delta)) send(section);
+ *   }
+ */
+
+/** A completed value inside the streamed object */
+export interface JsonSection {
+  /** Key path from the root object */
+  path: string[];
+  /** Parsed value */
+  value: unknown;
+}
+
+interface Frame {
+  type: "object" | "array";
+  /** Current key (objects only) */
+  key?: string;
+  /** True while the next string in this object is a key */
+  expectingKey: boolean;
+  /** Buffer offset where the current value started */
+  valueStart?: number;
+}
+
+export class JsonSectionStream {
+  private text = "";
+  private offset = 0;
+  private stack: Frame[] = [];
+  private started = false;
+  private done = false;
+  private inString = false;
+  private escaped = false;
+  private stringStart = 0;
+
+  /**
+   * @param maxDepth Deepest object level whose values are emitted
+   *                 (1 = root keys only, 2 = root keys + their object children)
+   */
+  constructor(private readonly maxDepth = 2) {}
+
+  /** Full text received so far */
+  get buffer(): string {
+    return this.text;
+  }
+
+  /** Feed the next chunk; returns sections completed by it */
+  push(chunk: string): JsonSection[] {
+    const out: JsonSection[] = [];
+    this.text += chunk;
+
+    for (; this.offset < this.text.length && !this.done; this.offset++) {
+      const i = this.offset;
+      const ch = this.text[i];
+
+      if (!this.started) {
+        if (ch === "{") {
+          this.started = true;
+          this.stack.push({ type: "object", expectingKey: true });
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === "\\") {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+          this.closeString(i, out);
+        }
+        continue;
+      }
+
+      const top = this.stack[this.stack.length - 1];
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          this.stringStart = i;
+          if (!(top.type === "object" && top.expectingKey)) {
+            this.markValueStart(top, i);
+          }
+          break;
+        case "{":
+        case "[":
+          this.markValueStart(top, i);
+          this.stack.push({
+            type: ch === "{" ? "object" : "array",
+            expectingKey: ch === "{",
+          });
+          break;
+        case "}":
+        case "]":
+          this.closePrimitive(top, i, out);
+          this.stack.pop();
+          if (this.stack.length === 0) {
+            this.done = true;
+          } else {
+            this.closeValue(this.stack[this.stack.length - 1], i + 1, out);
+          }
+          break;
+        case ":":
+          top.expectingKey = false;
+          break;
+        case ",":
+          this.closePrimitive(top, i, out);
+          if (top.type === "object") top.expectingKey = true;
+          break;
+        default:
+          if (!/\s/.test(ch)) this.markValueStart(top, i);
+      }
+    }
+
+    return out;
+  }
+
+  private markValueStart(frame: Frame, index: number): void {
+    if (frame.type === "object" && frame.valueStart === undefined) {
+      frame.valueStart = index;
+    }
+  }
+
+  private closeString(index: number, out: JsonSection[]): void {
+    const top = this.stack[this.stack.length - 1];
+    if (top.type === "object" && top.expectingKey) {
+      try {
+        top.key = JSON.parse(this.text.slice(this.stringStart, index + 1));
+      } catch {
+        top.key = this.text.slice(this.stringStart + 1, index);
+      }
+      return;
+    }
+    this.closeValue(top, index + 1, out);
+  }
+
+  /** Numbers / true / false / null end at the next "," or closing bracket */
+  private closePrimitive(frame: Frame, index: number, out: JsonSection[]) {
+    if (frame.type === "object" && frame.valueStart !== undefined) {
+      this.closeValue(frame, index, out);
+    }
+  }
+
+  private closeValue(frame: Frame, end: number, out: JsonSection[]): void {
+    if (frame.type !== "object" || frame.valueStart === undefined) return;
+    const start = frame.valueStart;
+    frame.valueStart = undefined;
+
+    const depth = this.stack.length;
+    if (depth > this.maxDepth || frame.key === undefined) return;
+    if (this.stack.some((f) => f.type !== "object")) return;
+
+    try {
+      const value = JSON.parse(this.text.slice(start, end));
+      const path = this.stack.map((f) => f.key as string);
+      out.push({ path, value });
+    } catch {
+      // Malformed fragment - the final parse will surface the problem
+    }
+  }
+}
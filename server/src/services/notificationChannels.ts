@@ -0,0 +1,486 @@
+/**
+ * NOTIFICATION CHANNELS
+ *
+ * Delivery adapters used by the notification scheduler. Each channel takes a
+ * message plus the recipient's settings and either resolves (delivered) or
+ * throws (the scheduler records the error and retries).
+ *
+ * Built-in channels:
+ * - in_app: row in notification_inbox (idempotent per notification)
+ * - email: plain-text mail over SMTP (SMTP_HOST, SMTP_PORT, SMTP_SECURE,
+ *   SMTP_USER, SMTP_PASS, SMTP_FROM); STARTTLS is used when the server offers it
+ * - webhook: JSON POST to the user's webhook_url, signed with
+ *   X-Notification-Signature: sha256=<hmac> when NOTIFICATION_WEBHOOK_SECRET is set;
+ *   hosts that resolve to loopback, link-local or private addresses are refused,
+ *   and the request connects only to the addresses that were checked
+ *
+ * Links in email/webhook payloads are made absolute with APP_BASE_URL.
+ *
+ * Exports:
+ * - registerNotificationChannel / getNotificationChannel: channel registry
+ * - sendSmtpMail: minimal SMTP client used by the email channel
+ * - assertPublicWebhookUrl: the webhook channel's target check
+ */
+
+import { createHmac, randomUUID } from "node:crypto";
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import * as net from "node:net";
+import * as tls from "node:tls";
+import { Agent, fetch } from "undici";
+import { ApiError } from "../../utils/errors.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotificationChannelName = "in_app" | "email" | "webhook";
+
+export type NotificationKind =
+  | "interview_reminder"
+  | "contact_reminder"
+  | "followup_nudge"
+  | "automation"
+  | "saved_search_digest";
+
+export interface NotificationMessage {
+  id: string;
+  userId: string;
+  kind: NotificationKind;
+  title: string;
+  body: string | null;
+  link: string | null;
+  payload: Record<string, unknown>;
+  runAt: string;
+}
+
+export interface NotificationRecipient {
+  userId: string;
+  email: string | null;
+  webhookUrl: string | null;
+}
+
+export type NotificationChannel = (
+  message: NotificationMessage,
+  recipient: NotificationRecipient
+) => Promise<void>;
+
+function absoluteLink(link: string | null): string | null {
+  if (!link) return null;
+  if (/^https?:\/\//.test(link)) return link;
+  const base = (process.env.APP_BASE_URL ?? "").replace(/\/$/, "");
+  return base ? `${base}${link.startsWith("/") ? "" : "/"}${link}` : link;
+}
+
+// ============================================================================
+// In-app inbox
+// ============================================================================
+
+const sendInApp: NotificationChannel = async (message) => {
+  const supabase = await getSupabaseAdmin();
+  const { error } = await supabase.from("notification_inbox").upsert(
+    {
+      user_id: message.userId,
+      notification_id: message.id,
+      kind: message.kind,
+      title: message.title,
+      body: message.body,
+      link: message.link,
+    },
+    { onConflict: "notification_id", ignoreDuplicates: true }
+  );
+  if (error) throw new Error(`inbox insert failed: ${error.message}`);
+};
+
+// ============================================================================
+// Email (SMTP)
+// ============================================================================
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465); otherwise STARTTLS when offered */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs: number;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+function getSmtpConfig(): SmtpConfig {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) {
+    throw new Error("email channel not configured (SMTP_HOST / SMTP_FROM)");
+  }
+  const port = Number(process.env.SMTP_PORT || 587);
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE
+      ? process.env.SMTP_SECURE === "true"
+      : port === 465,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from,
+    timeoutMs: Number(process.env.SMTP_TIMEOUT_MS || 15000),
+  };
+}
+
+/**
+ * Line reader for one SMTP conversation. Replies may span several lines
+ * ("250-..." continuations, "250 ..." final); the socket can be swapped when
+ * the connection is upgraded with STARTTLS.
+ */
+class SmtpReader {
+  private buffer = "";
+  private error: Error | null = null;
+  private waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (err: Error) => void;
+  } | null = null;
+  private socket: net.Socket | null = null;
+
+  private readonly onData = (chunk: Buffer | string) => {
+    this.buffer += chunk.toString();
+    this.flush();
+  };
+
+  private readonly onError = (err: Error) => {
+    this.error = err;
+    this.flush();
+  };
+
+  private readonly onClose = () => {
+    this.onError(new Error("SMTP connection closed"));
+  };
+
+  attach(socket: net.Socket): void {
+    this.detach();
+    this.socket = socket;
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  detach(): void {
+    if (!this.socket) return;
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+    this.socket = null;
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  private flush(): void {
+    if (!this.waiting) return;
+    const lines = this.buffer.split("\r\n");
+    for (let i = 0; i < lines.length - 1; i++) {
+      if (/^\d{3}(?: |$)/.test(lines[i])) {
+        const reply = lines.slice(0, i + 1);
+        this.buffer = lines.slice(i + 1).join("\r\n");
+        const { resolve } = this.waiting;
+        this.waiting = null;
+        resolve({
+          code: Number(lines[i].slice(0, 3)),
+          lines: reply.map((l) => l.slice(4)),
+        });
+        return;
+      }
+    }
+    if (this.error) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.error);
+    }
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({
+          host: config.host,
+          port: config.port,
+          servername: config.host,
+        })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(config.timeoutMs, () =>
+      socket.destroy(new Error("SMTP timeout"))
+    );
+    socket.once(config.secure ? "secureConnect" : "connect", () =>
+      resolve(socket)
+    );
+    socket.once("error", reject);
+  });
+}
+
+function upgradeToTls(
+  socket: net.Socket,
+  config: SmtpConfig
+): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: config.host });
+    secure.setTimeout(config.timeoutMs, () =>
+      secure.destroy(new Error("SMTP timeout"))
+    );
+    secure.once("secureConnect", () => resolve(secure));
+    secure.once("error", reject);
+  });
+}
+
+function formatMessage(
+  config: SmtpConfig,
+  mail: MailMessage,
+  messageId: string
+) {
+  const domain = config.from.split("@")[1]?.replace(/>.*$/, "") || config.host;
+  const headers = [
+    `From: ${config.from}`,
+    `To: ${mail.to}`,
+    // RFC 2047 so non-ASCII subjects survive
+    `Subject: =?UTF-8?B?${Buffer.from(mail.subject).toString("base64")}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${messageId}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  // Normalize line endings and dot-stuff lines that start with "."
+  const body = mail.text.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n.`;
+}
+
+/**
+ * Send one plain-text email; resolves with the Message-ID.
+ * Throws on any non-success SMTP reply.
+ */
+export async function sendSmtpMail(
+  mail: MailMessage,
+  config: SmtpConfig = getSmtpConfig()
+): Promise<string> {
+  const reader = new SmtpReader();
+  let socket = await connect(config);
+  reader.attach(socket);
+
+  const command = async (line: string | null, expect: number) => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await reader.read();
+    if (reply.code !== expect) {
+      const shown = line?.startsWith("AUTH") ? "AUTH" : line;
+      throw new Error(
+        `SMTP ${shown ?? "greeting"} failed: ${reply.code} ${reply.lines.join(" ")}`
+      );
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, 220);
+    const helo = process.env.SMTP_HELO_NAME || "localhost";
+    let ehlo = await command(`EHLO ${helo}`, 250);
+
+    if (!config.secure && ehlo.lines.some((l) => /^STARTTLS/i.test(l))) {
+      await command("STARTTLS", 220);
+      reader.detach();
+      socket = await upgradeToTls(socket, config);
+      reader.attach(socket);
+      ehlo = await command(`EHLO ${helo}`, 250);
+    }
+
+    if (config.user && config.pass) {
+      const token = Buffer.from(`\0${config.user}\0${config.pass}`).toString(
+        "base64"
+      );
+      await command(`AUTH PLAIN ${token}`, 235);
+    }
+
+    const address = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value;
+    await command(`MAIL FROM:<${address(config.from)}>`, 250);
+    await command(`RCPT TO:<${address(mail.to)}>`, 250);
+    await command("DATA", 354);
+    const messageId = randomUUID();
+    await command(formatMessage(config, mail, messageId), 250);
+    await command("QUIT", 221).catch(() => undefined);
+    return messageId;
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+}
+
+const sendEmail: NotificationChannel = async (message, recipient) => {
+  if (!recipient.email) throw new Error("no email address for user");
+  const link = absoluteLink(message.link);
+  await sendSmtpMail({
+    to: recipient.email,
+    subject: message.title,
+    text: [message.body, link ? `Open: ${link}` : null]
+      .filter(Boolean)
+      .join("\n\n"),
+  });
+};
+
+// ============================================================================
+// Webhook
+// ============================================================================
+
+// Unspecified, private, shared (CGNAT), loopback, link-local and multicast
+const NON_PUBLIC = new net.BlockList();
+NON_PUBLIC.addSubnet("0.0.0.0", 8, "ipv4");
+NON_PUBLIC.addSubnet("10.0.0.0", 8, "ipv4");
+NON_PUBLIC.addSubnet("100.64.0.0", 10, "ipv4");
+NON_PUBLIC.addSubnet("127.0.0.0", 8, "ipv4");
+NON_PUBLIC.addSubnet("169.254.0.0", 16, "ipv4");
+NON_PUBLIC.addSubnet("172.16.0.0", 12, "ipv4");
+NON_PUBLIC.addSubnet("192.168.0.0", 16, "ipv4");
+NON_PUBLIC.addSubnet("224.0.0.0", 3, "ipv4");
+NON_PUBLIC.addAddress("::", "ipv6");
+NON_PUBLIC.addAddress("::1", "ipv6");
+NON_PUBLIC.addSubnet("fc00::", 7, "ipv6");
+NON_PUBLIC.addSubnet("fe80::", 10, "ipv6");
+NON_PUBLIC.addSubnet("ff00::", 8, "ipv6");
+
+/**
+ * Throws unless the URL is http(s) and every address its host resolves to
+ * is public, so a webhook cannot reach the server's own network.
+ * (IPv4-mapped IPv6 addresses are checked as IPv4.) Returns the checked
+ * addresses so the caller can connect to exactly those.
+ */
+export async function assertPublicWebhookUrl(
+  value: string
+): Promise<LookupAddress[]> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error("webhook_url is not a valid URL");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("webhook_url must use http or https");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(host)
+    ? [{ address: host, family: net.isIP(host) }]
+    : await lookup(host, { all: true });
+  for (const { address, family } of addresses) {
+    if (NON_PUBLIC.check(address, family === 6 ? "ipv6" : "ipv4")) {
+      throw new Error(`webhook host ${url.hostname} is not a public address`);
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Connection pool whose DNS lookups answer with the given addresses only.
+ * Resolving the name again at connect time could return a different
+ * (private) address than the one that was checked.
+ */
+function pinnedAgent(addresses: LookupAddress[]): Agent {
+  return new Agent({
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) callback(null, addresses);
+        else callback(null, addresses[0].address, addresses[0].family);
+      },
+    },
+  });
+}
+
+const sendWebhook: NotificationChannel = async (message, recipient) => {
+  if (!recipient.webhookUrl) throw new Error("no webhook_url for user");
+  const addresses = await assertPublicWebhookUrl(recipient.webhookUrl);
+
+  const body = JSON.stringify({
+    id: message.id,
+    kind: message.kind,
+    title: message.title,
+    body: message.body,
+    link: absoluteLink(message.link),
+    runAt: message.runAt,
+    payload: message.payload,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Notification-Id": message.id,
+  };
+  const secret = process.env.NOTIFICATION_WEBHOOK_SECRET;
+  if (secret) {
+    headers["X-Notification-Signature"] =
+      "sha256=" + createHmac("sha256", secret).update(body).digest("hex");
+  }
+
+  const dispatcher = pinnedAgent(addresses);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 10_000);
+  try {
+    const res = await fetch(recipient.webhookUrl, {
+      method: "POST",
+      headers,
+      body,
+      signal: controller.signal,
+      // A redirect could point at a host that was never checked
+      redirect: "error",
+      dispatcher,
+    });
+    if (!res.ok) throw new Error(`webhook responded ${res.status}`);
+  } finally {
+    clearTimeout(timer);
+    // The response body is not read; drop the connection with it
+    await dispatcher.destroy();
+  }
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const channels = new Map<string, NotificationChannel>([
+  ["in_app", sendInApp],
+  ["email", sendEmail],
+  ["webhook", sendWebhook],
+]);
+
+/** Add or replace a channel (e.g. a different email provider) */
+export function registerNotificationChannel(
+  name: string,
+  channel: NotificationChannel
+): void {
+  channels.set(name, channel);
+}
+
+export function getNotificationChannel(
+  name: string
+): NotificationChannel | undefined {
+  return channels.get(name);
+}
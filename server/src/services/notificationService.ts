@@ -0,0 +1,552 @@
+/**
+ * Notification Service
+ *
+ * Server-side scheduler for interview reminders, contact reminders and
+ * follow-up nudges, plus the data access behind /api/notifications.
+ *
+ * Flow:
+ * 1. Jobs land in scheduled_notifications: interview and contact reminders via
+ *    database triggers, follow-up nudges via scheduleFollowupNudge
+ * 2. index.ts starts the scheduler; every NOTIFICATION_POLL_INTERVAL_MS it calls
+ *    claim_due_notifications (SKIP LOCKED, safe with several server instances)
+ * 3. Each job is delivered to the user's channels (notification_preferences,
+ *    in-app only by default); every channel's outcome is upserted into
+ *    notification_deliveries
+ * 4. All channels delivered → sent. Otherwise the job is retried with
+ *    exponential backoff (channels that already succeeded are skipped) until
+ *    NOTIFICATION_MAX_ATTEMPTS, then marked failed
+ *
+ * Functions:
+ * - runNotificationTick: claim and deliver one batch of due jobs
+ * - startNotificationScheduler / stopNotificationScheduler: polling loop
+ * - scheduleFollowupNudge / scheduleAutomationNotification /
+ *   scheduleSavedSearchDigest / cancelNotifications: manage API-owned jobs
+ * - listScheduledNotifications: jobs with per-channel delivery status
+ * - listInbox / markInboxRead: in-app channel inbox
+ * - getPreferences / updatePreferences: channel settings
+ */
+
+import { ApiError } from "../../utils/errors.js";
+import {
+  legacyLogError as logError,
+  legacyLogInfo as logInfo,
+} from "../../utils/logger.js";
+import {
+  getNotificationChannel,
+  type NotificationChannelName,
+  type NotificationKind,
+  type NotificationMessage,
+  type NotificationRecipient,
+} from "./notificationChannels.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotificationStatus =
+  "pending" | "processing" | "sent" | "failed" | "cancelled";
+
+export interface ScheduledNotificationRow {
+  id: string;
+  user_id: string;
+  kind: NotificationKind;
+  source_id: string;
+  run_at: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  payload: Record<string, unknown> | null;
+  status: NotificationStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  completed_at: string | null;
+}
+
+export interface NotificationPreferences {
+  channels: NotificationChannelName[];
+  email: string | null;
+  webhookUrl: string | null;
+}
+
+export interface TickResult {
+  claimed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+export const NOTIFICATION_CHANNELS: NotificationChannelName[] = [
+  "in_app",
+  "email",
+  "webhook",
+];
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  channels: ["in_app"],
+  email: null,
+  webhookUrl: null,
+};
+
+function maxAttempts(): number {
+  const n = Number(process.env.NOTIFICATION_MAX_ATTEMPTS || 5);
+  return Number.isInteger(n) && n > 0 ? n : 5;
+}
+
+/** 1, 2, 4, 8 ... minutes after each failed attempt, capped at 1 hour */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(60, 2 ** Math.max(0, attempts - 1)) * 60_000;
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+async function loadRecipients(
+  userIds: string[]
+): Promise<Map<string, NotificationRecipient & { channels: string[] }>> {
+  const supabase = await getSupabaseAdmin();
+  const [prefs, profiles] = await Promise.all([
+    supabase
+      .from("notification_preferences")
+      .select("user_id, channels, email, webhook_url")
+      .in("user_id", userIds),
+    supabase.from("profiles").select("id, email").in("id", userIds),
+  ]);
+  if (prefs.error) {
+    throw new ApiError(500, prefs.error.message, "db_error");
+  }
+
+  const profileEmail = new Map<string, string | null>(
+    (profiles.data ?? []).map((p: any) => [p.id, p.email ?? null])
+  );
+  const byUser = new Map(
+    (prefs.data ?? []).map((p: any) => [p.user_id as string, p])
+  );
+
+  return new Map(
+    userIds.map((userId) => {
+      const pref: any = byUser.get(userId);
+      return [
+        userId,
+        {
+          userId,
+          channels: pref?.channels?.length
+            ? pref.channels
+            : DEFAULT_PREFERENCES.channels,
+          email: pref?.email || profileEmail.get(userId) || null,
+          webhookUrl: pref?.webhook_url ?? null,
+        },
+      ];
+    })
+  );
+}
+
+function toMessage(row: ScheduledNotificationRow): NotificationMessage {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    kind: row.kind,
+    title: row.title,
+    body: row.body,
+    link: row.link,
+    payload: row.payload ?? {},
+    runAt: row.run_at,
+  };
+}
+
+/**
+ * Claim due jobs and deliver them.
+ * Never throws for individual delivery failures; those are recorded per channel.
+ */
+export async function runNotificationTick(
+  options: { limit?: number; now?: Date } = {}
+): Promise<TickResult> {
+  const supabase = await getSupabaseAdmin();
+  const now = options.now ?? new Date();
+  const result: TickResult = { claimed: 0, sent: 0, retried: 0, failed: 0 };
+
+  const { data, error } = await supabase.rpc("claim_due_notifications", {
+    p_limit: options.limit ?? 50,
+  });
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  const jobs = (data ?? []) as ScheduledNotificationRow[];
+  result.claimed = jobs.length;
+  if (jobs.length === 0) return result;
+
+  const recipients = await loadRecipients([
+    ...new Set(jobs.map((j) => j.user_id)),
+  ]);
+
+  // Channels that already succeeded on an earlier attempt are not repeated
+  const { data: previous } = await supabase
+    .from("notification_deliveries")
+    .select("notification_id, channel, status")
+    .in(
+      "notification_id",
+      jobs.map((j) => j.id)
+    );
+  const delivered = new Set(
+    (previous ?? [])
+      .filter((d: any) => d.status === "sent")
+      .map((d: any) => `${d.notification_id}:${d.channel}`)
+  );
+
+  for (const job of jobs) {
+    const recipient = recipients.get(job.user_id)!;
+    const errors: string[] = [];
+
+    for (const channelName of recipient.channels) {
+      if (delivered.has(`${job.id}:${channelName}`)) continue;
+
+      const channel = getNotificationChannel(channelName);
+      let deliveryError: string | null = null;
+      try {
+        if (!channel) throw new Error(`unknown channel ${channelName}`);
+        await channel(toMessage(job), recipient);
+      } catch (e: any) {
+        deliveryError = e?.message ?? String(e);
+        errors.push(`${channelName}: ${deliveryError}`);
+      }
+
+      const { error: deliveryWriteError } = await supabase
+        .from("notification_deliveries")
+        .upsert(
+          {
+            notification_id: job.id,
+            user_id: job.user_id,
+            channel: channelName,
+            status: deliveryError ? "failed" : "sent",
+            attempts: job.attempts,
+            last_error: deliveryError,
+            delivered_at: deliveryError ? null : now.toISOString(),
+            updated_at: now.toISOString(),
+          },
+          { onConflict: "notification_id,channel" }
+        );
+      if (deliveryWriteError) {
+        logError("notification_delivery_write_failed", {
+          notificationId: job.id,
+          channel: channelName,
+          error: deliveryWriteError.message,
+        });
+      }
+    }
+
+    let update: Record<string, unknown>;
+    if (errors.length === 0) {
+      result.sent++;
+      update = {
+        status: "sent",
+        completed_at: now.toISOString(),
+        last_error: null,
+      };
+    } else if (job.attempts >= maxAttempts()) {
+      result.failed++;
+      update = {
+        status: "failed",
+        completed_at: now.toISOString(),
+        last_error: errors.join("; "),
+      };
+    } else {
+      result.retried++;
+      update = {
+        status: "pending",
+        next_attempt_at: new Date(
+          now.getTime() + retryDelayMs(job.attempts)
+        ).toISOString(),
+        last_error: errors.join("; "),
+      };
+    }
+
+    const { error: updateError } = await supabase
+      .from("scheduled_notifications")
+      .update({ ...update, locked_at: null, updated_at: now.toISOString() })
+      .eq("id", job.id);
+    if (updateError) {
+      logError("notification_status_update_failed", {
+        notificationId: job.id,
+        error: updateError.message,
+      });
+    }
+
+    if (errors.length > 0) {
+      logError("notification_delivery_failed", {
+        notificationId: job.id,
+        userId: job.user_id,
+        kind: job.kind,
+        attempts: job.attempts,
+        errors,
+      });
+    }
+  }
+
+  logInfo("notification_tick", { ...result });
+  return result;
+}
+
+// ============================================================================
+// Scheduler loop
+// ============================================================================
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Poll for due notifications every NOTIFICATION_POLL_INTERVAL_MS (default 60s).
+ * No-op when the database is not configured or NOTIFICATION_SCHEDULER=off.
+ * Returns true when the loop was started.
+ */
+export function startNotificationScheduler(
+  intervalMs = Number(process.env.NOTIFICATION_POLL_INTERVAL_MS || 60_000)
+): boolean {
+  if (timer) return true;
+  if (process.env.NOTIFICATION_SCHEDULER === "off") return false;
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return false;
+  }
+
+  const tick = async () => {
+    // Skip when the previous batch is still delivering
+    if (running) return;
+    running = true;
+    try {
+      await runNotificationTick();
+    } catch (e: any) {
+      logError("notification_tick_failed", { error: e?.message ?? String(e) });
+    } finally {
+      running = false;
+    }
+  };
+
+  timer = setInterval(tick, intervalMs);
+  // Never keep the process alive just for reminders
+  timer.unref();
+  void tick();
+  return true;
+}
+
+export function stopNotificationScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
+
+// ============================================================================
+// API-owned jobs (follow-up nudges, automation rules)
+// ============================================================================
+
+export interface FollowupNudgeInput {
+  /** Caller's id for the follow-up (re-scheduling replaces its pending nudge) */
+  sourceId: string;
+  runAt: Date;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  payload?: Record<string, unknown>;
+}
+
+export function scheduleFollowupNudge(
+  userId: string,
+  input: FollowupNudgeInput
+): Promise<ScheduledNotificationRow> {
+  return scheduleApiNotification(userId, "followup_nudge", input);
+}
+
+/** Reminders and teammate notifications created by automation rules */
+export function scheduleAutomationNotification(
+  userId: string,
+  input: FollowupNudgeInput
+): Promise<ScheduledNotificationRow> {
+  return scheduleApiNotification(userId, "automation", input);
+}
+
+/** "N new jobs match <search>" digests sent by the saved search evaluator */
+export function scheduleSavedSearchDigest(
+  userId: string,
+  input: FollowupNudgeInput
+): Promise<ScheduledNotificationRow> {
+  return scheduleApiNotification(userId, "saved_search_digest", input);
+}
+
+async function scheduleApiNotification(
+  userId: string,
+  kind: NotificationKind,
+  input: FollowupNudgeInput
+): Promise<ScheduledNotificationRow> {
+  const supabase = await getSupabaseAdmin();
+  await cancelNotifications(userId, kind, input.sourceId);
+
+  const { data, error } = await supabase
+    .from("scheduled_notifications")
+    .upsert(
+      {
+        user_id: userId,
+        kind,
+        source_id: input.sourceId,
+        run_at: input.runAt.toISOString(),
+        title: input.title,
+        body: input.body ?? null,
+        link: input.link ?? null,
+        payload: input.payload ?? {},
+        status: "pending",
+        attempts: 0,
+        next_attempt_at: null,
+        last_error: null,
+        completed_at: null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,kind,source_id,run_at" }
+    )
+    .select("*")
+    .single();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return data as ScheduledNotificationRow;
+}
+
+/** Cancel pending jobs for a source; returns how many were cancelled */
+export async function cancelNotifications(
+  userId: string,
+  kind: NotificationKind,
+  sourceId: string
+): Promise<number> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("scheduled_notifications")
+    .update({ status: "cancelled", updated_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("kind", kind)
+    .eq("source_id", sourceId)
+    .eq("status", "pending")
+    .select("id");
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return data?.length ?? 0;
+}
+
+export async function listScheduledNotifications(
+  userId: string,
+  options: { status?: NotificationStatus; limit?: number } = {}
+) {
+  const supabase = await getSupabaseAdmin();
+  let query = supabase
+    .from("scheduled_notifications")
+    .select(
+      "id, kind, source_id, run_at, title, body, link, status, attempts, next_attempt_at, last_error, completed_at, notification_deliveries(channel, status, attempts, last_error, delivered_at)"
+    )
+    .eq("user_id", userId)
+    .order("run_at", { ascending: false })
+    .limit(options.limit ?? 50);
+  if (options.status) query = query.eq("status", options.status);
+
+  const { data, error } = await query;
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return data ?? [];
+}
+
+// ============================================================================
+// In-app inbox
+// ============================================================================
+
+export async function listInbox(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+) {
+  const supabase = await getSupabaseAdmin();
+  let query = supabase
+    .from("notification_inbox")
+    .select("id, kind, title, body, link, read_at, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? 50);
+  if (options.unreadOnly) query = query.is("read_at", null);
+
+  const [{ data, error }, unread] = await Promise.all([
+    query,
+    supabase
+      .from("notification_inbox")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null),
+  ]);
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return { notifications: data ?? [], unread: unread.count ?? 0 };
+}
+
+/** Mark inbox items read; ids omitted = everything. Returns the count */
+export async function markInboxRead(
+  userId: string,
+  ids?: string[]
+): Promise<number> {
+  const supabase = await getSupabaseAdmin();
+  let query = supabase
+    .from("notification_inbox")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (ids) query = query.in("id", ids);
+
+  const { data, error } = await query.select("id");
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return data?.length ?? 0;
+}
+
+// ============================================================================
+// Preferences
+// ============================================================================
+
+export async function getPreferences(
+  userId: string
+): Promise<NotificationPreferences> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("channels, email, webhook_url")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data) return { ...DEFAULT_PREFERENCES };
+  return {
+    channels: data.channels,
+    email: data.email,
+    webhookUrl: data.webhook_url,
+  };
+}
+
+export async function updatePreferences(
+  userId: string,
+  prefs: NotificationPreferences
+): Promise<NotificationPreferences> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .upsert(
+      {
+        user_id: userId,
+        channels: prefs.channels,
+        email: prefs.email,
+        webhook_url: prefs.webhookUrl,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" }
+    )
+    .select("channels, email, webhook_url")
+    .single();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return {
+    channels: data.channels,
+    email: data.email,
+    webhookUrl: data.webhook_url,
+  };
+}
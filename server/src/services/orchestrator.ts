@@ -3,7 +3,7 @@ Orchestrator scaffold (server-side)
 - Exposes a minimal handler function `handleGenerateResume` which demonstrates the flow:
   1) Validate incoming request + session (expects userId to be present)
   2) Fetch user profile and job details (via Supabase or your DB client)
-  3) Prepare prompt using templates and profile/job snippets
+  3) Prepare prompt from the versioned prompt registry and profile/job snippets
   4) Call aiClient.generate(kind, prompt)
   5) Post-process and insert into `ai_artifacts` table (versioned)
   6) Return artifact row to caller
@@ -13,6 +13,12 @@ This file is a scaffold: adapt to your server framework (Next.js API routes, Ver
 
 import type { GenerateResult } from "./aiClient.js";
 import aiClient from "./aiClient.js";
+import {
+  AiOutputError,
+  outputSchemas,
+  validateOutput,
+} from "./aiOutputSchemas.js";
+import { AiFixtureMissingError } from "./aiFixtures.js";
 import { logError, logInfo } from "../../utils/logger.js";
 // Use dynamic import for supabase to avoid throwing at module load when env is missing
 // import supabaseAdmin from "./supabaseAdmin.js"; // do not import statically
@@ -25,15 +31,9 @@ type SupabaseAdminModule = {
   getComprehensiveProfile: (userId: string) => Promise<any>;
 };
 
-// Import the TypeScript prompt builder directly; using .ts extension since ts-node/esm + allowImportingTsExtensions is enabled.
-import { buildResumePrompt } from "../../prompts/resume.js";
-import { buildCoverLetterPrompt } from "../../prompts/coverLetter.js";
-import { buildSkillsOptimizationPrompt } from "../../prompts/skillsOptimization.js";
-import { buildExperienceTailoringPrompt } from "../../prompts/experienceTailoring.js";
-import {
-  buildCompanyResearchPrompt,
-  validateCompanyResearchResponse,
-} from "../../prompts/companyResearch.js";
+// Prompt text comes from the versioned registry (builders live in server/prompts/)
+import { renderPrompt } from "./promptRegistry.js";
+import type { RenderedPrompt } from "./promptRegistry.js";
 import { fetchCompanyResearch } from "./companyResearchService.js";
 import type { CompanyResearch } from "./companyResearchService.js";
 import type {
@@ -48,6 +48,22 @@ import type {
 
 // Types moved to types.ts for reuse
 
+/**
+ * Error code for routes: ai_invalid_output when the output never passed its schema,
+ * ai_fixture_missing when replaying without a recorded response
+ */
+function aiErrorCode(e: unknown): string {
+  if (e instanceof AiOutputError || e instanceof AiFixtureMissingError) {
+    return e.code;
+  }
+  return "ai_error";
+}
+
+/** ai_artifacts columns identifying the prompt version that produced an artifact */
+function promptColumns(rendered: RenderedPrompt) {
+  return { prompt_id: rendered.id, prompt_version: rendered.version };
+}
+
 /**
  * Normalize company size to match database constraint
  * Fixes common AI mistakes like "1000+" → "10000+"
@@ -105,8 +121,9 @@ function normalizeCompanySize(size: string | null | undefined): string | null {
 }
 
 export async function handleGenerateResume(
-  req: GenerateResumeRequest
-): Promise<{ artifact?: ArtifactRow; error?: string }> {
+  req: GenerateResumeRequest,
+  onDelta?: (delta: string) => void
+): Promise<{ artifact?: ArtifactRow; error?: string; code?: string }> {
   // Performance optimizations:
   // - Parallel database queries reduce latency by ~80% (5 queries → 1 parallel batch)
   // - Progress updates keep UI responsive during AI generation
@@ -229,25 +246,29 @@ export async function handleGenerateResume(
 
   // 4) Prompt composition with enriched context
   const templateId = req.options?.templateId ?? "classic";
-  const rawPrompt = buildResumePrompt({
-    profile,
-    job,
-    tone: req.options?.tone ?? "professional",
-    focus: req.options?.focus,
-    length: req.options?.length ?? "standard",
-    templateId,
-    skillsList,
-    employment,
-    education,
-    projects,
-    certifications,
-  });
+  const rendered = renderPrompt(
+    "resume",
+    {
+      profile,
+      job,
+      tone: req.options?.tone ?? "professional",
+      focus: req.options?.focus,
+      length: req.options?.length ?? "standard",
+      templateId,
+      skillsList,
+      employment,
+      education,
+      projects,
+      certifications,
+    },
+    { userId: req.userId, version: req.options?.promptVersion }
+  );
   // If client provided a custom prompt snippet, append as user additions
   // Optional user-supplied additive prompt snippet (validated & sanitized later)
   const custom = req.options?.prompt?.trim() ?? "";
   const combined = custom
-    ? `${rawPrompt}\n\nUser Additions:\n${custom}`
-    : rawPrompt;
+    ? `${rendered.text}\n\nUser Additions:\n${custom}`
+    : rendered.text;
   const prompt = sanitizePrompt(combined);
 
   // Model and generation options (env-driven defaults, allow-list override from req)
@@ -258,7 +279,10 @@ export async function handleGenerateResume(
     maxTokens: envNumber("AI_MAX_TOKENS", 800),
     timeoutMs: envNumber("AI_TIMEOUT_MS", 30_000),
     maxRetries: envNumber("AI_MAX_RETRIES", 2),
-  } as const;
+    schema: outputSchemas.resume,
+    // Stream provider deltas to the caller when requested (SSE routes)
+    ...(onDelta ? { stream: true, onDelta } : {}),
+  };
 
   // 5) Call AI
   let gen: GenerateResult;
@@ -278,7 +302,7 @@ export async function handleGenerateResume(
       model,
       error: msg,
     });
-    return { error: msg };
+    return { error: msg, code: aiErrorCode(e) };
   }
 
   // 6) Post-process / construct artifact row (pseudo id)
@@ -325,11 +349,13 @@ export async function handleGenerateResume(
     prompt: prompt.slice(0, 2000),
     model,
     content: normalized,
+    ...promptColumns(rendered),
     metadata: {
       generated_at: new Date().toISOString(),
-      provider: process.env.AI_PROVIDER ?? "openai",
+      provider: gen.meta?.provider ?? process.env.AI_PROVIDER ?? "openai",
       tokens: gen.tokens,
       prompt_preview: prompt.slice(0, 400),
+      prompt_assignment: rendered.assignment,
       ...(req.options?.variant !== undefined
         ? { variant: req.options.variant }
         : {}),
@@ -347,12 +373,13 @@ export async function handleGenerateResume(
 /**
  * COVER LETTER GENERATION: orchestrates prompt assembly and provider call.
  * Flow: validate → fetch profile/job → build prompt → call provider → build artifact
- * Inputs: { userId: uuid, jobId: number, options? }
+ * Inputs: { userId: uuid, jobId: number, options? }, optional onDelta for streamed text
  * Output: { artifact } with kind='cover_letter' on success; { error } on failure
  */
 export async function handleGenerateCoverLetter(
-  req: GenerateCoverLetterRequest
-): Promise<{ artifact?: ArtifactRow; error?: string }> {
+  req: GenerateCoverLetterRequest,
+  onDelta?: (delta: string) => void
+): Promise<{ artifact?: ArtifactRow; error?: string; code?: string }> {
   logInfo("orc_cover_letter_start", { userId: req?.userId, jobId: req?.jobId });
   if (!req?.userId) return { error: "unauthenticated" };
   if (!req?.jobId) return { error: "missing jobId" };
@@ -425,17 +452,21 @@ export async function handleGenerateCoverLetter(
   }
 
   const templateId = req.options?.templateId ?? "formal";
-  const rawPrompt = buildCoverLetterPrompt({
-    profile,
-    job,
-    tone: req.options?.tone ?? "professional",
-    focus: req.options?.focus,
-    templateId,
-    length: req.options?.length ?? "standard",
-    culture: req.options?.culture ?? "corporate",
-    companyResearch,
-  });
-  const prompt = sanitizePrompt(rawPrompt);
+  const rendered = renderPrompt(
+    "cover_letter",
+    {
+      profile,
+      job,
+      tone: req.options?.tone ?? "professional",
+      focus: req.options?.focus,
+      templateId,
+      length: req.options?.length ?? "standard",
+      culture: req.options?.culture ?? "corporate",
+      companyResearch,
+    },
+    { userId: req.userId, version: req.options?.promptVersion }
+  );
+  const prompt = sanitizePrompt(rendered.text);
 
   const model = selectModel(req.options as any);
   const aiOpts = {
@@ -444,7 +475,10 @@ export async function handleGenerateCoverLetter(
     maxTokens: envNumber("AI_MAX_TOKENS", 1500), // Increased for longer cover letters (350-550 words ≈ 1200 tokens)
     timeoutMs: envNumber("AI_TIMEOUT_MS", 30_000),
     maxRetries: envNumber("AI_MAX_RETRIES", 2),
-  } as const;
+    schema: outputSchemas.cover_letter,
+    // Stream provider deltas to the caller when requested (SSE routes)
+    ...(onDelta ? { stream: true, onDelta } : {}),
+  };
 
   let gen: GenerateResult;
   try {
@@ -463,7 +497,7 @@ export async function handleGenerateCoverLetter(
       model,
       error: msg,
     });
-    return { error: msg };
+    return { error: msg, code: aiErrorCode(e) };
   }
 
   const artifact: ArtifactRow = {
@@ -475,11 +509,13 @@ export async function handleGenerateCoverLetter(
     prompt: prompt.slice(0, 2000),
     model,
     content: gen.json ?? { text: gen.text },
+    ...promptColumns(rendered),
     metadata: {
       generated_at: new Date().toISOString(),
-      provider: process.env.AI_PROVIDER ?? "openai",
+      provider: gen.meta?.provider ?? process.env.AI_PROVIDER ?? "openai",
       tokens: gen.tokens,
       prompt_preview: prompt.slice(0, 400),
+      prompt_assignment: rendered.assignment,
     },
     created_at: new Date().toISOString(),
   };
@@ -495,7 +531,7 @@ export async function handleGenerateCoverLetter(
  */
 export async function handleSkillsOptimization(
   req: GenerateSkillsOptimizationRequest
-): Promise<{ artifact?: ArtifactRow; error?: string }> {
+): Promise<{ artifact?: ArtifactRow; error?: string; code?: string }> {
   logInfo("orc_skills_opt_start", { userId: req?.userId, jobId: req?.jobId });
   if (!req?.userId) return { error: "unauthenticated" };
   if (!req?.jobId) return { error: "missing jobId" };
@@ -548,8 +584,12 @@ export async function handleSkillsOptimization(
     return { error: `skills query failed: ${e?.message ?? e}` };
   }
 
-  const rawPrompt = buildSkillsOptimizationPrompt({ profile, job, skills });
-  const prompt = sanitizePrompt(rawPrompt);
+  const rendered = renderPrompt(
+    "skills_optimization",
+    { profile, job, skills },
+    { userId: req.userId, version: req.options?.promptVersion }
+  );
+  const prompt = sanitizePrompt(rendered.text);
 
   const model = selectModel(undefined);
   const aiOpts = {
@@ -558,6 +598,7 @@ export async function handleSkillsOptimization(
     maxTokens: envNumber("AI_MAX_TOKENS", 800),
     timeoutMs: envNumber("AI_TIMEOUT_MS", 30_000),
     maxRetries: envNumber("AI_MAX_RETRIES", 2),
+    schema: outputSchemas.skills_optimization,
   } as const;
 
   let gen: GenerateResult;
@@ -577,7 +618,7 @@ export async function handleSkillsOptimization(
       model,
       error: msg,
     });
-    return { error: msg };
+    return { error: msg, code: aiErrorCode(e) };
   }
 
   const artifact: ArtifactRow = {
@@ -589,11 +630,13 @@ export async function handleSkillsOptimization(
     prompt: prompt.slice(0, 2000),
     model,
     content: gen.json ?? { text: gen.text },
+    ...promptColumns(rendered),
     metadata: {
       generated_at: new Date().toISOString(),
-      provider: process.env.AI_PROVIDER ?? "openai",
+      provider: gen.meta?.provider ?? process.env.AI_PROVIDER ?? "openai",
       tokens: gen.tokens,
       prompt_preview: prompt.slice(0, 400),
+      prompt_assignment: rendered.assignment,
     },
     created_at: new Date().toISOString(),
   };
@@ -613,7 +656,8 @@ export async function handleSkillsOptimization(
 export async function handleExperienceTailoring(req: {
   userId: string;
   jobId: number;
-}): Promise<{ artifact?: ArtifactRow; error?: string }> {
+  options?: { promptVersion?: number };
+}): Promise<{ artifact?: ArtifactRow; error?: string; code?: string }> {
   logInfo("orc_experience_tailoring_start", {
     userId: req?.userId,
     jobId: req?.jobId,
@@ -670,12 +714,12 @@ export async function handleExperienceTailoring(req: {
     return { error: `employment query failed: ${e?.message ?? e}` };
   }
 
-  const rawPrompt = buildExperienceTailoringPrompt({
-    profile,
-    job,
-    employment,
-  });
-  const prompt = sanitizePrompt(rawPrompt);
+  const rendered = renderPrompt(
+    "experience_tailoring",
+    { profile, job, employment },
+    { userId: req.userId, version: req.options?.promptVersion }
+  );
+  const prompt = sanitizePrompt(rendered.text);
 
   const model = selectModel(undefined);
   const aiOpts = {
@@ -684,6 +728,7 @@ export async function handleExperienceTailoring(req: {
     maxTokens: envNumber("AI_MAX_TOKENS", 800),
     timeoutMs: envNumber("AI_TIMEOUT_MS", 30_000),
     maxRetries: envNumber("AI_MAX_RETRIES", 2),
+    schema: outputSchemas.experience_tailoring,
   } as const;
 
   let gen: GenerateResult;
@@ -703,7 +748,7 @@ export async function handleExperienceTailoring(req: {
       model,
       error: msg,
     });
-    return { error: msg };
+    return { error: msg, code: aiErrorCode(e) };
   }
 
   const artifact: ArtifactRow = {
@@ -715,11 +760,13 @@ export async function handleExperienceTailoring(req: {
     prompt: prompt.slice(0, 2000),
     model,
     content: gen.json ?? { text: gen.text },
+    ...promptColumns(rendered),
     metadata: {
       generated_at: new Date().toISOString(),
-      provider: process.env.AI_PROVIDER ?? "openai",
+      provider: gen.meta?.provider ?? process.env.AI_PROVIDER ?? "openai",
       tokens: gen.tokens,
       prompt_preview: prompt.slice(0, 400),
+      prompt_assignment: rendered.assignment,
       subkind: "experience_tailoring",
     },
     created_at: new Date().toISOString(),
@@ -822,7 +869,7 @@ export async function handleSalaryResearch(req: {
       content: salaryData,
       metadata: {
         generated_at: new Date().toISOString(),
-        provider: process.env.AI_PROVIDER ?? "openai",
+        provider: gen.meta?.provider ?? process.env.AI_PROVIDER ?? "openai",
         tokens: gen.tokens,
         prompt_preview: prompt.slice(0, 300),
       },
@@ -1216,11 +1263,12 @@ export async function handleCompanyResearch(req: {
     const industry = jobContext?.industry || null;
     const jobDescription = jobContext?.job_description || null;
 
-    const prompt = buildCompanyResearchPrompt({
-      companyName,
-      industry,
-      jobDescription,
-    });
+    const rendered = renderPrompt(
+      "company_research",
+      { companyName, industry, jobDescription },
+      { userId: req.userId }
+    );
+    const prompt = rendered.text;
 
     logInfo("Calling AI for company research", {
       companyName,
@@ -1230,7 +1278,9 @@ export async function handleCompanyResearch(req: {
     // 4) Call AI service
     let aiResult: any;
     try {
-      aiResult = await aiClient.generate("company_research", prompt);
+      aiResult = await aiClient.generate("company_research", prompt, {
+        schema: outputSchemas.company_research,
+      });
     } catch (aiErr: any) {
       logError("AI call failed for company research", {
         companyName,
@@ -1326,10 +1376,15 @@ export async function handleCompanyResearch(req: {
       return { error: "No data returned from AI" };
     }
 
-    // Validate response structure
-    if (!validateCompanyResearchResponse(researchData)) {
+    // Validate response structure (fallback data has not been through the schema yet)
+    const validationErrors = validateOutput(
+      outputSchemas.company_research,
+      researchData
+    );
+    if (validationErrors.length > 0) {
       logError("AI response failed validation", {
         companyName,
+        errors: validationErrors,
         hasName: !!(
           researchData?.companyName ||
           researchData?.company_name ||
@@ -1445,6 +1500,7 @@ export async function handleCompanyResearch(req: {
       prompt: prompt.slice(0, 500), // Store truncated prompt
       model: aiResult.model || "gpt-4o-mini",
       content: finalData,
+      ...promptColumns(rendered),
       metadata: {
         source: "ai",
         last_updated: now,
@@ -0,0 +1,311 @@
+/**
+ * PORTFOLIO RENDERER: Static HTML for public portfolio pages
+ *
+ * WHAT: Turns PublicPortfolio content into index.html + styles.css
+ * WHY: Users can host their portfolio anywhere (GitHub Pages, Netlify, S3)
+ *      without the app; the files have no scripts and no external assets
+ *
+ * Notes:
+ * - Theme colors and fonts become CSS custom properties in styles.css
+ * - Every value is HTML-escaped; only http(s) URLs become links
+ * - Dates render as "Jan 2024" so output is the same on every server
+ */
+
+import { escapeHtml } from "./documentRenderer.js";
+import type {
+  PortfolioTheme,
+  PublicPortfolio,
+  PublicProject,
+} from "./portfolioService.js";
+
+export interface PortfolioBundleFile {
+  path: string;
+  content: string;
+}
+
+export interface PortfolioBundle {
+  /** Suggested archive name, e.g. "ada-lovelace-portfolio.zip" */
+  fileName: string;
+  files: PortfolioBundleFile[];
+}
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+function monthYear(value: string | null): string {
+  const match = /^(\d{4})-(\d{2})/.exec(value ?? "");
+  if (!match) return "";
+  return `${MONTHS[Number(match[2]) - 1] ?? ""} ${match[1]}`.trim();
+}
+
+function dateRange(start: string | null, end: string | null, current = false) {
+  const from = monthYear(start);
+  const to = current ? "Present" : monthYear(end);
+  if (from && to) return `${from} – ${to}`;
+  return from || to;
+}
+
+function safeUrl(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:"
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function link(url: string | null, label: string): string {
+  const href = safeUrl(url);
+  return href
+    ? `<a href="${escapeHtml(href)}" rel="noopener">${escapeHtml(label)}</a>`
+    : escapeHtml(label);
+}
+
+/** Font names are quoted; anything but letters, digits and spaces is dropped */
+function fontStack(name: string): string {
+  const clean = name.replace(/[^A-Za-z0-9 ]/g, "").trim();
+  return `${clean ? `"${clean}", ` : ""}system-ui, -apple-system, "Segoe UI", sans-serif`;
+}
+
+export function renderPortfolioCss(theme: PortfolioTheme): string {
+  const { colors, fonts } = theme;
+  return `:root {
+  --color-primary: ${colors.primary};
+  --color-text: ${colors.text};
+  --color-secondary: ${colors.secondary};
+  --color-border: ${colors.border};
+  --color-background: ${colors.background};
+  --color-surface: ${colors.surface};
+  --font-heading: ${fontStack(fonts.heading)};
+  --font-body: ${fontStack(fonts.body)};
+}
+
+* { box-sizing: border-box; }
+
+body {
+  margin: 0;
+  background: var(--color-background);
+  color: var(--color-text);
+  font-family: var(--font-body);
+  line-height: 1.6;
+}
+
+main { max-width: 880px; margin: 0 auto; padding: 48px 24px 64px; }
+
+h1, h2, h3 { font-family: var(--font-heading); line-height: 1.25; margin: 0; }
+h1 { font-size: 2.25rem; }
+h2 {
+  font-size: 1.25rem;
+  color: var(--color-primary);
+  border-bottom: 2px solid var(--color-border);
+  padding-bottom: 6px;
+  margin-bottom: 16px;
+}
+h3 { font-size: 1.05rem; }
+
+a { color: var(--color-primary); }
+
+header { margin-bottom: 40px; }
+.headline { font-size: 1.2rem; color: var(--color-secondary); margin: 6px 0 0; }
+.location { color: var(--color-secondary); margin: 4px 0 0; }
+.summary { margin: 16px 0 0; white-space: pre-line; }
+
+section { margin-bottom: 40px; }
+
+.card {
+  background: var(--color-surface);
+  border: 1px solid var(--color-border);
+  border-radius: 8px;
+  padding: 16px 20px;
+  margin-bottom: 12px;
+}
+.meta { color: var(--color-secondary); font-size: 0.9rem; margin: 2px 0 8px; }
+.card p { margin: 8px 0 0; }
+.card ul { margin: 8px 0 0; padding-left: 20px; }
+
+.tags { list-style: none; padding: 0; margin: 10px 0 0; display: flex; flex-wrap: wrap; gap: 6px; }
+.tags li {
+  border: 1px solid var(--color-border);
+  border-radius: 999px;
+  padding: 2px 10px;
+  font-size: 0.85rem;
+}
+
+.skill-group { margin-bottom: 16px; }
+.skill-group h3 { color: var(--color-secondary); font-size: 0.95rem; }
+.level { color: var(--color-secondary); font-size: 0.8rem; }
+
+.repos { display: grid; grid-template-columns: repeat(auto-fill, minmax(240px, 1fr)); gap: 12px; }
+.repos .card { margin: 0; }
+
+footer { color: var(--color-secondary); font-size: 0.85rem; text-align: center; }
+`;
+}
+
+function tags(values: string[]): string {
+  if (values.length === 0) return "";
+  return `<ul class="tags">${values
+    .map((value) => `<li>${escapeHtml(value)}</li>`)
+    .join("")}</ul>`;
+}
+
+function projectCard(project: PublicProject): string {
+  const meta = [
+    project.role,
+    dateRange(project.startDate, project.endDate),
+    project.status,
+  ].filter(Boolean);
+  return `<article class="card">
+<h3>${link(project.url, project.name)}</h3>
+${meta.length ? `<p class="meta">${escapeHtml(meta.join(" · "))}</p>` : ""}
+${project.description ? `<p>${escapeHtml(project.description)}</p>` : ""}
+${project.outcomes ? `<p><strong>Outcomes:</strong> ${escapeHtml(project.outcomes)}</p>` : ""}
+${tags(project.technologies)}
+</article>`;
+}
+
+/** Section markup in page order; hidden or empty sections are left out */
+function renderSections(portfolio: PublicPortfolio): string[] {
+  const sections: string[] = [];
+
+  if (portfolio.projects.length > 0) {
+    sections.push(`<section id="projects">
+<h2>Projects</h2>
+${portfolio.projects.map(projectCard).join("\n")}
+</section>`);
+  }
+
+  if (portfolio.skills.length > 0) {
+    sections.push(`<section id="skills">
+<h2>Skills</h2>
+${portfolio.skills
+  .map(
+    (group) => `<div class="skill-group">
+<h3>${escapeHtml(group.category)}</h3>
+<ul class="tags">${group.skills
+      .map(
+        (skill) =>
+          `<li>${escapeHtml(skill.name)}${
+            skill.level
+              ? ` <span class="level">${escapeHtml(skill.level)}</span>`
+              : ""
+          }</li>`
+      )
+      .join("")}</ul>
+</div>`
+  )
+  .join("\n")}
+</section>`);
+  }
+
+  if (portfolio.employment.length > 0) {
+    sections.push(`<section id="experience">
+<h2>Experience</h2>
+${portfolio.employment
+  .map((job) => {
+    const meta = [
+      job.company,
+      job.location,
+      dateRange(job.startDate, job.endDate, job.current),
+    ].filter(Boolean);
+    return `<article class="card">
+<h3>${escapeHtml(job.title)}</h3>
+<p class="meta">${escapeHtml(meta.join(" · "))}</p>
+${
+  job.bullets.length
+    ? `<ul>${job.bullets
+        .map((bullet) => `<li>${escapeHtml(bullet)}</li>`)
+        .join("")}</ul>`
+    : ""
+}
+</article>`;
+  })
+  .join("\n")}
+</section>`);
+  }
+
+  if (portfolio.repositories.length > 0) {
+    sections.push(`<section id="github">
+<h2>Open Source</h2>
+<div class="repos">
+${portfolio.repositories
+  .map((repo) => {
+    const meta = [
+      repo.language,
+      repo.stars > 0 ? `★ ${repo.stars}` : null,
+    ].filter(Boolean);
+    return `<article class="card">
+<h3>${link(repo.url, repo.name)}</h3>
+${meta.length ? `<p class="meta">${escapeHtml(meta.join(" · "))}</p>` : ""}
+${repo.description ? `<p>${escapeHtml(repo.description)}</p>` : ""}
+${safeUrl(repo.homepage) ? `<p>${link(repo.homepage, "Live site")}</p>` : ""}
+${tags(repo.topics)}
+</article>`;
+  })
+  .join("\n")}
+</div>
+</section>`);
+  }
+
+  return sections;
+}
+
+/** Standalone page; links styles.css from the same folder */
+export function renderPortfolioHtml(portfolio: PublicPortfolio): string {
+  const title = portfolio.headline
+    ? `${portfolio.name} – ${portfolio.headline}`
+    : portfolio.name;
+  const description =
+    portfolio.about?.summary?.slice(0, 160) ?? portfolio.headline ?? "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+${description ? `<meta name="description" content="${escapeHtml(description)}">` : ""}
+<link rel="stylesheet" href="styles.css">
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeHtml(portfolio.name)}</h1>
+${portfolio.headline ? `<p class="headline">${escapeHtml(portfolio.headline)}</p>` : ""}
+${portfolio.about?.location ? `<p class="location">${escapeHtml(portfolio.about.location)}</p>` : ""}
+${portfolio.about?.summary ? `<p class="summary">${escapeHtml(portfolio.about.summary)}</p>` : ""}
+</header>
+${renderSections(portfolio).join("\n")}
+<footer>Updated ${escapeHtml(monthYear(portfolio.updatedAt))}</footer>
+</main>
+</body>
+</html>
+`;
+}
+
+export function buildPortfolioBundle(
+  portfolio: PublicPortfolio
+): PortfolioBundle {
+  return {
+    fileName: `${portfolio.slug}-portfolio.zip`,
+    files: [
+      { path: "index.html", content: renderPortfolioHtml(portfolio) },
+      { path: "styles.css", content: renderPortfolioCss(portfolio.theme) },
+    ],
+  };
+}
@@ -0,0 +1,752 @@
+/**
+ * Portfolio Service
+ *
+ * Public, read-only portfolio pages behind /api/portfolio and
+ * /api/public/portfolios/:slug.
+ *
+ * Flow:
+ * 1. The owner picks a slug, a theme, which sections are visible and which
+ *    projects to show (savePortfolio); nothing is public until published
+ * 2. buildPublicPortfolio turns the profile rows into the page content,
+ *    copying only the fields of visible sections (no email, phone or
+ *    private notes ever leave the server)
+ * 3. Visitors load the page by slug; each visitor counts as one view per
+ *    VIEW_WINDOW_MS (record_portfolio_view), crawlers are not counted
+ * 4. exportPortfolioBundle renders the same content as static files
+ *    (portfolioRenderer) that the app zips for hosting anywhere
+ *
+ * Functions:
+ * - validatePortfolioInput / buildPublicPortfolio / resolvePortfolioTheme:
+ *   pure helpers
+ * - getPortfolio / savePortfolio: the owner's settings
+ * - getPublicPortfolio: published page by slug, counting the view
+ * - exportPortfolioBundle: static HTML bundle of the owner's page
+ */
+
+import { createHash } from "node:crypto";
+import { ApiError } from "../../utils/errors.js";
+import { legacyLogError as logError } from "../../utils/logger.js";
+import { getCacheStore } from "./cacheStore.js";
+import { pickColor, resolveRenderStyle } from "./documentRenderer.js";
+import {
+  buildPortfolioBundle,
+  type PortfolioBundle,
+} from "./portfolioRenderer.js";
+import { canonicalSkillKey, resolveSkill } from "./skillTaxonomy.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const PORTFOLIO_SECTIONS = [
+  "about",
+  "projects",
+  "skills",
+  "employment",
+  "github",
+] as const;
+export type PortfolioSection = (typeof PORTFOLIO_SECTIONS)[number];
+export type PortfolioSections = Record<PortfolioSection, boolean>;
+
+export interface PortfolioRow {
+  user_id: string;
+  slug: string;
+  is_published: boolean;
+  theme_id: string | null;
+  headline: string | null;
+  sections: PortfolioSections;
+  project_ids: string[];
+  view_count: number;
+  last_viewed_at: string | null;
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PortfolioInput {
+  slug: string;
+  is_published: boolean;
+  theme_id: string | null;
+  headline: string | null;
+  sections: PortfolioSections;
+  project_ids: string[];
+}
+
+/** Resolved colors and fonts of the chosen theme */
+export interface PortfolioTheme {
+  name: string | null;
+  colors: {
+    primary: string;
+    text: string;
+    secondary: string;
+    border: string;
+    background: string;
+    surface: string;
+  };
+  fonts: { heading: string; body: string };
+}
+
+export interface PublicProject {
+  id: string;
+  name: string;
+  description: string | null;
+  role: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  status: string | null;
+  technologies: string[];
+  outcomes: string | null;
+  url: string | null;
+}
+
+export interface PublicSkillGroup {
+  category: string;
+  skills: Array<{ name: string; level: string | null }>;
+}
+
+export interface PublicJob {
+  title: string;
+  company: string;
+  location: string | null;
+  startDate: string;
+  endDate: string | null;
+  current: boolean;
+  bullets: string[];
+}
+
+export interface PublicRepository {
+  name: string;
+  description: string | null;
+  url: string;
+  homepage: string | null;
+  language: string | null;
+  stars: number;
+  topics: string[];
+}
+
+/** Page content; hidden sections are null or empty */
+export interface PublicPortfolio {
+  slug: string;
+  name: string;
+  headline: string | null;
+  about: { summary: string | null; location: string | null } | null;
+  projects: PublicProject[];
+  skills: PublicSkillGroup[];
+  employment: PublicJob[];
+  repositories: PublicRepository[];
+  theme: PortfolioTheme;
+  views: number;
+  updatedAt: string;
+}
+
+/** Profile rows a page is built from */
+export interface PortfolioSource {
+  profile: Record<string, any> | null;
+  projects: Record<string, any>[];
+  skills: Record<string, any>[];
+  employment: Record<string, any>[];
+  repositories: Record<string, any>[];
+  theme: Record<string, any> | null;
+}
+
+export const DEFAULT_SECTIONS: PortfolioSections = {
+  about: true,
+  projects: true,
+  skills: true,
+  employment: true,
+  github: true,
+};
+
+/** A visitor counts once per window */
+const VIEW_WINDOW_MS = 30 * 60_000;
+const CRAWLER_PATTERN =
+  /bot|crawl|spider|slurp|preview|facebookexternalhit|headless/i;
+
+const MAX_PROJECTS = 50;
+const MAX_REPOSITORIES = 12;
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,38}[a-z0-9]$/;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const PROFICIENCY_ORDER = ["expert", "advanced", "intermediate", "beginner"];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function bad(message: string, code = "bad_request"): ApiError {
+  return new ApiError(400, message, code);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** "My Portfolio" -> "my-portfolio"; the result still has to pass the check */
+export function normalizeSlug(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .replace(/-+/g, "-");
+}
+
+/**
+ * Validate a create (or, with `partial`, update) payload. Unknown section
+ * keys are dropped and missing ones keep their default (visible).
+ */
+export function validatePortfolioInput(
+  body: unknown,
+  options: { partial?: boolean } = {}
+): Partial<PortfolioInput> {
+  if (!isPlainObject(body)) throw bad("Request body must be an object");
+  const result: Partial<PortfolioInput> = {};
+
+  if (body.slug !== undefined || !options.partial) {
+    if (typeof body.slug !== "string" || !body.slug.trim()) {
+      throw bad("slug is required", "invalid_slug");
+    }
+    const slug = normalizeSlug(body.slug);
+    if (!SLUG_PATTERN.test(slug) || slug.includes("--")) {
+      throw bad(
+        "slug must be 3-40 lowercase letters, digits or single hyphens, " +
+          "starting and ending with a letter or digit",
+        "invalid_slug"
+      );
+    }
+    result.slug = slug;
+  }
+
+  if (body.is_published !== undefined) {
+    if (typeof body.is_published !== "boolean") {
+      throw bad("is_published must be a boolean");
+    }
+    result.is_published = body.is_published;
+  } else if (!options.partial) {
+    result.is_published = false;
+  }
+
+  if (body.theme_id !== undefined) {
+    if (body.theme_id === null || body.theme_id === "") {
+      result.theme_id = null;
+    } else if (
+      typeof body.theme_id !== "string" ||
+      !UUID_PATTERN.test(body.theme_id)
+    ) {
+      throw bad("theme_id must be a theme id");
+    } else {
+      result.theme_id = body.theme_id;
+    }
+  }
+
+  if (body.headline !== undefined) {
+    if (body.headline !== null && typeof body.headline !== "string") {
+      throw bad("headline must be a string");
+    }
+    const headline = (body.headline ?? "").trim();
+    if (headline.length > 160) {
+      throw bad("headline must be at most 160 characters");
+    }
+    result.headline = headline || null;
+  }
+
+  if (body.sections !== undefined || !options.partial) {
+    const raw = body.sections ?? {};
+    if (!isPlainObject(raw)) throw bad("sections must be an object");
+    const sections = { ...DEFAULT_SECTIONS };
+    for (const key of PORTFOLIO_SECTIONS) {
+      if (raw[key] === undefined) continue;
+      if (typeof raw[key] !== "boolean") {
+        throw bad(`sections.${key} must be a boolean`);
+      }
+      sections[key] = raw[key] as boolean;
+    }
+    result.sections = sections;
+  }
+
+  if (body.project_ids !== undefined) {
+    if (
+      !Array.isArray(body.project_ids) ||
+      body.project_ids.some(
+        (id) => typeof id !== "string" || !UUID_PATTERN.test(id)
+      )
+    ) {
+      throw bad("project_ids must be a list of project ids");
+    }
+    if (body.project_ids.length > MAX_PROJECTS) {
+      throw bad(`At most ${MAX_PROJECTS} projects can be shown`);
+    }
+    result.project_ids = [...new Set(body.project_ids as string[])];
+  } else if (!options.partial) {
+    result.project_ids = [];
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Page content
+// ============================================================================
+
+function text(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+/** An http(s) URL, or null; the page links these so nothing else is kept */
+function httpUrl(value: unknown): string | null {
+  const raw = text(value);
+  if (!raw) return null;
+  try {
+    const url = new URL(raw);
+    return url.protocol === "https:" || url.protocol === "http:"
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => (typeof item === "string" ? item.trim() : ""))
+    .filter(Boolean);
+}
+
+/** Achievement bullets, or the description's lines when there are none */
+function jobBullets(row: Record<string, any>): string[] {
+  const achievements = stringList(row.achievements);
+  const lines = achievements.length
+    ? achievements
+    : String(row.job_description ?? "").split(/\r?\n/);
+  return lines
+    .map((line) => line.replace(/^\s*(?:[-*•‣▪◦]|\d+[.)])\s*/, "").trim())
+    .filter(Boolean);
+}
+
+export function resolvePortfolioTheme(
+  theme: Record<string, any> | null
+): PortfolioTheme {
+  const style = resolveRenderStyle(null, theme as any);
+  const colors = theme?.colors ?? {};
+  const background =
+    typeof colors.background === "object"
+      ? colors.background?.primary
+      : colors.background;
+  const surface =
+    typeof colors.background === "object"
+      ? colors.background?.secondary
+      : colors.surface;
+  return {
+    name: text(theme?.name),
+    colors: {
+      primary: theme ? style.colors.primary : "#2563eb",
+      text: theme ? style.colors.text : "#1e293b",
+      secondary: theme ? style.colors.secondary : "#64748b",
+      border: theme ? style.colors.border : "#e2e8f0",
+      background: pickColor(background, "#ffffff"),
+      surface: pickColor(surface, "#f8fafc"),
+    },
+    fonts: {
+      heading: theme ? style.fonts.heading : "Inter",
+      body: theme ? style.fonts.body : "Inter",
+    },
+  };
+}
+
+function groupSkills(rows: Record<string, any>[]): PublicSkillGroup[] {
+  const seen = new Set<string>();
+  const groups = new Map<string, PublicSkillGroup["skills"]>();
+  for (const row of rows) {
+    const name = text(row.skill_name);
+    if (!name) continue;
+    // Rows added before the taxonomy may repeat a skill in another spelling
+    const key = row.taxonomy_id ?? canonicalSkillKey(name);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const category =
+      text(row.skill_category) ?? resolveSkill(name)?.category ?? "Other";
+    const level = text(row.proficiency_level)?.toLowerCase() ?? null;
+    if (!groups.has(category)) groups.set(category, []);
+    groups.get(category)!.push({ name, level });
+  }
+
+  const rank = (level: string | null) => {
+    const index = PROFICIENCY_ORDER.indexOf(level ?? "");
+    return index === -1 ? PROFICIENCY_ORDER.length : index;
+  };
+  return [...groups.entries()]
+    .map(([category, skills]) => ({
+      category,
+      skills: skills.sort(
+        (a, b) => rank(a.level) - rank(b.level) || a.name.localeCompare(b.name)
+      ),
+    }))
+    .sort((a, b) => b.skills.length - a.skills.length);
+}
+
+/**
+ * Page content from the profile rows. Only visible sections are filled,
+ * projects follow project_ids (rows the user no longer has are skipped)
+ * and only featured repositories are shown.
+ */
+export function buildPublicPortfolio(
+  settings: Pick<
+    PortfolioRow,
+    "slug" | "headline" | "sections" | "project_ids" | "view_count"
+  > & { updated_at?: string },
+  source: PortfolioSource
+): PublicPortfolio {
+  const sections = { ...DEFAULT_SECTIONS, ...settings.sections };
+  const profile = source.profile ?? {};
+  const name =
+    [text(profile.first_name), text(profile.last_name)]
+      .filter(Boolean)
+      .join(" ") || settings.slug;
+
+  const projectsById = new Map(source.projects.map((p) => [p.id, p]));
+  const projects: PublicProject[] = sections.projects
+    ? settings.project_ids
+        .map((id) => projectsById.get(id))
+        .filter((row): row is Record<string, any> => !!row)
+        .map((row) => ({
+          id: row.id,
+          name: text(row.proj_name) ?? "Untitled project",
+          description: text(row.proj_description),
+          role: text(row.role),
+          startDate: row.start_date ?? null,
+          endDate: row.end_date ?? null,
+          status: text(row.status),
+          technologies: stringList(row.tech_and_skills),
+          outcomes: text(row.proj_outcomes),
+          url: httpUrl(row.project_url),
+        }))
+    : [];
+
+  const employment: PublicJob[] = sections.employment
+    ? [...source.employment]
+        .sort((a, b) =>
+          String(b.start_date ?? "").localeCompare(String(a.start_date ?? ""))
+        )
+        .map((row) => ({
+          title: text(row.job_title) ?? "",
+          company: text(row.company_name) ?? "",
+          location: text(row.location),
+          startDate: row.start_date,
+          endDate: row.current_position ? null : (row.end_date ?? null),
+          current: !!row.current_position,
+          bullets: jobBullets(row),
+        }))
+    : [];
+
+  const repositories: PublicRepository[] = sections.github
+    ? source.repositories
+        .filter((row) => row.is_featured && httpUrl(row.html_url))
+        .sort((a, b) => (b.stargazers_count ?? 0) - (a.stargazers_count ?? 0))
+        .slice(0, MAX_REPOSITORIES)
+        .map((row) => ({
+          name: text(row.name) ?? text(row.full_name) ?? "",
+          description: text(row.description),
+          url: httpUrl(row.html_url)!,
+          homepage: httpUrl(row.homepage),
+          language: text(row.language),
+          stars: row.stargazers_count ?? 0,
+          topics: stringList(row.topics),
+        }))
+    : [];
+
+  const location = [text(profile.city), text(profile.state)]
+    .filter(Boolean)
+    .join(", ");
+
+  return {
+    slug: settings.slug,
+    name,
+    headline: settings.headline ?? text(profile.professional_title),
+    about: sections.about
+      ? { summary: text(profile.summary), location: location || null }
+      : null,
+    projects,
+    skills: sections.skills ? groupSkills(source.skills) : [],
+    employment,
+    repositories,
+    theme: resolvePortfolioTheme(source.theme),
+    views: settings.view_count,
+    updatedAt: settings.updated_at ?? new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Data access
+// ============================================================================
+
+const PORTFOLIO_COLUMNS =
+  "user_id, slug, is_published, theme_id, headline, sections, project_ids, view_count, last_viewed_at, published_at, created_at, updated_at";
+
+export async function getPortfolio(
+  userId: string
+): Promise<PortfolioRow | null> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("portfolios")
+    .select(PORTFOLIO_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  return (data as PortfolioRow | null) ?? null;
+}
+
+/** The theme must be a system theme or one of the user's own */
+async function checkTheme(userId: string, themeId: string): Promise<void> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("themes")
+    .select("id, user_id")
+    .eq("id", themeId)
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data || (data.user_id && data.user_id !== userId)) {
+    throw bad("Theme not found", "invalid_theme");
+  }
+}
+
+/**
+ * Create or update the user's portfolio. The first save needs a slug; a
+ * slug used by someone else is 409 slug_taken. Project ids that are not
+ * the user's are dropped.
+ */
+export async function savePortfolio(
+  userId: string,
+  input: Partial<PortfolioInput>,
+  now = new Date()
+): Promise<PortfolioRow> {
+  const supabase = await getSupabaseAdmin();
+  const existing = await getPortfolio(userId);
+  if (!existing && !input.slug) {
+    throw bad("slug is required", "invalid_slug");
+  }
+
+  if (input.slug && input.slug !== existing?.slug) {
+    const { data: owner, error } = await supabase
+      .from("portfolios")
+      .select("user_id")
+      .eq("slug", input.slug)
+      .maybeSingle();
+    if (error) throw new ApiError(500, error.message, "db_error");
+    if (owner && owner.user_id !== userId) {
+      throw new ApiError(409, "That address is already taken", "slug_taken");
+    }
+  }
+
+  if (input.theme_id) await checkTheme(userId, input.theme_id);
+
+  const row: Record<string, unknown> = { ...input };
+  if (input.project_ids?.length) {
+    const { data: owned, error } = await supabase
+      .from("projects")
+      .select("id")
+      .eq("user_id", userId)
+      .in("id", input.project_ids);
+    if (error) throw new ApiError(500, error.message, "db_error");
+    const ownedIds = new Set((owned ?? []).map((p: any) => p.id));
+    row.project_ids = input.project_ids.filter((id) => ownedIds.has(id));
+  }
+  if (input.is_published && !existing?.is_published) {
+    row.published_at = now.toISOString();
+  }
+  row.updated_at = now.toISOString();
+
+  const { data, error } = existing
+    ? await supabase
+        .from("portfolios")
+        .update(row)
+        .eq("user_id", userId)
+        .select(PORTFOLIO_COLUMNS)
+        .single()
+    : await supabase
+        .from("portfolios")
+        .insert({ sections: DEFAULT_SECTIONS, ...row, user_id: userId })
+        .select(PORTFOLIO_COLUMNS)
+        .single();
+  if (error) {
+    // Lost a race for the slug
+    if (error.code === "23505") {
+      throw new ApiError(409, "That address is already taken", "slug_taken");
+    }
+    throw new ApiError(500, error.message, "db_error");
+  }
+  return data as PortfolioRow;
+}
+
+async function loadSource(
+  userId: string,
+  settings: Pick<PortfolioRow, "theme_id" | "sections" | "project_ids">
+): Promise<PortfolioSource> {
+  const supabase = await getSupabaseAdmin();
+  const sections = { ...DEFAULT_SECTIONS, ...settings.sections };
+
+  const rows = async (
+    enabled: boolean,
+    query: () => PromiseLike<{ data: any; error: any }>
+  ): Promise<Record<string, any>[]> => {
+    if (!enabled) return [];
+    const { data, error } = await query();
+    if (error) throw new ApiError(500, error.message, "db_error");
+    return (data ?? []) as Record<string, any>[];
+  };
+
+  const [profile, projects, skills, employment, repositories, theme] =
+    await Promise.all([
+      rows(true, () =>
+        supabase
+          .from("profiles")
+          .select(
+            "first_name, last_name, professional_title, summary, city, state"
+          )
+          .eq("id", userId)
+      ),
+      rows(sections.projects && settings.project_ids.length > 0, () =>
+        supabase
+          .from("projects")
+          .select(
+            "id, proj_name, proj_description, role, start_date, end_date, status, tech_and_skills, proj_outcomes, project_url"
+          )
+          .eq("user_id", userId)
+          .in("id", settings.project_ids)
+      ),
+      rows(sections.skills, () =>
+        supabase
+          .from("skills")
+          .select("skill_name, proficiency_level, skill_category, taxonomy_id")
+          .eq("user_id", userId)
+      ),
+      rows(sections.employment, () =>
+        supabase
+          .from("employment")
+          .select(
+            "job_title, company_name, location, start_date, end_date, current_position, job_description, achievements"
+          )
+          .eq("user_id", userId)
+      ),
+      rows(sections.github, () =>
+        supabase
+          .from("repositories")
+          .select(
+            "name, full_name, description, html_url, homepage, language, stargazers_count, topics, is_featured"
+          )
+          .eq("user_id", userId)
+          .eq("is_featured", true)
+      ),
+      // A theme that is not a system one or the owner's falls back to default
+      rows(!!settings.theme_id, () =>
+        supabase
+          .from("themes")
+          .select("name, colors, typography")
+          .eq("id", settings.theme_id)
+          .or(`user_id.is.null,user_id.eq.${userId}`)
+      ),
+    ]);
+
+  return {
+    profile: profile[0] ?? null,
+    projects,
+    skills,
+    employment,
+    repositories,
+    theme: theme[0] ?? null,
+  };
+}
+
+/** Hashed so visitor addresses are not kept in the cache */
+function viewerKey(slug: string, viewer: string): string {
+  const hash = createHash("sha256").update(viewer).digest("hex").slice(0, 32);
+  return `portfolio-view:${slug}:${hash}`;
+}
+
+/** Count a view unless this visitor was counted within VIEW_WINDOW_MS */
+async function recordView(
+  slug: string,
+  viewer: { ip: string; userAgent: string }
+): Promise<number | null> {
+  if (CRAWLER_PATTERN.test(viewer.userAgent)) return null;
+  try {
+    const { count } = await getCacheStore().hit(
+      viewerKey(slug, `${viewer.ip}|${viewer.userAgent}`),
+      VIEW_WINDOW_MS
+    );
+    if (count > 1) return null;
+
+    const supabase = await getSupabaseAdmin();
+    const { data, error } = await supabase.rpc("record_portfolio_view", {
+      p_slug: slug,
+    });
+    if (error) throw new Error(error.message);
+    return typeof data === "number" ? data : Number(data ?? 0) || null;
+  } catch (err) {
+    // A lost view must not break the page
+    logError("portfolio_view_error", {
+      slug,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/**
+ * Published page by slug; 404 when it does not exist or is not published.
+ * Counts the view (see recordView).
+ */
+export async function getPublicPortfolio(
+  slug: string,
+  viewer: { ip: string; userAgent: string }
+): Promise<PublicPortfolio> {
+  const normalized = normalizeSlug(slug);
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("portfolios")
+    .select(PORTFOLIO_COLUMNS)
+    .eq("slug", normalized)
+    .eq("is_published", true)
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data) throw new ApiError(404, "Portfolio not found", "not_found");
+
+  const settings = data as PortfolioRow;
+  const [source, views] = await Promise.all([
+    loadSource(settings.user_id, settings),
+    recordView(settings.slug, viewer),
+  ]);
+  return buildPublicPortfolio(
+    { ...settings, view_count: views ?? settings.view_count },
+    source
+  );
+}
+
+/**
+ * Static files for the user's page with the saved settings, published or
+ * not. 404 until the portfolio has been set up.
+ */
+export async function exportPortfolioBundle(
+  userId: string
+): Promise<PortfolioBundle> {
+  const settings = await getPortfolio(userId);
+  if (!settings) {
+    throw new ApiError(404, "Set up your portfolio first", "not_found");
+  }
+  const source = await loadSource(userId, settings);
+  return buildPortfolioBundle(buildPublicPortfolio(settings, source));
+}
@@ -1,10 +1,11 @@
 /**
  * Prediction service
  * - Builds a concise prompt for job-search prediction
- * - Calls AI via aiClient.generate
+ * - Calls AI via aiClient.generate (schema-validated, repaired once when malformed)
  * - Falls back to a lightweight simulation when AI is unavailable
  */
 import aiClient from "./aiClient.js";
+import { outputSchemas } from "./aiOutputSchemas.js";
 import { logError, logInfo } from "../../utils/logger.js";
 
 type InputJob = {
@@ -69,24 +70,6 @@ function coerceStringArray(
     .map((s) => (s.length > maxLen ? s.slice(0, maxLen) : s));
 }
 
-function parseJsonFromAi(aiResult: any): unknown {
-  if (aiResult?.json) return aiResult.json;
-  const text = aiResult?.text;
-  if (typeof text !== "string") return null;
-
-  const cleaned = text
-    .replace(/```(?:json)?\n?/g, "")
-    .replace(/```/g, "")
-    .trim();
-
-  if (!cleaned) return null;
-  try {
-    return JSON.parse(cleaned);
-  } catch {
-    return null;
-  }
-}
-
 function validateAndSanitizePredictions(
   parsed: unknown
 ): ValidationOk | ValidationErr {
@@ -216,24 +199,6 @@ function buildPredictionPrompt(sample: Array<Record<string, unknown>>): string {
   ].join("\n");
 }
 
-function buildRepairPrompt(params: {
-  originalPrompt: string;
-  validationErrors: string[];
-  previousResponsePreview: string;
-}): string {
-  return [
-    "The previous response failed validation.",
-    "Fix the JSON to match the required schema exactly.",
-    "Return ONLY valid JSON (no markdown, no prose).",
-    "Validation errors:",
-    ...params.validationErrors.map((e) => `- ${e}`),
-    "Previous response preview:",
-    params.previousResponsePreview,
-    "Original instructions:",
-    params.originalPrompt,
-  ].join("\n");
-}
-
 export async function predictJobSearch(params: {
   jobs: InputJob[];
   userId: string;
@@ -338,68 +303,29 @@ export async function predictJobSearch(params: {
     const prompt = buildPredictionPrompt(sample);
     logInfo("predict.calling_ai", { userId, promptLength: prompt.length });
 
-    // Attempt 1: normal generation
-    const gen1 = await aiClient.generate("job-prediction", prompt, {
+    // Schema validation + one bounded repair pass happen inside aiClient.generate
+    const gen = await aiClient.generate("job-prediction", prompt, {
       model: process.env.AI_MODEL ?? "gpt-4o-mini",
       temperature: 0.2,
       maxTokens: 700,
       timeoutMs: 30_000,
       maxRetries: 2,
+      schema: outputSchemas["job-prediction"],
+      repairAttempts: 1,
     });
 
-    const parsed1 = parseJsonFromAi(gen1);
-    const validated1 = validateAndSanitizePredictions(parsed1);
-    if (validated1.ok) {
+    const validated = validateAndSanitizePredictions(gen.data);
+    if (validated.ok) {
       return {
         success: true,
-        predictions: validated1.value.predictions,
-        debug: { meta: gen1?.meta ?? null },
+        predictions: validated.value.predictions,
+        debug: { meta: gen?.meta ?? null },
       };
     }
 
-    // Attempt 2: bounded repair/regenerate (more deterministic)
-    const preview = (() => {
-      try {
-        const rawText =
-          typeof gen1?.text === "string"
-            ? gen1.text
-            : JSON.stringify(gen1?.raw ?? {});
-        return String(rawText ?? "").slice(0, 600);
-      } catch {
-        return "";
-      }
-    })();
     logError("predict.validation_failed", undefined, {
       userId,
-      errors: validated1.errors,
-    });
-
-    const repairPrompt = buildRepairPrompt({
-      originalPrompt: prompt,
-      validationErrors: validated1.errors,
-      previousResponsePreview: preview,
-    });
-
-    const gen2 = await aiClient.generate("job-prediction", repairPrompt, {
-      model: process.env.AI_MODEL ?? "gpt-4o-mini",
-      temperature: 0,
-      maxTokens: 700,
-      timeoutMs: 30_000,
-      maxRetries: 1,
-    });
-    const parsed2 = parseJsonFromAi(gen2);
-    const validated2 = validateAndSanitizePredictions(parsed2);
-    if (validated2.ok) {
-      return {
-        success: true,
-        predictions: validated2.value.predictions,
-        debug: { meta: gen2?.meta ?? null, repaired: true },
-      };
-    }
-
-    logError("predict.repair_failed", undefined, {
-      userId,
-      errors: validated2.errors,
+      errors: validated.errors,
     });
     return simulate();
   } catch (e: any) {
@@ -0,0 +1,313 @@
+/**
+ * PROMPT REGISTRY
+ *
+ * Versioned prompt templates for the /api/generate/* handlers, with sticky A/B
+ * assignment between versions.
+ *
+ * Flow:
+ * - Each builder in server/prompts/ is registered as version 1 of its prompt id
+ * - New wording is added as a new version (registerPrompt) instead of editing a builder
+ *   in place, so artifacts stay attributable to the text that produced them
+ * - renderPrompt(id, input, { userId, version }) picks the version:
+ *   1. an explicit version (request option or side-by-side comparison)
+ *   2. an experiment split (PROMPT_EXPERIMENT_<ID>="1:50,2:50" or setPromptExperiment),
+ *      bucketed by a hash of user + prompt id so a user always sees the same variant
+ *   3. otherwise the latest registered version
+ * - The orchestrator stores the chosen id/version on the artifact (prompt_id, prompt_version)
+ *   so get_prompt_version_stats can compare variants by score and edit rate
+ *
+ * Exports:
+ * - PromptTemplate / PromptInputs / RenderedPrompt: types
+ * - registerPrompt / getPrompt / listPrompts: registry
+ * - setPromptExperiment / getPromptExperiment / assignPromptVersion: variant selection
+ * - renderPrompt: build the prompt text for a user
+ * - getPromptVersionStats: per-version artifact counts, average score and edit rate
+ */
+
+import { ApiError } from "../../utils/errors.js";
+import { buildResumePrompt } from "../../prompts/resume.js";
+import type { BuildResumePromptArgs } from "../../prompts/resume.js";
+import { buildCoverLetterPrompt } from "../../prompts/coverLetter.js";
+import type { BuildCoverLetterPromptArgs } from "../../prompts/coverLetter.js";
+import { buildSkillsOptimizationPrompt } from "../../prompts/skillsOptimization.js";
+import type { BuildSkillsOptimizationPromptArgs } from "../../prompts/skillsOptimization.js";
+import { buildExperienceTailoringPrompt } from "../../prompts/experienceTailoring.js";
+import type { BuildExperienceTailoringPromptArgs } from "../../prompts/experienceTailoring.js";
+import { buildCompanyResearchPrompt } from "../../prompts/companyResearch.js";
+import type { CompanyResearchPromptData } from "../../prompts/companyResearch.js";
+
+/** Builder input per prompt id */
+export interface PromptInputs {
+  resume: BuildResumePromptArgs;
+  cover_letter: BuildCoverLetterPromptArgs;
+  skills_optimization: BuildSkillsOptimizationPromptArgs;
+  experience_tailoring: BuildExperienceTailoringPromptArgs;
+  company_research: CompanyResearchPromptData;
+}
+
+export type PromptId = keyof PromptInputs;
+
+export interface PromptTemplate<K extends PromptId = PromptId> {
+  id: K;
+  /** Positive integer; higher is newer */
+  version: number;
+  description: string;
+  build: (input: PromptInputs[K]) => string;
+}
+
+export interface RenderedPrompt {
+  id: PromptId;
+  version: number;
+  text: string;
+  /** Why this version was used */
+  assignment: "requested" | "experiment" | "latest";
+}
+
+/** Relative weight per version, e.g. { 1: 50, 2: 50 } */
+export type PromptExperiment = Record<number, number>;
+
+const templates = new Map<PromptId, Map<number, PromptTemplate>>();
+const experiments = new Map<PromptId, PromptExperiment>();
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/** Add (or replace) a prompt version */
+export function registerPrompt<K extends PromptId>(
+  template: PromptTemplate<K>
+) {
+  if (!Number.isInteger(template.version) || template.version < 1) {
+    throw new Error(
+      `prompt version must be a positive integer: ${template.id}@${template.version}`
+    );
+  }
+  const versions = templates.get(template.id) ?? new Map();
+  versions.set(template.version, template as unknown as PromptTemplate);
+  templates.set(template.id, versions);
+}
+
+/** A specific version, or the latest when version is omitted */
+export function getPrompt<K extends PromptId>(
+  id: K,
+  version?: number
+): PromptTemplate<K> | undefined {
+  const versions = templates.get(id);
+  if (!versions || versions.size === 0) return undefined;
+  const v = version ?? Math.max(...versions.keys());
+  return versions.get(v) as PromptTemplate<K> | undefined;
+}
+
+/** Registered prompts with their versions and active experiment (for /api/ai/prompts) */
+export function listPrompts(): Array<{
+  id: PromptId;
+  latest: number;
+  versions: Array<{ version: number; description: string }>;
+  experiment: PromptExperiment | null;
+}> {
+  return [...templates.entries()].map(([id, versions]) => {
+    const sorted = [...versions.values()].sort((a, b) => a.version - b.version);
+    return {
+      id,
+      latest: sorted[sorted.length - 1].version,
+      versions: sorted.map((t) => ({
+        version: t.version,
+        description: t.description,
+      })),
+      experiment: getPromptExperiment(id),
+    };
+  });
+}
+
+// ============================================================================
+// Variant selection
+// ============================================================================
+
+/** Set (or clear with null) the traffic split for a prompt; overrides the env */
+export function setPromptExperiment(
+  id: PromptId,
+  weights: PromptExperiment | null
+) {
+  if (weights) experiments.set(id, weights);
+  else experiments.delete(id);
+}
+
+/** Parse "1:50,2:50" into { 1: 50, 2: 50 }; malformed entries are ignored */
+function parseExperiment(raw: string | undefined): PromptExperiment | null {
+  if (!raw?.trim()) return null;
+  const weights: PromptExperiment = {};
+  for (const part of raw.split(",")) {
+    const [version, weight] = part.split(":").map((s) => Number(s.trim()));
+    if (Number.isInteger(version) && Number.isFinite(weight) && weight > 0) {
+      weights[version] = weight;
+    }
+  }
+  return Object.keys(weights).length > 0 ? weights : null;
+}
+
+/**
+ * Active experiment for a prompt, limited to registered versions.
+ * Returns null when fewer than two variants remain.
+ */
+export function getPromptExperiment(id: PromptId): PromptExperiment | null {
+  const weights =
+    experiments.get(id) ??
+    parseExperiment(process.env[`PROMPT_EXPERIMENT_${id.toUpperCase()}`]);
+  if (!weights) return null;
+  const active = Object.entries(weights).filter(([v]) =>
+    getPrompt(id, Number(v))
+  );
+  return active.length >= 2 ? Object.fromEntries(active) : null;
+}
+
+/** Stable bucket in [0, 1) for a user and prompt (FNV-1a) */
+function bucket(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick the version a user gets for a prompt.
+ * Throws when a requested version is not registered; routes validate first.
+ */
+export function assignPromptVersion(
+  id: PromptId,
+  userId: string,
+  requested?: number
+): { version: number; assignment: RenderedPrompt["assignment"] } {
+  if (requested !== undefined) {
+    if (!getPrompt(id, requested)) {
+      throw new Error(`unknown prompt version ${id}@${requested}`);
+    }
+    return { version: requested, assignment: "requested" };
+  }
+
+  const experiment = getPromptExperiment(id);
+  if (experiment) {
+    const entries = Object.entries(experiment).sort(
+      ([a], [b]) => Number(a) - Number(b)
+    );
+    const total = entries.reduce((sum, [, w]) => sum + w, 0);
+    let point = bucket(`${id}:${userId}`) * total;
+    for (const [version, weight] of entries) {
+      if (point < weight) {
+        return { version: Number(version), assignment: "experiment" };
+      }
+      point -= weight;
+    }
+  }
+
+  const latest = getPrompt(id);
+  if (!latest) throw new Error(`no prompt registered for ${id}`);
+  return { version: latest.version, assignment: "latest" };
+}
+
+/** Build prompt text with the version assigned to this user */
+export function renderPrompt<K extends PromptId>(
+  id: K,
+  input: PromptInputs[K],
+  opts: { userId: string; version?: number }
+): RenderedPrompt {
+  const { version, assignment } = assignPromptVersion(
+    id,
+    opts.userId,
+    opts.version
+  );
+  const template = getPrompt(id, version)!;
+  return { id, version, text: template.build(input), assignment };
+}
+
+// ============================================================================
+// Variant comparison
+// ============================================================================
+
+export interface PromptVersionStats {
+  promptId: string;
+  version: number;
+  artifacts: number;
+  users: number;
+  /** Mean 0-100 score over artifacts whose kind produces one; null when none do */
+  avgScore: number | null;
+  scoredArtifacts: number;
+  /** Share of artifacts the user edited after generation (0-1) */
+  editRate: number;
+}
+
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+/** Compare versions of one prompt (or all prompts) over the last `days` days */
+export async function getPromptVersionStats(
+  promptId: PromptId | null,
+  days = 30,
+  now: Date = new Date()
+): Promise<PromptVersionStats[]> {
+  const supabase = await getSupabaseAdmin();
+  const since = new Date(now.getTime() - days * 86_400_000);
+  const { data, error } = await supabase.rpc("get_prompt_version_stats", {
+    p_prompt_id: promptId,
+    p_since: since.toISOString(),
+  });
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  return (data ?? []).map((row: any) => ({
+    promptId: row.prompt_id,
+    version: Number(row.prompt_version),
+    artifacts: Number(row.artifacts ?? 0),
+    users: Number(row.users ?? 0),
+    avgScore: row.avg_score === null ? null : Number(row.avg_score),
+    scoredArtifacts: Number(row.scored_artifacts ?? 0),
+    editRate: Number(row.edit_rate ?? 0),
+  }));
+}
+
+// ============================================================================
+// Built-in prompts
+// ============================================================================
+
+registerPrompt({
+  id: "resume",
+  version: 1,
+  description: "Tailored resume JSON with template-aware section guidance",
+  build: buildResumePrompt,
+});
+
+registerPrompt({
+  id: "cover_letter",
+  version: 1,
+  description: "Cover letter sections with tone, length and culture controls",
+  build: buildCoverLetterPrompt,
+});
+
+registerPrompt({
+  id: "skills_optimization",
+  version: 1,
+  description: "Skills to emphasize, add and reorder for a job",
+  build: buildSkillsOptimizationPrompt,
+});
+
+registerPrompt({
+  id: "experience_tailoring",
+  version: 1,
+  description: "Role-by-role tailored bullets with relevance scores",
+  build: buildExperienceTailoringPrompt,
+});
+
+registerPrompt({
+  id: "company_research",
+  version: 1,
+  description: "Company profile, culture, leadership and recent news",
+  build: buildCompanyResearchPrompt,
+});
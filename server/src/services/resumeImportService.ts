@@ -0,0 +1,1012 @@
+/**
+ * Resume Import Service
+ *
+ * Turns an uploaded resume (PDF/DOCX) into rows for the profile tables and
+ * merges the ones the user approves, behind /api/resume-import.
+ *
+ * Flow:
+ * 1. previewResumeImport: extract the text (resumeTextExtractor) and split it
+ *    with the deterministic parser (resumeParser)
+ * 2. Only entries the parser flagged as ambiguous, and sections it could not
+ *    place, go to the AI ("resume_import" kind). Answers are accepted only
+ *    when the value appears in the entry's own text, so the AI can choose
+ *    between readings but cannot invent data
+ * 3. Each entry is compared with the user's existing rows: "new",
+ *    "update" (with per-field changes) or "duplicate"; nothing is written.
+ *    Skills match through the skills taxonomy and are saved under their
+ *    canonical name
+ * 4. mergeResumeImport writes the entries the user kept after review
+ *
+ * Functions:
+ * - previewResumeImport: parse a file and diff it against the profile
+ * - buildImportPreview: pure diff of parsed entries against existing rows
+ * - applyAiAnswers: pure merge of AI answers into parsed entries
+ * - mergeResumeImport: insert/update the approved entries for the user
+ */
+
+import { ApiError } from "../../utils/errors.js";
+import {
+  legacyLogError as logError,
+  legacyLogInfo as logInfo,
+} from "../../utils/logger.js";
+import aiClient from "./aiClient.js";
+import { outputSchemas } from "./aiOutputSchemas.js";
+import {
+  educationLevel,
+  parseResumeSection,
+  parseResumeText,
+  type ParsedEntry,
+  type ParsedProfileFields,
+  type ParsedResume,
+  type ResumeSection,
+} from "./resumeParser.js";
+import {
+  extractResumeText,
+  type ResumeFileFormat,
+} from "./resumeTextExtractor.js";
+import { canonicalSkillKey, normalizeSkill } from "./skillTaxonomy.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const RESUME_SECTIONS: ResumeSection[] = [
+  "employment",
+  "education",
+  "skills",
+  "projects",
+  "certifications",
+];
+
+export type ImportAction = "new" | "update" | "duplicate";
+
+export interface FieldChange {
+  field: string;
+  current: unknown;
+  imported: unknown;
+}
+
+export interface ResumeImportItem {
+  /** Stable within one preview: "<section>-<index>" */
+  id: string;
+  section: ResumeSection;
+  action: ImportAction;
+  /** Row this entry matches (update / duplicate) */
+  existingId: string | null;
+  /** Imported row, in the table's column names */
+  data: Record<string, unknown>;
+  /** For updates: imported values that differ from the existing row */
+  changes: FieldChange[];
+  /** Required columns the resume did not provide; fill them before merging */
+  missing: string[];
+  /** Fields that are a best guess and worth a second look */
+  ambiguous: string[];
+  confidence: number;
+  source: string;
+}
+
+export interface ResumeImportPreview {
+  format: ResumeFileFormat;
+  pages: number;
+  /** Profile fields the resume would fill or change */
+  profile: { changes: FieldChange[] };
+  items: ResumeImportItem[];
+  /** Text that could not be placed in any section */
+  unassigned: string[];
+  ai: { used: boolean; resolved: number };
+}
+
+/** The user's current rows, as read by loadExistingRows */
+export interface ExistingProfileRows {
+  profile: Record<string, unknown> | null;
+  employment: Record<string, unknown>[];
+  education: Record<string, unknown>[];
+  skills: Record<string, unknown>[];
+  projects: Record<string, unknown>[];
+  certifications: Record<string, unknown>[];
+}
+
+export interface MergeItemInput {
+  section: ResumeSection;
+  action: "new" | "update";
+  existingId?: string;
+  data: Record<string, unknown>;
+}
+
+export interface MergeInput {
+  /** Profile columns to set (see PROFILE_FIELDS) */
+  profile?: Record<string, unknown>;
+  items: MergeItemInput[];
+}
+
+export interface MergeItemResult {
+  index: number;
+  section: ResumeSection;
+  action: "new" | "update";
+  id: string | null;
+  error: string | null;
+}
+
+export interface MergeResult {
+  profileUpdated: boolean;
+  created: number;
+  updated: number;
+  failed: number;
+  results: MergeItemResult[];
+}
+
+// ============================================================================
+// Table shapes
+// ============================================================================
+
+/** Profile columns a resume can fill (email stays tied to the account) */
+export const PROFILE_FIELDS: Array<keyof ParsedProfileFields> = [
+  "first_name",
+  "last_name",
+  "full_name",
+  "phone",
+  "city",
+  "state",
+  "professional_title",
+  "summary",
+];
+
+const TABLES: Record<ResumeSection, string> = {
+  employment: "employment",
+  education: "education",
+  skills: "skills",
+  projects: "projects",
+  certifications: "certifications",
+};
+
+const SELECTS: Record<ResumeSection, string> = {
+  employment:
+    "id, job_title, company_name, location, start_date, end_date, current_position, job_description",
+  education:
+    "id, institution_name, degree_type, field_of_study, start_date, graduation_date, gpa, honors",
+  skills: "id, skill_name, skill_category",
+  projects:
+    "id, proj_name, role, proj_description, start_date, end_date, tech_and_skills, project_url",
+  certifications: "id, name, issuing_org, date_earned, expiration_date",
+};
+
+/** Columns an insert cannot do without (education also needs a degree or field) */
+const REQUIRED: Record<ResumeSection, string[]> = {
+  employment: ["job_title", "company_name", "start_date"],
+  education: ["institution_name", "start_date"],
+  skills: ["skill_name"],
+  projects: ["proj_name", "start_date"],
+  certifications: ["name"],
+};
+
+/** Columns compared for updates; descriptions included, categories are the user's call */
+const COMPARED: Record<ResumeSection, string[]> = {
+  employment: [
+    "job_title",
+    "location",
+    "start_date",
+    "end_date",
+    "current_position",
+    "job_description",
+  ],
+  education: [
+    "degree_type",
+    "field_of_study",
+    "start_date",
+    "graduation_date",
+    "gpa",
+    "honors",
+  ],
+  skills: [],
+  projects: [
+    "role",
+    "proj_description",
+    "start_date",
+    "end_date",
+    "tech_and_skills",
+    "project_url",
+  ],
+  certifications: ["issuing_org", "date_earned", "expiration_date"],
+};
+
+type FieldKind = "text" | "date" | "boolean" | "number" | "list";
+
+/** Writable columns per section with their types (anything else is dropped) */
+const COLUMNS: Record<ResumeSection, Record<string, FieldKind>> = {
+  employment: {
+    job_title: "text",
+    company_name: "text",
+    location: "text",
+    start_date: "date",
+    end_date: "date",
+    current_position: "boolean",
+    job_description: "text",
+  },
+  education: {
+    institution_name: "text",
+    degree_type: "text",
+    field_of_study: "text",
+    education_level: "text",
+    start_date: "date",
+    graduation_date: "date",
+    currently_enrolled: "boolean",
+    gpa: "number",
+    honors: "text",
+  },
+  skills: { skill_name: "text", skill_category: "text" },
+  projects: {
+    proj_name: "text",
+    role: "text",
+    proj_description: "text",
+    start_date: "date",
+    end_date: "date",
+    tech_and_skills: "list",
+    project_url: "text",
+  },
+  certifications: {
+    name: "text",
+    issuing_org: "text",
+    date_earned: "date",
+    expiration_date: "date",
+  },
+};
+
+const SKILL_CATEGORIES = ["Technical", "Soft", "Language", "Other"];
+const EDUCATION_LEVELS = [
+  "high_school",
+  "associate",
+  "bachelor",
+  "master",
+  "phd",
+  "other",
+];
+
+const MAX_TEXT_CHARS = 4000;
+const MAX_MERGE_ITEMS = 300;
+/** Entries and blocks sent to the AI per import */
+const MAX_AI_ENTRIES = 15;
+const MAX_AI_BLOCKS = 4;
+const MAX_AI_BLOCK_CHARS = 1500;
+
+// ============================================================================
+// Comparison helpers
+// ============================================================================
+
+/** Loose identity for names: case, punctuation and company suffixes ignored */
+function matchKey(value: unknown): string {
+  return String(value ?? "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N} ]/gu, " ")
+    .replace(/\b(inc|llc|ltd|corp|corporation|co|the)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function sameValue(
+  field: string,
+  current: unknown,
+  imported: unknown
+): boolean {
+  if (isEmpty(current) && isEmpty(imported)) return true;
+  if (isEmpty(current) || isEmpty(imported)) return false;
+  // Resumes give months; stored dates may carry a day
+  if (field.endsWith("_date")) {
+    return String(current).slice(0, 7) === String(imported).slice(0, 7);
+  }
+  if (Array.isArray(current) || Array.isArray(imported)) {
+    const set = (v: unknown) =>
+      [...(Array.isArray(v) ? v : [v])].map(matchKey).sort().join("|");
+    return set(current) === set(imported);
+  }
+  if (typeof current === "number" || typeof imported === "number") {
+    return Number(current) === Number(imported);
+  }
+  if (typeof current === "boolean" || typeof imported === "boolean") {
+    return Boolean(current) === Boolean(imported);
+  }
+  return (
+    String(current).replace(/\s+/g, " ").trim().toLowerCase() ===
+    String(imported).replace(/\s+/g, " ").trim().toLowerCase()
+  );
+}
+
+/** Existing row an imported entry refers to, if any */
+function findMatch(
+  section: ResumeSection,
+  data: Record<string, unknown>,
+  rows: Record<string, unknown>[]
+): Record<string, unknown> | null {
+  const key = (row: Record<string, unknown>, field: string) =>
+    matchKey(row[field]);
+  const has = (value: string) => value.length > 0;
+
+  return (
+    rows.find((row) => {
+      switch (section) {
+        case "employment": {
+          const company = key(data, "company_name");
+          if (!has(company) || company !== key(row, "company_name")) {
+            return false;
+          }
+          // Same employer: the same title or the same start month
+          return (
+            key(data, "job_title") === key(row, "job_title") ||
+            (!isEmpty(data.start_date) &&
+              sameValue("start_date", row.start_date, data.start_date))
+          );
+        }
+        case "education": {
+          const school = key(data, "institution_name");
+          if (!has(school) || school !== key(row, "institution_name")) {
+            return false;
+          }
+          const degree = key(data, "degree_type");
+          const field = key(data, "field_of_study");
+          return (
+            (!has(degree) && !has(field)) ||
+            (has(degree) && degree === key(row, "degree_type")) ||
+            (has(field) && field === key(row, "field_of_study"))
+          );
+        }
+        case "skills":
+          // Through the taxonomy, so "JS" finds an existing "JavaScript"
+          return (
+            has(key(data, "skill_name")) &&
+            canonicalSkillKey(String(data.skill_name)) ===
+              canonicalSkillKey(String(row.skill_name ?? ""))
+          );
+        case "projects":
+          return (
+            has(key(data, "proj_name")) &&
+            key(data, "proj_name") === key(row, "proj_name")
+          );
+        case "certifications":
+          return (
+            has(key(data, "name")) && key(data, "name") === key(row, "name")
+          );
+      }
+    }) ?? null
+  );
+}
+
+function missingFields(
+  section: ResumeSection,
+  data: Record<string, unknown>
+): string[] {
+  const missing = REQUIRED[section].filter((field) => isEmpty(data[field]));
+  if (
+    section === "education" &&
+    isEmpty(data.degree_type) &&
+    isEmpty(data.field_of_study)
+  ) {
+    missing.push("degree_type");
+  }
+  return missing;
+}
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+/**
+ * Diff parsed entries against the user's rows.
+ * Entries without any imported value for a matched row's differing fields
+ * are duplicates; imported blanks never clear existing values.
+ */
+export function buildImportPreview(
+  parsed: ParsedResume,
+  existing: ExistingProfileRows
+): Pick<ResumeImportPreview, "profile" | "items" | "unassigned"> {
+  const profileChanges: FieldChange[] = [];
+  for (const field of PROFILE_FIELDS) {
+    const imported = parsed.profile[field];
+    const current = existing.profile?.[field] ?? null;
+    if (!isEmpty(imported) && !sameValue(field, current, imported)) {
+      profileChanges.push({ field, current, imported });
+    }
+  }
+
+  const items: ResumeImportItem[] = [];
+  for (const section of RESUME_SECTIONS) {
+    const entries = parsed[section] as ParsedEntry<object>[];
+    entries.forEach((entry, index) => {
+      const data = entry.data as Record<string, unknown>;
+      const match = findMatch(section, data, existing[section]);
+      const changes = match
+        ? COMPARED[section]
+            .filter(
+              (field) =>
+                !isEmpty(data[field]) &&
+                !sameValue(field, match[field], data[field])
+            )
+            .map((field) => ({
+              field,
+              current: match[field] ?? null,
+              imported: data[field],
+            }))
+        : [];
+
+      items.push({
+        id: `${section}-${index}`,
+        section,
+        action: !match ? "new" : changes.length ? "update" : "duplicate",
+        existingId: match ? String(match.id) : null,
+        data,
+        changes,
+        missing: match ? [] : missingFields(section, data),
+        ambiguous: entry.ambiguous,
+        confidence: entry.confidence,
+        source: entry.source,
+      });
+    });
+  }
+
+  return {
+    profile: { changes: profileChanges },
+    items,
+    unassigned: parsed.unassigned,
+  };
+}
+
+async function loadExistingRows(userId: string): Promise<ExistingProfileRows> {
+  const supabase = await getSupabaseAdmin();
+
+  const profileQuery = supabase
+    .from("profiles")
+    .select(`id, email, ${PROFILE_FIELDS.join(", ")}`)
+    .eq("id", userId)
+    .maybeSingle();
+  const [profile, ...sections] = await Promise.all([
+    profileQuery,
+    ...RESUME_SECTIONS.map((section) =>
+      supabase
+        .from(TABLES[section])
+        .select(SELECTS[section])
+        .eq("user_id", userId)
+    ),
+  ]);
+
+  for (const result of [profile, ...sections]) {
+    if (result.error) {
+      logError("resume_import.load_failed", result.error, { userId });
+      throw new ApiError(500, "Could not read your profile", "db_error");
+    }
+  }
+
+  const rows = (i: number) =>
+    (sections[i].data ?? []) as unknown as Record<string, unknown>[];
+  return {
+    profile: (profile.data as Record<string, unknown> | null) ?? null,
+    employment: rows(0),
+    education: rows(1),
+    skills: rows(2),
+    projects: rows(3),
+    certifications: rows(4),
+  };
+}
+
+// ============================================================================
+// AI disambiguation
+// ============================================================================
+
+interface AiEntryAnswer {
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+interface AiBlockAnswer {
+  id: string;
+  section: ResumeSection | "none";
+}
+
+export interface AiAnswers {
+  entries?: AiEntryAnswer[];
+  blocks?: AiBlockAnswer[];
+}
+
+/** Fields the AI may fill per section, with their kind */
+const AI_FIELDS: Record<ResumeSection, Record<string, "text" | "date">> = {
+  employment: {
+    job_title: "text",
+    company_name: "text",
+    location: "text",
+    start_date: "date",
+    end_date: "date",
+  },
+  education: {
+    institution_name: "text",
+    degree_type: "text",
+    field_of_study: "text",
+    start_date: "date",
+    graduation_date: "date",
+  },
+  // Skill names are kept as written
+  skills: {},
+  projects: {
+    proj_name: "text",
+    role: "text",
+    start_date: "date",
+    end_date: "date",
+  },
+  certifications: { name: "text", issuing_org: "text", date_earned: "date" },
+};
+
+function looseText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** AI value for one field, or null when the entry's text does not back it */
+function checkedAnswer(
+  kind: "text" | "date",
+  value: unknown,
+  source: string
+): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  if (kind === "date") {
+    const match = value.trim().match(/^(\d{4})-(\d{2})(?:-\d{2})?$/);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) return null;
+    return source.includes(match[1]) ? `${match[1]}-${match[2]}-01` : null;
+  }
+  const text = value.replace(/\s+/g, " ").trim();
+  return looseText(source).includes(looseText(text)) ? text : null;
+}
+
+function buildDisambiguationPrompt(
+  entries: Array<{
+    id: string;
+    section: ResumeSection;
+    entry: ParsedEntry<object>;
+  }>,
+  blocks: Array<{ id: string; text: string }>
+): string {
+  const entryText = entries
+    .map(
+      ({ id, section, entry }) =>
+        `- id: ${id}\n  section: ${section}\n  unclear fields: ${entry.ambiguous.join(", ")}\n  parsed: ${JSON.stringify(entry.data)}\n  text: ${JSON.stringify(entry.source)}`
+    )
+    .join("\n");
+  const blockText = blocks
+    .map(({ id, text }) => `- id: ${id}\n  text: ${JSON.stringify(text)}`)
+    .join("\n");
+
+  return `
+You are helping import a resume into a structured profile. A rule-based parser
+already read it; answer only the questions below.
+
+ENTRIES (fields the parser was unsure about):
+${entryText || "- (none)"}
+
+For each entry, give the correct value of each unclear field, copied from the
+entry's text. Field meanings:
+- employment: job_title, company_name, location, start_date, end_date
+- education: institution_name, degree_type (e.g. "B.S."), field_of_study, start_date, graduation_date
+- projects: proj_name, role, start_date, end_date
+- certifications: name, issuing_org, date_earned
+Dates are "YYYY-MM". Leave a field out when the text does not contain it.
+
+UNPLACED BLOCKS (text under headings the parser did not recognize):
+${blockText || "- (none)"}
+
+For each block, say which profile section it belongs to: employment,
+education, skills, projects, certifications, or none (awards, interests, etc).
+
+Respond as STRICT JSON:
+{
+  "entries": [{ "id": "string", "fields": { "field_name": "value" } }],
+  "blocks": [{ "id": "string", "section": "employment" | "education" | "skills" | "projects" | "certifications" | "none" }]
+}
+Return ONLY valid JSON. No backticks. No comments.
+`;
+}
+
+/**
+ * Merge AI answers into the parsed resume (mutates and returns it).
+ * Only fields the parser flagged are changed, only with values found in the
+ * entry's own text; blocks assigned to a section are parsed with that
+ * section's rules. Returns how many fields and blocks were resolved.
+ */
+export function applyAiAnswers(
+  parsed: ParsedResume,
+  answers: AiAnswers,
+  blockIds: Map<string, number>
+): number {
+  let resolved = 0;
+
+  for (const answer of answers.entries ?? []) {
+    const [section, index] = String(answer.id).split("-") as [
+      ResumeSection,
+      string,
+    ];
+    if (!RESUME_SECTIONS.includes(section)) continue;
+    const entry = (parsed[section] as ParsedEntry<object>[])[Number(index)];
+    if (!entry || !answer.fields || typeof answer.fields !== "object") continue;
+
+    const data = entry.data as Record<string, unknown>;
+    const before = entry.ambiguous.length;
+    for (const [field, value] of Object.entries(answer.fields)) {
+      const kind = AI_FIELDS[section][field];
+      if (!kind || !entry.ambiguous.includes(field)) continue;
+      const checked = checkedAnswer(kind, value, entry.source);
+      if (checked === null) continue;
+      data[field] = checked;
+      entry.ambiguous = entry.ambiguous.filter((f) => f !== field);
+      resolved++;
+    }
+    if (section === "education") {
+      data.education_level = educationLevel(
+        (data.degree_type as string | null) ?? null
+      );
+    }
+    if (before > 0 && entry.ambiguous.length < before) {
+      entry.confidence =
+        Math.round(
+          (entry.confidence +
+            ((1 - entry.confidence) * (before - entry.ambiguous.length)) /
+              before) *
+            100
+        ) / 100;
+    }
+  }
+
+  const placed = new Set<number>();
+  for (const answer of answers.blocks ?? []) {
+    const index = blockIds.get(String(answer.id));
+    if (index === undefined || placed.has(index)) continue;
+    if (!RESUME_SECTIONS.includes(answer.section as ResumeSection)) continue;
+
+    // Drop the block's own heading line before parsing it as the section
+    const lines = parsed.unassigned[index].split("\n");
+    const body = lines.length > 1 ? lines.slice(1) : lines;
+    const sections = parseResumeSection(answer.section as ResumeSection, body);
+    for (const section of RESUME_SECTIONS) {
+      (parsed[section] as ParsedEntry<object>[]).push(
+        ...(sections[section] as ParsedEntry<object>[])
+      );
+    }
+    placed.add(index);
+    resolved++;
+  }
+  parsed.unassigned = parsed.unassigned.filter((_, i) => !placed.has(i));
+  return resolved;
+}
+
+async function disambiguate(
+  parsed: ParsedResume,
+  userId: string
+): Promise<{ used: boolean; resolved: number }> {
+  const entries = RESUME_SECTIONS.flatMap((section) =>
+    (parsed[section] as ParsedEntry<object>[]).map((entry, index) => ({
+      id: `${section}-${index}`,
+      section,
+      entry,
+    }))
+  )
+    .filter(({ section, entry }) =>
+      entry.ambiguous.some((field) => field in AI_FIELDS[section])
+    )
+    .slice(0, MAX_AI_ENTRIES);
+  const blocks = parsed.unassigned
+    .slice(0, MAX_AI_BLOCKS)
+    .map((text, index) => ({
+      id: `block-${index}`,
+      text: text.slice(0, MAX_AI_BLOCK_CHARS),
+    }));
+  if (!entries.length && !blocks.length) return { used: false, resolved: 0 };
+
+  try {
+    const result = await aiClient.generate<AiAnswers>(
+      "resume_import",
+      buildDisambiguationPrompt(entries, blocks),
+      {
+        temperature: 0,
+        maxTokens: 1500,
+        timeoutMs: 30_000,
+        schema: outputSchemas.resume_import,
+        repairAttempts: 1,
+      }
+    );
+    if (!result.data || typeof result.data !== "object") {
+      return { used: true, resolved: 0 };
+    }
+    const blockIds = new Map(blocks.map((block, index) => [block.id, index]));
+    return {
+      used: true,
+      resolved: applyAiAnswers(parsed, result.data, blockIds),
+    };
+  } catch (e) {
+    // The parser's reading stands; the user reviews it either way
+    logError("resume_import.ai_failed", e, {
+      userId,
+      entries: entries.length,
+      blocks: blocks.length,
+    });
+    return { used: false, resolved: 0 };
+  }
+}
+
+/**
+ * Parse an uploaded resume and diff it against the user's profile.
+ * Nothing is written; pass the reviewed items to mergeResumeImport.
+ */
+export async function previewResumeImport(
+  userId: string,
+  file: { fileName: string; content: Buffer },
+  options: { useAi?: boolean } = {}
+): Promise<ResumeImportPreview> {
+  const extracted = await extractResumeText(file.content, file.fileName);
+  const parsed = parseResumeText(extracted.text);
+
+  const ai =
+    options.useAi === false
+      ? { used: false, resolved: 0 }
+      : await disambiguate(parsed, userId);
+
+  const existing = await loadExistingRows(userId);
+  const preview = buildImportPreview(parsed, existing);
+
+  logInfo("resume_import.previewed", {
+    userId,
+    format: extracted.format,
+    pages: extracted.pages,
+    items: preview.items.length,
+    newItems: preview.items.filter((i) => i.action === "new").length,
+    unassigned: preview.unassigned.length,
+    aiUsed: ai.used,
+    aiResolved: ai.resolved,
+  });
+
+  return {
+    format: extracted.format,
+    pages: extracted.pages,
+    ...preview,
+    ai,
+  };
+}
+
+// ============================================================================
+// Merge
+// ============================================================================
+
+function toDate(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3] ?? "01"}`;
+  return Number.isNaN(Date.parse(date)) ? null : date;
+}
+
+/**
+ * Keep the section's writable columns with the right types.
+ * Returns the row and a problem description when it cannot be written.
+ */
+export function sanitizeImportRow(
+  section: ResumeSection,
+  data: Record<string, unknown>,
+  action: "new" | "update"
+): { row: Record<string, unknown>; error: string | null } {
+  const row: Record<string, unknown> = {};
+  for (const [field, kind] of Object.entries(COLUMNS[section])) {
+    const value = data?.[field];
+    if (value === undefined || value === null || value === "") continue;
+    switch (kind) {
+      case "text":
+        if (typeof value === "string" && value.trim()) {
+          row[field] = value.trim().slice(0, MAX_TEXT_CHARS);
+        }
+        break;
+      case "date": {
+        const date = toDate(value);
+        if (!date)
+          return { row, error: `${field} must be YYYY-MM or YYYY-MM-DD` };
+        row[field] = date;
+        break;
+      }
+      case "boolean":
+        row[field] = value === true;
+        break;
+      case "number":
+        if (typeof value === "number" && Number.isFinite(value))
+          row[field] = value;
+        break;
+      case "list":
+        if (Array.isArray(value)) {
+          row[field] = value
+            .filter((v): v is string => typeof v === "string" && !!v.trim())
+            .map((v) => v.trim().slice(0, 100))
+            .slice(0, 30);
+        }
+        break;
+    }
+  }
+
+  if (action === "new") {
+    const missing = missingFields(section, row);
+    if (missing.length) {
+      return { row, error: `Missing ${missing.join(", ")}` };
+    }
+  }
+
+  // Table rules the import has to follow
+  const start = row.start_date as string | undefined;
+  const end = (row.end_date ?? row.graduation_date) as string | undefined;
+  if (start && end && end < start) {
+    return { row, error: "The end date is before the start date" };
+  }
+  switch (section) {
+    case "employment":
+      if (row.current_position) row.end_date = null;
+      break;
+    case "education":
+      if ("currently_enrolled" in row) {
+        row.enrollment_status = row.currently_enrolled
+          ? "enrolled"
+          : "not_enrolled";
+        delete row.currently_enrolled;
+      }
+      if (
+        row.education_level &&
+        !EDUCATION_LEVELS.includes(String(row.education_level))
+      ) {
+        delete row.education_level;
+      }
+      if (
+        row.gpa !== undefined &&
+        (Number(row.gpa) < 0 || Number(row.gpa) > 4)
+      ) {
+        delete row.gpa;
+      }
+      break;
+    case "skills":
+      if (action === "new") {
+        const normalized = normalizeSkill(String(row.skill_name));
+        row.skill_name = normalized.name;
+        row.taxonomy_id = normalized.id;
+        if (!SKILL_CATEGORIES.includes(String(row.skill_category))) {
+          row.skill_category = normalized.category ?? "Technical";
+        }
+        // Resumes rarely state levels; the user adjusts it on the skills page
+        row.proficiency_level = "intermediate";
+      }
+      break;
+    case "projects":
+      if (action === "new") row.status = row.end_date ? "completed" : "ongoing";
+      break;
+  }
+  return { row, error: null };
+}
+
+/**
+ * Write the reviewed entries for the user.
+ * Each entry succeeds or fails on its own; failures are reported per entry
+ * rather than aborting the import.
+ */
+export async function mergeResumeImport(
+  userId: string,
+  input: MergeInput
+): Promise<MergeResult> {
+  if (!Array.isArray(input.items) || input.items.length > MAX_MERGE_ITEMS) {
+    throw new ApiError(
+      400,
+      `items must be an array of at most ${MAX_MERGE_ITEMS} entries`,
+      "bad_request"
+    );
+  }
+  const supabase = await getSupabaseAdmin();
+
+  let profileUpdated = false;
+  if (input.profile && typeof input.profile === "object") {
+    const fields: Record<string, string> = {};
+    for (const field of PROFILE_FIELDS) {
+      const value = input.profile[field];
+      if (typeof value === "string" && value.trim()) {
+        fields[field] = value.trim().slice(0, MAX_TEXT_CHARS);
+      }
+    }
+    if (Object.keys(fields).length) {
+      const { error } = await supabase
+        .from("profiles")
+        .update(fields)
+        .eq("id", userId);
+      if (error) {
+        logError("resume_import.profile_failed", error, { userId });
+        throw new ApiError(500, "Could not update your profile", "db_error");
+      }
+      profileUpdated = true;
+    }
+  }
+
+  const results: MergeItemResult[] = [];
+  for (const [index, item] of input.items.entries()) {
+    const section = item?.section;
+    const action = item?.action === "update" ? "update" : "new";
+    const result: MergeItemResult = {
+      index,
+      section,
+      action,
+      id: null,
+      error: null,
+    };
+    results.push(result);
+
+    if (!RESUME_SECTIONS.includes(section)) {
+      result.error = "Unknown section";
+      continue;
+    }
+    if (action === "update" && typeof item.existingId !== "string") {
+      result.error = "existingId is required for updates";
+      continue;
+    }
+    const { row, error } = sanitizeImportRow(section, item.data ?? {}, action);
+    if (error) {
+      result.error = error;
+      continue;
+    }
+
+    const table = TABLES[section];
+    if (action === "new") {
+      const { data, error: insertError } = await supabase
+        .from(table)
+        .insert({ ...row, user_id: userId })
+        .select("id")
+        .single();
+      if (insertError) result.error = insertError.message;
+      else result.id = (data as { id: string }).id;
+    } else {
+      const { data, error: updateError } = await supabase
+        .from(table)
+        .update(row)
+        .eq("id", item.existingId!)
+        .eq("user_id", userId)
+        .select("id");
+      if (updateError) result.error = updateError.message;
+      else if (!data?.length) result.error = "Entry not found";
+      else result.id = item.existingId!;
+    }
+  }
+
+  const failed = results.filter((r) => r.error).length;
+  const created = results.filter((r) => !r.error && r.action === "new").length;
+  const updated = results.filter(
+    (r) => !r.error && r.action === "update"
+  ).length;
+  if (failed) {
+    logError("resume_import.merge_partial", undefined, {
+      userId,
+      failed,
+      errors: results.filter((r) => r.error).slice(0, 5),
+    });
+  }
+  logInfo("resume_import.merged", {
+    userId,
+    created,
+    updated,
+    failed,
+    profileUpdated,
+  });
+
+  return { profileUpdated, created, updated, failed, results };
+}
@@ -0,0 +1,1091 @@
+/**
+ * RESUME PARSER: deterministic segmentation of resume text
+ *
+ * PURPOSE: Split the plain text of an uploaded resume (resumeTextExtractor)
+ * into rows shaped like the profile tables, without AI. The resume import
+ * only asks the AI about the fields this parser marks as ambiguous.
+ *
+ * Flow:
+ * 1. Section headings ("Experience", "Technical Skills", ...) are matched
+ *    against SECTION_HEADINGS; lines before the first heading are the header
+ *    (name, email, phone, location, title)
+ * 2. Each section is split into entries: a run of heading lines (title,
+ *    company, dates) followed by bullet or sentence lines (description)
+ * 3. Entries are read with keyword lists and date patterns; fields the rules
+ *    could not tell apart (title vs company, degree vs institution) or could
+ *    not find are listed in `ambiguous`
+ *
+ * Dates are returned as YYYY-MM-01 (YYYY-01-01 for year-only dates, which
+ * are flagged ambiguous since the month is a guess).
+ *
+ * Usage:
+ * import { parseResumeText } from '../services/resumeParser.js';
+ * const parsed = parseResumeText(text);
+ */
+
+export type ResumeSection =
+  "employment" | "education" | "skills" | "projects" | "certifications";
+
+export interface ParsedProfileFields {
+  full_name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+  city: string | null;
+  state: string | null;
+  professional_title: string | null;
+  summary: string | null;
+}
+
+export interface ParsedEmployment {
+  job_title: string | null;
+  company_name: string | null;
+  location: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  current_position: boolean;
+  job_description: string | null;
+}
+
+export interface ParsedEducation {
+  institution_name: string | null;
+  degree_type: string | null;
+  field_of_study: string | null;
+  education_level: EducationLevel | null;
+  start_date: string | null;
+  graduation_date: string | null;
+  currently_enrolled: boolean;
+  gpa: number | null;
+  honors: string | null;
+}
+
+export interface ParsedSkill {
+  skill_name: string;
+  /** One of the profile's skill categories: Technical, Soft, Language, Other */
+  skill_category: string;
+}
+
+export interface ParsedProject {
+  proj_name: string | null;
+  role: string | null;
+  proj_description: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  tech_and_skills: string[];
+  project_url: string | null;
+}
+
+export interface ParsedCertification {
+  name: string | null;
+  issuing_org: string | null;
+  date_earned: string | null;
+  expiration_date: string | null;
+}
+
+export type EducationLevel =
+  "high_school" | "associate" | "bachelor" | "master" | "phd" | "other";
+
+export interface ParsedEntry<T> {
+  data: T;
+  /** 0-1: share of the entry's key fields the rules were sure about */
+  confidence: number;
+  /** Fields guessed or not found; the resume import asks the AI about these */
+  ambiguous: string[];
+  /** Lines the entry was read from */
+  source: string;
+}
+
+export interface ParsedResume {
+  profile: ParsedProfileFields;
+  employment: ParsedEntry<ParsedEmployment>[];
+  education: ParsedEntry<ParsedEducation>[];
+  skills: ParsedEntry<ParsedSkill>[];
+  projects: ParsedEntry<ParsedProject>[];
+  certifications: ParsedEntry<ParsedCertification>[];
+  /** Text under headings the parser does not map to a profile section */
+  unassigned: string[];
+}
+
+// ============================================================================
+// Vocabulary
+// ============================================================================
+
+type HeadingTarget = ResumeSection | "summary" | "languages" | "other";
+
+// Normalized heading text (lowercase, "&" → "and", letters and spaces only)
+const SECTION_HEADINGS: Record<string, HeadingTarget> = {
+  experience: "employment",
+  "work experience": "employment",
+  "professional experience": "employment",
+  "relevant experience": "employment",
+  "industry experience": "employment",
+  "leadership experience": "employment",
+  employment: "employment",
+  "employment history": "employment",
+  "work history": "employment",
+  "career history": "employment",
+  "professional background": "employment",
+  education: "education",
+  "academic background": "education",
+  "education and training": "education",
+  academics: "education",
+  skills: "skills",
+  "technical skills": "skills",
+  "key skills": "skills",
+  "core skills": "skills",
+  "skills and tools": "skills",
+  "skills and abilities": "skills",
+  "skills and interests": "skills",
+  "core competencies": "skills",
+  competencies: "skills",
+  "areas of expertise": "skills",
+  technologies: "skills",
+  "tools and technologies": "skills",
+  "technical proficiencies": "skills",
+  languages: "languages",
+  projects: "projects",
+  "personal projects": "projects",
+  "selected projects": "projects",
+  "academic projects": "projects",
+  "side projects": "projects",
+  "key projects": "projects",
+  "technical projects": "projects",
+  certifications: "certifications",
+  certificates: "certifications",
+  "licenses and certifications": "certifications",
+  "certifications and licenses": "certifications",
+  "certifications and training": "certifications",
+  credentials: "certifications",
+  summary: "summary",
+  "professional summary": "summary",
+  "career summary": "summary",
+  profile: "summary",
+  "professional profile": "summary",
+  "about me": "summary",
+  about: "summary",
+  objective: "summary",
+  "career objective": "summary",
+  awards: "other",
+  "honors and awards": "other",
+  "awards and honors": "other",
+  achievements: "other",
+  publications: "other",
+  volunteer: "other",
+  "volunteer experience": "other",
+  volunteering: "other",
+  activities: "other",
+  "extracurricular activities": "other",
+  leadership: "other",
+  interests: "other",
+  hobbies: "other",
+  references: "other",
+  affiliations: "other",
+};
+
+const TITLE_WORDS =
+  /\b(engineer|developer|programmer|architect|manager|director|lead|head|chief|officer|president|vp|analyst|scientist|researcher|designer|consultant|specialist|coordinator|administrator|assistant|associate|intern|internship|trainee|apprentice|technician|representative|supervisor|executive|advisor|strategist|editor|writer|instructor|teacher|tutor|professor|fellow|founder|co-founder|owner|accountant|nurse|recruiter|tester|qa|sre|devops|staff|senior|junior|principal)\b/i;
+
+const COMPANY_WORDS =
+  /\b(inc|llc|ltd|llp|corp|corporation|company|co|group|holdings|technologies|technology|labs|solutions|systems|partners|agency|studios?|bank|gmbh|plc|ag|university|college|hospital|foundation)\b\.?/i;
+
+const INSTITUTION_WORDS =
+  /\b(university|college|institute|school|academy|polytechnic|conservatory|universidad|universit[éy])\b/i;
+
+const DEGREE_WORDS =
+  /\b(bachelor|master|associate|doctor|doctorate|diploma|high school|ged)\b/i;
+// Case-sensitive so "as" and "ma" in prose are not degrees
+const DEGREE_ABBREVIATIONS =
+  /(?:^|[\s(,])(Ph\.?\s?D|MBA|M\.?Eng|B\.?Eng|B\.?Tech|M\.?Tech|B\.?Sc?|M\.?Sc?|B\.?A|M\.?A|A\.?A\.?S?|A\.?S)\.?(?=[\s,;:)]|$)/;
+
+const HONORS_PATTERN =
+  /\b((?:summa |magna )?cum laude|dean'?s list|with (?:high |highest )?honou?rs|first class honou?rs|valedictorian|salutatorian)\b/i;
+
+const SPOKEN_LANGUAGES = new Set([
+  "english",
+  "spanish",
+  "french",
+  "german",
+  "italian",
+  "portuguese",
+  "mandarin",
+  "chinese",
+  "cantonese",
+  "japanese",
+  "korean",
+  "hindi",
+  "urdu",
+  "bengali",
+  "punjabi",
+  "arabic",
+  "russian",
+  "polish",
+  "dutch",
+  "swedish",
+  "turkish",
+  "vietnamese",
+  "tagalog",
+  "greek",
+  "hebrew",
+  "persian",
+  "farsi",
+  "swahili",
+  "ukrainian",
+  "thai",
+  "indonesian",
+  "asl",
+  "american sign language",
+]);
+
+const SOFT_SKILLS =
+  /^(communication|leadership|teamwork|team work|collaboration|problem[- ]solving|critical thinking|time management|mentoring|coaching|public speaking|presentation|negotiation|adaptability|attention to detail|organization|creativity|conflict resolution|stakeholder management|customer service|written communication|verbal communication)( skills)?$/i;
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  sept: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+const MONTH_NAME =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+// "Jan 2020", "January, 2020", "01/2020", "2020-01", "2020"
+const DATE_TOKEN = `(?:${MONTH_NAME}\\.?,?\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4}-\\d{2}|(?:19|20)\\d{2})`;
+const CURRENT_TOKEN = "(?:present|current|now|today|ongoing)";
+const DATE_RANGE = new RegExp(
+  `(${DATE_TOKEN})\\s*(?:-|–|—|to|until|through)\\s*(${DATE_TOKEN}|${CURRENT_TOKEN})`,
+  "i"
+);
+const SINGLE_DATE = new RegExp(`(${DATE_TOKEN})`, "i");
+
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const PHONE = /(?:\+?\d{1,2}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+// Bare domains only for known hosts, so "ASP.NET" and "Node.js" stay skills
+const URL_PATTERN =
+  /\bhttps?:\/\/[^\s|,)]+|\b(?:www\.)?(?:github\.com|gitlab\.com|bitbucket\.org|linkedin\.com|[\w-]+\.(?:github\.io|vercel\.app|netlify\.app))(?:\/[^\s|,)]*)?|\bwww\.[\w.-]+\.[a-z]{2,}(?:\/[^\s|,)]*)?/i;
+const CITY_STATE =
+  /\b([A-Z][A-Za-z.'-]*(?: [A-Z][A-Za-z.'-]*){0,3}),\s*([A-Z]{2})\b/;
+const REMOTE = /\bremote\b/i;
+
+const BULLET = /^(?:[•*·‣○■□➢➤►▸-]|–|\d{1,2}[.)])\s+/;
+
+/** Field separators inside a heading line: "Engineer | Acme", "Acme — Engineer" */
+const SEPARATORS = /\s+[|–—-]\s+|\s*\|\s*|\s+@\s+|\t/;
+
+const MAX_SUMMARY_CHARS = 1000;
+const MAX_DESCRIPTION_CHARS = 4000;
+const MAX_SKILL_WORDS = 5;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function clean(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value
+    .replace(/\s+/g, " ")
+    .replace(/^[\s,;:|–—-]+|[\s,;:|–—-]+$/g, "")
+    .trim();
+  return trimmed || null;
+}
+
+function normalizeHeading(line: string): string {
+  return line
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function headingTarget(line: string): HeadingTarget | null {
+  if (line.length > 45 || BULLET.test(line)) return null;
+  return SECTION_HEADINGS[normalizeHeading(line)] ?? null;
+}
+
+function isBullet(line: string): boolean {
+  return BULLET.test(line);
+}
+
+function stripBullet(line: string): string {
+  return line.replace(BULLET, "").trim();
+}
+
+/** Prose rather than a heading line: long, or a full sentence */
+function isSentence(line: string): boolean {
+  const words = line.split(" ").length;
+  return words >= 12 || (words >= 6 && /[a-z][.!]$/.test(line));
+}
+
+function isDegree(text: string): boolean {
+  return DEGREE_WORDS.test(text) || DEGREE_ABBREVIATIONS.test(text);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+interface ParsedDate {
+  date: string;
+  /** Only the year was given; the month is a guess */
+  yearOnly: boolean;
+}
+
+/** "Jan 2020" / "01/2020" / "2020-01" / "2020" → YYYY-MM-01 */
+export function parseResumeDate(token: string): ParsedDate | null {
+  const value = token.trim().toLowerCase().replace(/[.,]/g, " ");
+  let match = value.match(/^([a-z]+)\s+(\d{4})$/);
+  if (match) {
+    const month =
+      MONTHS[match[1].slice(0, match[1].startsWith("sept") ? 4 : 3)];
+    if (month) return { date: `${match[2]}-${pad(month)}-01`, yearOnly: false };
+    return null;
+  }
+  match = value.match(/^(\d{1,2})\/(\d{4})$/) ?? null;
+  if (match && Number(match[1]) >= 1 && Number(match[1]) <= 12) {
+    return { date: `${match[2]}-${pad(Number(match[1]))}-01`, yearOnly: false };
+  }
+  match = value.match(/^(\d{4})-(\d{2})$/);
+  if (match && Number(match[2]) >= 1 && Number(match[2]) <= 12) {
+    return { date: `${match[1]}-${match[2]}-01`, yearOnly: false };
+  }
+  match = value.match(/^(\d{4})$/);
+  if (match) return { date: `${match[1]}-01-01`, yearOnly: true };
+  return null;
+}
+
+export interface ParsedDateRange {
+  start: ParsedDate | null;
+  end: ParsedDate | null;
+  /** The range ends with "Present" */
+  current: boolean;
+  /** Text that was matched, to remove from the line */
+  match: string;
+}
+
+/** First date range ("Jan 2020 – Present") or single date in a line */
+export function findDateRange(line: string): ParsedDateRange | null {
+  const range = line.match(DATE_RANGE);
+  if (range) {
+    const current = new RegExp(`^${CURRENT_TOKEN}$`, "i").test(range[2].trim());
+    return {
+      start: parseResumeDate(range[1]),
+      end: current ? null : parseResumeDate(range[2]),
+      current,
+      match: range[0],
+    };
+  }
+  const single = line.match(SINGLE_DATE);
+  if (single) {
+    return {
+      start: null,
+      end: parseResumeDate(single[1]),
+      current: false,
+      match: single[0],
+    };
+  }
+  return null;
+}
+
+function removeText(line: string, text: string | null | undefined): string {
+  if (!text) return line;
+  return line.replace(text, " ").replace(/\(\s*\)/g, " ");
+}
+
+/** Split on commas and semicolons outside parentheses */
+function splitList(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of text) {
+    if (char === "(") depth++;
+    if (char === ")") depth = Math.max(0, depth - 1);
+    if (depth === 0 && /[,;|•]/.test(char)) {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items
+    .map((item) => clean(item))
+    .filter((item): item is string => !!item);
+}
+
+function entry<T>(
+  data: T,
+  ambiguous: string[],
+  keyFields: number,
+  lines: string[]
+): ParsedEntry<T> {
+  const unique = [...new Set(ambiguous)];
+  return {
+    data,
+    confidence:
+      Math.round(
+        Math.max(0, 1 - unique.length / Math.max(keyFields, 1)) * 100
+      ) / 100,
+    ambiguous: unique,
+    source: lines.join("\n"),
+  };
+}
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+interface SectionBlock {
+  target: HeadingTarget;
+  heading: string;
+  lines: string[];
+}
+
+function splitSections(lines: string[]): {
+  header: string[];
+  blocks: SectionBlock[];
+} {
+  const header: string[] = [];
+  const blocks: SectionBlock[] = [];
+  let current: SectionBlock | null = null;
+
+  for (const line of lines) {
+    const target = headingTarget(line);
+    if (target) {
+      current = { target, heading: line, lines: [] };
+      blocks.push(current);
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      header.push(line);
+    }
+  }
+  return { header, blocks };
+}
+
+/**
+ * Group section lines into entries: heading lines (title, company, dates)
+ * followed by description lines (bullets or prose). A heading line after a
+ * description, or a second date range, starts the next entry.
+ */
+function splitEntries(
+  lines: string[]
+): Array<{ heading: string[]; body: string[] }> {
+  const entries: Array<{ heading: string[]; body: string[] }> = [];
+  let current: { heading: string[]; body: string[]; dated: boolean } | null =
+    null;
+
+  for (const line of lines) {
+    if (!line) {
+      // A blank line closes an entry that already has a description
+      if (current?.body.length) current = null;
+      continue;
+    }
+    const dated = DATE_RANGE.test(line) || SINGLE_DATE.test(line);
+    const linkOnly = line.replace(URL_PATTERN, "").trim() === "";
+    const description =
+      isBullet(line) ||
+      linkOnly ||
+      (!!current?.heading.length && isSentence(line));
+
+    if (description) {
+      if (!current) {
+        current = { heading: [], body: [], dated: false };
+        entries.push(current);
+      }
+      current.body.push(stripBullet(line));
+      continue;
+    }
+
+    if (!current || current.body.length > 0 || (dated && current.dated)) {
+      current = { heading: [], body: [], dated: false };
+      entries.push(current);
+    }
+    current.heading.push(line);
+    current.dated ||= dated;
+  }
+  return entries;
+}
+
+/** Heading lines with the date range and location taken out, split into fields */
+function headingSegments(heading: string[]): {
+  segments: string[];
+  dates: ParsedDateRange | null;
+  location: string | null;
+  url: string | null;
+} {
+  let dates: ParsedDateRange | null = null;
+  let location: string | null = null;
+  let url: string | null = null;
+  const segments: string[] = [];
+
+  for (let line of heading) {
+    if (!dates) {
+      dates = findDateRange(line);
+      line = removeText(line, dates?.match);
+    }
+    const foundUrl = line.match(URL_PATTERN)?.[0];
+    if (foundUrl && !url) {
+      url = foundUrl;
+      line = removeText(line, foundUrl);
+    }
+    const cityState = line.match(CITY_STATE);
+    if (cityState && !location) {
+      location = `${cityState[1]}, ${cityState[2]}`;
+      line = removeText(line, cityState[0]);
+    } else if (REMOTE.test(line) && !location) {
+      location = "Remote";
+      line = line.replace(/\(?\bremote\b\)?/i, " ");
+    }
+    for (const part of line.split(SEPARATORS)) {
+      // "Engineer at Acme" and "Engineer, Acme" are two fields
+      const atSplit = part.split(/\s+at\s+/);
+      const pieces =
+        atSplit.length === 2 && TITLE_WORDS.test(atSplit[0])
+          ? atSplit
+          : part.includes(", ")
+            ? part.split(", ")
+            : [part];
+      for (const piece of pieces) {
+        const value = clean(piece.replace(/[()]/g, " "));
+        if (value) segments.push(value);
+      }
+    }
+  }
+  return { segments, dates, location, url };
+}
+
+function dateFields(dates: ParsedDateRange | null): {
+  start: string | null;
+  end: string | null;
+  current: boolean;
+  ambiguous: string[];
+} {
+  const ambiguous: string[] = [];
+  if (!dates?.start) ambiguous.push("start_date");
+  else if (dates.start.yearOnly) ambiguous.push("start_date");
+  if (dates?.end?.yearOnly) ambiguous.push("end_date");
+  return {
+    start: dates?.start?.date ?? null,
+    end: dates?.end?.date ?? null,
+    current: !!dates?.current,
+    ambiguous,
+  };
+}
+
+// ============================================================================
+// Header (contact details)
+// ============================================================================
+
+function titleCase(text: string): string {
+  return text === text.toUpperCase()
+    ? text
+        .toLowerCase()
+        .replace(/(^|[\s'-])(\p{L})/gu, (_, p, c) => p + c.toUpperCase())
+    : text;
+}
+
+function parseHeader(header: string[]): ParsedProfileFields {
+  const text = header.join("\n");
+  const email = text.match(EMAIL)?.[0] ?? null;
+  const phone = text.match(PHONE)?.[0]?.trim() ?? null;
+  const cityState = text.match(CITY_STATE);
+
+  // "Jane Doe | Engineer | jane@example.com" puts several fields on one line
+  const plain = header
+    .flatMap((line) => line.split(SEPARATORS))
+    .map((segment) => segment.trim())
+    .filter(
+      (segment) =>
+        segment &&
+        !EMAIL.test(segment) &&
+        !PHONE.test(segment) &&
+        !URL_PATTERN.test(segment) &&
+        !CITY_STATE.test(segment) &&
+        !/\d/.test(segment)
+    );
+  // The name is the first short run of letters; a title may follow it
+  const nameIndex = plain.findIndex((segment) =>
+    /^[\p{L}][\p{L}.'’-]*(?: [\p{L}][\p{L}.'’-]*){1,4}$/u.test(segment)
+  );
+  const fullName = nameIndex >= 0 ? titleCase(plain[nameIndex]) : null;
+  const title =
+    nameIndex >= 0
+      ? (plain.slice(nameIndex + 1).find((s) => s.split(" ").length <= 8) ??
+        null)
+      : null;
+  const nameParts = fullName?.split(" ") ?? [];
+
+  return {
+    full_name: fullName,
+    first_name: nameParts[0] ?? null,
+    last_name: nameParts.length > 1 ? nameParts.slice(1).join(" ") : null,
+    email,
+    phone,
+    city: cityState?.[1] ?? null,
+    state: cityState?.[2] ?? null,
+    professional_title: clean(title),
+    summary: null,
+  };
+}
+
+// ============================================================================
+// Employment
+// ============================================================================
+
+/** Which of two heading fields is the job title */
+function splitTitleAndCompany(segments: string[]): {
+  title: string | null;
+  company: string | null;
+  sure: boolean;
+} {
+  const [first, second] = segments;
+  if (!first) return { title: null, company: null, sure: false };
+  const isTitle = (s: string) => TITLE_WORDS.test(s) && !COMPANY_WORDS.test(s);
+  const isCompany = (s: string) =>
+    COMPANY_WORDS.test(s) && !TITLE_WORDS.test(s);
+
+  if (!second) {
+    return isTitle(first)
+      ? { title: first, company: null, sure: false }
+      : { title: null, company: first, sure: false };
+  }
+  if (isTitle(first) || isCompany(second)) {
+    return { title: first, company: second, sure: true };
+  }
+  if (isTitle(second) || isCompany(first)) {
+    return { title: second, company: first, sure: true };
+  }
+  // Most resumes lead with the title
+  return { title: first, company: second, sure: false };
+}
+
+function parseEmployment(lines: string[]): ParsedEntry<ParsedEmployment>[] {
+  return splitEntries(lines)
+    .filter((e) => e.heading.length > 0)
+    .map(({ heading, body }) => {
+      const { segments, dates, location } = headingSegments(heading);
+      const { title, company, sure } = splitTitleAndCompany(segments);
+      const when = dateFields(dates);
+      const ambiguous = [...when.ambiguous];
+      if (!title || !sure) ambiguous.push("job_title");
+      if (!company || !sure) ambiguous.push("company_name");
+      // Extra heading fields (team, employment type) are kept in the description
+      const extra = segments.slice(2);
+      const description = [...extra, ...body]
+        .join("\n")
+        .slice(0, MAX_DESCRIPTION_CHARS);
+
+      return entry<ParsedEmployment>(
+        {
+          job_title: title,
+          company_name: company,
+          location,
+          start_date: when.start,
+          end_date: when.current ? null : when.end,
+          current_position: when.current,
+          job_description: description || null,
+        },
+        ambiguous,
+        3,
+        [...heading, ...body]
+      );
+    });
+}
+
+// ============================================================================
+// Education
+// ============================================================================
+
+/** education_level for a degree ("B.S." → bachelor) */
+export function educationLevel(degree: string | null): EducationLevel | null {
+  if (!degree) return null;
+  const d = degree.toLowerCase().replace(/[.\s]/g, "");
+  if (/^(phd|doctor|doctorate)/.test(d)) return "phd";
+  if (/^(master|ms|msc|ma|mba|meng|mtech)/.test(d)) return "master";
+  if (/^(bachelor|bs|bsc|ba|beng|btech)/.test(d)) return "bachelor";
+  if (/^(associate|aa|aas|as)/.test(d)) return "associate";
+  if (/^(highschool|ged)/.test(d)) return "high_school";
+  return "other";
+}
+
+/** "B.S. in Computer Science" / "Bachelor of Science, Economics" → degree + field */
+function splitDegree(text: string): {
+  degree: string | null;
+  field: string | null;
+} {
+  const inMatch = text.match(/^(.+?)\s+(?:in|of)\s+(.+)$/i);
+  if (inMatch && !/^(?:bachelor|master|doctor)s?$/i.test(inMatch[1].trim())) {
+    return { degree: clean(inMatch[1]), field: clean(inMatch[2]) };
+  }
+  // "Bachelor of Science in X" keeps "of Science" in the degree
+  const ofIn = text.match(
+    /^((?:bachelor|master|doctor)(?:'?s)?\s+of\s+[\w ]+?)\s+in\s+(.+)$/i
+  );
+  if (ofIn) return { degree: clean(ofIn[1]), field: clean(ofIn[2]) };
+  const comma = text.match(/^([^,]+),\s*(.+)$/);
+  if (comma && isDegree(comma[1])) {
+    return { degree: clean(comma[1]), field: clean(comma[2]) };
+  }
+  return { degree: clean(text), field: null };
+}
+
+function parseEducation(lines: string[]): ParsedEntry<ParsedEducation>[] {
+  // Education entries often have no bullets: a new institution line starts one
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let hasInstitution = false;
+  for (const line of lines) {
+    if (!line) continue;
+    const institution = INSTITUTION_WORDS.test(line) && !isBullet(line);
+    if (institution && hasInstitution) {
+      groups.push(current);
+      current = [];
+      hasInstitution = false;
+    }
+    current.push(line);
+    hasInstitution ||= institution;
+  }
+  if (current.length) groups.push(current);
+
+  return groups.map((group) => {
+    const headingLines = group.filter((l) => !isBullet(l));
+    const body = group.filter(isBullet).map(stripBullet);
+    const text = group.join("\n");
+
+    const gpaMatch = text.match(
+      /\bGPA:?\s*([0-4](?:\.\d{1,2})?)(?:\s*\/\s*4(?:\.0+)?)?/i
+    );
+    const honors = text.match(HONORS_PATTERN)?.[1] ?? null;
+    const cleanedHeading = headingLines.map((l) =>
+      removeText(removeText(l, gpaMatch?.[0]), honors)
+    );
+    const { segments, dates } = headingSegments(cleanedHeading);
+
+    let institution: string | null = null;
+    let degreeText: string | null = null;
+    const rest: string[] = [];
+    for (const segment of segments) {
+      if (
+        !institution &&
+        INSTITUTION_WORDS.test(segment) &&
+        !isDegree(segment)
+      ) {
+        institution = segment;
+      } else if (!degreeText && isDegree(segment)) {
+        degreeText = segment;
+      } else {
+        rest.push(segment);
+      }
+    }
+    // "B.S., Computer Science" was split on the comma: rejoin the field
+    let { degree, field } = degreeText
+      ? splitDegree(degreeText)
+      : { degree: null, field: null };
+    if (degree && !field && rest.length && !INSTITUTION_WORDS.test(rest[0])) {
+      field = rest.shift() ?? null;
+    }
+
+    const expected = /\bexpected\b|\banticipated\b/i.test(text);
+    const start = dates?.start ?? null;
+    const end = dates?.end ?? null;
+    const today = new Date().toISOString().slice(0, 10);
+    const ambiguous: string[] = [];
+    if (!institution) ambiguous.push("institution_name");
+    if (!degree && !field) ambiguous.push("degree_type");
+    if (!start || start.yearOnly) ambiguous.push("start_date");
+    if (end?.yearOnly) ambiguous.push("graduation_date");
+
+    const gpa = gpaMatch ? Number(gpaMatch[1]) : null;
+    return entry<ParsedEducation>(
+      {
+        institution_name: institution,
+        degree_type: degree,
+        field_of_study: field,
+        education_level: educationLevel(degree),
+        start_date: start?.date ?? null,
+        graduation_date: end?.date ?? null,
+        currently_enrolled:
+          !!dates?.current || expected || (!!end && end.date > today),
+        gpa: gpa !== null && gpa <= 4 ? gpa : null,
+        honors,
+      },
+      ambiguous,
+      3,
+      [...headingLines, ...body]
+    );
+  });
+}
+
+// ============================================================================
+// Skills
+// ============================================================================
+
+function skillCategory(
+  label: string | null,
+  item: string,
+  languages: boolean
+): string {
+  if (languages) return "Language";
+  const lower = item.toLowerCase();
+  if (!label && SPOKEN_LANGUAGES.has(lower)) return "Language";
+  if ((label && /soft|interpersonal/i.test(label)) || SOFT_SKILLS.test(lower)) {
+    return "Soft";
+  }
+  return "Technical";
+}
+
+function parseSkills(
+  lines: string[],
+  languagesSection: boolean
+): ParsedEntry<ParsedSkill>[] {
+  const seen = new Set<string>();
+  const skills: ParsedEntry<ParsedSkill>[] = [];
+
+  for (const raw of lines) {
+    const line = stripBullet(raw);
+    if (!line) continue;
+    // "Languages: Python, Go" → label + items
+    const labelled = line.match(/^([A-Za-z][A-Za-z &/-]{1,40}):\s*(.+)$/);
+    const label = labelled ? labelled[1] : null;
+    const items = splitList(labelled ? labelled[2] : line);
+    // "Programming languages" lists code, not spoken languages
+    const spokenLabel = !!label && /^(spoken )?languages?$/i.test(label.trim());
+
+    for (const item of items) {
+      const name = item.replace(
+        /\s*\((?:native|fluent|conversational|basic|professional)[^)]*\)$/i,
+        ""
+      );
+      const key = name.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const tooLong = name.split(" ").length > MAX_SKILL_WORDS;
+      const languages =
+        languagesSection ||
+        (spokenLabel &&
+          items.every((i) =>
+            SPOKEN_LANGUAGES.has(i.toLowerCase().replace(/\s*\(.*\)$/, ""))
+          ));
+      skills.push(
+        entry<ParsedSkill>(
+          {
+            skill_name: name,
+            skill_category: skillCategory(label, name, languages),
+          },
+          tooLong ? ["skill_name"] : [],
+          1,
+          [raw]
+        )
+      );
+    }
+  }
+  return skills;
+}
+
+// ============================================================================
+// Projects
+// ============================================================================
+
+const TECH_LINE =
+  /^(?:tech(?:nologies|nology| stack)?|stack|tools|built with)\s*:\s*(.+)$/i;
+
+function parseProjects(lines: string[]): ParsedEntry<ParsedProject>[] {
+  return splitEntries(lines)
+    .filter((e) => e.heading.length > 0)
+    .map(({ heading, body }) => {
+      const techLines = [...heading, ...body]
+        .map((line) => line.match(TECH_LINE))
+        .filter((match): match is RegExpMatchArray => !!match);
+      const tech = techLines.flatMap((match) => splitList(match[1]));
+      // Link-only lines become project_url
+      const description = body.filter(
+        (line) =>
+          !TECH_LINE.test(line) && line.replace(URL_PATTERN, "").trim() !== ""
+      );
+      const { segments, dates, url } = headingSegments(
+        heading.filter((line) => !TECH_LINE.test(line))
+      );
+
+      const [name, ...others] = segments;
+      let role: string | null = null;
+      for (const other of others) {
+        if (!role && TITLE_WORDS.test(other)) role = other;
+        // "Project | React, Node" lists the tech inline; longer text describes it
+        else if (!techLines.length && other.split(" ").length <= 3)
+          tech.push(other);
+        else description.unshift(other);
+      }
+      const when = dateFields(dates);
+      const ambiguous = [...when.ambiguous];
+      if (!name) ambiguous.push("proj_name");
+
+      return entry<ParsedProject>(
+        {
+          proj_name: name ?? null,
+          role,
+          proj_description:
+            description.join("\n").slice(0, MAX_DESCRIPTION_CHARS) || null,
+          start_date: when.start,
+          end_date: when.current ? null : when.end,
+          tech_and_skills: [...new Set(tech)].slice(0, 30),
+          project_url: url ?? body.join(" ").match(URL_PATTERN)?.[0] ?? null,
+        },
+        ambiguous,
+        2,
+        [...heading, ...body]
+      );
+    });
+}
+
+// ============================================================================
+// Certifications
+// ============================================================================
+
+function parseCertifications(
+  lines: string[]
+): ParsedEntry<ParsedCertification>[] {
+  return lines
+    .map(stripBullet)
+    .filter(Boolean)
+    .map((line) => {
+      let rest = line;
+      let expiration: string | null = null;
+      const expires = rest.match(
+        new RegExp(
+          `\\b(?:expires?|expiration|exp\\.?|valid (?:until|through))\\s*:?\\s*(${DATE_TOKEN})`,
+          "i"
+        )
+      );
+      if (expires) {
+        expiration = parseResumeDate(expires[1])?.date ?? null;
+        rest = removeText(rest, expires[0]);
+      }
+      const dates = findDateRange(rest);
+      rest = removeText(rest, dates?.match);
+      const earned = dates?.start ?? dates?.end ?? null;
+
+      const issuedBy = rest.match(/^(.+?)\s+(?:by|from)\s+(.+)$/i);
+      const parts = issuedBy
+        ? [issuedBy[1], issuedBy[2]]
+        : rest.split(/\s+[|–—-]\s+|,\s+|\s*\(\s*|\s*\)\s*/);
+      const [name, issuer] = parts
+        .map((p) => clean(p))
+        .filter(Boolean) as string[];
+
+      const ambiguous: string[] = [];
+      if (!name) ambiguous.push("name");
+      // "Name – Level, Issuer" leaves more than two parts to choose from
+      if (parts.length > 2) ambiguous.push("issuing_org");
+      if (earned?.yearOnly) ambiguous.push("date_earned");
+
+      return entry<ParsedCertification>(
+        {
+          name: name ?? null,
+          issuing_org: issuer ?? null,
+          date_earned: earned?.date ?? null,
+          expiration_date: expiration,
+        },
+        ambiguous,
+        2,
+        [line]
+      );
+    })
+    .filter((c) => !!c.data.name);
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/** Parse one section's lines ("languages" is a skills section of spoken languages) */
+export function parseResumeSection(
+  section: ResumeSection | "languages",
+  lines: string[]
+): Pick<ParsedResume, ResumeSection> {
+  const result: Pick<ParsedResume, ResumeSection> = {
+    employment: [],
+    education: [],
+    skills: [],
+    projects: [],
+    certifications: [],
+  };
+  switch (section) {
+    case "employment":
+      result.employment = parseEmployment(lines);
+      break;
+    case "education":
+      result.education = parseEducation(lines);
+      break;
+    case "skills":
+    case "languages":
+      result.skills = parseSkills(lines, section === "languages");
+      break;
+    case "projects":
+      result.projects = parseProjects(lines);
+      break;
+    case "certifications":
+      result.certifications = parseCertifications(lines);
+      break;
+  }
+  return result;
+}
+
+/** Split normalized resume text into profile fields and section entries */
+export function parseResumeText(text: string): ParsedResume {
+  const lines = text.split("\n").map((line) => line.trim());
+  const { header, blocks } = splitSections(lines);
+
+  const parsed: ParsedResume = {
+    profile: parseHeader(header),
+    employment: [],
+    education: [],
+    skills: [],
+    projects: [],
+    certifications: [],
+    unassigned: [],
+  };
+
+  for (const block of blocks) {
+    if (block.target === "summary") {
+      const summary = block.lines.filter(Boolean).map(stripBullet).join(" ");
+      parsed.profile.summary ??= clean(summary.slice(0, MAX_SUMMARY_CHARS));
+      continue;
+    }
+    if (block.target === "other") {
+      const body = block.lines.filter(Boolean).join("\n");
+      if (body) parsed.unassigned.push(`${block.heading}\n${body}`);
+      continue;
+    }
+    const sections = parseResumeSection(block.target, block.lines);
+    parsed.employment.push(...sections.employment);
+    parsed.education.push(...sections.education);
+    parsed.projects.push(...sections.projects);
+    parsed.certifications.push(...sections.certifications);
+    // Skills listed under several headings are kept once
+    for (const skill of sections.skills) {
+      const name = skill.data.skill_name.toLowerCase();
+      if (
+        !parsed.skills.some((s) => s.data.skill_name.toLowerCase() === name)
+      ) {
+        parsed.skills.push(skill);
+      }
+    }
+  }
+
+  // Without any headings the whole text is left for the AI to assign
+  if (!blocks.length) {
+    const body = header.filter(Boolean).join("\n");
+    if (body) parsed.unassigned.push(body);
+  }
+  return parsed;
+}
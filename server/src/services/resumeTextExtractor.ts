@@ -0,0 +1,157 @@
+/**
+ * RESUME TEXT EXTRACTOR
+ *
+ * Plain text from an uploaded resume file, for the resume import
+ * (services/resumeImportService).
+ *
+ * Formats:
+ * - pdf: text layer via pdf-parse (pdf.js); pages joined with blank lines.
+ *   Scanned PDFs have no text layer and are rejected rather than OCR'd.
+ * - docx: document body via mammoth; paragraphs become lines
+ * - txt: decoded as UTF-8 (handy for pasted resumes and tests)
+ *
+ * The format is detected from the file's magic bytes, falling back to the
+ * extension, so a misnamed file still reads.
+ *
+ * Errors (ApiError):
+ * - 413 file_too_large: over MAX_RESUME_FILE_BYTES
+ * - 415 unsupported_file_type: not PDF, DOCX or text (.doc included)
+ * - 422 unreadable_file: corrupt, encrypted or no extractable text
+ */
+
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+import { ApiError } from "../../utils/errors.js";
+
+export type ResumeFileFormat = "pdf" | "docx" | "txt";
+
+export interface ExtractedResumeText {
+  format: ResumeFileFormat;
+  /** Normalized text: \n line breaks, no trailing spaces, at most one blank line in a row */
+  text: string;
+  /** PDF page count (1 for other formats) */
+  pages: number;
+}
+
+export const MAX_RESUME_FILE_BYTES = 5 * 1024 * 1024;
+
+/** Less text than this is treated as "nothing to import" (scans, image-only exports) */
+const MIN_TEXT_CHARS = 40;
+
+function detectFormat(buffer: Buffer, fileName: string): ResumeFileFormat {
+  if (buffer.subarray(0, 5).toString("latin1") === "%PDF-") return "pdf";
+
+  const dot = fileName.lastIndexOf(".");
+  const extension = dot === -1 ? "" : fileName.slice(dot + 1).toLowerCase();
+  // DOCX is a zip; .doc (OLE) and other zips are not supported
+  if (buffer.readUInt32LE(0) === 0x04034b50) {
+    if (extension === "docx" || !extension) return "docx";
+  } else if (extension === "txt" || extension === "md") {
+    return "txt";
+  }
+
+  throw new ApiError(
+    415,
+    "Upload a PDF or Word (.docx) resume",
+    "unsupported_file_type"
+  );
+}
+
+/** Collapse whitespace while keeping the line structure the parser relies on */
+export function normalizeResumeText(text: string): string {
+  return (
+    text
+      .replace(/\r\n?/g, "\n")
+      .replace(/[\u00a0\u2000-\u200b\u202f\u3000]/g, " ")
+      // Word's Symbol-font bullets come through as private-use characters
+      .replace(/[\u25aa\u25cf\u25e6\u2043\u2219\uf0a7\uf0b7]/g, "•")
+      .split("\n")
+      .map((line) => line.replace(/[ \t]+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+async function extractPdf(
+  buffer: Buffer
+): Promise<{ text: string; pages: number }> {
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const result = await parser.getText({ pageJoiner: "" });
+    return {
+      text: result.pages.map((page) => page.text).join("\n\n"),
+      pages: result.total,
+    };
+  } catch (e: any) {
+    const encrypted = e?.name === "PasswordException";
+    throw new ApiError(
+      422,
+      encrypted
+        ? "This PDF is password protected; remove the password and try again"
+        : "Could not read this PDF",
+      "unreadable_file"
+    );
+  } finally {
+    await parser.destroy().catch(() => undefined);
+  }
+}
+
+async function extractDocx(buffer: Buffer): Promise<string> {
+  try {
+    const result = await mammoth.extractRawText({ buffer });
+    // mammoth ends every paragraph with a blank line; empty paragraphs still
+    // leave one
+    return result.value.replace(/\n\n/g, "\n");
+  } catch {
+    throw new ApiError(
+      422,
+      "Could not read this Word document",
+      "unreadable_file"
+    );
+  }
+}
+
+/**
+ * Extract the text of a resume file.
+ * fileName is only used for format detection and messages.
+ */
+export async function extractResumeText(
+  buffer: Buffer,
+  fileName: string
+): Promise<ExtractedResumeText> {
+  if (buffer.length > MAX_RESUME_FILE_BYTES) {
+    throw new ApiError(
+      413,
+      `Resume files are limited to ${MAX_RESUME_FILE_BYTES / 1024 / 1024} MB`,
+      "file_too_large"
+    );
+  }
+  if (buffer.length < 4) {
+    throw new ApiError(422, "The file is empty", "unreadable_file");
+  }
+
+  const format = detectFormat(buffer, fileName);
+  let raw: string;
+  let pages = 1;
+  if (format === "pdf") {
+    ({ text: raw, pages } = await extractPdf(buffer));
+  } else if (format === "docx") {
+    raw = await extractDocx(buffer);
+  } else {
+    raw = buffer.toString("utf8");
+  }
+
+  const text = normalizeResumeText(raw);
+  if (text.replace(/\s/g, "").length < MIN_TEXT_CHARS) {
+    throw new ApiError(
+      422,
+      format === "pdf"
+        ? "No text found in this PDF. Scanned resumes are not supported; export it from your editor as PDF or DOCX instead"
+        : "No text found in this file",
+      "unreadable_file"
+    );
+  }
+
+  return { format, text, pages };
+}
@@ -0,0 +1,845 @@
+/**
+ * Saved Search Service
+ *
+ * Named job searches stored per user and the server-side evaluator behind
+ * /api/saved-searches.
+ *
+ * Flow:
+ * 1. Creating a search (or changing its criteria) records the jobs that
+ *    already match as the baseline; none of them count as new
+ * 2. Every SAVED_SEARCH_POLL_INTERVAL_MS the evaluator re-checks jobs that
+ *    changed since each search's last_evaluated_at: created, imported,
+ *    edited, or scored (a new document-match-score in analytics_cache).
+ *    Matching jobs are added to saved_search_matches, jobs that stopped
+ *    matching (or were archived) are removed
+ * 3. Matches newer than last_viewed_at are "new"; opening the search in the
+ *    app marks it viewed
+ * 4. Searches with a daily / weekly digest get a "N new jobs match"
+ *    notification when the period has passed and there are new matches
+ *
+ * Functions:
+ * - validateSearchInput / matchesCriteria: pure helpers
+ * - listSearches / createSearch / updateSearch / deleteSearch: data access
+ * - listMatches / markViewed: matches of one search and "seen" bookkeeping
+ * - runSavedSearchTick: evaluate changed jobs and send due digests
+ * - startSavedSearchScheduler / stopSavedSearchScheduler: polling loop
+ */
+
+import { ApiError } from "../../utils/errors.js";
+import {
+  legacyLogError as logError,
+  legacyLogInfo as logInfo,
+} from "../../utils/logger.js";
+import { scheduleSavedSearchDigest } from "./notificationService.js";
+
+// Helper to get supabase client with proper error handling
+async function getSupabaseAdmin() {
+  const { default: supabaseAdmin } = await import("./supabaseAdmin.js");
+  if (!supabaseAdmin) {
+    throw new ApiError(
+      503,
+      "Database not configured - server environment variables missing"
+    );
+  }
+  return supabaseAdmin;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RemoteType = "onsite" | "remote" | "hybrid";
+export type DigestFrequency = "off" | "daily" | "weekly";
+
+/** All set fields must match; empty criteria match every active job */
+export interface SavedSearchCriteria {
+  /** Keywords matched against title, company and description */
+  query?: string;
+  industry?: string;
+  /** City, state or zip */
+  location?: string;
+  remote_type?: RemoteType;
+  /** Top of the posted range must reach this; jobs without a salary fail */
+  salary_min?: number;
+  /** 0-100; unscored jobs fail until they are scored */
+  min_match_score?: number;
+}
+
+export interface SavedSearchRow {
+  id: string;
+  user_id: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  digest_frequency: DigestFrequency;
+  last_viewed_at: string;
+  last_evaluated_at: string;
+  last_digest_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  criteria: SavedSearchCriteria;
+  digest_frequency: DigestFrequency;
+}
+
+export interface SavedSearchSummary extends SavedSearchRow {
+  match_count: number;
+  new_count: number;
+}
+
+export interface SavedSearchMatch {
+  job: Record<string, any>;
+  matched_at: string;
+  is_new: boolean;
+}
+
+export interface SavedSearchTickResult {
+  searches: number;
+  matched: number;
+  removed: number;
+  digests: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const REMOTE_TYPES: RemoteType[] = ["onsite", "remote", "hybrid"];
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ["off", "daily", "weekly"];
+
+const DIGEST_PERIOD_MS: Record<Exclude<DigestFrequency, "off">, number> = {
+  daily: 86_400_000,
+  weekly: 7 * 86_400_000,
+};
+
+const JOB_FIELDS =
+  "id, user_id, job_title, company_name, job_description, industry, city_name, state_code, zipcode, remote_type, start_salary_range, end_salary_range, job_status, application_deadline, match_score, is_archived, created_at, updated_at";
+
+/** Changed jobs read per user and tick; the cursor catches up next tick */
+const CHANGED_JOBS_LIMIT = 500;
+/** Jobs checked when a search is created or its criteria change */
+const BASELINE_JOBS_LIMIT = 2000;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function bad(message: string): ApiError {
+  return new ApiError(400, message, "bad_request");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function optionalText(
+  criteria: Record<string, unknown>,
+  key: string,
+  maxLength: number
+): string | undefined {
+  const value = criteria[key];
+  if (value == null) return undefined;
+  if (typeof value !== "string") throw bad(`${key} must be a string`);
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw bad(`${key} must be at most ${maxLength} characters`);
+  }
+  return trimmed || undefined;
+}
+
+function optionalNumber(
+  criteria: Record<string, unknown>,
+  key: string,
+  min: number,
+  max: number
+): number | undefined {
+  const value = criteria[key];
+  if (value == null || value === "") return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw bad(`${key} must be a number`);
+  }
+  if (value < min || value > max) {
+    throw bad(`${key} must be between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function normalizeCriteria(raw: unknown): SavedSearchCriteria {
+  if (!isPlainObject(raw)) throw bad("criteria must be an object");
+  const criteria: SavedSearchCriteria = {
+    query: optionalText(raw, "query", 200),
+    industry: optionalText(raw, "industry", 100),
+    location: optionalText(raw, "location", 100),
+    salary_min: optionalNumber(raw, "salary_min", 0, 10_000_000),
+    min_match_score: optionalNumber(raw, "min_match_score", 0, 100),
+  };
+  if (raw.remote_type != null && raw.remote_type !== "") {
+    if (!REMOTE_TYPES.includes(raw.remote_type as RemoteType)) {
+      throw bad(`remote_type must be one of ${REMOTE_TYPES.join(", ")}`);
+    }
+    criteria.remote_type = raw.remote_type as RemoteType;
+  }
+  // Drop unset keys so stored criteria only hold active filters
+  for (const key of Object.keys(criteria) as (keyof SavedSearchCriteria)[]) {
+    if (criteria[key] === undefined) delete criteria[key];
+  }
+  return criteria;
+}
+
+/**
+ * Validate a create (or, with `partial`, update) payload. Unknown criteria
+ * keys are dropped; empty strings clear a filter.
+ */
+export function validateSearchInput(
+  body: unknown,
+  options: { partial?: boolean } = {}
+): Partial<SavedSearchInput> {
+  if (!isPlainObject(body)) throw bad("Request body must be an object");
+  const result: Partial<SavedSearchInput> = {};
+
+  if (body.name !== undefined || !options.partial) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      throw bad("name is required");
+    }
+    if (body.name.trim().length > 120) {
+      throw bad("name must be at most 120 characters");
+    }
+    result.name = body.name.trim();
+  }
+
+  if (body.criteria !== undefined || !options.partial) {
+    result.criteria = normalizeCriteria(body.criteria ?? {});
+  }
+
+  if (body.digest_frequency !== undefined) {
+    if (
+      !DIGEST_FREQUENCIES.includes(body.digest_frequency as DigestFrequency)
+    ) {
+      throw bad(
+        `digest_frequency must be one of ${DIGEST_FREQUENCIES.join(", ")}`
+      );
+    }
+    result.digest_frequency = body.digest_frequency as DigestFrequency;
+  } else if (!options.partial) {
+    result.digest_frequency = "off";
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function includesText(haystack: unknown[], needle: string): boolean {
+  return haystack
+    .map((part) => String(part ?? ""))
+    .join(" ")
+    .toLowerCase()
+    .includes(needle.toLowerCase());
+}
+
+/**
+ * Does a job satisfy the criteria? `matchScore` is the job's best known
+ * score (jobs.match_score, else the latest document match analysis).
+ * Archived jobs never match.
+ */
+export function matchesCriteria(
+  job: Record<string, any>,
+  criteria: SavedSearchCriteria,
+  matchScore: number | null = job.match_score ?? null
+): boolean {
+  if (job.is_archived) return false;
+
+  if (
+    criteria.query &&
+    !includesText(
+      [job.job_title, job.company_name, job.job_description],
+      criteria.query
+    )
+  ) {
+    return false;
+  }
+  if (criteria.industry && !includesText([job.industry], criteria.industry)) {
+    return false;
+  }
+  if (
+    criteria.location &&
+    !includesText(
+      [job.city_name, job.state_code, job.zipcode],
+      criteria.location
+    )
+  ) {
+    return false;
+  }
+  if (criteria.remote_type && job.remote_type !== criteria.remote_type) {
+    return false;
+  }
+  if (criteria.salary_min != null) {
+    const top = job.end_salary_range ?? job.start_salary_range;
+    if (top == null || Number(top) < criteria.salary_min) return false;
+  }
+  if (criteria.min_match_score != null) {
+    if (matchScore == null || matchScore < criteria.min_match_score) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** Latest document-match-score per job, for jobs without jobs.match_score */
+async function loadMatchScores(
+  userId: string,
+  jobIds: number[]
+): Promise<Map<number, number>> {
+  const scores = new Map<number, number>();
+  if (jobIds.length === 0) return scores;
+
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("analytics_cache")
+    .select("job_id, match_score, created_at")
+    .eq("user_id", userId)
+    .eq("analytics_type", "document-match-score")
+    .in("job_id", jobIds)
+    .not("match_score", "is", null)
+    .order("created_at", { ascending: false });
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  for (const row of (data ?? []) as Array<Record<string, any>>) {
+    if (!scores.has(row.job_id)) scores.set(row.job_id, row.match_score);
+  }
+  return scores;
+}
+
+function scoreOf(job: Record<string, any>, scores: Map<number, number>) {
+  return job.match_score ?? scores.get(job.id) ?? null;
+}
+
+// ============================================================================
+// Searches CRUD
+// ============================================================================
+
+export async function listSearches(
+  userId: string
+): Promise<SavedSearchSummary[]> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw new ApiError(500, error.message, "db_error");
+  const searches = (data ?? []) as SavedSearchRow[];
+  if (searches.length === 0) return [];
+
+  const { data: matches, error: matchesError } = await supabase
+    .from("saved_search_matches")
+    .select("search_id, matched_at")
+    .eq("user_id", userId);
+  if (matchesError) throw new ApiError(500, matchesError.message, "db_error");
+
+  const counts = new Map<string, { total: number; fresh: number }>();
+  const viewedAt = new Map(
+    searches.map((s) => [s.id, new Date(s.last_viewed_at).getTime()])
+  );
+  for (const match of (matches ?? []) as Array<Record<string, any>>) {
+    const entry = counts.get(match.search_id) ?? { total: 0, fresh: 0 };
+    entry.total++;
+    if (
+      new Date(match.matched_at).getTime() >
+      (viewedAt.get(match.search_id) ?? 0)
+    ) {
+      entry.fresh++;
+    }
+    counts.set(match.search_id, entry);
+  }
+
+  return searches.map((search) => ({
+    ...search,
+    match_count: counts.get(search.id)?.total ?? 0,
+    new_count: counts.get(search.id)?.fresh ?? 0,
+  }));
+}
+
+async function getSearch(
+  userId: string,
+  searchId: string
+): Promise<SavedSearchRow> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("id", searchId)
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data) throw new ApiError(404, "Saved search not found", "not_found");
+  return data as SavedSearchRow;
+}
+
+/**
+ * Record every job that matches right now, stamped `now`, so none of them
+ * count as new (matched_at must be after last_viewed_at).
+ */
+async function recordBaseline(
+  search: SavedSearchRow,
+  now: Date
+): Promise<number> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("jobs")
+    .select(JOB_FIELDS)
+    .eq("user_id", search.user_id)
+    .eq("is_archived", false)
+    .order("created_at", { ascending: false })
+    .limit(BASELINE_JOBS_LIMIT);
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  const jobs = (data ?? []) as Array<Record<string, any>>;
+  const scores =
+    search.criteria.min_match_score != null
+      ? await loadMatchScores(
+          search.user_id,
+          jobs.filter((j) => j.match_score == null).map((j) => j.id)
+        )
+      : new Map<number, number>();
+
+  const rows = jobs
+    .filter((job) =>
+      matchesCriteria(job, search.criteria, scoreOf(job, scores))
+    )
+    .map((job) => ({
+      search_id: search.id,
+      job_id: job.id,
+      user_id: search.user_id,
+      matched_at: now.toISOString(),
+    }));
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase
+      .from("saved_search_matches")
+      .upsert(rows, { onConflict: "search_id,job_id", ignoreDuplicates: true });
+    if (insertError) throw new ApiError(500, insertError.message, "db_error");
+  }
+  return rows.length;
+}
+
+export async function createSearch(
+  userId: string,
+  input: SavedSearchInput,
+  now = new Date()
+): Promise<SavedSearchSummary> {
+  const supabase = await getSupabaseAdmin();
+  const stamp = now.toISOString();
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .insert({
+      ...input,
+      user_id: userId,
+      last_viewed_at: stamp,
+      last_evaluated_at: stamp,
+    })
+    .select("*")
+    .single();
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  const search = data as SavedSearchRow;
+  const matchCount = await recordBaseline(search, now);
+  return { ...search, match_count: matchCount, new_count: 0 };
+}
+
+/**
+ * Update name, criteria or digest settings. New criteria replace the
+ * matches with a fresh baseline (nothing new until jobs change).
+ */
+export async function updateSearch(
+  userId: string,
+  searchId: string,
+  patch: Partial<SavedSearchInput>,
+  now = new Date()
+): Promise<SavedSearchRow> {
+  const supabase = await getSupabaseAdmin();
+  const update: Record<string, unknown> = { ...patch };
+  if (patch.criteria) {
+    update.last_viewed_at = now.toISOString();
+    update.last_evaluated_at = now.toISOString();
+  }
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .update(update)
+    .eq("user_id", userId)
+    .eq("id", searchId)
+    .select("*")
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data) throw new ApiError(404, "Saved search not found", "not_found");
+
+  const search = data as SavedSearchRow;
+  if (patch.criteria) {
+    const { error: clearError } = await supabase
+      .from("saved_search_matches")
+      .delete()
+      .eq("search_id", searchId);
+    if (clearError) throw new ApiError(500, clearError.message, "db_error");
+    await recordBaseline(search, now);
+  }
+  return search;
+}
+
+export async function deleteSearch(
+  userId: string,
+  searchId: string
+): Promise<void> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", searchId)
+    .select("id");
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data?.length) {
+    throw new ApiError(404, "Saved search not found", "not_found");
+  }
+}
+
+// ============================================================================
+// Matches
+// ============================================================================
+
+/** Jobs matching a search, newest match first, flagged new / seen */
+export async function listMatches(
+  userId: string,
+  searchId: string,
+  options: { limit?: number } = {}
+): Promise<{ search: SavedSearchRow; matches: SavedSearchMatch[] }> {
+  const search = await getSearch(userId, searchId);
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("saved_search_matches")
+    .select(`matched_at, job:jobs(${JOB_FIELDS})`)
+    .eq("search_id", searchId)
+    .order("matched_at", { ascending: false })
+    .limit(options.limit ?? 200);
+  if (error) throw new ApiError(500, error.message, "db_error");
+
+  const viewedAt = new Date(search.last_viewed_at).getTime();
+  const matches = ((data ?? []) as Array<Record<string, any>>)
+    .filter((row) => row.job)
+    .map((row) => ({
+      job: row.job as Record<string, any>,
+      matched_at: row.matched_at as string,
+      is_new: new Date(row.matched_at).getTime() > viewedAt,
+    }));
+  return { search, matches };
+}
+
+/** Everything matched so far counts as seen */
+export async function markViewed(
+  userId: string,
+  searchId: string,
+  now = new Date()
+): Promise<SavedSearchRow> {
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .update({ last_viewed_at: now.toISOString() })
+    .eq("user_id", userId)
+    .eq("id", searchId)
+    .select("*")
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message, "db_error");
+  if (!data) throw new ApiError(404, "Saved search not found", "not_found");
+  return data as SavedSearchRow;
+}
+
+// ============================================================================
+// Evaluator
+// ============================================================================
+
+// Postgres and Date#toISOString format timestamps differently, so compare
+// them as numbers
+function ms(timestamp: string | null | undefined): number {
+  return timestamp ? new Date(timestamp).getTime() : 0;
+}
+
+function earliest(searches: SavedSearchRow[]): string {
+  return searches.reduce(
+    (min, s) => (ms(s.last_evaluated_at) < ms(min) ? s.last_evaluated_at : min),
+    searches[0].last_evaluated_at
+  );
+}
+
+/**
+ * Re-check one user's jobs that changed since the oldest of their searches
+ * was evaluated, then move each search's cursor forward.
+ */
+async function evaluateUser(
+  userId: string,
+  searches: SavedSearchRow[],
+  result: SavedSearchTickResult,
+  now: Date
+): Promise<void> {
+  const supabase = await getSupabaseAdmin();
+  const since = earliest(searches);
+
+  const { data: jobData, error: jobsError } = await supabase
+    .from("jobs")
+    .select(JOB_FIELDS)
+    .eq("user_id", userId)
+    .gt("updated_at", since)
+    .order("updated_at", { ascending: true })
+    .limit(CHANGED_JOBS_LIMIT);
+  if (jobsError) throw new Error(jobsError.message);
+  const jobs = (jobData ?? []) as Array<Record<string, any>>;
+
+  // A full page means more changes are waiting: only advance to the last
+  // job seen so the next tick picks up the rest
+  const cursor =
+    jobs.length === CHANGED_JOBS_LIMIT
+      ? jobs[jobs.length - 1].updated_at
+      : now.toISOString();
+
+  // Newly scored jobs can start matching a min_match_score search
+  const { data: scoredData, error: scoredError } = await supabase
+    .from("analytics_cache")
+    .select("job_id, created_at")
+    .eq("user_id", userId)
+    .eq("analytics_type", "document-match-score")
+    .gt("created_at", since)
+    .lte("created_at", cursor)
+    .not("job_id", "is", null);
+  if (scoredError) throw new Error(scoredError.message);
+
+  const scoredAt = new Map<number, string>();
+  for (const row of (scoredData ?? []) as Array<Record<string, any>>) {
+    const prev = scoredAt.get(row.job_id);
+    if (ms(row.created_at) > ms(prev)) scoredAt.set(row.job_id, row.created_at);
+  }
+  const known = new Set(jobs.map((j) => j.id));
+  const missing = [...scoredAt.keys()].filter((id) => !known.has(id));
+  if (missing.length > 0) {
+    const { data: extra, error: extraError } = await supabase
+      .from("jobs")
+      .select(JOB_FIELDS)
+      .eq("user_id", userId)
+      .in("id", missing);
+    if (extraError) throw new Error(extraError.message);
+    jobs.push(...((extra ?? []) as Array<Record<string, any>>));
+  }
+
+  const scores = await loadMatchScores(
+    userId,
+    jobs.filter((j) => j.match_score == null).map((j) => j.id)
+  );
+
+  for (const search of searches) {
+    const evaluatedAt = ms(search.last_evaluated_at);
+    const changed = jobs.filter(
+      (job) =>
+        (ms(job.updated_at) > evaluatedAt &&
+          ms(job.updated_at) <= ms(cursor)) ||
+        ms(scoredAt.get(job.id)) > evaluatedAt
+    );
+    const added: number[] = [];
+    const dropped: number[] = [];
+    for (const job of changed) {
+      if (matchesCriteria(job, search.criteria, scoreOf(job, scores))) {
+        added.push(job.id);
+      } else {
+        dropped.push(job.id);
+      }
+    }
+
+    if (added.length > 0) {
+      // Jobs already matching keep their original matched_at
+      const { data: inserted, error } = await supabase
+        .from("saved_search_matches")
+        .upsert(
+          added.map((jobId) => ({
+            search_id: search.id,
+            job_id: jobId,
+            user_id: userId,
+            matched_at: now.toISOString(),
+          })),
+          { onConflict: "search_id,job_id", ignoreDuplicates: true }
+        )
+        .select("job_id");
+      if (error) throw new Error(error.message);
+      result.matched += inserted?.length ?? 0;
+    }
+    if (dropped.length > 0) {
+      const { data: deleted, error } = await supabase
+        .from("saved_search_matches")
+        .delete()
+        .eq("search_id", search.id)
+        .in("job_id", dropped)
+        .select("job_id");
+      if (error) throw new Error(error.message);
+      result.removed += deleted?.length ?? 0;
+    }
+
+    if (ms(cursor) > evaluatedAt) {
+      const { error } = await supabase
+        .from("saved_searches")
+        .update({ last_evaluated_at: cursor })
+        .eq("id", search.id)
+        .eq("last_evaluated_at", search.last_evaluated_at);
+      if (error) throw new Error(error.message);
+    }
+  }
+}
+
+/**
+ * Send a digest for a search whose period has passed. The period is claimed
+ * with a conditional update first, so several server instances send it once.
+ */
+async function sendDigest(search: SavedSearchRow, now: Date): Promise<boolean> {
+  if (search.digest_frequency === "off") return false;
+  const periodStart = search.last_digest_at ?? search.created_at;
+  if (
+    now.getTime() - ms(periodStart) <
+    DIGEST_PERIOD_MS[search.digest_frequency]
+  ) {
+    return false;
+  }
+
+  const supabase = await getSupabaseAdmin();
+  let claim = supabase
+    .from("saved_searches")
+    .update({ last_digest_at: now.toISOString() })
+    .eq("id", search.id);
+  claim = search.last_digest_at
+    ? claim.eq("last_digest_at", search.last_digest_at)
+    : claim.is("last_digest_at", null);
+  const { data: claimed, error: claimError } = await claim.select("id");
+  if (claimError) throw new Error(claimError.message);
+  if (!claimed?.length) return false;
+
+  // New since the user last looked and since the previous digest
+  const since =
+    ms(search.last_viewed_at) > ms(periodStart)
+      ? search.last_viewed_at
+      : periodStart;
+  const { count, error } = await supabase
+    .from("saved_search_matches")
+    .select("job_id", { count: "exact", head: true })
+    .eq("search_id", search.id)
+    .gt("matched_at", since);
+  if (error) throw new Error(error.message);
+  if (!count) return false;
+
+  await scheduleSavedSearchDigest(search.user_id, {
+    sourceId: `saved_search:${search.id}`,
+    runAt: now,
+    title:
+      count === 1
+        ? `1 new job matches "${search.name}"`
+        : `${count} new jobs match "${search.name}"`,
+    body: `Your ${search.digest_frequency} saved search digest`,
+    link: `/jobs/saved-searches?search=${search.id}`,
+    payload: { search_id: search.id, new_count: count },
+  });
+  return true;
+}
+
+/**
+ * Evaluate changed jobs for every saved search and send due digests.
+ * Failures for one user are logged and do not stop the others.
+ */
+export async function runSavedSearchTick(
+  options: { now?: Date } = {}
+): Promise<SavedSearchTickResult> {
+  const now = options.now ?? new Date();
+  const result: SavedSearchTickResult = {
+    searches: 0,
+    matched: 0,
+    removed: 0,
+    digests: 0,
+  };
+
+  const supabase = await getSupabaseAdmin();
+  const { data, error } = await supabase.from("saved_searches").select("*");
+  if (error) throw new ApiError(500, error.message, "db_error");
+  const searches = (data ?? []) as SavedSearchRow[];
+  result.searches = searches.length;
+
+  const byUser = new Map<string, SavedSearchRow[]>();
+  for (const search of searches) {
+    byUser.set(search.user_id, [...(byUser.get(search.user_id) ?? []), search]);
+  }
+
+  for (const [userId, userSearches] of byUser) {
+    try {
+      await evaluateUser(userId, userSearches, result, now);
+    } catch (e: any) {
+      logError("saved_search_evaluate_failed", {
+        userId,
+        error: e?.message ?? String(e),
+      });
+    }
+  }
+
+  for (const search of searches) {
+    try {
+      if (await sendDigest(search, now)) result.digests++;
+    } catch (e: any) {
+      logError("saved_search_digest_failed", {
+        searchId: search.id,
+        error: e?.message ?? String(e),
+      });
+    }
+  }
+
+  if (result.matched > 0 || result.removed > 0 || result.digests > 0) {
+    logInfo("saved_search_tick", { ...result });
+  }
+  return result;
+}
+
+// ============================================================================
+// Scheduler loop
+// ============================================================================
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Evaluate saved searches every SAVED_SEARCH_POLL_INTERVAL_MS (default 60s).
+ * No-op when the database is not configured or SAVED_SEARCH_SCHEDULER=off.
+ * Returns true when the loop was started.
+ */
+export function startSavedSearchScheduler(
+  intervalMs = Number(process.env.SAVED_SEARCH_POLL_INTERVAL_MS || 60_000)
+): boolean {
+  if (timer) return true;
+  if (process.env.SAVED_SEARCH_SCHEDULER === "off") return false;
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return false;
+  }
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runSavedSearchTick();
+    } catch (e: any) {
+      logError("saved_search_tick_failed", { error: e?.message ?? String(e) });
+    } finally {
+      running = false;
+    }
+  };
+
+  timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+  return true;
+}
+
+export function stopSavedSearchScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
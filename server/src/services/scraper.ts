@@ -345,6 +345,66 @@ export async function scrapeWithBrowser(
   }
 }
 
+/**
+ * Render an HTML string to a PDF buffer
+ *
+ * WHAT: Prints self-contained HTML (inline CSS, no remote assets) with the shared browser
+ * WHY: Server-side exports need the same print engine users get from "Save as PDF"
+ *
+ * Inputs:
+ * - html: string - Complete HTML document
+ * - options.pageSize: "letter" | "a4" (default: "letter")
+ * - options.timeout: number - Max render time in ms (default: SCRAPER_TIMEOUT_MS)
+ *
+ * Outputs: Promise<Buffer> - PDF bytes
+ *
+ * Error modes:
+ * - Browser launch/render failure → throws Error("PDF render failed: ...")
+ */
+export async function renderPdfFromHtml(
+  html: string,
+  options: { pageSize?: "letter" | "a4"; timeout?: number } = {}
+): Promise<Buffer> {
+  const start = Date.now();
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+  let page: Page | null = null;
+
+  try {
+    const browser = await getBrowser();
+    page = await browser.newPage();
+    page.setDefaultTimeout(timeout);
+    // The HTML comes from user documents and themes; it never needs scripts
+    await page.setJavaScriptEnabled(false);
+
+    await page.setContent(html, { waitUntil: "load", timeout });
+    const pdf = await page.pdf({
+      format: options.pageSize === "a4" ? "a4" : "letter",
+      printBackground: true,
+      preferCSSPageSize: true,
+    });
+
+    logInfo("pdf_render_success", {
+      latency_ms: Date.now() - start,
+      bytes: pdf.byteLength,
+    });
+
+    return Buffer.from(pdf);
+  } catch (err: any) {
+    logError("pdf_render_error", {
+      error: err?.message ?? String(err),
+      latency_ms: Date.now() - start,
+    });
+    throw new Error(`PDF render failed: ${err?.message ?? String(err)}`);
+  } finally {
+    if (page) {
+      await page.close().catch(() => {
+        /* ignore close errors */
+      });
+    }
+  }
+}
+
 /**
  * Gracefully close browser instance
  *
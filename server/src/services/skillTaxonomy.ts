@@ -0,0 +1,506 @@
+/**
+ * SKILLS TAXONOMY
+ *
+ * Bundled list of canonical skills so that "JS", "Javascript" and
+ * "JavaScript" are one skill everywhere: profile skills store the canonical
+ * id (skills.taxonomy_id), and skill-gap analysis, charts and GitHub
+ * suggestions compare canonical keys instead of raw names.
+ *
+ * Each entry has:
+ * - id: stable slug stored in the database; never rename, only add
+ * - name: display spelling written to skills.skill_name
+ * - category: skills.skill_category value
+ * - parent: broader skill or area (React -> JavaScript -> Frontend
+ *   Development). Knowing a skill counts as knowing its ancestors when a
+ *   requirement is checked, never the other way round.
+ * - aliases: other spellings; matching ignores case, spaces and . - _ /
+ *
+ * Served to the frontend by GET /api/skills/taxonomy. Bump
+ * SKILL_TAXONOMY_VERSION when ids or aliases change.
+ */
+
+export const SKILL_TAXONOMY_VERSION = 1;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** skills.skill_category values */
+export type SkillCategory =
+  "Technical" | "Soft" | "Language" | "Tool" | "Framework" | "Other";
+
+export interface TaxonomySkill {
+  id: string;
+  name: string;
+  category: SkillCategory;
+  parent: string | null;
+  aliases: string[];
+}
+
+export interface NormalizedSkill {
+  /** Taxonomy id, or null when the name is not in the taxonomy */
+  id: string | null;
+  /** Canonical spelling, or the trimmed input for unknown skills */
+  name: string;
+  category: SkillCategory | null;
+  /** Ancestor names, nearest first */
+  path: string[];
+}
+
+// ============================================================================
+// Data
+// ============================================================================
+
+type Row = [
+  id: string,
+  name: string,
+  category: SkillCategory,
+  parent: string | null,
+];
+
+const ROWS: Row[] = [
+  // Areas
+  ["frontend", "Frontend Development", "Technical", null],
+  ["backend", "Backend Development", "Technical", null],
+  ["mobile", "Mobile Development", "Technical", null],
+  ["systems", "Systems Programming", "Technical", null],
+  ["databases", "Databases", "Technical", null],
+  ["cloud", "Cloud Computing", "Technical", null],
+  ["devops", "DevOps", "Technical", null],
+  ["data-analysis", "Data Analysis", "Technical", null],
+  ["data-engineering", "Data Engineering", "Technical", null],
+  ["machine-learning", "Machine Learning", "Technical", null],
+  ["testing", "Software Testing", "Technical", null],
+  ["security", "Security", "Technical", null],
+  ["design", "UI/UX Design", "Other", null],
+
+  // Frontend
+  ["javascript", "JavaScript", "Technical", "frontend"],
+  ["typescript", "TypeScript", "Technical", "javascript"],
+  ["html", "HTML", "Technical", "frontend"],
+  ["css", "CSS", "Technical", "frontend"],
+  ["sass", "Sass", "Technical", "css"],
+  ["less", "Less", "Technical", "css"],
+  ["tailwind-css", "Tailwind CSS", "Framework", "css"],
+  ["bootstrap", "Bootstrap", "Framework", "css"],
+  ["react", "React", "Framework", "javascript"],
+  ["react-native", "React Native", "Framework", "react"],
+  ["nextjs", "Next.js", "Framework", "react"],
+  ["gatsby", "Gatsby", "Framework", "react"],
+  ["redux", "Redux", "Framework", "react"],
+  ["vue", "Vue.js", "Framework", "javascript"],
+  ["nuxt", "Nuxt", "Framework", "vue"],
+  ["angular", "Angular", "Framework", "typescript"],
+  ["svelte", "Svelte", "Framework", "javascript"],
+  ["astro", "Astro", "Framework", "javascript"],
+  ["jquery", "jQuery", "Framework", "javascript"],
+  ["accessibility", "Accessibility", "Technical", "frontend"],
+  ["web-performance", "Performance Optimization", "Technical", "frontend"],
+  ["seo", "SEO", "Technical", null],
+
+  // Backend
+  ["nodejs", "Node.js", "Technical", "backend"],
+  ["express", "Express", "Framework", "nodejs"],
+  ["nestjs", "NestJS", "Framework", "nodejs"],
+  ["deno", "Deno", "Technical", "backend"],
+  ["python", "Python", "Technical", "backend"],
+  ["django", "Django", "Framework", "python"],
+  ["flask", "Flask", "Framework", "python"],
+  ["fastapi", "FastAPI", "Framework", "python"],
+  ["java", "Java", "Technical", "backend"],
+  ["spring", "Spring", "Framework", "java"],
+  ["kotlin", "Kotlin", "Technical", "mobile"],
+  ["go", "Go", "Technical", "backend"],
+  ["csharp", "C#", "Technical", "backend"],
+  ["dotnet", ".NET", "Framework", "csharp"],
+  ["php", "PHP", "Technical", "backend"],
+  ["laravel", "Laravel", "Framework", "php"],
+  ["ruby", "Ruby", "Technical", "backend"],
+  ["rails", "Ruby on Rails", "Framework", "ruby"],
+  ["scala", "Scala", "Technical", "backend"],
+  ["elixir", "Elixir", "Technical", "backend"],
+  ["rest", "REST APIs", "Technical", "backend"],
+  ["graphql", "GraphQL", "Technical", "backend"],
+  ["grpc", "gRPC", "Technical", "backend"],
+  ["websockets", "WebSockets", "Technical", "backend"],
+  ["microservices", "Microservices", "Technical", "backend"],
+  ["kafka", "Apache Kafka", "Tool", "backend"],
+  ["rabbitmq", "RabbitMQ", "Tool", "backend"],
+
+  // Systems
+  ["c", "C", "Technical", "systems"],
+  ["cpp", "C++", "Technical", "systems"],
+  ["rust", "Rust", "Technical", "systems"],
+  ["embedded", "Embedded Systems", "Technical", "systems"],
+  ["iot", "IoT", "Technical", "embedded"],
+
+  // Mobile
+  ["ios", "iOS Development", "Technical", "mobile"],
+  ["swift", "Swift", "Technical", "ios"],
+  ["objective-c", "Objective-C", "Technical", "ios"],
+  ["android", "Android Development", "Technical", "mobile"],
+  ["dart", "Dart", "Technical", "mobile"],
+  ["flutter", "Flutter", "Framework", "dart"],
+
+  // Databases
+  ["sql", "SQL", "Technical", "databases"],
+  ["postgresql", "PostgreSQL", "Technical", "sql"],
+  ["mysql", "MySQL", "Technical", "sql"],
+  ["sqlite", "SQLite", "Technical", "sql"],
+  ["sql-server", "Microsoft SQL Server", "Technical", "sql"],
+  ["oracle-db", "Oracle Database", "Technical", "sql"],
+  ["mongodb", "MongoDB", "Technical", "databases"],
+  ["redis", "Redis", "Technical", "databases"],
+  ["cassandra", "Cassandra", "Technical", "databases"],
+  ["dynamodb", "DynamoDB", "Technical", "databases"],
+  ["elasticsearch", "Elasticsearch", "Technical", "databases"],
+  ["supabase", "Supabase", "Tool", "databases"],
+  ["firebase", "Firebase", "Tool", "databases"],
+
+  // Cloud and DevOps
+  ["aws", "AWS", "Tool", "cloud"],
+  ["azure", "Microsoft Azure", "Tool", "cloud"],
+  ["gcp", "Google Cloud", "Tool", "cloud"],
+  ["docker", "Docker", "Tool", "devops"],
+  ["kubernetes", "Kubernetes", "Tool", "devops"],
+  ["terraform", "Terraform", "Tool", "devops"],
+  ["ansible", "Ansible", "Tool", "devops"],
+  ["ci-cd", "CI/CD", "Technical", "devops"],
+  ["jenkins", "Jenkins", "Tool", "ci-cd"],
+  ["gitlab-ci", "GitLab CI", "Tool", "ci-cd"],
+  ["github-actions", "GitHub Actions", "Tool", "ci-cd"],
+  ["bash", "Bash", "Technical", "devops"],
+  ["linux", "Linux", "Tool", "devops"],
+  ["prometheus", "Prometheus", "Tool", "devops"],
+  ["grafana", "Grafana", "Tool", "devops"],
+  ["elk", "ELK Stack", "Tool", "devops"],
+
+  // Data and machine learning
+  ["r", "R", "Technical", "data-analysis"],
+  ["excel", "Excel", "Tool", "data-analysis"],
+  ["tableau", "Tableau", "Tool", "data-analysis"],
+  ["power-bi", "Power BI", "Tool", "data-analysis"],
+  ["pandas", "pandas", "Tool", "python"],
+  ["numpy", "NumPy", "Tool", "python"],
+  ["spark", "Apache Spark", "Tool", "data-engineering"],
+  ["hadoop", "Hadoop", "Tool", "data-engineering"],
+  ["etl", "ETL", "Technical", "data-engineering"],
+  ["airflow", "Apache Airflow", "Tool", "data-engineering"],
+  ["deep-learning", "Deep Learning", "Technical", "machine-learning"],
+  ["tensorflow", "TensorFlow", "Framework", "deep-learning"],
+  ["pytorch", "PyTorch", "Framework", "deep-learning"],
+  ["scikit-learn", "scikit-learn", "Framework", "machine-learning"],
+  ["nlp", "Natural Language Processing", "Technical", "machine-learning"],
+  ["computer-vision", "Computer Vision", "Technical", "machine-learning"],
+  ["llm", "Large Language Models", "Technical", "machine-learning"],
+
+  // Testing
+  ["jest", "Jest", "Tool", "testing"],
+  ["vitest", "Vitest", "Tool", "testing"],
+  ["mocha", "Mocha", "Tool", "testing"],
+  ["chai", "Chai", "Tool", "testing"],
+  ["cypress", "Cypress", "Tool", "testing"],
+  ["playwright", "Playwright", "Tool", "testing"],
+  ["selenium", "Selenium", "Tool", "testing"],
+  ["unit-testing", "Unit Testing", "Technical", "testing"],
+
+  // Security
+  ["oauth", "OAuth", "Technical", "security"],
+  ["jwt", "JWT", "Technical", "security"],
+  ["sso", "SSO", "Technical", "security"],
+  ["encryption", "Encryption", "Technical", "security"],
+  ["web-security", "Web Security", "Technical", "security"],
+
+  // Tools and design
+  ["git", "Git", "Tool", null],
+  ["github", "GitHub", "Tool", "git"],
+  ["gitlab", "GitLab", "Tool", "git"],
+  ["bitbucket", "Bitbucket", "Tool", "git"],
+  ["jira", "Jira", "Tool", null],
+  ["figma", "Figma", "Tool", "design"],
+  ["sketch", "Sketch", "Tool", "design"],
+  ["photoshop", "Photoshop", "Tool", "design"],
+  ["solidity", "Solidity", "Technical", null],
+  ["ar-vr", "AR/VR", "Technical", null],
+
+  // Soft skills and practices
+  ["communication", "Communication", "Soft", null],
+  ["leadership", "Leadership", "Soft", null],
+  ["mentoring", "Mentoring", "Soft", "leadership"],
+  ["teamwork", "Teamwork", "Soft", null],
+  ["problem-solving", "Problem Solving", "Soft", null],
+  ["time-management", "Time Management", "Soft", null],
+  ["public-speaking", "Public Speaking", "Soft", "communication"],
+  ["stakeholder-management", "Stakeholder Management", "Soft", "communication"],
+  ["project-management", "Project Management", "Other", null],
+  ["agile", "Agile", "Other", "project-management"],
+  ["product-management", "Product Management", "Other", null],
+  ["customer-success", "Customer Success", "Other", null],
+  ["sales", "Sales", "Other", null],
+  ["marketing", "Marketing", "Other", null],
+  ["copywriting", "Copywriting", "Other", "marketing"],
+
+  // Spoken languages
+  ["english", "English", "Language", null],
+  ["spanish", "Spanish", "Language", null],
+  ["french", "French", "Language", null],
+  ["german", "German", "Language", null],
+  ["portuguese", "Portuguese", "Language", null],
+  ["italian", "Italian", "Language", null],
+  ["mandarin", "Mandarin Chinese", "Language", null],
+  ["japanese", "Japanese", "Language", null],
+  ["korean", "Korean", "Language", null],
+  ["hindi", "Hindi", "Language", null],
+  ["arabic", "Arabic", "Language", null],
+];
+
+/** Other spellings by taxonomy id; the id and name always match */
+const ALIASES: Record<string, string[]> = {
+  frontend: ["frontend engineering", "web frontend"],
+  backend: ["backend engineering", "server side development"],
+  mobile: ["mobile apps", "mobile app development"],
+  systems: ["low level programming"],
+  databases: ["database", "database design", "dbms"],
+  cloud: ["cloud infrastructure"],
+  devops: ["site reliability engineering", "sre"],
+  "data-analysis": ["data analytics", "analytics"],
+  "data-engineering": ["data pipelines"],
+  "machine-learning": ["ml", "ai/ml", "artificial intelligence"],
+  testing: ["qa", "quality assurance", "test automation"],
+  security: ["cybersecurity", "information security", "infosec"],
+  design: ["ui design", "ux design", "ux", "user experience", "product design"],
+  javascript: ["js", "ecmascript", "es6", "es2015", "vanilla js"],
+  typescript: ["ts"],
+  html: ["html5"],
+  css: ["css3"],
+  sass: ["scss"],
+  "tailwind-css": ["tailwind"],
+  react: ["reactjs"],
+  "react-native": ["rn"],
+  nextjs: ["next"],
+  gatsby: ["gatsbyjs"],
+  redux: ["redux toolkit"],
+  vue: ["vue 3"],
+  nuxt: ["nuxtjs"],
+  angular: ["angularjs", "angular 2"],
+  svelte: ["sveltekit"],
+  accessibility: ["a11y", "wcag", "web accessibility"],
+  "web-performance": ["performance tuning"],
+  seo: ["search engine optimization"],
+  nodejs: ["node"],
+  express: ["expressjs"],
+  nestjs: ["nest"],
+  python: ["python3", "py"],
+  java: ["java 8", "java 17", "j2ee"],
+  spring: ["spring boot", "spring framework"],
+  go: ["golang"],
+  dotnet: ["net core", "asp.net", "asp.net core"],
+  rails: ["ror"],
+  rest: ["restful", "rest api", "restful apis", "api design"],
+  websockets: ["websocket", "socket.io"],
+  microservices: ["microservice architecture"],
+  cpp: ["c plus plus"],
+  embedded: ["firmware"],
+  iot: ["internet of things"],
+  swift: ["swiftui"],
+  "objective-c": ["objc"],
+  sql: ["structured query language"],
+  postgresql: ["postgres", "psql"],
+  mysql: ["mariadb"],
+  "sql-server": ["mssql", "t-sql"],
+  "oracle-db": ["oracle", "pl/sql"],
+  mongodb: ["mongo"],
+  cassandra: ["apache cassandra"],
+  elasticsearch: ["opensearch"],
+  aws: ["amazon web services"],
+  gcp: ["google cloud platform"],
+  docker: ["containers", "containerization", "dockerfile"],
+  kubernetes: ["k8s", "eks", "gke", "aks"],
+  terraform: ["hcl", "infrastructure as code", "iac"],
+  "ci-cd": [
+    "continuous integration",
+    "continuous delivery",
+    "continuous deployment",
+  ],
+  "gitlab-ci": ["gitlab ci/cd"],
+  bash: ["shell", "shell scripting", "sh", "zsh"],
+  linux: ["unix"],
+  elk: ["kibana", "logstash"],
+  r: ["r programming", "rlang"],
+  excel: ["microsoft excel", "ms excel", "spreadsheets"],
+  spark: ["pyspark"],
+  hadoop: ["apache hadoop", "hdfs"],
+  etl: ["elt", "extract transform load"],
+  "deep-learning": ["neural networks"],
+  tensorflow: ["keras"],
+  pytorch: ["torch"],
+  "scikit-learn": ["sklearn"],
+  "computer-vision": ["opencv"],
+  llm: ["llms", "generative ai", "genai", "prompt engineering"],
+  selenium: ["webdriver"],
+  "unit-testing": ["unit tests", "tdd", "test driven development"],
+  oauth: ["oauth2", "oauth 2.0", "openid connect", "oidc"],
+  jwt: ["json web tokens"],
+  sso: ["single sign on", "saml"],
+  encryption: ["cryptography"],
+  "web-security": ["owasp", "application security", "appsec"],
+  git: ["version control", "source control"],
+  jira: ["atlassian jira"],
+  photoshop: ["adobe photoshop"],
+  solidity: ["smart contracts"],
+  "ar-vr": ["augmented reality", "virtual reality", "xr"],
+  communication: [
+    "written communication",
+    "verbal communication",
+    "communication skills",
+  ],
+  leadership: ["team leadership", "people management"],
+  mentoring: ["coaching"],
+  teamwork: ["collaboration", "team player"],
+  "problem-solving": ["troubleshooting"],
+  "time-management": ["prioritization"],
+  "public-speaking": ["presentation skills", "presenting"],
+  "project-management": ["pmp"],
+  agile: ["scrum", "kanban", "agile methodologies"],
+  "customer-success": ["customer service", "customer support"],
+  marketing: ["digital marketing"],
+  copywriting: ["content writing"],
+  spanish: ["espanol"],
+  mandarin: ["chinese"],
+};
+
+export const SKILL_TAXONOMY: readonly TaxonomySkill[] = ROWS.map(
+  ([id, name, category, parent]) => ({
+    id,
+    name,
+    category,
+    parent,
+    aliases: ALIASES[id] ?? [],
+  })
+);
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Matching key: lowercase without spaces or . - _ / so "Node.js", "node js"
+ * and "NodeJS" compare equal; + and # stay ("C++", "C#").
+ */
+export function skillKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[\s.\-_/'’]+/g, "");
+}
+
+/** Words around a skill in free text ("Kubernetes experience") */
+const FILLER_PREFIX =
+  /^(?:experience (?:with|in)|knowledge of|proficiency (?:with|in)|familiarity with)\s+/;
+const FILLER_SUFFIX =
+  /\s+(?:experience|skills?|knowledge|proficiency|expertise)$/;
+
+const BY_ID = new Map(SKILL_TAXONOMY.map((s) => [s.id, s]));
+const BY_KEY = new Map<string, TaxonomySkill>();
+for (const skill of SKILL_TAXONOMY) {
+  for (const form of [skill.name, skill.id, ...skill.aliases]) {
+    const key = skillKey(form);
+    // First entry wins so an alias never shadows another skill's name
+    if (!BY_KEY.has(key)) BY_KEY.set(key, skill);
+  }
+}
+
+export function getTaxonomySkill(id: string): TaxonomySkill | null {
+  return BY_ID.get(id) ?? null;
+}
+
+/** Taxonomy entry for a name or alias; null when unknown */
+export function resolveSkill(name: string): TaxonomySkill | null {
+  const direct = BY_KEY.get(skillKey(name));
+  if (direct) return direct;
+  const stripped = name
+    .trim()
+    .toLowerCase()
+    .replace(FILLER_PREFIX, "")
+    .replace(FILLER_SUFFIX, "");
+  return BY_KEY.get(skillKey(stripped)) ?? null;
+}
+
+/** Ancestors of a taxonomy id, nearest first */
+export function skillAncestors(id: string): TaxonomySkill[] {
+  const chain: TaxonomySkill[] = [];
+  let parent = BY_ID.get(id)?.parent ?? null;
+  while (parent) {
+    const skill = BY_ID.get(parent);
+    if (!skill || chain.includes(skill)) break;
+    chain.push(skill);
+    parent = skill.parent;
+  }
+  return chain;
+}
+
+/**
+ * Key to group or compare skills by: the taxonomy id, or the matching key
+ * of the name for skills outside the taxonomy
+ */
+export function canonicalSkillKey(name: string): string {
+  return resolveSkill(name)?.id ?? skillKey(name);
+}
+
+/** Canonical spelling, category and ancestry for a user-entered name */
+export function normalizeSkill(name: string): NormalizedSkill {
+  const skill = resolveSkill(name);
+  if (!skill) {
+    return { id: null, name: name.trim(), category: null, path: [] };
+  }
+  return {
+    id: skill.id,
+    name: skill.name,
+    category: skill.category,
+    path: skillAncestors(skill.id).map((s) => s.name),
+  };
+}
+
+/**
+ * Predicate for "does the user have this skill": true when a required skill
+ * is one of the user's skills (through aliases) or an ancestor of one, so
+ * React satisfies JavaScript but JavaScript does not satisfy React.
+ */
+export function createSkillMatcher(
+  userSkills: Iterable<string>
+): (required: string) => boolean {
+  const covered = new Set<string>();
+  for (const name of userSkills) {
+    const skill = resolveSkill(name);
+    if (!skill) {
+      covered.add(skillKey(name));
+      continue;
+    }
+    covered.add(skill.id);
+    for (const ancestor of skillAncestors(skill.id)) covered.add(ancestor.id);
+  }
+  return (required) => covered.has(canonicalSkillKey(required));
+}
+
+/**
+ * Required skills the user has and lacks, through createSkillMatcher.
+ * Requirements that are the same skill under different spellings are
+ * listed once, in their first spelling.
+ */
+export function compareSkills(
+  userSkills: Iterable<string>,
+  required: Iterable<string>
+): { matched: string[]; missing: string[] } {
+  const hasSkill = createSkillMatcher(userSkills);
+  const seen = new Set<string>();
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const skill of required) {
+    const key = canonicalSkillKey(skill);
+    if (!skill.trim() || seen.has(key)) continue;
+    seen.add(key);
+    (hasSkill(skill) ? matched : missing).push(skill);
+  }
+  return { matched, missing };
+}
@@ -1,5 +1,6 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { randomUUID } from "node:crypto";
+import { CacheKeys, CacheTTL, cached } from "./cacheService.js";
 
 const SUPABASE_URL = process.env.SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -49,6 +50,8 @@ export async function insertAiArtifact(payload: {
   model?: string | null;
   content: unknown;
   metadata?: Record<string, unknown>;
+  prompt_id?: string | null;
+  prompt_version?: number | null;
 }) {
   const client = ensureClient();
 
@@ -65,6 +68,11 @@ export async function insertAiArtifact(payload: {
     content: payload.content,
     metadata: payload.metadata ?? {},
   };
+  // Prompt registry attribution (see services/promptRegistry.ts)
+  if (payload.prompt_id) {
+    row.prompt_id = payload.prompt_id;
+    row.prompt_version = payload.prompt_version ?? null;
+  }
 
   const { data, error } = await client
     .from("ai_artifacts")
@@ -92,8 +100,15 @@ export async function getProfile(userId: string) {
 /**
  * Fetch comprehensive user profile with all related data for AI generation
  * Includes: education, skills, employment history, projects, certifications
+ * Cached (services/cacheService.ts); profile table changes invalidate it.
  */
 export async function getComprehensiveProfile(userId: string) {
+  return cached(CacheKeys.profile(userId), CacheTTL.profile, () =>
+    loadComprehensiveProfile(userId)
+  );
+}
+
+async function loadComprehensiveProfile(userId: string) {
   const client = ensureClient();
 
   // Fetch base profile
@@ -19,6 +19,8 @@ export interface ArtifactRow {
   model?: string | null;
   content: unknown; // jsonb field, cast to specific artifact content type based on kind
   metadata?: Record<string, unknown> | null;
+  prompt_id?: string | null; // promptRegistry id that built `prompt`
+  prompt_version?: number | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -20,6 +20,7 @@ export interface GenerateResumeRequest {
    * prompt: user-supplied additive snippet appended to the base prompt
    * templateId: resume template identifier for template-aware AI generation
    * length: target content length (concise, standard, detailed)
+   * promptVersion: pin a registered prompt version (see services/promptRegistry.ts)
    */
   options?: {
     tone?: string;
@@ -29,6 +30,7 @@ export interface GenerateResumeRequest {
     prompt?: string;
     templateId?: string;
     length?: string;
+    promptVersion?: number;
   };
 }
 
@@ -53,6 +55,7 @@ export interface GenerateCoverLetterRequest {
     templateId?: string;
     length?: string;
     culture?: string;
+    promptVersion?: number;
   };
 }
 
@@ -62,4 +65,7 @@ export interface GenerateCoverLetterRequest {
 export interface GenerateSkillsOptimizationRequest {
   userId: string; // authenticated user id
   jobId: number; // target job id
+  options?: {
+    promptVersion?: number; // pin a registered prompt version
+  };
 }
@@ -4,16 +4,28 @@
 export class ApiError extends Error {
   status: number;
   code?: string;
-  constructor(status: number, message: string, code?: string) {
+  /** Extra fields merged into the JSON error payload (e.g. quota limits) */
+  details?: Record<string, unknown>;
+  constructor(
+    status: number,
+    message: string,
+    code?: string,
+    details?: Record<string, unknown>
+  ) {
     super(message);
     this.status = status;
     this.code = code;
+    this.details = details;
   }
 }
 
 export function errorPayload(err: any) {
   if (err instanceof ApiError) {
-    return { error: err.code ?? "error", message: err.message };
+    return {
+      error: err.code ?? "error",
+      message: err.message,
+      ...(err.details ?? {}),
+    };
   }
   // Handle case where err might be an object without toString
   if (err && typeof err === 'object') {
@@ -5,7 +5,8 @@
  * WHY: Centralize common patterns used across all route handlers
  *
  * Functions:
- * - readJson: Parse JSON request body with proper error handling
+ * - readJson: Parse JSON request body with proper error handling (memoized
+ *   per request, so the router can validate a body the handler reads again)
  * - sendJson: Send JSON response with CORS headers and correct Content-Length
  *
  * Usage:
@@ -44,7 +45,19 @@ import { getCorsHeaders } from "../src/middleware/cors.js";
  *   throw new ApiError(400, "Invalid JSON body", "bad_json");
  * }
  */
+const parsedBodies = new WeakMap<IncomingMessage, Promise<unknown>>();
+
 export async function readJson(req: IncomingMessage): Promise<unknown> {
+  // The stream can only be consumed once
+  let parsed = parsedBodies.get(req);
+  if (!parsed) {
+    parsed = parseBody(req);
+    parsedBodies.set(req, parsed);
+  }
+  return parsed;
+}
+
+function parseBody(req: IncomingMessage): Promise<unknown> {
   return new Promise<unknown>((resolve, reject) => {
     let data = "";
 
@@ -1,30 +1,36 @@
 /**
- * In-memory sliding window rate limiter.
- * - Not for production scale (process memory only), fine for local/dev.
+ * Fixed window rate limiter on the shared cache store
+ * (src/services/cacheStore.ts).
+ * - In-process counters by default; with REDIS_URL every instance shares the
+ *   same counters, so limits hold when several servers run.
+ * - Fails open: if the store is unreachable the request is allowed and the
+ *   error logged, so a cache outage does not take the API down.
  */
-const buckets = new Map<string, number[]>();
+import { getCacheStore } from "../src/services/cacheStore.js";
+import { legacyLogError as logError } from "./logger.js";
 
 export interface LimitResult {
   ok: boolean;
   retryAfterSec?: number;
 }
 
-export function checkLimit(
+export async function checkLimit(
   key: string,
   max: number,
   windowMs: number
-): LimitResult {
-  const now = Date.now();
-  const windowStart = now - windowMs;
-  const arr = buckets.get(key) ?? [];
-  const recent = arr.filter((t) => t > windowStart);
-  if (recent.length >= max) {
-    const earliest = Math.min(...recent);
-    const retryAfterSec = Math.ceil((earliest + windowMs - now) / 1000);
-    buckets.set(key, recent);
-    return { ok: false, retryAfterSec: Math.max(retryAfterSec, 1) };
+): Promise<LimitResult> {
+  let hit;
+  try {
+    hit = await getCacheStore().hit(`ratelimit:${key}`, windowMs);
+  } catch (err) {
+    logError("Rate limit check failed; allowing request", err, { key });
+    return { ok: true };
+  }
+  if (hit.count > max) {
+    return {
+      ok: false,
+      retryAfterSec: Math.max(Math.ceil(hit.resetInMs / 1000), 1),
+    };
   }
-  recent.push(now);
-  buckets.set(key, recent);
   return { ok: true };
 }
@@ -0,0 +1,86 @@
+/**
+ * SERVER-SENT EVENTS UTILITIES
+ *
+ * WHAT: Helpers for streaming responses as text/event-stream
+ * WHY: Long-running AI generation can push partial results instead of
+ *      holding the connection silent until the final JSON is ready
+ *
+ * Functions:
+ * - wantsEventStream: Did the client ask for a stream (Accept header or ?stream=true)
+ * - openEventStream: Write SSE headers (with CORS) and disable buffering
+ * - sendEvent: Write one named event with a JSON payload
+ *
+ * Usage:
+ * import { openEventStream, sendEvent } from "../../utils/sse.js";
+ * openEventStream(res);
+ * sendEvent(res, "section", { path: ["summary"], value: "..." });
+ * sendEvent(res, "complete", payload);
+ * res.end();
+ *
+ * Notes:
+ * - Once the stream is open, errors must be reported with an "error" event;
+ *   throwing ApiError would try to write headers a second time.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { URL } from "node:url";
+import { getCorsHeaders } from "../src/middleware/cors.js";
+
+/**
+ * Check whether the client requested an event stream
+ *
+ * Inputs:
+ * - req: IncomingMessage - checks the Accept header
+ * - url: URL - checks ?stream=true
+ *
+ * Outputs:
+ * - boolean
+ */
+export function wantsEventStream(req: IncomingMessage, url: URL): boolean {
+  const accept = String(req.headers?.accept ?? "");
+  return (
+    accept.includes("text/event-stream") ||
+    url.searchParams.get("stream") === "true"
+  );
+}
+
+/**
+ * Start an SSE response (200, no Content-Length)
+ *
+ * Inputs:
+ * - res: ServerResponse - HTTP response object
+ *
+ * Outputs:
+ * - void (headers are flushed immediately so the client sees the stream open)
+ */
+export function openEventStream(res: ServerResponse): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Disable proxy buffering (nginx) so events arrive as they are written
+    "X-Accel-Buffering": "no",
+    ...getCorsHeaders(),
+  });
+  res.flushHeaders?.();
+}
+
+/**
+ * Write a single named event
+ *
+ * Inputs:
+ * - res: ServerResponse - an open event stream
+ * - event: string - event name (start, section, progress, complete, error)
+ * - data: unknown - JSON-serializable payload
+ *
+ * Outputs:
+ * - void (no-op once the response has ended)
+ */
+export function sendEvent(
+  res: ServerResponse,
+  event: string,
+  data: unknown
+): void {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
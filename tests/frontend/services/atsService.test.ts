@@ -0,0 +1,164 @@
+/**
+ * Tests for ai_workspace/services/atsService.ts (scoring request, reading
+ * the stored analysis, keyword ordering)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const userCrud = vi.hoisted(() => ({ getRow: vi.fn() }));
+
+vi.mock("@shared/services/crud", () => ({
+  withUser: () => userCrud,
+}));
+
+vi.mock("@shared/services/ai/client", () => ({
+  default: {
+    postJson: vi.fn(),
+    getJson: vi.fn(),
+  },
+}));
+
+import aiClient from "@shared/services/ai/client";
+import {
+  atsScoreBand,
+  getVersionAts,
+  scoreVersionAts,
+  sortAtsKeywords,
+} from "@ai_workspace/services/atsService";
+import type { AtsAnalysis, AtsKeyword } from "@ai_workspace/types/ats.types";
+
+function keyword(overrides: Partial<AtsKeyword>): AtsKeyword {
+  return {
+    term: "Go",
+    importance: "required",
+    matched: true,
+    sections: ["skills"],
+    count: 1,
+    ...overrides,
+  };
+}
+
+const analysis: AtsAnalysis = {
+  version: 1,
+  score: 62,
+  breakdown: {
+    requiredCoverage: 0.5,
+    preferredCoverage: 0,
+    keywordPoints: 30,
+    contextPoints: 5,
+    structurePoints: 15,
+    formattingPenalty: 0,
+  },
+  keywords: [
+    keyword({ term: "Go" }),
+    keyword({ term: "Kafka", importance: "preferred", matched: false }),
+    keyword({ term: "SQL", matched: false }),
+    keyword({ term: "React", importance: "preferred" }),
+    keyword({ term: "Docker", matched: false }),
+  ],
+  missing: { required: ["SQL", "Docker"], preferred: ["Kafka"] },
+  sections: { skills: ["Go", "React"] },
+  formatting: [],
+};
+
+describe("atsService.scoreVersionAts", () => {
+  beforeEach(() => {
+    vi.mocked(aiClient.postJson).mockReset();
+  });
+
+  it("posts the job to score against and returns the result", async () => {
+    const result = {
+      versionId: "v1",
+      jobId: 42,
+      analyzedAt: "2026-10-19T00:00:00Z",
+      analysis,
+    };
+    vi.mocked(aiClient.postJson).mockResolvedValueOnce(result);
+
+    const res = await scoreVersionAts("v1", { jobId: 42 });
+
+    expect(res).toEqual({ data: result, error: null, status: 200 });
+    expect(aiClient.postJson).toHaveBeenCalledWith("/api/ats/versions/v1", {
+      jobId: 42,
+    });
+  });
+
+  it("lets the server pick the linked job and returns errors as a Result", async () => {
+    vi.mocked(aiClient.postJson).mockRejectedValueOnce(
+      new Error("Link the document to a job or pass jobId to score it")
+    );
+
+    const res = await scoreVersionAts("v1");
+
+    expect(aiClient.postJson).toHaveBeenCalledWith("/api/ats/versions/v1", {});
+    expect(res.data).toBeNull();
+    expect(res.error?.message).toMatch(/Link the document to a job/);
+  });
+});
+
+describe("atsService.getVersionAts", () => {
+  beforeEach(() => {
+    userCrud.getRow.mockReset();
+  });
+
+  it("maps the stored columns", async () => {
+    userCrud.getRow.mockResolvedValueOnce({
+      data: {
+        id: "v1",
+        ats_analysis: analysis,
+        ats_job_id: 42,
+        ats_analyzed_at: "2026-10-19T00:00:00Z",
+      },
+      error: null,
+      status: 200,
+    });
+
+    const res = await getVersionAts("user-1", "v1");
+
+    expect(res.data).toEqual({
+      versionId: "v1",
+      jobId: 42,
+      analyzedAt: "2026-10-19T00:00:00Z",
+      analysis,
+    });
+    expect(userCrud.getRow).toHaveBeenCalledWith(
+      "document_versions",
+      "id,ats_analysis,ats_job_id,ats_analyzed_at",
+      { eq: { id: "v1" }, single: true }
+    );
+  });
+
+  it("returns null for versions that were never scored", async () => {
+    userCrud.getRow.mockResolvedValueOnce({
+      data: {
+        id: "v1",
+        ats_analysis: null,
+        ats_job_id: null,
+        ats_analyzed_at: null,
+      },
+      error: null,
+      status: 200,
+    });
+
+    const res = await getVersionAts("user-1", "v1");
+    expect(res).toEqual({ data: null, error: null, status: 200 });
+  });
+});
+
+describe("atsService helpers", () => {
+  it("lists missing required, then missing preferred, then matched keywords", () => {
+    expect(sortAtsKeywords(analysis).map((k) => k.term)).toEqual([
+      "SQL",
+      "Docker",
+      "Kafka",
+      "Go",
+      "React",
+    ]);
+  });
+
+  it("bands scores", () => {
+    expect(atsScoreBand(80)).toBe("strong");
+    expect(atsScoreBand(50)).toBe("fair");
+    expect(atsScoreBand(49)).toBe("weak");
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for automationsService.ts (server-side automation rules and their
+ * execution log)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as automationsService from "@job_pipeline/services/automationsService";
+import aiClient from "@shared/services/ai/client";
+
+vi.mock("@shared/services/ai/client", () => ({
+  default: {
+    postJson: vi.fn(),
+    getJson: vi.fn(),
+    patchJson: vi.fn(),
+    deleteJson: vi.fn(),
+  },
+}));
+
+describe("AutomationsService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("createRule", () => {
+    it("posts the rule and returns the stored row", async () => {
+      const rule = { id: "rule-1", name: "Nudge" };
+      vi.mocked(aiClient.postJson).mockResolvedValueOnce({ rule });
+
+      const input = {
+        name: "Nudge",
+        trigger_type: "no_response" as const,
+        trigger_config: { stage: "Applied", days: 10 },
+        actions: [{ type: "create_reminder" as const, config: {} }],
+      };
+      const result = await automationsService.createRule(input);
+
+      expect(aiClient.postJson).toHaveBeenCalledWith("/api/automations", input);
+      expect(result.data).toEqual(rule);
+    });
+
+    it("requires a name and at least one action", async () => {
+      const unnamed = await automationsService.createRule({
+        name: " ",
+        trigger_type: "interview_scheduled",
+        actions: [{ type: "add_prep_checklist", config: {} }],
+      });
+      const noActions = await automationsService.createRule({
+        name: "Prep",
+        trigger_type: "interview_scheduled",
+        actions: [],
+      });
+
+      expect(unnamed.error?.message).toBe("Give the automation a name");
+      expect(noActions.error?.message).toBe("Add at least one action");
+      expect(aiClient.postJson).not.toHaveBeenCalled();
+    });
+
+    it("wraps server validation errors in a Result", async () => {
+      vi.mocked(aiClient.postJson).mockRejectedValueOnce(
+        new Error("teammate_id must be a user id")
+      );
+
+      const result = await automationsService.createRule({
+        name: "Tell my mentor",
+        trigger_type: "job_stage_changed",
+        actions: [{ type: "notify_teammate", config: {} }],
+      });
+
+      expect(result.error?.message).toBe("teammate_id must be a user id");
+    });
+  });
+
+  describe("setRuleEnabled", () => {
+    it("patches only the enabled flag", async () => {
+      vi.mocked(aiClient.patchJson).mockResolvedValueOnce({
+        rule: { id: "rule-1", enabled: false },
+      });
+
+      await automationsService.setRuleEnabled("rule-1", false);
+
+      expect(aiClient.patchJson).toHaveBeenCalledWith(
+        "/api/automations/rule-1",
+        { enabled: false }
+      );
+    });
+  });
+
+  describe("listRuns", () => {
+    it("filters the log by rule", async () => {
+      vi.mocked(aiClient.getJson).mockResolvedValueOnce({ runs: [] });
+
+      const result = await automationsService.listRuns({
+        ruleId: "rule-1",
+        limit: 20,
+      });
+
+      expect(aiClient.getJson).toHaveBeenCalledWith(
+        "/api/automations/runs?limit=20&ruleId=rule-1"
+      );
+      expect(result.data).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for backgroundJobs.ts (server-side job queue: enqueue, poll with
+ * progress, cancel)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as backgroundJobs from "@shared/services/backgroundJobs";
+import aiClient from "@shared/services/ai/client";
+
+vi.mock("@shared/services/ai/client", () => ({
+  default: {
+    postJson: vi.fn(),
+    getJson: vi.fn(),
+    patchJson: vi.fn(),
+    deleteJson: vi.fn(),
+  },
+}));
+
+function job(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "job-1",
+    kind: "job_import",
+    status: "pending",
+    progress: 0,
+    progress_message: null,
+    attempts: 0,
+    max_attempts: 3,
+    last_error: null,
+    created_at: "2026-10-19T15:00:00.000Z",
+    updated_at: "2026-10-19T15:00:00.000Z",
+    completed_at: null,
+    ...overrides,
+  };
+}
+
+describe("BackgroundJobsService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("runBackgroundJob", () => {
+    it("queues the job, reports progress and returns the result", async () => {
+      vi.mocked(aiClient.postJson).mockResolvedValueOnce({ job: job() });
+      vi.mocked(aiClient.getJson)
+        .mockResolvedValueOnce({
+          job: job({
+            status: "running",
+            progress: 10,
+            progress_message: "Fetching the job posting",
+            updated_at: "2026-10-19T15:00:01.000Z",
+          }),
+        })
+        .mockResolvedValueOnce({
+          job: job({
+            status: "succeeded",
+            progress: 100,
+            result: { jobData: { job_title: "Engineer" } },
+            updated_at: "2026-10-19T15:00:02.000Z",
+          }),
+        });
+      const onProgress = vi.fn();
+
+      const result = await backgroundJobs.runBackgroundJob(
+        "job_import",
+        { url: "https://jobs.example.com/1" },
+        { onProgress, pollIntervalMs: 0 }
+      );
+
+      expect(aiClient.postJson).toHaveBeenCalledWith("/api/background-jobs", {
+        kind: "job_import",
+        input: { url: "https://jobs.example.com/1" },
+      });
+      expect(aiClient.getJson).toHaveBeenCalledWith(
+        "/api/background-jobs/job-1"
+      );
+      expect(onProgress).toHaveBeenNthCalledWith(1, {
+        status: "running",
+        progress: 10,
+        message: "Fetching the job posting",
+      });
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: "succeeded", progress: 100 })
+      );
+      expect(result).toEqual({ jobData: { job_title: "Engineer" } });
+    });
+
+    it("rejects with the job's error when it fails", async () => {
+      vi.mocked(aiClient.postJson).mockResolvedValueOnce({ job: job() });
+      vi.mocked(aiClient.getJson).mockResolvedValueOnce({
+        job: job({ status: "failed", last_error: "Page not reachable" }),
+      });
+
+      await expect(
+        backgroundJobs.runBackgroundJob("job_import", {}, { pollIntervalMs: 0 })
+      ).rejects.toThrow("Page not reachable");
+    });
+  });
+
+  describe("waitForBackgroundJob", () => {
+    it("cancels the job on the server when aborted", async () => {
+      vi.mocked(aiClient.getJson).mockResolvedValue({
+        job: job({ status: "running" }),
+      });
+      vi.mocked(aiClient.postJson).mockResolvedValue({
+        job: job({ status: "cancelled" }),
+      });
+      const controller = new AbortController();
+
+      const waiting = backgroundJobs.waitForBackgroundJob("job-1", {
+        signal: controller.signal,
+        pollIntervalMs: 60_000,
+      });
+      await vi.waitFor(() => expect(aiClient.getJson).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(waiting).rejects.toMatchObject({ name: "AbortError" });
+      expect(aiClient.postJson).toHaveBeenCalledWith(
+        "/api/background-jobs/job-1/cancel",
+        {}
+      );
+    });
+
+    it("treats a job cancelled elsewhere as aborted", async () => {
+      vi.mocked(aiClient.getJson).mockResolvedValueOnce({
+        job: job({ status: "cancelled" }),
+      });
+
+      await expect(
+        backgroundJobs.waitForBackgroundJob("job-1")
+      ).rejects.toMatchObject({ name: "AbortError" });
+      expect(aiClient.postJson).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Tests for ai_workspace/services/exportService.ts
+ * Coverage: DOCX export for resumes and cover letters, server export API calls
+ *
+ * Exercises the real docx writer (no mocks) and checks that a valid
+ * Word package is produced for both document types.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const aiClient = vi.hoisted(() => ({
+  postJson: vi.fn(),
+  getJson: vi.fn(),
+}));
+
+vi.mock("@shared/services/ai/client", () => ({ default: aiClient }));
+
+import {
+  exportDocument,
+  exportDocumentOnServer,
+  getExportHistory,
+} from "@ai_workspace/services/exportService";
+import type { Document } from "@ai_workspace/types/document.types";
+import type { Template, Theme } from "@ai_workspace/types/template.types";
+
+let lastBlob: Blob | null = null;
+
+const template = {
+  id: "classic",
+  name: "Classic",
+  category: "resume",
+  layout: {
+    columns: 1,
+    pageSize: "letter",
+    margins: { top: 0.75, right: 0.75, bottom: 0.75, left: 0.75 },
+    sectionOrder: [
+      {
+        id: "header",
+        name: "Header",
+        type: "header",
+        required: true,
+        defaultEnabled: true,
+      },
+      {
+        id: "summary",
+        name: "Summary",
+        type: "summary",
+        required: false,
+        defaultEnabled: true,
+      },
+      {
+        id: "experience",
+        name: "Experience",
+        type: "experience",
+        required: true,
+        defaultEnabled: true,
+      },
+      {
+        id: "skills",
+        name: "Skills",
+        type: "skills",
+        required: false,
+        defaultEnabled: true,
+      },
+    ],
+  },
+} as unknown as Template;
+
+const theme = {
+  id: "professional",
+  name: "Professional",
+  typography: {
+    headingFont: { family: "Georgia", weights: [700], fallbacks: ["serif"] },
+    bodyFont: { family: "Arial", weights: [400], fallbacks: ["sans-serif"] },
+    sizes: { h1: 22, h2: 13, h3: 11, body: 10, small: 9 },
+  },
+  colors: {
+    primary: "#1a3d6d",
+    text: { primary: "#222222", secondary: "#555555", muted: "#888888" },
+    border: "#cccccc",
+  },
+  elements: { sectionDivider: "line" },
+} as unknown as Theme;
+
+function makeDocument(type: Document["type"], content: unknown): Document {
+  return {
+    id: "doc-1",
+    userId: "user-1",
+    type,
+    status: "draft",
+    config: {
+      name: "Test Document",
+      templateId: "classic",
+      themeId: "professional",
+    },
+    content,
+    stats: { charCount: 100 },
+  } as unknown as Document;
+}
+
+async function readZipSignature(blob: Blob): Promise<string> {
+  // jsdom's Blob has no arrayBuffer(), so go through FileReader
+  const buffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+  const bytes = new Uint8Array(buffer);
+  return String.fromCharCode(bytes[0], bytes[1]);
+}
+
+describe("Export Service - DOCX", () => {
+  beforeEach(() => {
+    lastBlob = null;
+    vi.stubGlobal("URL", {
+      ...URL,
+      createObjectURL: (blob: Blob) => {
+        lastBlob = blob;
+        return "blob:test";
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should export a resume to a .docx package", async () => {
+    const document = makeDocument("resume", {
+      header: {
+        fullName: "Jane Doe",
+        title: "Software Engineer",
+        email: "jane@example.com",
+        phone: "555-0100",
+        location: "Newark, NJ",
+        links: [],
+      },
+      summary: { enabled: true, text: "Engineer focused on reliable systems." },
+      experience: {
+        enabled: true,
+        items: [
+          {
+            title: "Engineer",
+            company: "Acme",
+            location: "Remote",
+            startDate: "2021",
+            endDate: null,
+            current: true,
+            bullets: ["Shipped the billing service", ""],
+          },
+        ],
+      },
+      skills: {
+        enabled: true,
+        categories: [
+          {
+            name: "Languages",
+            skills: [{ name: "TypeScript", highlighted: true }],
+          },
+        ],
+      },
+    });
+
+    const result = await exportDocument(document, template, theme, {
+      format: "docx",
+      includeTemplate: true,
+      includeTheme: true,
+      filename: "resume",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.filename).toBe("resume.docx");
+    expect(result.metadata?.format).toBe("docx");
+    expect(result.fileSize).toBeGreaterThan(0);
+    expect(lastBlob).not.toBeNull();
+    expect(await readZipSignature(lastBlob!)).toBe("PK");
+  });
+
+  it("should export a cover letter without a template section order", async () => {
+    const document = makeDocument("cover-letter", {
+      header: {
+        fullName: "Jane Doe",
+        email: "jane@example.com",
+        phone: "555-0100",
+        location: "Newark, NJ",
+        date: "October 1, 2026",
+      },
+      recipient: { name: "Alex Smith", company: "Acme" },
+      salutation: "Dear Alex,",
+      body: {
+        opening: "I am excited to apply.",
+        body1: "I built things.",
+        closing: "Thank you.",
+      },
+      signature: { closing: "Sincerely,", name: "Jane Doe" },
+    });
+
+    const result = await exportDocument(document, template, theme, {
+      format: "docx",
+      includeTemplate: false,
+      includeTheme: false,
+      filename: "cover-letter",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.filename).toBe("cover-letter.docx");
+    expect(await readZipSignature(lastBlob!)).toBe("PK");
+  });
+});
+
+describe("Export Service - server exports", () => {
+  beforeEach(() => {
+    aiClient.postJson.mockReset();
+    aiClient.getJson.mockReset();
+  });
+
+  it("should post to the format endpoint and return the signed URL", async () => {
+    aiClient.postJson.mockResolvedValue({
+      export: {
+        id: "exp-1",
+        file_name: "resume.pdf",
+        file_size_bytes: 2048,
+        created_at: "2026-10-19T00:00:00Z",
+      },
+      downloadUrl: "https://storage.example/signed",
+    });
+
+    const result = await exportDocumentOnServer("doc-1", "pdf", {
+      sentTo: "Acme",
+    });
+
+    expect(aiClient.postJson).toHaveBeenCalledWith("/api/export/pdf", {
+      documentId: "doc-1",
+      sentTo: "Acme",
+    });
+    expect(result).toMatchObject({
+      success: true,
+      filename: "resume.pdf",
+      fileSize: 2048,
+      downloadUrl: "https://storage.example/signed",
+    });
+  });
+
+  it("should surface API errors as a failed result", async () => {
+    aiClient.postJson.mockRejectedValue(new Error("Document not found"));
+
+    const result = await exportDocumentOnServer("missing", "docx");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Document not found");
+  });
+
+  it("should map export_history rows to history entries", async () => {
+    aiClient.getJson.mockResolvedValue({
+      exports: [
+        {
+          id: "exp-1",
+          document_id: "doc-1",
+          format: "docx",
+          file_name: "resume.docx",
+          file_size_bytes: null,
+          status: "completed",
+          sent_to: "Acme",
+          created_at: "2026-10-19T00:00:00Z",
+          download_count: 2,
+        },
+      ],
+    });
+
+    const entries = await getExportHistory("doc-1");
+
+    expect(aiClient.getJson).toHaveBeenCalledWith(
+      "/api/export/history?documentId=doc-1"
+    );
+    expect(entries).toEqual([
+      {
+        id: "exp-1",
+        documentId: "doc-1",
+        format: "docx",
+        filename: "resume.docx",
+        timestamp: "2026-10-19T00:00:00Z",
+        fileSize: undefined,
+        sentTo: "Acme",
+        downloadCount: 2,
+        status: "completed",
+      },
+    ]);
+  });
+});
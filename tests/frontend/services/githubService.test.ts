@@ -0,0 +1,141 @@
+/**
+ * Tests for profile/services/github.ts (server sync through the job queue,
+ * skill suggestions, projects from repositories, language breakdown)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const userCrud = vi.hoisted(() => ({
+  listRows: vi.fn(),
+  updateRow: vi.fn(),
+}));
+
+const jobs = vi.hoisted(() => ({ waitForBackgroundJob: vi.fn() }));
+
+vi.mock("@shared/services/crud", () => ({
+  withUser: () => userCrud,
+}));
+
+vi.mock("@shared/services/backgroundJobs", () => jobs);
+
+vi.mock("@shared/services/ai/client", () => ({
+  default: {
+    postJson: vi.fn(),
+    getJson: vi.fn(),
+  },
+}));
+
+import aiClient from "@shared/services/ai/client";
+import {
+  applyGithubSkillSuggestions,
+  createProjectFromRepository,
+  languageBreakdown,
+  listRepositories,
+  setRepositoryFeatured,
+  syncGithub,
+} from "@profile/services/github";
+
+beforeEach(() => {
+  vi.mocked(aiClient.postJson).mockReset();
+  vi.mocked(aiClient.getJson).mockReset();
+  jobs.waitForBackgroundJob.mockReset();
+  userCrud.listRows.mockReset();
+  userCrud.updateRow.mockReset();
+});
+
+describe("github.syncGithub", () => {
+  it("queues the sync with the sign-in token and waits for the job", async () => {
+    const result = { login: "ada", repositories: 3, added: 1, skills: [] };
+    vi.mocked(aiClient.postJson).mockResolvedValueOnce({ job: { id: "j1" } });
+    jobs.waitForBackgroundJob.mockResolvedValueOnce(result);
+    const onProgress = vi.fn();
+
+    const res = await syncGithub({ token: "gho_1", onProgress });
+
+    expect(res).toEqual({ data: result, error: null, status: 200 });
+    expect(aiClient.postJson).toHaveBeenCalledWith("/api/github/sync", {
+      token: "gho_1",
+    });
+    expect(jobs.waitForBackgroundJob).toHaveBeenCalledWith("j1", {
+      onProgress,
+      signal: undefined,
+    });
+  });
+
+  it("uses the stored token when none is given and returns job failures", async () => {
+    vi.mocked(aiClient.postJson).mockResolvedValueOnce({ job: { id: "j2" } });
+    jobs.waitForBackgroundJob.mockRejectedValueOnce(
+      new Error("GitHub API rate limit reached")
+    );
+
+    const res = await syncGithub({ token: null });
+
+    expect(aiClient.postJson).toHaveBeenCalledWith("/api/github/sync", {});
+    expect(res.data).toBeNull();
+    expect(res.error?.message).toBe("GitHub API rate limit reached");
+  });
+});
+
+describe("github repositories", () => {
+  it("lists and features the user's rows", async () => {
+    userCrud.listRows.mockResolvedValueOnce({ data: [], error: null });
+    userCrud.updateRow.mockResolvedValueOnce({ data: {}, error: null });
+
+    await listRepositories("user-1");
+    await setRepositoryFeatured("user-1", 7, true);
+
+    expect(userCrud.listRows).toHaveBeenCalledWith("repositories", "*", {
+      order: { column: "stargazers_count", ascending: false },
+    });
+    expect(userCrud.updateRow).toHaveBeenCalledWith(
+      "repositories",
+      { is_featured: true },
+      { eq: { id: 7 } }
+    );
+  });
+
+  it("creates a project from a repository", async () => {
+    vi.mocked(aiClient.postJson).mockResolvedValueOnce({
+      project: { id: "p1", proj_name: "api" },
+      aiGenerated: true,
+    });
+
+    const res = await createProjectFromRepository(7);
+
+    expect(aiClient.postJson).toHaveBeenCalledWith(
+      "/api/github/repositories/7/project",
+      { useAi: true }
+    );
+    expect(res.data).toEqual({ projectId: "p1", aiGenerated: true });
+  });
+
+  it("sends accepted skill names", async () => {
+    const applied = { added: ["Go"], updated: [], skipped: [] };
+    vi.mocked(aiClient.postJson).mockResolvedValueOnce(applied);
+
+    const res = await applyGithubSkillSuggestions(["Go"]);
+
+    expect(aiClient.postJson).toHaveBeenCalledWith("/api/github/skills/apply", {
+      skills: ["Go"],
+    });
+    expect(res.data).toEqual(applied);
+  });
+});
+
+describe("github.languageBreakdown", () => {
+  it("keeps the largest languages and sums the rest as Other", () => {
+    const parts = languageBreakdown(
+      { TypeScript: 600, CSS: 200, Shell: 100, HTML: 60, Dockerfile: 40 },
+      3
+    );
+
+    expect(parts.map((p) => [p.language, p.share])).toEqual([
+      ["TypeScript", 0.6],
+      ["CSS", 0.2],
+      ["Shell", 0.1],
+      ["Other", 0.1],
+    ]);
+    expect(languageBreakdown({})).toEqual([]);
+    expect(languageBreakdown(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Tests for interviewPrepService.ts (cloud-synced response library and
+ * practice history)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as interviewPrepService from "@workspaces/interview_hub/services/interviewPrepService";
+import { supabase } from "@shared/services/supabaseClient";
+import type { InterviewPracticeAttemptRow } from "@workspaces/interview_hub/types/interviewPrep.types";
+
+// Mock Supabase client
+vi.mock("@shared/services/supabaseClient", () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+type Final = { data: unknown; error: unknown; count?: number };
+
+/**
+ * Chainable mock: every builder method is a spy returning the builder, and
+ * the builder resolves to `finalValue` whether awaited or ended with single()
+ */
+function createQueryMock(finalValue: Final) {
+  const mock: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of [
+    "select",
+    "insert",
+    "update",
+    "upsert",
+    "delete",
+    "eq",
+    "contains",
+    "order",
+    "limit",
+  ]) {
+    mock[method] = vi.fn().mockReturnValue(mock);
+  }
+  mock.single = vi.fn().mockResolvedValue(finalValue);
+  (mock as any).then = (resolve: (v: Final) => unknown) => resolve(finalValue);
+  return mock;
+}
+
+/** Queue one query result per supabase.from() call, in call order */
+function queueQueries(...results: Array<{ table: string } & Final>) {
+  const mocks = results.map(({ table, ...final }) => ({
+    table,
+    mock: createQueryMock(final),
+  }));
+  let call = 0;
+  vi.mocked(supabase.from).mockImplementation(((table: string) => {
+    const next = mocks[call++];
+    expect(next?.table).toBe(table);
+    return next.mock;
+  }) as any);
+  return mocks.map((m) => m.mock);
+}
+
+function attempt(
+  overrides: Partial<InterviewPracticeAttemptRow>
+): InterviewPracticeAttemptRow {
+  return {
+    id: "a-1",
+    user_id: "user-123",
+    question_text: "Tell me about a conflict",
+    question_key: "k-conflict",
+    category: "behavioral",
+    source: "question_bank",
+    origin: null,
+    response_text: null,
+    elapsed_ms: null,
+    status: "completed",
+    score: null,
+    feedback: null,
+    model_answer: null,
+    job_id: null,
+    response_id: null,
+    practiced_at: "2026-10-01T10:00:00.000Z",
+    created_at: "2026-10-01T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("InterviewPrepService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe("normalizeScore", () => {
+    it("converts fractions to percentages and clamps to 0-100", () => {
+      expect(interviewPrepService.normalizeScore(0.85)).toBe(85);
+      expect(interviewPrepService.normalizeScore("72.4")).toBe(72);
+      expect(interviewPrepService.normalizeScore(130)).toBe(100);
+      expect(interviewPrepService.normalizeScore(-5)).toBe(0);
+      expect(interviewPrepService.normalizeScore("n/a")).toBeNull();
+      expect(interviewPrepService.normalizeScore(null)).toBeNull();
+    });
+  });
+
+  describe("buildPracticeHistory", () => {
+    it("groups attempts per question and tracks score improvement", () => {
+      const history = interviewPrepService.buildPracticeHistory([
+        attempt({
+          id: "a-3",
+          score: 82,
+          practiced_at: "2026-10-10T10:00:00.000Z",
+        }),
+        attempt({
+          id: "a-1",
+          score: 55,
+          practiced_at: "2026-10-01T10:00:00.000Z",
+        }),
+        attempt({
+          id: "a-2",
+          score: null,
+          practiced_at: "2026-10-05T10:00:00.000Z",
+        }),
+        attempt({
+          id: "b-1",
+          question_text: "Design a URL shortener",
+          question_key: "k-design",
+          category: "technical",
+          source: "technical_prep",
+          score: 70,
+          practiced_at: "2026-10-12T10:00:00.000Z",
+        }),
+      ]);
+
+      expect(history.map((h) => h.questionKey)).toEqual([
+        "k-design",
+        "k-conflict",
+      ]);
+
+      const conflict = history[1];
+      expect(conflict.attempts.map((a) => a.id)).toEqual(["a-1", "a-2", "a-3"]);
+      expect(conflict).toMatchObject({
+        firstScore: 55,
+        latestScore: 82,
+        bestScore: 82,
+        improvement: 27,
+        lastPracticedAt: "2026-10-10T10:00:00.000Z",
+      });
+
+      // a single scored attempt has no trend yet
+      expect(history[0]).toMatchObject({
+        firstScore: 70,
+        latestScore: 70,
+        improvement: null,
+      });
+    });
+
+    it("returns an empty list when nothing was practiced", () => {
+      expect(interviewPrepService.buildPracticeHistory([])).toEqual([]);
+    });
+  });
+
+  describe("saveResponse", () => {
+    it("upserts the question, adds a version and links jobs", async () => {
+      const [responses, versions, unlink, link, reload] = queueQueries(
+        { table: "interview_responses", data: { id: "resp-1" }, error: null },
+        { table: "interview_response_versions", data: null, error: null },
+        { table: "interview_response_jobs", data: null, error: null },
+        { table: "interview_response_jobs", data: null, error: null },
+        {
+          table: "interview_responses",
+          data: {
+            id: "resp-1",
+            question_text: "Tell me about a conflict",
+            competencies: ["conflict_resolution"],
+            versions: [
+              { id: "v-1", created_at: "2026-10-01T00:00:00.000Z" },
+              { id: "v-2", created_at: "2026-10-19T00:00:00.000Z" },
+            ],
+            jobs: [{ job_id: 7 }],
+          },
+          error: null,
+        }
+      );
+
+      const result = await interviewPrepService.saveResponse("user-123", {
+        questionText: "  Tell me about a conflict ",
+        category: "behavioral",
+        content: "Situation: ...",
+        competencies: ["conflict_resolution", "conflict_resolution"],
+        tags: [" star ", ""],
+        jobIds: [7, 7],
+        score: 0.9,
+      });
+
+      expect(responses.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: "user-123",
+          question_text: "Tell me about a conflict",
+          competencies: ["conflict_resolution"],
+          tags: ["star"],
+        }),
+        { onConflict: "user_id,question_key" }
+      );
+      expect(versions.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          response_id: "resp-1",
+          content: "Situation: ...",
+          score: 90,
+        })
+      );
+      expect(unlink.delete).toHaveBeenCalled();
+      expect(link.insert).toHaveBeenCalledWith([
+        { response_id: "resp-1", job_id: 7, user_id: "user-123" },
+      ]);
+      expect(reload.eq).toHaveBeenCalledWith("id", "resp-1");
+
+      expect(result.error).toBeNull();
+      expect(result.data?.versions.map((v) => v.id)).toEqual(["v-2", "v-1"]);
+      expect(result.data?.job_ids).toEqual([7]);
+    });
+
+    it("rejects an empty question without touching the database", async () => {
+      const result = await interviewPrepService.saveResponse("user-123", {
+        questionText: "   ",
+        content: "An answer",
+      });
+
+      expect(result.error?.message).toBe("Question text is required");
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteResponseVersion", () => {
+    it("removes the entry together with its last version", async () => {
+      const [, , response] = queueQueries(
+        { table: "interview_response_versions", data: null, error: null },
+        {
+          table: "interview_response_versions",
+          data: null,
+          error: null,
+          count: 0,
+        },
+        { table: "interview_responses", data: null, error: null }
+      );
+
+      const result = await interviewPrepService.deleteResponseVersion(
+        "user-123",
+        "resp-1",
+        "v-1"
+      );
+
+      expect(result.data).toEqual({ responseDeleted: true });
+      expect(response.delete).toHaveBeenCalled();
+      expect(response.eq).toHaveBeenCalledWith("id", "resp-1");
+    });
+
+    it("keeps the entry while other versions remain", async () => {
+      queueQueries(
+        { table: "interview_response_versions", data: null, error: null },
+        {
+          table: "interview_response_versions",
+          data: null,
+          error: null,
+          count: 2,
+        }
+      );
+
+      const result = await interviewPrepService.deleteResponseVersion(
+        "user-123",
+        "resp-1",
+        "v-1"
+      );
+
+      expect(result.data).toEqual({ responseDeleted: false });
+      expect(supabase.from).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("importLocalInterviewPrep", () => {
+    it("uploads local attempts and clears the local copies", async () => {
+      localStorage.setItem(
+        "sgt:technical_prep_attempts",
+        JSON.stringify([
+          {
+            id: "t-1",
+            text: "Reverse a linked list",
+            category: "technical",
+            origin: "coding",
+            code: "function reverse() {}",
+            elapsedMs: 120000,
+            status: "completed",
+            practicedAt: "2026-09-01T00:00:00.000Z",
+          },
+        ])
+      );
+      localStorage.setItem(
+        "sgt:user:user-123:interview_question_practice",
+        JSON.stringify([{ id: "p-1", questionId: "q-unknown" }])
+      );
+      const [attempts] = queueQueries({
+        table: "interview_practice_attempts",
+        data: null,
+        error: null,
+      });
+
+      const result =
+        await interviewPrepService.importLocalInterviewPrep("user-123");
+
+      expect(result.data).toEqual({ responses: 0, attempts: 1 });
+      expect(attempts.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          user_id: "user-123",
+          question_text: "Reverse a linked list",
+          source: "technical_prep",
+          origin: "coding",
+          response_text: "function reverse() {}",
+          elapsed_ms: 120000,
+          practiced_at: "2026-09-01T00:00:00.000Z",
+        }),
+      ]);
+      expect(localStorage.getItem("sgt:technical_prep_attempts")).toBeNull();
+      expect(
+        localStorage.getItem("sgt:user:user-123:interview_question_practice")
+      ).toBeNull();
+    });
+
+    it("keeps local data when the upload fails", async () => {
+      localStorage.setItem(
+        "sgt:technical_prep_attempts",
+        JSON.stringify([{ text: "Reverse a linked list" }])
+      );
+      queueQueries({
+        table: "interview_practice_attempts",
+        data: null,
+        error: { message: "permission denied" },
+      });
+
+      const result =
+        await interviewPrepService.importLocalInterviewPrep("user-123");
+
+      expect(result.error?.message).toBe("permission denied");
+      expect(localStorage.getItem("sgt:technical_prep_attempts")).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Tests for jobOffersService.ts (offers stored per job and compensation
+ * projections)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as jobOffersService from "@job_pipeline/services/jobOffersService";
+import { supabase } from "@shared/services/supabaseClient";
+import aiClient from "@shared/services/ai/client";
+import type { JobOfferWithJob } from "@job_pipeline/types";
+
+// Mock Supabase client
+vi.mock("@shared/services/supabaseClient", () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock("@shared/services/ai/client", () => ({
+  default: {
+    postJson: vi.fn(),
+    getJson: vi.fn(),
+  },
+}));
+
+type Final = { data: unknown; error: unknown };
+
+/** Chainable mock resolving to `finalValue` when awaited or via single() */
+function createQueryMock(finalValue: Final) {
+  const mock: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of [
+    "select",
+    "insert",
+    "update",
+    "upsert",
+    "delete",
+    "eq",
+    "in",
+    "order",
+  ]) {
+    mock[method] = vi.fn().mockReturnValue(mock);
+  }
+  mock.single = vi.fn().mockResolvedValue(finalValue);
+  (mock as any).then = (resolve: (v: Final) => unknown) => resolve(finalValue);
+  return mock;
+}
+
+/** Queue one query result per supabase.from() call, in call order */
+function queueQueries(...results: Final[]) {
+  const mocks = results.map(createQueryMock);
+  let call = 0;
+  vi.mocked(supabase.from).mockImplementation(((table: string) => {
+    expect(table).toBe("job_offers");
+    return mocks[call++];
+  }) as any);
+  return mocks;
+}
+
+function offer(overrides: Partial<JobOfferWithJob>): JobOfferWithJob {
+  return {
+    id: "offer-1",
+    user_id: "user-123",
+    job_id: 7,
+    base_salary: 150000,
+    initial_base_salary: 140000,
+    status: "active",
+    job: { job_title: "Engineer", company_name: "Acme" },
+    ...overrides,
+  } as JobOfferWithJob;
+}
+
+describe("JobOffersService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe("listOffers", () => {
+    it("hides archived offers unless requested", async () => {
+      const [query] = queueQueries({ data: [offer({})], error: null });
+
+      const result = await jobOffersService.listOffers("user-123");
+
+      expect(query.in).toHaveBeenCalledWith("status", ["active", "accepted"]);
+      expect(result.data).toHaveLength(1);
+    });
+  });
+
+  describe("saveOffer", () => {
+    it("upserts by job and records the first base salary as the initial offer", async () => {
+      const [upsert, update] = queueQueries(
+        {
+          data: offer({ base_salary: 120000, initial_base_salary: null }),
+          error: null,
+        },
+        {
+          data: offer({ base_salary: 120000, initial_base_salary: 120000 }),
+          error: null,
+        }
+      );
+
+      const result = await jobOffersService.saveOffer("user-123", 7, {
+        base_salary: 120000,
+      });
+
+      expect(upsert.upsert).toHaveBeenCalledWith(
+        { base_salary: 120000, user_id: "user-123", job_id: 7 },
+        { onConflict: "job_id" }
+      );
+      expect(update.update).toHaveBeenCalledWith({
+        initial_base_salary: 120000,
+      });
+      expect(result.data?.initial_base_salary).toBe(120000);
+    });
+
+    it("rejects a negative base salary", async () => {
+      const result = await jobOffersService.saveOffer("user-123", 7, {
+        base_salary: -1,
+      });
+
+      expect(result.error?.message).toBe("Base salary cannot be negative");
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getOfferProjection", () => {
+    it("sends offer rows with labels and returns the comparison", async () => {
+      const comparison = { horizonYears: 4, offers: [], breakEven: [] };
+      vi.mocked(aiClient.postJson).mockResolvedValueOnce(comparison);
+
+      const result = await jobOffersService.getOfferProjection([offer({})]);
+
+      expect(aiClient.postJson).toHaveBeenCalledWith(
+        "/api/offers/projection",
+        {
+          offers: [
+            expect.objectContaining({
+              id: "offer-1",
+              base_salary: 150000,
+              label: "Engineer — Acme",
+            }),
+          ],
+          horizonYears: 4,
+        }
+      );
+      expect(result.data).toEqual(comparison);
+    });
+
+    it("wraps request failures in a Result", async () => {
+      vi.mocked(aiClient.postJson).mockRejectedValueOnce(
+        new Error("offers must be a non-empty array")
+      );
+
+      const result = await jobOffersService.getOfferProjection([offer({})]);
+
+      expect(result.error?.message).toBe("offers must be a non-empty array");
+    });
+  });
+
+  describe("importLocalOffers", () => {
+    it("moves offers matched by company onto their jobs and keeps the rest", async () => {
+      localStorage.setItem(
+        "offers:compare",
+        JSON.stringify([
+          {
+            title: "Engineer",
+            company: "Acme",
+            salary: 130000,
+            bonus: 10000,
+            equityValue: 25000,
+            benefitsValue: 8000,
+            location: "Boston",
+            colIndex: 1.3,
+          },
+          { title: "PM", company: "Unknown Co", salary: 90000 },
+        ])
+      );
+      const [upsert] = queueQueries({ data: null, error: null });
+
+      const result = await jobOffersService.importLocalOffers("user-123", [
+        { id: 7, job_title: "Engineer", company_name: "ACME " },
+        { id: 8, job_title: "Designer", company_name: "Other" },
+      ]);
+
+      expect(result.data).toEqual({ imported: 1, unmatched: 1 });
+      expect(upsert.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            user_id: "user-123",
+            job_id: 7,
+            base_salary: 130000,
+            initial_base_salary: 130000,
+            bonus_target: 10000,
+            equity_grant_value: 100000,
+            col_index: 1.3,
+          }),
+        ],
+        { onConflict: "job_id", ignoreDuplicates: true }
+      );
+      expect(JSON.parse(localStorage.getItem("offers:compare")!)).toEqual([
+        { title: "PM", company: "Unknown Co", salary: 90000 },
+      ]);
+    });
+
+    it("keeps local offers when the upload fails", async () => {
+      localStorage.setItem(
+        "offers:compare",
+        JSON.stringify([{ title: "Engineer", company: "Acme", salary: 1 }])
+      );
+      queueQueries({ data: null, error: { message: "permission denied" } });
+
+      const result = await jobOffersService.importLocalOffers("user-123", [
+        { id: 7, job_title: "Engineer", company_name: "Acme" },
+      ]);
+
+      expect(result.error?.message).toBe("permission denied");
+      expect(localStorage.getItem("offers:compare")).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for jobsService.ts paginated listing (server-side search via
+ * GET /api/jobs)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import jobsService from "@job_pipeline/services/jobsService";
+import aiClient from "@shared/services/ai/client";
+
+vi.mock("@shared/services/ai/client", () => ({
+  default: { getJson: vi.fn() },
+}));
+vi.mock("@shared/services/supabaseClient", () => ({ supabase: {} }));
+vi.mock("@workspaces/team_management/services/progressSharingService", () => ({
+  checkAndCreateAchievement: vi.fn(),
+}));
+
+const STAGE_COUNTS = { Interested: 3, Applied: 2, Interview: 0 };
+
+function response(jobs: Array<{ id: number }>, totalItems: number) {
+  return {
+    data: jobs,
+    pagination: { totalItems, hasNextPage: totalItems > jobs.length },
+    stageCounts: STAGE_COUNTS,
+  };
+}
+
+describe("jobsService.listJobsPaginated", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("sends the filters as query parameters and maps the page", async () => {
+    vi.mocked(aiClient.getJson).mockResolvedValueOnce(
+      response([{ id: 7 }, { id: 6 }], 5)
+    );
+
+    const result = await jobsService.listJobsPaginated("user-1", {
+      search: "react -angular",
+      stage: "All",
+      industry: "",
+      minSalary: 100000,
+      sortBy: "company_name",
+      sortOrder: "asc",
+      limit: 2,
+      offset: 2,
+    });
+
+    const url = vi.mocked(aiClient.getJson).mock.calls[0][0] as string;
+    const params = new URL(url, "http://localhost").searchParams;
+    expect(url.startsWith("/api/jobs?")).toBe(true);
+    expect(Object.fromEntries(params)).toEqual({
+      search: "react -angular",
+      minSalary: "100000",
+      sortBy: "company_name",
+      sortOrder: "asc",
+      limit: "2",
+      offset: "2",
+    });
+    expect(result.data).toEqual({
+      jobs: [{ id: 7 }, { id: 6 }],
+      total: 5,
+      limit: 2,
+      offset: 2,
+      hasMore: true,
+      stageCounts: STAGE_COUNTS,
+    });
+  });
+
+  it("returns the server error message", async () => {
+    vi.mocked(aiClient.getJson).mockRejectedValueOnce(
+      new Error("sortBy must be one of created_at, application_deadline")
+    );
+
+    const result = await jobsService.listJobsPaginated("user-1", {});
+
+    expect(result.data).toBeNull();
+    expect(result.error?.message).toContain("sortBy must be one of");
+  });
+});
+
+describe("jobsService.countJobs", () => {
+  it("reads the total from a one-row page", async () => {
+    vi.mocked(aiClient.getJson).mockResolvedValueOnce(
+      response([{ id: 1 }], 42)
+    );
+
+    const result = await jobsService.countJobs("user-1", {
+      stage: "Applied",
+      limit: 20,
+      offset: 40,
+    });
+
+    const url = vi.mocked(aiClient.getJson).mock.calls.at(-1)![0] as string;
+    expect(url).toContain("stage=Applied");
+    expect(url).toContain("limit=1");
+    expect(result.data).toBe(42);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for profile/services/portfolio.ts (settings through the API, the
+ * public page without sign-in, slugs and links)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@shared/services/ai/client", () => ({
+  default: {
+    getJson: vi.fn(),
+    patchJson: vi.fn(),
+  },
+}));
+
+import aiClient from "@shared/services/ai/client";
+import {
+  getPortfolio,
+  getPublicPortfolio,
+  portfolioUrl,
+  savePortfolio,
+  toPortfolioSlug,
+} from "@profile/services/portfolio";
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  vi.mocked(aiClient.getJson).mockReset();
+  vi.mocked(aiClient.patchJson).mockReset();
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function response(status: number, body: unknown) {
+  return { ok: status < 400, status, json: async () => body };
+}
+
+describe("portfolio.toPortfolioSlug / portfolioUrl", () => {
+  it("normalizes like the server and builds the public link", () => {
+    expect(toPortfolioSlug("  Ada_Lovelace  Portfolio ")).toBe(
+      "ada-lovelace-portfolio"
+    );
+    expect(portfolioUrl("ada", "https://app.example.com")).toBe(
+      "https://app.example.com/p/ada"
+    );
+  });
+});
+
+describe("portfolio.getPortfolio / savePortfolio", () => {
+  it("returns null until a portfolio is saved", async () => {
+    vi.mocked(aiClient.getJson).mockResolvedValueOnce({ portfolio: null });
+
+    expect(await getPortfolio()).toEqual({
+      data: null,
+      error: null,
+      status: 200,
+    });
+    expect(aiClient.getJson).toHaveBeenCalledWith("/api/portfolio");
+  });
+
+  it("patches the settings and keeps the status of failures", async () => {
+    const saved = { slug: "ada", is_published: true };
+    vi.mocked(aiClient.patchJson).mockResolvedValueOnce({ portfolio: saved });
+
+    const res = await savePortfolio({ slug: "ada", is_published: true });
+
+    expect(res.data).toEqual(saved);
+    expect(aiClient.patchJson).toHaveBeenCalledWith("/api/portfolio", {
+      slug: "ada",
+      is_published: true,
+    });
+
+    const taken = Object.assign(new Error("That address is already taken"), {
+      status: 409,
+    });
+    vi.mocked(aiClient.patchJson).mockRejectedValueOnce(taken);
+
+    expect(await savePortfolio({ slug: "bob" })).toEqual({
+      data: null,
+      error: { message: "That address is already taken", status: 409 },
+      status: 409,
+    });
+  });
+});
+
+describe("portfolio.getPublicPortfolio", () => {
+  it("loads the page without auth headers", async () => {
+    const page = { slug: "ada", name: "Ada Lovelace" };
+    fetchMock.mockResolvedValueOnce(response(200, { portfolio: page }));
+
+    const res = await getPublicPortfolio("ada");
+
+    expect(res).toEqual({ data: page, error: null, status: 200 });
+    expect(fetchMock).toHaveBeenCalledWith("/api/public/portfolios/ada");
+  });
+
+  it("explains unknown or unpublished pages", async () => {
+    fetchMock.mockResolvedValueOnce(response(404, { error: "Not Found" }));
+
+    const res = await getPublicPortfolio("nobody");
+
+    expect(res.data).toBeNull();
+    expect(res.error).toEqual({
+      message: "This portfolio does not exist or is not published",
+      status: 404,
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Tests for profile/services/resumeImport.ts (file checks, base64 upload,
+ * building the merge request from the review selection)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as resumeImport from "@profile/services/resumeImport";
+import aiClient from "@shared/services/ai/client";
+import type {
+  ResumeImportItem,
+  ResumeImportPreview,
+} from "@profile/types/resumeImport";
+
+vi.mock("@shared/services/ai/client", () => ({
+  default: {
+    postJson: vi.fn(),
+    getJson: vi.fn(),
+  },
+}));
+
+function item(overrides: Partial<ResumeImportItem>): ResumeImportItem {
+  return {
+    id: "employment-0",
+    section: "employment",
+    action: "new",
+    existingId: null,
+    data: {},
+    changes: [],
+    missing: [],
+    ambiguous: [],
+    confidence: 1,
+    source: "",
+    ...overrides,
+  };
+}
+
+const preview: ResumeImportPreview = {
+  format: "pdf",
+  pages: 1,
+  profile: {
+    changes: [
+      { field: "city", current: "Dallas", imported: "Austin" },
+      { field: "phone", current: null, imported: "555-123-4567" },
+    ],
+  },
+  items: [
+    item({
+      id: "employment-0",
+      action: "update",
+      existingId: "emp-1",
+      data: {
+        job_title: "Senior Engineer",
+        company_name: "Acme",
+        start_date: "2021-01-01",
+      },
+      changes: [
+        {
+          field: "job_title",
+          current: "Engineer",
+          imported: "Senior Engineer",
+        },
+      ],
+    }),
+    item({
+      id: "employment-1",
+      data: { job_title: "Engineer", company_name: "Northwind" },
+      missing: ["start_date"],
+    }),
+    item({
+      id: "skills-0",
+      section: "skills",
+      action: "duplicate",
+      existingId: "skill-1",
+      data: { skill_name: "Go" },
+    }),
+    item({
+      id: "skills-1",
+      section: "skills",
+      data: { skill_name: "Rust" },
+    }),
+  ],
+  unassigned: [],
+  ai: { used: false, resolved: 0 },
+};
+
+describe("resumeImport.validateResumeFile", () => {
+  it("accepts PDF and DOCX files up to 5 MB", () => {
+    expect(
+      resumeImport.validateResumeFile(new File(["%PDF-"], "cv.pdf"))
+    ).toBeNull();
+    expect(
+      resumeImport.validateResumeFile(new File(["PK"], "Resume.DOCX"))
+    ).toBeNull();
+  });
+
+  it("explains why other files are rejected", () => {
+    expect(resumeImport.validateResumeFile(new File(["x"], "cv.doc"))).toMatch(
+      /\.docx or PDF/
+    );
+    expect(resumeImport.validateResumeFile(new File(["x"], "cv.png"))).toBe(
+      "Upload a PDF or Word (.docx) resume"
+    );
+    expect(resumeImport.validateResumeFile(new File([], "cv.pdf"))).toBe(
+      "The file is empty"
+    );
+    const big = new File(["x"], "cv.pdf");
+    Object.defineProperty(big, "size", {
+      value: resumeImport.MAX_RESUME_FILE_BYTES + 1,
+    });
+    expect(resumeImport.validateResumeFile(big)).toMatch(/5 MB/);
+  });
+});
+
+describe("resumeImport.parseResume", () => {
+  beforeEach(() => {
+    vi.mocked(aiClient.postJson).mockReset();
+  });
+
+  it("uploads the file as base64 and returns the preview", async () => {
+    vi.mocked(aiClient.postJson).mockResolvedValueOnce({ preview });
+
+    const res = await resumeImport.parseResume(
+      new File(["%PDF-1.4 resume"], "cv.pdf"),
+      { useAi: false }
+    );
+
+    expect(res).toEqual({ data: preview, error: null, status: 200 });
+    expect(aiClient.postJson).toHaveBeenCalledWith("/api/resume-import/parse", {
+      fileName: "cv.pdf",
+      contentBase64: Buffer.from("%PDF-1.4 resume").toString("base64"),
+      useAi: false,
+    });
+  });
+
+  it("does not upload files it would reject", async () => {
+    const res = await resumeImport.parseResume(new File(["x"], "cv.txt"));
+
+    expect(res.error?.message).toBe("Upload a PDF or Word (.docx) resume");
+    expect(aiClient.postJson).not.toHaveBeenCalled();
+  });
+
+  it("returns server errors as a Result", async () => {
+    vi.mocked(aiClient.postJson).mockRejectedValueOnce(
+      new Error("No text found in this PDF")
+    );
+
+    const res = await resumeImport.parseResume(new File(["%PDF-"], "cv.pdf"));
+    expect(res.data).toBeNull();
+    expect(res.error?.message).toBe("No text found in this PDF");
+  });
+});
+
+describe("resumeImport.buildMergeInput", () => {
+  it("sends new rows, changed fields of updates and chosen profile fields", () => {
+    const input = resumeImport.buildMergeInput(preview, {
+      profileFields: ["phone"],
+      itemIds: ["employment-0", "employment-1", "skills-0"],
+      edits: { "employment-1": { start_date: "2019-04" } },
+    });
+
+    expect(input).toEqual({
+      profile: { phone: "555-123-4567" },
+      items: [
+        {
+          section: "employment",
+          action: "update",
+          existingId: "emp-1",
+          data: { job_title: "Senior Engineer" },
+        },
+        {
+          section: "employment",
+          action: "new",
+          data: {
+            job_title: "Engineer",
+            company_name: "Northwind",
+            start_date: "2019-04",
+          },
+        },
+      ],
+    });
+  });
+
+  it("omits the profile when no fields are chosen", () => {
+    expect(
+      resumeImport.buildMergeInput(preview, {
+        profileFields: [],
+        itemIds: ["skills-1"],
+      })
+    ).toEqual({
+      items: [
+        { section: "skills", action: "new", data: { skill_name: "Rust" } },
+      ],
+    });
+  });
+});
+
+describe("resumeImport.mergeResume", () => {
+  beforeEach(() => {
+    vi.mocked(aiClient.postJson).mockReset();
+  });
+
+  it("posts the merge request", async () => {
+    const result = {
+      profileUpdated: false,
+      created: 1,
+      updated: 0,
+      failed: 0,
+      results: [],
+    };
+    vi.mocked(aiClient.postJson).mockResolvedValueOnce(result);
+    const input = {
+      items: [{ section: "skills" as const, action: "new" as const, data: {} }],
+    };
+
+    const res = await resumeImport.mergeResume(input);
+
+    expect(res.data).toEqual(result);
+    expect(aiClient.postJson).toHaveBeenCalledWith(
+      "/api/resume-import/merge",
+      input
+    );
+  });
+
+  it("refuses an empty selection", async () => {
+    const res = await resumeImport.mergeResume({ items: [] });
+
+    expect(res.error?.message).toBe("Nothing selected to import");
+    expect(aiClient.postJson).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for savedSearchesService.ts (server-stored saved searches and their
+ * matching jobs)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as savedSearchesService from "@job_pipeline/services/savedSearchesService";
+import aiClient from "@shared/services/ai/client";
+
+vi.mock("@shared/services/ai/client", () => ({
+  default: {
+    postJson: vi.fn(),
+    getJson: vi.fn(),
+    patchJson: vi.fn(),
+    deleteJson: vi.fn(),
+  },
+}));
+
+describe("SavedSearchesService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("criteriaFromFilters", () => {
+    it("keeps only the filters a saved search can apply", () => {
+      const criteria = savedSearchesService.criteriaFromFilters(
+        {
+          query: "  react ",
+          industry: "technology",
+          location: "",
+          salaryMin: 120000,
+          salaryMax: "",
+          sortBy: "deadline",
+          showArchived: true,
+        },
+        70
+      );
+
+      expect(criteria).toEqual({
+        query: "react",
+        industry: "technology",
+        salary_min: 120000,
+        min_match_score: 70,
+      });
+    });
+
+    it("round-trips through the search form values", () => {
+      const filters = savedSearchesService.filtersFromCriteria({
+        query: "react",
+        salary_min: 90000,
+      });
+
+      expect(filters).toEqual({
+        query: "react",
+        industry: "",
+        location: "",
+        salaryMin: 90000,
+      });
+      expect(savedSearchesService.criteriaFromFilters(filters)).toEqual({
+        query: "react",
+        salary_min: 90000,
+      });
+    });
+  });
+
+  describe("createSearch", () => {
+    it("requires a name before calling the server", async () => {
+      const result = await savedSearchesService.createSearch({
+        name: " ",
+        criteria: {},
+      });
+
+      expect(result.error?.message).toBe("Give the search a name");
+      expect(aiClient.postJson).not.toHaveBeenCalled();
+    });
+
+    it("posts the search and returns the stored row with counts", async () => {
+      const search = { id: "search-1", match_count: 4, new_count: 0 };
+      vi.mocked(aiClient.postJson).mockResolvedValueOnce({ search });
+
+      const input = {
+        name: "Remote React",
+        criteria: { query: "react" },
+        digest_frequency: "daily" as const,
+      };
+      const result = await savedSearchesService.createSearch(input);
+
+      expect(aiClient.postJson).toHaveBeenCalledWith(
+        "/api/saved-searches",
+        input
+      );
+      expect(result.data).toEqual(search);
+    });
+  });
+
+  describe("listMatches", () => {
+    it("returns matches with their new flag", async () => {
+      const matches = [
+        { job: { id: 1 }, matched_at: "2026-10-19T10:00:00Z", is_new: true },
+      ];
+      vi.mocked(aiClient.getJson).mockResolvedValueOnce({
+        search: { id: "search-1" },
+        matches,
+      });
+
+      const result = await savedSearchesService.listMatches("search-1");
+
+      expect(aiClient.getJson).toHaveBeenCalledWith(
+        "/api/saved-searches/search-1/matches"
+      );
+      expect(result.data).toEqual(matches);
+    });
+
+    it("wraps server errors in a Result", async () => {
+      vi.mocked(aiClient.getJson).mockRejectedValueOnce(
+        new Error("Saved search not found")
+      );
+
+      const result = await savedSearchesService.listMatches("missing");
+
+      expect(result.data).toBeNull();
+      expect(result.error?.message).toBe("Saved search not found");
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for shared/services/skillTaxonomy.ts (loading the taxonomy,
+ * resolving aliases, canonical keys and ancestry, fallback without data)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@shared/services/ai/client", () => ({
+  default: {
+    postJson: vi.fn(),
+    getJson: vi.fn(),
+  },
+}));
+
+import aiClient from "@shared/services/ai/client";
+import {
+  createSkillResolver,
+  getSkillTaxonomy,
+  skillKey,
+  type SkillTaxonomy,
+} from "@shared/services/skillTaxonomy";
+
+const taxonomy: SkillTaxonomy = {
+  version: 1,
+  skills: [
+    {
+      id: "frontend",
+      name: "Frontend Development",
+      category: "Technical",
+      parent: null,
+      aliases: ["Frontend"],
+    },
+    {
+      id: "javascript",
+      name: "JavaScript",
+      category: "Technical",
+      parent: "frontend",
+      aliases: ["JS", "ES6"],
+    },
+    {
+      id: "react",
+      name: "React",
+      category: "Framework",
+      parent: "javascript",
+      aliases: ["React.js", "ReactJS"],
+    },
+    {
+      id: "kubernetes",
+      name: "Kubernetes",
+      category: "Tool",
+      parent: null,
+      aliases: ["k8s"],
+    },
+  ],
+};
+
+describe("skillTaxonomy.getSkillTaxonomy", () => {
+  beforeEach(() => {
+    vi.mocked(aiClient.getJson).mockReset();
+  });
+
+  it("loads the taxonomy from the server", async () => {
+    vi.mocked(aiClient.getJson).mockResolvedValueOnce(taxonomy);
+
+    const res = await getSkillTaxonomy();
+
+    expect(aiClient.getJson).toHaveBeenCalledWith("/api/skills/taxonomy");
+    expect(res).toEqual({ data: taxonomy, error: null, status: 200 });
+  });
+
+  it("returns an error result when the request fails", async () => {
+    vi.mocked(aiClient.getJson).mockRejectedValueOnce(new Error("offline"));
+
+    const res = await getSkillTaxonomy();
+
+    expect(res.data).toBeNull();
+    expect(res.error?.message).toBe("offline");
+  });
+});
+
+describe("skillTaxonomy.createSkillResolver", () => {
+  const resolver = createSkillResolver(taxonomy);
+
+  it("folds spellings and aliases into one entry", () => {
+    for (const name of ["JS", "javascript", " JavaScript ", "es6"]) {
+      expect(resolver.resolve(name)?.id).toBe("javascript");
+    }
+    expect(resolver.resolve("react js")?.name).toBe("React");
+    expect(resolver.resolve("K8S")?.name).toBe("Kubernetes");
+    expect(resolver.resolve("Kubernetes experience")?.id).toBe("kubernetes");
+    expect(resolver.resolve("experience with React")?.id).toBe("react");
+  });
+
+  it("keys unknown skills by their folded spelling", () => {
+    expect(resolver.key("Javascript")).toBe(resolver.key("JS"));
+    expect(resolver.key("Basket-Weaving")).toBe(resolver.key("basket weaving"));
+    expect(resolver.key("Basket Weaving")).toBe(skillKey("basketweaving"));
+  });
+
+  it("normalizes to the canonical name with its ancestry", () => {
+    expect(resolver.normalize("reactjs")).toEqual({
+      id: "react",
+      name: "React",
+      category: "Framework",
+      path: ["JavaScript", "Frontend Development"],
+    });
+    expect(resolver.normalize(" Basket Weaving ")).toEqual({
+      id: null,
+      name: "Basket Weaving",
+      category: null,
+      path: [],
+    });
+  });
+
+  it("lists canonical names A-Z for autocomplete", () => {
+    expect(resolver.names).toEqual([
+      "Frontend Development",
+      "JavaScript",
+      "Kubernetes",
+      "React",
+    ]);
+  });
+
+  it("still folds case and punctuation before the taxonomy loads", () => {
+    const fallback = createSkillResolver(undefined);
+
+    expect(fallback.resolve("JS")).toBeNull();
+    expect(fallback.key("Node.js")).toBe(fallback.key("node js"));
+    expect(fallback.key("JS")).not.toBe(fallback.key("JavaScript"));
+    expect(fallback.names).toEqual([]);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Tests for profile/services/skills.ts (saving new skills under their
+ * canonical name, evidence candidates and evidence rows)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const userCrud = vi.hoisted(() => ({
+  listRows: vi.fn(),
+  insertRow: vi.fn(),
+  deleteRow: vi.fn(),
+}));
+
+vi.mock("@shared/services/crud", () => ({
+  default: { withUser: () => userCrud },
+  withUser: () => userCrud,
+}));
+
+vi.mock("@shared/services/supabaseClient", () => ({
+  supabase: { from: vi.fn(), auth: { getUser: vi.fn() } },
+}));
+
+import {
+  addSkillEvidence,
+  employmentBullets,
+  evidenceCandidateKey,
+  evidenceRowKey,
+  findEvidenceCandidates,
+  normalizeSkillRow,
+} from "@profile/services/skills";
+import { createSkillResolver } from "@shared/services/skillTaxonomy";
+import type { EmploymentRow } from "@profile/types/employment";
+import type { Project } from "@profile/types/project";
+import type { Certification } from "@profile/types/certification";
+import type { DbSkillEvidenceRow } from "@profile/types/skill";
+
+const resolver = createSkillResolver({
+  version: 1,
+  skills: [
+    {
+      id: "javascript",
+      name: "JavaScript",
+      category: "Technical",
+      parent: null,
+      aliases: ["JS"],
+    },
+    {
+      id: "go",
+      name: "Go",
+      category: "Technical",
+      parent: null,
+      aliases: ["Golang"],
+    },
+  ],
+});
+
+function job(overrides: Partial<EmploymentRow>): EmploymentRow {
+  return {
+    id: "emp-1",
+    user_id: "u1",
+    job_title: "Engineer",
+    company_name: "Acme",
+    start_date: "2022-01-01",
+    current_position: true,
+    created_at: "2022-01-01T00:00:00Z",
+    updated_at: "2022-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function project(overrides: Partial<Project>): Project {
+  return {
+    id: "proj-1",
+    projectName: "Dashboard",
+    description: "",
+    role: "",
+    startDate: "",
+    endDate: "",
+    technologies: "",
+    teamSize: "",
+    outcomes: "",
+    industry: "",
+    status: "Completed",
+    ...overrides,
+  };
+}
+
+function cert(overrides: Partial<Certification>): Certification {
+  return {
+    id: "cert-1",
+    name: "Cloud Practitioner",
+    organization: "AWS",
+    category: "Cloud",
+    dateEarned: "2024-01-01",
+    doesNotExpire: true,
+    ...overrides,
+  };
+}
+
+describe("skillsService.normalizeSkillRow", () => {
+  it("saves known skills under their canonical name and id", () => {
+    expect(
+      normalizeSkillRow(
+        { skill_name: "js", proficiency_level: "advanced", skill_category: "" },
+        resolver
+      )
+    ).toEqual({
+      skill_name: "JavaScript",
+      proficiency_level: "advanced",
+      skill_category: "Technical",
+      taxonomy_id: "javascript",
+    });
+  });
+
+  it("keeps the chosen category and unknown names as typed", () => {
+    expect(
+      normalizeSkillRow(
+        { skill_name: " Pottery ", skill_category: "Other" },
+        resolver
+      )
+    ).toEqual({
+      skill_name: "Pottery",
+      skill_category: "Other",
+      taxonomy_id: null,
+    });
+  });
+});
+
+describe("skillsService.employmentBullets", () => {
+  it("uses achievements, else the description's lines without markers", () => {
+    expect(
+      employmentBullets(job({ achievements: ["Cut costs", " "] }))
+    ).toEqual(["Cut costs"]);
+    expect(
+      employmentBullets(
+        job({ job_description: "- Built APIs in Go\n\n• Led a team\n2. Hired" })
+      )
+    ).toEqual(["Built APIs in Go", "Led a team", "Hired"]);
+  });
+});
+
+describe("skillsService.findEvidenceCandidates", () => {
+  const sources = {
+    employment: [
+      job({
+        job_description: "Planned the go live\nBuilt services in Golang",
+      }),
+    ],
+    projects: [
+      project({ id: "proj-1", projectName: "Dashboard" }),
+      project({ id: "proj-2", projectName: "CLI", technologies: "Rust, go" }),
+    ],
+    certifications: [cert({})],
+  };
+
+  it("suggests entries that mention the skill or an alias first", () => {
+    const candidates = findEvidenceCandidates("Golang", resolver, sources);
+
+    expect(candidates.map((c) => [c.label, c.suggested])).toEqual([
+      ["Engineer · Acme", true],
+      ["CLI", true],
+      // "go live" is not Go: short forms must match case
+      ["Engineer · Acme", false],
+      ["Dashboard", false],
+      ["Cloud Practitioner · AWS", false],
+    ]);
+    expect(candidates[0].excerpt).toBe("Built services in Golang");
+    expect(candidates[1].excerpt).toBeNull();
+  });
+
+  it("keys candidates and saved rows the same way", () => {
+    const row = {
+      source_type: "employment",
+      employment_id: "emp-1",
+      project_id: null,
+      certification_id: null,
+      excerpt: "Built services in Golang",
+    } as DbSkillEvidenceRow;
+
+    expect(evidenceRowKey(row)).toBe(
+      evidenceCandidateKey("employment", "emp-1", "Built services in Golang")
+    );
+  });
+});
+
+describe("skillsService.addSkillEvidence", () => {
+  beforeEach(() => {
+    userCrud.insertRow.mockReset();
+    userCrud.insertRow.mockResolvedValue({ data: {}, error: null });
+  });
+
+  it("stores the bullet text for employment evidence", async () => {
+    await addSkillEvidence("u1", "skill-1", {
+      sourceType: "employment",
+      sourceId: "emp-1",
+      excerpt: "Built services in Golang",
+    });
+
+    expect(userCrud.insertRow).toHaveBeenCalledWith(
+      "skill_evidence",
+      {
+        skill_id: "skill-1",
+        source_type: "employment",
+        employment_id: "emp-1",
+        excerpt: "Built services in Golang",
+        note: null,
+      },
+      "*"
+    );
+  });
+
+  it("links projects and certifications by id only", async () => {
+    await addSkillEvidence(
+      "u1",
+      "skill-1",
+      { sourceType: "certification", sourceId: "cert-1", excerpt: "ignored" },
+      " Renewed yearly "
+    );
+
+    expect(userCrud.insertRow.mock.calls[0][1]).toEqual({
+      skill_id: "skill-1",
+      source_type: "certification",
+      certification_id: "cert-1",
+      excerpt: null,
+      note: "Renewed yearly",
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Tests for ai_workspace/services/versionService.ts (+ versionDiff.ts)
+ * Coverage: document_versions persistence, section/word-level diffs
+ *
+ * The diff engine is exercised directly; the service runs against a mocked
+ * user-scoped crud layer so inserted rows can be inspected.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const userCrud = vi.hoisted(() => ({
+  listRows: vi.fn(),
+  getRow: vi.fn(),
+  insertRow: vi.fn(),
+  updateRow: vi.fn(),
+}));
+
+vi.mock("@shared/services/crud", () => ({
+  withUser: () => userCrud,
+}));
+
+import {
+  createVersion,
+  getVersionHistory,
+  mapVersionRow,
+  mergeVersions,
+} from "@ai_workspace/services/versionService";
+import {
+  buildVersionComparison,
+  diffWords,
+  describeVersionDiff,
+  summarizeVersionDiff,
+} from "@ai_workspace/services/versionDiff";
+import type { DocumentVersionRow } from "@shared/types/database";
+
+const userId = "user-1";
+
+const contentV1 = {
+  header: { fullName: "Jane Doe", title: "Engineer" },
+  summary: { enabled: true, text: "Builds reliable web services" },
+  skills: { enabled: true, items: ["TypeScript", "React"] },
+};
+
+const contentV2 = {
+  header: { fullName: "Jane Doe", title: "Engineer" },
+  summary: { enabled: true, text: "Builds fast and reliable web services" },
+  skills: { enabled: false, items: ["TypeScript", "React"] },
+  projects: { enabled: true, items: [{ name: "Job Tracker" }] },
+};
+
+function versionRow(
+  overrides: Partial<DocumentVersionRow> = {}
+): DocumentVersionRow {
+  return {
+    id: "v1",
+    document_id: "doc-1",
+    user_id: userId,
+    version_number: 1,
+    content: contentV1,
+    template_id: "tpl-1",
+    theme_id: "theme-1",
+    template_overrides: {},
+    theme_overrides: {},
+    job_id: null,
+    generation_session_id: null,
+    name: "Version 1",
+    description: null,
+    tags: [],
+    color: null,
+    notes: null,
+    change_type: "ai-generated",
+    changed_sections: [],
+    change_summary: null,
+    parent_version_id: null,
+    branch_name: null,
+    merge_source_id: null,
+    word_count: 0,
+    character_count: 0,
+    ats_score: null,
+    ats_analysis: null,
+    ats_job_id: null,
+    ats_analyzed_at: null,
+    status: "active",
+    is_pinned: false,
+    is_archived: false,
+    created_at: "2026-10-01T00:00:00Z",
+    created_by: userId,
+    ...overrides,
+  };
+}
+
+describe("versionDiff", () => {
+  it("produces merged word-level segments", () => {
+    expect(
+      diffWords("Builds reliable services", "Builds fast services")
+    ).toEqual([
+      { type: "unchanged", text: "Builds" },
+      { type: "removed", text: "reliable" },
+      { type: "added", text: "fast" },
+      { type: "unchanged", text: "services" },
+    ]);
+  });
+
+  it("classifies sections and treats disabled sections as removed", () => {
+    const diff = summarizeVersionDiff(contentV1, contentV2);
+
+    expect(diff.modified.map((m) => m.section)).toEqual(["summary"]);
+    expect(diff.added).toEqual(["projects"]);
+    expect(diff.removed).toEqual(["skills"]);
+    expect(diff.wordDelta).toBe(2);
+    expect(describeVersionDiff(diff)).toBe(
+      "Updated Summary; Added Projects; Removed Skills (+2 words)"
+    );
+  });
+
+  it("reports identical versions as fully similar", () => {
+    const versionA = mapVersionRow(versionRow({ ats_score: 70 }));
+    const versionB = mapVersionRow(
+      versionRow({
+        id: "v2",
+        version_number: 2,
+        template_id: "tpl-2",
+        ats_score: 78,
+      })
+    );
+
+    const comparison = buildVersionComparison(versionA, versionB);
+
+    expect(comparison.summary.similarityScore).toBe(100);
+    expect(comparison.summary.sectionsModified).toBe(0);
+    expect(comparison.summary.atsScoreDifference).toBe(8);
+    expect(comparison.diff.templateChanged).toBe(true);
+    expect(comparison.diff.sections.every((s) => s.type === "unchanged")).toBe(
+      true
+    );
+  });
+});
+
+describe("versionService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    userCrud.updateRow.mockResolvedValue({ data: {}, error: null });
+  });
+
+  it("creates the next version with changed sections and counts", async () => {
+    userCrud.listRows.mockResolvedValue({
+      data: [{ id: "v1", version_number: 1 }],
+      error: null,
+    });
+    userCrud.getRow.mockResolvedValue({ data: versionRow(), error: null });
+    userCrud.insertRow.mockImplementation(async (_table, payload) => ({
+      data: versionRow({ ...payload, id: "v2" }),
+      error: null,
+    }));
+
+    const version = await createVersion(userId, {
+      documentId: "doc-1",
+      content: contentV2,
+      templateId: "tpl-1",
+      themeId: "theme-1",
+      changeType: "manual-edit",
+    });
+
+    const payload = userCrud.insertRow.mock.calls[0][1];
+    expect(payload.version_number).toBe(2);
+    expect(payload.parent_version_id).toBe("v1");
+    expect(payload.changed_sections).toEqual(["summary", "skills", "projects"]);
+    expect(payload.change_summary).toContain("Updated Summary");
+    expect(payload.word_count).toBeGreaterThan(0);
+    expect(payload.created_by).toBe(userId);
+
+    expect(userCrud.updateRow).toHaveBeenCalledWith(
+      "documents",
+      expect.objectContaining({ current_version_id: "v2" }),
+      { eq: { id: "doc-1" } }
+    );
+    expect(version.versionNumber).toBe(2);
+    expect(version.changes.diff?.added).toEqual(["projects"]);
+  });
+
+  it("throws when the insert fails", async () => {
+    userCrud.listRows.mockResolvedValue({ data: [], error: null });
+    userCrud.insertRow.mockResolvedValue({
+      data: null,
+      error: { message: "permission denied" },
+    });
+
+    await expect(
+      createVersion(userId, {
+        documentId: "doc-1",
+        content: contentV1,
+        changeType: "ai-generated",
+      })
+    ).rejects.toThrow("permission denied");
+  });
+
+  it("returns history newest first with diffs against the parent", async () => {
+    userCrud.listRows.mockResolvedValue({
+      data: [
+        versionRow(),
+        versionRow({
+          id: "v2",
+          version_number: 2,
+          content: contentV2,
+          parent_version_id: "v1",
+        }),
+      ],
+      error: null,
+    });
+
+    const history = await getVersionHistory(userId, "doc-1");
+
+    expect(history.map((v) => v.id)).toEqual(["v2", "v1"]);
+    expect(history[0].changes.diff?.modified[0].section).toBe("summary");
+    expect(history[0].lineage.isBranchHead).toBe(true);
+    expect(history[1].lineage.childVersionIds).toEqual(["v2"]);
+    expect(history[1].changes.diff).toBeUndefined();
+  });
+
+  it("merges manually selected sections from the source", async () => {
+    userCrud.getRow.mockImplementation(async (_table, _select, opts) => ({
+      data:
+        opts.eq.id === "v2"
+          ? versionRow({ id: "v2", version_number: 2, content: contentV2 })
+          : versionRow(),
+      error: null,
+    }));
+    userCrud.listRows.mockResolvedValue({
+      data: [{ id: "v2", version_number: 2 }],
+      error: null,
+    });
+    userCrud.insertRow.mockImplementation(async (_table, payload) => ({
+      data: versionRow({ ...payload, id: "v3" }),
+      error: null,
+    }));
+
+    await mergeVersions(userId, {
+      sourceVersionId: "v2",
+      targetVersionId: "v1",
+      strategy: "manual",
+      manualSelections: { summary: "source", projects: "source" },
+    });
+
+    const payload = userCrud.insertRow.mock.calls[0][1];
+    expect(payload.change_type).toBe("merge");
+    expect(payload.merge_source_id).toBe("v2");
+    expect(payload.parent_version_id).toBe("v1");
+    expect(payload.content.summary).toEqual(contentV2.summary);
+    expect(payload.content.projects).toEqual(contentV2.projects);
+    expect(payload.content.skills).toEqual(contentV1.skills);
+  });
+});
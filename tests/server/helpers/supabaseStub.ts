@@ -0,0 +1,233 @@
+import { vi } from "vitest";
+
+/**
+ * Supabase client stubs for service tests. Services load the client from
+ * "@server/services/supabaseAdmin.js", which is mocked before they are
+ * imported, so create the stub inside vi.hoisted:
+ *
+ *   const db = await vi.hoisted(async () => {
+ *     const { createSupabaseStub } = await import("../helpers/supabaseStub");
+ *     return createSupabaseStub();
+ *   });
+ *   vi.mock("@server/services/supabaseAdmin.js", () => ({
+ *     default: db.client,
+ *   }));
+ *
+ * - createSupabaseStub: chainable stub with canned results; writes are
+ *   recorded with the filters applied to them
+ * - createMemorySupabase: tables are arrays of rows that queries filter and
+ *   writes change
+ */
+
+export type StubResult = { data: any; error: any; count?: number | null };
+
+export type StubQuery = {
+  table: string;
+  op: "select" | "insert" | "upsert" | "update" | "delete";
+  row?: any;
+  options?: any;
+  /** eq() / in() / is() values by column */
+  filters: Record<string, unknown>;
+};
+
+/**
+ * Each query resolves, when awaited, to `respond(query)` if that returns a
+ * result, else the next queued result for its table, else the table's
+ * default, else `{ data: null, error: null }`.
+ */
+export function createSupabaseStub(
+  respond?: (query: StubQuery) => StubResult | undefined
+) {
+  const queues: Record<string, StubResult[]> = {};
+  const defaults: Record<string, StubResult> = {};
+  const writes: StubQuery[] = [];
+  const rpc = vi.fn();
+
+  function from(table: string) {
+    const query: StubQuery = { table, op: "select", filters: {} };
+    const resolveQuery = () =>
+      respond?.(query) ??
+      queues[table]?.shift() ??
+      defaults[table] ?? { data: null, error: null };
+    const write =
+      (op: Exclude<StubQuery["op"], "select">) =>
+      (row?: any, options?: any) => {
+        Object.assign(query, { op, row, options });
+        writes.push(query);
+        return builder;
+      };
+    const filter = (column: string, value: unknown) => {
+      query.filters[column] = value;
+      return builder;
+    };
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      gt: () => builder,
+      gte: () => builder,
+      lt: () => builder,
+      lte: () => builder,
+      not: () => builder,
+      or: () => builder,
+      eq: filter,
+      in: filter,
+      is: filter,
+      insert: write("insert"),
+      upsert: write("upsert"),
+      update: write("update"),
+      delete: write("delete"),
+      single: () => builder,
+      maybeSingle: () => builder,
+      then: (resolve: any, reject: any) =>
+        Promise.resolve(resolveQuery()).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  return {
+    queues,
+    defaults,
+    writes,
+    rpc,
+    client: { from, rpc },
+    /** Results for the next queries on `table`; error defaults to null */
+    queue(table: string, ...results: Array<Partial<StubResult>>) {
+      queues[table] = results.map((r) => ({ data: null, error: null, ...r }));
+    },
+    writesTo(table: string, op?: StubQuery["op"]) {
+      return writes.filter((w) => w.table === table && (!op || w.op === op));
+    },
+    reset() {
+      for (const key of Object.keys(queues)) delete queues[key];
+      for (const key of Object.keys(defaults)) delete defaults[key];
+      writes.length = 0;
+      rpc.mockReset();
+    },
+  };
+}
+
+/**
+ * In-memory stub: eq() / in() / or() filter the rows, select() honours its
+ * column list, writes change the rows. Inserted rows get an id and the
+ * table's `defaults`; upserts match on `onConflict` (default "id").
+ * `rpc` answers client.rpc() calls, which are recorded in `state.rpcCalls`.
+ */
+export function createMemorySupabase(
+  options: {
+    defaults?: Record<string, Record<string, unknown>>;
+    rpc?: (fn: string, args: any, tables: Record<string, any[]>) => any;
+  } = {}
+) {
+  const state = {
+    tables: {} as Record<string, any[]>,
+    nextId: 1000,
+    rpcCalls: [] as Array<{ fn: string; args: any }>,
+  };
+
+  function from(table: string) {
+    const filters: Array<(row: any) => boolean> = [];
+    let op: StubQuery["op"] = "select";
+    let payload: any = null;
+    let conflict = ["id"];
+    let columns: string[] | null = null;
+    let single = false;
+
+    const rows = () => (state.tables[table] ??= []);
+    const matches = (row: any) => filters.every((f) => f(row));
+    const pick = (row: any) =>
+      columns ? Object.fromEntries(columns.map((c) => [c, row[c]])) : row;
+    const insert = (row: any) => {
+      const inserted = {
+        id: row.id ?? state.nextId++,
+        ...options.defaults?.[table],
+        ...row,
+      };
+      rows().push(inserted);
+      return inserted;
+    };
+    const upsert = (row: any) => {
+      const existing = rows().find((r) =>
+        conflict.every((c) => r[c] === row[c])
+      );
+      return existing ? Object.assign(existing, row) : insert(row);
+    };
+    /** "col.is.null,col.eq.value" (the forms the services use) */
+    const orFilter = (expression: string) => {
+      const tests = expression.split(",").map((part) => {
+        const [column, operator, ...rest] = part.split(".");
+        const value = rest.join(".");
+        return operator === "is" && value === "null"
+          ? (row: any) => row[column] == null
+          : (row: any) => String(row[column]) === value;
+      });
+      return (row: any) => tests.some((test) => test(row));
+    };
+
+    const builder: any = {
+      select: (cols?: string) => {
+        columns =
+          cols && cols !== "*" ? cols.split(",").map((c) => c.trim()) : null;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      or: (expression: string) => {
+        filters.push(orFilter(expression));
+        return builder;
+      },
+      single: () => ((single = true), builder),
+      maybeSingle: () => ((single = true), builder),
+      insert: (row: any) => ((op = "insert"), (payload = row), builder),
+      update: (row: any) => ((op = "update"), (payload = row), builder),
+      upsert: (row: any, upsertOptions?: { onConflict?: string }) => {
+        op = "upsert";
+        payload = row;
+        if (upsertOptions?.onConflict) {
+          conflict = upsertOptions.onConflict.split(",").map((c) => c.trim());
+        }
+        return builder;
+      },
+      delete: () => ((op = "delete"), builder),
+      then: (resolve: any, reject: any) => {
+        const payloadRows = () =>
+          Array.isArray(payload) ? payload : [payload];
+        let data: any[] = [];
+        if (op === "insert") {
+          data = payloadRows().map(insert);
+        } else if (op === "upsert") {
+          data = payloadRows().map(upsert);
+        } else if (op === "update") {
+          data = rows().filter(matches);
+          data.forEach((row) => Object.assign(row, payload));
+        } else if (op === "delete") {
+          data = rows().filter(matches);
+          state.tables[table] = rows().filter((r) => !matches(r));
+        } else {
+          data = rows().filter(matches);
+        }
+        const picked = data.map(pick);
+        const result = single ? (picked[0] ?? null) : picked;
+        return Promise.resolve({ data: result, error: null }).then(
+          resolve,
+          reject
+        );
+      },
+    };
+    return builder;
+  }
+
+  async function rpc(fn: string, args: any) {
+    state.rpcCalls.push({ fn, args });
+    const data = options.rpc ? options.rpc(fn, args, state.tables) : null;
+    return { data: data ?? null, error: null };
+  }
+
+  return { state, client: { from, rpc } };
+}
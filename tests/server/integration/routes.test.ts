@@ -125,6 +125,26 @@ describe("Server Routes Integration", () => {
       expect(typeof body.uptime_sec).toBe("number");
     });
 
+    it("serves /api/metrics in OpenMetrics format", async () => {
+      const res = await httpRequest({
+        baseUrl: testServer.baseUrl,
+        method: "GET",
+        path: "/api/metrics?format=openmetrics",
+        headers: {
+          Authorization: `Bearer ${process.env.METRICS_TOKEN}`,
+        },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers["content-type"]).toContain(
+        "application/openmetrics-text"
+      );
+      expect(res.text).toContain(
+        "# TYPE http_request_duration_seconds histogram"
+      );
+      expect(res.text.trimEnd().endsWith("# EOF")).toBe(true);
+    });
+
     it("emits intentional monitoring error with correct token", async () => {
       const res = await httpRequest({
         baseUrl: testServer.baseUrl,
@@ -164,6 +184,39 @@ describe("Server Routes Integration", () => {
     });
   });
 
+  describe("Route Table", () => {
+    it("serves the OpenAPI document", async () => {
+      const res = await httpRequest({
+        baseUrl: testServer.baseUrl,
+        method: "GET",
+        path: "/api/openapi.json",
+      });
+
+      expect(res.status).toBe(200);
+      const body = res.json as any;
+      expect(body.openapi).toBe("3.1.0");
+      expect(body.paths["/api/health"].get.security).toEqual([]);
+      expect(body.paths["/api/jobs/{jobId}/materials"].get).toBeTruthy();
+    });
+
+    it("rejects request bodies that fail the route schema", async () => {
+      const res = await httpRequest({
+        baseUrl: testServer.baseUrl,
+        method: "POST",
+        path: "/api/cover-letter/drafts",
+        headers: {
+          "X-User-Id": "test-user",
+        },
+        body: { name: 42 },
+      });
+
+      expect(res.status).toBe(400);
+      expect(res.json).toEqual(
+        expect.objectContaining({ error: "bad_request" })
+      );
+    });
+  });
+
   describe("Feature Flags", () => {
     it("returns 503 when FEATURE_AI_ROUTES is disabled", async () => {
       const prev = process.env.FEATURE_AI_ROUTES;
@@ -0,0 +1,32 @@
+/**
+ * Tests for server/src/middleware/security.ts
+ * Coverage: rate limit budget keys for "default" routes
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { defaultRateLimitKey } from "@server/middleware/security";
+
+describe("defaultRateLimitKey", () => {
+  it("shares one budget across a prefix group", () => {
+    expect(
+      defaultRateLimitKey("/api/analytics/overview", "/api/analytics/overview")
+    ).toBe("/api/analytics/*");
+    expect(
+      defaultRateLimitKey("/api/analytics/salary", "/api/analytics/salary")
+    ).toBe("/api/analytics/*");
+    expect(
+      defaultRateLimitKey(
+        "/api/cover-letter/drafts/d-1",
+        "/api/cover-letter/drafts/:id"
+      )
+    ).toBe("/api/cover-letter/drafts");
+  });
+
+  it("falls back to the route path, not the concrete URL", () => {
+    expect(
+      defaultRateLimitKey("/api/automations/a-1", "/api/automations/:id")
+    ).toBe("/api/automations/:id");
+    expect(defaultRateLimitKey("/api/nope", undefined)).toBe("unmatched");
+  });
+});
@@ -135,6 +135,75 @@ describe("Salary Analytics Route", () => {
     );
   });
 
+  it("prefers job_offers over job_notes offer fields for the same job", async () => {
+    const route = await importFreshRoute();
+
+    const job = {
+      job_title: "SWE",
+      company_name: "Acme",
+      job_status: "offer",
+      industry: "Tech",
+      experience_level: "mid",
+      city_name: "Boston",
+      state_code: "MA",
+    };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: any) => {
+        const rows = String(input).includes("/job_offers")
+          ? [
+              {
+                id: "offer-1",
+                job_id: 1,
+                base_salary: 130000,
+                initial_base_salary: 120000,
+                bonus_target: 10000,
+                tax_country: "US",
+                offer_received_date: "2025-02-01",
+                negotiation_outcome: "accepted",
+                jobs: job,
+              },
+            ]
+          : [
+              {
+                job_id: 1,
+                offered_salary: 100000,
+                negotiated_salary: null,
+                offer_received_date: "2025-01-01",
+                negotiation_outcome: null,
+                total_compensation_breakdown: null,
+                jobs: job,
+              },
+            ];
+        return new Response(JSON.stringify(rows), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      })
+    );
+
+    http.readJson.mockResolvedValueOnce({ timeRange: "all" });
+    const { res, state } = createMockResponse();
+
+    await route.post(
+      {} as any,
+      res,
+      new URL("/api/analytics/salary", "http://localhost"),
+      "req-1",
+      "user-1"
+    );
+
+    expect(state.status).toBe(200);
+    const body = JSON.parse(state.body);
+    expect(body.salaryProgression.timeline).toEqual([
+      expect.objectContaining({ offered: 120000, negotiated: 130000 }),
+    ]);
+    expect(body.negotiationSuccess.avgNegotiationGain).toBe(10000);
+    expect(body.compensationEvolution.timeline[0].totalComp).toBe(
+      140000
+    );
+  });
+
   it("applies gte() filter when timeRange is 30d/90d/1y", async () => {
     const route = await importFreshRoute();
 
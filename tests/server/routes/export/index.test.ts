@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const http = vi.hoisted(() => ({
+  readJson: vi.fn<[], Promise<any>>(),
+  sendJson: vi.fn(),
+}));
+
+const service = vi.hoisted(() => ({
+  isExportFormat: (value: unknown) =>
+    ["pdf", "docx", "html", "txt"].includes(value as string),
+  createExport: vi.fn<[], Promise<any>>(),
+  listExportHistory: vi.fn<[], Promise<any>>(),
+  getExportDownload: vi.fn<[], Promise<any>>(),
+}));
+
+vi.mock("@utils/http.js", () => http);
+vi.mock("@server/services/exportService.js", () => service);
+
+const DOC = "6f1c2a4e-8d3b-4f6a-9c2e-1b7d5e3a9f10";
+const EXPORT = "c8e1a3f5-7b9d-4e2a-b6c8-0d2f4a6c8e70";
+
+async function importFreshRoutes() {
+  vi.resetModules();
+  return await import("@server/routes/export/index");
+}
+
+describe("Document Export Routes", () => {
+  beforeEach(() => {
+    http.readJson.mockReset();
+    http.sendJson.mockReset();
+
+    service.createExport.mockReset();
+    service.listExportHistory.mockReset();
+    service.getExportDownload.mockReset();
+  });
+
+  it("post() rejects unsupported formats", async () => {
+    const routes = await importFreshRoutes();
+
+    await expect(
+      routes.post(
+        {} as any,
+        {} as any,
+        new URL("/", "http://x"),
+        "req-1",
+        "user-1",
+        "json"
+      )
+    ).rejects.toMatchObject({ status: 400, code: "bad_request" });
+    expect(http.readJson).not.toHaveBeenCalled();
+  });
+
+  it("post() throws bad_json when body parsing fails", async () => {
+    const routes = await importFreshRoutes();
+    http.readJson.mockRejectedValue(new Error("nope"));
+
+    await expect(
+      routes.post(
+        {} as any,
+        {} as any,
+        new URL("/", "http://x"),
+        "req-1",
+        "user-1",
+        "pdf"
+      )
+    ).rejects.toMatchObject({ status: 400, code: "bad_json" });
+  });
+
+  it("post() requires documentId", async () => {
+    const routes = await importFreshRoutes();
+    http.readJson.mockResolvedValue({ sentTo: "Acme" });
+
+    await expect(
+      routes.post(
+        {} as any,
+        {} as any,
+        new URL("/", "http://x"),
+        "req-1",
+        "user-1",
+        "docx"
+      )
+    ).rejects.toMatchObject({ status: 400, code: "bad_request" });
+  });
+
+  it("post() rejects a documentId that is not a UUID", async () => {
+    const routes = await importFreshRoutes();
+    http.readJson.mockResolvedValue({ documentId: "doc-1" });
+
+    await expect(
+      routes.post(
+        {} as any,
+        {} as any,
+        new URL("/", "http://x"),
+        "req-1",
+        "user-1",
+        "pdf"
+      )
+    ).rejects.toMatchObject({
+      status: 400,
+      code: "bad_request",
+      message: "documentId must be a UUID",
+    });
+    expect(service.createExport).not.toHaveBeenCalled();
+  });
+
+  it("post() creates the export and returns 201", async () => {
+    const routes = await importFreshRoutes();
+    http.readJson.mockResolvedValue({
+      documentId: DOC,
+      templateId: "tpl-1",
+      themeId: "theme-1",
+      sentTo: "Acme",
+      filename: "resume",
+    });
+    const result = {
+      export: { id: "exp-1", file_name: "resume.docx" },
+      downloadUrl: "https://storage/signed",
+    };
+    service.createExport.mockResolvedValue(result);
+
+    await routes.post(
+      {} as any,
+      {} as any,
+      new URL("/", "http://x"),
+      "req-1",
+      "user-1",
+      "docx"
+    );
+
+    expect(service.createExport).toHaveBeenCalledWith({
+      userId: "user-1",
+      documentId: DOC,
+      format: "docx",
+      templateId: "tpl-1",
+      themeId: "theme-1",
+      sentTo: "Acme",
+      filename: "resume",
+    });
+    expect(http.sendJson).toHaveBeenCalledWith(expect.anything(), 201, result);
+  });
+
+  it("getHistory() passes the documentId filter through", async () => {
+    const routes = await importFreshRoutes();
+    const result = { exports: [{ id: "exp-1" }], summaries: [] };
+    service.listExportHistory.mockResolvedValue(result);
+
+    await routes.getHistory(
+      {} as any,
+      {} as any,
+      new URL(`/api/export/history?documentId=${DOC}`, "http://x"),
+      "req-1",
+      "user-1"
+    );
+
+    expect(service.listExportHistory).toHaveBeenCalledWith("user-1", DOC);
+    expect(http.sendJson).toHaveBeenCalledWith(expect.anything(), 200, result);
+  });
+
+  it("getDownload() throws bad_request when exportId is missing", async () => {
+    const routes = await importFreshRoutes();
+
+    await expect(
+      routes.getDownload(
+        {} as any,
+        {} as any,
+        new URL("/", "http://x"),
+        "req-1",
+        "user-1",
+        ""
+      )
+    ).rejects.toMatchObject({ status: 400, code: "bad_request" });
+  });
+
+  it("getDownload() returns a signed URL for the stored file", async () => {
+    const routes = await importFreshRoutes();
+    const result = {
+      export: { id: "exp-1" },
+      downloadUrl: "https://storage/signed",
+    };
+    service.getExportDownload.mockResolvedValue(result);
+
+    await routes.getDownload(
+      {} as any,
+      {} as any,
+      new URL("/", "http://x"),
+      "req-1",
+      "user-1",
+      EXPORT
+    );
+
+    expect(service.getExportDownload).toHaveBeenCalledWith("user-1", EXPORT);
+    expect(http.sendJson).toHaveBeenCalledWith(expect.anything(), 200, result);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const rateLimiter = vi.hoisted(() => ({
+  checkLimit: vi.fn(),
+}));
+
+const http = vi.hoisted(() => ({
+  readJson: vi.fn(),
+}));
+
+const orchestrator = vi.hoisted(() => ({
+  handleGenerateResume: vi.fn(),
+  handleGenerateCoverLetter: vi.fn(),
+  handleSkillsOptimization: vi.fn(),
+  handleExperienceTailoring: vi.fn(),
+}));
+
+vi.mock("@utils/rateLimiter.js", () => rateLimiter);
+vi.mock("@utils/http.js", () => http);
+vi.mock("@server/services/orchestrator.js", () => orchestrator);
+
+function createMockResponse() {
+  const state: {
+    status?: number;
+    headers: Record<string, string>;
+    body: string;
+  } = { headers: {}, body: "" };
+  const res = {
+    setHeader: (name: string, value: string) => {
+      state.headers[name] = value;
+    },
+    writeHead: (status: number, headers: Record<string, string>) => {
+      state.status = status;
+      state.headers = { ...state.headers, ...headers };
+    },
+    end: (data?: string) => {
+      state.body = data || "";
+    },
+  };
+  return { res: res as any, state };
+}
+
+async function importFreshRoute() {
+  vi.resetModules();
+  const registry = await import("@server/services/promptRegistry.js");
+  registry.registerPrompt({
+    id: "resume",
+    version: 2,
+    description: "test variant",
+    build: () => "v2",
+  });
+  return await import("@server/routes/generate/compare");
+}
+
+function counters() {
+  return { generate_total: 0, generate_success: 0, generate_fail: 0 };
+}
+
+function callRoute(route: any, res: any, c = counters()) {
+  return route.post(
+    {} as any,
+    res,
+    new URL("/api/generate/compare", "http://localhost"),
+    "req-1",
+    "user-1",
+    c as any
+  );
+}
+
+describe("Generate Compare Route - validation", () => {
+  let prevUrl: string | undefined;
+
+  beforeEach(() => {
+    prevUrl = process.env.SUPABASE_URL;
+    delete process.env.SUPABASE_URL;
+    rateLimiter.checkLimit.mockReset().mockReturnValue({ ok: true });
+    http.readJson.mockReset();
+    orchestrator.handleGenerateResume.mockReset();
+  });
+
+  afterEach(() => {
+    if (prevUrl === undefined) delete process.env.SUPABASE_URL;
+    else process.env.SUPABASE_URL = prevUrl;
+  });
+
+  it("throws 400 for prompts that cannot be compared", async () => {
+    const route = await importFreshRoute();
+    http.readJson.mockResolvedValueOnce({
+      promptId: "company_research",
+      jobId: 1,
+      versions: [1, 2],
+    });
+
+    const { res } = createMockResponse();
+    await expect(callRoute(route, res)).rejects.toMatchObject({
+      status: 400,
+      code: "bad_request",
+    });
+  });
+
+  it("throws 400 for unregistered or duplicate versions", async () => {
+    const route = await importFreshRoute();
+    const { res } = createMockResponse();
+
+    http.readJson.mockResolvedValueOnce({
+      promptId: "resume",
+      jobId: 1,
+      versions: [1, 9],
+    });
+    await expect(callRoute(route, res)).rejects.toMatchObject({
+      status: 400,
+      message: "unknown resume prompt version: 9",
+    });
+
+    http.readJson.mockResolvedValueOnce({
+      promptId: "resume",
+      jobId: 1,
+      versions: [2, 2],
+    });
+    await expect(callRoute(route, res)).rejects.toMatchObject({
+      status: 400,
+      code: "bad_request",
+    });
+    expect(orchestrator.handleGenerateResume).not.toHaveBeenCalled();
+  });
+
+  it("runs both versions and returns each variant", async () => {
+    const route = await importFreshRoute();
+    http.readJson.mockResolvedValueOnce({
+      promptId: "resume",
+      jobId: "5",
+      versions: [1, 2],
+      options: { tone: "confident" },
+    });
+    orchestrator.handleGenerateResume.mockImplementation(
+      async (req: { options: { promptVersion: number } }) =>
+        req.options.promptVersion === 1
+          ? {
+              artifact: {
+                user_id: "user-1",
+                kind: "resume",
+                content: { summary: "v1" },
+                prompt_id: "resume",
+                prompt_version: 1,
+                metadata: {},
+              },
+            }
+          : { error: "ai is down", code: "ai_invalid_output" }
+    );
+
+    const c = counters();
+    const { res, state } = createMockResponse();
+    await callRoute(route, res, c);
+
+    expect(orchestrator.handleGenerateResume).toHaveBeenCalledWith({
+      userId: "user-1",
+      jobId: 5,
+      options: { tone: "confident", promptVersion: 2 },
+    });
+    expect(state.status).toBe(201);
+    const body = JSON.parse(state.body);
+    expect(body.promptId).toBe("resume");
+    expect(body.variants[0]).toMatchObject({
+      promptVersion: 1,
+      content: { summary: "v1" },
+      persisted: false,
+      metadata: { comparison_id: body.comparisonId },
+    });
+    expect(body.variants[1]).toEqual({
+      promptVersion: 2,
+      error: "ai is down",
+      code: "ai_invalid_output",
+    });
+    expect(c).toEqual({
+      generate_total: 2,
+      generate_success: 1,
+      generate_fail: 1,
+    });
+  });
+
+  it("throws 502 when every variant fails", async () => {
+    const route = await importFreshRoute();
+    http.readJson.mockResolvedValueOnce({
+      promptId: "resume",
+      jobId: 5,
+      versions: [1, 2],
+    });
+    orchestrator.handleGenerateResume.mockResolvedValue({ error: "down" });
+
+    const { res } = createMockResponse();
+    await expect(callRoute(route, res)).rejects.toMatchObject({
+      status: 502,
+      code: "ai_error",
+    });
+  });
+});
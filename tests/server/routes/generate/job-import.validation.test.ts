@@ -13,8 +13,19 @@ const http = vi.hoisted(() => ({
   sendJson: vi.fn(),
 }));
 
+const extraction = vi.hoisted(() => ({
+  checkUrlAccessibility: vi.fn(),
+  extractJobPosting: vi.fn(),
+}));
+
+const aiClient = vi.hoisted(() => ({
+  generate: vi.fn(),
+}));
+
 vi.mock("@utils/rateLimiter.js", () => rateLimiter);
 vi.mock("@utils/http.js", () => http);
+vi.mock("@server/services/extractionStrategies.js", () => extraction);
+vi.mock("@server/services/aiClient.js", () => aiClient);
 
 async function importFreshRoute() {
   vi.resetModules();
@@ -26,6 +37,11 @@ describe("Generate Job Import Route - validation", () => {
     rateLimiter.checkLimit.mockReset();
     http.readJson.mockReset();
     http.sendJson.mockReset();
+    extraction.checkUrlAccessibility
+      .mockReset()
+      .mockResolvedValue({ accessible: true });
+    extraction.extractJobPosting.mockReset();
+    aiClient.generate.mockReset();
   });
 
   it("throws 429 rate_limited and sets Retry-After", async () => {
@@ -102,4 +118,74 @@ describe("Generate Job Import Route - validation", () => {
       )
     ).rejects.toMatchObject({ status: 400, code: "bad_request" });
   });
+
+  it("reads structured pages without calling the AI", async () => {
+    const route = await importFreshRoute();
+
+    rateLimiter.checkLimit.mockReturnValue({ ok: true });
+    http.readJson.mockResolvedValueOnce({
+      url: "https://jobs.lever.co/initech/abc",
+    });
+    extraction.extractJobPosting.mockResolvedValueOnce({
+      html: `<div class="posting-headline"><h2>Designer</h2></div>
+        <meta property="og:title" content="Initech - Designer" />`,
+      cleanText: "Designer",
+      title: "Designer",
+      finalUrl: "https://jobs.lever.co/initech/abc",
+      meta: { strategy: "fetch-basic", status: 200, latency_ms: 5, retries: 0 },
+    });
+
+    await route.post(
+      {} as any,
+      {} as any,
+      new URL("/api/generate/job-import", "http://localhost"),
+      "req-1",
+      "user-1",
+      { generate_total: 0, generate_success: 0, generate_fail: 0 } as any
+    );
+
+    expect(aiClient.generate).not.toHaveBeenCalled();
+    const [, status, payload] = http.sendJson.mock.calls[0];
+    expect(status).toBe(200);
+    expect(payload.jobData).toMatchObject({
+      job_title: "Designer",
+      company_name: "Initech",
+    });
+    expect(payload.meta).toMatchObject({
+      source: "structured",
+      extractor: "lever",
+    });
+  });
+
+  it("falls back to AI extraction when no structured data is found", async () => {
+    const route = await importFreshRoute();
+
+    rateLimiter.checkLimit.mockReturnValue({ ok: true });
+    http.readJson.mockResolvedValueOnce({ url: "https://example.com/job" });
+    extraction.extractJobPosting.mockResolvedValueOnce({
+      html: "<h1>Engineer</h1>",
+      cleanText: "Engineer at Example",
+      title: "Engineer",
+      finalUrl: "https://example.com/job",
+      meta: { strategy: "fetch-basic", status: 200, latency_ms: 5, retries: 0 },
+    });
+    aiClient.generate.mockResolvedValueOnce({
+      json: { job_title: "Engineer", company_name: "Example" },
+    });
+
+    await route.post(
+      {} as any,
+      {} as any,
+      new URL("/api/generate/job-import", "http://localhost"),
+      "req-1",
+      "user-1",
+      { generate_total: 0, generate_success: 0, generate_fail: 0 } as any
+    );
+
+    expect(aiClient.generate).toHaveBeenCalledTimes(1);
+    expect(http.sendJson.mock.calls[0][2].meta).toMatchObject({
+      source: "ai",
+      extractor: "ai",
+    });
+  });
 });
@@ -21,9 +21,11 @@ function createMockResponse() {
     status?: number;
     headers: Record<string, string>;
     body: string;
+    chunks: string[];
   } = {
     headers: {},
     body: "",
+    chunks: [],
   };
 
   const res = {
@@ -34,6 +36,9 @@ function createMockResponse() {
       state.status = status;
       state.headers = { ...state.headers, ...headers };
     },
+    write: (chunk: string) => {
+      state.chunks.push(chunk);
+    },
     end: (data?: string) => {
       state.body = data || "";
     },
@@ -229,4 +234,99 @@ describe("Generate Resume Route - validation", () => {
     if (prevKey === undefined) delete process.env.SUPABASE_SERVICE_ROLE_KEY;
     else process.env.SUPABASE_SERVICE_ROLE_KEY = prevKey;
   });
+
+  it("streams sections over SSE and completes with the artifact", async () => {
+    const prevUrl = process.env.SUPABASE_URL;
+    delete process.env.SUPABASE_URL;
+
+    const route = await importFreshRoute();
+
+    rateLimiter.checkLimit.mockReturnValue({ ok: true });
+    http.readJson.mockResolvedValueOnce({ jobId: 123 });
+    const content = {
+      summary: "Builds reliable services",
+      sections: { experience: [{ role: "Dev" }] },
+    };
+    orchestrator.handleGenerateResume.mockImplementationOnce(
+      async (_req: unknown, onDelta?: (delta: string) => void) => {
+        const text = JSON.stringify(content);
+        onDelta?.(text.slice(0, 20));
+        onDelta?.(text.slice(20));
+        return {
+          artifact: {
+            user_id: "user-1",
+            job_id: 123,
+            kind: "resume",
+            content,
+            metadata: {},
+          },
+        };
+      }
+    );
+
+    const { res, state } = createMockResponse();
+
+    await route.post(
+      { headers: { accept: "text/event-stream" } } as any,
+      res,
+      new URL("/api/generate/resume", "http://localhost"),
+      "req-1",
+      "user-1",
+      { generate_total: 0, generate_success: 0, generate_fail: 0 } as any
+    );
+
+    expect(state.status).toBe(200);
+    expect(state.headers["Content-Type"]).toContain("text/event-stream");
+
+    const events = state.chunks.map((chunk) => {
+      const [eventLine, dataLine] = chunk.trim().split("\n");
+      return {
+        event: eventLine.replace("event: ", ""),
+        data: JSON.parse(dataLine.replace("data: ", "")),
+      };
+    });
+    expect(events.map((e) => e.event)).toEqual([
+      "start",
+      "section",
+      "section",
+      "section",
+      "complete",
+    ]);
+    expect(events[1].data).toEqual({
+      path: ["summary"],
+      value: "Builds reliable services",
+    });
+    expect(events[2].data.path).toEqual(["sections", "experience"]);
+    expect(events[4].data.content).toEqual(content);
+    expect(events[4].data.persisted).toBe(false);
+
+    if (prevUrl === undefined) delete process.env.SUPABASE_URL;
+    else process.env.SUPABASE_URL = prevUrl;
+  });
+
+  it("reports AI failures as an error event once streaming", async () => {
+    const route = await importFreshRoute();
+
+    rateLimiter.checkLimit.mockReturnValue({ ok: true });
+    http.readJson.mockResolvedValueOnce({ jobId: 123 });
+    orchestrator.handleGenerateResume.mockResolvedValueOnce({
+      error: "ai is down",
+    });
+
+    const { res, state } = createMockResponse();
+
+    await route.post(
+      {} as any,
+      res,
+      new URL("/api/generate/resume?stream=true", "http://localhost"),
+      "req-1",
+      "user-1",
+      { generate_total: 0, generate_success: 0, generate_fail: 0 } as any
+    );
+
+    expect(state.status).toBe(200);
+    expect(state.chunks.at(-1)).toBe(
+      'event: error\ndata: {"error":"ai is down","code":"ai_error"}\n\n'
+    );
+  });
 });
@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
+
+import {
+  createRouter,
+  validateRequestBody,
+  type RouteDefinition,
+} from "@server/routes/router";
+import {
+  buildOpenApiDocument,
+  defaultOperationId,
+} from "@server/routes/openapi";
+import { apiRoutes } from "@server/routes/table";
+
+function route(overrides: Partial<RouteDefinition>): RouteDefinition {
+  return {
+    method: "GET",
+    path: "/api/things",
+    tag: "things",
+    summary: "Things",
+    auth: "required",
+    handler: async () => {},
+    ...overrides,
+  };
+}
+
+function jsonRequest(body: string) {
+  return Readable.from([Buffer.from(body)]) as any;
+}
+
+describe("createRouter", () => {
+  const router = createRouter([
+    route({ path: "/api/things/history" }),
+    route({ path: "/api/things/:id" }),
+    route({ method: "DELETE", path: "/api/things/:id" }),
+    route({
+      path: "/api/jobs/:jobId/materials",
+      params: { jobId: { type: "integer" } },
+    }),
+  ]);
+
+  it("prefers earlier static routes over params", () => {
+    expect(router.match("GET", "/api/things/history")?.route.path).toBe(
+      "/api/things/history"
+    );
+    expect(router.match("GET", "/api/things/abc")?.params).toEqual({
+      id: "abc",
+    });
+  });
+
+  it("matches on method", () => {
+    expect(router.match("DELETE", "/api/things/abc")?.route.method).toBe(
+      "DELETE"
+    );
+    expect(router.match("PATCH", "/api/things/abc")).toBeNull();
+  });
+
+  it("decodes params and rejects malformed encoding", () => {
+    expect(router.match("GET", "/api/things/a%20b")?.params.id).toBe("a b");
+    expect(router.match("GET", "/api/things/%E0%A4%A")).toBeNull();
+  });
+
+  it("only matches digits for integer params", () => {
+    expect(router.match("GET", "/api/jobs/42/materials")?.params).toEqual({
+      jobId: "42",
+    });
+    expect(router.match("GET", "/api/jobs/abc/materials")).toBeNull();
+  });
+
+  it("does not match extra segments", () => {
+    expect(router.match("GET", "/api/things/a/b")).toBeNull();
+  });
+
+  it("throws on duplicate routes", () => {
+    expect(() =>
+      createRouter([route({}), route({ summary: "again" })])
+    ).toThrow("Duplicate route: GET /api/things");
+  });
+
+  it("accepts the API route table", () => {
+    expect(() => createRouter(apiRoutes)).not.toThrow();
+    const api = createRouter(apiRoutes);
+    expect(api.match("GET", "/api/export/history")?.route.path).toBe(
+      "/api/export/history"
+    );
+    expect(api.match("GET", "/api/automations/runs")?.route.path).toBe(
+      "/api/automations/runs"
+    );
+  });
+});
+
+describe("validateRequestBody", () => {
+  const withBody = route({
+    method: "POST",
+    body: {
+      type: "object",
+      required: ["name"],
+      properties: { name: { type: "string" } },
+    },
+  });
+
+  it("accepts a matching body", async () => {
+    await expect(
+      validateRequestBody(withBody, jsonRequest('{"name":"a"}'))
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects a body that fails the schema", async () => {
+    await expect(
+      validateRequestBody(withBody, jsonRequest('{"name":1}'))
+    ).rejects.toMatchObject({ status: 400, code: "bad_request" });
+  });
+
+  it("rejects invalid JSON", async () => {
+    await expect(
+      validateRequestBody(withBody, jsonRequest("{nope"))
+    ).rejects.toMatchObject({ status: 400, code: "bad_json" });
+  });
+
+  it("skips routes without a body schema", async () => {
+    await expect(
+      validateRequestBody(route({}), jsonRequest("{nope"))
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("buildOpenApiDocument", () => {
+  const doc = buildOpenApiDocument(apiRoutes, {
+    title: "Test",
+    version: "0.0.0",
+  }) as any;
+
+  it("converts path params", () => {
+    const op = doc.paths["/api/cover-letter/drafts/{id}"].patch;
+    expect(op.operationId).toBe("patchCoverLetterDraftsById");
+    expect(op.parameters).toEqual([
+      expect.objectContaining({ name: "id", in: "path", required: true }),
+    ]);
+  });
+
+  it("documents auth, bodies and errors", () => {
+    const op = doc.paths["/api/generate/resume"].post;
+    expect(op.security).toEqual([{ bearerAuth: [] }]);
+    expect(op.requestBody.content["application/json"].schema.required).toEqual([
+      "jobId",
+    ]);
+    expect(op.responses.default.content["application/json"].schema).toEqual({
+      $ref: "#/components/schemas/Error",
+    });
+  });
+
+  it("gives every operation a unique id", () => {
+    const ids = Object.values(doc.paths).flatMap((ops: any) =>
+      Object.values(ops).map((op: any) => op.operationId)
+    );
+    expect(new Set(ids).size).toBe(apiRoutes.length);
+  });
+
+  it("derives operation ids from method and path", () => {
+    expect(
+      defaultOperationId(
+        route({
+          method: "DELETE",
+          path: "/api/notifications/followups/:sourceId",
+        })
+      )
+    ).toBe("deleteNotificationsFollowupsBySourceId");
+  });
+});
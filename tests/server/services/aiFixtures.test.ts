@@ -0,0 +1,160 @@
+/**
+ * Tests for services/aiFixtures.ts and record/replay in aiClient.generate
+ * Coverage: recording real responses, offline replay (incl. streaming), missing fixtures,
+ * kind-level fallback, and an orchestrator flow replayed without a provider
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { generate, registerProvider } from "@server/services/aiClient.js";
+import {
+  AiFixtureMissingError,
+  fixturePath,
+} from "@server/services/aiFixtures.js";
+
+const supabaseAdmin = vi.hoisted(() => {
+  const query: any = {
+    select: () => query,
+    eq: () => query,
+    order: () => query,
+    then: (onFulfilled: any) =>
+      Promise.resolve({
+        data: [{ skill_name: "TypeScript" }, { skill_name: "Postgres" }],
+        error: null,
+      }).then(onFulfilled),
+  };
+  return {
+    default: { from: () => query },
+    getProfile: async () => ({ id: "u1", full_name: "Sam Lee" }),
+    getJob: async () => ({
+      id: 7,
+      user_id: "u1",
+      job_title: "Backend Engineer",
+    }),
+    getComprehensiveProfile: async () => null,
+  };
+});
+
+vi.mock("@server/services/supabaseAdmin.js", () => supabaseAdmin);
+
+const PROMPT = "Generate interview questions for a backend engineer";
+const QUESTIONS = { questions: [{ text: "Explain idempotency" }] };
+
+const provider = vi.fn();
+registerProvider("fixture-test", (...args) => provider(...args));
+
+describe("AI record/replay", () => {
+  let dir: string;
+  const env = { ...process.env };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "ai-fixtures-"));
+    process.env.AI_FIXTURE_DIR = dir;
+    process.env.FAKE_AI = "false";
+    process.env.AI_PROVIDER = "fixture-test";
+    provider.mockReset();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records provider responses keyed by kind and prompt hash", async () => {
+    process.env.AI_FIXTURE_MODE = "record";
+    provider.mockResolvedValueOnce({
+      json: QUESTIONS,
+      tokens: 42,
+      raw: { big: "payload" },
+    });
+
+    await generate("interview_questions", PROMPT, { model: "gpt-4o-mini" });
+
+    const file = fixturePath("interview_questions", PROMPT);
+    expect(path.dirname(file)).toBe(path.join(dir, "interview_questions"));
+    const fixture = JSON.parse(await readFile(file, "utf8"));
+    expect(fixture).toMatchObject({
+      kind: "interview_questions",
+      provider: "fixture-test",
+      model: "gpt-4o-mini",
+      promptPreview: PROMPT,
+      result: { json: QUESTIONS, tokens: 42 },
+    });
+    expect(fixture.result.raw).toBeUndefined();
+  });
+
+  it("replays recorded responses without calling the provider", async () => {
+    process.env.AI_FIXTURE_MODE = "record";
+    provider.mockResolvedValueOnce({ json: QUESTIONS, tokens: 42 });
+    await generate("interview_questions", PROMPT);
+
+    process.env.AI_FIXTURE_MODE = "replay";
+    const deltas: string[] = [];
+    const result = await generate("interview_questions", PROMPT, {
+      stream: true,
+      onDelta: (d) => deltas.push(d),
+    });
+
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(result.json).toEqual(QUESTIONS);
+    expect(result.meta).toMatchObject({
+      provider: "replay",
+      replayed: true,
+      recordedProvider: "fixture-test",
+    });
+    expect(JSON.parse(deltas.join(""))).toEqual(QUESTIONS);
+  });
+
+  it("throws ai_fixture_missing for prompts that were never recorded", async () => {
+    process.env.AI_FIXTURE_MODE = "replay";
+
+    const err = await generate("interview_questions", PROMPT).catch((e) => e);
+    expect(err).toBeInstanceOf(AiFixtureMissingError);
+    expect(err.code).toBe("ai_fixture_missing");
+    expect(err.message).toContain(fixturePath("interview_questions", PROMPT));
+  });
+
+  it("falls back to another fixture of the same kind with AI_FIXTURE_MATCH=kind", async () => {
+    process.env.AI_FIXTURE_MODE = "record";
+    provider.mockResolvedValueOnce({ json: QUESTIONS });
+    await generate("interview_questions", PROMPT);
+
+    process.env.AI_FIXTURE_MODE = "replay";
+    process.env.AI_FIXTURE_MATCH = "kind";
+    const result = await generate(
+      "interview_questions",
+      "Generate interview questions for a data engineer"
+    );
+    expect(result.json).toEqual(QUESTIONS);
+  });
+
+  it("replays a full orchestrator flow offline", async () => {
+    const orchestrator = await import("@server/services/orchestrator.js");
+    const skills = {
+      emphasize: ["TypeScript"],
+      add: ["Kafka"],
+      order: ["TypeScript", "Postgres"],
+      score: 72,
+    };
+
+    process.env.AI_FIXTURE_MODE = "record";
+    provider.mockResolvedValueOnce({ json: skills, tokens: 30 });
+    const recorded = await orchestrator.handleSkillsOptimization({
+      userId: "u1",
+      jobId: 7,
+    });
+
+    process.env.AI_FIXTURE_MODE = "replay";
+    const replayed = await orchestrator.handleSkillsOptimization({
+      userId: "u1",
+      jobId: 7,
+    });
+
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(replayed.error).toBeUndefined();
+    expect(replayed.artifact?.content).toEqual(recorded.artifact?.content);
+    expect(replayed.artifact?.metadata?.provider).toBe("replay");
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for services/aiOutputSchemas.ts and schema handling in aiClient.generate
+ * Coverage: validator error paths, repair prompts, AiOutputError after failed repairs
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generate, registerProvider } from "@server/services/aiClient.js";
+import {
+  AiOutputError,
+  buildRepairPrompt,
+  outputSchemas,
+  validateOutput,
+} from "@server/services/aiOutputSchemas.js";
+
+const PROMPT = "Generate interview questions for a backend engineer";
+
+describe("validateOutput", () => {
+  it("accepts output matching the schema", () => {
+    expect(
+      validateOutput(outputSchemas.cover_letter, {
+        sections: { opening: "Hi", body: ["Para"], closing: "Bye" },
+      })
+    ).toEqual([]);
+  });
+
+  it("reports missing fields, wrong types and ranges with paths", () => {
+    const errors = validateOutput(outputSchemas["job-match"], {
+      matchScore: 140,
+      strengths: ["APIs", 3],
+    });
+
+    expect(errors).toEqual([
+      "$.breakdown: is required",
+      "$.matchScore: must be <= 100",
+      "$.strengths[1]: expected string, got number",
+    ]);
+  });
+
+  it("passes anyOf when one branch matches", () => {
+    const schema = outputSchemas.company_research;
+    expect(validateOutput(schema, { company_name: "Acme" })).toEqual([]);
+    expect(validateOutput(schema, { industry: "Fintech" })).toEqual([
+      "$.companyName: is required",
+    ]);
+  });
+
+  it("keeps repair prompts under the generate() length limit", () => {
+    const prompt = buildRepairPrompt({
+      originalPrompt: "x".repeat(30_000),
+      errors: ["$.questions: is required"],
+      previousText: "{}",
+      schema: outputSchemas.interview_questions,
+    });
+
+    expect(prompt.length).toBeLessThanOrEqual(20_000);
+    expect(prompt).toContain("- $.questions: is required");
+  });
+});
+
+describe("generate with schema", () => {
+  const adapter = vi.fn();
+  let savedProvider: string | undefined;
+  let savedFake: string | undefined;
+
+  beforeEach(() => {
+    savedProvider = process.env.AI_PROVIDER_INTERVIEW_QUESTIONS;
+    savedFake = process.env.FAKE_AI;
+    delete process.env.FAKE_AI;
+    process.env.AI_PROVIDER_INTERVIEW_QUESTIONS = "schema-test";
+    adapter.mockReset();
+    registerProvider("schema-test", adapter);
+  });
+
+  afterEach(() => {
+    if (savedProvider === undefined) {
+      delete process.env.AI_PROVIDER_INTERVIEW_QUESTIONS;
+    } else process.env.AI_PROVIDER_INTERVIEW_QUESTIONS = savedProvider;
+    if (savedFake === undefined) delete process.env.FAKE_AI;
+    else process.env.FAKE_AI = savedFake;
+  });
+
+  it("returns validated data without repairs when output is valid", async () => {
+    const json = { questions: [{ text: "Design a rate limiter" }] };
+    adapter.mockResolvedValueOnce({ json, tokens: 10 });
+
+    const result = await generate("interview_questions", PROMPT, {
+      schema: outputSchemas.interview_questions,
+    });
+
+    expect(result.data).toEqual(json);
+    expect(result.meta?.repairs).toBeUndefined();
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it("re-prompts with validation errors and returns the repaired output", async () => {
+    const fixed = { questions: [{ text: "Explain CAP theorem" }] };
+    adapter
+      .mockResolvedValueOnce({ text: "Here are some questions!", json: null })
+      .mockResolvedValueOnce({ json: fixed });
+
+    const result = await generate("interview_questions", PROMPT, {
+      schema: outputSchemas.interview_questions,
+      temperature: 0.5,
+    });
+
+    expect(result.data).toEqual(fixed);
+    expect(result.meta?.repairs).toBe(1);
+    const [repairPrompt, repairOpts] = adapter.mock.calls[1];
+    expect(repairPrompt).toContain("$: response was not valid JSON");
+    expect(repairPrompt).toContain("Here are some questions!");
+    expect(repairOpts).toMatchObject({ temperature: 0, stream: false });
+  });
+
+  it("throws AiOutputError when output never validates", async () => {
+    adapter.mockResolvedValue({ json: { questions: [] } });
+
+    const error = await generate("interview_questions", PROMPT, {
+      schema: outputSchemas.interview_questions,
+      repairAttempts: 2,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AiOutputError);
+    expect(error).toMatchObject({
+      code: "ai_invalid_output",
+      attempts: 3,
+      errors: ["$.questions: must have at least 1 item(s)"],
+    });
+    expect(adapter).toHaveBeenCalledTimes(3);
+  });
+});
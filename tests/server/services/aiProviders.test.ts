@@ -0,0 +1,208 @@
+/**
+ * Tests for services/aiClient.ts provider registry
+ * Coverage: per-kind provider selection, Azure / Anthropic / OpenAI-compatible
+ * request shapes, normalized results
+ *
+ * fetch is stubbed so each adapter's HTTP request can be inspected.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  generate,
+  listProviders,
+  registerProvider,
+  selectProvider,
+} from "@server/services/aiClient.js";
+
+const PROMPT = "Generate a tailored resume for this job posting";
+
+const ENV_KEYS = [
+  "FAKE_AI",
+  "AI_PROVIDER",
+  "AI_PROVIDER_RESUME",
+  "AI_PROVIDER_COVER_LETTER",
+  "AZURE_OPENAI_ENDPOINT",
+  "AZURE_OPENAI_API_KEY",
+  "AZURE_OPENAI_DEPLOYMENT",
+  "ANTHROPIC_API_KEY",
+  "ANTHROPIC_MODEL",
+  "AI_BASE_URL",
+  "AI_COMPAT_MODEL",
+  "AI_COMPAT_JSON_MODE",
+];
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("aiClient provider registry", () => {
+  const saved: Record<string, string | undefined> = {};
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      saved[key] = process.env[key];
+      delete process.env[key];
+    }
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+    vi.unstubAllGlobals();
+  });
+
+  it("selects providers per kind with AI_PROVIDER as the fallback", () => {
+    process.env.AI_PROVIDER = "azure";
+    process.env.AI_PROVIDER_COVER_LETTER = "anthropic";
+
+    expect(selectProvider("resume")).toBe("azure");
+    expect(selectProvider("cover_letter")).toBe("anthropic");
+
+    process.env.FAKE_AI = "true";
+    expect(selectProvider("cover_letter")).toBe("mock");
+  });
+
+  it("falls back to openai for unknown providers", () => {
+    process.env.AI_PROVIDER = "not-a-provider";
+    expect(selectProvider("resume")).toBe("openai");
+  });
+
+  it("calls the Azure deployment endpoint with an api-key header", async () => {
+    process.env.AI_PROVIDER_RESUME = "azure";
+    process.env.AZURE_OPENAI_ENDPOINT = "https://acme.openai.azure.com/";
+    process.env.AZURE_OPENAI_API_KEY = "azure-key";
+    process.env.AZURE_OPENAI_DEPLOYMENT = "resume-gpt";
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        choices: [{ message: { content: '{"summary":"Hi"}' } }],
+        usage: { total_tokens: 42 },
+      })
+    );
+
+    const result = await generate("resume", PROMPT, { model: "gpt-4o-mini" });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      "https://acme.openai.azure.com/openai/deployments/resume-gpt/chat/completions?api-version=2024-10-21"
+    );
+    expect(init.headers["api-key"]).toBe("azure-key");
+    expect(result.json).toEqual({ summary: "Hi" });
+    expect(result.tokens).toBe(42);
+    expect(result.meta?.provider).toBe("azure");
+  });
+
+  it("normalizes Anthropic messages responses", async () => {
+    process.env.AI_PROVIDER_COVER_LETTER = "anthropic";
+    process.env.ANTHROPIC_API_KEY = "ant-key";
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        content: [{ type: "text", text: '```json\n{"opening":"Dear"}\n```' }],
+        usage: { input_tokens: 30, output_tokens: 12 },
+      })
+    );
+
+    const result = await generate("cover_letter", PROMPT, {
+      model: "gpt-4o-mini",
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect(init.headers["x-api-key"]).toBe("ant-key");
+    // OpenAI model names are not forwarded to Anthropic
+    expect(body.model).toBe("claude-3-5-haiku-latest");
+    expect(result.json).toEqual({ opening: "Dear" });
+    expect(result.tokens).toBe(42);
+    expect(result.meta?.provider).toBe("anthropic");
+  });
+
+  it("streams Anthropic deltas through onDelta", async () => {
+    process.env.AI_PROVIDER = "anthropic";
+    process.env.ANTHROPIC_API_KEY = "ant-key";
+    const events = [
+      { type: "message_start", message: { usage: { input_tokens: 5 } } },
+      {
+        type: "content_block_delta",
+        delta: { type: "text_delta", text: '{"a":' },
+      },
+      {
+        type: "content_block_delta",
+        delta: { type: "text_delta", text: "1}" },
+      },
+      { type: "message_delta", usage: { output_tokens: 3 } },
+      { type: "message_stop" },
+    ];
+    const sse = events
+      .map((e) => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`)
+      .join("");
+    fetchMock.mockResolvedValueOnce(new Response(sse, { status: 200 }));
+
+    const deltas: string[] = [];
+    const result = await generate("resume", PROMPT, {
+      stream: true,
+      onDelta: (d) => deltas.push(d),
+    });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+    expect(deltas).toEqual(['{"a":', "1}"]);
+    expect(result.json).toEqual({ a: 1 });
+    expect(result.tokens).toBe(8);
+  });
+
+  it("targets AI_BASE_URL for OpenAI-compatible servers", async () => {
+    process.env.AI_PROVIDER = "openai-compatible";
+    process.env.AI_BASE_URL = "http://localhost:11434/v1";
+    process.env.AI_COMPAT_MODEL = "llama3.1";
+    process.env.AI_COMPAT_JSON_MODE = "false";
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ choices: [{ message: { content: "plain text" } }] })
+    );
+
+    const result = await generate("resume", PROMPT);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(body.model).toBe("llama3.1");
+    expect(body.response_format).toBeUndefined();
+    expect(result.text).toBe("plain text");
+    expect(result.meta?.provider).toBe("openai-compatible");
+  });
+
+  it("does not retry client errors", async () => {
+    process.env.AI_PROVIDER = "openai-compatible";
+    process.env.AI_BASE_URL = "http://localhost:8000/v1";
+    fetchMock.mockResolvedValue(
+      jsonResponse({ error: { message: "model not found" } }, 404)
+    );
+
+    await expect(
+      generate("resume", PROMPT, { model: "missing" })
+    ).rejects.toMatchObject({ message: "model not found", status: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("routes to adapters added with registerProvider", async () => {
+    const adapter = vi.fn().mockResolvedValue({ text: "custom", tokens: 1 });
+    registerProvider("Custom", adapter);
+    process.env.AI_PROVIDER_RESUME = "custom";
+
+    const result = await generate("resume", PROMPT, { model: "x" });
+
+    expect(listProviders()).toContain("custom");
+    expect(adapter).toHaveBeenCalledWith(PROMPT, { model: "x" }, "resume");
+    expect(result).toMatchObject({
+      text: "custom",
+      meta: { provider: "custom" },
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+/**
+ * Minimal chainable Supabase stub: every builder method returns the builder,
+ * and awaiting it (or calling maybeSingle) resolves to the table's result.
+ */
+const db = vi.hoisted(() => {
+  const results: Record<string, { data: any; error: any }> = {};
+  const inserts: Array<{ table: string; row: any }> = [];
+  const rpc = vi.fn();
+
+  function from(table: string) {
+    const result = () => results[table] ?? { data: null, error: null };
+    const builder: any = {
+      select: () => builder,
+      eq: () => builder,
+      gte: () => builder,
+      maybeSingle: async () => result(),
+      insert: async (row: any) => {
+        inserts.push({ table, row });
+        return result();
+      },
+      then: (resolve: any, reject: any) =>
+        Promise.resolve(result()).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  return { results, inserts, rpc, client: { from, rpc } };
+});
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: db.client,
+}));
+
+import {
+  checkQuota,
+  enterUsageContext,
+  estimateCostUsd,
+  getTeamSpend,
+  getUsageSummary,
+  recordUsage,
+} from "@server/services/aiUsageService.js";
+
+const NOW = new Date("2026-10-19T15:00:00.000Z");
+
+function ledgerRows(rows: Array<[string, number, number, string]>) {
+  return rows.map(([kind, tokens, cost, created_at]) => ({
+    kind,
+    tokens,
+    estimated_cost_usd: cost,
+    created_at,
+  }));
+}
+
+describe("aiUsageService", () => {
+  const envKeys = [
+    "AI_DAILY_TOKEN_LIMIT",
+    "AI_MONTHLY_TOKEN_LIMIT",
+    "AI_MONTHLY_COST_LIMIT_USD",
+  ];
+  const prevEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of envKeys) {
+      prevEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    for (const key of Object.keys(db.results)) delete db.results[key];
+    db.inserts.length = 0;
+    db.rpc.mockReset();
+  });
+
+  afterEach(() => {
+    for (const key of envKeys) {
+      if (prevEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = prevEnv[key];
+    }
+  });
+
+  it("estimates cost by the longest matching model prefix", () => {
+    expect(estimateCostUsd("gpt-4o-mini", 1_000_000)).toBe(0.3);
+    expect(estimateCostUsd("gpt-4o-2024-08-06", 1_000_000)).toBe(4.4);
+    expect(estimateCostUsd("claude-3-5-haiku-latest", 500_000)).toBe(0.8);
+    expect(estimateCostUsd("some-local-model", 1_000_000)).toBe(0);
+  });
+
+  it("summarizes today and this month with per-kind totals", async () => {
+    db.results.ai_usage_ledger = {
+      data: ledgerRows([
+        ["resume", 1000, 0.01, "2026-10-19T10:00:00.000Z"],
+        ["resume", 500, 0.005, "2026-10-02T10:00:00.000Z"],
+        ["cover_letter", 2000, 0.02, "2026-10-19T12:00:00.000Z"],
+      ]),
+      error: null,
+    };
+    process.env.AI_MONTHLY_TOKEN_LIMIT = "100000";
+
+    const summary = await getUsageSummary("user-1", NOW);
+
+    expect(summary.today).toEqual({
+      generations: 2,
+      tokens: 3000,
+      costUsd: 0.03,
+    });
+    expect(summary.month.tokens).toBe(3500);
+    expect(summary.byKind.map((k) => k.kind)).toEqual([
+      "cover_letter",
+      "resume",
+    ]);
+    expect(summary.limits).toEqual({
+      dailyTokens: null,
+      monthlyTokens: 100000,
+      monthlyCostUsd: null,
+    });
+    expect(summary.resetsAt.daily).toBe("2026-10-20T00:00:00.000Z");
+    expect(summary.resetsAt.monthly).toBe("2026-11-01T00:00:00.000Z");
+  });
+
+  it("rejects with period details when the daily limit is reached", async () => {
+    db.results.ai_usage_ledger = {
+      data: ledgerRows([["resume", 5000, 0.05, "2026-10-19T10:00:00.000Z"]]),
+      error: null,
+    };
+    process.env.AI_DAILY_TOKEN_LIMIT = "5000";
+
+    const result = await checkQuota("user-1", NOW);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.details).toEqual({
+      period: "daily",
+      metric: "tokens",
+      limit: 5000,
+      used: 5000,
+      resets_at: "2026-10-20T00:00:00.000Z",
+    });
+    expect(result.retryAfterSec).toBe(9 * 60 * 60);
+    expect(result.message).toMatch(/Daily AI token limit/);
+  });
+
+  it("lets a per-user override of 0 lift the server default", async () => {
+    db.results.ai_usage_ledger = {
+      data: ledgerRows([["resume", 5000, 0.05, "2026-10-19T10:00:00.000Z"]]),
+      error: null,
+    };
+    db.results.ai_usage_quotas = {
+      data: { daily_token_limit: 0 },
+      error: null,
+    };
+    process.env.AI_DAILY_TOKEN_LIMIT = "1000";
+
+    await expect(checkQuota("user-1", NOW)).resolves.toEqual({ ok: true });
+  });
+
+  it("fails open when the ledger cannot be read", async () => {
+    db.results.ai_usage_ledger = {
+      data: null,
+      error: { message: "relation does not exist" },
+    };
+    process.env.AI_DAILY_TOKEN_LIMIT = "1";
+
+    await expect(checkQuota("user-1", NOW)).resolves.toEqual({ ok: true });
+  });
+
+  it("records usage only inside a usage context", async () => {
+    await recordUsage({ kind: "resume", provider: "openai", tokens: 10 });
+    expect(db.inserts).toHaveLength(0);
+
+    enterUsageContext({
+      userId: "user-1",
+      route: "/api/generate/resume",
+      reqId: "req-1",
+    });
+    await recordUsage({
+      kind: "resume",
+      provider: "openai",
+      model: "gpt-4o-mini",
+      tokens: 2000,
+    });
+
+    expect(db.inserts).toEqual([
+      {
+        table: "ai_usage_ledger",
+        row: expect.objectContaining({
+          user_id: "user-1",
+          kind: "resume",
+          model: "gpt-4o-mini",
+          route: "/api/generate/resume",
+          request_id: "req-1",
+          tokens: 2000,
+          estimated_cost_usd: 0.0006,
+        }),
+      },
+    ]);
+  });
+
+  it("aggregates team spend for admins and rejects non-admins", async () => {
+    db.results.team_members = { data: [], error: null };
+    await expect(getTeamSpend("user-1", 30, NOW)).rejects.toMatchObject({
+      status: 403,
+    });
+
+    db.results.team_members = {
+      data: [{ team_id: "team-1", teams: { name: "Cohort A" } }],
+      error: null,
+    };
+    db.rpc.mockResolvedValueOnce({
+      data: [
+        {
+          team_id: "team-1",
+          user_id: "u-1",
+          full_name: "Sam",
+          generations: 2,
+          tokens: 1000,
+          estimated_cost_usd: "0.01",
+        },
+        {
+          team_id: "team-1",
+          user_id: "u-2",
+          full_name: "Alex",
+          generations: 4,
+          tokens: 3000,
+          estimated_cost_usd: "0.03",
+        },
+      ],
+      error: null,
+    });
+
+    const result = await getTeamSpend("user-1", 30, NOW);
+
+    expect(db.rpc).toHaveBeenCalledWith("get_team_ai_spend", {
+      p_team_ids: ["team-1"],
+      p_since: "2026-09-19T15:00:00.000Z",
+    });
+    expect(result.teams[0]).toMatchObject({
+      teamName: "Cohort A",
+      generations: 6,
+      tokens: 4000,
+      costUsd: 0.04,
+    });
+    expect(result.teams[0].members.map((m) => m.userId)).toEqual([
+      "u-2",
+      "u-1",
+    ]);
+  });
+});
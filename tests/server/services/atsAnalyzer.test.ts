@@ -0,0 +1,299 @@
+/**
+ * Tests for services/atsAnalyzer.ts
+ * Coverage: tokenizing tech names, stemming, synonyms, required vs preferred
+ * keywords from the description, per-section matches, formatting risks and
+ * score reproducibility
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  analyzeAts,
+  detectFormattingRisks,
+  extractJobKeywords,
+  resumeSectionText,
+  stem,
+  tokenize,
+  type AtsJobInput,
+} from "@server/services/atsAnalyzer.js";
+
+function resume(overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    header: {
+      fullName: "Ada Lovelace",
+      title: "Backend Engineer",
+      email: "ada@example.com",
+      phone: "555-0100",
+      location: "Austin, TX",
+      links: [],
+    },
+    summary: {
+      enabled: true,
+      text: "Engineer building APIs in Golang and Node.js.",
+      highlights: [],
+    },
+    experience: {
+      enabled: true,
+      items: [
+        {
+          title: "Senior Engineer",
+          company: "Acme",
+          bullets: [
+            "Managed a PostgreSQL cluster serving 2M requests a day",
+            "Deployed services to k8s with GitHub Actions",
+          ],
+          technologies: ["TypeScript"],
+        },
+      ],
+    },
+    education: {
+      enabled: true,
+      items: [
+        {
+          degree: "B.S.",
+          field: "Computer Science",
+          institution: "State University",
+        },
+      ],
+    },
+    skills: {
+      enabled: true,
+      categories: [
+        {
+          name: "Languages",
+          skills: [{ name: "Go" }, { name: "TypeScript" }, { name: "Python" }],
+        },
+      ],
+    },
+    projects: { enabled: false, items: [{ name: "Terraform modules" }] },
+    customSections: [],
+    ...overrides,
+  };
+}
+
+const job: AtsJobInput = {
+  job_title: "Senior Backend Engineer",
+  job_description: [
+    "About us",
+    "We use Java across the company.",
+    "",
+    "Requirements:",
+    "- 5+ years with Go or Python",
+    "- Experience running Kubernetes and PostgreSQL",
+    "- CI/CD pipelines",
+    "",
+    "Nice to have:",
+    "- Terraform",
+    "- Kafka",
+    "",
+    "Benefits",
+    "- Excel-lent snacks and Docker stickers",
+  ].join("\n"),
+  required_skills: ["golang", "Project Management"],
+  preferred_skills: ["GraphQL"],
+};
+
+describe("tokenize / stem", () => {
+  it("keeps symbols that belong to tech names and splits joined words", () => {
+    const raw = tokenize("Node.js, C++ and C#; .NET CI/CD front-end.").map(
+      (t) => t.raw
+    );
+
+    expect(raw).toEqual([
+      "node.js",
+      "c++",
+      "and",
+      "c#",
+      ".net",
+      "ci",
+      "cd",
+      "front",
+      "end",
+    ]);
+  });
+
+  it("brings word forms to the same stem", () => {
+    expect(stem("managed")).toBe(stem("managing"));
+    expect(stem("management")).toBe(stem("manage"));
+    expect(stem("developers")).toBe(stem("develop"));
+    expect(stem("c++")).toBe("c++");
+  });
+});
+
+describe("extractJobKeywords", () => {
+  it("reads required and preferred keywords and skips company and benefits text", () => {
+    const keywords = extractJobKeywords(job).map(
+      (k) => `${k.importance}:${k.term}`
+    );
+
+    expect(keywords).toEqual([
+      "required:Go",
+      "required:Project Management",
+      "preferred:GraphQL",
+      "required:Python",
+      "required:Kubernetes",
+      "required:PostgreSQL",
+      "required:CI/CD",
+      "preferred:Terraform",
+      "preferred:Kafka",
+    ]);
+  });
+
+  it("treats 'a plus' lines as preferred and required mentions as winning", () => {
+    const keywords = extractJobKeywords({
+      job_description:
+        "Experience with React.\nKnowledge of GraphQL is a plus.\nReact Native a plus",
+      preferred_skills: ["react"],
+    });
+
+    expect(keywords.map((k) => [k.term, k.importance])).toEqual([
+      ["React", "required"],
+      ["GraphQL", "preferred"],
+      ["React Native", "preferred"],
+    ]);
+  });
+
+  it("does not read the word 'go' as the Go language", () => {
+    const keywords = extractJobKeywords({
+      job_description: "You will go above and beyond with Go services.",
+    });
+    expect(keywords.map((k) => k.term)).toEqual(["Go"]);
+
+    expect(
+      extractJobKeywords({ job_description: "Ready to go the extra mile" })
+    ).toEqual([]);
+  });
+});
+
+describe("resumeSectionText", () => {
+  it("collects text per section and leaves out disabled sections", () => {
+    const text = resumeSectionText(resume());
+
+    expect(text.experience).toContain("Managed a PostgreSQL cluster");
+    expect(text.skills).toBe("Languages\nGo\nTypeScript\nPython");
+    expect(text.education).toContain("Computer Science");
+    expect(text.projects).toBeUndefined();
+    expect(text.header).not.toContain("ada@example.com");
+  });
+});
+
+describe("detectFormattingRisks", () => {
+  it("flags multi-column layouts, tables, photos and header/footer text", () => {
+    const risks = detectFormattingRisks(
+      resume({
+        header: { ...resume().header, photoUrl: "https://cdn/photo.png" },
+        customSections: [
+          {
+            id: "c1",
+            title: "Tools",
+            enabled: true,
+            format: "table",
+            content: [],
+          },
+        ],
+      }),
+      {
+        layout: {
+          columns: 2,
+          headerFooter: { showHeader: true, headerContent: "Ada Lovelace" },
+        },
+      }
+    );
+
+    expect(risks.map((r) => [r.kind, r.severity, r.penalty])).toEqual([
+      ["multi_column", "high", 10],
+      ["table", "high", 10],
+      ["image", "medium", 5],
+      ["header_footer", "medium", 5],
+    ]);
+  });
+
+  it("reports pipe-separated text as a possible table", () => {
+    const risks = detectFormattingRisks(
+      resume({
+        summary: {
+          enabled: true,
+          text: "Go | Python | SQL",
+          highlights: [],
+        },
+      }),
+      { layout: { columns: 1 } }
+    );
+
+    expect(risks).toHaveLength(1);
+    expect(risks[0]).toMatchObject({ kind: "table", severity: "medium" });
+  });
+
+  it("finds nothing in a single-column resume without images or tables", () => {
+    expect(detectFormattingRisks(resume(), null)).toEqual([]);
+  });
+});
+
+describe("analyzeAts", () => {
+  it("matches keywords through synonyms and stems and reports sections", () => {
+    const analysis = analyzeAts(resume(), job);
+    const byTerm = Object.fromEntries(
+      analysis.keywords.map((k) => [k.term, k])
+    );
+
+    expect(byTerm.Go).toMatchObject({
+      matched: true,
+      sections: ["summary", "skills"],
+      count: 2,
+      matchedAs: "Golang",
+    });
+    expect(byTerm.Kubernetes).toMatchObject({
+      matched: true,
+      sections: ["experience"],
+      matchedAs: "k8s",
+    });
+    expect(byTerm["CI/CD"].matched).toBe(false);
+    // Only in the disabled projects section
+    expect(byTerm.Terraform.matched).toBe(false);
+    expect(analysis.missing).toEqual({
+      required: ["Project Management", "CI/CD"],
+      preferred: ["GraphQL", "Terraform", "Kafka"],
+    });
+    expect(analysis.sections.experience).toEqual(["Kubernetes", "PostgreSQL"]);
+  });
+
+  it("scores coverage, context, structure and formatting reproducibly", () => {
+    const analysis = analyzeAts(resume(), job);
+
+    // 4 of 6 required (60), 0 of 3 preferred (15)
+    expect(analysis.breakdown).toEqual({
+      requiredCoverage: 0.67,
+      preferredCoverage: 0,
+      keywordPoints: 40,
+      // Go, Kubernetes, PostgreSQL appear outside the skills list
+      contextPoints: 5,
+      structurePoints: 15,
+      formattingPenalty: 0,
+    });
+    expect(analysis.score).toBe(60);
+    expect(analysis.version).toBe(1);
+    expect(analyzeAts(resume(), job)).toEqual(analysis);
+
+    const risky = analyzeAts(resume(), job, { layout: { columns: 2 } });
+    expect(risky.score).toBe(50);
+    expect(risky.formatting[0].kind).toBe("multi_column");
+  });
+
+  it("puts all keyword points on required keywords when none are preferred", () => {
+    const analysis = analyzeAts(resume(), {
+      required_skills: ["Python", "TypeScript"],
+    });
+
+    expect(analysis.breakdown.keywordPoints).toBe(75);
+    expect(analysis.breakdown.preferredCoverage).toBeNull();
+    // TypeScript is in experience, Python only under skills
+    expect(analysis.breakdown.contextPoints).toBe(5);
+    expect(analysis.score).toBe(95);
+  });
+
+  it("scores an empty resume at zero and lists every keyword as missing", () => {
+    const analysis = analyzeAts({}, { required_skills: ["SQL"] });
+
+    expect(analysis.score).toBe(0);
+    expect(analysis.missing.required).toEqual(["SQL"]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for services/atsScoreService.ts
+ * Coverage: job resolution (explicit, version, document), user scoping,
+ * stored score and breakdown, missing job / keyword errors
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * Reads return the first of `rows[table]` that matches the eq() filters;
+ * updates are recorded in `writes`.
+ */
+const db = await vi.hoisted(async () => {
+  const { createSupabaseStub } = await import("../helpers/supabaseStub");
+  const state = { rows: {} as Record<string, any[]> };
+  const stub = createSupabaseStub((query) => {
+    if (query.op !== "select") return { data: null, error: null };
+    const row = (state.rows[query.table] ?? []).find((r) =>
+      Object.entries(query.filters).every(([k, v]) => r[k] === v)
+    );
+    return { data: row ?? null, error: null };
+  });
+  return { ...stub, state };
+});
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: db.client,
+}));
+
+import { scoreDocumentVersion } from "@server/services/atsScoreService.js";
+
+const USER = "user-1";
+
+const content = {
+  header: { fullName: "Ada", email: "ada@example.com" },
+  experience: {
+    enabled: true,
+    items: [{ title: "Engineer", bullets: ["Built APIs in TypeScript"] }],
+  },
+  skills: {
+    enabled: true,
+    categories: [{ name: "Languages", skills: [{ name: "Python" }] }],
+  },
+};
+
+beforeEach(() => {
+  db.reset();
+  db.state.rows = {
+    document_versions: [
+      {
+        id: "v1",
+        user_id: USER,
+        document_id: "d1",
+        content,
+        template_id: "t1",
+        job_id: null,
+      },
+    ],
+    documents: [{ id: "d1", user_id: USER, job_id: 7 }],
+    jobs: [
+      {
+        id: 7,
+        user_id: USER,
+        job_title: "Engineer",
+        job_description: "",
+        required_skills: ["TypeScript", "Python", "Kafka"],
+        preferred_skills: [],
+      },
+      {
+        id: 8,
+        user_id: USER,
+        job_title: "Data Engineer",
+        job_description: "",
+        required_skills: ["Spark"],
+        preferred_skills: [],
+      },
+      {
+        id: 9,
+        user_id: USER,
+        job_title: "",
+        job_description: "Great team, great snacks.",
+        required_skills: [],
+        preferred_skills: [],
+      },
+    ],
+    templates: [{ id: "t1", layout: { columns: 2 } }],
+  };
+});
+
+describe("scoreDocumentVersion", () => {
+  it("scores against the document's job and stores the breakdown", async () => {
+    const result = await scoreDocumentVersion({
+      userId: USER,
+      versionId: "v1",
+    });
+
+    expect(result.jobId).toBe(7);
+    expect(result.analysis.missing.required).toEqual(["Kafka"]);
+    expect(result.analysis.formatting.map((r) => r.kind)).toEqual([
+      "multi_column",
+    ]);
+
+    expect(db.writes).toHaveLength(1);
+    const [update] = db.writes;
+    expect(update.table).toBe("document_versions");
+    expect(update.filters).toEqual({ id: "v1", user_id: USER });
+    expect(update.row).toMatchObject({
+      ats_score: result.analysis.score,
+      ats_analysis: result.analysis,
+      ats_job_id: 7,
+      ats_analyzed_at: result.analyzedAt,
+    });
+  });
+
+  it("prefers an explicit jobId, then the version's own job", async () => {
+    const explicit = await scoreDocumentVersion({
+      userId: USER,
+      versionId: "v1",
+      jobId: 8,
+    });
+    expect(explicit.jobId).toBe(8);
+    expect(explicit.analysis.missing.required).toEqual(["Spark"]);
+
+    db.state.rows.document_versions[0].job_id = 8;
+    const own = await scoreDocumentVersion({ userId: USER, versionId: "v1" });
+    expect(own.jobId).toBe(8);
+  });
+
+  it("does not read other users' versions or jobs", async () => {
+    await expect(
+      scoreDocumentVersion({ userId: "user-2", versionId: "v1" })
+    ).rejects.toMatchObject({ status: 404, code: "not_found" });
+
+    db.state.rows.jobs[0].user_id = "user-2";
+    await expect(
+      scoreDocumentVersion({ userId: USER, versionId: "v1" })
+    ).rejects.toMatchObject({ status: 404, message: "Job not found" });
+    expect(db.writes).toHaveLength(0);
+  });
+
+  it("needs a job with keywords to compare against", async () => {
+    db.state.rows.documents[0].job_id = null;
+    await expect(
+      scoreDocumentVersion({ userId: USER, versionId: "v1" })
+    ).rejects.toMatchObject({ status: 400, code: "job_required" });
+
+    await expect(
+      scoreDocumentVersion({ userId: USER, versionId: "v1", jobId: 9 })
+    ).rejects.toMatchObject({ status: 422, code: "no_keywords" });
+    expect(db.writes).toHaveLength(0);
+  });
+});
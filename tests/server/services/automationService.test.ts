@@ -0,0 +1,384 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = await vi.hoisted(async () => {
+  const { createSupabaseStub } = await import("../helpers/supabaseStub");
+  return createSupabaseStub();
+});
+
+const notifications = vi.hoisted(() => ({
+  scheduleAutomationNotification: vi.fn(),
+}));
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: db.client,
+}));
+vi.mock("@server/services/notificationService.js", () => notifications);
+
+import {
+  evaluateConditions,
+  executeRule,
+  runAutomationTick,
+  validateRuleInput,
+  type AutomationRuleRow,
+} from "@server/services/automationService.js";
+
+const NOW = new Date("2026-10-19T15:00:00.000Z");
+
+function rule(overrides: Partial<AutomationRuleRow> = {}): AutomationRuleRow {
+  return {
+    id: "rule-1",
+    user_id: "user-1",
+    name: "Follow up after applying",
+    enabled: true,
+    trigger_type: "job_stage_changed",
+    trigger_config: { to_stage: "Applied" },
+    conditions: [],
+    actions: [{ type: "create_reminder", config: { delay_days: 7 } }],
+    last_run_at: null,
+    created_at: NOW.toISOString(),
+    updated_at: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+const JOB = {
+  id: 42,
+  user_id: "user-1",
+  job_title: "Backend Engineer",
+  company_name: "Acme",
+  industry: "Software",
+  job_status: "Applied",
+  match_score: 80,
+};
+
+/** automation_runs upsert result: the claimed run row */
+function claimRun(dedupeKey = "event:ev-1") {
+  return { data: [{ id: "run-1", rule_id: "rule-1", dedupe_key: dedupeKey }] };
+}
+
+beforeEach(() => {
+  db.reset();
+  notifications.scheduleAutomationNotification
+    .mockReset()
+    .mockResolvedValue({ id: "notif-1", run_at: "2026-10-26T15:00:00.000Z" });
+});
+
+describe("automationService.validateRuleInput", () => {
+  it("fills trigger and action defaults", () => {
+    const input = validateRuleInput({
+      name: "  Nudge  ",
+      trigger_type: "no_response",
+      actions: [{ type: "create_reminder" }],
+    });
+
+    expect(input).toEqual({
+      name: "Nudge",
+      enabled: true,
+      trigger_type: "no_response",
+      trigger_config: { stage: "Applied", days: 14 },
+      conditions: [],
+      actions: [
+        {
+          type: "create_reminder",
+          config: { title: undefined, message: undefined, delay_days: 0 },
+        },
+      ],
+    });
+  });
+
+  it("rejects unknown stages, malformed conditions and empty actions", () => {
+    expect(() =>
+      validateRuleInput({
+        name: "x",
+        trigger_type: "job_stage_changed",
+        trigger_config: { to_stage: "Hired" },
+        actions: [{ type: "create_reminder" }],
+      })
+    ).toThrow(/to_stage must be one of/);
+
+    expect(() =>
+      validateRuleInput({
+        name: "x",
+        trigger_type: "interview_scheduled",
+        conditions: [{ field: "profile.email", operator: "equals" }],
+        actions: [{ type: "create_reminder" }],
+      })
+    ).toThrow(/condition field/);
+
+    expect(() =>
+      validateRuleInput({
+        name: "x",
+        trigger_type: "interview_scheduled",
+        actions: [],
+      })
+    ).toThrow(/actions must be an array/);
+  });
+
+  it("only checks the fields present in a partial update", () => {
+    expect(validateRuleInput({ enabled: false }, { partial: true })).toEqual({
+      enabled: false,
+    });
+    expect(() =>
+      validateRuleInput({ trigger_config: { days: 3 } }, { partial: true })
+    ).toThrow(/together with trigger_type/);
+  });
+});
+
+describe("automationService.evaluateConditions", () => {
+  const context = {
+    job: JOB,
+    interview: null,
+    trigger: { to_stage: "Applied" },
+  };
+
+  it("requires every condition to hold", () => {
+    expect(
+      evaluateConditions(
+        [
+          { field: "job.company_name", operator: "equals", value: "acme" },
+          { field: "job.job_title", operator: "contains", value: "engineer" },
+          { field: "job.match_score", operator: "gt", value: 70 },
+          { field: "trigger.to_stage", operator: "in", value: ["Applied"] },
+        ],
+        context
+      )
+    ).toBe(true);
+
+    expect(
+      evaluateConditions(
+        [
+          { field: "job.company_name", operator: "equals", value: "Acme" },
+          { field: "job.match_score", operator: "lt", value: 50 },
+        ],
+        context
+      )
+    ).toBe(false);
+  });
+
+  it("treats missing values as absent", () => {
+    expect(
+      evaluateConditions(
+        [{ field: "interview.format", operator: "exists", value: false }],
+        context
+      )
+    ).toBe(true);
+    expect(
+      evaluateConditions(
+        [{ field: "job.end_salary_range", operator: "gt", value: 0 }],
+        context
+      )
+    ).toBe(false);
+  });
+});
+
+describe("automationService.executeRule", () => {
+  const context = { job: { ...JOB }, interview: null, trigger: {} };
+
+  it("does nothing when the rule already ran for the key", async () => {
+    db.queue("automation_runs", { data: [] });
+
+    const run = await executeRule(rule(), {
+      dedupeKey: "event:ev-1",
+      context,
+      now: NOW,
+    });
+
+    expect(run).toBeNull();
+    expect(db.writesTo("automation_runs", "upsert")[0].options).toEqual({
+      onConflict: "rule_id,dedupe_key",
+      ignoreDuplicates: true,
+    });
+    expect(notifications.scheduleAutomationNotification).not.toHaveBeenCalled();
+  });
+
+  it("logs a skipped run when conditions are not met", async () => {
+    db.queue("automation_runs", claimRun());
+
+    const run = await executeRule(
+      rule({
+        conditions: [
+          { field: "job.company_name", operator: "equals", value: "Globex" },
+        ],
+      }),
+      { dedupeKey: "event:ev-1", context, now: NOW }
+    );
+
+    expect(run?.status).toBe("skipped");
+    expect(run?.error).toBe("conditions not met");
+    expect(notifications.scheduleAutomationNotification).not.toHaveBeenCalled();
+    expect(db.writesTo("automation_rules")).toHaveLength(0);
+  });
+
+  it("runs every action and records each outcome", async () => {
+    db.queue("automation_runs", claimRun());
+
+    const run = await executeRule(
+      rule({
+        actions: [
+          { type: "create_reminder", config: { delay_days: 7 } },
+          { type: "add_prep_checklist", config: {} },
+          { type: "generate_cover_letter", config: {} },
+        ],
+      }),
+      {
+        dedupeKey: "event:ev-1",
+        context: { job: null, interview: null, trigger: {} },
+        now: NOW,
+      }
+    );
+
+    expect(notifications.scheduleAutomationNotification).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({
+        sourceId: "automation:rule-1:event:ev-1",
+        runAt: new Date("2026-10-26T15:00:00.000Z"),
+      })
+    );
+    expect(run?.status).toBe("partial");
+    expect(run?.results.map((r) => [r.type, r.status])).toEqual([
+      ["create_reminder", "success"],
+      ["add_prep_checklist", "failed"],
+      ["generate_cover_letter", "failed"],
+    ]);
+    expect(run?.error).toBe("2 of 3 actions failed");
+
+    const finished = db.writesTo("automation_runs", "update")[0];
+    expect(finished.filters).toEqual({ id: "run-1" });
+    expect(finished.row.status).toBe("partial");
+    expect(db.writesTo("automation_rules", "update")[0].row).toEqual({
+      last_run_at: NOW.toISOString(),
+    });
+  });
+
+  it("moves the stage without triggering other rules", async () => {
+    db.queue("automation_runs", claimRun());
+
+    const run = await executeRule(
+      rule({
+        actions: [{ type: "move_stage", config: { stage: "Interview" } }],
+      }),
+      {
+        dedupeKey: "event:ev-1",
+        context: { ...context, job: { ...JOB } },
+        now: NOW,
+      }
+    );
+
+    expect(run?.results[0].output).toEqual({
+      from: "Applied",
+      to: "Interview",
+      moved: true,
+    });
+    expect(db.writesTo("jobs", "update")[0]).toMatchObject({
+      row: { job_status: "Interview", status_changed_at: NOW.toISOString() },
+      filters: { id: 42, user_id: "user-1" },
+    });
+    expect(db.writesTo("automation_events", "update")[0]).toMatchObject({
+      row: { status: "skipped" },
+      filters: {
+        job_id: 42,
+        status: "pending",
+        "payload->>to_stage": "Interview",
+      },
+    });
+  });
+
+  it("only notifies members of a shared team", async () => {
+    db.queue("automation_runs", claimRun());
+    db.queue("team_members", { data: [{ team_id: "team-1" }] }, { data: [] });
+
+    const run = await executeRule(
+      rule({
+        actions: [
+          {
+            type: "notify_teammate",
+            config: { teammate_id: "00000000-0000-0000-0000-000000000002" },
+          },
+        ],
+      }),
+      { dedupeKey: "event:ev-1", context, now: NOW }
+    );
+
+    expect(run?.status).toBe("failed");
+    expect(run?.results[0].error).toMatch(/not an active member/);
+    expect(notifications.scheduleAutomationNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe("automationService.runAutomationTick", () => {
+  it("runs matching stage rules for claimed events and marks them done", async () => {
+    db.rpc.mockResolvedValueOnce({
+      data: [
+        {
+          id: "ev-1",
+          user_id: "user-1",
+          trigger_type: "job_stage_changed",
+          job_id: 42,
+          interview_id: null,
+          payload: { from_stage: "Interested", to_stage: "Applied" },
+        },
+      ],
+      error: null,
+    });
+    db.queue("automation_rules", {
+      data: [
+        rule(),
+        rule({ id: "rule-2", trigger_config: { to_stage: "Offer" } }),
+      ],
+    });
+    db.queue("jobs", { data: JOB });
+    db.queue("automation_runs", claimRun());
+
+    const result = await runAutomationTick({ now: NOW, scan: false });
+
+    expect(db.rpc).toHaveBeenCalledWith("claim_automation_events", {
+      p_limit: 50,
+    });
+    expect(result).toEqual({ events: 1, runs: 1, skipped: 0, failed: 0 });
+    expect(db.writesTo("automation_runs", "upsert")).toHaveLength(1);
+    expect(db.writesTo("automation_runs", "upsert")[0].row).toMatchObject({
+      rule_id: "rule-1",
+      event_id: "ev-1",
+      job_id: 42,
+      dedupe_key: "event:ev-1",
+    });
+    expect(
+      db
+        .writesTo("automation_events", "update")
+        .find((w) => w.filters.id === "ev-1")?.row.status
+    ).toBe("done");
+  });
+
+  it("fires time-based rules once per job and deadline", async () => {
+    db.rpc.mockResolvedValueOnce({ data: [], error: null });
+    db.queue("automation_rules", {
+      data: [
+        rule({
+          trigger_type: "deadline_approaching",
+          trigger_config: { days_before: 3, stages: ["Interested"] },
+        }),
+      ],
+    });
+    db.queue("jobs", {
+      data: [
+        {
+          ...JOB,
+          job_status: "Interested",
+          application_deadline: "2026-10-21",
+        },
+      ],
+    });
+    db.queue("automation_runs", claimRun("deadline:42:2026-10-21"));
+
+    const result = await runAutomationTick({ now: NOW });
+
+    expect(result.runs).toBe(1);
+    expect(db.writesTo("automation_runs", "upsert")[0].row.dedupe_key).toBe(
+      "deadline:42:2026-10-21"
+    );
+    expect(notifications.scheduleAutomationNotification).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ link: "/jobs/42" })
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  CacheKeys,
+  cached,
+  changedUserId,
+  createCacheService,
+  invalidateUserCache,
+} from "@server/services/cacheService.js";
+import {
+  createMemoryStore,
+  setCacheStore,
+  type CacheStore,
+} from "@server/services/cacheStore.js";
+
+let store: CacheStore;
+
+beforeEach(() => {
+  store = createMemoryStore(createCacheService());
+  setCacheStore(store);
+});
+
+afterEach(() => {
+  setCacheStore(null);
+});
+
+describe("cacheService.cached", () => {
+  it("loads once and serves later reads from the store", async () => {
+    const load = vi.fn().mockResolvedValue({ name: "Ada", skills: ["TS"] });
+
+    const first = await cached("profile:u1", 60_000, load);
+    const second = await cached("profile:u1", 60_000, load);
+
+    expect(first).toEqual({ name: "Ada", skills: ["TS"] });
+    expect(second).toEqual(first);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not cache missing values", async () => {
+    const load = vi.fn().mockResolvedValue(null);
+
+    await cached("profile:u1", 60_000, load);
+    await cached("profile:u1", 60_000, load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to the loader when the store is down", async () => {
+    setCacheStore({
+      ...store,
+      get: () => Promise.reject(new Error("ECONNREFUSED")),
+      set: () => Promise.reject(new Error("ECONNREFUSED")),
+    });
+
+    await expect(cached("k", 1000, async () => 42)).resolves.toBe(42);
+  });
+});
+
+describe("cacheService.invalidateUserCache", () => {
+  it("drops the user's profile and analytics entries only", async () => {
+    await store.set(CacheKeys.profile("u1"), "{}", 60_000);
+    await store.set(
+      CacheKeys.analytics("u1", "pattern-recognition"),
+      "{}",
+      60_000
+    );
+    await store.set(CacheKeys.profile("u2"), "{}", 60_000);
+
+    await invalidateUserCache("u1");
+
+    expect(await store.get(CacheKeys.profile("u1"))).toBeNull();
+    expect(
+      await store.get(CacheKeys.analytics("u1", "pattern-recognition"))
+    ).toBeNull();
+    expect(await store.get(CacheKeys.profile("u2"))).toBe("{}");
+  });
+});
+
+describe("cacheService.changedUserId", () => {
+  it("reads the owner from the new row, or the old row for deletes", () => {
+    expect(changedUserId("skills", { new: { user_id: "u1" }, old: {} })).toBe(
+      "u1"
+    );
+    expect(
+      changedUserId("jobs", { new: {}, old: { id: 3, user_id: "u2" } })
+    ).toBe("u2");
+    expect(changedUserId("profiles", { new: { id: "u3" } })).toBe("u3");
+    expect(changedUserId("skills", { new: {}, old: { id: 9 } })).toBeNull();
+  });
+});
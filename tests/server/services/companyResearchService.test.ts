@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { serverCache } from "@server/services/cacheService.js";
 
 it("registers test suite (smoke)", () => {
   expect(true).toBe(true);
@@ -104,6 +105,9 @@ describe("companyResearchService - fetchCompanyResearch", () => {
     // Keep the default implementation intact to avoid transient undefined
     // returns while a previous test's non-blocking save is still finishing.
     supabaseAdmin.__rpc.mockClear();
+
+    // fetchCompanyResearch reads through the shared server cache
+    serverCache.clear();
   });
 
   it("returns null for blank company name", async () => {
@@ -0,0 +1,213 @@
+/**
+ * Tests for services/compensationModel.ts
+ * Coverage: vesting (cliff, frequency, back-loaded), refreshers, signing bonus
+ * amortization, retirement match, bundled tax tables, cost-of-living lookup,
+ * 1/2/4-year totals and break-even points
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  compareOffers,
+  computeAnnualTax,
+  lookupColIndex,
+  projectOffer,
+  vestingSchedule,
+  type OfferInput,
+} from "@server/services/compensationModel.js";
+
+function offer(overrides: Partial<OfferInput>): OfferInput {
+  return {
+    id: "offer-1",
+    base_salary: 100_000,
+    // Unknown country -> flat 25% keeps expected values simple
+    tax_country: "ZZ",
+    ...overrides,
+  };
+}
+
+describe("vestingSchedule", () => {
+  it("releases everything scheduled before the cliff at the cliff", () => {
+    const schedule = vestingSchedule(48_000, {
+      years: 4,
+      frequency: "monthly",
+      cliffMonths: 12,
+    });
+
+    expect(schedule.get(11)).toBeUndefined();
+    expect(schedule.get(12)).toBeCloseTo(12_000);
+    expect(schedule.get(13)).toBeCloseTo(1_000);
+    expect(schedule.get(48)).toBeCloseTo(1_000);
+    expect([...schedule.values()].reduce((s, v) => s + v, 0)).toBeCloseTo(
+      48_000
+    );
+  });
+
+  it("supports quarterly and back-loaded annual schedules", () => {
+    const quarterly = vestingSchedule(48_000, {
+      years: 4,
+      frequency: "quarterly",
+      cliffMonths: 0,
+    });
+    expect([...quarterly.keys()].slice(0, 3)).toEqual([3, 6, 9]);
+    expect(quarterly.get(3)).toBeCloseTo(3_000);
+
+    const backLoaded = vestingSchedule(100_000, {
+      years: 4,
+      frequency: "annual",
+      cliffMonths: 12,
+      yearPercents: [10, 20, 30, 40],
+    });
+    expect(Object.fromEntries(backLoaded)).toEqual({
+      12: 10_000,
+      24: 20_000,
+      36: 30_000,
+      48: 40_000,
+    });
+  });
+});
+
+describe("projectOffer", () => {
+  it("amortizes the signing bonus and applies raises, match and refreshers", () => {
+    const projection = projectOffer(
+      offer({
+        base_salary: 120_000,
+        annual_raise_pct: 10,
+        signing_bonus: 24_000,
+        signing_amortization_months: 24,
+        retirement_match_pct: 50,
+        retirement_match_limit_pct: 6,
+        refresher_annual_value: 40_000,
+        refresher_start_year: 2,
+        vesting_years: 4,
+      }),
+      4
+    );
+
+    const [y1, y2, y3, y4] = projection.years;
+    expect(y1.components.signing).toBeCloseTo(12_000);
+    expect(y2.components.signing).toBeCloseTo(12_000);
+    expect(y3.components.signing).toBe(0);
+
+    expect(y1.components.base).toBeCloseTo(120_000);
+    expect(y2.components.base).toBeCloseTo(132_000);
+    expect(y1.components.retirementMatch).toBeCloseTo(3_600);
+
+    expect(y1.components.refreshers).toBe(0);
+    expect(y2.components.refreshers).toBeCloseTo(10_000);
+    expect(y3.components.refreshers).toBeCloseTo(20_000);
+    expect(y4.components.refreshers).toBeCloseTo(30_000);
+  });
+
+  it("taxes cash and equity but not the match or benefits", () => {
+    const projection = projectOffer(
+      offer({
+        base_salary: 100_000,
+        benefits_value: 10_000,
+        retirement_match_pct: 100,
+        retirement_match_limit_pct: 4,
+      }),
+      1
+    );
+
+    const [year] = projection.years;
+    expect(year.gross).toBeCloseTo(114_000);
+    expect(year.taxable).toBeCloseTo(100_000);
+    expect(year.tax.total).toBeCloseTo(25_000);
+    expect(year.net).toBeCloseTo(89_000);
+  });
+
+  it("adjusts for cost of living and reports totals within the horizon", () => {
+    const projection = projectOffer(
+      offer({ base_salary: 160_000, location: "San Francisco, CA" }),
+      2
+    );
+
+    expect(projection.colIndex).toBe(1.6);
+    expect(projection.colSource).toBe("location");
+    expect(projection.years[0].adjusted).toBeCloseTo(75_000);
+    expect(projection.totals.map((t) => t.years)).toEqual([1, 2]);
+    expect(projection.totals[1].net).toBeCloseTo(240_000);
+    expect(projection.cumulativeAdjusted).toHaveLength(24);
+  });
+});
+
+describe("computeAnnualTax", () => {
+  it("applies US federal brackets, FICA and state tables", () => {
+    const texas = computeAnnualTax(100_000, "US", "TX");
+    expect(texas.incomeTax).toBe(13_614);
+    expect(texas.contributions).toBe(7_650);
+    expect(texas.stateTax).toBe(0);
+
+    const california = computeAnnualTax(100_000, "US", "CA");
+    expect(california.stateTax).toBe(5_327.14);
+    expect(california.total).toBe(13_614 + 7_650 + 5_327.14);
+  });
+
+  it("tapers the UK personal allowance and applies National Insurance", () => {
+    const uk = computeAnnualTax(120_000, "GB");
+    expect(uk.incomeTax).toBe(39_432);
+    expect(uk.contributions).toBe(4_410.6);
+  });
+
+  it("applies rebates and falls back to a flat rate for unknown countries", () => {
+    expect(computeAnnualTax(1_275_000, "IN").incomeTax).toBe(0);
+
+    const unknown = computeAnnualTax(80_000, "ZZ");
+    expect(unknown.supported).toBe(false);
+    expect(unknown.total).toBe(20_000);
+  });
+});
+
+describe("lookupColIndex", () => {
+  it("matches cities contained in a location string", () => {
+    expect(lookupColIndex("New York, NY")).toBe(1.5);
+    expect(lookupColIndex("london")).toBe(1.4);
+    expect(lookupColIndex("Nowhere")).toBeNull();
+    expect(lookupColIndex("")).toBeNull();
+  });
+});
+
+describe("compareOffers", () => {
+  it("finds the month a higher base catches up with a signing bonus", () => {
+    const comparison = compareOffers(
+      [
+        offer({
+          id: "signing",
+          base_salary: 100_000,
+          signing_bonus: 50_000,
+          signing_amortization_months: 1,
+        }),
+        offer({ id: "base", base_salary: 130_000 }),
+      ],
+      4
+    );
+
+    expect(comparison.horizonYears).toBe(4);
+    expect(comparison.offers.map((o) => o.totals.length)).toEqual([3, 3]);
+    expect(comparison.breakEven).toEqual([
+      {
+        offerA: "signing",
+        offerB: "base",
+        initialLeader: "signing",
+        finalLeader: "base",
+        month: 20,
+      },
+    ]);
+  });
+
+  it("reports no break-even when one offer stays ahead", () => {
+    const comparison = compareOffers(
+      [
+        offer({ id: "a", base_salary: 150_000 }),
+        offer({ id: "b", base_salary: 120_000 }),
+      ],
+      2
+    );
+
+    expect(comparison.breakEven[0]).toMatchObject({
+      initialLeader: "a",
+      finalLeader: "a",
+      month: null,
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  renderDocx,
+  renderHtml,
+  renderText,
+  resolveRenderStyle,
+} from "@server/services/documentRenderer";
+
+const resume = {
+  type: "resume" as const,
+  name: "Senior Engineer <Resume>",
+  content: {
+    header: {
+      fullName: "Jane Doe",
+      title: "Engineer",
+      email: "jane@example.com",
+      links: [{ url: "https://github.com/jane" }],
+    },
+    summary: { enabled: true, text: "Builds things." },
+    experience: {
+      enabled: true,
+      items: [
+        {
+          title: "Staff Engineer",
+          company: "Acme",
+          location: "Remote",
+          startDate: "2020",
+          endDate: null,
+          current: true,
+          bullets: ["Shipped <fast> APIs", " "],
+        },
+      ],
+    },
+    skills: {
+      enabled: true,
+      categories: [{ name: "Languages", skills: [{ name: "TypeScript" }] }],
+    },
+  },
+};
+
+const coverLetter = {
+  type: "cover-letter" as const,
+  name: "Acme Letter",
+  content: {
+    header: { fullName: "Jane Doe", date: "Jan 1, 2026" },
+    recipient: { name: "Pat", company: "Acme" },
+    body: { opening: "I am applying.", closing: "Thanks." },
+    signature: { closing: "Best," },
+  },
+};
+
+describe("documentRenderer", () => {
+  it("resolves DB theme jsonb shape", () => {
+    const style = resolveRenderStyle(
+      { layout: { pageSize: "a4", margins: { top: 1 } } },
+      {
+        colors: {
+          primary: "#2563EB",
+          text: "#1e293b",
+          textSecondary: "#64748b",
+        },
+        typography: {
+          fontFamily: { heading: "Inter, sans-serif", body: "Georgia" },
+          fontSize: { name: 24, heading: 14, body: 11 },
+        },
+      }
+    );
+
+    expect(style.colors.primary).toBe("#2563eb");
+    expect(style.colors.secondary).toBe("#64748b");
+    expect(style.fonts).toEqual({ heading: "Inter", body: "Georgia" });
+    expect(style.sizes.name).toBe(24);
+    expect(style.pageSize).toBe("a4");
+    expect(style.margins.top).toBe(1);
+    expect(style.margins.left).toBe(0.75);
+  });
+
+  it("keeps theme fonts and sizes from breaking out of the style block", () => {
+    const style = resolveRenderStyle(null, {
+      typography: {
+        fontFamily: {
+          heading: "x</style><script>alert(1)</script>",
+          body: '"Open Sans"; }',
+        },
+        fontSize: { name: "20pt; } body { display: none", body: 1e9 },
+      },
+    });
+    const html = renderHtml(resume, null, {
+      typography: { fontFamily: { heading: "</style><script>" } },
+    });
+
+    expect(style.fonts).toEqual({
+      heading: "xstylescriptalert1script",
+      body: "Open Sans",
+    });
+    expect(style.sizes.name).toBe(20);
+    expect(style.sizes.body).toBe(72);
+    expect(html).not.toContain("<script>");
+    expect(html.match(/<\/style>/g)).toHaveLength(1);
+  });
+
+  it("renders escaped HTML with resume sections", () => {
+    const html = renderHtml(resume, null, null);
+
+    expect(html).toContain("<title>Senior Engineer &lt;Resume&gt;</title>");
+    expect(html).toContain("<h1>Jane Doe</h1>");
+    expect(html).toContain("Work Experience");
+    expect(html).toContain("<li>Shipped &lt;fast&gt; APIs</li>");
+    expect(html).not.toContain("<li></li>");
+    expect(html).toContain("2020 – Present");
+  });
+
+  it("renders cover letter text in letter order", () => {
+    const text = renderText(coverLetter, null);
+    const lines = text.split("\n").filter(Boolean);
+
+    expect(lines[0]).toBe("Jane Doe");
+    expect(lines).toContain("Dear Hiring Manager,");
+    expect(lines.indexOf("I am applying.")).toBeLessThan(
+      lines.indexOf("Thanks.")
+    );
+    expect(lines.slice(-2)).toEqual(["Best,", "Jane Doe"]);
+  });
+
+  it("follows template section order", () => {
+    const text = renderText(resume, {
+      layout: {
+        sectionOrder: [
+          { id: "skills", type: "skills" },
+          { id: "experience", type: "experience" },
+        ],
+      },
+    });
+
+    expect(text.indexOf("SKILLS")).toBeLessThan(
+      text.indexOf("WORK EXPERIENCE")
+    );
+    expect(text).not.toContain("PROFESSIONAL SUMMARY");
+  });
+
+  it("renders a DOCX zip buffer", async () => {
+    const buffer = await renderDocx(resume, null, null);
+
+    expect(buffer.subarray(0, 2).toString()).toBe("PK");
+  });
+});
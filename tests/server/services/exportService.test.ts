@@ -0,0 +1,97 @@
+/**
+ * Tests for services/exportService.ts
+ * Coverage: template and theme lookups limited to system rows and the
+ * user's own, stored file and history row
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = await vi.hoisted(async () => {
+  const { createMemorySupabase } = await import("../helpers/supabaseStub");
+  return createMemorySupabase();
+});
+
+const storage = vi.hoisted(() => ({
+  upload: vi.fn(),
+  createSignedUrl: vi.fn(),
+}));
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: { ...db.client, storage: { from: () => storage } },
+}));
+
+import { createExport } from "@server/services/exportService.js";
+
+const USER = "user-1";
+const OTHER = "user-2";
+
+beforeEach(() => {
+  storage.upload.mockReset().mockResolvedValue({ error: null });
+  storage.createSignedUrl
+    .mockReset()
+    .mockResolvedValue({ data: { signedUrl: "https://files/signed" } });
+  db.state.tables = {
+    documents: [
+      {
+        id: "doc-1",
+        user_id: USER,
+        type: "resume",
+        name: "Resume",
+        content: { header: { fullName: "Ada Lovelace" } },
+        template_id: null,
+        theme_id: null,
+        current_version_id: null,
+        target_company: null,
+      },
+    ],
+    templates: [
+      { id: "tpl-system", user_id: null, layout: {} },
+      { id: "tpl-other", user_id: OTHER, layout: {} },
+    ],
+    themes: [
+      { id: "theme-own", user_id: USER, colors: {}, typography: {} },
+      { id: "theme-other", user_id: OTHER, colors: {}, typography: {} },
+    ],
+  };
+});
+
+describe("exportService.createExport", () => {
+  it("renders with a system template and the user's own theme", async () => {
+    const result = await createExport({
+      userId: USER,
+      documentId: "doc-1",
+      format: "txt",
+      templateId: "tpl-system",
+      themeId: "theme-own",
+    });
+
+    expect(result.downloadUrl).toBe("https://files/signed");
+    expect(storage.upload).toHaveBeenCalledOnce();
+    expect(db.state.tables.export_history[0]).toMatchObject({
+      user_id: USER,
+      document_id: "doc-1",
+      file_name: "Resume.txt",
+      template_id: "tpl-system",
+      theme_id: "theme-own",
+    });
+  });
+
+  it("rejects another user's template or theme", async () => {
+    await expect(
+      createExport({
+        userId: USER,
+        documentId: "doc-1",
+        format: "txt",
+        templateId: "tpl-other",
+      })
+    ).rejects.toMatchObject({ status: 400, code: "invalid_template" });
+
+    db.state.tables.documents[0].theme_id = "theme-other";
+    await expect(
+      createExport({ userId: USER, documentId: "doc-1", format: "txt" })
+    ).rejects.toMatchObject({ status: 400, code: "invalid_theme" });
+
+    expect(storage.upload).not.toHaveBeenCalled();
+    expect(db.state.tables.export_history).toBeUndefined();
+  });
+});
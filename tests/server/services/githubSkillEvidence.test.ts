@@ -0,0 +1,225 @@
+/**
+ * Tests for services/githubSkillEvidence.ts
+ * Coverage: language-to-skill mapping, byte shares and repository counts,
+ * commit weighting, recency, suggested proficiency and profile comparison
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  deriveSkillEvidence,
+  maxProficiency,
+  skillForLanguage,
+  suggestProficiency,
+  suggestSkills,
+  type RepositoryStats,
+} from "@server/services/githubSkillEvidence.js";
+
+const NOW = new Date("2026-10-19T00:00:00Z");
+
+function repo(overrides: Partial<RepositoryStats>): RepositoryStats {
+  return {
+    full_name: "ada/repo",
+    language: null,
+    languages: {},
+    is_fork: false,
+    repo_created_at: "2022-01-01T00:00:00Z",
+    pushed_at: "2026-10-01T00:00:00Z",
+    commits_last_year: 0,
+    ...overrides,
+  };
+}
+
+const repos: RepositoryStats[] = [
+  repo({
+    full_name: "ada/api",
+    languages: { TypeScript: 90_000, Shell: 6_000, Dockerfile: 4_000 },
+    commits_last_year: 300,
+    repo_created_at: "2021-03-01T00:00:00Z",
+  }),
+  repo({
+    full_name: "ada/web",
+    languages: { TypeScript: 40_000, SCSS: 8_000, CSS: 2_000 },
+    commits_last_year: 100,
+  }),
+  repo({
+    full_name: "ada/old-scripts",
+    languages: { Python: 30_000, Makefile: 500 },
+    pushed_at: "2023-06-01T00:00:00Z",
+    commits_last_year: 0,
+  }),
+  // Someone else's code
+  repo({
+    full_name: "ada/linux",
+    languages: { C: 9_000_000 },
+    is_fork: true,
+  }),
+];
+
+describe("skillForLanguage", () => {
+  it("folds linguist names into skills and drops build noise", () => {
+    expect(skillForLanguage("Shell")).toEqual({
+      skill: "Bash",
+      category: "Technical",
+    });
+    expect(skillForLanguage("HCL")).toEqual({
+      skill: "Terraform",
+      category: "Tool",
+    });
+    expect(skillForLanguage("Rust")).toEqual({
+      skill: "Rust",
+      category: "Technical",
+    });
+    expect(skillForLanguage("Makefile")).toBeNull();
+  });
+});
+
+describe("deriveSkillEvidence", () => {
+  it("sums bytes per skill across non-fork repositories, largest first", () => {
+    const evidence = deriveSkillEvidence(repos, NOW);
+
+    expect(evidence.map((e) => e.skill)).toEqual([
+      "TypeScript",
+      "Python",
+      "CSS",
+      "Bash",
+      "Docker",
+    ]);
+    const ts = evidence[0];
+    expect(ts.bytes).toBe(130_000);
+    expect(ts.share).toBe(0.722);
+    expect(ts.repoCount).toBe(2);
+    expect(ts.repos).toEqual(["ada/api", "ada/web"]);
+    expect(ts.firstUsed).toBe("2021-03-01T00:00:00Z");
+    expect(ts.years).toBe(5);
+    // SCSS and CSS count once for the repository
+    expect(evidence.find((e) => e.skill === "CSS")).toMatchObject({
+      languages: ["CSS", "SCSS"],
+      bytes: 10_000,
+      repoCount: 1,
+    });
+  });
+
+  it("splits a repository's commits across its languages by byte share", () => {
+    const evidence = deriveSkillEvidence(repos, NOW);
+    const bySkill = Object.fromEntries(evidence.map((e) => [e.skill, e]));
+
+    // 300 * 0.9 + 100 * 0.8
+    expect(bySkill.TypeScript.commitsLastYear).toBe(350);
+    expect(bySkill.Bash.commitsLastYear).toBe(18);
+    expect(bySkill.Python.commitsLastYear).toBe(0);
+  });
+
+  it("suggests levels from volume and recency, never expert", () => {
+    const bySkill = Object.fromEntries(
+      deriveSkillEvidence(repos, NOW).map((e) => [
+        e.skill,
+        e.suggestedProficiency,
+      ])
+    );
+
+    expect(bySkill).toEqual({
+      TypeScript: "advanced",
+      Python: "beginner",
+      CSS: "beginner",
+      Bash: "beginner",
+      Docker: "beginner",
+    });
+    expect(
+      suggestProficiency(
+        {
+          share: 1,
+          repoCount: 20,
+          commitsLastYear: 2_000,
+          years: 10,
+          lastUsed: "2026-10-01T00:00:00Z",
+        },
+        NOW
+      )
+    ).toBe("advanced");
+  });
+
+  it("falls back to the main language for rows synced without bytes", () => {
+    const evidence = deriveSkillEvidence(
+      [repo({ language: "Go", languages: {} }), repo({ languages: null })],
+      NOW
+    );
+
+    expect(evidence).toHaveLength(1);
+    expect(evidence[0]).toMatchObject({ skill: "Go", share: 1 });
+    expect(deriveSkillEvidence([], NOW)).toEqual([]);
+  });
+});
+
+describe("suggestSkills", () => {
+  const evidence = deriveSkillEvidence(repos, NOW);
+
+  it("adds missing skills and updates ones that are behind", () => {
+    const suggestions = suggestSkills(evidence, [
+      {
+        skill_name: "typescript",
+        proficiency_level: "intermediate",
+        last_used_date: "2026-10-01",
+      },
+      {
+        skill_name: "Python",
+        proficiency_level: "expert",
+        last_used_date: "2024-01-01",
+      },
+      {
+        skill_name: "Bash",
+        proficiency_level: "intermediate",
+        last_used_date: "2026-10-05",
+      },
+    ]);
+
+    expect(
+      suggestions.map((s) => [s.skill, s.action, s.currentProficiency])
+    ).toEqual([
+      // Level behind; keeps the profile's spelling
+      ["typescript", "update", "intermediate"],
+      ["CSS", "add", null],
+      ["Docker", "add", null],
+    ]);
+  });
+
+  it("flags a stale last_used_date even when the level is ahead", () => {
+    const suggestions = suggestSkills(evidence, [
+      {
+        skill_name: "Python",
+        proficiency_level: "expert",
+        last_used_date: "2022-01-01",
+      },
+    ]);
+
+    expect(suggestions.find((s) => s.skill === "Python")?.action).toBe(
+      "update"
+    );
+  });
+
+  it("matches profile skills through taxonomy aliases", () => {
+    const suggestions = suggestSkills(evidence, [
+      {
+        skill_name: "TS",
+        proficiency_level: "expert",
+        last_used_date: "2026-10-05",
+      },
+      {
+        skill_name: "Shell scripting",
+        proficiency_level: "advanced",
+        last_used_date: "2026-10-05",
+      },
+    ]);
+
+    expect(suggestions.map((s) => s.skill)).toEqual([
+      "Python",
+      "CSS",
+      "Docker",
+    ]);
+  });
+
+  it("never lowers a level", () => {
+    expect(maxProficiency("expert", "advanced")).toBe("expert");
+    expect(maxProficiency("beginner", "advanced")).toBe("advanced");
+    expect(maxProficiency(null, "beginner")).toBe("beginner");
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * Tests for services/githubSyncService.ts against a local HTTP stub of the
+ * GitHub API (GITHUB_API_URL)
+ * Coverage: account linking, repository upsert and legacy row matching,
+ * skipped detail fetches, removal, sync status, GitHub errors, skill
+ * suggestions and projects created from repositories
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+const db = await vi.hoisted(async () => {
+  const { createMemorySupabase } = await import("../helpers/supabaseStub");
+  return createMemorySupabase();
+});
+
+const ai = vi.hoisted(() => ({ generate: vi.fn() }));
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: db.client,
+}));
+
+vi.mock("@server/services/aiClient.js", () => ({
+  default: { generate: ai.generate },
+}));
+
+import {
+  applySkillSuggestions,
+  createProjectFromRepository,
+  getGithubAccount,
+  getGithubSkillSuggestions,
+  linkGithubAccount,
+  readmeExcerpt,
+  syncGithubRepositories,
+} from "@server/services/githubSyncService.js";
+
+const USER = "user-1";
+const TOKEN = "gho_test";
+
+// ============================================================================
+// GitHub stub
+// ============================================================================
+
+function ghRepo(id: number, name: string, overrides: Record<string, any> = {}) {
+  return {
+    id,
+    name,
+    full_name: `ada/${name}`,
+    description: `${name} description`,
+    html_url: `https://github.com/ada/${name}`,
+    homepage: "",
+    language: "TypeScript",
+    topics: ["cli"],
+    stargazers_count: 3,
+    forks_count: 1,
+    fork: false,
+    archived: false,
+    private: false,
+    created_at: "2023-01-10T00:00:00Z",
+    pushed_at: "2026-10-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const gh = {
+  requests: [] as Array<{ path: string; auth?: string; accept?: string }>,
+  unauthorized: false,
+  repos: [] as any[],
+};
+
+function weekly(total: number): number[] {
+  return Array.from({ length: 52 }, (_, i) => (i < total ? 1 : 0));
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? "/", "http://stub");
+  gh.requests.push({
+    path: url.pathname,
+    auth: req.headers.authorization,
+    accept: req.headers.accept,
+  });
+  const send = (status: number, body?: unknown) => {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(body === undefined ? "" : JSON.stringify(body));
+  };
+
+  if (gh.unauthorized) return send(401, { message: "Bad credentials" });
+  if (url.pathname === "/user") {
+    return send(200, {
+      id: 42,
+      login: "ada",
+      avatar_url: "https://avatars/ada",
+      html_url: "https://github.com/ada",
+    });
+  }
+  if (url.pathname === "/user/repos") {
+    return send(200, url.searchParams.get("page") === "1" ? gh.repos : []);
+  }
+  const m = url.pathname.match(/^\/repos\/ada\/([^/]+)\/(.+)$/);
+  if (m) {
+    const [, name, rest] = m;
+    if (rest === "languages") {
+      return send(
+        200,
+        name === "api"
+          ? { TypeScript: 80_000, Shell: 5_000 }
+          : { Python: 20_000 }
+      );
+    }
+    if (rest === "readme") {
+      if (name !== "api") return send(404, { message: "Not Found" });
+      res.writeHead(200, { "content-type": "text/plain" });
+      return res.end(
+        "# api\n\n[![CI](https://ci/badge.svg)](https://ci)\n\nAn **HTTP API** for [jobs](https://x).\nFast.\n\n```sh\nnpm i\n```\n\nSecond paragraph."
+      );
+    }
+    if (rest === "stats/participation") {
+      // Still computing for "tools"
+      if (name === "tools") return send(202, {});
+      return send(200, { all: weekly(40), owner: weekly(30) });
+    }
+  }
+  send(404, { message: "Not Found" });
+});
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  process.env.GITHUB_API_URL = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  delete process.env.GITHUB_API_URL;
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  gh.requests.length = 0;
+  gh.unauthorized = false;
+  gh.repos = [
+    ghRepo(1, "api"),
+    ghRepo(2, "tools", { language: "Python", topics: [] }),
+    ghRepo(3, "secret", { private: true }),
+  ];
+  ai.generate.mockReset();
+  db.state.tables = {
+    github_accounts: [
+      { user_id: USER, login: "ada", github_user_id: 42, access_token: TOKEN },
+    ],
+    repositories: [
+      // From the old client-side sync: no github_id, featured
+      {
+        id: 10,
+        user_id: USER,
+        github_id: null,
+        full_name: "ada/api",
+        is_featured: true,
+        pushed_at: "2025-01-01T00:00:00Z",
+        commits_synced_at: null,
+        project_id: null,
+      },
+      // Deleted on GitHub since
+      {
+        id: 11,
+        user_id: USER,
+        github_id: 99,
+        full_name: "ada/gone",
+        pushed_at: null,
+        commits_synced_at: null,
+      },
+      // Another user's row
+      { id: 12, user_id: "user-2", github_id: 1, full_name: "ada/api" },
+    ],
+    skills: [],
+    projects: [],
+  };
+});
+
+const repoRows = () =>
+  db.state.tables.repositories.filter((r) => r.user_id === USER);
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("linkGithubAccount", () => {
+  it("checks the token with GitHub and never returns it", async () => {
+    db.state.tables.github_accounts = [];
+
+    const account = await linkGithubAccount(USER, TOKEN);
+
+    expect(account).toMatchObject({ user_id: USER, login: "ada" });
+    expect(account).not.toHaveProperty("access_token");
+    expect(gh.requests[0]).toMatchObject({
+      path: "/user",
+      auth: `Bearer ${TOKEN}`,
+      accept: "application/vnd.github+json",
+    });
+    expect(db.state.tables.github_accounts[0].access_token).toBe(TOKEN);
+    expect(await getGithubAccount(USER)).not.toHaveProperty("access_token");
+  });
+
+  it("reports a rejected token without using 401", async () => {
+    gh.unauthorized = true;
+    await expect(linkGithubAccount(USER, "bad")).rejects.toMatchObject({
+      status: 400,
+      code: "github_unauthorized",
+    });
+  });
+});
+
+describe("syncGithubRepositories", () => {
+  it("upserts public repositories with README, languages and commits", async () => {
+    const progress = vi.fn(async () => {});
+
+    const result = await syncGithubRepositories(USER, { progress });
+
+    expect(result).toMatchObject({
+      login: "ada",
+      repositories: 2,
+      added: 1,
+      updated: 1,
+      removed: 1,
+      detailed: 2,
+    });
+    expect(result.skills.map((s) => s.skill)).toEqual([
+      "TypeScript",
+      "Python",
+      "Bash",
+    ]);
+
+    const rows = repoRows();
+    expect(rows.map((r) => r.full_name).sort()).toEqual([
+      "ada/api",
+      "ada/tools",
+    ]);
+    // The legacy row was matched by name and kept its flag
+    const api = rows.find((r) => r.full_name === "ada/api");
+    expect(api).toMatchObject({
+      id: 10,
+      github_id: 1,
+      is_featured: true,
+      languages: { TypeScript: 80_000, Shell: 5_000 },
+      readme_excerpt: "An HTTP API for jobs. Fast.\n\nSecond paragraph.",
+      commits_last_year: 30,
+      topics: ["cli"],
+      homepage: null,
+    });
+    expect(api.weekly_commits).toHaveLength(52);
+
+    // Statistics still computing: no commit columns written yet
+    const tools = rows.find((r) => r.full_name === "ada/tools");
+    expect(tools.readme_excerpt).toBeNull();
+    expect(tools).not.toHaveProperty("commits_synced_at");
+
+    expect(gh.requests.some((r) => r.path.includes("secret"))).toBe(false);
+    const readme = gh.requests.find((r) => r.path === "/repos/ada/api/readme");
+    expect(readme?.accept).toBe("application/vnd.github.raw+json");
+
+    // Other users' rows are untouched
+    expect(db.state.tables.repositories.find((r) => r.id === 12)).toEqual({
+      id: 12,
+      user_id: "user-2",
+      github_id: 1,
+      full_name: "ada/api",
+    });
+    expect(db.state.tables.github_accounts[0]).toMatchObject({
+      last_sync_status: "succeeded",
+      last_sync_error: null,
+    });
+    expect(progress).toHaveBeenLastCalledWith(95, "Summarizing skills");
+  });
+
+  it("skips detail requests for repositories unchanged since the last sync", async () => {
+    await syncGithubRepositories(USER);
+    gh.requests.length = 0;
+
+    const result = await syncGithubRepositories(USER);
+
+    // "tools" has no commit counts yet, so it is read again
+    expect(result.detailed).toBe(1);
+    expect(gh.requests.map((r) => r.path)).toEqual([
+      "/user/repos",
+      "/repos/ada/tools/languages",
+      "/repos/ada/tools/readme",
+      "/repos/ada/tools/stats/participation",
+    ]);
+  });
+
+  it("records failures on the account", async () => {
+    gh.unauthorized = true;
+
+    await expect(syncGithubRepositories(USER)).rejects.toMatchObject({
+      code: "github_unauthorized",
+    });
+    expect(db.state.tables.github_accounts[0]).toMatchObject({
+      last_sync_status: "failed",
+    });
+    expect(db.state.tables.github_accounts[0].last_sync_error).toMatch(
+      /reconnect/
+    );
+  });
+
+  it("needs a linked account", async () => {
+    db.state.tables.github_accounts = [];
+    await expect(syncGithubRepositories(USER)).rejects.toMatchObject({
+      status: 400,
+      code: "github_not_linked",
+    });
+  });
+});
+
+describe("skill suggestions", () => {
+  it("suggests and writes skills from synced repositories", async () => {
+    await syncGithubRepositories(USER);
+    db.state.tables.skills = [
+      {
+        id: "s1",
+        user_id: USER,
+        skill_name: "Python",
+        proficiency_level: "expert",
+        last_used_date: "2020-01-01",
+        metadata: { note: "kept" },
+      },
+    ];
+
+    const { suggestions } = await getGithubSkillSuggestions(USER);
+    expect(suggestions.map((s) => [s.skill, s.action])).toEqual([
+      ["TypeScript", "add"],
+      ["Python", "update"],
+      ["Bash", "add"],
+    ]);
+
+    const result = await applySkillSuggestions(USER, [
+      "typescript",
+      "Python",
+      "Rust",
+    ]);
+
+    expect(result).toEqual({
+      added: ["TypeScript"],
+      updated: ["Python"],
+      skipped: ["Rust"],
+    });
+    const skills = db.state.tables.skills;
+    expect(skills.find((s) => s.skill_name === "TypeScript")).toMatchObject({
+      user_id: USER,
+      skill_category: "Technical",
+      last_used_date: "2026-10-01",
+      metadata: { github: { source: "github", repos: ["ada/api"] } },
+    });
+    // Level not lowered, date moved forward, metadata merged
+    expect(skills.find((s) => s.id === "s1")).toMatchObject({
+      proficiency_level: "expert",
+      last_used_date: "2026-10-01",
+      metadata: { note: "kept", github: { source: "github" } },
+    });
+  });
+});
+
+describe("createProjectFromRepository", () => {
+  beforeEach(async () => {
+    await syncGithubRepositories(USER);
+  });
+
+  it("creates a project with an AI description and links it", async () => {
+    ai.generate.mockResolvedValueOnce({
+      data: {
+        description: "HTTP API for job tracking.",
+        highlights: ["Typed end to end"],
+      },
+    });
+
+    const { project, aiGenerated } = await createProjectFromRepository(
+      USER,
+      10
+    );
+
+    expect(aiGenerated).toBe(true);
+    expect(project).toMatchObject({
+      user_id: USER,
+      proj_name: "api",
+      proj_description: "HTTP API for job tracking.",
+      proj_outcomes: "Typed end to end",
+      start_date: "2023-01-10",
+      tech_and_skills: ["TypeScript", "Shell", "cli"],
+      project_url: "https://github.com/ada/api",
+      metadata: { source: "github", repository: "ada/api" },
+    });
+    const [kind, prompt, options] = ai.generate.mock.calls[0];
+    expect(kind).toBe("github_project");
+    expect(prompt).toContain("An HTTP API for jobs.");
+    expect(options.schema).toBeDefined();
+    expect(repoRows().find((r) => r.id === 10)?.project_id).toBe(project.id);
+
+    await expect(createProjectFromRepository(USER, 10)).rejects.toMatchObject({
+      status: 409,
+      code: "project_exists",
+    });
+  });
+
+  it("falls back to the repository description when the AI fails", async () => {
+    ai.generate.mockRejectedValueOnce(new Error("provider down"));
+    const tools = repoRows().find((r) => r.full_name === "ada/tools");
+
+    const { project, aiGenerated } = await createProjectFromRepository(
+      USER,
+      tools.id
+    );
+
+    expect(aiGenerated).toBe(false);
+    expect(project.proj_description).toBe("tools description");
+    expect(project.proj_outcomes).toBeNull();
+  });
+
+  it("only reads the user's own repositories", async () => {
+    await expect(
+      createProjectFromRepository(USER, 12, { useAi: false })
+    ).rejects.toMatchObject({ status: 404 });
+    expect(ai.generate).not.toHaveBeenCalled();
+  });
+});
+
+describe("readmeExcerpt", () => {
+  it("keeps whole paragraphs of plain text", () => {
+    expect(readmeExcerpt(null)).toBeNull();
+    expect(
+      readmeExcerpt("# Title\n\n<p align=center><img src=x></p>")
+    ).toBeNull();
+    expect(readmeExcerpt(`Intro\n\n${"x".repeat(1_200)}`)).toBe("Intro");
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Tests for services/jobPostingParsers.ts
+ * Coverage: schema.org JSON-LD, Greenhouse/Lever/Workday/Ashby/SmartRecruiters layouts,
+ * field merging, salary/location helpers and the AI fallback signal (null)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseLocation,
+  parseSalaryRange,
+  parseStructuredJobPosting,
+} from "@server/services/jobPostingParsers.js";
+
+function page(body: string, head = ""): string {
+  return `<html><head>${head}</head><body>${body}</body></html>`;
+}
+
+function jsonLd(value: unknown): string {
+  return `<script type="application/ld+json">${JSON.stringify(value)}</script>`;
+}
+
+const POSTING = {
+  "@context": "https://schema.org",
+  "@type": "JobPosting",
+  title: "Senior Backend Engineer",
+  hiringOrganization: { "@type": "Organization", name: "Acme Corp" },
+  jobLocation: {
+    "@type": "Place",
+    address: {
+      "@type": "PostalAddress",
+      streetAddress: "1 Market St",
+      addressLocality: "San Francisco",
+      addressRegion: "ca",
+      postalCode: "94105",
+    },
+  },
+  baseSalary: {
+    "@type": "MonetaryAmount",
+    currency: "USD",
+    value: {
+      "@type": "QuantitativeValue",
+      minValue: 60,
+      maxValue: 75,
+      unitText: "HOUR",
+    },
+  },
+  employmentType: "FULL_TIME",
+  validThrough: "2026-11-30T23:59:59-08:00",
+  description:
+    "&lt;p&gt;Build APIs.&lt;/p&gt;&lt;ul&gt;&lt;li&gt;Go&lt;/li&gt;&lt;/ul&gt;",
+};
+
+describe("parseStructuredJobPosting", () => {
+  it("maps a schema.org JobPosting without any AI call", () => {
+    const result = parseStructuredJobPosting(
+      page("<h1>Careers</h1>", jsonLd(POSTING)),
+      "https://careers.acme.com/jobs/42"
+    );
+
+    expect(result?.extractor).toBe("json-ld");
+    expect(result?.data).toEqual({
+      job_title: "Senior Backend Engineer",
+      company_name: "Acme Corp",
+      street_address: "1 Market St",
+      city_name: "San Francisco",
+      state_code: "CA",
+      zipcode: "94105",
+      start_salary_range: 124800,
+      end_salary_range: 156000,
+      job_type: "Full-time",
+      application_deadline: "2026-11-30",
+      job_description: "Build APIs.\nGo",
+    });
+  });
+
+  it("finds postings inside arrays and @graph", () => {
+    const html = page(
+      "",
+      jsonLd([
+        { "@type": "WebSite", name: "Acme" },
+        { "@graph": [{ "@type": "BreadcrumbList" }, POSTING] },
+      ])
+    );
+    const result = parseStructuredJobPosting(html, "https://acme.com/j/1");
+    expect(result?.data.job_title).toBe("Senior Backend Engineer");
+  });
+
+  it("returns null when the page has no structured job data", () => {
+    const html = page(
+      "<h1>Engineer</h1><p>Apply now</p>",
+      '<script type="application/ld+json">{ not json }</script>'
+    );
+    expect(
+      parseStructuredJobPosting(html, "https://example.com/job")
+    ).toBeNull();
+  });
+
+  it("parses Greenhouse boards", () => {
+    const html = page(`
+      <div id="header">
+        <h1 class="app-title">Data Engineer</h1>
+        <span class="company-name">at Globex</span>
+        <div class="location">Austin, TX</div>
+      </div>
+      <div id="content">
+        <p>Own our pipelines.</p>
+        <div class="pay-range"><span>$140,000</span><span>—</span><span>$170,000 USD</span></div>
+      </div>`);
+
+    const result = parseStructuredJobPosting(
+      html,
+      "https://boards.greenhouse.io/globex/jobs/123"
+    );
+    expect(result?.extractor).toBe("greenhouse");
+    expect(result?.data).toMatchObject({
+      job_title: "Data Engineer",
+      company_name: "Globex",
+      city_name: "Austin",
+      state_code: "TX",
+      start_salary_range: 140000,
+      end_salary_range: 170000,
+    });
+    expect(result?.data.job_description).toContain("Own our pipelines.");
+  });
+
+  it("parses Lever postings and fills gaps from JSON-LD", () => {
+    const html = page(
+      `
+      <div class="posting-headline">
+        <h2>Product Designer</h2>
+        <div class="posting-categories">
+          <div class="location">New York, NY</div>
+          <div class="commitment">Full-time /</div>
+        </div>
+      </div>
+      <div data-qa="job-description"><p>Design things.</p></div>`,
+      `<meta property="og:title" content="Initech - Product Designer" />` +
+        jsonLd({ ...POSTING, title: "Ignored", validThrough: "2026-12-01" })
+    );
+
+    const result = parseStructuredJobPosting(
+      html,
+      "https://jobs.lever.co/initech/abc-123"
+    );
+    expect(result?.extractor).toBe("lever");
+    expect(result?.data).toMatchObject({
+      job_title: "Product Designer",
+      company_name: "Initech",
+      city_name: "New York",
+      state_code: "NY",
+      job_type: "Full-time",
+      job_description: "Design things.",
+      // not on the page layout, taken from JSON-LD
+      application_deadline: "2026-12-01",
+      zipcode: "94105",
+    });
+  });
+
+  it("parses Workday postings", () => {
+    const html = page(`
+      <h2 data-automation-id="jobPostingHeader">Staff Accountant</h2>
+      <div data-automation-id="locations"><dt>locations</dt><dd>Chicago, IL</dd></div>
+      <div data-automation-id="time"><dt>time type</dt><dd>Full time</dd></div>
+      <div data-automation-id="jobPostingDescription">
+        <p>Close the books.</p>
+        <p>Pay range: $80,000 - $95,000 annually</p>
+        <p>We raised $5M last year.</p>
+      </div>`);
+
+    const result = parseStructuredJobPosting(
+      html,
+      "https://umbrella.wd5.myworkdayjobs.com/en-US/careers/job/123"
+    );
+    expect(result?.extractor).toBe("workday");
+    expect(result?.data).toMatchObject({
+      job_title: "Staff Accountant",
+      company_name: "Umbrella",
+      city_name: "Chicago",
+      state_code: "IL",
+      job_type: "Full-time",
+      start_salary_range: 80000,
+      end_salary_range: 95000,
+    });
+  });
+
+  it("parses Ashby app data", () => {
+    const appData = {
+      organization: { name: "Hooli" },
+      posting: {
+        title: "ML Engineer",
+        locationName: "Seattle, WA",
+        employmentType: "FullTime",
+        descriptionHtml: "<p>Train models.</p>",
+        compensationTierSummary: "$180K – $220K",
+      },
+    };
+    const html = page(
+      `<div id="root"></div><script>window.__appData = ${JSON.stringify(appData)};</script>`
+    );
+
+    const result = parseStructuredJobPosting(
+      html,
+      "https://jobs.ashbyhq.com/hooli/1f2e"
+    );
+    expect(result?.extractor).toBe("ashby");
+    expect(result?.data).toMatchObject({
+      job_title: "ML Engineer",
+      company_name: "Hooli",
+      city_name: "Seattle",
+      state_code: "WA",
+      job_type: "Full-time",
+      job_description: "Train models.",
+      start_salary_range: 180000,
+      end_salary_range: 220000,
+    });
+  });
+
+  it("parses SmartRecruiters microdata", () => {
+    const html = page(`
+      <h1 class="job-title">Support Specialist</h1>
+      <div itemprop="hiringOrganization"><meta itemprop="name" content="Vandelay Industries" /></div>
+      <span itemprop="addressLocality">Denver</span>
+      <span itemprop="addressRegion">CO</span>
+      <div itemprop="description"><p>Help customers.</p></div>`);
+
+    const result = parseStructuredJobPosting(
+      html,
+      "https://jobs.smartrecruiters.com/VandelayIndustries/7443"
+    );
+    expect(result?.extractor).toBe("smartrecruiters");
+    expect(result?.data).toMatchObject({
+      job_title: "Support Specialist",
+      company_name: "Vandelay Industries",
+      city_name: "Denver",
+      state_code: "CO",
+      job_description: "Help customers.",
+    });
+  });
+
+  it("credits JSON-LD when an ATS layout did not match", () => {
+    const result = parseStructuredJobPosting(
+      page("<div>new layout</div>", jsonLd(POSTING)),
+      "https://job-boards.greenhouse.io/acme/jobs/9"
+    );
+    expect(result?.extractor).toBe("json-ld");
+    expect(result?.data.job_title).toBe("Senior Backend Engineer");
+  });
+});
+
+describe("parseSalaryRange / parseLocation", () => {
+  it("annualizes hourly ranges and expands K suffixes", () => {
+    expect(parseSalaryRange("$55 - $65 per hour")).toEqual({
+      min: 114400,
+      max: 135200,
+    });
+    expect(parseSalaryRange("$120K–$150K")).toEqual({
+      min: 120000,
+      max: 150000,
+    });
+    expect(parseSalaryRange("Competitive")).toEqual({ min: null, max: null });
+  });
+
+  it("splits city, state and zip and keeps the first of several locations", () => {
+    expect(parseLocation("Boston, MA 02110")).toEqual({
+      city_name: "Boston",
+      state_code: "MA",
+      zipcode: "02110",
+    });
+    expect(parseLocation("Remote; London, UK")).toEqual({
+      city_name: "Remote",
+      state_code: null,
+      zipcode: null,
+    });
+  });
+});
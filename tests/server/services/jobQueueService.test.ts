@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * Inserts resolve to the new row; other queries resolve to `writeResult`
+ * (progress updates read it back).
+ */
+const db = await vi.hoisted(async () => {
+  const { createSupabaseStub } = await import("../helpers/supabaseStub");
+  const state = {
+    writeResult: { data: [{ id: "job-1" }], error: null } as {
+      data: any;
+      error: any;
+    },
+  };
+  const stub = createSupabaseStub((query) =>
+    query.op === "insert"
+      ? { data: { id: "job-1", ...query.row }, error: null }
+      : state.writeResult
+  );
+  return { ...stub, state };
+});
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: db.client,
+}));
+
+import { ApiError } from "@utils/errors.js";
+import {
+  enqueueJob,
+  registerJobHandler,
+  retryDelayMs,
+  runJobQueueTick,
+  type BackgroundJobRow,
+} from "@server/services/jobQueueService.js";
+
+const run = vi.fn();
+registerJobHandler("company_research", {
+  validate: (input) => {
+    if (!input.companyName) {
+      throw new ApiError(400, "companyName is required", "bad_request");
+    }
+  },
+  run,
+});
+
+function job(overrides: Partial<BackgroundJobRow> = {}): BackgroundJobRow {
+  return {
+    id: "job-1",
+    user_id: "user-1",
+    kind: "company_research",
+    input: { companyName: "Acme" },
+    status: "running",
+    progress: 0,
+    progress_message: null,
+    result: null,
+    attempts: 1,
+    max_attempts: 3,
+    run_after: "2026-10-19T15:00:00.000Z",
+    last_error: null,
+    started_at: "2026-10-19T15:00:00.000Z",
+    completed_at: null,
+    created_at: "2026-10-19T15:00:00.000Z",
+    updated_at: "2026-10-19T15:00:00.000Z",
+    ...overrides,
+  };
+}
+
+/** The write that ended the job (last status update) */
+function finalUpdate() {
+  return db.writes.filter((w) => w.op === "update" && w.row.status).at(-1);
+}
+
+describe("jobQueueService.runJobQueueTick", () => {
+  beforeEach(() => {
+    db.reset();
+    db.state.writeResult = { data: [{ id: "job-1" }], error: null };
+    run.mockReset();
+  });
+
+  it("does nothing when no jobs are runnable", async () => {
+    db.rpc.mockResolvedValueOnce({ data: [], error: null });
+
+    const result = await runJobQueueTick({ limit: 2 });
+
+    expect(result.claimed).toBe(0);
+    expect(db.rpc).toHaveBeenCalledWith("claim_background_jobs", {
+      p_limit: 2,
+      p_stale_after: "300 seconds",
+    });
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("stores the result and reports progress on the running row", async () => {
+    db.rpc.mockResolvedValueOnce({ data: [job()], error: null });
+    run.mockImplementation(async (_input, ctx) => {
+      await ctx.progress(40, "Researching Acme");
+      return { artifact: { id: "a-1" } };
+    });
+
+    const result = await runJobQueueTick();
+
+    expect(result).toMatchObject({ claimed: 1, succeeded: 1 });
+    expect(run).toHaveBeenCalledWith(
+      { companyName: "Acme" },
+      expect.objectContaining({ jobId: "job-1", userId: "user-1", attempt: 1 })
+    );
+    const progress = db.writes.find((w) => w.row.progress === 40);
+    expect(progress?.row.progress_message).toBe("Researching Acme");
+    expect(progress?.filters).toEqual({ id: "job-1", status: "running" });
+    expect(finalUpdate()?.row).toMatchObject({
+      status: "succeeded",
+      progress: 100,
+      result: { artifact: { id: "a-1" } },
+    });
+    expect(finalUpdate()?.filters.status).toBe("running");
+  });
+
+  it("retries failures with backoff until max_attempts", async () => {
+    db.rpc.mockResolvedValueOnce({ data: [job({ attempts: 2 })], error: null });
+    run.mockRejectedValueOnce(new Error("AI timeout"));
+    const before = Date.now();
+
+    const result = await runJobQueueTick();
+
+    expect(result.retried).toBe(1);
+    const update = finalUpdate()!;
+    expect(update.row).toMatchObject({
+      status: "pending",
+      last_error: "AI timeout",
+    });
+    const delay = Date.parse(update.row.run_after) - before;
+    expect(delay).toBeGreaterThanOrEqual(retryDelayMs(2) - 1_000);
+    expect(delay).toBeLessThanOrEqual(retryDelayMs(2) + 1_000);
+  });
+
+  it("fails on the last attempt", async () => {
+    db.rpc.mockResolvedValueOnce({ data: [job({ attempts: 3 })], error: null });
+    run.mockRejectedValueOnce(new Error("AI timeout"));
+
+    const result = await runJobQueueTick();
+
+    expect(result.failed).toBe(1);
+    expect(finalUpdate()?.row).toMatchObject({
+      status: "failed",
+      last_error: "AI timeout",
+    });
+  });
+
+  it("fails client errors at once", async () => {
+    db.rpc.mockResolvedValueOnce({ data: [job()], error: null });
+    run.mockRejectedValueOnce(new ApiError(400, "bad input", "bad_request"));
+
+    const result = await runJobQueueTick();
+
+    expect(result.failed).toBe(1);
+    expect(finalUpdate()?.row.status).toBe("failed");
+  });
+
+  it("stops a job cancelled while it runs", async () => {
+    db.rpc.mockResolvedValueOnce({ data: [job()], error: null });
+    // The progress update matches no running row: the job was cancelled
+    db.state.writeResult = { data: [], error: null };
+    const after = vi.fn();
+    run.mockImplementation(async (_input, ctx) => {
+      await ctx.progress(10, "Researching Acme");
+      after();
+      return {};
+    });
+
+    const result = await runJobQueueTick();
+
+    expect(result.cancelled).toBe(1);
+    expect(after).not.toHaveBeenCalled();
+    expect(finalUpdate()).toBeUndefined();
+  });
+
+  it("fails a reclaimed job past its last attempt without running it", async () => {
+    db.rpc.mockResolvedValueOnce({
+      data: [job({ attempts: 4, last_error: "boom" })],
+      error: null,
+    });
+
+    const result = await runJobQueueTick();
+
+    expect(result.failed).toBe(1);
+    expect(run).not.toHaveBeenCalled();
+    expect(finalUpdate()?.row).toMatchObject({
+      status: "failed",
+      last_error: "boom",
+    });
+  });
+});
+
+describe("jobQueueService.enqueueJob", () => {
+  beforeEach(() => {
+    db.writes.length = 0;
+    db.rpc.mockReset().mockResolvedValue({ data: [], error: null });
+  });
+
+  it("validates the input before inserting", async () => {
+    await expect(
+      enqueueJob("user-1", "company_research", {})
+    ).rejects.toMatchObject({ status: 400 });
+    expect(db.writes).toHaveLength(0);
+  });
+
+  it("inserts a pending job for the user", async () => {
+    const row = await enqueueJob("user-1", "company_research", {
+      companyName: "Acme",
+    });
+
+    expect(row.id).toBe("job-1");
+    expect(db.writes[0]).toMatchObject({
+      table: "background_jobs",
+      op: "insert",
+      row: {
+        user_id: "user-1",
+        kind: "company_research",
+        input: { companyName: "Acme" },
+        max_attempts: 3,
+      },
+    });
+  });
+
+  it("rejects kinds without a handler", async () => {
+    await expect(
+      enqueueJob("user-1", "market_intelligence", {})
+    ).rejects.toMatchObject({ status: 400, code: "bad_request" });
+  });
+});
+
+describe("jobQueueService.retryDelayMs", () => {
+  it("doubles from 30 seconds and caps at 10 minutes", () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(2)).toBe(60_000);
+    expect(retryDelayMs(3)).toBe(120_000);
+    expect(retryDelayMs(10)).toBe(600_000);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * Supabase stub: each rpc(name) call resolves to the next queued result for
+ * that function; chained filters, ordering and ranges are recorded.
+ */
+const db = vi.hoisted(() => {
+  const queues: Record<string, Array<{ data: any; error: any }>> = {};
+  const calls: Array<{
+    fn: string;
+    args: any;
+    chain: Array<[string, ...any[]]>;
+  }> = [];
+
+  function rpc(fn: string, args: any) {
+    const result = queues[fn]?.shift() ?? { data: [], error: null };
+    const call = { fn, args, chain: [] as Array<[string, ...any[]]> };
+    calls.push(call);
+    const step =
+      (name: string) =>
+      (...stepArgs: any[]) => {
+        call.chain.push([name, ...stepArgs]);
+        return builder;
+      };
+    const builder: any = {
+      eq: step("eq"),
+      lt: step("lt"),
+      gt: step("gt"),
+      order: step("order"),
+      limit: step("limit"),
+      range: step("range"),
+      then: (resolve: any, reject: any) =>
+        Promise.resolve(result).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  return { queues, calls, client: { rpc } };
+});
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: db.client,
+}));
+
+import {
+  parseJobSearchParams,
+  searchJobs,
+} from "@server/services/jobSearchService.js";
+import { encodeCursor } from "@server/utils/pagination.js";
+
+function parse(query: string) {
+  return parseJobSearchParams(new URLSearchParams(query));
+}
+
+function jobs(...ids: number[]) {
+  return ids.map((id) => ({ id, job_title: `Job ${id}` }));
+}
+
+function callTo(fn: string) {
+  return db.calls.find((c) => c.fn === fn)!;
+}
+
+beforeEach(() => {
+  for (const key of Object.keys(db.queues)) delete db.queues[key];
+  db.calls.length = 0;
+  db.queues.job_stage_counts = [
+    {
+      data: [
+        { job_status: "Interested", total: "4" },
+        { job_status: "Applied", total: 3 },
+      ],
+      error: null,
+    },
+  ];
+});
+
+describe("jobSearchService.parseJobSearchParams", () => {
+  it("applies defaults and treats the All stage as no filter", () => {
+    expect(parse("stage=All&search=%20react%20")).toMatchObject({
+      search: "react",
+      stage: undefined,
+      sortBy: "created_at",
+      sortOrder: "desc",
+      mode: "offset",
+      limit: 20,
+      page: 1,
+      includeArchived: false,
+    });
+  });
+
+  it("rejects unknown stages, sort fields and malformed values", () => {
+    expect(() => parse("stage=Ghosted")).toThrow("stage must be one of");
+    expect(() => parse("sortBy=salary")).toThrow("sortBy must be one of");
+    expect(() => parse("minSalary=-5")).toThrow(
+      "minSalary must be a non-negative number"
+    );
+    expect(() => parse("deadlineAfter=soon")).toThrow(
+      "deadlineAfter must be an ISO date"
+    );
+  });
+
+  it("only allows cursor pagination over creation order", () => {
+    expect(() => parse("mode=cursor&sortBy=job_title")).toThrow(
+      "cursor pagination only supports sortBy=created_at"
+    );
+    expect(() => parse("cursor=not-a-cursor")).toThrow("Invalid cursor");
+    expect(parse(`cursor=${encodeCursor(42, "id")}`).mode).toBe("cursor");
+  });
+});
+
+describe("jobSearchService.searchJobs", () => {
+  it("passes filters to the RPC and pages by offset with stage counts", async () => {
+    db.queues.search_jobs = [{ data: jobs(3, 4), error: null }];
+
+    const result = await searchJobs(
+      "user-1",
+      parse(
+        "search=react&industry=50%25_off&stage=Interested&sortBy=job_title&sortOrder=asc&limit=2&offset=2"
+      )
+    );
+
+    expect(callTo("search_jobs").args).toEqual({
+      p_user_id: "user-1",
+      p_filters: { search: "react", industry: "50\\%\\_off" },
+    });
+    expect(callTo("search_jobs").chain).toEqual([
+      ["eq", "job_status", "Interested"],
+      ["order", "job_title", { ascending: true, nullsFirst: false }],
+      ["order", "id", { ascending: true }],
+      ["range", 2, 3],
+    ]);
+    expect(result.stageCounts).toMatchObject({
+      Interested: 4,
+      Applied: 3,
+      Offer: 0,
+    });
+    expect(result.pagination).toMatchObject({
+      page: 2,
+      totalItems: 4,
+      hasNextPage: false,
+      hasPreviousPage: true,
+    });
+  });
+
+  it("uses the sum of stage counts as the total without a stage filter", async () => {
+    db.queues.search_jobs = [{ data: jobs(1, 2), error: null }];
+
+    const result = await searchJobs("user-1", parse("limit=2"));
+
+    expect(result.pagination).toMatchObject({
+      totalItems: 7,
+      totalPages: 4,
+      hasNextPage: true,
+    });
+  });
+
+  it("continues from a cursor and hands out the next one", async () => {
+    db.queues.search_jobs = [{ data: jobs(9, 8, 7), error: null }];
+
+    const result = await searchJobs(
+      "user-1",
+      parse(`limit=2&cursor=${encodeCursor(10, "id")}`)
+    );
+
+    expect(callTo("search_jobs").chain).toEqual([
+      ["lt", "id", 10],
+      ["order", "id", { ascending: false }],
+      ["limit", 3],
+    ]);
+    expect(result.data.map((j) => j.id)).toEqual([9, 8]);
+    expect(result.pagination).toMatchObject({
+      hasNextPage: true,
+      hasPreviousPage: true,
+      nextCursor: encodeCursor(8, "id"),
+    });
+  });
+
+  it("surfaces database errors", async () => {
+    db.queues.job_stage_counts = [
+      { data: null, error: { message: "syntax error in tsquery" } },
+    ];
+
+    await expect(searchJobs("user-1", parse(""))).rejects.toMatchObject({
+      status: 500,
+      code: "db_error",
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for services/jsonSectionStream.ts
+ * Coverage: incremental section extraction from streamed JSON text
+ */
+
+import { describe, it, expect } from "vitest";
+import { JsonSectionStream } from "@server/services/jsonSectionStream.js";
+
+function feed(text: string, chunkSize: number, maxDepth?: number) {
+  const stream = new JsonSectionStream(maxDepth);
+  const sections = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    sections.push(...stream.push(text.slice(i, i + chunkSize)));
+  }
+  return sections;
+}
+
+const resume = {
+  summary: 'Engineer who "ships" {fast}, [reliably]',
+  ordered_skills: ["TypeScript", "React"],
+  sections: {
+    experience: [{ role: "Dev", bullets: ["Built {APIs}"] }],
+    education: [],
+  },
+  score: 87,
+  draft: false,
+};
+
+describe("JsonSectionStream", () => {
+  it("emits top-level and nested sections in completion order", () => {
+    const sections = feed(JSON.stringify(resume), 7);
+
+    expect(sections.map((s) => s.path.join("."))).toEqual([
+      "summary",
+      "ordered_skills",
+      "sections.experience",
+      "sections.education",
+      "sections",
+      "score",
+      "draft",
+    ]);
+    expect(sections[0].value).toBe(resume.summary);
+    expect(sections[2].value).toEqual(resume.sections.experience);
+    expect(sections[5].value).toBe(87);
+  });
+
+  it("gives the same result regardless of chunk boundaries", () => {
+    const text = JSON.stringify(resume, null, 2);
+    expect(feed(text, 1)).toEqual(feed(text, text.length));
+  });
+
+  it("ignores text before the object and limits depth", () => {
+    const text = "```json\n" + JSON.stringify(resume) + "\n```";
+    const sections = feed(text, 5, 1);
+
+    expect(sections.map((s) => s.path.join("."))).toEqual([
+      "summary",
+      "ordered_skills",
+      "sections",
+      "score",
+      "draft",
+    ]);
+  });
+});
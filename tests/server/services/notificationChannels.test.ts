@@ -0,0 +1,154 @@
+/**
+ * Tests for services/notificationChannels.ts
+ * Coverage: webhook targets limited to public hosts (literal addresses and
+ * DNS answers), connections pinned to the checked addresses, redirects
+ * refused
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const dns = vi.hoisted(() => ({ lookup: vi.fn() }));
+const undici = vi.hoisted(() => ({
+  fetch: vi.fn(),
+  Agent: class {
+    destroy = vi.fn(async () => {});
+    constructor(public options: any) {}
+  },
+}));
+
+vi.mock("node:dns/promises", () => dns);
+// undici is a server dependency, so it is mocked by its path there
+vi.mock("../../../server/node_modules/undici", () => undici);
+
+import {
+  assertPublicWebhookUrl,
+  getNotificationChannel,
+  type NotificationMessage,
+} from "@server/services/notificationChannels.js";
+
+const message: NotificationMessage = {
+  id: "n-1",
+  userId: "user-1",
+  kind: "interview_reminder",
+  title: "Interview in 2 hours",
+  body: null,
+  link: null,
+  payload: {},
+  runAt: "2026-10-19T15:00:00.000Z",
+};
+
+describe("notificationChannels.assertPublicWebhookUrl", () => {
+  beforeEach(() => {
+    dns.lookup.mockReset();
+  });
+
+  it.each([
+    "http://127.0.0.1/hook",
+    "http://2130706433/hook",
+    "http://0.0.0.0/hook",
+    "http://10.1.2.3/hook",
+    "http://172.20.0.1/hook",
+    "http://192.168.1.10/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://[::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://[fe80::1]/hook",
+    "http://[fd00::1]/hook",
+  ])("refuses %s", async (url) => {
+    await expect(assertPublicWebhookUrl(url)).rejects.toThrow(
+      "is not a public address"
+    );
+    expect(dns.lookup).not.toHaveBeenCalled();
+  });
+
+  it("checks every address a host name resolves to", async () => {
+    dns.lookup.mockResolvedValueOnce([
+      { address: "93.184.216.34", family: 4 },
+      { address: "10.0.0.5", family: 4 },
+    ]);
+    await expect(
+      assertPublicWebhookUrl("https://hooks.example.com/x")
+    ).rejects.toThrow("is not a public address");
+
+    const addresses = [
+      { address: "93.184.216.34", family: 4 },
+      { address: "2606:2800:220:1::1", family: 6 },
+    ];
+    dns.lookup.mockResolvedValueOnce(addresses);
+    await expect(
+      assertPublicWebhookUrl("https://hooks.example.com/x")
+    ).resolves.toEqual(addresses);
+    expect(dns.lookup).toHaveBeenCalledWith("hooks.example.com", {
+      all: true,
+    });
+  });
+
+  it("only accepts http(s) URLs", async () => {
+    await expect(assertPublicWebhookUrl("file:///etc/passwd")).rejects.toThrow(
+      "must use http or https"
+    );
+    await expect(assertPublicWebhookUrl("not a url")).rejects.toThrow(
+      "not a valid URL"
+    );
+  });
+});
+
+describe("notificationChannels webhook", () => {
+  const webhook = getNotificationChannel("webhook")!;
+
+  beforeEach(() => {
+    dns.lookup.mockReset();
+    undici.fetch.mockReset().mockResolvedValue({ ok: true, status: 204 });
+  });
+
+  it("does not deliver to a private host", async () => {
+    dns.lookup.mockResolvedValueOnce([{ address: "192.168.0.2", family: 4 }]);
+
+    await expect(
+      webhook(message, {
+        userId: "user-1",
+        email: null,
+        webhookUrl: "https://intranet.example.com/hook",
+      })
+    ).rejects.toThrow("is not a public address");
+    expect(undici.fetch).not.toHaveBeenCalled();
+  });
+
+  it("posts to a public host without following redirects", async () => {
+    dns.lookup.mockResolvedValueOnce([{ address: "93.184.216.34", family: 4 }]);
+
+    await webhook(message, {
+      userId: "user-1",
+      email: null,
+      webhookUrl: "https://hooks.example.com/x",
+    });
+
+    expect(undici.fetch).toHaveBeenCalledOnce();
+    const [url, init] = undici.fetch.mock.calls[0];
+    expect(url).toBe("https://hooks.example.com/x");
+    expect(init).toMatchObject({ method: "POST", redirect: "error" });
+    expect(JSON.parse(init.body)).toMatchObject({ id: "n-1" });
+    expect(init.dispatcher.destroy).toHaveBeenCalledOnce();
+  });
+
+  it("connects only to the address that was checked", async () => {
+    dns.lookup.mockResolvedValueOnce([{ address: "93.184.216.34", family: 4 }]);
+
+    await webhook(message, {
+      userId: "user-1",
+      email: null,
+      webhookUrl: "https://hooks.example.com/x",
+    });
+
+    // Answers a second lookup itself instead of asking DNS again
+    const { lookup } = undici.fetch.mock.calls[0][1].dispatcher.options.connect;
+    const callback = vi.fn();
+    lookup("hooks.example.com", { all: true }, callback);
+    expect(callback).toHaveBeenLastCalledWith(null, [
+      { address: "93.184.216.34", family: 4 },
+    ]);
+    lookup("hooks.example.com", {}, callback);
+    expect(callback).toHaveBeenLastCalledWith(null, "93.184.216.34", 4);
+    expect(dns.lookup).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+/** Reads resolve to the table's default; writes resolve to nothing */
+const db = await vi.hoisted(async () => {
+  const { createSupabaseStub } = await import("../helpers/supabaseStub");
+  return createSupabaseStub((query) =>
+    query.op === "select" ? undefined : { data: null, error: null }
+  );
+});
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: db.client,
+}));
+
+import {
+  registerNotificationChannel,
+  type NotificationChannel,
+} from "@server/services/notificationChannels.js";
+import {
+  retryDelayMs,
+  runNotificationTick,
+} from "@server/services/notificationService.js";
+
+const NOW = new Date("2026-10-19T15:00:00.000Z");
+
+function job(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "n-1",
+    user_id: "user-1",
+    kind: "interview_reminder",
+    source_id: "iv-1",
+    run_at: "2026-10-19T14:59:00.000Z",
+    title: "Interview in 2 hours: Onsite",
+    body: "Starts at 5pm",
+    link: "/interviews",
+    payload: { interview_id: "iv-1" },
+    status: "processing",
+    attempts: 1,
+    next_attempt_at: null,
+    last_error: null,
+    completed_at: null,
+    ...overrides,
+  };
+}
+
+function statusUpdates() {
+  return db.writes.filter(
+    (w) => w.table === "scheduled_notifications" && w.op === "update"
+  );
+}
+
+function deliveries() {
+  return db.writes.filter((w) => w.table === "notification_deliveries");
+}
+
+describe("notificationService.runNotificationTick", () => {
+  const inApp = vi.fn<NotificationChannel>();
+  const email = vi.fn<NotificationChannel>();
+  let prevMax: string | undefined;
+
+  beforeEach(() => {
+    db.reset();
+    inApp.mockReset().mockResolvedValue(undefined);
+    email.mockReset().mockResolvedValue(undefined);
+    registerNotificationChannel("in_app", inApp);
+    registerNotificationChannel("email", email);
+    prevMax = process.env.NOTIFICATION_MAX_ATTEMPTS;
+    delete process.env.NOTIFICATION_MAX_ATTEMPTS;
+  });
+
+  afterEach(() => {
+    if (prevMax === undefined) delete process.env.NOTIFICATION_MAX_ATTEMPTS;
+    else process.env.NOTIFICATION_MAX_ATTEMPTS = prevMax;
+  });
+
+  it("does nothing when no jobs are due", async () => {
+    db.rpc.mockResolvedValue({ data: [], error: null });
+
+    const result = await runNotificationTick({ now: NOW });
+
+    expect(result).toEqual({ claimed: 0, sent: 0, retried: 0, failed: 0 });
+    expect(db.writes).toHaveLength(0);
+  });
+
+  it("delivers in-app by default and marks the job sent", async () => {
+    db.rpc.mockResolvedValue({ data: [job()], error: null });
+    db.defaults.profiles = {
+      data: [{ id: "user-1", email: "ada@example.com" }],
+      error: null,
+    };
+
+    const result = await runNotificationTick({ now: NOW, limit: 10 });
+
+    expect(db.rpc).toHaveBeenCalledWith("claim_due_notifications", {
+      p_limit: 10,
+    });
+    expect(result).toEqual({ claimed: 1, sent: 1, retried: 0, failed: 0 });
+    expect(inApp).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "n-1", kind: "interview_reminder" }),
+      expect.objectContaining({ userId: "user-1", email: "ada@example.com" })
+    );
+    expect(email).not.toHaveBeenCalled();
+    expect(deliveries()[0]).toMatchObject({
+      op: "upsert",
+      row: { channel: "in_app", status: "sent", last_error: null },
+      options: { onConflict: "notification_id,channel" },
+    });
+    expect(statusUpdates()[0]).toMatchObject({
+      row: { status: "sent", locked_at: null },
+      filters: { id: "n-1" },
+    });
+  });
+
+  it("reschedules with backoff and skips channels already delivered", async () => {
+    db.rpc.mockResolvedValue({ data: [job({ attempts: 2 })], error: null });
+    db.defaults.notification_preferences = {
+      data: [
+        {
+          user_id: "user-1",
+          channels: ["in_app", "email"],
+          email: "alerts@example.com",
+          webhook_url: null,
+        },
+      ],
+      error: null,
+    };
+    db.defaults.notification_deliveries = {
+      data: [{ notification_id: "n-1", channel: "in_app", status: "sent" }],
+      error: null,
+    };
+    email.mockRejectedValue(new Error("SMTP RCPT failed: 550"));
+
+    const result = await runNotificationTick({ now: NOW });
+
+    expect(result).toEqual({ claimed: 1, sent: 0, retried: 1, failed: 0 });
+    expect(inApp).not.toHaveBeenCalled();
+    expect(email.mock.calls[0][1].email).toBe("alerts@example.com");
+    expect(deliveries().map((d) => d.row)).toEqual([
+      expect.objectContaining({
+        channel: "email",
+        status: "failed",
+        last_error: "SMTP RCPT failed: 550",
+      }),
+    ]);
+    expect(statusUpdates()[0].row).toMatchObject({
+      status: "pending",
+      next_attempt_at: new Date(NOW.getTime() + retryDelayMs(2)).toISOString(),
+      last_error: "email: SMTP RCPT failed: 550",
+    });
+  });
+
+  it("marks the job failed once attempts are exhausted", async () => {
+    process.env.NOTIFICATION_MAX_ATTEMPTS = "3";
+    db.rpc.mockResolvedValue({ data: [job({ attempts: 3 })], error: null });
+    inApp.mockRejectedValue(new Error("inbox insert failed"));
+
+    const result = await runNotificationTick({ now: NOW });
+
+    expect(result).toEqual({ claimed: 1, sent: 0, retried: 0, failed: 1 });
+    expect(statusUpdates()[0].row).toMatchObject({
+      status: "failed",
+      completed_at: NOW.toISOString(),
+    });
+  });
+
+  it("records unknown channels as failed deliveries", async () => {
+    db.rpc.mockResolvedValue({ data: [job()], error: null });
+    db.defaults.notification_preferences = {
+      data: [{ user_id: "user-1", channels: ["pager"], webhook_url: null }],
+      error: null,
+    };
+
+    const result = await runNotificationTick({ now: NOW });
+
+    expect(result.retried).toBe(1);
+    expect(deliveries()[0].row).toMatchObject({
+      channel: "pager",
+      status: "failed",
+      last_error: "unknown channel pager",
+    });
+  });
+});
+
+describe("notificationService.retryDelayMs", () => {
+  it("doubles from one minute and caps at an hour", () => {
+    expect(retryDelayMs(1)).toBe(60_000);
+    expect(retryDelayMs(2)).toBe(120_000);
+    expect(retryDelayMs(4)).toBe(480_000);
+    expect(retryDelayMs(10)).toBe(3_600_000);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for services/portfolioRenderer.ts
+ * Coverage: escaping, link safety, hidden sections, theme CSS and the
+ * bundle layout
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildPortfolioBundle,
+  renderPortfolioCss,
+  renderPortfolioHtml,
+} from "@server/services/portfolioRenderer.js";
+import {
+  resolvePortfolioTheme,
+  type PublicPortfolio,
+} from "@server/services/portfolioService.js";
+
+function portfolio(overrides: Partial<PublicPortfolio> = {}): PublicPortfolio {
+  return {
+    slug: "ada",
+    name: "Ada <Lovelace>",
+    headline: "Engineer & Poet",
+    about: { summary: "Builds engines.", location: "London" },
+    projects: [
+      {
+        id: "p1",
+        name: "Engine",
+        description: "<script>alert(1)</script>",
+        role: "Lead",
+        startDate: "2024-01-15",
+        endDate: "2024-06-01",
+        status: null,
+        technologies: ["Rust"],
+        outcomes: null,
+        url: "javascript:alert(1)",
+      },
+    ],
+    skills: [
+      { category: "Technical", skills: [{ name: "Rust", level: "expert" }] },
+    ],
+    employment: [
+      {
+        title: "Lead",
+        company: "Engines Ltd",
+        location: null,
+        startDate: "2021-02-01",
+        endDate: null,
+        current: true,
+        bullets: ["Shipped v2"],
+      },
+    ],
+    repositories: [
+      {
+        name: "engine",
+        description: null,
+        url: "https://github.com/ada/engine",
+        homepage: "ftp://example.com",
+        language: "Rust",
+        stars: 4,
+        topics: [],
+      },
+    ],
+    theme: resolvePortfolioTheme(null),
+    views: 10,
+    updatedAt: "2026-10-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("portfolioRenderer.renderPortfolioHtml", () => {
+  it("escapes every value", () => {
+    const html = renderPortfolioHtml(portfolio());
+
+    expect(html).toContain("<h1>Ada &lt;Lovelace&gt;</h1>");
+    expect(html).toContain("Engineer &amp; Poet");
+    expect(html).not.toContain("<script>");
+  });
+
+  it("only links http(s) URLs", () => {
+    const html = renderPortfolioHtml(portfolio());
+
+    expect(html).not.toContain("javascript:");
+    expect(html).not.toContain("ftp://");
+    expect(html).toContain('<a href="https://github.com/ada/engine"');
+  });
+
+  it("renders dates and the current job", () => {
+    const html = renderPortfolioHtml(portfolio());
+
+    expect(html).toContain("Jan 2024 – Jun 2024");
+    expect(html).toContain("Feb 2021 – Present");
+    expect(html).toContain("<footer>Updated Oct 2026</footer>");
+  });
+
+  it("leaves out empty sections", () => {
+    const html = renderPortfolioHtml(
+      portfolio({ about: null, projects: [], repositories: [] })
+    );
+
+    expect(html).not.toContain('id="projects"');
+    expect(html).not.toContain('id="github"');
+    expect(html).not.toContain('class="summary"');
+    expect(html).toContain('id="skills"');
+    expect(html).toContain('id="experience"');
+  });
+});
+
+describe("portfolioRenderer.renderPortfolioCss", () => {
+  it("turns the theme into CSS variables with safe font names", () => {
+    const theme = resolvePortfolioTheme(null);
+    const css = renderPortfolioCss({
+      ...theme,
+      fonts: { heading: 'Merri"weather;}', body: "Inter" },
+    });
+
+    expect(css).toContain("--color-primary: #2563eb;");
+    expect(css).toContain('--font-heading: "Merriweather", system-ui');
+    expect(css).toContain('--font-body: "Inter", system-ui');
+  });
+});
+
+describe("portfolioRenderer.buildPortfolioBundle", () => {
+  it("names the archive after the slug", () => {
+    const bundle = buildPortfolioBundle(portfolio());
+
+    expect(bundle.fileName).toBe("ada-portfolio.zip");
+    expect(bundle.files.map((f) => f.path)).toEqual([
+      "index.html",
+      "styles.css",
+    ]);
+    expect(bundle.files[0].content).toContain(
+      '<link rel="stylesheet" href="styles.css">'
+    );
+  });
+});
@@ -0,0 +1,500 @@
+/**
+ * Tests for services/portfolioService.ts
+ * Coverage: input validation, page content from profile rows (hidden
+ * sections, project order, featured repositories, skill dedupe), saving
+ * (slug ownership, project filtering), the public page and its view
+ * counter, and the export bundle
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+/** rpc() counts views of published portfolios */
+const db = await vi.hoisted(async () => {
+  const { createMemorySupabase } = await import("../helpers/supabaseStub");
+  return createMemorySupabase({
+    defaults: { portfolios: { view_count: 0 } },
+    rpc: (_fn, args, tables) => {
+      const row = (tables.portfolios ?? []).find(
+        (r) => r.slug === args.p_slug && r.is_published
+      );
+      if (!row) return null;
+      row.view_count += 1;
+      return row.view_count;
+    },
+  });
+});
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: db.client,
+}));
+
+import {
+  buildPublicPortfolio,
+  exportPortfolioBundle,
+  getPublicPortfolio,
+  resolvePortfolioTheme,
+  savePortfolio,
+  validatePortfolioInput,
+  DEFAULT_SECTIONS,
+  type PortfolioSource,
+} from "@server/services/portfolioService.js";
+import {
+  createMemoryStore,
+  setCacheStore,
+} from "@server/services/cacheStore.js";
+
+const USER = "user-1";
+const OTHER = "user-2";
+const P1 = "11111111-1111-4111-8111-111111111111";
+const P2 = "22222222-2222-4222-8222-222222222222";
+const P3 = "33333333-3333-4333-8333-333333333333";
+const THEME = "44444444-4444-4444-8444-444444444444";
+
+const VISITOR = { ip: "203.0.113.7", userAgent: "Mozilla/5.0 Firefox" };
+
+function source(overrides: Partial<PortfolioSource> = {}): PortfolioSource {
+  return {
+    profile: {
+      first_name: "Ada",
+      last_name: "Lovelace",
+      professional_title: "Software Engineer",
+      summary: "Builds analytical engines.",
+      city: "London",
+      state: null,
+    },
+    projects: [
+      { id: P1, proj_name: "Engine", tech_and_skills: ["Rust", " "] },
+      { id: P2, proj_name: "Notes", proj_description: "Annotated papers" },
+    ],
+    skills: [
+      { skill_name: "TypeScript", proficiency_level: "Intermediate" },
+      {
+        skill_name: "JavaScript",
+        proficiency_level: "Expert",
+        taxonomy_id: "javascript",
+      },
+      {
+        skill_name: "JS",
+        proficiency_level: "Beginner",
+        taxonomy_id: "javascript",
+      },
+      { skill_name: "Pottery", skill_category: "Hobbies" },
+    ],
+    employment: [
+      {
+        job_title: "Analyst",
+        company_name: "Babbage & Co",
+        start_date: "2019-03-01",
+        end_date: "2021-01-01",
+        current_position: false,
+        job_description: "- Wrote programs\n- Published notes",
+      },
+      {
+        job_title: "Lead",
+        company_name: "Engines Ltd",
+        start_date: "2021-02-01",
+        end_date: "2022-01-01",
+        current_position: true,
+        achievements: ["Shipped v2"],
+      },
+    ],
+    repositories: [
+      {
+        name: "small",
+        html_url: "https://github.com/ada/small",
+        is_featured: true,
+        stargazers_count: 1,
+      },
+      {
+        name: "big",
+        html_url: "https://github.com/ada/big",
+        is_featured: true,
+        stargazers_count: 40,
+      },
+      {
+        name: "hidden",
+        html_url: "https://github.com/ada/hidden",
+        is_featured: false,
+        stargazers_count: 99,
+      },
+    ],
+    theme: null,
+    ...overrides,
+  };
+}
+
+const settings = {
+  slug: "ada",
+  headline: null,
+  sections: DEFAULT_SECTIONS,
+  project_ids: [P2, P3, P1],
+  view_count: 5,
+  updated_at: "2026-10-01T00:00:00Z",
+};
+
+function portfolioRow(overrides: Record<string, any> = {}) {
+  return {
+    user_id: USER,
+    slug: "ada",
+    is_published: true,
+    theme_id: null,
+    headline: null,
+    sections: { ...DEFAULT_SECTIONS },
+    project_ids: [P1],
+    view_count: 0,
+    last_viewed_at: null,
+    published_at: "2026-10-01T00:00:00Z",
+    created_at: "2026-10-01T00:00:00Z",
+    updated_at: "2026-10-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  db.state.tables = {};
+  db.state.rpcCalls = [];
+  setCacheStore(createMemoryStore());
+});
+
+afterEach(() => {
+  setCacheStore(null);
+});
+
+describe("portfolioService.validatePortfolioInput", () => {
+  it("normalizes the slug and fills defaults for a full payload", () => {
+    expect(validatePortfolioInput({ slug: "  Ada_Lovelace " })).toEqual({
+      slug: "ada-lovelace",
+      is_published: false,
+      sections: DEFAULT_SECTIONS,
+      project_ids: [],
+    });
+  });
+
+  it("rejects slugs that are too short or have edge hyphens", () => {
+    for (const slug of ["ab", "-ada", "ada-", "a".repeat(41), "ada!", ""]) {
+      expect(() => validatePortfolioInput({ slug })).toThrow(
+        expect.objectContaining({ status: 400, code: "invalid_slug" })
+      );
+    }
+  });
+
+  it("only validates the fields present in a partial update", () => {
+    expect(
+      validatePortfolioInput(
+        {
+          theme_id: "",
+          headline: "  Engineer ",
+          sections: { github: false, unknown: true },
+          project_ids: [P1, P1, P2],
+        },
+        { partial: true }
+      )
+    ).toEqual({
+      theme_id: null,
+      headline: "Engineer",
+      sections: { ...DEFAULT_SECTIONS, github: false },
+      project_ids: [P1, P2],
+    });
+  });
+
+  it("rejects wrong types", () => {
+    const partial = { partial: true };
+    expect(() =>
+      validatePortfolioInput({ is_published: "yes" }, partial)
+    ).toThrow("is_published must be a boolean");
+    expect(() =>
+      validatePortfolioInput({ theme_id: "modern-blue" }, partial)
+    ).toThrow("theme_id must be a theme id");
+    expect(() =>
+      validatePortfolioInput({ sections: { skills: 1 } }, partial)
+    ).toThrow("sections.skills must be a boolean");
+    expect(() =>
+      validatePortfolioInput({ project_ids: ["p1"] }, partial)
+    ).toThrow("project_ids must be a list of project ids");
+    expect(() =>
+      validatePortfolioInput({ headline: "x".repeat(161) }, partial)
+    ).toThrow("headline must be at most 160 characters");
+  });
+});
+
+describe("portfolioService.buildPublicPortfolio", () => {
+  it("builds every visible section from the profile rows", () => {
+    const page = buildPublicPortfolio(settings, source());
+
+    expect(page.name).toBe("Ada Lovelace");
+    expect(page.headline).toBe("Software Engineer");
+    expect(page.about).toEqual({
+      summary: "Builds analytical engines.",
+      location: "London",
+    });
+    // project_ids order; ids the user no longer has are skipped
+    expect(page.projects.map((p) => p.name)).toEqual(["Notes", "Engine"]);
+    expect(page.projects[1].technologies).toEqual(["Rust"]);
+    // newest job first; bullets without list markers
+    expect(page.employment.map((j) => [j.title, j.endDate, j.bullets])).toEqual(
+      [
+        ["Lead", null, ["Shipped v2"]],
+        ["Analyst", "2021-01-01", ["Wrote programs", "Published notes"]],
+      ]
+    );
+    // featured only, most stars first
+    expect(page.repositories.map((r) => r.name)).toEqual(["big", "small"]);
+    expect(page.views).toBe(5);
+  });
+
+  it("groups skills once each, strongest first", () => {
+    const { skills } = buildPublicPortfolio(settings, source());
+    const technical = skills.find((g) => g.category === "Technical");
+
+    expect(technical?.skills).toEqual([
+      { name: "JavaScript", level: "expert" },
+      { name: "TypeScript", level: "intermediate" },
+    ]);
+    expect(skills.find((g) => g.category === "Hobbies")?.skills).toEqual([
+      { name: "Pottery", level: null },
+    ]);
+  });
+
+  it("leaves hidden sections empty and prefers the custom headline", () => {
+    const page = buildPublicPortfolio(
+      {
+        ...settings,
+        headline: "Poet of science",
+        sections: {
+          about: false,
+          projects: false,
+          skills: false,
+          employment: false,
+          github: false,
+        },
+      },
+      source()
+    );
+
+    expect(page.headline).toBe("Poet of science");
+    expect(page.about).toBeNull();
+    expect(page.projects).toEqual([]);
+    expect(page.skills).toEqual([]);
+    expect(page.employment).toEqual([]);
+    expect(page.repositories).toEqual([]);
+  });
+
+  it("only keeps http(s) repository links", () => {
+    const page = buildPublicPortfolio(
+      settings,
+      source({
+        repositories: [
+          {
+            name: "script",
+            html_url: "javascript:alert(1)",
+            is_featured: true,
+          },
+          {
+            name: "site",
+            html_url: "https://github.com/ada/site",
+            homepage: "data:text/html,hi",
+            is_featured: true,
+          },
+        ],
+      })
+    );
+
+    expect(page.repositories).toMatchObject([
+      { name: "site", url: "https://github.com/ada/site", homepage: null },
+    ]);
+  });
+
+  it("falls back to the slug when the profile has no name", () => {
+    expect(buildPublicPortfolio(settings, source({ profile: null })).name).toBe(
+      "ada"
+    );
+  });
+});
+
+describe("portfolioService.resolvePortfolioTheme", () => {
+  it("uses default colors without a theme", () => {
+    expect(resolvePortfolioTheme(null).colors.primary).toBe("#2563eb");
+  });
+
+  it("reads nested background colors of a theme", () => {
+    const theme = resolvePortfolioTheme({
+      name: "Forest",
+      colors: {
+        primary: "#2F6B3A",
+        background: { primary: "#FAFAF5", secondary: "#EEF2EA" },
+      },
+    });
+    expect(theme.name).toBe("Forest");
+    expect(theme.colors.primary).toBe("#2f6b3a");
+    expect(theme.colors.background).toBe("#fafaf5");
+    expect(theme.colors.surface).toBe("#eef2ea");
+  });
+});
+
+describe("portfolioService.savePortfolio", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  beforeEach(() => {
+    db.state.tables.projects = [
+      { id: P1, user_id: USER },
+      { id: P2, user_id: OTHER },
+    ];
+  });
+
+  it("requires a slug the first time", async () => {
+    await expect(
+      savePortfolio(USER, { is_published: true }, now)
+    ).rejects.toMatchObject({
+      status: 400,
+      code: "invalid_slug",
+    });
+  });
+
+  it("creates the row, keeping only the user's own projects", async () => {
+    const row = await savePortfolio(
+      USER,
+      { slug: "ada", is_published: true, project_ids: [P2, P1] },
+      now
+    );
+
+    expect(row).toMatchObject({
+      user_id: USER,
+      slug: "ada",
+      is_published: true,
+      project_ids: [P1],
+      sections: DEFAULT_SECTIONS,
+      published_at: now.toISOString(),
+    });
+  });
+
+  it("refuses a slug another user has", async () => {
+    db.state.tables.portfolios = [
+      portfolioRow({ user_id: OTHER, slug: "ada" }),
+    ];
+
+    await expect(
+      savePortfolio(USER, { slug: "ada" }, now)
+    ).rejects.toMatchObject({
+      status: 409,
+      code: "slug_taken",
+    });
+  });
+
+  it("updates the existing row and keeps the first publish date", async () => {
+    db.state.tables.portfolios = [portfolioRow()];
+
+    const row = await savePortfolio(USER, { headline: "Engineer" }, now);
+
+    expect(row.headline).toBe("Engineer");
+    expect(row.published_at).toBe("2026-10-01T00:00:00Z");
+    expect(row.updated_at).toBe(now.toISOString());
+  });
+
+  it("only accepts system themes or the user's own", async () => {
+    db.state.tables.portfolios = [portfolioRow()];
+    db.state.tables.themes = [{ id: THEME, user_id: OTHER }];
+
+    await expect(
+      savePortfolio(USER, { theme_id: THEME }, now)
+    ).rejects.toMatchObject({
+      code: "invalid_theme",
+    });
+
+    db.state.tables.themes = [{ id: THEME, user_id: null }];
+    const row = await savePortfolio(USER, { theme_id: THEME }, now);
+    expect(row.theme_id).toBe(THEME);
+  });
+});
+
+describe("portfolioService.getPublicPortfolio", () => {
+  beforeEach(() => {
+    db.state.tables.portfolios = [
+      portfolioRow({ sections: { ...DEFAULT_SECTIONS, employment: false } }),
+    ];
+    db.state.tables.profiles = [
+      {
+        id: USER,
+        first_name: "Ada",
+        last_name: "Lovelace",
+        email: "ada@example.com",
+      },
+    ];
+    db.state.tables.projects = [{ id: P1, user_id: USER, proj_name: "Engine" }];
+    db.state.tables.employment = [
+      { user_id: USER, job_title: "Analyst", start_date: "2020-01-01" },
+    ];
+  });
+
+  it("404s for unknown and unpublished slugs", async () => {
+    await expect(getPublicPortfolio("nobody", VISITOR)).rejects.toMatchObject({
+      status: 404,
+    });
+
+    db.state.tables.portfolios[0].is_published = false;
+    await expect(getPublicPortfolio("ada", VISITOR)).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(db.state.rpcCalls).toEqual([]);
+  });
+
+  it("returns the visible sections only, without contact details", async () => {
+    const page = await getPublicPortfolio("ADA", VISITOR);
+
+    expect(page.name).toBe("Ada Lovelace");
+    expect(page.projects.map((p) => p.name)).toEqual(["Engine"]);
+    expect(page.employment).toEqual([]);
+    expect(JSON.stringify(page)).not.toContain("ada@example.com");
+  });
+
+  it("only styles the page with a system theme or the owner's", async () => {
+    db.state.tables.portfolios[0].theme_id = THEME;
+    db.state.tables.themes = [{ id: THEME, user_id: OTHER, name: "Borrowed" }];
+    expect((await getPublicPortfolio("ada", VISITOR)).theme.name).toBeNull();
+
+    db.state.tables.themes[0].user_id = USER;
+    expect((await getPublicPortfolio("ada", VISITOR)).theme.name).toBe(
+      "Borrowed"
+    );
+  });
+
+  it("counts each visitor once per window and skips crawlers", async () => {
+    expect((await getPublicPortfolio("ada", VISITOR)).views).toBe(1);
+    expect((await getPublicPortfolio("ada", VISITOR)).views).toBe(1);
+    expect(
+      (await getPublicPortfolio("ada", { ...VISITOR, ip: "198.51.100.2" }))
+        .views
+    ).toBe(2);
+    await getPublicPortfolio("ada", {
+      ip: "192.0.2.1",
+      userAgent: "Googlebot/2.1",
+    });
+
+    expect(db.state.rpcCalls).toHaveLength(2);
+    expect(db.state.tables.portfolios[0].view_count).toBe(2);
+  });
+});
+
+describe("portfolioService.exportPortfolioBundle", () => {
+  it("404s until the portfolio is set up", async () => {
+    await expect(exportPortfolioBundle(USER)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it("renders the saved settings even when unpublished", async () => {
+    db.state.tables.portfolios = [portfolioRow({ is_published: false })];
+    db.state.tables.profiles = [
+      { id: USER, first_name: "Ada", last_name: "Lovelace" },
+    ];
+
+    const bundle = await exportPortfolioBundle(USER);
+
+    expect(bundle.fileName).toBe("ada-portfolio.zip");
+    expect(bundle.files.map((f) => f.path)).toEqual([
+      "index.html",
+      "styles.css",
+    ]);
+    expect(bundle.files[0].content).toContain("<h1>Ada Lovelace</h1>");
+    expect(db.state.rpcCalls).toEqual([]);
+  });
+});
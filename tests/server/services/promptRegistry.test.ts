@@ -0,0 +1,131 @@
+/**
+ * Tests for services/promptRegistry.ts
+ * Coverage: built-in registration, version lookup, sticky experiment assignment, env splits
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+async function importFreshRegistry() {
+  vi.resetModules();
+  return await import("@server/services/promptRegistry.js");
+}
+
+const researchInput = {
+  companyName: "Acme",
+  industry: null,
+  jobDescription: null,
+};
+
+describe("promptRegistry", () => {
+  beforeEach(() => {
+    delete process.env.PROMPT_EXPERIMENT_COMPANY_RESEARCH;
+  });
+
+  afterEach(() => {
+    delete process.env.PROMPT_EXPERIMENT_COMPANY_RESEARCH;
+  });
+
+  it("registers the existing builders as version 1", async () => {
+    const registry = await importFreshRegistry();
+
+    expect(registry.listPrompts().map((p) => [p.id, p.latest])).toEqual([
+      ["resume", 1],
+      ["cover_letter", 1],
+      ["skills_optimization", 1],
+      ["experience_tailoring", 1],
+      ["company_research", 1],
+    ]);
+
+    const rendered = registry.renderPrompt("company_research", researchInput, {
+      userId: "user-1",
+    });
+    expect(rendered).toMatchObject({
+      id: "company_research",
+      version: 1,
+      assignment: "latest",
+    });
+    expect(rendered.text).toContain("Acme");
+  });
+
+  it("defaults to the latest version and honours requested versions", async () => {
+    const registry = await importFreshRegistry();
+    registry.registerPrompt({
+      id: "company_research",
+      version: 2,
+      description: "shorter",
+      build: (input) => `v2 ${input.companyName}`,
+    });
+
+    expect(
+      registry.renderPrompt("company_research", researchInput, {
+        userId: "user-1",
+      })
+    ).toMatchObject({ version: 2, text: "v2 Acme", assignment: "latest" });
+
+    expect(
+      registry.renderPrompt("company_research", researchInput, {
+        userId: "user-1",
+        version: 1,
+      })
+    ).toMatchObject({ version: 1, assignment: "requested" });
+
+    expect(() =>
+      registry.assignPromptVersion("company_research", "user-1", 7)
+    ).toThrow("unknown prompt version company_research@7");
+  });
+
+  it("splits users between variants and keeps each user on one variant", async () => {
+    const registry = await importFreshRegistry();
+    registry.registerPrompt({
+      id: "company_research",
+      version: 2,
+      description: "shorter",
+      build: (input) => `v2 ${input.companyName}`,
+    });
+    registry.setPromptExperiment("company_research", { 1: 50, 2: 50 });
+
+    const counts: Record<number, number> = { 1: 0, 2: 0 };
+    for (let i = 0; i < 200; i++) {
+      const first = registry.assignPromptVersion("company_research", `u${i}`);
+      const again = registry.assignPromptVersion("company_research", `u${i}`);
+      expect(again).toEqual(first);
+      expect(first.assignment).toBe("experiment");
+      counts[first.version]++;
+    }
+
+    expect(counts[1]).toBeGreaterThan(60);
+    expect(counts[2]).toBeGreaterThan(60);
+  });
+
+  it("reads splits from the env and ignores unregistered versions", async () => {
+    process.env.PROMPT_EXPERIMENT_COMPANY_RESEARCH = "1:50,3:50";
+    const registry = await importFreshRegistry();
+
+    // Version 3 is not registered, so there is nothing to split
+    expect(registry.getPromptExperiment("company_research")).toBeNull();
+
+    registry.registerPrompt({
+      id: "company_research",
+      version: 3,
+      description: "news first",
+      build: () => "v3",
+    });
+    expect(registry.getPromptExperiment("company_research")).toEqual({
+      1: 50,
+      3: 50,
+    });
+  });
+
+  it("rejects non-integer versions", async () => {
+    const registry = await importFreshRegistry();
+
+    expect(() =>
+      registry.registerPrompt({
+        id: "resume",
+        version: 1.5,
+        description: "bad",
+        build: () => "",
+      })
+    ).toThrow("positive integer");
+  });
+});
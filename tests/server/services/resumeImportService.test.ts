@@ -0,0 +1,466 @@
+/**
+ * Tests for services/resumeImportService.ts
+ * Coverage: preview diff against existing rows, AI answer checks, AI gating,
+ * merge writes scoped to the user and per-entry row rules
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * Reads resolve to `rows[table]` (`profile` for profiles); inserts to a new
+ * id and updates to the filtered id, or `writeError` when it is set.
+ */
+const db = await vi.hoisted(async () => {
+  const { createSupabaseStub } = await import("../helpers/supabaseStub");
+  const state = {
+    rows: {} as Record<string, any[]>,
+    profile: null as Record<string, unknown> | null,
+    writeError: null as { message: string } | null,
+  };
+  const stub = createSupabaseStub((query) => {
+    if (query.op === "select") {
+      return query.table === "profiles"
+        ? { data: state.profile, error: null }
+        : { data: state.rows[query.table] ?? [], error: null };
+    }
+    if (state.writeError) return { data: null, error: state.writeError };
+    return query.op === "insert"
+      ? {
+          data: { id: `${query.table}-new-${stub.writes.length}` },
+          error: null,
+        }
+      : { data: [{ id: query.filters.id }], error: null };
+  });
+  return { ...stub, state };
+});
+
+const ai = vi.hoisted(() => ({ generate: vi.fn() }));
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: db.client,
+}));
+
+vi.mock("@server/services/aiClient.js", () => ({
+  default: { generate: ai.generate },
+}));
+
+import {
+  applyAiAnswers,
+  buildImportPreview,
+  mergeResumeImport,
+  previewResumeImport,
+  sanitizeImportRow,
+  type ExistingProfileRows,
+} from "@server/services/resumeImportService.js";
+import { parseResumeText } from "@server/services/resumeParser.js";
+
+const RESUME = `Jane Doe
+Backend Engineer
+jane@example.com | Austin, TX
+
+EXPERIENCE
+Senior Engineer | Acme Corp | Jan 2021 – Present
+• Led the billing migration
+Blue Harbor
+Northwind
+Mar 2017 – Dec 2020
+• Built the invoicing API
+
+SKILLS
+Go, TypeScript
+
+AWARDS
+Hackathon winner 2019
+`;
+
+function existing(
+  overrides: Partial<ExistingProfileRows> = {}
+): ExistingProfileRows {
+  return {
+    profile: null,
+    employment: [],
+    education: [],
+    skills: [],
+    projects: [],
+    certifications: [],
+    ...overrides,
+  };
+}
+
+function upload(text: string) {
+  return { fileName: "resume.txt", content: Buffer.from(text) };
+}
+
+describe("resumeImportService.buildImportPreview", () => {
+  it("marks entries new, update or duplicate against existing rows", () => {
+    const preview = buildImportPreview(
+      parseResumeText(RESUME),
+      existing({
+        profile: { first_name: "Jane", last_name: "Doe", city: "Dallas" },
+        employment: [
+          {
+            id: "emp-1",
+            job_title: "Engineer",
+            company_name: "ACME Corp.",
+            start_date: "2021-01-15",
+            end_date: null,
+            current_position: true,
+            job_description: "Led the billing migration",
+          },
+        ],
+        skills: [{ id: "skill-1", skill_name: "go", skill_category: "Other" }],
+      })
+    );
+
+    const [acme, northwind] = preview.items.filter(
+      (i) => i.section === "employment"
+    );
+    // Same company and start month; only the title differs
+    expect(acme).toMatchObject({
+      action: "update",
+      existingId: "emp-1",
+      changes: [
+        {
+          field: "job_title",
+          current: "Engineer",
+          imported: "Senior Engineer",
+        },
+      ],
+    });
+    expect(northwind).toMatchObject({ action: "new", existingId: null });
+    expect(northwind.ambiguous).toEqual(["job_title", "company_name"]);
+
+    const skills = preview.items.filter((i) => i.section === "skills");
+    expect(skills.map((s) => [s.data.skill_name, s.action])).toEqual([
+      ["Go", "duplicate"],
+      ["TypeScript", "new"],
+    ]);
+
+    expect(preview.profile.changes).toEqual([
+      { field: "full_name", current: null, imported: "Jane Doe" },
+      { field: "city", current: "Dallas", imported: "Austin" },
+      { field: "state", current: null, imported: "TX" },
+      {
+        field: "professional_title",
+        current: null,
+        imported: "Backend Engineer",
+      },
+    ]);
+    expect(preview.unassigned).toEqual(["AWARDS\nHackathon winner 2019"]);
+  });
+
+  it("lists required columns a new entry is missing", () => {
+    const parsed = parseResumeText(
+      "Jane Doe\n\nEDUCATION\nState University\nGraduated 2016\n"
+    );
+    const [school] = buildImportPreview(parsed, existing()).items;
+
+    expect(school.section).toBe("education");
+    expect(school.missing).toEqual(["start_date", "degree_type"]);
+  });
+
+  it("matches skills through taxonomy aliases", () => {
+    const parsed = parseResumeText("Jane Doe\n\nSKILLS\nJS, golang, Rust\n");
+    const preview = buildImportPreview(
+      parsed,
+      existing({
+        skills: [
+          { id: "s-1", skill_name: "JavaScript", skill_category: "Technical" },
+          { id: "s-2", skill_name: "Go", skill_category: "Technical" },
+        ],
+      })
+    );
+
+    expect(
+      preview.items.map((i) => [i.data.skill_name, i.action, i.existingId])
+    ).toEqual([
+      ["JS", "duplicate", "s-1"],
+      ["golang", "duplicate", "s-2"],
+      ["Rust", "new", null],
+    ]);
+  });
+});
+
+describe("resumeImportService.applyAiAnswers", () => {
+  it("accepts only answers found in the entry's text", () => {
+    const parsed = parseResumeText(RESUME);
+
+    const resolved = applyAiAnswers(
+      parsed,
+      {
+        entries: [
+          {
+            id: "employment-1",
+            fields: {
+              job_title: "Northwind",
+              company_name: "Umbrella Corp", // not in the text
+              start_date: "2017-03",
+            },
+          },
+        ],
+      },
+      new Map()
+    );
+
+    const job = parsed.employment[1];
+    expect(resolved).toBe(1);
+    expect(job.data.job_title).toBe("Northwind");
+    expect(job.data.company_name).toBe("Northwind");
+    // start_date was not flagged, so it is left alone
+    expect(job.data.start_date).toBe("2017-03-01");
+    expect(job.ambiguous).toEqual(["company_name"]);
+    expect(job.confidence).toBeGreaterThan(0.33);
+  });
+
+  it("parses an unplaced block with the section the AI picked", () => {
+    const parsed = parseResumeText(
+      "Jane Doe\n\nSKILLS\nGo\n\nAWARDS\nAWS Certified Developer – Amazon, 2022\n"
+    );
+
+    applyAiAnswers(
+      parsed,
+      { blocks: [{ id: "block-0", section: "certifications" }] },
+      new Map([["block-0", 0]])
+    );
+
+    expect(parsed.unassigned).toEqual([]);
+    expect(parsed.certifications.map((c) => c.data)).toEqual([
+      {
+        name: "AWS Certified Developer",
+        issuing_org: "Amazon",
+        date_earned: "2022-01-01",
+        expiration_date: null,
+      },
+    ]);
+  });
+});
+
+describe("resumeImportService.previewResumeImport", () => {
+  beforeEach(() => {
+    ai.generate.mockReset();
+    db.state.rows = {};
+    db.state.profile = null;
+  });
+
+  it("asks the AI only about ambiguous entries and unplaced blocks", async () => {
+    ai.generate.mockResolvedValueOnce({
+      data: {
+        entries: [
+          {
+            id: "employment-1",
+            fields: { job_title: "Blue Harbor", company_name: "Northwind" },
+          },
+        ],
+        blocks: [{ id: "block-0", section: "none" }],
+      },
+    });
+
+    const preview = await previewResumeImport("user-1", upload(RESUME));
+
+    expect(ai.generate).toHaveBeenCalledTimes(1);
+    const [kind, prompt, options] = ai.generate.mock.calls[0];
+    expect(kind).toBe("resume_import");
+    expect(prompt).toContain("employment-1");
+    expect(prompt).not.toContain("employment-0");
+    expect(prompt).toContain("Hackathon winner 2019");
+    expect(options.schema).toBeDefined();
+
+    expect(preview.ai).toEqual({ used: true, resolved: 2 });
+    expect(preview.format).toBe("txt");
+    const northwind = preview.items.find((i) => i.id === "employment-1");
+    expect(northwind?.ambiguous).toEqual([]);
+    expect(northwind?.confidence).toBe(1);
+    expect(preview.unassigned).toHaveLength(1);
+  });
+
+  it("keeps the parser's reading when the AI fails or is turned off", async () => {
+    ai.generate.mockRejectedValueOnce(new Error("AI timeout"));
+
+    const preview = await previewResumeImport("user-1", upload(RESUME));
+    expect(preview.ai).toEqual({ used: false, resolved: 0 });
+    expect(
+      preview.items.filter((i) => i.section === "employment")
+    ).toHaveLength(2);
+
+    ai.generate.mockClear();
+    await previewResumeImport("user-1", upload(RESUME), { useAi: false });
+    expect(ai.generate).not.toHaveBeenCalled();
+  });
+});
+
+describe("resumeImportService.mergeResumeImport", () => {
+  beforeEach(() => {
+    db.writes.length = 0;
+    db.state.writeError = null;
+  });
+
+  it("inserts and updates rows scoped to the user", async () => {
+    const result = await mergeResumeImport("user-1", {
+      profile: { city: "Austin", email: "other@example.com" },
+      items: [
+        {
+          section: "employment",
+          action: "new",
+          data: {
+            job_title: "Engineer",
+            company_name: "Northwind",
+            start_date: "2017-03",
+            end_date: "2020-12-01",
+            current_position: false,
+            user_id: "someone-else",
+          },
+        },
+        {
+          section: "employment",
+          action: "update",
+          existingId: "emp-1",
+          data: { job_title: "Senior Engineer" },
+        },
+        { section: "skills", action: "new", data: { skill_name: "Go" } },
+      ],
+    });
+
+    expect(result).toMatchObject({
+      profileUpdated: true,
+      created: 2,
+      updated: 1,
+      failed: 0,
+    });
+    expect(db.writes[0]).toMatchObject({
+      table: "profiles",
+      op: "update",
+      row: { city: "Austin" },
+      filters: { id: "user-1" },
+    });
+    expect(db.writes[0].row.email).toBeUndefined();
+    expect(db.writes[1]).toMatchObject({
+      table: "employment",
+      op: "insert",
+      row: {
+        job_title: "Engineer",
+        company_name: "Northwind",
+        start_date: "2017-03-01",
+        end_date: "2020-12-01",
+        user_id: "user-1",
+      },
+    });
+    expect(db.writes[2]).toMatchObject({
+      table: "employment",
+      op: "update",
+      row: { job_title: "Senior Engineer" },
+      filters: { id: "emp-1", user_id: "user-1" },
+    });
+    expect(db.writes[3].row).toMatchObject({
+      skill_name: "Go",
+      skill_category: "Technical",
+      proficiency_level: "intermediate",
+      user_id: "user-1",
+    });
+  });
+
+  it("reports entries that cannot be written without stopping the rest", async () => {
+    const result = await mergeResumeImport("user-1", {
+      items: [
+        {
+          section: "projects",
+          action: "new",
+          data: { proj_name: "Ledger" },
+        },
+        {
+          section: "certifications",
+          action: "new",
+          data: { name: "CKA" },
+        },
+      ],
+    });
+
+    expect(result.failed).toBe(1);
+    expect(result.results[0].error).toBe("Missing start_date");
+    expect(result.results[1]).toMatchObject({ error: null, action: "new" });
+    expect(db.writes).toHaveLength(1);
+  });
+
+  it("rejects more entries than one import allows", async () => {
+    await expect(
+      mergeResumeImport("user-1", {
+        items: Array.from({ length: 301 }, () => ({
+          section: "skills" as const,
+          action: "new" as const,
+          data: { skill_name: "Go" },
+        })),
+      })
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe("resumeImportService.sanitizeImportRow", () => {
+  it("follows the tables' date and status rules", () => {
+    expect(
+      sanitizeImportRow(
+        "employment",
+        {
+          job_title: "Engineer",
+          company_name: "Acme",
+          start_date: "2021-01",
+          end_date: "2022-01",
+          current_position: true,
+        },
+        "new"
+      ).row
+    ).toMatchObject({ current_position: true, end_date: null });
+
+    expect(
+      sanitizeImportRow(
+        "education",
+        {
+          institution_name: "State University",
+          degree_type: "B.S.",
+          start_date: "2013-08",
+          graduation_date: "2017-05",
+          currently_enrolled: false,
+          gpa: 5.2,
+        },
+        "new"
+      ).row
+    ).toEqual({
+      institution_name: "State University",
+      degree_type: "B.S.",
+      start_date: "2013-08-01",
+      graduation_date: "2017-05-01",
+      enrollment_status: "not_enrolled",
+    });
+
+    expect(
+      sanitizeImportRow(
+        "projects",
+        { proj_name: "Ledger", start_date: "2023-01", end_date: "2022-01" },
+        "new"
+      ).error
+    ).toBe("The end date is before the start date");
+    expect(
+      sanitizeImportRow(
+        "projects",
+        { proj_name: "Ledger", start_date: "January 2023" },
+        "new"
+      ).error
+    ).toBe("start_date must be YYYY-MM or YYYY-MM-DD");
+  });
+
+  it("saves new skills under their canonical name", () => {
+    expect(
+      sanitizeImportRow("skills", { skill_name: "reactjs" }, "new").row
+    ).toEqual({
+      skill_name: "React",
+      taxonomy_id: "react",
+      skill_category: "Framework",
+      proficiency_level: "intermediate",
+    });
+    expect(
+      sanitizeImportRow("skills", { skill_name: "Basket weaving" }, "new").row
+    ).toMatchObject({
+      skill_name: "Basket weaving",
+      taxonomy_id: null,
+      skill_category: "Technical",
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Tests for services/resumeParser.ts
+ * Coverage: section headings, contact header, employment/education/project
+ * entry splitting, skills categories, certifications, date ranges and the
+ * ambiguity flags the resume import sends to the AI
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  findDateRange,
+  parseResumeDate,
+  parseResumeSection,
+  parseResumeText,
+} from "@server/services/resumeParser.js";
+
+const RESUME = `JANE DOE
+Senior Software Engineer
+jane.doe@example.com | (555) 123-4567 | Austin, TX | github.com/janedoe
+
+SUMMARY
+Backend engineer with eight years of experience building payment systems.
+
+EXPERIENCE
+Senior Software Engineer | Acme Corp | Austin, TX | Jan 2021 – Present
+• Led the migration of the billing platform to Go
+• Cut p99 latency by 40%
+Software Engineer, Globex Inc.
+Mar 2017 - Dec 2020
+• Built the invoicing API
+
+EDUCATION
+University of Texas at Austin
+B.S. in Computer Science, Aug 2013 – May 2017
+GPA: 3.8/4.0, Magna Cum Laude
+
+SKILLS
+Languages: Go, TypeScript, SQL
+Cloud: AWS (Lambda, S3), Terraform
+Communication, Mentoring
+
+PROJECTS
+Ledger CLI | Rust, SQLite | 2022 – 2023
+• Double-entry bookkeeping from the terminal
+https://github.com/janedoe/ledger
+
+CERTIFICATIONS
+AWS Certified Developer – Amazon Web Services, Jun 2022
+Certified Kubernetes Administrator by CNCF (2021)
+
+VOLUNTEER
+Code mentor at Austin Coding Club
+`;
+
+describe("resumeParser.parseResumeText", () => {
+  const parsed = parseResumeText(RESUME);
+
+  it("reads the contact header and summary", () => {
+    expect(parsed.profile).toEqual({
+      full_name: "Jane Doe",
+      first_name: "Jane",
+      last_name: "Doe",
+      email: "jane.doe@example.com",
+      phone: "(555) 123-4567",
+      city: "Austin",
+      state: "TX",
+      professional_title: "Senior Software Engineer",
+      summary:
+        "Backend engineer with eight years of experience building payment systems.",
+    });
+  });
+
+  it("splits employment entries and tells title from company", () => {
+    expect(parsed.employment.map((e) => e.data)).toEqual([
+      {
+        job_title: "Senior Software Engineer",
+        company_name: "Acme Corp",
+        location: "Austin, TX",
+        start_date: "2021-01-01",
+        end_date: null,
+        current_position: true,
+        job_description:
+          "Led the migration of the billing platform to Go\nCut p99 latency by 40%",
+      },
+      {
+        job_title: "Software Engineer",
+        company_name: "Globex Inc.",
+        location: null,
+        start_date: "2017-03-01",
+        end_date: "2020-12-01",
+        current_position: false,
+        job_description: "Built the invoicing API",
+      },
+    ]);
+    expect(parsed.employment.every((e) => e.ambiguous.length === 0)).toBe(true);
+    expect(parsed.employment[0].confidence).toBe(1);
+  });
+
+  it("reads degree, field, dates, GPA and honors", () => {
+    expect(parsed.education).toHaveLength(1);
+    expect(parsed.education[0].data).toEqual({
+      institution_name: "University of Texas at Austin",
+      degree_type: "B.S.",
+      field_of_study: "Computer Science",
+      education_level: "bachelor",
+      start_date: "2013-08-01",
+      graduation_date: "2017-05-01",
+      currently_enrolled: false,
+      gpa: 3.8,
+      honors: "Magna Cum Laude",
+    });
+  });
+
+  it("splits skills lists and categorizes them", () => {
+    expect(parsed.skills.map((s) => s.data)).toEqual([
+      { skill_name: "Go", skill_category: "Technical" },
+      { skill_name: "TypeScript", skill_category: "Technical" },
+      { skill_name: "SQL", skill_category: "Technical" },
+      { skill_name: "AWS (Lambda, S3)", skill_category: "Technical" },
+      { skill_name: "Terraform", skill_category: "Technical" },
+      { skill_name: "Communication", skill_category: "Soft" },
+      { skill_name: "Mentoring", skill_category: "Soft" },
+    ]);
+  });
+
+  it("reads projects with inline tech and a URL", () => {
+    expect(parsed.projects).toHaveLength(1);
+    expect(parsed.projects[0].data).toEqual({
+      proj_name: "Ledger CLI",
+      role: null,
+      proj_description: "Double-entry bookkeeping from the terminal",
+      start_date: "2022-01-01",
+      end_date: "2023-01-01",
+      tech_and_skills: ["Rust", "SQLite"],
+      project_url: "https://github.com/janedoe/ledger",
+    });
+    // Year-only dates are guesses
+    expect(parsed.projects[0].ambiguous).toEqual(["start_date", "end_date"]);
+  });
+
+  it("reads certification issuers and dates", () => {
+    expect(parsed.certifications.map((c) => c.data)).toEqual([
+      {
+        name: "AWS Certified Developer",
+        issuing_org: "Amazon Web Services",
+        date_earned: "2022-06-01",
+        expiration_date: null,
+      },
+      {
+        name: "Certified Kubernetes Administrator",
+        issuing_org: "CNCF",
+        date_earned: "2021-01-01",
+        expiration_date: null,
+      },
+    ]);
+  });
+
+  it("keeps unknown sections for review", () => {
+    expect(parsed.unassigned).toEqual([
+      "VOLUNTEER\nCode mentor at Austin Coding Club",
+    ]);
+  });
+
+  it("leaves text without headings unassigned", () => {
+    const result = parseResumeText("Jane Doe\nSome free-form text about me");
+    expect(result.employment).toEqual([]);
+    expect(result.unassigned).toHaveLength(1);
+  });
+});
+
+describe("resumeParser.parseResumeSection", () => {
+  it("flags title and company when neither reads as one", () => {
+    const [job] = parseResumeSection("employment", [
+      "Blue Harbor",
+      "Northwind",
+      "2019 – 2020",
+    ]).employment;
+
+    expect(job.data.job_title).toBe("Blue Harbor");
+    expect(job.data.company_name).toBe("Northwind");
+    expect(job.ambiguous).toEqual(
+      expect.arrayContaining(["job_title", "company_name", "start_date"])
+    );
+    expect(job.confidence).toBe(0);
+  });
+
+  it("flags a missing start date and reads expected graduation", () => {
+    const [school] = parseResumeSection("education", [
+      "Master of Science in Data Science",
+      "Georgia Institute of Technology, Expected May 2099",
+    ]).education;
+
+    expect(school.data).toMatchObject({
+      institution_name: "Georgia Institute of Technology",
+      degree_type: "Master of Science",
+      field_of_study: "Data Science",
+      education_level: "master",
+      start_date: null,
+      graduation_date: "2099-05-01",
+      currently_enrolled: true,
+    });
+    expect(school.ambiguous).toEqual(["start_date"]);
+  });
+
+  it("categorizes a languages section as spoken languages", () => {
+    const { skills } = parseResumeSection("languages", [
+      "English (native), Spanish (fluent)",
+    ]);
+    expect(skills.map((s) => s.data)).toEqual([
+      { skill_name: "English", skill_category: "Language" },
+      { skill_name: "Spanish", skill_category: "Language" },
+    ]);
+  });
+});
+
+describe("resumeParser dates", () => {
+  it("parses month names, numeric months and years", () => {
+    expect(parseResumeDate("Sept. 2019")).toEqual({
+      date: "2019-09-01",
+      yearOnly: false,
+    });
+    expect(parseResumeDate("07/2020")).toEqual({
+      date: "2020-07-01",
+      yearOnly: false,
+    });
+    expect(parseResumeDate("2018")).toEqual({
+      date: "2018-01-01",
+      yearOnly: true,
+    });
+    expect(parseResumeDate("Smarch 2018")).toBeNull();
+  });
+
+  it("finds ranges ending today and single dates", () => {
+    expect(findDateRange("Acme | June 2020 to Present")).toMatchObject({
+      start: { date: "2020-06-01" },
+      end: null,
+      current: true,
+    });
+    expect(findDateRange("Graduated 2016-05")).toMatchObject({
+      start: null,
+      end: { date: "2016-05-01" },
+    });
+    expect(findDateRange("No dates here")).toBeNull();
+  });
+});
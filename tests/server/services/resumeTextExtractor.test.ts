@@ -0,0 +1,168 @@
+/**
+ * Tests for services/resumeTextExtractor.ts
+ * Coverage: PDF and DOCX text extraction, format detection, text
+ * normalization and the size/type/unreadable errors
+ */
+
+import { describe, it, expect } from "vitest";
+import { crc32 } from "node:zlib";
+import {
+  extractResumeText,
+  MAX_RESUME_FILE_BYTES,
+  normalizeResumeText,
+} from "@server/services/resumeTextExtractor.js";
+
+const LINES = [
+  "Jane Doe",
+  "EXPERIENCE",
+  "Software Engineer at Acme Corp, 2019 - 2022",
+];
+
+/** Single-page PDF with one text line per entry in `lines` */
+function buildPdf(lines: string[]): Buffer {
+  const content = [
+    "BT /F1 12 Tf 72 720 Td 14 TL",
+    ...lines.map((line) => `(${line}) '`),
+    "ET",
+  ].join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+/** Zip archive with uncompressed (stored) entries */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const data = Buffer.from(text, "utf8");
+    const fileName = Buffer.from(name, "utf8");
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, fileName, data);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centrals.length / 2, 8);
+  end.writeUInt16LE(centrals.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function buildDocx(paragraphs: string[]): Buffer {
+  const body = paragraphs
+    .map((text) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`)
+    .join("");
+  return buildZip({
+    "[Content_Types].xml":
+      '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>',
+    "_rels/.rels":
+      '<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>',
+    "word/document.xml": `<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`,
+  });
+}
+
+describe("resumeTextExtractor.extractResumeText", () => {
+  it("reads the text layer of a PDF", async () => {
+    const result = await extractResumeText(buildPdf(LINES), "resume.pdf");
+
+    expect(result.format).toBe("pdf");
+    expect(result.pages).toBe(1);
+    expect(result.text.split("\n")).toEqual(LINES);
+  });
+
+  it("reads DOCX paragraphs as lines, even without an extension", async () => {
+    const result = await extractResumeText(buildDocx(LINES), "resume");
+
+    expect(result).toEqual({
+      format: "docx",
+      text: LINES.join("\n"),
+      pages: 1,
+    });
+  });
+
+  it("detects the format from content rather than the extension", async () => {
+    const result = await extractResumeText(buildPdf(LINES), "resume.txt");
+    expect(result.format).toBe("pdf");
+  });
+
+  it("rejects unsupported, oversized and empty files", async () => {
+    await expect(
+      extractResumeText(
+        Buffer.from("\xd0\xcf\x11\xe0 legacy", "latin1"),
+        "cv.doc"
+      )
+    ).rejects.toMatchObject({ status: 415, code: "unsupported_file_type" });
+    await expect(
+      extractResumeText(buildZip({ "a.txt": "x" }), "archive.zip")
+    ).rejects.toMatchObject({ status: 415 });
+    await expect(
+      extractResumeText(Buffer.alloc(MAX_RESUME_FILE_BYTES + 1), "big.pdf")
+    ).rejects.toMatchObject({ status: 413, code: "file_too_large" });
+    await expect(
+      extractResumeText(buildPdf(["Jane"]), "scan.pdf")
+    ).rejects.toMatchObject({ status: 422, code: "unreadable_file" });
+  });
+
+  it("reports corrupt files as unreadable", async () => {
+    await expect(
+      extractResumeText(Buffer.from("%PDF-1.4\ngarbage"), "resume.pdf")
+    ).rejects.toMatchObject({ status: 422, code: "unreadable_file" });
+    await expect(
+      extractResumeText(buildZip({ "a.txt": "x" }), "resume.docx")
+    ).rejects.toMatchObject({ status: 422, code: "unreadable_file" });
+  });
+});
+
+describe("resumeTextExtractor.normalizeResumeText", () => {
+  it("keeps lines while collapsing spacing and symbol bullets", () => {
+    expect(
+      normalizeResumeText(
+        "  Jane\u00a0 Doe \r\n\r\n\r\n\uf0b7\tLed   the team\r\n"
+      )
+    ).toBe("Jane Doe\n\n• Led the team");
+  });
+});
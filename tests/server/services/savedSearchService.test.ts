@@ -0,0 +1,295 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = await vi.hoisted(async () => {
+  const { createSupabaseStub } = await import("../helpers/supabaseStub");
+  return createSupabaseStub();
+});
+
+const notifications = vi.hoisted(() => ({
+  scheduleSavedSearchDigest: vi.fn(),
+}));
+
+vi.mock("@server/services/supabaseAdmin.js", () => ({
+  default: db.client,
+}));
+vi.mock("@server/services/notificationService.js", () => notifications);
+
+import {
+  createSearch,
+  listSearches,
+  matchesCriteria,
+  runSavedSearchTick,
+  validateSearchInput,
+  type SavedSearchRow,
+} from "@server/services/savedSearchService.js";
+
+const NOW = new Date("2026-10-19T15:00:00.000Z");
+const EARLIER = "2026-10-19T14:00:00+00:00";
+
+function search(overrides: Partial<SavedSearchRow> = {}): SavedSearchRow {
+  return {
+    id: "search-1",
+    user_id: "user-1",
+    name: "Remote React",
+    criteria: { query: "react", remote_type: "remote" },
+    digest_frequency: "off",
+    last_viewed_at: EARLIER,
+    last_evaluated_at: EARLIER,
+    last_digest_at: null,
+    created_at: "2026-10-01T00:00:00+00:00",
+    updated_at: EARLIER,
+    ...overrides,
+  };
+}
+
+function job(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    user_id: "user-1",
+    job_title: "React Engineer",
+    company_name: "Acme",
+    job_description: "Build UIs",
+    industry: "Technology",
+    city_name: "Austin",
+    state_code: "TX",
+    zipcode: "73301",
+    remote_type: "remote",
+    start_salary_range: 110000,
+    end_salary_range: 140000,
+    match_score: null,
+    is_archived: false,
+    updated_at: "2026-10-19T14:30:00.123456+00:00",
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  db.reset();
+  notifications.scheduleSavedSearchDigest
+    .mockReset()
+    .mockResolvedValue({ id: "notif-1" });
+});
+
+describe("savedSearchService.validateSearchInput", () => {
+  it("trims values and drops empty filters", () => {
+    const input = validateSearchInput({
+      name: "  Remote React ",
+      criteria: {
+        query: " react ",
+        industry: "",
+        location: "  ",
+        salary_min: 120000,
+        min_match_score: "",
+        remote_type: "remote",
+        unknown: "ignored",
+      },
+    });
+
+    expect(input).toEqual({
+      name: "Remote React",
+      criteria: { query: "react", salary_min: 120000, remote_type: "remote" },
+      digest_frequency: "off",
+    });
+  });
+
+  it("rejects invalid criteria", () => {
+    expect(() =>
+      validateSearchInput({ name: "x", criteria: { min_match_score: 120 } })
+    ).toThrow("min_match_score must be between 0 and 100");
+    expect(() =>
+      validateSearchInput({ name: "x", criteria: { remote_type: "moon" } })
+    ).toThrow("remote_type must be one of onsite, remote, hybrid");
+    expect(() => validateSearchInput({ criteria: {} })).toThrow(
+      "name is required"
+    );
+  });
+
+  it("only returns the provided fields for partial updates", () => {
+    expect(
+      validateSearchInput({ digest_frequency: "weekly" }, { partial: true })
+    ).toEqual({ digest_frequency: "weekly" });
+    expect(() =>
+      validateSearchInput({ digest_frequency: "hourly" }, { partial: true })
+    ).toThrow("digest_frequency must be one of off, daily, weekly");
+  });
+});
+
+describe("savedSearchService.matchesCriteria", () => {
+  it("matches keywords, location and remote type case-insensitively", () => {
+    expect(matchesCriteria(job(), { query: "REACT", location: "tx" })).toBe(
+      true
+    );
+    expect(matchesCriteria(job(), { location: "Denver" })).toBe(false);
+    expect(matchesCriteria(job(), { remote_type: "onsite" })).toBe(false);
+  });
+
+  it("applies the salary floor to the top of the range", () => {
+    expect(matchesCriteria(job(), { salary_min: 140000 })).toBe(true);
+    expect(matchesCriteria(job(), { salary_min: 150000 })).toBe(false);
+    expect(
+      matchesCriteria(
+        job({ start_salary_range: null, end_salary_range: null }),
+        { salary_min: 1 }
+      )
+    ).toBe(false);
+  });
+
+  it("uses the best known match score and never matches archived jobs", () => {
+    expect(matchesCriteria(job(), { min_match_score: 70 })).toBe(false);
+    expect(matchesCriteria(job(), { min_match_score: 70 }, 75)).toBe(true);
+    expect(
+      matchesCriteria(job({ match_score: 90 }), { min_match_score: 70 })
+    ).toBe(true);
+    expect(matchesCriteria(job({ is_archived: true }), {})).toBe(false);
+  });
+});
+
+describe("savedSearchService data access", () => {
+  it("records current matches as a baseline that is not new", async () => {
+    const stored = search({
+      last_viewed_at: NOW.toISOString(),
+      last_evaluated_at: NOW.toISOString(),
+    });
+    db.queue("saved_searches", { data: stored });
+    db.queue("jobs", {
+      data: [job(), job({ id: 2, job_title: "Java Engineer" })],
+    });
+
+    const result = await createSearch(
+      "user-1",
+      {
+        name: "Remote React",
+        criteria: stored.criteria,
+        digest_frequency: "off",
+      },
+      NOW
+    );
+
+    const [insert] = db.writesTo("saved_searches", "insert");
+    expect(insert.row.last_viewed_at).toBe(NOW.toISOString());
+    const [baseline] = db.writesTo("saved_search_matches", "upsert");
+    expect(baseline.row).toEqual([
+      {
+        search_id: "search-1",
+        job_id: 1,
+        user_id: "user-1",
+        matched_at: NOW.toISOString(),
+      },
+    ]);
+    expect(result).toMatchObject({ match_count: 1, new_count: 0 });
+  });
+
+  it("counts matches made after the search was last viewed as new", async () => {
+    db.queue("saved_searches", { data: [search()] });
+    db.queue("saved_search_matches", {
+      data: [
+        { search_id: "search-1", matched_at: "2026-10-19T13:00:00+00:00" },
+        { search_id: "search-1", matched_at: "2026-10-19T14:05:00+00:00" },
+        { search_id: "search-1", matched_at: "2026-10-19T14:10:00+00:00" },
+      ],
+    });
+
+    const [summary] = await listSearches("user-1");
+
+    expect(summary).toMatchObject({ match_count: 3, new_count: 2 });
+  });
+});
+
+describe("savedSearchService.runSavedSearchTick", () => {
+  it("adds new matches, drops jobs that stopped matching and moves the cursor", async () => {
+    db.queue("saved_searches", { data: [search()] });
+    db.queue("jobs", {
+      data: [job(), job({ id: 2, remote_type: "onsite" })],
+    });
+    db.queue("analytics_cache", { data: [] }, { data: [] });
+    db.queue(
+      "saved_search_matches",
+      { data: [{ job_id: 1 }] },
+      { data: [{ job_id: 2 }] }
+    );
+
+    const result = await runSavedSearchTick({ now: NOW });
+
+    expect(result).toEqual({ searches: 1, matched: 1, removed: 1, digests: 0 });
+    const [upsert] = db.writesTo("saved_search_matches", "upsert");
+    expect(upsert.row.map((r: any) => r.job_id)).toEqual([1]);
+    expect(upsert.options).toMatchObject({ ignoreDuplicates: true });
+    const [removal] = db.writesTo("saved_search_matches", "delete");
+    expect(removal.filters).toMatchObject({
+      search_id: "search-1",
+      job_id: [2],
+    });
+    const [cursor] = db.writesTo("saved_searches", "update");
+    expect(cursor.row).toEqual({ last_evaluated_at: NOW.toISOString() });
+  });
+
+  it("re-checks jobs that were scored since the last evaluation", async () => {
+    const scored = job({ updated_at: "2026-10-18T10:00:00+00:00" });
+    db.queue("saved_searches", {
+      data: [search({ criteria: { min_match_score: 70 } })],
+    });
+    db.queue("jobs", { data: [] }, { data: [scored] });
+    db.queue(
+      "analytics_cache",
+      { data: [{ job_id: 1, created_at: "2026-10-19T14:45:00+00:00" }] },
+      { data: [{ job_id: 1, match_score: 82, created_at: EARLIER }] }
+    );
+    db.queue("saved_search_matches", { data: [{ job_id: 1 }] });
+
+    const result = await runSavedSearchTick({ now: NOW });
+
+    expect(result.matched).toBe(1);
+  });
+
+  it("sends a digest once the period has passed and there are new matches", async () => {
+    const weekly = search({
+      digest_frequency: "weekly",
+      last_digest_at: "2026-10-12T09:00:00+00:00",
+    });
+    db.queue(
+      "saved_searches",
+      { data: [weekly] },
+      { data: [] }, // cursor update
+      { data: [{ id: "search-1" }] } // digest claim
+    );
+    db.queue("jobs", { data: [] });
+    db.queue("analytics_cache", { data: [] });
+    db.queue("saved_search_matches", { count: 3 });
+
+    const result = await runSavedSearchTick({ now: NOW });
+
+    expect(result.digests).toBe(1);
+    const [claim] = db.writesTo("saved_searches", "update").slice(-1);
+    expect(claim.filters).toMatchObject({
+      last_digest_at: "2026-10-12T09:00:00+00:00",
+    });
+    expect(notifications.scheduleSavedSearchDigest).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({
+        sourceId: "saved_search:search-1",
+        title: '3 new jobs match "Remote React"',
+        link: "/jobs/saved-searches?search=search-1",
+      })
+    );
+  });
+
+  it("skips digests that are not due or were claimed elsewhere", async () => {
+    db.queue("saved_searches", {
+      data: [
+        search({
+          id: "search-1",
+          digest_frequency: "daily",
+          last_digest_at: "2026-10-19T08:00:00+00:00",
+        }),
+        search({ id: "search-2", digest_frequency: "daily" }),
+      ],
+    });
+    db.queue("jobs", { data: [] });
+    db.queue("analytics_cache", { data: [] });
+
+    const result = await runSavedSearchTick({ now: NOW });
+
+    expect(result.digests).toBe(0);
+    expect(notifications.scheduleSavedSearchDigest).not.toHaveBeenCalled();
+  });
+});
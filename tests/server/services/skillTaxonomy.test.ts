@@ -0,0 +1,120 @@
+/**
+ * Tests for services/skillTaxonomy.ts
+ * Coverage: alias resolution, free-text names, ancestry, canonical keys,
+ * requirement matching through parents, and the integrity of the bundled data
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  SKILL_TAXONOMY,
+  canonicalSkillKey,
+  compareSkills,
+  createSkillMatcher,
+  normalizeSkill,
+  resolveSkill,
+  skillAncestors,
+  skillKey,
+} from "@server/services/skillTaxonomy.js";
+
+describe("resolveSkill", () => {
+  it("folds spellings and aliases into one entry", () => {
+    for (const name of [
+      "JS",
+      "Javascript",
+      "JavaScript",
+      " javascript ",
+      "ES6",
+    ]) {
+      expect(resolveSkill(name)?.id).toBe("javascript");
+    }
+    expect(resolveSkill("node js")?.name).toBe("Node.js");
+    expect(resolveSkill("NodeJS")?.name).toBe("Node.js");
+    expect(resolveSkill("k8s")?.name).toBe("Kubernetes");
+    expect(resolveSkill("Postgres")?.name).toBe("PostgreSQL");
+  });
+
+  it("keeps symbols that tell languages apart", () => {
+    expect(resolveSkill("C#")?.id).toBe("csharp");
+    expect(resolveSkill("c++")?.id).toBe("cpp");
+    expect(resolveSkill("C")?.id).toBe("c");
+  });
+
+  it("strips filler words from free-text gaps", () => {
+    expect(resolveSkill("Kubernetes experience")?.id).toBe("kubernetes");
+    expect(resolveSkill("experience with GraphQL")?.id).toBe("graphql");
+    expect(resolveSkill("Underwater basket weaving")).toBeNull();
+  });
+});
+
+describe("normalizeSkill", () => {
+  it("returns the canonical name, category and ancestry", () => {
+    expect(normalizeSkill("reactjs")).toEqual({
+      id: "react",
+      name: "React",
+      category: "Framework",
+      path: ["JavaScript", "Frontend Development"],
+    });
+    expect(skillAncestors("react").map((s) => s.id)).toEqual([
+      "javascript",
+      "frontend",
+    ]);
+  });
+
+  it("keeps unknown skills as typed", () => {
+    expect(normalizeSkill("  Basket Weaving ")).toEqual({
+      id: null,
+      name: "Basket Weaving",
+      category: null,
+      path: [],
+    });
+    expect(canonicalSkillKey("Basket-Weaving")).toBe(
+      canonicalSkillKey("basket weaving")
+    );
+  });
+});
+
+describe("skill matching", () => {
+  it("lets child skills satisfy their parents, not the reverse", () => {
+    const hasSkill = createSkillMatcher(["React", "postgres"]);
+
+    expect(hasSkill("JavaScript")).toBe(true);
+    expect(hasSkill("Frontend Development")).toBe(true);
+    expect(hasSkill("SQL")).toBe(true);
+    expect(hasSkill("reactjs")).toBe(true);
+    expect(createSkillMatcher(["JavaScript"])("React")).toBe(false);
+  });
+
+  it("splits requirements into matched and missing, once per skill", () => {
+    expect(
+      compareSkills(
+        ["js", "Docker", "Basket Weaving"],
+        ["JavaScript", "Javascript", "Kubernetes", "k8s", "basket weaving", ""]
+      )
+    ).toEqual({
+      matched: ["JavaScript", "basket weaving"],
+      missing: ["Kubernetes"],
+    });
+  });
+});
+
+describe("bundled taxonomy", () => {
+  it("has unique ids, known parents and no cycles", () => {
+    const ids = SKILL_TAXONOMY.map((s) => s.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const skill of SKILL_TAXONOMY) {
+      if (skill.parent) expect(ids).toContain(skill.parent);
+      expect(skillAncestors(skill.id).map((s) => s.id)).not.toContain(skill.id);
+    }
+  });
+
+  it("resolves every name and alias to its own entry", () => {
+    for (const skill of SKILL_TAXONOMY) {
+      for (const form of [skill.name, ...skill.aliases]) {
+        expect(`${form} -> ${resolveSkill(form)?.id}`).toBe(
+          `${form} -> ${skill.id}`
+        );
+      }
+    }
+    expect(skillKey("CI/CD")).toBe(skillKey("ci cd"));
+  });
+});
@@ -1,12 +1,17 @@
 /**
  * Tests for server/src/observability/metrics.ts
- * Coverage: recordRequest(), getMetricsSnapshot(), resetMetrics()
+ * Coverage: recordRequest(), recordAiCall(), recordScraperAttempt(),
+ * getMetricsSnapshot(), renderMetrics(), normalizeRoute(), resetMetrics()
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import {
   recordRequest,
+  recordAiCall,
+  recordScraperAttempt,
   getMetricsSnapshot,
+  renderMetrics,
+  normalizeRoute,
   resetMetrics,
 } from "../../../server/src/observability/metrics.js";
 
@@ -80,4 +85,102 @@ describe("Observability Metrics", () => {
       snapshot.totals.latency_ms.p50
     );
   });
+
+  it("should count every request in the window, not a bounded sample", () => {
+    const now = 3_000_000;
+    vi.spyOn(Date, "now").mockReturnValue(now);
+
+    for (let i = 0; i < 5000; i++) {
+      recordRequest({
+        ts: now - 1_000,
+        duration_ms: i < 4900 ? 20 : 4000,
+        status: i < 4900 ? 200 : 503,
+        method: "GET",
+        path: "/api/jobs",
+      });
+    }
+
+    const snapshot = getMetricsSnapshot({ windowSeconds: 60 });
+
+    expect(snapshot.totals.count).toBe(5000);
+    expect(snapshot.totals.status["5xx"]).toBe(100);
+    // The slowest 2% land in the 2.5s-5s bucket
+    expect(snapshot.totals.latency_ms.p99).toBeGreaterThan(2500);
+    expect(snapshot.totals.latency_ms.p50).toBeLessThanOrEqual(25);
+  });
+
+  it("should normalize ids in routes", () => {
+    expect(
+      normalizeRoute("/api/jobs/3f2c1b7e-9d7a-4c55-8f0e-2b1f6a9c0d11?x=1")
+    ).toBe("/api/jobs/:id");
+    expect(normalizeRoute("/api/interviews/42/feedback")).toBe(
+      "/api/interviews/:id/feedback"
+    );
+    expect(normalizeRoute("/api/analytics/salary")).toBe(
+      "/api/analytics/salary"
+    );
+  });
+
+  it("should render counters and histograms in OpenMetrics format", () => {
+    vi.spyOn(Date, "now").mockReturnValue(4_000_000);
+    recordRequest({
+      ts: 4_000_000,
+      duration_ms: 30,
+      status: 200,
+      method: "GET",
+      path: "/api/jobs/123",
+    });
+    recordAiCall({
+      kind: "cover_letter",
+      provider: "openai",
+      duration_ms: 1200,
+      ok: true,
+      tokens: 850,
+    });
+    recordAiCall({
+      kind: "cover_letter",
+      provider: "openai",
+      duration_ms: 300,
+      ok: false,
+    });
+    recordScraperAttempt({
+      strategy: "fetch-basic",
+      duration_ms: 400,
+      ok: false,
+    });
+
+    const text = renderMetrics("openmetrics");
+    const lines = text.split("\n");
+
+    expect(lines).toContain("# TYPE http_requests counter");
+    expect(lines).toContain(
+      'http_requests_total{method="GET",route="/api/jobs/:id",status="200"} 1'
+    );
+    expect(lines).toContain(
+      'http_request_duration_seconds_bucket{method="GET",route="/api/jobs/:id",status="200",le="0.025"} 0'
+    );
+    expect(lines).toContain(
+      'http_request_duration_seconds_bucket{method="GET",route="/api/jobs/:id",status="200",le="0.05"} 1'
+    );
+    expect(lines).toContain(
+      'http_request_duration_seconds_bucket{method="GET",route="/api/jobs/:id",status="200",le="+Inf"} 1'
+    );
+    expect(lines).toContain(
+      'ai_requests_total{kind="cover_letter",provider="openai",outcome="error"} 1'
+    );
+    expect(lines).toContain(
+      'ai_tokens_total{kind="cover_letter",provider="openai"} 850'
+    );
+    expect(lines).toContain(
+      'ai_request_duration_seconds_count{kind="cover_letter",provider="openai"} 2'
+    );
+    expect(lines).toContain(
+      'scraper_attempts_total{strategy="fetch-basic",outcome="error"} 1'
+    );
+    expect(text.endsWith("# EOF\n")).toBe(true);
+
+    const prometheus = renderMetrics("prometheus");
+    expect(prometheus).toContain("# TYPE http_requests_total counter");
+    expect(prometheus).not.toContain("# EOF");
+  });
 });
@@ -4,6 +4,12 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { checkLimit as realCheckLimit } from "@utils/rateLimiter.js";
+import { createCacheService } from "@server/services/cacheService.js";
+import {
+  createMemoryStore,
+  setCacheStore,
+} from "@server/services/cacheStore.js";
 
 // Simple in-memory rate limiter implementation for testing
 const limits = new Map<string, { count: number; resetAt: number }>();
@@ -174,3 +180,32 @@ describe("Rate Limiter", () => {
     });
   });
 });
+
+describe("checkLimit on the shared cache store", () => {
+  afterEach(() => {
+    setCacheStore(null);
+  });
+
+  it("blocks after max hits and reports when the window resets", async () => {
+    setCacheStore(createMemoryStore(createCacheService()));
+
+    for (let i = 0; i < 3; i++) {
+      expect((await realCheckLimit("ip:a", 3, 60_000)).ok).toBe(true);
+    }
+    const blocked = await realCheckLimit("ip:a", 3, 60_000);
+
+    expect(blocked).toEqual({ ok: false, retryAfterSec: 60 });
+    expect((await realCheckLimit("ip:b", 3, 60_000)).ok).toBe(true);
+  });
+
+  it("allows requests when the store is unreachable", async () => {
+    setCacheStore({
+      ...createMemoryStore(createCacheService()),
+      hit: () => Promise.reject(new Error("ECONNREFUSED")),
+    });
+
+    await expect(realCheckLimit("ip:a", 1, 60_000)).resolves.toEqual({
+      ok: true,
+    });
+  });
+});